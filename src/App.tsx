@@ -24,13 +24,23 @@ import { CategoryHistoryAnalysis } from './components/CategoryHistoryAnalysis';
 import { SLAHistoryAnalysis } from './components/SLAHistoryAnalysis';
 import { AIAnalyst } from './components/AIAnalyst';
 import { ShiftHistoryAnalysis } from './components/ShiftHistoryAnalysis';
+import { StaffingCoverageAnalysis } from './components/StaffingCoverageAnalysis';
 import { LoginScreen } from './components/prod/LoginScreen';
 import { RequestDashboard } from './components/RequestDashboard';
+import { BacklogDashboard } from './components/BacklogDashboard';
 import { HistoricalDataAnalysis } from './components/HistoricalDataAnalysis';
-import { FileUploadSelector } from './components/FileUploadSelector';
+import { DatasetLibrary } from './components/DatasetLibrary';
 import { TopLocationCards } from './components/TopLocationCards';
 import { CategoryHistoryTop5 } from './components/CategoryHistoryTop5';
 import { LocationHistoryTop5 } from './components/LocationHistoryTop5';
+import { ChangeCorrelationAnalysis } from './components/ChangeCorrelationAnalysis';
+import { ProblemManagement } from './components/ProblemManagement';
+import { ConfigurationItemImpact } from './components/ConfigurationItemImpact';
+import { SLAPolicyManager } from './components/SLAPolicyManager';
+import { LocationDirectoryManager } from './components/LocationDirectoryManager';
+import { CategoryRuleManager } from './components/CategoryRuleManager';
+import { StalenessRuleManager } from './components/StalenessRuleManager';
+import { PriorityMatrixManager } from './components/PriorityMatrixManager';
 import { MonthlyLocationSummary } from './components/MonthlyLocationSummary';
 import { ExecutiveDashboard } from './components/ExecutiveDashboard';
 import { PendingIncidentsAnalysis } from './components/PendingIncidentsAnalysis';
@@ -44,7 +54,19 @@ import { ComparativeVolumetry } from './components/ComparativeVolumetry';
 import { LocationDistribution } from './components/LocationDistribution';
 import type { Incident } from './types/incident';
 import type { Request } from './types/request';
+import type { DatasetMeta, StoredDataset } from './types/dataset';
+import type { StalenessRule } from './types/staleness';
+import type { PriorityModel } from './types/priority';
+import type { Language } from './types/i18n';
 import { getIncidentState, isHighPriority, isCancelled, normalizePriority } from './utils/incidentUtils';
+import { parseDateToISO } from './utils/dateUtils';
+import { restoreDataset, setLastUsedDatasetId } from './utils/datasetUtils';
+import { restoreStateHistory } from './utils/slaPauseUtils';
+import { findUnmappedLocationGroups } from './utils/locationUtils';
+import { applyCategoryRules, getNormalizedCategory } from './utils/categoryUtils';
+import { findStaleIncidents, loadStalenessRules } from './utils/stalenessUtils';
+import { loadPriorityModel } from './utils/priorityUtils';
+import { loadLanguage, saveLanguage, t } from './utils/i18nUtils';
 import environment from './config/environment';
 import { 
   BarChart3, 
@@ -66,7 +88,7 @@ import {
   Calendar,
   PieChart
 } from 'lucide-react';
-import { format, isWithinInterval, parseISO, addDays, subDays, startOfDay, endOfDay, startOfYear, differenceInHours } from 'date-fns';
+import { format, isWithinInterval, parseISO, addDays, subDays, startOfDay, endOfDay, startOfYear } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Auth } from './components/Auth';
 import { logout } from './utils/authUtils';
@@ -75,18 +97,75 @@ import { TopIncidentsByStringAssociado } from './components/TopIncidentsByString
 import { MonthlyVariation } from './components/MonthlyVariation';
 import { MonthlyLocationVariation } from './components/MonthlyLocationVariation';
 
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hour
-  P2: 4,   // 4 hours
-  P3: 36,  // 36 hours
-  P4: 72   // 72 hours
-};
-
 const AUTH_KEY = 'app_auth_state';
 
+// Normaliza os incidentes recebidos antes de exibi-los no dashboard
+const prepareLoadedIncidents = (data: Incident[]): Incident[] => {
+  const processedData = data.map(incident => {
+    const processed = {
+      ...incident,
+      Category: incident.Category || 'Não categorizado',
+      Number: String(incident.Number),
+      Opened: incident.Opened || new Date().toISOString(),
+      State: incident.State || 'Aberto',
+      Priority: incident.Priority || 'Não definido'
+    };
+    return processed;
+  });
+
+  console.log("Total de incidentes após processamento inicial:", processedData.length);
+  console.log("=== FIM DO PROCESSAMENTO INICIAL ===");
+
+  // Garantir que todos os campos Opened estejam em formato ISO válido
+  const processedDataISO = processedData.map(incident => {
+    let opened = incident.Opened;
+    let isoDate = parseDateToISO(opened);
+    
+    if (!isoDate) {
+      console.warn(`Campo Opened inválido: ${opened}`);
+      // Em vez de substituir pela data atual, vamos tentar extrair a data do número do incidente
+      const incidentNumber = incident.Number;
+      if (incidentNumber) {
+        const match = incidentNumber.match(/(\d{4})(\d{2})(\d{2})/);
+        if (match) {
+          const [_, ano, mes, dia] = match;
+          const dt = new Date(`${ano}-${mes}-${dia}T00:00:00`);
+          if (!isNaN(dt.getTime())) {
+            isoDate = dt.toISOString();
+            console.log(`Data extraída do número do incidente: ${isoDate}`);
+          }
+        }
+      }
+      
+      if (!isoDate) {
+        isoDate = new Date().toISOString();
+        console.warn(`Usando data atual como fallback para incidente ${incident.Number}`);
+      }
+    }
+    
+    return { ...incident, Opened: isoDate };
+  });
+
+  console.log("Total de incidentes após processamento de datas:", processedDataISO.length);
+  console.log("=== FIM DO PROCESSAMENTO DE DATAS ===");
+
+  return applyCategoryRules(processedDataISO);
+};
+
 function App() {
   const [showRequestDashboard, setShowRequestDashboard] = useState(false);
   const [showExecutiveDashboard, setShowExecutiveDashboard] = useState(false);
+  const [showBacklogDashboard, setShowBacklogDashboard] = useState(false);
+  const [showSLAPolicies, setShowSLAPolicies] = useState(false);
+  const [showLocationDirectory, setShowLocationDirectory] = useState(false);
+  const [showCategoryRules, setShowCategoryRules] = useState(false);
+  const [showStalenessRules, setShowStalenessRules] = useState(false);
+  const [showPriorityModel, setShowPriorityModel] = useState(false);
+  const [priorityModel, setPriorityModel] = useState<PriorityModel>(() => loadPriorityModel());
+  const [stalenessRules, setStalenessRules] = useState<StalenessRule[]>(() => loadStalenessRules());
+  const [language, setLanguage] = useState<Language>(() => loadLanguage());
+  // Incrementado quando políticas de SLA ou o diretório de localidades mudam, para remontar as telas abertas
+  const [settingsVersion, setSettingsVersion] = useState(0);
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [requests, setRequests] = useState<Request[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -123,6 +202,8 @@ function App() {
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
   const [showHistoricalData, setShowHistoricalData] = useState(false);
   const [showFileSelector, setShowFileSelector] = useState(true);
+  const [activeDataset, setActiveDataset] = useState<DatasetMeta | null>(null);
+  const [isRestoringDataset, setIsRestoringDataset] = useState(true);
   const [showCategoryHistoryTop5, setShowCategoryHistoryTop5] = useState(false);
   const [showLocationHistoryTop5, setShowLocationHistoryTop5] = useState(false);
   const [showMonthlyLocationSummary, setShowMonthlyLocationSummary] = useState(false);
@@ -142,40 +223,7 @@ function App() {
   });
 
   const categories = useMemo(() => {
-    const uniqueCategories = new Set(incidents.map(i => {
-      const category = i.Category?.trim() || 'Não categorizado';
-      if (category.toLowerCase().includes('backup') || category.toLowerCase().includes('restore')) {
-        return 'Backup/Restore';
-      }
-      if (category.toLowerCase().includes('security') || category.toLowerCase().includes('segurança')) {
-        return 'IT Security';
-      }
-      if (category.toLowerCase().includes('monitor')) {
-        return 'Monitoring';
-      }
-      if (category.toLowerCase().includes('rede') || category.toLowerCase().includes('network')) {
-        return 'Network';
-      }
-      if (category.toLowerCase().includes('servidor') || category.toLowerCase().includes('server')) {
-        return 'Server';
-      }
-      if (category.toLowerCase().includes('suporte') || category.toLowerCase().includes('support')) {
-        return 'Service Support';
-      }
-      if (category.toLowerCase().includes('software') || category.toLowerCase().includes('programa')) {
-        return 'Software';
-      }
-      if (category.toLowerCase().includes('hardware') || category.toLowerCase().includes('equipment')) {
-        return 'Hardware';
-      }
-      if (category.toLowerCase().includes('cloud') || category.toLowerCase().includes('nuvem')) {
-        return 'Cloud';
-      }
-      if (category.toLowerCase().includes('database') || category.toLowerCase().includes('banco de dados')) {
-        return 'Database';
-      }
-      return category;
-    }));
+    const uniqueCategories = new Set(incidents.map(getNormalizedCategory));
     return Array.from(uniqueCategories).sort();
   }, [incidents]);
 
@@ -249,7 +297,7 @@ function App() {
       
       if (!query) {
         const matchesCategory = selectedCategory
-          ? incident.Category?.toLowerCase().includes(selectedCategory.toLowerCase())
+          ? getNormalizedCategory(incident) === selectedCategory
           : true;
 
         const matchesStatus = selectedStatus
@@ -299,18 +347,18 @@ function App() {
    * Usado para alertas e estatísticas de chamados críticos pendentes.
    * 
    * Critérios:
-   * - Prioridade alta (P1 ou P2)
+   * - Prioridade alta conforme o modelo de prioridade (P1 e P2 por padrão)
    * - Estado diferente de 'Fechado'
    * - Não cancelado
    */
   const criticalPendingIncidents = useMemo(() => {
     return incidents.filter(incident => {
-      const isPriority = isHighPriority(incident.Priority);
+      const isPriority = isHighPriority(incident.Priority, priorityModel);
       const state = getIncidentState(incident.State);
       const cancelled = isCancelled(incident.State);
       return isPriority && state !== 'Fechado' && !cancelled;
     });
-  }, [incidents]);
+  }, [incidents, priorityModel]);
 
   /**
    * Retorna os incidentes que estão pendentes (nem fechados, nem cancelados, nem em espera).
@@ -334,6 +382,15 @@ function App() {
     });
   }, [incidents]);
 
+  // Grupos designados sem localidade no diretório, sinalizados no cabeçalho.
+  // O diretório fica fora do estado do React; settingsVersion muda a cada gravação
+  // e é a única forma de recalcular quando ele é editado
+  const unmappedLocationGroups = useMemo(() => findUnmappedLocationGroups([
+    ...incidents.map(incident => incident.AssignmentGroup),
+    ...requests.map(request => request.AssignmentGroup)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  ]), [incidents, requests, settingsVersion]);
+
   /**
    * Retorna os incidentes que estão em espera (hold, pending, aguardando), excluindo cancelados.
    * Usado para contagem e exibição de chamados em espera.
@@ -351,43 +408,12 @@ function App() {
   }, [filteredIncidents]);
 
   /**
-   * Retorna os incidentes que estão fora da regra (>48h abertos), excluindo cancelados e em espera.
-   * Usado para contagem e exibição de chamados fora do prazo.
-   * 
-   * Critérios:
-   * - Não cancelado
-   * - Não está em espera (hold, pending, aguardando)
-   * - Estado aberto, em andamento ou atribuído
-   * - Mais de 48h desde a última atualização
+   * Chamados sem atualização além do limite da regra que se aplica a eles
+   * (prioridade, estado e localidade). Cancelados e fechados ficam de fora.
    */
   const outOfRuleIncidents = useMemo(() => {
-    return filteredIncidents.filter(incident => {
-      const state = incident.State?.toLowerCase() || '';
-      const cancelled = isCancelled(incident.State);
-      if (cancelled) return false;
-      // Exclude On Hold incidents
-      if (state.includes('hold') || state.includes('pending') || state.includes('aguardando')) {
-        return false;
-      }
-      // Check if incident is Open, In Progress, or Assigned
-      const isValidState = state.includes('open') || 
-                          state.includes('in progress') || 
-                          state.includes('assigned') ||
-                          state.includes('aberto') ||
-                          state.includes('em andamento') ||
-                          state.includes('atribuído');
-      if (!isValidState) return false;
-      try {
-        // Check if it's been in this state for more than 48 hours
-        const now = new Date();
-        const lastUpdate = incident.Updated ? parseISO(incident.Updated) : now;
-        const hoursElapsed = differenceInHours(now, lastUpdate);
-        return hoursElapsed > 48;
-      } catch (error) {
-        return false;
-      }
-    });
-  }, [filteredIncidents]);
+    return findStaleIncidents(filteredIncidents, stalenessRules);
+  }, [filteredIncidents, stalenessRules]);
 
   const stats = useMemo(() => {
     if (!filteredIncidents.length) return null;
@@ -398,10 +424,10 @@ function App() {
     const totalItems = totalIncidents + totalRequests;
 
     const highPriorityIncidents = filteredIncidents.filter(i => 
-      isHighPriority(i.Priority)
+      isHighPriority(i.Priority, priorityModel)
     ).length;
 
-    const uniqueCategories = new Set(filteredIncidents.map(i => i.Category)).size;
+    const uniqueCategories = new Set(filteredIncidents.map(getNormalizedCategory)).size;
 
     const criticalPendingCount = criticalPendingIncidents.length;
     const pendingCount = pendingIncidents.length;
@@ -421,7 +447,7 @@ function App() {
       outOfRule: outOfRuleCount,
       trend
     };
-  }, [filteredIncidents, requests, criticalPendingIncidents, pendingIncidents, onHoldIncidents, outOfRuleIncidents]);
+  }, [filteredIncidents, requests, criticalPendingIncidents, pendingIncidents, onHoldIncidents, outOfRuleIncidents, priorityModel]);
 
   const handleIncidentsLoaded = (data: Incident[]) => {
     console.log("=== INÍCIO DO PROCESSAMENTO DE INCIDENTES ===");
@@ -448,147 +474,46 @@ function App() {
     setShowAIAnalyst(false);
     setSelectedIncident(null);
 
-    const processedData = data.map(incident => {
-      const processed = {
-        ...incident,
-        Category: incident.Category || 'Não categorizado',
-        Number: String(incident.Number),
-        Opened: incident.Opened || new Date().toISOString(),
-        State: incident.State || 'Aberto',
-        Priority: incident.Priority || 'Não definido'
-      };
-      return processed;
-    });
-
-    console.log("Total de incidentes após processamento inicial:", processedData.length);
-    console.log("=== FIM DO PROCESSAMENTO INICIAL ===");
-
-    // Função para converter datas brasileiras para ISO
-    function parseDateBR(dateStr: string) {
-      if (!dateStr) return '';
-      
-      try {
-        // Remove possíveis caracteres extras
-        dateStr = dateStr.trim().replace(/['"]/g, '');
-        
-        // Tenta diferentes formatos de data
-        const formats = [
-          // Formato ISO direto
-          () => {
-            const iso = Date.parse(dateStr);
-            if (!isNaN(iso)) return new Date(iso).toISOString();
-            return null;
-          },
-          // Formato brasileiro dd/MM/yyyy HH:mm:ss
-          () => {
-            const match = dateStr.match(/(\d{2})\/(\d{2})\/(\d{4})[ T](\d{2}):(\d{2}):(\d{2})/);
-            if (match) {
-              const [_, dia, mes, ano, hora, min, seg] = match;
-              const dt = new Date(`${ano}-${mes}-${dia}T${hora}:${min}:${seg}`);
-              if (!isNaN(dt.getTime())) return dt.toISOString();
-            }
-            return null;
-          },
-          // Formato brasileiro dd/MM/yyyy HH:mm
-          () => {
-            const match = dateStr.match(/(\d{2})\/(\d{2})\/(\d{4})[ T](\d{2}):(\d{2})/);
-            if (match) {
-              const [_, dia, mes, ano, hora, min] = match;
-              const dt = new Date(`${ano}-${mes}-${dia}T${hora}:${min}:00`);
-              if (!isNaN(dt.getTime())) return dt.toISOString();
-            }
-            return null;
-          },
-          // Formato brasileiro dd/MM/yyyy
-          () => {
-            const match = dateStr.match(/(\d{2})\/(\d{2})\/(\d{4})/);
-            if (match) {
-              const [_, dia, mes, ano] = match;
-              const dt = new Date(`${ano}-${mes}-${dia}T00:00:00`);
-              if (!isNaN(dt.getTime())) return dt.toISOString();
-            }
-            return null;
-          },
-          // Formato numérico do Excel (dias desde 1900-01-01)
-          () => {
-            const num = parseFloat(dateStr);
-            if (!isNaN(num)) {
-              // Excel usa 1900-01-01 como base, mas tem um bug onde considera 1900 como ano bissexto
-              // Ajustamos isso subtraindo 1 dia se a data for maior que 1900-02-28
-              const baseDate = new Date(1900, 0, 1);
-              const days = Math.floor(num);
-              const milliseconds = (num - days) * 24 * 60 * 60 * 1000;
-              const date = new Date(baseDate.getTime() + (days - 1) * 24 * 60 * 60 * 1000 + milliseconds);
-              if (!isNaN(date.getTime())) return date.toISOString();
-            }
-            return null;
-          }
-        ];
-
-        // Tenta cada formato até encontrar um válido
-        for (const format of formats) {
-          const result = format();
-          if (result) return result;
-        }
-
-        console.warn(`Formato de data não reconhecido: ${dateStr}`);
-        return '';
-      } catch (e) {
-        console.error(`Erro ao processar data: ${dateStr}`, e);
-        return '';
-      }
-    }
-
-    // Garantir que todos os campos Opened estejam em formato ISO válido
-    const processedDataISO = processedData.map(incident => {
-      let opened = incident.Opened;
-      let isoDate = parseDateBR(opened);
-      
-      if (!isoDate) {
-        console.warn(`Campo Opened inválido: ${opened}`);
-        // Em vez de substituir pela data atual, vamos tentar extrair a data do número do incidente
-        const incidentNumber = incident.Number;
-        if (incidentNumber) {
-          const match = incidentNumber.match(/(\d{4})(\d{2})(\d{2})/);
-          if (match) {
-            const [_, ano, mes, dia] = match;
-            const dt = new Date(`${ano}-${mes}-${dia}T00:00:00`);
-            if (!isNaN(dt.getTime())) {
-              isoDate = dt.toISOString();
-              console.log(`Data extraída do número do incidente: ${isoDate}`);
-            }
-          }
-        }
-        
-        if (!isoDate) {
-          isoDate = new Date().toISOString();
-          console.warn(`Usando data atual como fallback para incidente ${incident.Number}`);
-        }
-      }
-      
-      return { ...incident, Opened: isoDate };
-    });
-
-    console.log("Total de incidentes após processamento de datas:", processedDataISO.length);
-    console.log("=== FIM DO PROCESSAMENTO DE DATAS ===");
-
-    setIncidents(processedDataISO);
-    
-    if (requests.length > 0) {
-      setShowFileSelector(false);
-    }
+    setIncidents(prepareLoadedIncidents(data));
   };
 
-  const handleRequestsLoaded = (data: Request[]) => {
-    console.log("handleRequestsLoaded called with", data.length, "requests");
-    setRequests(data);
-    
-    // If we already have incidents data, hide the file selector
-    if (incidents.length > 0) {
-      setShowFileSelector(false);
+  const handleDatasetOpened = (dataset: StoredDataset) => {
+    handleIncidentsLoaded(dataset.incidents);
+    setRequests(dataset.requests);
+    setActiveDataset(dataset.meta);
+    if (dataset.meta.id) {
+      setLastUsedDatasetId(dataset.meta.id);
     }
+    setShowFileSelector(false);
   };
 
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Restaura o último conjunto de dados usado (ou o padrão) ao abrir o dashboard
+  useEffect(() => {
+    let cancelled = false;
+    // O histórico de estados vem antes para que o SLA líquido já considere as pausas
+    restoreStateHistory()
+      .catch(error => console.warn('Não foi possível restaurar o histórico de estados:', error))
+      .then(() => restoreDataset())
+      .then(dataset => {
+        if (cancelled || !dataset) return;
+        setIncidents(prepareLoadedIncidents(dataset.incidents));
+        setRequests(dataset.requests);
+        setActiveDataset(dataset.meta);
+        setShowFileSelector(false);
+      })
+      .catch(error => console.warn('Não foi possível restaurar o conjunto de dados:', error))
+      .finally(() => {
+        if (!cancelled) setIsRestoringDataset(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const handleCloseIncidentDetails = () => {
     setSelectedIncident(null);
     setSearchQuery('');
@@ -603,6 +528,7 @@ function App() {
     setIsAuthenticated(false);
     localStorage.removeItem(AUTH_KEY);
     setShowFileSelector(true);
+    setActiveDataset(null);
     setIncidents([]);
     setRequests([]);
   };
@@ -613,6 +539,13 @@ function App() {
     window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' });
   };
 
+  // Troca o idioma e remonta as telas abertas para que usem o novo catálogo
+  const handleLanguageChange = (value: Language) => {
+    saveLanguage(value);
+    setLanguage(value);
+    setSettingsVersion(version => version + 1);
+  };
+
   function handleSectionClick(section: string) {
     if (section === 'executive-modal') {
       setShowExecutiveMenu(true);
@@ -628,9 +561,12 @@ function App() {
   if (showExecutiveDashboard) {
     return (
       <ExecutiveDashboard 
+        key={language}
         incidents={filteredIncidents} 
         requests={requests} 
         onBack={() => setShowExecutiveDashboard(false)} 
+        language={language}
+        onLanguageChange={handleLanguageChange}
       />
     );
   }
@@ -639,6 +575,10 @@ function App() {
     return <RequestDashboard onBack={() => setShowRequestDashboard(false)} requests={requests} />;
   }
 
+  if (showBacklogDashboard) {
+    return <BacklogDashboard onBack={() => setShowBacklogDashboard(false)} />;
+  }
+
   console.log("Current incidents count:", incidents.length);
   console.log("Current requests count:", requests.length);
   console.log("Filtered incidents count:", filteredIncidents.length);
@@ -648,17 +588,31 @@ function App() {
       <DashboardHeader
         title={environment.appTitle}
         onLogout={handleLogout}
+        language={language}
+        onLanguageChange={handleLanguageChange}
         {...(!showFileSelector && {
           onShowRequestDashboard: () => setShowRequestDashboard(true),
+          onShowBacklogDashboard: () => setShowBacklogDashboard(true),
           onShowExecutiveDashboard: () => setShowExecutiveDashboard(true),
+          onShowDatasetLibrary: () => setShowFileSelector(true),
+          onShowSLAPolicies: () => setShowSLAPolicies(true),
+          onShowLocationDirectory: () => setShowLocationDirectory(true),
+          onShowCategoryRules: () => setShowCategoryRules(true),
+          onShowPriorityModel: () => setShowPriorityModel(true),
+          unmappedLocationCount: unmappedLocationGroups.length,
+          datasetName: activeDataset?.name,
         })}
       />
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {showFileSelector ? (
+      <main key={settingsVersion} className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isRestoringDataset ? (
+          <div className="flex items-center justify-center py-24 text-gray-400">
+            {t('app.loadingDataset')}
+          </div>
+        ) : showFileSelector ? (
           <div className="max-w-4xl mx-auto">
-            <FileUploadSelector 
-              onSelectIncidents={handleIncidentsLoaded} 
-              onSelectRequests={handleRequestsLoaded} 
+            <DatasetLibrary
+              activeDatasetId={activeDataset?.id}
+              onOpen={handleDatasetOpened}
             />
           </div>
         ) : (
@@ -672,17 +626,17 @@ function App() {
 
             <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
               <StatsCard
-                title="Total de Chamados"
+                title={t('stats.total')}
                 value={stats?.total || 0}
                 icon={BarChart3}
                 trend={stats?.trend}
                 className="bg-[#151B2B]"
                 onClick={() => setShowHistoricalData(!showHistoricalData)}
                 clickable={true}
-                subtitle="Clique para ver histórico"
+                subtitle={t('stats.totalSubtitle')}
               />
               <StatsCard
-                title="P1/P2 Pendentes"
+                title={t('stats.highPriorityPending')}
                 value={stats?.criticalPending || 0}
                 icon={AlertOctagon}
                 trendColor="text-red-500"
@@ -692,7 +646,7 @@ function App() {
                 clickable={true}
               />
               <StatsCard
-                title="Chamados Pendentes"
+                title={t('stats.pending')}
                 value={stats?.pending || 0}
                 icon={AlertCircle}
                 className="bg-[#151B2B] border-2 border-yellow-500/50"
@@ -701,7 +655,7 @@ function App() {
                 clickable={true}
               />
               <StatsCard
-                title="Chamados On Hold"
+                title={t('stats.onHold')}
                 value={stats?.onHold || 0}
                 icon={PauseCircle}
                 className="bg-[#151B2B] border-2 border-orange-500/50"
@@ -710,14 +664,14 @@ function App() {
                 clickable={true}
               />
               <StatsCard
-                title="Fora de Regra"
+                title={t('stats.outOfRule')}
                 value={stats?.outOfRule || 0}
                 icon={Timer}
                 className="bg-[#151B2B] border-2 border-red-500/50"
                 valueColor="text-red-500"
                 onClick={() => setShowOutOfRuleIncidents(true)}
                 clickable={true}
-                subtitle="Chamados abertos > 48h"
+                subtitle={t('stats.outOfRuleSubtitle')}
                 subtitleColor="text-red-400"
               />
             </div>
@@ -728,20 +682,20 @@ function App() {
                 className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg transition-colors"
               >
                 <FileText className="h-5 w-5" />
-                <span>Ir para Dashboard de Requests</span>
+                <span>{t('app.goToRequests')}</span>
                 <ArrowLeft className="h-5 w-5 rotate-180" />
               </button>
             </div>
 
             {/* Monthly Location Summary */}
             <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-medium text-white">Sumarização Mensal por Localidade</h3>
+              <h3 className="text-lg font-medium text-white">{t('app.monthlyLocationSummary')}</h3>
               <button
                 onClick={() => setShowMonthlyLocationSummary(!showMonthlyLocationSummary)}
                 className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
               >
                 <Calendar className="h-4 w-4" />
-                <span>{showMonthlyLocationSummary ? 'Ocultar Detalhes' : 'Ver Detalhes'}</span>
+                <span>{showMonthlyLocationSummary ? t('app.hideDetails') : t('app.showDetails')}</span>
               </button>
             </div>
 
@@ -904,6 +858,13 @@ function App() {
               />
             )}
 
+            {activeSection === 'staffing' && (
+              <StaffingCoverageAnalysis
+                incidents={filteredIncidents}
+                onClose={() => setActiveSection('')}
+              />
+            )}
+
             {activeSection === 'software' && (
               <SoftwareAnalysis
                 incidents={filteredIncidents}
@@ -921,6 +882,14 @@ function App() {
               />
             )}
 
+            {activeSection === 'problems' && (
+              <ProblemManagement
+                incidents={filteredIncidents}
+                onClose={() => setActiveSection('')}
+                onShowIncidentDetails={setSelectedIncident}
+              />
+            )}
+
             {activeSection === 'location-history' && (
               <LocationHistoryTop5
                 incidents={filteredIncidents}
@@ -930,6 +899,24 @@ function App() {
               />
             )}
 
+            {activeSection === 'change-correlation' && (
+              <ChangeCorrelationAnalysis
+                incidents={filteredIncidents}
+                startDate={startDate}
+                endDate={endDate}
+                onClose={() => setActiveSection('')}
+                onShowIncidentDetails={setSelectedIncident}
+              />
+            )}
+
+            {activeSection === 'ci-impact' && (
+              <ConfigurationItemImpact
+                incidents={filteredIncidents}
+                onClose={() => setActiveSection('')}
+                onShowIncidentDetails={setSelectedIncident}
+              />
+            )}
+
             {activeSection === 'monthly-variation' && (
               <MonthlyVariation
                 incidents={filteredIncidents}
@@ -994,8 +981,9 @@ function App() {
 
             {showOutOfRuleIncidents && (
               <OutOfRuleIncidentsModal
-                incidents={outOfRuleIncidents}
+                staleIncidents={outOfRuleIncidents}
                 onClose={() => setShowOutOfRuleIncidents(false)}
+                onConfigureRules={() => setShowStalenessRules(true)}
               />
             )}
 
@@ -1009,6 +997,52 @@ function App() {
         )}
       </main>
 
+      {showSLAPolicies && (
+        <SLAPolicyManager
+          onClose={() => setShowSLAPolicies(false)}
+          onChanged={() => setSettingsVersion(version => version + 1)}
+        />
+      )}
+
+      {showLocationDirectory && (
+        <LocationDirectoryManager
+          incidents={incidents}
+          requests={requests}
+          onClose={() => setShowLocationDirectory(false)}
+          onChanged={() => setSettingsVersion(version => version + 1)}
+        />
+      )}
+
+      {showCategoryRules && (
+        <CategoryRuleManager
+          incidents={incidents}
+          onClose={() => setShowCategoryRules(false)}
+          onSaved={(rules) => {
+            setIncidents(current => applyCategoryRules(current, rules));
+            setSelectedCategory('');
+          }}
+        />
+      )}
+
+      {showStalenessRules && (
+        <StalenessRuleManager
+          incidents={filteredIncidents}
+          onClose={() => setShowStalenessRules(false)}
+          onSaved={setStalenessRules}
+        />
+      )}
+
+      {showPriorityModel && (
+        <PriorityMatrixManager
+          incidents={incidents}
+          onClose={() => setShowPriorityModel(false)}
+          onSaved={(model) => {
+            setPriorityModel(model);
+            setSettingsVersion(version => version + 1);
+          }}
+        />
+      )}
+
       {showExecutiveIndicatorsModal && (
         <ExecutiveIndicatorsModal
           onClose={() => setShowExecutiveIndicatorsModal(false)}
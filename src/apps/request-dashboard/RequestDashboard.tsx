@@ -82,7 +82,7 @@ export function RequestDashboard() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {!requests.length ? (
           <div className="max-w-xl mx-auto">
-            <FileUpload onDataLoaded={handleDataLoaded} />
+            <FileUpload type="requests" onDataLoaded={handleDataLoaded} />
           </div>
         ) : (
           <div className="space-y-8">
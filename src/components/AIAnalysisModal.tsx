@@ -1,5 +1,6 @@
 import React from 'react';
 import { X, Brain, Lightbulb, BarChart2, Zap, CheckCircle2, AlertCircle, Clock, Info } from 'lucide-react';
+import { t } from '../utils/i18nUtils';
 
 interface AIAnalysisResult {
   causaRaiz: string;
@@ -96,7 +97,7 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
     
     // Determinar recorrência
     if (quantidades.length > 0 && quantidades.every(q => q === 1)) {
-      topRecorrencia = 'Sem recorrência significativa';
+      topRecorrencia = t('aiModal.noRecurrence');
     } else {
       topRecorrencia = quantidades[0] || linhas.length || 0;
     }
@@ -119,7 +120,7 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
         <div className="flex justify-between items-center px-8 py-5 border-b border-gray-700 bg-[#181F36]">
           <div className="flex items-center gap-3">
             <Brain className="w-8 h-8 text-orange-400" />
-            <h2 className="text-3xl font-bold text-white">Análise Inteligente dos Incidentes</h2>
+            <h2 className="text-3xl font-bold text-white">{t('aiModal.title')}</h2>
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors duration-200">
             <X className="w-7 h-7" />
@@ -129,18 +130,18 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
         {/* Categoria selecionada */}
         <div className="px-8 pt-6 pb-2 flex flex-wrap gap-4 items-center">
           <span className="flex items-center gap-2">
-            <b className="text-blue-300">Categoria:</b>
+            <b className="text-blue-300">{t('aiModal.category')}</b>
             <span className="bg-blue-900/30 px-2 py-1 rounded text-white">{categoria}</span>
           </span>
           {subcategoria && (
             <span className="flex items-center gap-2">
-              <b className="text-blue-300">Subcategoria:</b>
+              <b className="text-blue-300">{t('aiModal.subcategory')}</b>
               <span className="bg-blue-900/30 px-2 py-1 rounded text-white">{subcategoria}</span>
             </span>
           )}
           {stringAssociado && (
             <span className="flex items-center gap-2">
-              <b className="text-blue-300">String Associado:</b>
+              <b className="text-blue-300">{t('aiModal.string')}</b>
               <span className="bg-blue-900/30 px-2 py-1 rounded text-white">{stringAssociado}</span>
             </span>
           )}
@@ -150,16 +151,16 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
         {loading ? (
           <div className="flex flex-col items-center justify-center h-64">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mb-4"></div>
-            <span className="text-orange-300 text-lg font-semibold">Analisando dados com IA...</span>
-            <span className="text-gray-400 mt-2">Isso pode levar alguns segundos dependendo do volume de dados.</span>
+            <span className="text-orange-300 text-lg font-semibold">{t('aiModal.loading')}</span>
+            <span className="text-gray-400 mt-2">{t('aiAnalysis.loadingHint')}</span>
           </div>
         ) : analysis ? (
           <div className="px-8 pb-8 flex flex-col gap-6">
             {/* Causa Raiz */}
             <AnalysisBlock
               icon={<BarChart2 className="w-5 h-5 text-orange-400" />}
-              title="Causa Raiz"
-              tooltip="Principais causas dos incidentes analisados"
+              title={t('aiModal.rootCause')}
+              tooltip={t('aiModal.rootCauseHint')}
             >
               <p className="leading-relaxed">{cleanText(analysis.causaRaiz)}</p>
             </AnalysisBlock>
@@ -167,8 +168,8 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
             {/* Recomendações Inteligentes */}
             <AnalysisBlock
               icon={<Lightbulb className="w-5 h-5 text-yellow-400" />}
-              title="Recomendações Inteligentes"
-              tooltip="Sugestões baseadas na análise de IA para melhorar os processos"
+              title={t('aiAnalysis.smartRecommendations')}
+              tooltip={t('aiModal.recommendationsHint')}
             >
               <ul className="list-disc list-inside space-y-2">
                 {analysis.recomendacoes
@@ -186,8 +187,8 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
             {/* Análise de Impacto */}
             <AnalysisBlock
               icon={<Zap className="w-5 h-5 text-pink-400" />}
-              title="Análise de Impacto"
-              tooltip="Top 5 agrupamentos de Category + Subcategory mais recorrentes"
+              title={t('aiAnalysis.impactAnalysis')}
+              tooltip={t('aiModal.impactHint')}
             >
               {Array.isArray(analysis.impactosDetalhados) && analysis.impactosDetalhados.length > 0 ? (
                 <>
@@ -197,19 +198,19 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
                         <span className="font-bold text-pink-400">{idx + 1}.</span>{' '}
                         <span className="font-semibold">{item.categoria}</span>
                         {item.descricao && <span>: {item.descricao}</span>}
-                        <span> – {item.quantidade} incidente{item.quantidade > 1 ? 's' : ''}</span>
+                        <span> – {t(item.quantidade > 1 ? 'aiModal.incidents' : 'aiModal.incident', { count: item.quantidade })}</span>
                       </li>
                     ))}
                   </ol>
                   {/* Localidades mais afetadas */}
                   <div className="mt-6">
-                    <span className="font-bold text-blue-300">Localidades mais afetadas:</span>
+                    <span className="font-bold text-blue-300">{t('aiModal.topLocations')}</span>
                     <ol className="list-decimal list-inside mt-2 space-y-1">
                       {(() => {
                         // Agrupar e ordenar localidades
                         const counts: Record<string, number> = {};
                         incidents.forEach((inc: any) => {
-                          const loc = inc.StringAssociado?.trim() || 'Não Definido';
+                          const loc = inc.StringAssociado?.trim() || t('aiModal.notDefined');
                           counts[loc] = (counts[loc] || 0) + 1;
                         });
                         return Object.entries(counts)
@@ -217,7 +218,7 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
                           .slice(0, 5)
                           .map(([loc, count], idx) => (
                             <li key={loc}>
-                              <span className="font-semibold text-blue-400">{loc}</span> — {count as number} incidente{(count as number) > 1 ? 's' : ''}
+                              <span className="font-semibold text-blue-400">{loc}</span> — {t((count as number) > 1 ? 'aiModal.incidents' : 'aiModal.incident', { count: count as number })}
                             </li>
                           ));
                       })()}
@@ -246,7 +247,7 @@ export const AIAnalysisModal: React.FC<AIAnalysisModalProps> = ({
         ) : (
           <div className="text-red-500 font-semibold p-4 bg-red-900/20 rounded-lg">
             <AlertCircle className="w-5 h-5 inline-block mr-2" />
-            Erro ao carregar a análise.
+            {t('aiModal.error')}
           </div>
         )}
       </div>
@@ -19,11 +19,13 @@ import {
 import OpenAI from 'openai';
 import { Incident } from '../types/incident';
 import { normalizePriority } from '../utils/incidentUtils';
-import { format, parseISO } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { SLA_PRIORITIES, formatSLAHours, getDefaultSLAHours } from '../utils/slaUtils';
+import { parseISO } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
-import { getShiftFromTime, getShiftName } from '../utils/shiftUtils';
-import { SHIFTS } from '../types/analyst';
+import { getShiftFromTime, getShiftName, getShiftTimes } from '../utils/shiftUtils';
+import { ShiftKey } from '../types/analyst';
+import { normalizeLocationName } from '../utils/locationUtils';
+import { formatLocalizedDate, getAILanguageInstruction, t } from '../utils/i18nUtils';
 
 // Interfaces para tipagem dos dados
 interface AIAnalystProps {
@@ -109,14 +111,6 @@ const openai = new OpenAI({
 // Limite máximo de incidentes para análise
 const MAX_INCIDENTS = 50;
 
-// SLA thresholds
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hour
-  P2: 4,   // 4 hours
-  P3: 36,  // 36 hours
-  P4: 72   // 72 hours
-};
-
 // Template padrão para a análise
 const ANALYSIS_TEMPLATE = {
   rootCause: {
@@ -201,9 +195,9 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -242,116 +236,17 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
         businessImpact: incident.BusinessImpact,
         responseTime: incident.ResponseTime,
         opened: incident.Opened,
-        shift: getShiftFromTime(incident.Opened)
+        shift: getShiftFromTime(incident.Opened, normalizeLocationName(incident.AssignmentGroup))
       }));
 
       setProgress(20);
 
       // Prompt do sistema para a IA
-      const systemPrompt = `
-        Você é um analista especialista em Operações de TI. Analise os incidentes e forneça insights detalhados neste formato JSON exato:
-        {
-          "rootCause": {
-            "summary": "Visão geral aprofundada dos principais problemas e tendências",
-            "byPriority": {
-              "P1": "Análise detalhada dos incidentes críticos, incluindo padrões e impactos",
-              "P2": "Análise detalhada dos incidentes de alta prioridade",
-              "P3": "Análise detalhada dos incidentes de média prioridade",
-              "P4": "Análise detalhada dos incidentes de baixa prioridade"
-            },
-            "patterns": [
-              {
-                "category": "Nome da categoria",
-                "subcategory": "Nome da subcategoria",
-                "description": "Descrição detalhada do padrão identificado, incluindo causas raiz e correlações",
-                "frequency": 0
-              }
-            ]
-          },
-          "recommendations": [
-            {
-              "title": "Título da recomendação",
-              "description": "Descrição detalhada da recomendação, incluindo benefícios esperados e passos de implementação",
-              "type": "preventive",
-              "priority": "high",
-              "effort": "quick-win",
-              "impact": 0
-            }
-          ],
-          "impact": {
-            "affectedAreas": ["Áreas afetadas com descrição do impacto"],
-            "byGroup": [
-              {
-                "group": "Nome do grupo",
-                "impact": 0,
-                "incidents": 0
-              }
-            ],
-            "severity": 0,
-            "quickWins": ["Ações rápidas com alto impacto"]
-          },
-          "confidence": {
-            "overall": 0,
-            "dataQuality": 0,
-            "patternStrength": 0,
-            "recommendations": 0
-          },
-          "shiftAnalysis": {
-            "summary": "Análise geral dos padrões por turno",
-            "byShift": {
-              "MORNING": {
-                "total": 0,
-                "patterns": ["Padrões identificados no turno da manhã"],
-                "criticalIncidents": 0,
-                "commonCategories": ["Categorias mais comuns"],
-                "recommendations": ["Recomendações específicas para o turno"]
-              },
-              "AFTERNOON": {
-                "total": 0,
-                "patterns": ["Padrões identificados no turno da tarde"],
-                "criticalIncidents": 0,
-                "commonCategories": ["Categorias mais comuns"],
-                "recommendations": ["Recomendações específicas para o turno"]
-              },
-              "NIGHT": {
-                "total": 0,
-                "patterns": ["Padrões identificados no turno da noite"],
-                "criticalIncidents": 0,
-                "commonCategories": ["Categorias mais comuns"],
-                "recommendations": ["Recomendações específicas para o turno"]
-              }
-            },
-            "crossShiftPatterns": ["Padrões que se repetem entre turnos"],
-            "recommendations": ["Recomendações gerais baseadas na análise por turnos"]
-          }
-        }
-
-        IMPORTANTE:
-        1. Forneça análises profundas e detalhadas em cada seção
-        2. Identifique correlações entre incidentes
-        3. Destaque tendências e padrões emergentes
-        4. Sugira ações preventivas específicas
-        5. Avalie o impacto no negócio
-        6. Mantenha exatamente esta estrutura JSON
-        7. Todos os valores numéricos devem estar entre 0 e 100
-        8. Não inclua nenhum texto fora do JSON
-        9. Garanta que a resposta seja um JSON válido
-        10. Use apenas os valores especificados para enums:
-            - type: "preventive", "process", ou "technical"
-            - priority: "high", "medium", ou "low"
-            - effort: "quick-win", "medium-term", ou "long-term"
-        11. Na análise por turnos, considere:
-            - Padrões específicos de cada turno
-            - Diferenças na natureza dos incidentes
-            - Variações de volume e criticidade
-            - Recomendações específicas por turno
-            
-        12. Considere os seguintes tempos de SLA para cada prioridade:
-            - P1: 1 hora
-            - P2: 4 horas
-            - P3: 36 horas
-            - P4: 72 horas
-      `;
+      const systemPrompt = t('prompt.analyst.system', {
+        slaTimes: SLA_PRIORITIES.incidents
+          .map(p => `    - ${t(p.labelKey)}: ${formatSLAHours(getDefaultSLAHours('incidents', p.value))}`)
+          .join('\n')
+      });
 
       setProgress(30);
 
@@ -359,11 +254,11 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
       const completion = await openai.chat.completions.create({
         model: "gpt-4-turbo-preview",
         messages: [
-          { role: "system", content: systemPrompt },
+          { role: "system", content: `${systemPrompt}\n${getAILanguageInstruction()}` },
           {
             role: "user",
             content: JSON.stringify({
-              task: "Analise estes incidentes de TI e forneça insights detalhados",
+              task: t('prompt.analyst.task'),
               incidents: incidentData
             })
           }
@@ -376,7 +271,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
       setProgress(40);
 
       const response = completion.choices[0]?.message?.content;
-      if (!response) throw new Error("Nenhuma análise foi gerada");
+      if (!response) throw new Error(t('aiAnalysis.error.empty'));
 
       setProgress(50);
 
@@ -440,11 +335,11 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
 
       } catch (parseError) {
         console.error('Erro ao analisar JSON:', parseError);
-        throw new Error("Falha ao processar resultados da análise");
+        throw new Error(t('aiAnalysis.error.parse'));
       }
     } catch (err) {
       console.error('Erro na análise:', err);
-      setError(err instanceof Error ? err.message : 'Erro ao analisar incidentes');
+      setError(err instanceof Error ? err.message : t('aiAnalysis.error.incidents'));
     } finally {
       setIsLoading(false);
       setProgress(0);
@@ -464,7 +359,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-3">
             <Brain className="h-6 w-6 text-red-500" />
-            <h2 className="text-xl font-semibold text-white">Análise dos Dados por IA</h2>
+            <h2 className="text-xl font-semibold text-white">{t('aiAnalysis.incidentsTitle')}</h2>
           </div>
           {onClose && (
             <button
@@ -479,13 +374,13 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
           <div className="flex items-start gap-3">
             <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5" />
             <div>
-              <h3 className="text-red-500 font-medium">Erro na Análise</h3>
+              <h3 className="text-red-500 font-medium">{t('aiAnalysis.errorTitle')}</h3>
               <p className="text-red-400 mt-1">{error}</p>
               <button
                 onClick={analyzeIncidents}
                 className="mt-4 px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
               >
-                Tentar Novamente
+                {t('aiAnalysis.retry')}
               </button>
             </div>
           </div>
@@ -499,8 +394,8 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[300px]">
         <Loader2 className="animate-spin text-orange-500 w-12 h-12 mb-4" />
-        <span className="text-orange-300 text-lg font-semibold">Analisando incidentes com IA...</span>
-        <span className="text-gray-400 mt-2">Isso pode levar alguns segundos dependendo do volume de dados.</span>
+        <span className="text-orange-300 text-lg font-semibold">{t('aiAnalysis.loadingIncidents')}</span>
+        <span className="text-gray-400 mt-2">{t('aiAnalysis.loadingHint')}</span>
       </div>
     );
   }
@@ -510,7 +405,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3">
           <Brain className="h-6 w-6 text-indigo-500" />
-          <h2 className="text-xl font-semibold text-white">Análise dos Dados por IA</h2>
+          <h2 className="text-xl font-semibold text-white">{t('aiAnalysis.incidentsTitle')}</h2>
         </div>
         {onClose && (
           <button
@@ -539,7 +434,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               style={{ width: `${progress}%` }}
             />
           </div>
-          <p className="text-gray-400">Analisando incidentes...</p>
+          <p className="text-gray-400">{t('aiAnalysis.analyzingIncidents')}</p>
         </div>
       ) : analysis ? (
         <div className="space-y-6">
@@ -552,7 +447,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="flex items-center gap-3">
                 <Target className="h-5 w-5 text-indigo-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Análise de Causa Raiz
+                  {t('aiAnalysis.rootCause')}
                 </h3>
               </div>
               {expandedSections.includes('root-cause') ? (
@@ -574,7 +469,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                       style={{ borderLeft: `4px solid ${CHART_COLORS[priority as keyof typeof CHART_COLORS]}` }}
                     >
                       <h4 className="font-medium mb-2" style={{ color: CHART_COLORS[priority as keyof typeof CHART_COLORS] }}>
-                        Prioridade {priority}
+                        {t('aiAnalysis.priority', { priority })}
                       </h4>
                       <p className="text-gray-400 text-sm">{analysis}</p>
                     </div>
@@ -594,7 +489,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                               {pattern.category} {pattern.subcategory && `• ${pattern.subcategory}`}
                             </h4>
                             <span className="text-indigo-400 text-sm">
-                              {pattern.frequency} ocorrências
+                              {t('aiAnalysis.occurrences', { count: pattern.frequency })}
                             </span>
                           </div>
                           <p className="text-gray-400 text-sm text-left">{pattern.description}</p>
@@ -610,7 +505,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                       {expandedPatterns.includes(index) && pattern.incidents && pattern.incidents.length > 0 && (
                         <div className="mt-4 border-t border-gray-700 pt-4">
                           <h5 className="text-sm font-medium text-gray-400 mb-3">
-                            Ocorrências Relacionadas
+                            {t('aiAnalysis.relatedIncidents')}
                           </h5>
                           <div className="space-y-2">
                             {pattern.incidents.map((incident) => (
@@ -668,7 +563,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="flex items-center gap-3">
                 <Clock className="h-5 w-5 text-blue-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Análise por Turno
+                  {t('aiAnalysis.byShift')}
                 </h3>
               </div>
               {expandedSections.includes('shift-analysis') ? (
@@ -690,26 +585,26 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                     >
                       <div>
                         <h4 className="text-lg font-medium text-white mb-1">
-                          {SHIFTS[shift as keyof typeof SHIFTS].name}
+                          {getShiftName(shift as ShiftKey)}
                         </h4>
                         <p className="text-sm text-gray-400">
-                          {SHIFTS[shift as keyof typeof SHIFTS].startTime}h às {SHIFTS[shift as keyof typeof SHIFTS].endTime}h
+                          {t('aiAnalysis.hours', getShiftTimes(shift as ShiftKey))}
                         </p>
                       </div>
 
                       <div className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-gray-400">Total de Chamados</span>
+                          <span className="text-gray-400">{t('aiAnalysis.totalIncidents')}</span>
                           <span className="text-white font-medium">{data.total}</span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-gray-400">Incidentes Críticos</span>
+                          <span className="text-gray-400">{t('aiAnalysis.criticalIncidents')}</span>
                           <span className="text-red-400 font-medium">{data.criticalIncidents}</span>
                         </div>
                       </div>
 
                       <div className="space-y-2">
-                        <h5 className="text-sm font-medium text-gray-400">Categorias Comuns</h5>
+                        <h5 className="text-sm font-medium text-gray-400">{t('aiAnalysis.commonCategories')}</h5>
                         <div className="space-y-1">
                           {data.commonCategories.map((category, index) => (
                             <p key={index} className="text-sm text-yellow-200">
@@ -720,7 +615,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                       </div>
 
                       <div className="space-y-2">
-                        <h5 className="text-sm font-medium text-gray-400">Padrões Identificados</h5>
+                        <h5 className="text-sm font-medium text-gray-400">{t('aiAnalysis.patterns')}</h5>
                         <div className="space-y-1">
                           {data.patterns.map((pattern, index) => (
                             <p key={index} className="text-sm text-yellow-200">
@@ -731,7 +626,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                       </div>
 
                       <div className="space-y-2">
-                        <h5 className="text-sm font-medium text-gray-400">Recomendações</h5>
+                        <h5 className="text-sm font-medium text-gray-400">{t('aiAnalysis.recommendations')}</h5>
                         <div className="space-y-1">
                           {data.recommendations.map((rec, index) => (
                             <p key={index} className="text-sm text-yellow-200">
@@ -745,7 +640,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                 </div>
 
                 <div className="bg-[#151B2B] p-4 rounded-lg space-y-4">
-                  <h4 className="text-lg font-medium text-white">Padrões Entre Turnos</h4>
+                  <h4 className="text-lg font-medium text-white">{t('aiAnalysis.crossShift')}</h4>
                   <div className="space-y-2">
                     {analysis.shiftAnalysis.crossShiftPatterns.map((pattern, index) => (
                       <p key={index} className="text-yellow-200">
@@ -754,7 +649,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                     ))}
                   </div>
 
-                  <h4 className="text-lg font-medium text-white pt-4">Recomendações Gerais</h4>
+                  <h4 className="text-lg font-medium text-white pt-4">{t('aiAnalysis.generalRecommendations')}</h4>
                   <div className="space-y-2">
                     {analysis.shiftAnalysis.recommendations.map((rec, index) => (
                       <p key={index} className="text-yellow-200">
@@ -776,7 +671,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="flex items-center gap-3">
                 <Lightbulb className="h-5 w-5 text-yellow-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Recomendações Inteligentes
+                  {t('aiAnalysis.smartRecommendations')}
                 </h3>
               </div>
               {expandedSections.includes('recommendations') ? (
@@ -807,14 +702,16 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                           rec.priority === 'medium' ? 'bg-yellow-500/20 text-yellow-400' :
                           'bg-green-500/20 text-green-400'
                         }`}>
-                          {rec.priority}
+                          {rec.priority === 'high' ? t('aiAnalysis.recPriority.high') :
+                           rec.priority === 'medium' ? t('aiAnalysis.recPriority.medium') : t('aiAnalysis.recPriority.low')}
                         </span>
                         <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
                           rec.effort === 'quick-win' ? 'bg-green-500/20 text-green-400' :
                           rec.effort === 'medium-term' ? 'bg-blue-500/20 text-blue-400' :
                           'bg-purple-500/20 text-purple-400'
                         }`}>
-                          {rec.effort}
+                          {rec.effort === 'quick-win' ? t('aiAnalysis.effort.quickWin') :
+                           rec.effort === 'medium-term' ? t('aiAnalysis.effort.mediumTerm') : t('aiAnalysis.effort.longTerm')}
                         </span>
                       </div>
                     </div>
@@ -825,14 +722,14 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                         rec.type === 'process' ? 'text-blue-400' :
                         'text-yellow-400'}
                       `}>
-                        {rec.type === 'preventive' ? 'Ação Preventiva' :
-                         rec.type === 'process' ? 'Melhoria de Processo' :
-                         'Solução Técnica'}
+                        {rec.type === 'preventive' ? t('aiAnalysis.type.preventive') :
+                         rec.type === 'process' ? t('aiAnalysis.type.process') :
+                         t('aiAnalysis.type.technical')}
                       </span>
                       <div className="flex items-center gap-1">
                         <Zap className="h-4 w-4 text-indigo-400" />
                         <span className="text-indigo-400">
-                          Impacto: {rec.impact}%
+                          {t('aiAnalysis.impact', { value: rec.impact })}
                         </span>
                       </div>
                     </div>
@@ -851,7 +748,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="flex items-center gap-3">
                 <TrendingUp className="h-5 w-5 text-red-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Análise de Impacto
+                  {t('aiAnalysis.impactAnalysis')}
                 </h3>
               </div>
               {expandedSections.includes('impact') ? (
@@ -865,7 +762,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="p-4 pt-0 space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-white font-medium mb-3">Áreas Afetadas</h4>
+                    <h4 className="text-white font-medium mb-3">{t('aiAnalysis.affectedAreas')}</h4>
                     <div className="space-y-2">
                       {analysis.impact.affectedAreas.map((area, index) => (
                         <div 
@@ -881,7 +778,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
                     <div className="flex items-center justify-between mb-3">
-                      <h4 className="text-white font-medium">Severidade</h4>
+                      <h4 className="text-white font-medium">{t('aiAnalysis.severity')}</h4>
                       <span className={`text-lg font-bold ${
                         analysis.impact.severity >= 75 ? 'text-red-400' :
                         analysis.impact.severity >= 50 ? 'text-yellow-400' : 'text-green-400'
@@ -899,14 +796,14 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                 </div>
 
                 <div className="bg-[#151B2B] p-4 rounded-lg">
-                  <h4 className="text-white font-medium mb-3">Impacto por Grupo</h4>
+                  <h4 className="text-white font-medium mb-3">{t('aiAnalysis.impactByGroup')}</h4>
                   <div className="space-y-3">
                     {analysis.impact.byGroup.map((group, index) => (
                       <div key={index} className="space-y-1">
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-gray-300">{group.group}</span>
                           <span className="text-gray-400">
-                            {group.incidents} chamados
+                            {t('aiAnalysis.groupIncidents', { count: group.incidents })}
                           </span>
                         </div>
                         <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
@@ -921,7 +818,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                 </div>
 
                 <div className="bg-[#151B2B] p-4 rounded-lg">
-                  <h4 className="text-white font-medium mb-3">Quick Wins</h4>
+                  <h4 className="text-white font-medium mb-3">{t('aiAnalysis.quickWins')}</h4>
                   <div className="space-y-2">
                     {analysis.impact.quickWins.map((win, index) => (
                       <div 
@@ -947,7 +844,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="flex items-center gap-3">
                 <BarChart2 className="h-5 w-5 text-green-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Nível de Confiança
+                  {t('aiAnalysis.confidence')}
                 </h3>
               </div>
               {expandedSections.includes('confidence') ? (
@@ -961,7 +858,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
               <div className="p-4 pt-0">
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Geral</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.overall')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.overall >= 75 ? 'text-green-400' :
@@ -974,7 +871,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                   </div>
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Qualidade dos Dados</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.dataQuality')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.dataQuality >= 75 ? 'text-green-400' :
@@ -987,7 +884,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                   </div>
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Força dos Padrões</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.patternStrength')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.patternStrength >= 75 ? 'text-green-400' :
@@ -1000,7 +897,7 @@ export function AIAnalyst({ incidents, onClose }: AIAnalystProps) {
                   </div>
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Recomendações</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.recommendations')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.recommendations >= 75 ? 'text-green-400' :
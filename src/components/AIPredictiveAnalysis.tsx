@@ -20,8 +20,9 @@ import {
 import OpenAI from 'openai';
 import { Request } from '../types/request';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
-import { format, parseISO } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { formatLocalizedDate, getAILanguageInstruction, t } from '../utils/i18nUtils';
+import { parseISO } from 'date-fns';
+import { getShiftName } from '../utils/shiftUtils';
 
 // Interfaces for typing data
 interface AIPredictiveAnalysisProps {
@@ -189,9 +190,9 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -234,103 +235,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
       setProgress(20);
 
       // System prompt for AI
-      const systemPrompt = `
-        Você é um analista especialista em Operações de TI. Analise as solicitações (requests) e forneça insights detalhados neste formato JSON exato:
-        {
-          "rootCause": {
-            "summary": "Visão geral aprofundada dos principais problemas e tendências",
-            "byPriority": {
-              "HIGH": "Análise detalhada das solicitações de alta prioridade, incluindo padrões e impactos",
-              "MEDIUM": "Análise detalhada das solicitações de média prioridade",
-              "LOW": "Análise detalhada das solicitações de baixa prioridade"
-            },
-            "patterns": [
-              {
-                "category": "Nome da categoria",
-                "subcategory": "Nome da subcategoria",
-                "description": "Descrição detalhada do padrão identificado, incluindo causas raiz e correlações",
-                "frequency": 0
-              }
-            ]
-          },
-          "recommendations": [
-            {
-              "title": "Título da recomendação",
-              "description": "Descrição detalhada da recomendação, incluindo benefícios esperados e passos de implementação",
-              "type": "preventive",
-              "priority": "high",
-              "effort": "quick-win",
-              "impact": 0
-            }
-          ],
-          "impact": {
-            "affectedAreas": ["Áreas afetadas com descrição do impacto"],
-            "byGroup": [
-              {
-                "group": "Nome do grupo",
-                "impact": 0,
-                "requests": 0
-              }
-            ],
-            "severity": 0,
-            "quickWins": ["Ações rápidas com alto impacto"]
-          },
-          "confidence": {
-            "overall": 0,
-            "dataQuality": 0,
-            "patternStrength": 0,
-            "recommendations": 0
-          },
-          "timeAnalysis": {
-            "summary": "Análise geral dos padrões por horário",
-            "byTime": {
-              "MORNING": {
-                "total": 0,
-                "patterns": ["Padrões identificados no período da manhã"],
-                "criticalRequests": 0,
-                "commonCategories": ["Categorias mais comuns"],
-                "recommendations": ["Recomendações específicas para o período"]
-              },
-              "AFTERNOON": {
-                "total": 0,
-                "patterns": ["Padrões identificados no período da tarde"],
-                "criticalRequests": 0,
-                "commonCategories": ["Categorias mais comuns"],
-                "recommendations": ["Recomendações específicas para o período"]
-              },
-              "NIGHT": {
-                "total": 0,
-                "patterns": ["Padrões identificados no período da noite"],
-                "criticalRequests": 0,
-                "commonCategories": ["Categorias mais comuns"],
-                "recommendations": ["Recomendações específicas para o período"]
-              }
-            },
-            "crossTimePatterns": ["Padrões que se repetem entre períodos"],
-            "recommendations": ["Recomendações gerais baseadas na análise por períodos"]
-          }
-        }
-
-        IMPORTANTE:
-        1. Forneça análises profundas e detalhadas em cada seção
-        2. Identifique correlações entre solicitações
-        3. Destaque tendências e padrões emergentes
-        4. Sugira ações preventivas específicas
-        5. Avalie o impacto no negócio
-        6. Mantenha exatamente esta estrutura JSON
-        7. Todos os valores numéricos devem estar entre 0 e 100
-        8. Não inclua nenhum texto fora do JSON
-        9. Garanta que a resposta seja um JSON válido
-        10. Use apenas os valores especificados para enums:
-            - type: "preventive", "process", ou "technical"
-            - priority: "high", "medium", ou "low"
-            - effort: "quick-win", "medium-term", ou "long-term"
-        11. Na análise por períodos, considere:
-            - Padrões específicos de cada período do dia
-            - Diferenças na natureza das solicitações
-            - Variações de volume e criticidade
-            - Recomendações específicas por período
-      `;
+      const systemPrompt = t('prompt.predictive.system');
 
       setProgress(30);
 
@@ -338,11 +243,11 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
       const completion = await openai.chat.completions.create({
         model: "gpt-4-turbo-preview",
         messages: [
-          { role: "system", content: systemPrompt },
+          { role: "system", content: `${systemPrompt}\n${getAILanguageInstruction()}` },
           {
             role: "user",
             content: JSON.stringify({
-              task: "Analise estas solicitações de TI e forneça insights detalhados",
+              task: t('prompt.predictive.task'),
               requests: requestData
             })
           }
@@ -355,7 +260,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
       setProgress(40);
 
       const response = completion.choices[0]?.message?.content;
-      if (!response) throw new Error("Nenhuma análise foi gerada");
+      if (!response) throw new Error(t('aiAnalysis.error.empty'));
 
       setProgress(50);
 
@@ -419,11 +324,11 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
 
       } catch (parseError) {
         console.error('Erro ao analisar JSON:', parseError);
-        throw new Error("Falha ao processar resultados da análise");
+        throw new Error(t('aiAnalysis.error.parse'));
       }
     } catch (err) {
       console.error('Erro na análise:', err);
-      setError(err instanceof Error ? err.message : 'Erro ao analisar solicitações');
+      setError(err instanceof Error ? err.message : t('aiAnalysis.error.requests'));
     } finally {
       setIsLoading(false);
       setProgress(0);
@@ -442,7 +347,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center gap-3">
             <Brain className="h-6 w-6 text-red-500" />
-            <h2 className="text-xl font-semibold text-white">Análise Preditiva - IA</h2>
+            <h2 className="text-xl font-semibold text-white">{t('aiAnalysis.requestsTitle')}</h2>
           </div>
           {onClose && (
             <button
@@ -457,13 +362,13 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
           <div className="flex items-start gap-3">
             <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5" />
             <div>
-              <h3 className="text-red-500 font-medium">Erro na Análise</h3>
+              <h3 className="text-red-500 font-medium">{t('aiAnalysis.errorTitle')}</h3>
               <p className="text-red-400 mt-1">{error}</p>
               <button
                 onClick={analyzeRequests}
                 className="mt-4 px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
               >
-                Tentar Novamente
+                {t('aiAnalysis.retry')}
               </button>
             </div>
           </div>
@@ -478,7 +383,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3">
           <Brain className="h-6 w-6 text-indigo-500" />
-          <h2 className="text-xl font-semibold text-white">Análise Preditiva - IA</h2>
+          <h2 className="text-xl font-semibold text-white">{t('aiAnalysis.requestsTitle')}</h2>
         </div>
         {onClose && (
           <button
@@ -507,7 +412,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               style={{ width: `${progress}%` }}
             />
           </div>
-          <p className="text-gray-400">Analisando solicitações...</p>
+          <p className="text-gray-400">{t('aiAnalysis.analyzingRequests')}</p>
         </div>
       ) : analysis ? (
         <div className="space-y-6">
@@ -520,7 +425,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="flex items-center gap-3">
                 <Target className="h-5 w-5 text-indigo-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Análise de Causa Raiz
+                  {t('aiAnalysis.rootCause')}
                 </h3>
               </div>
               {expandedSections.includes('root-cause') ? (
@@ -542,7 +447,10 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                       style={{ borderLeft: `4px solid ${CHART_COLORS[priority as keyof typeof CHART_COLORS]}` }}
                     >
                       <h4 className="font-medium mb-2" style={{ color: CHART_COLORS[priority as keyof typeof CHART_COLORS] }}>
-                        Prioridade {priority === 'HIGH' ? 'Alta' : priority === 'MEDIUM' ? 'Média' : 'Baixa'}
+                        {t('aiAnalysis.priority', {
+                          priority: t(priority === 'HIGH' ? 'aiAnalysis.requestPriority.HIGH' :
+                            priority === 'MEDIUM' ? 'aiAnalysis.requestPriority.MEDIUM' : 'aiAnalysis.requestPriority.LOW')
+                        })}
                       </h4>
                       <p className="text-gray-400 text-sm">{analysis}</p>
                     </div>
@@ -562,7 +470,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                               {pattern.category} {pattern.subcategory && `• ${pattern.subcategory}`}
                             </h4>
                             <span className="text-indigo-400 text-sm">
-                              {pattern.frequency} ocorrências
+                              {t('aiAnalysis.occurrences', { count: pattern.frequency })}
                             </span>
                           </div>
                           <p className="text-gray-400 text-sm text-left">{pattern.description}</p>
@@ -578,7 +486,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                       {expandedPatterns.includes(index) && pattern.requests && pattern.requests.length > 0 && (
                         <div className="mt-4 border-t border-gray-700 pt-4">
                           <h5 className="text-sm font-medium text-gray-400 mb-3">
-                            Solicitações Relacionadas
+                            {t('aiAnalysis.relatedRequests')}
                           </h5>
                           <div className="space-y-2">
                             {pattern.requests.map((request) => (
@@ -636,7 +544,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="flex items-center gap-3">
                 <Clock className="h-5 w-5 text-blue-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Análise por Período
+                  {t('aiAnalysis.byPeriod')}
                 </h3>
               </div>
               {expandedSections.includes('time-analysis') ? (
@@ -658,28 +566,28 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                     >
                       <div>
                         <h4 className="text-lg font-medium text-white mb-1">
-                          {time === 'MORNING' ? 'Manhã' : 
-                           time === 'AFTERNOON' ? 'Tarde' : 'Noite'}
+                          {getShiftName(time === 'MORNING' || time === 'AFTERNOON' ? time : 'NIGHT')}
                         </h4>
                         <p className="text-sm text-gray-400">
-                          {time === 'MORNING' ? '06:00h às 14:00h' : 
-                           time === 'AFTERNOON' ? '14:00h às 22:00h' : '22:00h às 06:00h'}
+                          {time === 'MORNING' ? t('aiAnalysis.hours', { start: '06:00', end: '14:00' }) :
+                           time === 'AFTERNOON' ? t('aiAnalysis.hours', { start: '14:00', end: '22:00' }) :
+                           t('aiAnalysis.hours', { start: '22:00', end: '06:00' })}
                         </p>
                       </div>
 
                       <div className="space-y-2">
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-gray-400">Total de Solicitações</span>
+                          <span className="text-gray-400">{t('aiAnalysis.totalRequests')}</span>
                           <span className="text-white font-medium">{data.total}</span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-gray-400">Solicitações Críticas</span>
+                          <span className="text-gray-400">{t('aiAnalysis.criticalRequests')}</span>
                           <span className="text-red-400 font-medium">{data.criticalRequests}</span>
                         </div>
                       </div>
 
                       <div className="space-y-2">
-                        <h5 className="text-sm font-medium text-gray-400">Categorias Comuns</h5>
+                        <h5 className="text-sm font-medium text-gray-400">{t('aiAnalysis.commonCategories')}</h5>
                         <div className="space-y-1">
                           {data.commonCategories.map((category, index) => (
                             <p key={index} className="text-sm text-yellow-200">
@@ -690,7 +598,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                       </div>
 
                       <div className="space-y-2">
-                        <h5 className="text-sm font-medium text-gray-400">Padrões Identificados</h5>
+                        <h5 className="text-sm font-medium text-gray-400">{t('aiAnalysis.patterns')}</h5>
                         <div className="space-y-1">
                           {data.patterns.map((pattern, index) => (
                             <p key={index} className="text-sm text-yellow-200">
@@ -701,7 +609,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                       </div>
 
                       <div className="space-y-2">
-                        <h5 className="text-sm font-medium text-gray-400">Recomendações</h5>
+                        <h5 className="text-sm font-medium text-gray-400">{t('aiAnalysis.recommendations')}</h5>
                         <div className="space-y-1">
                           {data.recommendations.map((rec, index) => (
                             <p key={index} className="text-sm text-yellow-200">
@@ -715,7 +623,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 </div>
 
                 <div className="bg-[#151B2B] p-4 rounded-lg space-y-4">
-                  <h4 className="text-lg font-medium text-white">Padrões Entre Períodos</h4>
+                  <h4 className="text-lg font-medium text-white">{t('aiAnalysis.crossPeriod')}</h4>
                   <div className="space-y-2">
                     {analysis.timeAnalysis.crossTimePatterns.map((pattern, index) => (
                       <p key={index} className="text-yellow-200">
@@ -724,7 +632,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                     ))}
                   </div>
 
-                  <h4 className="text-lg font-medium text-white pt-4">Recomendações Gerais</h4>
+                  <h4 className="text-lg font-medium text-white pt-4">{t('aiAnalysis.generalRecommendations')}</h4>
                   <div className="space-y-2">
                     {analysis.timeAnalysis.recommendations.map((rec, index) => (
                       <p key={index} className="text-yellow-200">
@@ -746,7 +654,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="flex items-center gap-3">
                 <Lightbulb className="h-5 w-5 text-yellow-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Recomendações Inteligentes
+                  {t('aiAnalysis.smartRecommendations')}
                 </h3>
               </div>
               {expandedSections.includes('recommendations') ? (
@@ -778,16 +686,16 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                           rec.priority === 'medium' ? 'bg-yellow-500/20 text-yellow-400' :
                           'bg-green-500/20 text-green-400'
                         }`}>
-                          {rec.priority === 'high' ? 'alta' : 
-                           rec.priority === 'medium' ? 'média' : 'baixa'}
+                          {rec.priority === 'high' ? t('aiAnalysis.recPriority.high') :
+                           rec.priority === 'medium' ? t('aiAnalysis.recPriority.medium') : t('aiAnalysis.recPriority.low')}
                         </span>
                         <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
                           rec.effort === 'quick-win' ? 'bg-green-500/20 text-green-400' :
                           rec.effort === 'medium-term' ? 'bg-blue-500/20 text-blue-400' :
                           'bg-purple-500/20 text-purple-400'
                         }`}>
-                          {rec.effort === 'quick-win' ? 'rápida' : 
-                           rec.effort === 'medium-term' ? 'média' : 'longa'}
+                          {rec.effort === 'quick-win' ? t('aiAnalysis.effort.quickWin') :
+                           rec.effort === 'medium-term' ? t('aiAnalysis.effort.mediumTerm') : t('aiAnalysis.effort.longTerm')}
                         </span>
                       </div>
                     </div>
@@ -798,14 +706,14 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                         rec.type === 'process' ? 'text-blue-400' :
                         'text-yellow-400'
                       }`}>
-                        {rec.type === 'preventive' ? 'Ação Preventiva' :
-                         rec.type === 'process' ? 'Melhoria de Processo' :
-                         'Solução Técnica'}
+                        {rec.type === 'preventive' ? t('aiAnalysis.type.preventive') :
+                         rec.type === 'process' ? t('aiAnalysis.type.process') :
+                         t('aiAnalysis.type.technical')}
                       </span>
                       <div className="flex items-center gap-1">
                         <Zap className="h-4 w-4 text-indigo-400" />
                         <span className="text-indigo-400">
-                          Impacto: {rec.impact}%
+                          {t('aiAnalysis.impact', { value: rec.impact })}
                         </span>
                       </div>
                     </div>
@@ -824,7 +732,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="flex items-center gap-3">
                 <TrendingUp className="h-5 w-5 text-red-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Análise de Impacto
+                  {t('aiAnalysis.impactAnalysis')}
                 </h3>
               </div>
               {expandedSections.includes('impact') ? (
@@ -838,7 +746,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="p-4 pt-0 space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-white font-medium mb-3">Áreas Afetadas</h4>
+                    <h4 className="text-white font-medium mb-3">{t('aiAnalysis.affectedAreas')}</h4>
                     <div className="space-y-2">
                       {analysis.impact.affectedAreas.map((area, index) => (
                         <div 
@@ -854,7 +762,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
                     <div className="flex items-center justify-between mb-3">
-                      <h4 className="text-white font-medium">Severidade</h4>
+                      <h4 className="text-white font-medium">{t('aiAnalysis.severity')}</h4>
                       <span className={`text-lg font-bold ${
                         analysis.impact.severity >= 75 ? 'text-red-400' :
                         analysis.impact.severity >= 50 ? 'text-yellow-400' :
@@ -873,14 +781,14 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 </div>
 
                 <div className="bg-[#151B2B] p-4 rounded-lg">
-                  <h4 className="text-white font-medium mb-3">Impacto por Grupo</h4>
+                  <h4 className="text-white font-medium mb-3">{t('aiAnalysis.impactByGroup')}</h4>
                   <div className="space-y-3">
                     {analysis.impact.byGroup.map((group, index) => (
                       <div key={index} className="space-y-1">
                         <div className="flex items-center justify-between text-sm">
                           <span className="text-gray-300">{group.group}</span>
                           <span className="text-gray-400">
-                            {group.requests} solicitações
+                            {t('aiAnalysis.groupRequests', { count: group.requests })}
                           </span>
                         </div>
                         <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
@@ -895,7 +803,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 </div>
 
                 <div className="bg-[#151B2B] p-4 rounded-lg">
-                  <h4 className="text-white font-medium mb-3">Quick Wins</h4>
+                  <h4 className="text-white font-medium mb-3">{t('aiAnalysis.quickWins')}</h4>
                   <div className="space-y-2">
                     {analysis.impact.quickWins.map((win, index) => (
                       <div 
@@ -921,7 +829,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="flex items-center gap-3">
                 <BarChart2 className="h-5 w-5 text-green-400" />
                 <h3 className="text-lg font-medium text-white">
-                  Nível de Confiança
+                  {t('aiAnalysis.confidence')}
                 </h3>
               </div>
               {expandedSections.includes('confidence') ? (
@@ -935,7 +843,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
               <div className="p-4 pt-0">
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Geral</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.overall')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.overall >= 75 ? 'text-green-400' :
@@ -948,7 +856,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                   </div>
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Qualidade dos Dados</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.dataQuality')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.dataQuality >= 75 ? 'text-green-400' :
@@ -961,7 +869,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                   </div>
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Força dos Padrões</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.patternStrength')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.patternStrength >= 75 ? 'text-green-400' :
@@ -974,7 +882,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                   </div>
 
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-sm text-gray-400 mb-2">Recomendações</h4>
+                    <h4 className="text-sm text-gray-400 mb-2">{t('aiAnalysis.confidence.recommendations')}</h4>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${
                         analysis.confidence.recommendations >= 75 ? 'text-green-400' :
@@ -1000,7 +908,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
             <div className="p-6 border-b border-gray-700 flex-shrink-0">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-2xl font-bold text-white">
-                  Solicitação {selectedRequest.Number}
+                  {t('aiAnalysis.request.title', { number: selectedRequest.Number })}
                 </h2>
                 <div className="flex items-center gap-2">
                   <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(selectedRequest.State)}`}>
@@ -1010,7 +918,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                     color: CHART_COLORS[normalizeRequestPriority(selectedRequest.Priority) as keyof typeof CHART_COLORS] 
                   }}>
                     <AlertCircle className="h-4 w-4" />
-                    Prioridade {selectedRequest.Priority}
+                    {t('aiAnalysis.priority', { priority: selectedRequest.Priority })}
                   </span>
                   <button
                     onClick={() => setSelectedRequest(null)}
@@ -1020,7 +928,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                   </button>
                 </div>
               </div>
-              <h3 className="text-lg text-white">Descrição</h3>
+              <h3 className="text-lg text-white">{t('aiAnalysis.request.description')}</h3>
               <p className="text-gray-300 mt-2">{selectedRequest.ShortDescription}</p>
             </div>
 
@@ -1032,7 +940,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                   <div className="flex items-center gap-3">
                     <FileText className="h-5 w-5 text-indigo-400" />
                     <span className="text-white font-medium">
-                      Comentários e Notas de Trabalho
+                      {t('aiAnalysis.request.comments')}
                     </span>
                   </div>
                 </div>
@@ -1048,7 +956,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                     </div>
                   ) : (
                     <p className="text-gray-500 italic">
-                      Nenhum comentário ou nota de trabalho disponível.
+                      {t('aiAnalysis.request.noComments')}
                     </p>
                   )}
                 </div>
@@ -1059,7 +967,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Solicitante</p>
+                    <p className="text-sm text-gray-400">{t('aiAnalysis.request.requester')}</p>
                     <p className="text-white">{selectedRequest.RequestedForName}</p>
                   </div>
                 </div>
@@ -1067,7 +975,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Grupo Responsável</p>
+                    <p className="text-sm text-gray-400">{t('aiAnalysis.request.group')}</p>
                     <p className="text-white">{selectedRequest.AssignmentGroup}</p>
                   </div>
                 </div>
@@ -1075,7 +983,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 <div className="flex items-center gap-3">
                   <Calendar className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Data de Abertura</p>
+                    <p className="text-sm text-gray-400">{t('aiAnalysis.request.opened')}</p>
                     <p className="text-white">{formatDate(selectedRequest.Opened)}</p>
                   </div>
                 </div>
@@ -1083,28 +991,28 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Analista Responsável</p>
-                    <p className="text-white">{selectedRequest.AssignedTo || 'Não atribuído'}</p>
+                    <p className="text-sm text-gray-400">{t('aiAnalysis.request.assignee')}</p>
+                    <p className="text-white">{selectedRequest.AssignedTo || t('aiAnalysis.request.unassigned')}</p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
                   <FileText className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Tipo de Solicitação</p>
-                    <p className="text-white">{selectedRequest.RequestItem || 'Não categorizado'}</p>
+                    <p className="text-sm text-gray-400">{t('aiAnalysis.request.type')}</p>
+                    <p className="text-white">{selectedRequest.RequestItem || t('aiAnalysis.request.uncategorized')}</p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
                   <Clock className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Última Atualização</p>
+                    <p className="text-sm text-gray-400">{t('aiAnalysis.request.updated')}</p>
                     <p className="text-white">
-                      {selectedRequest.Updated ? formatDate(selectedRequest.Updated) : 'Não atualizado'}
+                      {selectedRequest.Updated ? formatDate(selectedRequest.Updated) : t('aiAnalysis.request.notUpdated')}
                     </p>
                     {selectedRequest.UpdatedBy && (
-                      <p className="text-sm text-gray-400">por {selectedRequest.UpdatedBy}</p>
+                      <p className="text-sm text-gray-400">{t('aiAnalysis.request.updatedBy', { user: selectedRequest.UpdatedBy })}</p>
                     )}
                   </div>
                 </div>
@@ -1117,7 +1025,7 @@ export function AIPredictiveAnalysis({ requests, onClose }: AIPredictiveAnalysis
                 onClick={() => setSelectedRequest(null)}
                 className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white transition-colors"
               >
-                Fechar
+                {t('aiAnalysis.request.close')}
               </button>
             </div>
           </div>
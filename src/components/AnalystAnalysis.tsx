@@ -21,13 +21,14 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format, differenceInHours } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, isWithinInterval } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { normalizePriority, getIncidentState, isHighPriority } from '../utils/incidentUtils';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
 import { normalizeLocationName } from '../utils/locationUtils';
 import { AnalystPerformanceChart } from './AnalystPerformanceChart';
 import { MonthlyIncidentsChart } from './MonthlyIncidentsChart';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface AnalystAnalysisProps {
   incidents: Incident[];
@@ -77,25 +78,25 @@ interface AnalystStates {
 const STATUS_OPTIONS = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'analysis.status.all' as const,
     icon: Filter,
     color: 'text-gray-400'
   },
   { 
     value: 'Aberto', 
-    label: 'Em Aberto',
+    labelKey: 'analysis.status.open' as const,
     icon: AlertCircle,
     color: 'text-yellow-400'
   },
   { 
     value: 'Em Andamento', 
-    label: 'Em Andamento',
+    labelKey: 'analysis.status.inProgress' as const,
     icon: Clock,
     color: 'text-blue-400'
   },
   { 
     value: 'Fechado', 
-    label: 'Fechados',
+    labelKey: 'analysis.status.closed' as const,
     icon: CheckCircle2,
     color: 'text-green-400'
   }
@@ -109,13 +110,6 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hour
-  P2: 4,   // 4 hours
-  P3: 36,  // 36 hours
-  P4: 72   // 72 hours
-};
-
 const ANALYST_NAME_MAPPING: Record<string, string> = {
   'Anderson': 'Matheus Borges Brandao',
   'Goncales': 'Matheus Borges Brandao',
@@ -161,9 +155,9 @@ function IncidentModal({ incidents, analyst, onClose, startDate, endDate }: Inci
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -181,18 +175,18 @@ function IncidentModal({ incidents, analyst, onClose, startDate, endDate }: Inci
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-xl font-semibold text-white">
-                Chamados de {analyst}
+                {t('analystAnalysis.modalTitle', { analyst })}
                 {monthlyIncidents && (
                   <button
                     onClick={clearMonthFilter}
                     className="ml-2 text-sm text-indigo-400 hover:text-indigo-300"
                   >
-                    (Limpar filtro mensal)
+                    {t('analystAnalysis.clearMonth')}
                   </button>
                 )}
               </h2>
               <p className="text-gray-400 mt-1">
-                {filteredIncidents.length} chamados encontrados
+                {t('analysis.ticketsFound', { count: filteredIncidents.length })}
               </p>
             </div>
             <button
@@ -218,7 +212,7 @@ function IncidentModal({ incidents, analyst, onClose, startDate, endDate }: Inci
                   `}
                 >
                   <Icon className="h-4 w-4" />
-                  <span>{option.label}</span>
+                  <span>{t(option.labelKey)}</span>
                 </button>
               );
             })}
@@ -237,12 +231,12 @@ function IncidentModal({ incidents, analyst, onClose, startDate, endDate }: Inci
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Prioridade</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.priority')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -314,7 +308,7 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
     const data: Record<string, AnalystData> = {};
 
     filteredIncidents.forEach(incident => {
-      const analyst = normalizeAnalystName(incident.AssignedTo || 'Não atribuído');
+      const analyst = normalizeAnalystName(incident.AssignedTo || t('incident.unassigned'));
       const priority = normalizePriority(incident.Priority);
       const state = getIncidentState(incident.State);
       
@@ -350,7 +344,7 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
 
       if (state !== 'Fechado') {
         data[analyst].openIncidents++;
-        if (priority === 'P1' || priority === 'P2') {
+        if (isHighPriority(priority)) {
           data[analyst].criticalPending++;
         }
       }
@@ -359,11 +353,11 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
         data[analyst].groups.add(normalizeLocationName(incident.AssignmentGroup));
       }
 
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
+      const threshold = getIncidentSLAHours(incident);
       try {
         const opened = parseISO(incident.Opened);
         const lastUpdate = incident.Updated ? parseISO(incident.Updated) : new Date();
-        const responseTime = differenceInHours(lastUpdate, opened);
+        const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
         if (responseTime <= threshold) {
           data[analyst].withinSLA++;
         } else {
@@ -412,7 +406,7 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
     return (
       <div className="bg-[#151B2B] p-6 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-white">Análise por Analista</h2>
+          <h2 className="text-xl font-semibold text-white">{t('analystAnalysis.title')}</h2>
           {onClose && (
             <button
               onClick={onClose}
@@ -423,7 +417,7 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
           )}
         </div>
         <div className="text-center py-8">
-          <p className="text-gray-400">Nenhum incidente encontrado no período selecionado.</p>
+          <p className="text-gray-400">{t('analysis.noIncidents')}</p>
         </div>
       </div>
     );
@@ -433,12 +427,12 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
     <div className="space-y-4">
       <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-white">Análise por Analista</h2>
+          <h2 className="text-xl font-semibold text-white">{t('analystAnalysis.title')}</h2>
           {onClose && (
             <button
               onClick={onClose}
               className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-              aria-label="Fechar análise"
+              aria-label={t('analysis.close')}
             >
               <X className="h-5 w-5 text-gray-400 hover:text-white" />
             </button>
@@ -461,14 +455,14 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
                   `}
                 >
                   <Icon className="h-4 w-4" />
-                  <span>{option.label}</span>
+                  <span>{t(option.labelKey)}</span>
                 </button>
               );
             })}
           </div>
           <div className="border-l border-gray-700 pl-4 ml-4">
             <div className="flex items-center gap-2">
-              <span className="text-sm text-gray-400">Evolução Mensal</span>
+              <span className="text-sm text-gray-400">{t('analystAnalysis.monthly')}</span>
               <MonthlyIncidentsChart
                 incidents={incidents}
                 startDate={startDate}
@@ -479,7 +473,7 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">Distribuição por Analista</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('analystAnalysis.distribution')}</h3>
           <div className="h-[400px]">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
@@ -521,11 +515,11 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
                   }}
                 />
                 <Legend />
-                <Bar dataKey="P1" name="Crítico" fill={CHART_COLORS.P1} stackId="stack" />
-                <Bar dataKey="P2" name="Alto" fill={CHART_COLORS.P2} stackId="stack" />
-                <Bar dataKey="P3" name="Médio" fill={CHART_COLORS.P3} stackId="stack" />
-                <Bar dataKey="P4" name="Baixo" fill={CHART_COLORS.P4} stackId="stack" />
-                <Bar dataKey="undefined" name="Não definido" fill={CHART_COLORS['Não definido']} stackId="stack" />
+                <Bar dataKey="P1" name={t('analysis.priority.critical')} fill={CHART_COLORS.P1} stackId="stack" />
+                <Bar dataKey="P2" name={t('analysis.priority.high')} fill={CHART_COLORS.P2} stackId="stack" />
+                <Bar dataKey="P3" name={t('analysis.priority.medium')} fill={CHART_COLORS.P3} stackId="stack" />
+                <Bar dataKey="P4" name={t('analysis.priority.low')} fill={CHART_COLORS.P4} stackId="stack" />
+                <Bar dataKey="undefined" name={t('analysis.priority.undefined')} fill={CHART_COLORS['Não definido']} stackId="stack" />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -544,13 +538,13 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
                   <div className="flex items-center gap-2 mt-1">
                     <Users className="h-4 w-4 text-indigo-400" />
                     <span className="text-sm text-gray-400">
-                      {analyst.groupCount} {analyst.groupCount === 1 ? 'grupo' : 'grupos'}
+                      {t(analyst.groupCount === 1 ? 'analystAnalysis.group' : 'analystAnalysis.groups', { count: analyst.groupCount })}
                     </span>
                   </div>
                 </div>
                 <div className="text-right">
                   <span className="text-2xl font-bold text-white">{analyst.total}</span>
-                  <p className="text-sm text-gray-400">chamados</p>
+                  <p className="text-sm text-gray-400">{t('analystAnalysis.tickets')}</p>
                 </div>
               </div>
 
@@ -558,22 +552,22 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
                 <div className="grid grid-cols-3 gap-2 text-sm">
                   <div className="text-center">
                     <span className="text-yellow-400">{analyst.states.Aberto}</span>
-                    <p className="text-gray-400 text-xs">Abertos</p>
+                    <p className="text-gray-400 text-xs">{t('analystAnalysis.open')}</p>
                   </div>
                   <div className="text-center">
                     <span className="text-blue-400">{analyst.states['Em Andamento']}</span>
-                    <p className="text-gray-400 text-xs">Em Andamento</p>
+                    <p className="text-gray-400 text-xs">{t('analysis.status.inProgress')}</p>
                   </div>
                   <div className="text-center">
                     <span className="text-green-400">{analyst.states.Fechado}</span>
-                    <p className="text-gray-400 text-xs">Fechados</p>
+                    <p className="text-gray-400 text-xs">{t('analystAnalysis.closed')}</p>
                   </div>
                 </div>
 
                 {analyst.criticalPending > 0 && (
                   <div className="flex items-center gap-2 text-sm text-red-400">
                     <AlertTriangle className="h-4 w-4" />
-                    <span>{analyst.criticalPending} críticos pendentes</span>
+                    <span>{t('analystAnalysis.criticalPending', { count: analyst.criticalPending })}</span>
                   </div>
                 )}
 
@@ -586,7 +580,7 @@ export function AnalystAnalysis({ incidents, onClose, startDate, endDate }: Anal
                     analyst.slaPercentage >= 95 ? 'text-green-400' :
                     analyst.slaPercentage >= 85 ? 'text-yellow-400' : 'text-red-400'
                   }`}>
-                    {analyst.slaPercentage.toFixed(1)}%
+                    {formatDecimal(analyst.slaPercentage)}%
                   </span>
                 </div>
 
@@ -11,7 +11,7 @@ import {
 } from 'recharts';
 import { Incident } from '../types/incident';
 import { parseISO, format, differenceInHours, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface AnalystPerformanceChartProps {
   incidents: Incident[];
@@ -69,7 +69,7 @@ export function AnalystPerformanceChart({ incidents, analyst, startDate, endDate
         : 0;
 
       return {
-        month: format(month, 'MMM/yy', { locale: ptBR }),
+        month: format(month, 'MMM/yy', { locale: getDateLocale() }),
         avgResolutionTime: Number(avgResolutionTime.toFixed(1)),
         completionRate: Number(completionRate.toFixed(1)),
         totalIncidents: monthIncidents.length,
@@ -85,16 +85,16 @@ export function AnalystPerformanceChart({ incidents, analyst, startDate, endDate
           <p className="text-white font-medium mb-2">{label}</p>
           <div className="space-y-1">
             <p className="text-gray-300">
-              <span className="text-blue-400">Tempo Médio:</span> {payload[0].value} horas
+              <span className="text-blue-400">{t('analystAnalysis.avgTime')}</span> {t('analystAnalysis.hours', { count: payload[0].value })}
             </p>
             <p className="text-gray-300">
-              <span className="text-green-400">Taxa de Conclusão:</span> {payload[1].value}%
+              <span className="text-green-400">{t('analystAnalysis.completionRate')}</span> {payload[1].value}%
             </p>
             <p className="text-gray-300">
-              <span className="text-gray-400">Total de Chamados:</span> {payload[2].payload.totalIncidents}
+              <span className="text-gray-400">{t('analystAnalysis.totalTickets')}</span> {payload[2].payload.totalIncidents}
             </p>
             <p className="text-gray-300">
-              <span className="text-green-400">Concluídos:</span> {payload[2].payload.completedIncidents}
+              <span className="text-green-400">{t('analystAnalysis.completed')}</span> {payload[2].payload.completedIncidents}
             </p>
           </div>
         </div>
@@ -105,7 +105,7 @@ export function AnalystPerformanceChart({ incidents, analyst, startDate, endDate
 
   return (
     <div className="bg-[#1C2333] p-4 rounded-lg">
-      <h3 className="text-lg font-medium text-white mb-4">Performance Mensal - {analyst}</h3>
+      <h3 className="text-lg font-medium text-white mb-4">{t('analystAnalysis.performance', { analyst })}</h3>
       <div className="h-[400px]">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
@@ -139,7 +139,7 @@ export function AnalystPerformanceChart({ incidents, analyst, startDate, endDate
               yAxisId="left"
               type="monotone"
               dataKey="avgResolutionTime"
-              name="Tempo Médio (horas)"
+              name={t('analystAnalysis.avgTimeSeries')}
               stroke="#3B82F6"
               activeDot={{ r: 8 }}
               strokeWidth={2}
@@ -148,7 +148,7 @@ export function AnalystPerformanceChart({ incidents, analyst, startDate, endDate
               yAxisId="right"
               type="monotone"
               dataKey="completionRate"
-              name="Taxa de Conclusão (%)"
+              name={t('analystAnalysis.completionRateSeries')}
               stroke="#10B981"
               activeDot={{ r: 8 }}
               strokeWidth={2}
@@ -0,0 +1,278 @@
+import { useMemo, useState } from 'react';
+import { Boxes, Grid3x3, Save, RotateCcw, X, AlertCircle } from 'lucide-react';
+import { Incident } from '../types/incident';
+import { AssetClassId, AssetClassTaxonomy } from '../types/taxonomy';
+import {
+  ASSET_CLASS_LABEL_KEYS,
+  buildAssetClassOverlap,
+  getAssetClassLabel,
+  loadAssetTaxonomy,
+  resetAssetTaxonomy,
+  saveAssetTaxonomy
+} from '../utils/taxonomyUtils';
+import { t } from '../utils/i18nUtils';
+
+interface AssetTaxonomyManagerProps {
+  incidents: Incident[];
+  initialClass?: AssetClassId;
+  onClose: () => void;
+  onSaved: (taxonomy: AssetClassTaxonomy[]) => void;
+}
+
+interface ClassDraft {
+  id: AssetClassId;
+  label: string;
+  // Uma palavra-chave por linha, com peso opcional após ':' (ex.: notebook:2)
+  keywords: string;
+  negativeKeywords: string;
+  threshold: string;
+}
+
+const toDraft = (assetClass: AssetClassTaxonomy): ClassDraft => ({
+  id: assetClass.id,
+  label: assetClass.label,
+  keywords: assetClass.keywords.map(({ term, weight }) => (weight === 1 ? term : `${term}:${weight}`)).join('\n'),
+  negativeKeywords: assetClass.negativeKeywords.join('\n'),
+  threshold: String(assetClass.threshold)
+});
+
+const parseNumber = (value: string) => Number(value.trim().replace(',', '.'));
+
+// Converte os rascunhos; termos com peso inválido ficam com peso 0 e são apontados ao salvar
+const fromDrafts = (drafts: ClassDraft[]): AssetClassTaxonomy[] =>
+  drafts.map(draft => ({
+    id: draft.id,
+    label: draft.label.trim(),
+    keywords: draft.keywords.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+      const match = line.match(/^(.*?)\s*:\s*([\d.,]+)$/);
+      const weight = match ? parseNumber(match[2]) : 1;
+      return { term: (match ? match[1] : line).trim(), weight: isNaN(weight) ? 0 : weight };
+    }),
+    negativeKeywords: draft.negativeKeywords.split('\n').map(line => line.trim()).filter(Boolean),
+    threshold: isNaN(parseNumber(draft.threshold)) ? 0 : parseNumber(draft.threshold)
+  }));
+
+export function AssetTaxonomyManager({ incidents, initialClass, onClose, onSaved }: AssetTaxonomyManagerProps) {
+  const [drafts, setDrafts] = useState<ClassDraft[]>(() => loadAssetTaxonomy().map(toDraft));
+  const [panel, setPanel] = useState<AssetClassId | 'overlap'>(initialClass ?? 'hardware');
+  const [error, setError] = useState<string | null>(null);
+
+  const taxonomy = useMemo(() => fromDrafts(drafts), [drafts]);
+  // Prévia com a taxonomia em edição
+  const overlap = useMemo(() => buildAssetClassOverlap(incidents, taxonomy), [incidents, taxonomy]);
+
+  const selected = drafts.find(draft => draft.id === panel);
+  const labelOf = (id: AssetClassId) => getAssetClassLabel(id, taxonomy);
+
+  const updateSelected = (changes: Partial<ClassDraft>) => {
+    setDrafts(drafts.map(draft => (draft.id === panel ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSave = () => {
+    for (const assetClass of taxonomy) {
+      const invalid = assetClass.keywords.find(keyword => !keyword.term || keyword.weight <= 0);
+      if (invalid) {
+        setPanel(assetClass.id);
+        setError(t('taxonomy.error.invalidWeight', { label: labelOf(assetClass.id), term: invalid.term || t('taxonomy.error.emptyTerm') }));
+        return;
+      }
+      if (assetClass.threshold <= 0) {
+        setPanel(assetClass.id);
+        setError(t('taxonomy.error.threshold', { label: labelOf(assetClass.id) }));
+        return;
+      }
+    }
+
+    saveAssetTaxonomy(taxonomy);
+    setError(null);
+    onSaved(taxonomy);
+    onClose();
+  };
+
+  const handleReset = () => {
+    const defaults = resetAssetTaxonomy();
+    setDrafts(defaults.map(toDraft));
+    setError(null);
+    onSaved(defaults);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Boxes className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('taxonomy.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('taxonomy.subtitle')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t('taxonomy.reset')}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2 mt-4">
+            {drafts.map(draft => (
+              <button
+                key={draft.id}
+                onClick={() => setPanel(draft.id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  panel === draft.id ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+                }`}
+              >
+                {labelOf(draft.id)}
+                <span className="text-xs opacity-75">{overlap.matrix[draft.id][draft.id]}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => setPanel('overlap')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                panel === 'overlap' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+              }`}
+            >
+              <Grid3x3 className="h-4 w-4" />
+              {t('taxonomy.overlap')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {selected ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block text-sm text-gray-400">
+                    {t('taxonomy.className')}
+                    <input
+                      type="text"
+                      value={selected.label}
+                      onChange={(e) => updateSelected({ label: e.target.value })}
+                      placeholder={t(ASSET_CLASS_LABEL_KEYS[selected.id])}
+                      className="mt-1 w-full bg-[#1C2333] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-400">
+                    {t('taxonomy.threshold')}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={selected.threshold}
+                      onChange={(e) => updateSelected({ threshold: e.target.value })}
+                      className="mt-1 w-full bg-[#1C2333] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                    />
+                  </label>
+                </div>
+                <label className="block text-sm text-gray-400">
+                  {t('taxonomy.keywords')}
+                  <textarea
+                    value={selected.keywords}
+                    onChange={(e) => updateSelected({ keywords: e.target.value })}
+                    rows={14}
+                    className="mt-1 w-full bg-[#1C2333] border border-gray-700 rounded-lg px-3 py-2 text-white font-mono text-sm"
+                  />
+                </label>
+              </div>
+              <div className="space-y-4">
+                <label className="block text-sm text-gray-400">
+                  {t('taxonomy.negativeKeywords')}
+                  <textarea
+                    value={selected.negativeKeywords}
+                    onChange={(e) => updateSelected({ negativeKeywords: e.target.value })}
+                    rows={6}
+                    placeholder="impressora de rede"
+                    className="mt-1 w-full bg-[#1C2333] border border-gray-700 rounded-lg px-3 py-2 text-white font-mono text-sm"
+                  />
+                </label>
+                <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400 space-y-1">
+                  <p>
+                    {t('taxonomy.classified', { count: overlap.matrix[selected.id][selected.id], label: labelOf(selected.id) })}
+                  </p>
+                  {overlap.classes.filter(id => id !== selected.id && overlap.matrix[selected.id][id] > 0).map(id => (
+                    <p key={id}>
+                      {t('taxonomy.alsoClassified', { count: overlap.matrix[selected.id][id], label: labelOf(id) })}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-400">
+                {t('taxonomy.overlapHint', { multiLabel: overlap.multiLabel, unclassified: overlap.unclassified })}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2" />
+                      {overlap.classes.map(id => (
+                        <th key={id} className="px-3 py-2 text-gray-400 font-medium text-center">{labelOf(id)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {overlap.classes.map(row => (
+                      <tr key={row}>
+                        <th className="px-3 py-2 text-gray-400 font-medium text-left">{labelOf(row)}</th>
+                        {overlap.classes.map(column => {
+                          const value = overlap.matrix[row][column];
+                          const isDiagonal = row === column;
+                          return (
+                            <td
+                              key={column}
+                              className={`px-3 py-2 text-center rounded ${
+                                isDiagonal
+                                  ? 'bg-indigo-500/20 text-indigo-300 font-medium'
+                                  : value > 0 ? 'bg-yellow-500/10 text-yellow-300' : 'text-gray-500'
+                              }`}
+                            >
+                              {value}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-4">
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : (
+            <span className="text-sm text-gray-400">{t('taxonomy.preview', { count: incidents.length })}</span>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            {t('taxonomy.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
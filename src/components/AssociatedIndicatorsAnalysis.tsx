@@ -3,6 +3,9 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { format, parseISO, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { StringAnalysisModal } from './StringAnalysisModal';
+import { getShiftFromTime, getShiftName } from '../utils/shiftUtils';
+import { normalizeLocationName } from '../utils/locationUtils';
+import { formatDecimal, t } from '../utils/i18nUtils';
 
 interface AssociatedIndicatorsAnalysisProps {
   data: any[];
@@ -11,12 +14,6 @@ interface AssociatedIndicatorsAnalysisProps {
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
-const SHIFT_TIMES = {
-  morning: { start: 6, end: 14 },
-  afternoon: { start: 14, end: 22 },
-  night: { start: 22, end: 6 }
-};
-
 // Função utilitária para normalizar nomes de campos
 function getField(item: any, keys: string[]): string {
   for (const key of keys) {
@@ -27,6 +24,9 @@ function getField(item: any, keys: string[]): string {
   return 'Não Definido';
 }
 
+// 'Não Definido' identifica os campos vazios (e segue para a análise de string); só o rótulo exibido é traduzido
+const getDisplayName = (name: string) => (name === 'Não Definido' ? t('associated.notDefined') : name);
+
 // Tooltip customizado para fundo escuro e percentual
 const CustomDarkPieTooltip = ({ active, payload }: any) => {
   if (active && payload && payload.length) {
@@ -35,7 +35,7 @@ const CustomDarkPieTooltip = ({ active, payload }: any) => {
       <div style={{ background: '#23263a', color: '#fff', borderRadius: 8, padding: 12, boxShadow: '0 2px 8px #0008', border: '1px solid #333', minWidth: 120, fontSize: 13 }}>
         {payload.map((entry: any, idx: number) => (
           <div key={idx} style={{ color: entry.color, fontWeight: 500, marginBottom: 2 }}>
-            {entry.name}: {entry.value} ({((entry.value / total) * 100).toFixed(1)}%)
+            {entry.name}: {entry.value} ({formatDecimal((entry.value / total) * 100)}%)
           </div>
         ))}
       </div>
@@ -59,7 +59,7 @@ const CustomPieLabel = (props: any) => {
   const radius = innerRadius + (outerRadius - innerRadius) * 0.5;
   const x = cx + radius * Math.cos(-midAngle * RADIAN);
   const y = cy + radius * Math.sin(-midAngle * RADIAN);
-  const percentValue = (percent * 100).toFixed(1);
+  const percentValue = formatDecimal(percent * 100);
   if (percent < 0.05) {
     return (
       <text x={x} y={y} fill="#fff" textAnchor="middle" dominantBaseline="central" fontSize={11} fontWeight={500}>
@@ -79,7 +79,7 @@ const CustomPieLabel = (props: any) => {
 const BarValuePercentLabel = (props: any) => {
   const { x, y, width, value, index, data } = props;
   const total = data.reduce((sum: number, item: any) => sum + Number(item.value), 0);
-  const percent = total > 0 ? ((Number(value) / total) * 100).toFixed(1) : '0.0';
+  const percent = formatDecimal(total > 0 ? (Number(value) / total) * 100 : 0);
   return (
     <text
       x={x + width / 2}
@@ -111,18 +111,11 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
 
     // Processamento por turno
     const shiftData = filteredData.reduce((acc, item) => {
-      const hour = parseISO(item.Opened).getHours();
-      let shift = 'night';
-      
-      if (hour >= SHIFT_TIMES.morning.start && hour < SHIFT_TIMES.morning.end) {
-        shift = 'morning';
-      } else if (hour >= SHIFT_TIMES.afternoon.start && hour < SHIFT_TIMES.afternoon.end) {
-        shift = 'afternoon';
-      }
+      const shift = getShiftFromTime(item.Opened, normalizeLocationName(item.AssignmentGroup));
 
       if (!acc[shift]) {
         acc[shift] = {
-          name: shift === 'morning' ? 'Manhã' : shift === 'afternoon' ? 'Tarde' : 'Noite',
+          name: getShiftName(shift),
           value: 0,
           items: []
         };
@@ -179,14 +172,14 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
   }, [data, dateRange]);
 
   // Função para filtrar dados por função selecionada
-  const filteredByFunction = selectedFunction
+  const filteredByFunction = useMemo(() => selectedFunction
     ? data.filter(item => {
         const functionName = getField(item, [
           'Função Associada', 'FuncaoAssociada', 'Funcao', 'Função', 'Nível', 'Nivel', 'NivelFuncao', 'NívelFunção', 'Nivel de Suporte', 'Nível de Suporte', 'SupportLevel', 'Support Level', 'Level', 'level', 'n1', 'n2', 'n3', 'N1', 'N2', 'N3'
         ]);
         return functionName === selectedFunction;
       })
-    : [];
+    : [], [data, selectedFunction]);
 
   // Processar distribuição por turno para a função selecionada
   const shiftDataByFunction = useMemo(() => {
@@ -199,16 +192,10 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
       });
     });
     return filtered.reduce((acc, item) => {
-      const hour = parseISO(item.Opened).getHours();
-      let shift = 'night';
-      if (hour >= SHIFT_TIMES.morning.start && hour < SHIFT_TIMES.morning.end) {
-        shift = 'morning';
-      } else if (hour >= SHIFT_TIMES.afternoon.start && hour < SHIFT_TIMES.afternoon.end) {
-        shift = 'afternoon';
-      }
+      const shift = getShiftFromTime(item.Opened, normalizeLocationName(item.AssignmentGroup));
       if (!acc[shift]) {
         acc[shift] = {
-          name: shift === 'morning' ? 'Manhã' : shift === 'afternoon' ? 'Tarde' : 'Noite',
+          name: getShiftName(shift),
           value: 0
         };
       }
@@ -282,7 +269,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
 
   return (
     <div className="space-y-8 p-6 bg-[#151B2B] rounded-lg">
-      <h2 className="text-2xl font-bold text-white mb-6">Análise de Indicadores Associados</h2>
+      <h2 className="text-2xl font-bold text-white mb-6">{t('associated.title')}</h2>
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/*
@@ -299,7 +286,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
           ================================================================
         */}
         <div className="bg-[#1E293B] p-4 rounded-lg">
-          <h3 className="text-lg font-semibold text-white mb-4">Distribuição por Turno</h3>
+          <h3 className="text-lg font-semibold text-white mb-4">{t('associated.byShift')}</h3>
           <div className="flex flex-col items-center justify-center h-[400px]">
             <ResponsiveContainer width={400} height={320}>
               <BarChart data={processedData.shiftData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
@@ -321,7 +308,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
             </ResponsiveContainer>
           </div>
           <div className="text-center text-gray-400 text-sm mt-4">
-            <strong>Observação:</strong> Este gráfico apresenta a distribuição dos chamados por turno de atendimento. Os percentuais e totais ajudam a identificar em quais períodos há maior demanda, auxiliando no planejamento de equipes e recursos.
+            <strong>{t('associated.note')}</strong> {t('associated.shiftNote')}
           </div>
           {/* Legenda customizada */}
           <div className="flex gap-6 mt-6 justify-center">
@@ -336,13 +323,13 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
 
         {/* Gráfico de Funções */}
         <div className="bg-[#1E293B] p-4 rounded-lg">
-          <h3 className="text-lg font-semibold text-white mb-4">Distribuição por Função</h3>
-          <div className="mb-2 text-sm text-blue-300 font-medium">Clique na barra para Análise por IA</div>
+          <h3 className="text-lg font-semibold text-white mb-4">{t('associated.byFunction')}</h3>
+          <div className="mb-2 text-sm text-blue-300 font-medium">{t('associated.clickForAI')}</div>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={processedData.functionData}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" tick={{ fill: '#fff', fontSize: 12 }} angle={-35} textAnchor="end" height={60} />
+                <XAxis dataKey="name" tick={{ fill: '#fff', fontSize: 12 }} angle={-35} textAnchor="end" height={60} tickFormatter={getDisplayName} />
                 <YAxis />
                 <Tooltip content={<CustomDarkPieTooltip />} />
                 <Legend />
@@ -357,13 +344,13 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
           </div>
           {/* Lista detalhada de funções */}
           <div className="mt-4">
-            <h4 className="text-white font-semibold mb-2 text-sm">Lista de Funções e Quantidade de Chamados</h4>
+            <h4 className="text-white font-semibold mb-2 text-sm">{t('associated.functionList')}</h4>
             <ul className="text-gray-300 text-sm space-y-1 max-h-40 overflow-y-auto pr-2">
               {processedData.functionData
                 .sort((a, b) => Number(b.value) - Number(a.value))
                 .map((item, idx) => (
                   <li key={item.name + idx} className="flex justify-between border-b border-gray-700 pb-1">
-                    <span>{String(item.name)}</span>
+                    <span>{getDisplayName(String(item.name))}</span>
                     <span className="font-bold text-indigo-400">{String(item.value)}</span>
                   </li>
                 ))}
@@ -374,7 +361,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
             <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
               <div className="bg-[#151B2B] rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
                 <div className="flex justify-between items-center mb-6">
-                  <h2 className="text-xl font-bold text-white">Distribuição por Turno - {selectedFunction}</h2>
+                  <h2 className="text-xl font-bold text-white">{t('associated.shiftByFunction', { name: getDisplayName(selectedFunction) })}</h2>
                   <button
                     onClick={() => setSelectedFunction(null)}
                     className="text-gray-400 hover:text-white"
@@ -404,7 +391,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
                   </ResponsiveContainer>
                 </div>
                 <div>
-                  <h4 className="text-white font-semibold mb-2 text-sm">Chamados por Turno</h4>
+                  <h4 className="text-white font-semibold mb-2 text-sm">{t('associated.ticketsByShift')}</h4>
                   <ul className="text-gray-300 text-sm space-y-1">
                     {Object.values(shiftDataByFunction)
                       .sort((a: any, b: any) => Number(b.value) - Number(a.value))
@@ -423,8 +410,8 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
 
         {/* Gráfico de Grupos */}
         <div className="bg-[#1E293B] p-4 rounded-lg">
-          <h3 className="text-lg font-semibold text-white mb-4">Distribuição por Grupo (por Função)</h3>
-          <p className="text-xs text-green-300 mb-2">Cada barra representa um grupo e as cores mostram a quantidade de chamados por função (N1, N2, N3, etc.).</p>
+          <h3 className="text-lg font-semibold text-white mb-4">{t('associated.byGroup')}</h3>
+          <p className="text-xs text-green-300 mb-2">{t('associated.byGroupHint')}</p>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={groupFunctionMatrix.chartData}>
@@ -441,15 +428,15 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
           </div>
           {/* Lista detalhada de grupos por função */}
           <div className="mt-4">
-            <h4 className="text-white font-semibold mb-2 text-sm">Lista de Grupos e Quantidade de Chamados por Função</h4>
+            <h4 className="text-white font-semibold mb-2 text-sm">{t('associated.groupList')}</h4>
             <ul className="text-gray-300 text-sm space-y-2 max-h-40 overflow-y-auto pr-2">
               {groupFunctionMatrix.groupArray.map((group, idx) => (
                 <li key={group + idx} className="border-b border-gray-700 pb-1">
-                  <span className="font-bold text-green-400">{group}</span>
+                  <span className="font-bold text-green-400">{getDisplayName(group)}</span>
                   <ul className="ml-4">
                     {groupFunctionMatrix.functionArray.map((func, fidx) => (
                       <li key={func + fidx} className="flex justify-between">
-                        <span>{func}</span>
+                        <span>{getDisplayName(func)}</span>
                         <span className="font-bold text-white">{String(groupFunctionMatrix.matrix[group]?.[func] || 0)}</span>
                       </li>
                     ))}
@@ -477,14 +464,14 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
         */}
         <div className="bg-[#1E293B] rounded-lg p-4 mb-4">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-semibold text-white">Distribuição por String</h3>
+            <h3 className="text-lg font-semibold text-white">{t('associated.byString')}</h3>
           </div>
-          <div className="mb-2 text-sm text-blue-300 font-medium">Clique na barra para Análise por IA</div>
+          <div className="mb-2 text-sm text-blue-300 font-medium">{t('associated.clickForAI')}</div>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={top5StringData}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" angle={-35} textAnchor="end" interval={0} height={60} tick={{ fill: '#fff', fontSize: 12 }} />
+                <XAxis dataKey="name" angle={-35} textAnchor="end" interval={0} height={60} tick={{ fill: '#fff', fontSize: 12 }} tickFormatter={getDisplayName} />
                 <YAxis />
                 <Tooltip content={<CustomDarkPieTooltip />} />
                 <Legend formatter={() => null} />
@@ -500,7 +487,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
           </div>
           {/* Lista detalhada de strings */}
           <div className="mt-4">
-            <h4 className="text-white font-semibold mb-2 text-sm">Lista de Strings e Quantidade de Chamados</h4>
+            <h4 className="text-white font-semibold mb-2 text-sm">{t('associated.stringList')}</h4>
             <ul className="text-gray-300 text-sm space-y-1 max-h-40 overflow-y-auto pr-2">
               {processedData.stringData
                 .sort((a, b) => Number(b.value) - Number(a.value))
@@ -513,7 +500,7 @@ export function AssociatedIndicatorsAnalysis({ data, dateRange }: AssociatedIndi
                       setShowStringAnalysis(true);
                     }}
                   >
-                    <span>{item.name}</span>
+                    <span>{getDisplayName(item.name)}</span>
                     <span className="font-bold text-white">{String(item.value)}</span>
                   </li>
                 ))}
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { t } from '../utils/i18nUtils';
 
 interface AuthProps {
   onAuthSuccess: () => void;
@@ -39,7 +40,7 @@ export function Auth({ onAuthSuccess }: AuthProps) {
       }
       onAuthSuccess();
     } else {
-      setError('Credenciais inválidas');
+      setError(t('auth.invalidCredentials'));
     }
   };
 
@@ -55,20 +56,20 @@ export function Auth({ onAuthSuccess }: AuthProps) {
             </h1>
           </div>
           <p className="text-orange-500 text-sm">
-            Conectando Inteligência e Tecnologia
+            {t('upload.tagline')}
           </p>
           <h2 className="text-white text-2xl font-bold mt-2">
             IT Operations Dashboard
           </h2>
           <p className="text-gray-400 text-sm text-center">
-            Sistema integrado para monitoramento e análise de incidentes e requisições de TI. Visualize métricas, tendências e indicadores-chave de performance.
+            {t('auth.description')}
           </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-4">
             <div>
-              <label className="text-gray-300 text-sm">Usuário</label>
+              <label className="text-gray-300 text-sm">{t('auth.username')}</label>
               <div className="mt-1 relative">
                 <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-400">
                   👤
@@ -78,13 +79,13 @@ export function Auth({ onAuthSuccess }: AuthProps) {
                   value={username}
                   onChange={(e) => setUsername(e.target.value)}
                   className="w-full pl-10 pr-3 py-2 bg-[#374151] border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Digite seu nome de usuário"
+                  placeholder={t('auth.usernamePlaceholder')}
                 />
               </div>
             </div>
 
             <div>
-              <label className="text-gray-300 text-sm">Senha</label>
+              <label className="text-gray-300 text-sm">{t('auth.password')}</label>
               <div className="mt-1 relative">
                 <span className="absolute inset-y-0 left-0 pl-3 flex items-center text-gray-400">
                   🔒
@@ -94,7 +95,7 @@ export function Auth({ onAuthSuccess }: AuthProps) {
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full pl-10 pr-3 py-2 bg-[#374151] border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Digite sua senha"
+                  placeholder={t('auth.passwordPlaceholder')}
                 />
               </div>
             </div>
@@ -115,7 +116,7 @@ export function Auth({ onAuthSuccess }: AuthProps) {
                 className="h-4 w-4 text-blue-500 focus:ring-blue-500 border-gray-600 rounded"
               />
               <label className="ml-2 text-sm text-gray-300">
-                Lembrar-me
+                {t('auth.rememberMe')}
               </label>
             </div>
           </div>
@@ -124,13 +125,13 @@ export function Auth({ onAuthSuccess }: AuthProps) {
             type="submit"
             className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition duration-200 ease-in-out"
           >
-            Entrar
+            {t('auth.signIn')}
           </button>
         </form>
 
         <div className="text-center">
           <p className="text-xs text-gray-500">
-            © 2025 OnSet Tecnologia. Todos os direitos reservados.
+            {t('auth.copyright')}
           </p>
         </div>
       </div>
@@ -0,0 +1,316 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import {
+  ArrowLeft,
+  FileSpreadsheet,
+  AlertCircle,
+  AlertTriangle,
+  ListTodo,
+  Target,
+  Gauge,
+  CalendarClock,
+  Trash2
+} from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { BacklogItem } from '../types/backlog';
+import { ValidationError } from '../types/ingestion';
+import { IMPORT_FILE_ACCEPT, readImportFile } from '../utils/ingestionUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
+import {
+  calculateBacklogStats,
+  calculateSprintVelocity,
+  findMissingBacklogColumns,
+  loadBacklogItems,
+  processBacklogRows,
+  saveBacklogItems,
+  UPCOMING_DUE_DAYS
+} from '../utils/backlogUtils';
+import { StatsCard } from './StatsCard';
+
+interface BacklogDashboardProps {
+  onBack: () => void;
+}
+
+const TotalsList = ({ title, totals }: { title: string; totals: Record<string, number> }) => {
+  const entries = Object.entries(totals).sort((a, b) => b[1] - a[1]);
+  const max = entries[0]?.[1] ?? 0;
+  return (
+    <div className="bg-[#151B2B] p-6 rounded-lg">
+      <h3 className="text-lg font-medium text-white mb-4">{title}</h3>
+      <div className="space-y-3 max-h-72 overflow-y-auto pr-1">
+        {entries.map(([label, count]) => (
+          <div key={label}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-300 truncate" title={label}>{label}</span>
+              <span className="text-white font-medium">{count}</span>
+            </div>
+            <div className="h-2 bg-[#1C2333] rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500" style={{ width: `${max > 0 ? (count / max) * 100 : 0}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const formatDueDate = (value: string) => {
+  try {
+    return formatLocalizedDate(parseISO(value), 'format.date');
+  } catch {
+    return value;
+  }
+};
+
+export function BacklogDashboard({ onBack }: BacklogDashboardProps) {
+  const [items, setItems] = useState<BacklogItem[]>(() => loadBacklogItems());
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const stats = useMemo(() => calculateBacklogStats(items), [items]);
+  const velocity = useMemo(() => calculateSprintVelocity(items), [items]);
+  const averageVelocity = useMemo(() => {
+    const completed = velocity.filter(sprint => sprint.completedPoints > 0);
+    if (completed.length === 0) return 0;
+    return completed.reduce((sum, sprint) => sum + sprint.completedPoints, 0) / completed.length;
+  }, [velocity]);
+  const overdueCount = stats.upcomingDueDates.filter(entry => entry.daysUntilDue < 0).length;
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setError(null);
+    setValidationErrors([]);
+    setIsProcessing(true);
+
+    try {
+      const data = await readImportFile(file);
+      const missing = findMissingBacklogColumns(data.headers);
+      if (missing.length > 0) {
+        throw new Error(t('import.error.missingColumns', { columns: missing.join(', ') }));
+      }
+      const result = processBacklogRows(data.rows);
+      if (result.items.length === 0) {
+        throw new Error(t('backlog.error.noItems'));
+      }
+      setValidationErrors(result.errors);
+      setItems(result.items);
+      saveBacklogItems(result.items);
+    } catch (err) {
+      console.error('Erro ao importar backlog:', err);
+      setError(err instanceof Error ? err.message : t('import.error.processFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: IMPORT_FILE_ACCEPT,
+    multiple: false,
+    disabled: isProcessing
+  });
+
+  const handleClear = () => {
+    setItems([]);
+    setValidationErrors([]);
+    saveBacklogItems([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0B1120] text-white">
+      <header className="bg-[#151B2B] py-4">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+          <div className="flex items-center">
+            <button
+              onClick={onBack}
+              className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+              <span>{t('backlog.back')}</span>
+            </button>
+            <h1 className="ml-6 text-2xl font-bold text-white">{t('backlog.title')}</h1>
+          </div>
+          {items.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-2 px-3 py-2 bg-[#1C2333] hover:bg-[#252d3d] text-gray-300 rounded-lg transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              {t('backlog.clear')}
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div
+          {...getRootProps()}
+          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+            isDragActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          <input {...getInputProps()} />
+          <FileSpreadsheet className="h-8 w-8 text-indigo-400 mx-auto mb-2" />
+          <p className="text-white">
+            {isProcessing
+              ? t('backlog.processing')
+              : items.length > 0
+                ? t('backlog.replace')
+                : t('backlog.drop')}
+          </p>
+          <p className="text-sm text-gray-400 mt-1">
+            {t('backlog.columns')}
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {validationErrors.length > 0 && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+            <div className="flex gap-3">
+              <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+              <div>
+                <h3 className="text-sm font-medium text-yellow-400">
+                  {t('import.occurrences', { count: validationErrors.length })}
+                </h3>
+                <ul className="mt-2 max-h-40 overflow-auto list-disc list-inside text-sm text-yellow-300 space-y-1">
+                  {validationErrors.map((validationError, index) => (
+                    <li key={index}>
+                      {t('upload.rowError', { row: validationError.row, reason: validationError.reason })}
+                      {validationError.value && t('upload.rowValue', { value: validationError.value })}
+                      {validationError.severity === 'error' && t('import.rowDiscarded')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <StatsCard title={t('backlog.items')} value={items.length} icon={ListTodo} className="bg-[#151B2B]" />
+              <StatsCard
+                title={t('backlog.storyPoints')}
+                value={stats.totalStoryPoints}
+                icon={Target}
+                className="bg-[#151B2B]"
+                subtitle={t('backlog.averagePoints', { value: formatDecimal(stats.averageStoryPoints) })}
+              />
+              <StatsCard
+                title={t('backlog.averageVelocity')}
+                value={Math.round(averageVelocity)}
+                icon={Gauge}
+                className="bg-[#151B2B]"
+                subtitle={t('backlog.pointsPerSprint')}
+              />
+              <StatsCard
+                title={t('backlog.overdue')}
+                value={overdueCount}
+                icon={CalendarClock}
+                className="bg-[#151B2B] border-2 border-red-500/50"
+                valueColor="text-red-500"
+                subtitle={t('backlog.overdueHint')}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <TotalsList title={t('backlog.byTeam')} totals={stats.totalByTeam} />
+              <TotalsList title={t('backlog.byCategory')} totals={stats.totalByCategory} />
+              <TotalsList title={t('backlog.byStatus')} totals={stats.totalByStatus} />
+            </div>
+
+            <div className="bg-[#151B2B] p-6 rounded-lg">
+              <h3 className="text-lg font-medium text-white mb-4">{t('backlog.velocity')}</h3>
+              {velocity.length === 0 ? (
+                <p className="text-sm text-gray-400">{t('backlog.noSprint')}</p>
+              ) : (
+                <div className="h-[320px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={velocity} margin={{ top: 20, right: 30, left: 0, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.5} />
+                      <XAxis dataKey="sprint" tick={{ fill: '#9CA3AF', fontSize: 12 }} />
+                      <YAxis tick={{ fill: '#9CA3AF', fontSize: 12 }} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151', borderRadius: '0.5rem' }}
+                        labelStyle={{ color: '#fff' }}
+                      />
+                      <Legend />
+                      <Bar dataKey="committedPoints" name={t('backlog.committed')} fill="#6366F1" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="completedPoints" name={t('backlog.completed')} fill="#10B981" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-[#151B2B] p-6 rounded-lg">
+              <h3 className="text-lg font-medium text-white mb-4">
+                {t('backlog.upcoming', { days: UPCOMING_DUE_DAYS })}
+              </h3>
+              {stats.upcomingDueDates.length === 0 ? (
+                <p className="text-sm text-gray-400">{t('backlog.noUpcoming', { days: UPCOMING_DUE_DAYS })}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-[#1C2333]">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('backlog.number')}</th>
+                        <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('backlog.description')}</th>
+                        <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('backlog.team')}</th>
+                        <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('backlog.sprint')}</th>
+                        <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('backlog.dueDate')}</th>
+                        <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('backlog.deadline')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.upcomingDueDates.map(({ item, daysUntilDue }) => (
+                        <tr key={item.Number} className="border-t border-gray-800">
+                          <td className="px-3 py-2 text-white whitespace-nowrap">{item.Number}</td>
+                          <td className="px-3 py-2 text-gray-300 max-w-[320px] truncate" title={item.Description}>
+                            {item.Description || '—'}
+                          </td>
+                          <td className="px-3 py-2 text-gray-300">{item.Team || '—'}</td>
+                          <td className="px-3 py-2 text-gray-300">{item.Sprint || '—'}</td>
+                          <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{formatDueDate(item.DueDate)}</td>
+                          <td className={`px-3 py-2 text-right whitespace-nowrap ${
+                            daysUntilDue < 0 ? 'text-red-400' : daysUntilDue <= 7 ? 'text-yellow-400' : 'text-gray-300'
+                          }`}>
+                            {daysUntilDue < 0
+                              ? t('backlog.daysOverdue', { count: Math.abs(daysUntilDue) })
+                              : daysUntilDue === 0
+                                ? t('backlog.today')
+                                : t('backlog.daysLeft', { count: daysUntilDue })}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
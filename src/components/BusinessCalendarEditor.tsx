@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2, AlertCircle } from 'lucide-react';
+import { BusinessCalendar, CalendarSchedule } from '../types/calendar';
+import { SHIFT_SCHEDULES } from '../types/analyst';
+import {
+  BRAZILIAN_STATES,
+  DEFAULT_CALENDAR_ID,
+  WEEK_DAY_KEYS,
+  deleteCalendar,
+  isContinuousCalendar,
+  loadCalendars,
+  parseHolidayDate,
+  saveCalendar
+} from '../utils/calendarUtils';
+import { t } from '../utils/i18nUtils';
+
+interface BusinessCalendarEditorProps {
+  // Chamado após salvar/excluir para que as telas recalculem o SLA
+  onChanged: () => void;
+}
+
+type CalendarDraft = Omit<BusinessCalendar, 'id' | 'updatedAt' | 'customHolidays' | 'locations'> & {
+  id?: string;
+  customHolidays: string;
+  locations: string;
+};
+
+const formatHoliday = (day: string) => day.split('-').reverse().join('/');
+
+const toDraft = (calendar: BusinessCalendar): CalendarDraft => ({
+  ...calendar,
+  customHolidays: calendar.customHolidays.map(formatHoliday).join('\n'),
+  locations: calendar.locations.join(', ')
+});
+
+const createDraft = (): CalendarDraft => ({
+  name: '',
+  schedule: SHIFT_SCHEDULES.BUSINESS,
+  startTime: '08:00',
+  endTime: '18:00',
+  workDays: [1, 2, 3, 4, 5],
+  state: '',
+  customHolidays: '',
+  locations: ''
+});
+
+const describeCalendar = (calendar: BusinessCalendar) => {
+  if (isContinuousCalendar(calendar)) return t('calendar.allDay');
+  const days = calendar.workDays.map(day => t(WEEK_DAY_KEYS[day])).join(', ');
+  const holidays = calendar.state ? t('calendar.stateHolidays', { state: calendar.state }) : t('calendar.nationalHolidays');
+  return `${days} · ${calendar.startTime}–${calendar.endTime} · ${holidays}`;
+};
+
+export function BusinessCalendarEditor({ onChanged }: BusinessCalendarEditorProps) {
+  const [calendars, setCalendars] = useState<BusinessCalendar[]>(() => loadCalendars());
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    setCalendars([...loadCalendars()]);
+    onChanged();
+  };
+
+  const toggleWorkDay = (day: number) => {
+    if (!draft) return;
+    const workDays = draft.workDays.includes(day)
+      ? draft.workDays.filter(d => d !== day)
+      : [...draft.workDays, day].sort((a, b) => a - b);
+    setDraft({ ...draft, workDays });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError(t('calendar.error.name'));
+      return;
+    }
+    const isBusiness = draft.schedule === SHIFT_SCHEDULES.BUSINESS;
+    if (isBusiness && draft.workDays.length === 0) {
+      setError(t('calendar.error.workDays'));
+      return;
+    }
+    if (isBusiness && (!draft.startTime || !draft.endTime || draft.startTime === draft.endTime)) {
+      setError(t('calendar.error.hours'));
+      return;
+    }
+
+    const customHolidays: string[] = [];
+    for (const line of draft.customHolidays.split('\n')) {
+      if (!line.trim()) continue;
+      const day = parseHolidayDate(line);
+      if (!day) {
+        setError(t('calendar.error.holiday', { value: line.trim() }));
+        return;
+      }
+      customHolidays.push(day);
+    }
+
+    const saved = saveCalendar({
+      id: draft.id,
+      name: draft.name.trim(),
+      schedule: draft.schedule,
+      startTime: draft.startTime,
+      endTime: draft.endTime,
+      workDays: draft.workDays,
+      state: draft.state,
+      customHolidays: [...new Set(customHolidays)].sort(),
+      locations: draft.locations.split(',').map(location => location.trim()).filter(Boolean)
+    });
+    setDraft(toDraft(saved));
+    setError(null);
+    refresh();
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id) return;
+    deleteCalendar(draft.id);
+    setDraft(null);
+    refresh();
+  };
+
+  const isBuiltIn = draft?.id === DEFAULT_CALENDAR_ID;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-2">
+        {calendars.map(calendar => (
+          <button
+            key={calendar.id}
+            onClick={() => { setDraft(toDraft(calendar)); setError(null); }}
+            className={`w-full text-left p-4 rounded-lg transition-colors ${
+              draft?.id === calendar.id ? 'bg-indigo-600/20 border border-indigo-500' : 'bg-[#1C2333] hover:bg-[#252d3d] border border-transparent'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-white font-medium">{calendar.name}</span>
+              {calendar.id === DEFAULT_CALENDAR_ID && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{t('calendar.default')}</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{describeCalendar(calendar)}</p>
+            {calendar.locations.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">{t('calendar.locations', { locations: calendar.locations.join(', ') })}</p>
+            )}
+          </button>
+        ))}
+        <button
+          onClick={() => { setDraft(createDraft()); setError(null); }}
+          className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-600 text-gray-300 hover:border-gray-400 transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          {t('calendar.new')}
+        </button>
+      </div>
+
+      {draft && isBuiltIn ? (
+        <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400">
+          {t('calendar.builtIn')}
+        </div>
+      ) : draft ? (
+        <div className="bg-[#1C2333] rounded-lg p-4 space-y-4">
+          <label className="block text-sm text-gray-400">
+            {t('calendar.name')}
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-gray-400">
+              {t('calendar.schedule')}
+              <select
+                value={draft.schedule}
+                onChange={(e) => setDraft({ ...draft, schedule: e.target.value as CalendarSchedule })}
+                className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+              >
+                <option value={SHIFT_SCHEDULES.BUSINESS}>{t('calendar.business')}</option>
+                <option value={SHIFT_SCHEDULES.CONTINUOUS}>24x7</option>
+              </select>
+            </label>
+            <label className="block text-sm text-gray-400">
+              {t('calendar.state')}
+              <select
+                value={draft.state}
+                onChange={(e) => setDraft({ ...draft, state: e.target.value })}
+                className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+              >
+                <option value="">{t('calendar.nationalOnly')}</option>
+                {BRAZILIAN_STATES.map(state => (
+                  <option key={state} value={state}>{state}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {draft.schedule === SHIFT_SCHEDULES.BUSINESS && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-sm text-gray-400">
+                  {t('calendar.start')}
+                  <input
+                    type="time"
+                    value={draft.startTime}
+                    onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  />
+                </label>
+                <label className="block text-sm text-gray-400">
+                  {t('calendar.end')}
+                  <input
+                    type="time"
+                    value={draft.endTime}
+                    onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  />
+                </label>
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-400 mb-2">{t('calendar.workDays')}</p>
+                <div className="flex flex-wrap gap-2">
+                  {WEEK_DAY_KEYS.map((labelKey, day) => (
+                    <button
+                      key={labelKey}
+                      onClick={() => toggleWorkDay(day)}
+                      className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                        draft.workDays.includes(day) ? 'bg-indigo-600 text-white' : 'bg-[#151B2B] text-gray-400 hover:bg-[#252d3d]'
+                      }`}
+                    >
+                      {t(labelKey)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block text-sm text-gray-400">
+                {t('calendar.holidays')}
+                <textarea
+                  value={draft.customHolidays}
+                  onChange={(e) => setDraft({ ...draft, customHolidays: e.target.value })}
+                  rows={3}
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+            </>
+          )}
+
+          <label className="block text-sm text-gray-400">
+            {t('calendar.locationsInput')}
+            <input
+              type="text"
+              value={draft.locations}
+              onChange={(e) => setDraft({ ...draft, locations: e.target.value })}
+              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            {draft.id ? (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+                {t('calendar.delete')}
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+            >
+              <Save className="h-4 w-4" />
+              {t('calendar.save')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400">
+          {t('calendar.empty')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,8 @@ import {
   addDays,
   subDays
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { WEEK_DAY_KEYS } from '../utils/calendarUtils';
+import { formatLocalizedDate, getDateLocale, t } from '../utils/i18nUtils';
 
 interface CalendarSelectorProps {
   startDate: string;
@@ -44,7 +45,7 @@ export function CalendarSelector({
   // Format dates for display
   const formatDateForDisplay = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), 'dd/MM/yyyy', { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.date');
     } catch (e) {
       return dateStr;
     }
@@ -96,7 +97,7 @@ export function CalendarSelector({
   const paddingDays = firstDayOfMonth === 0 ? [] : Array(firstDayOfMonth).fill(null);
 
   // Week days
-  const weekDays = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+  const weekDays = WEEK_DAY_KEYS.map(key => t(key));
 
   // Check if a date is in the selected range
   const isInRange = (date: Date) => {
@@ -118,25 +119,25 @@ export function CalendarSelector({
         <button
           onClick={handlePrevMonth}
           className="p-1.5 hover:bg-gray-700 rounded-full transition-colors"
-          aria-label="Previous month"
+          aria-label={t('dateRange.previousMonth')}
         >
           <ChevronLeft className="h-4 w-4 text-gray-400" />
         </button>
         <span className="text-white font-medium">
-          {format(currentMonth, 'MMMM yyyy', { locale: ptBR })}
+          {format(currentMonth, 'MMMM yyyy', { locale: getDateLocale() })}
         </span>
         <div className="flex items-center gap-1">
           <button
             onClick={handleNextMonth}
             className="p-1.5 hover:bg-gray-700 rounded-full transition-colors"
-            aria-label="Next month"
+            aria-label={t('dateRange.nextMonth')}
           >
             <ChevronRight className="h-4 w-4 text-gray-400" />
           </button>
           <button
             onClick={onClose}
             className="p-1.5 hover:bg-gray-700 rounded-full transition-colors ml-1"
-            aria-label="Close calendar"
+            aria-label={t('dateRange.close')}
           >
             <X className="h-4 w-4 text-gray-400" />
           </button>
@@ -146,12 +147,12 @@ export function CalendarSelector({
       {/* Selected Range Display */}
       <div className="bg-[#151B2B] p-2 rounded-lg mb-4 flex items-center justify-between">
         <div className="text-xs">
-          <div className="text-gray-400">Início</div>
+          <div className="text-gray-400">{t('dateRange.start')}</div>
           <div className="text-white font-medium">{formatDateForDisplay(startDate)}</div>
         </div>
         <div className="text-gray-500">→</div>
         <div className="text-xs text-right">
-          <div className="text-gray-400">Fim</div>
+          <div className="text-gray-400">{t('dateRange.end')}</div>
           <div className="text-white font-medium">{formatDateForDisplay(endDate)}</div>
         </div>
       </div>
@@ -201,7 +202,7 @@ export function CalendarSelector({
 
       {/* Selection Status */}
       <div className="mt-4 text-sm text-center text-indigo-400">
-        {selectingStart ? 'Selecione a data inicial' : 'Selecione a data final'}
+        {selectingStart ? t('categoryHistory.selectStart') : t('categoryHistory.selectEnd')}
       </div>
 
       {/* Quick Selectors */}
@@ -211,19 +212,19 @@ export function CalendarSelector({
             onClick={() => handleQuickDateSelect(7)}
             className="px-3 py-1.5 text-sm text-gray-400 hover:text-white bg-[#151B2B] hover:bg-gray-700 rounded-lg transition-colors"
           >
-            7 dias
+            {t('dateRange.days', { count: 7 })}
           </button>
           <button
             onClick={() => handleQuickDateSelect(30)}
             className="px-3 py-1.5 text-sm text-gray-400 hover:text-white bg-[#151B2B] hover:bg-gray-700 rounded-lg transition-colors"
           >
-            30 dias
+            {t('dateRange.days', { count: 30 })}
           </button>
           <button
             onClick={() => handleQuickDateSelect(90)}
             className="px-3 py-1.5 text-sm text-gray-400 hover:text-white bg-[#151B2B] hover:bg-gray-700 rounded-lg transition-colors"
           >
-            90 dias
+            {t('dateRange.days', { count: 90 })}
           </button>
         </div>
       </div>
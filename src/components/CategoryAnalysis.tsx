@@ -17,9 +17,10 @@ import {
 } from 'recharts';
 import { X, BarChart2, PieChart as PieChartIcon, LineChart as LineChartIcon, AlertTriangle, Users, ChevronDown, ChevronRight, ExternalLink } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { getCategoryLabel, getNormalizedCategory } from '../utils/categoryUtils';
+import { parseISO, isWithinInterval } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
 
 type ChartType = 'bar' | 'pie' | 'line';
 
@@ -51,15 +52,19 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
+// 'Não definido' é a chave das prioridades não reconhecidas; só o rótulo exibido é traduzido
+const getPriorityLabel = (priority: string) =>
+  priority === 'Não definido' ? t('analysis.priority.undefined') : priority;
+
 function IncidentModal({ incidents, category, priority, onClose }: IncidentModalProps) {
   const [expandedCaller, setExpandedCaller] = useState<string | null>(null);
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
   
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -67,7 +72,7 @@ function IncidentModal({ incidents, category, priority, onClose }: IncidentModal
     if (!['P3', 'P4'].includes(priority)) return null;
 
     const groups = incidents.reduce((acc, incident) => {
-      const caller = incident.Caller || 'Não especificado';
+      const caller = incident.Caller || t('analysis.notSpecified');
       if (!acc[caller]) {
         acc[caller] = {
           caller,
@@ -104,12 +109,12 @@ function IncidentModal({ incidents, category, priority, onClose }: IncidentModal
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados {priority} - {category}
+              {t('categoryAnalysis.modalTitle', { priority: getPriorityLabel(priority), category: getCategoryLabel(category) })}
             </h2>
             <p className="text-gray-400 mt-1">
               {showCallerGroups ? 
-                `Top 30 usuários com mais chamados (${incidents.length} total)` :
-                `${incidents.length} chamados encontrados`}
+                t('categoryAnalysis.topCallers', { count: incidents.length }) :
+                t('analysis.ticketsFound', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -134,7 +139,7 @@ function IncidentModal({ incidents, category, priority, onClose }: IncidentModal
                     <div className="flex items-center gap-3">
                       <Users className="h-5 w-5 text-indigo-400" />
                       <span className="text-lg font-medium text-white">{group.caller}</span>
-                      <span className="text-gray-400">({group.count} chamados)</span>
+                      <span className="text-gray-400">{t('analysis.ticketsParen', { count: group.count })}</span>
                     </div>
                     {expandedCaller === group.caller ? (
                       <ChevronDown className="h-5 w-5 text-gray-400" />
@@ -148,10 +153,10 @@ function IncidentModal({ incidents, category, priority, onClose }: IncidentModal
                       <table className="w-full">
                         <thead className="bg-[#151B2B]">
                           <tr>
-                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">Número</th>
-                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">Data</th>
-                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">Descrição</th>
-                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">Estado</th>
+                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                            <th className="px-4 py-2 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                             <th className="px-4 py-2 text-left text-sm font-medium text-gray-400"></th>
                           </tr>
                         </thead>
@@ -190,11 +195,11 @@ function IncidentModal({ incidents, category, priority, onClose }: IncidentModal
             <table className="w-full">
               <thead className="bg-[#1C2333] sticky top-0">
                 <tr>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
                 </tr>
               </thead>
@@ -257,13 +262,13 @@ const renderActiveShape = (props: any) => {
   return (
     <g>
       <text x={cx} y={cy - 20} dy={8} textAnchor="middle" fill="#fff" className="text-lg">
-        {name}
+        {getPriorityLabel(name)}
       </text>
       <text x={cx} y={cy + 10} dy={8} textAnchor="middle" fill="#fff">
-        {value} chamados
+        {t('analysis.tickets', { count: value })}
       </text>
       <text x={cx} y={cy + 30} dy={8} textAnchor="middle" fill="#fff" className="text-sm">
-        {`(${(percent * 100).toFixed(1)}%)`}
+        {`(${formatDecimal(percent * 100)}%)`}
       </text>
       <Sector
         cx={cx}
@@ -329,7 +334,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
 
   const handlePriorityClick = (category: string, priority: string) => {
     const filteredIncidents = incidents.filter(incident => {
-      const matchesCategory = incident.Category === category;
+      const matchesCategory = getNormalizedCategory(incident) === category;
       const matchesPriority = normalizePriority(incident.Priority) === priority;
       
       if (!startDate || !endDate) return matchesCategory && matchesPriority;
@@ -366,7 +371,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
     });
 
     const data = filteredIncidents.reduce((acc, incident) => {
-      const category = incident.Category || 'Não categorizado';
+      const category = getNormalizedCategory(incident);
       const priority = normalizePriority(incident.Priority);
       
       if (!acc[category]) {
@@ -459,13 +464,13 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                   return (
                     <div className="bg-[#1F2937] p-3 rounded-lg border-2" style={{ borderColor: color }}>
                       <p className="font-medium" style={{ color }}>
-                        {data.name}
+                        {getPriorityLabel(String(data.name))}
                       </p>
                       <p className="text-white">
-                        {data.value} chamados
+                        {t('analysis.tickets', { count: Number(data.value) })}
                       </p>
                       <p className="text-gray-400 text-sm">
-                        {`(${(data.payload.percent * 100).toFixed(1)}% do total)`}
+                        {`(${t('analysis.percentOfTotal', { percent: formatDecimal(data.payload.percent * 100) })})`}
                       </p>
                     </div>
                   );
@@ -474,7 +479,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
               <Legend 
                 formatter={(value) => (
                   <span style={{ color: CHART_COLORS[value as keyof typeof CHART_COLORS] }}>
-                    {value}
+                    {getPriorityLabel(value)}
                   </span>
                 )}
                 iconType="circle"
@@ -491,7 +496,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
               margin={{ top: 5, right: 30, left: 100, bottom: 5 }}
             >
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-              <XAxis dataKey="category" tick={{ fill: '#9CA3AF' }} />
+              <XAxis dataKey="category" tick={{ fill: '#9CA3AF' }} tickFormatter={getCategoryLabel} />
               <YAxis tick={{ fill: '#9CA3AF' }} />
               <Tooltip
                 contentStyle={{
@@ -500,14 +505,15 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                   borderRadius: '8px',
                   color: '#fff'
                 }}
-                formatter={(value: number) => [`${value} chamados`]}
+                formatter={(value: number) => [t('analysis.tickets', { count: value })]}
+                labelFormatter={getCategoryLabel}
               />
               <Legend />
               <Line type="monotone" dataKey="P1" stroke={CHART_COLORS.P1} />
               <Line type="monotone" dataKey="P2" stroke={CHART_COLORS.P2} />
               <Line type="monotone" dataKey="P3" stroke={CHART_COLORS.P3} />
               <Line type="monotone" dataKey="P4" stroke={CHART_COLORS.P4} />
-              <Line type="monotone" dataKey="Não definido" stroke={CHART_COLORS['Não definido']} />
+              <Line type="monotone" dataKey="Não definido" name={t('analysis.priority.undefined')} stroke={CHART_COLORS['Não definido']} />
             </LineChart>
           </ResponsiveContainer>
         );
@@ -526,6 +532,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                 dataKey="category" 
                 type="category" 
                 tick={{ fill: '#9CA3AF' }} 
+                tickFormatter={getCategoryLabel}
                 width={90}
               />
               <Tooltip
@@ -536,16 +543,17 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                   color: '#fff'
                 }}
                 formatter={(value: number, name: string) => [
-                  `${value} chamados`,
+                  t('analysis.tickets', { count: value }),
                   name
                 ]}
+                labelFormatter={getCategoryLabel}
               />
               <Legend />
               <Bar dataKey="P1" fill={CHART_COLORS.P1} stackId="stack" radius={[0, 0, 0, 0]} />
               <Bar dataKey="P2" fill={CHART_COLORS.P2} stackId="stack" radius={[0, 0, 0, 0]} />
               <Bar dataKey="P3" fill={CHART_COLORS.P3} stackId="stack" radius={[0, 0, 0, 0]} />
               <Bar dataKey="P4" fill={CHART_COLORS.P4} stackId="stack" radius={[0, 0, 0, 0]} />
-              <Bar dataKey="Não definido" fill={CHART_COLORS['Não definido']} stackId="stack" radius={[0, 4, 4, 0]} />
+              <Bar dataKey="Não definido" name={t('analysis.priority.undefined')} fill={CHART_COLORS['Não definido']} stackId="stack" radius={[0, 4, 4, 0]} />
             </BarChart>
           </ResponsiveContainer>
         );
@@ -556,8 +564,8 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-xl font-semibold text-white">Análise por Categoria e Prioridade</h2>
-          <p className="text-gray-400 mt-1">Total de {totalIncidents} chamados no período</p>
+          <h2 className="text-xl font-semibold text-white">{t('categoryAnalysis.title')}</h2>
+          <p className="text-gray-400 mt-1">{t('categoryAnalysis.subtitle', { count: totalIncidents })}</p>
         </div>
         <div className="flex items-center gap-2">
           <div className="flex bg-[#1C2333] rounded-lg p-1">
@@ -566,7 +574,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
               className={`p-2 rounded-lg transition-colors ${
                 chartType === 'bar' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
               }`}
-              title="Gráfico de Barras"
+              title={t('analysis.barChart')}
             >
               <BarChart2 className="h-5 w-5" />
             </button>
@@ -575,7 +583,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
               className={`p-2 rounded-lg transition-colors ${
                 chartType === 'pie' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
               }`}
-              title="Gráfico de Pizza"
+              title={t('analysis.pieChart')}
             >
               <PieChartIcon className="h-5 w-5" />
             </button>
@@ -584,7 +592,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
               className={`p-2 rounded-lg transition-colors ${
                 chartType === 'line' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
               }`}
-              title="Gráfico de Linha"
+              title={t('analysis.lineChart')}
             >
               <LineChartIcon className="h-5 w-5" />
             </button>
@@ -593,7 +601,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
             <button
               onClick={onClose}
               className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-              aria-label="Fechar análise"
+              aria-label={t('analysis.close')}
             >
               <X className="h-5 w-5 text-gray-400 hover:text-white" />
             </button>
@@ -607,12 +615,12 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
             key={priority}
             className="bg-[#1C2333] p-4 rounded-lg"
           >
-            <h4 className="text-sm text-gray-400 mb-1">Prioridade {priority}</h4>
+            <h4 className="text-sm text-gray-400 mb-1">{t('incident.priority', { priority: getPriorityLabel(priority) })}</h4>
             <p className="text-2xl font-bold" style={{ color: CHART_COLORS[priority as keyof typeof CHART_COLORS] }}>
               {count}
             </p>
             <p className="text-sm text-gray-400">
-              {((count / totalIncidents) * 100).toFixed(1)}% do total
+              {t('analysis.percentOfTotal', { percent: formatDecimal((count / totalIncidents) * 100) })}
             </p>
           </div>
         ))}
@@ -623,7 +631,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
       </div>
 
       <div className="mt-8">
-        <h3 className="text-lg font-medium text-white mb-4">Detalhamento por Categoria</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('categoryAnalysis.details')}</h3>
         <div className="space-y-4">
           {priorityByCategory.map((category) => (
             <div key={category.category} className="bg-[#1C2333] p-4 rounded-lg">
@@ -631,9 +639,9 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                 onClick={() => toggleCategory(category.category)}
                 className="w-full flex items-center justify-between"
               >
-                <h4 className="text-white font-medium">{category.category}</h4>
+                <h4 className="text-white font-medium">{getCategoryLabel(category.category)}</h4>
                 <div className="flex items-center gap-2">
-                  <span className="text-gray-400">{category.total} chamados</span>
+                  <span className="text-gray-400">{t('analysis.tickets', { count: category.total })}</span>
                   {expandedCategories.includes(category.category) ? (
                     <ChevronDown className="h-4 w-4 text-gray-400" />
                   ) : (
@@ -659,7 +667,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                           onClick={() => isClickable && handlePriorityClick(category.category, key)}
                         >
                           <div className="flex items-center justify-center gap-1">
-                            <p className="text-sm text-gray-400">{key}</p>
+                            <p className="text-sm text-gray-400">{getPriorityLabel(key)}</p>
                             {isClickable && (
                               <Icon className="h-3 w-3" style={{ color: CHART_COLORS[key as keyof typeof CHART_COLORS] }} />
                             )}
@@ -668,7 +676,7 @@ export function CategoryAnalysis({ incidents, onClose, startDate, endDate }: Cat
                             {value}
                           </p>
                           <p className="text-xs text-gray-400">
-                            {((value / category.total) * 100).toFixed(1)}%
+                            {formatDecimal((value / category.total) * 100)}%
                           </p>
                         </div>
                       );
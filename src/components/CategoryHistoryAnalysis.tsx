@@ -35,8 +35,10 @@ import {
   addDays,
   subDays
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizePriority } from '../utils/incidentUtils';
+import { getNormalizedCategory, getNormalizedSubcategory } from '../utils/categoryUtils';
+import { formatLocalizedDate, getDateLocale, t } from '../utils/i18nUtils';
+import { WEEK_DAY_KEYS } from '../utils/calendarUtils';
 
 interface CategoryHistoryAnalysisProps {
   incidents: Incident[];
@@ -53,6 +55,10 @@ const CHART_COLORS = {
 
 const PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
 
+// 'Não definido' é a chave das prioridades não reconhecidas; só o rótulo exibido é traduzido
+const getPriorityLabel = (priority: string) =>
+  priority === 'Não definido' ? t('analysis.priority.undefined') : priority;
+
 const CATEGORIES = [
   'Hardware',
   'Software',
@@ -83,8 +89,8 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
     // Get all subcategories for this category
     const subcategories = Array.from(new Set(
       incidents
-        .filter(i => i.Category === category)
-        .map(i => i.Subcategory || 'Não especificado')
+        .filter(i => getNormalizedCategory(i) === category)
+        .map(i => getNormalizedSubcategory(i) || t('analysis.notSpecified'))
     )).sort();
 
     // Process data for each subcategory
@@ -96,8 +102,8 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
         const monthIncidents = incidents.filter(incident => {
           try {
             const incidentDate = parseISO(incident.Opened);
-            return incident.Category === category &&
-                   (incident.Subcategory || 'Não especificado') === subcategory &&
+            return getNormalizedCategory(incident) === category &&
+                   (getNormalizedSubcategory(incident) || t('analysis.notSpecified')) === subcategory &&
                    isWithinInterval(incidentDate, { start: monthStart, end: monthEnd });
           } catch (error) {
             return false;
@@ -106,7 +112,7 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
 
         const data: Record<string, any> = {
           month: month.getTime(),
-          monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+          monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
           total: monthIncidents.length
         };
 
@@ -149,7 +155,7 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -169,13 +175,13 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
             className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-2"
           >
             <ArrowLeft className="h-4 w-4" />
-            <span>Voltar para Categorias</span>
+            <span>{t('categoryHistory.back')}</span>
           </button>
           <h2 className="text-xl font-semibold text-white">
-            Subcategorias de {category}
+            {t('categoryHistory.subcategoriesOf', { category })}
           </h2>
           <p className="text-gray-400 mt-1">
-            {subcategoryData.length} subcategorias encontradas
+            {t('categoryHistory.subcategoriesFound', { count: subcategoryData.length })}
           </p>
         </div>
       </div>
@@ -191,7 +197,7 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
                 {name}
               </h3>
               <p className="text-sm text-gray-400">
-                {total} chamados no período selecionado
+                {t('categoryHistory.ticketsInPeriod', { count: total })}
               </p>
             </div>
           </div>
@@ -226,7 +232,7 @@ function SubcategoryAnalysis({ category, incidents, startDate, endDate, onBack }
                   <Bar
                     key={priority}
                     dataKey={priority}
-                    name={priority}
+                    name={getPriorityLabel(priority)}
                     fill={CHART_COLORS[priority]}
                     stackId="stack"
                   />
@@ -294,7 +300,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
 
   const formatDateForDisplay = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), 'dd/MM/yyyy', { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.date');
     } catch (e) {
       return dateStr;
     }
@@ -350,7 +356,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
 
       const data: Record<string, any> = {
         month: month.getTime(),
-        monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+        monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
         total: monthIncidents.length
       };
 
@@ -371,7 +377,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
         const monthIncidents = incidents.filter(incident => {
           try {
             const incidentDate = parseISO(incident.Opened);
-            return incident.Category?.includes(category) &&
+            return getNormalizedCategory(incident).includes(category) &&
                    isWithinInterval(incidentDate, { start: monthStart, end: monthEnd });
           } catch (error) {
             return false;
@@ -380,7 +386,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
 
         const data: Record<string, any> = {
           month: month.getTime(),
-          monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+          monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
           total: monthIncidents.length
         };
 
@@ -409,7 +415,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
 
     return [
       {
-        name: 'Total por Categoria',
+        name: t('categoryHistory.total'),
         data: globalData,
         total: globalData.reduce((sum, month) => sum + month.total, 0)
       },
@@ -426,7 +432,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
     const firstDayOfMonth = daysInMonth[0].getDay();
     const paddingDays = firstDayOfMonth === 0 ? [] : Array(firstDayOfMonth).fill(null);
 
-    const weekDays = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+    const weekDays = WEEK_DAY_KEYS.map(key => t(key));
 
     return (
       <div 
@@ -441,7 +447,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
             <ChevronLeft className="h-4 w-4 text-gray-400" />
           </button>
           <span className="text-white font-medium">
-            {format(currentMonth, 'MMMM yyyy', { locale: ptBR })}
+            {format(currentMonth, 'MMMM yyyy', { locale: getDateLocale() })}
           </span>
           <button
             onClick={() => setCurrentMonth(prev => addMonths(prev, 1))}
@@ -489,20 +495,20 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
 
         <div className="mt-4 border-t border-gray-700 pt-4">
           <div className="text-sm text-gray-400 mb-2">
-            {selectingStart ? 'Selecione a data inicial' : 'Selecione a data final'}
+            {selectingStart ? t('categoryHistory.selectStart') : t('categoryHistory.selectEnd')}
           </div>
           <div className="grid grid-cols-2 gap-2">
             <button
               onClick={() => handleQuickDateSelect(30)}
               className="px-3 py-1.5 text-sm text-gray-400 hover:text-white bg-[#151B2B] hover:bg-gray-700 rounded-lg transition-colors"
             >
-              Últimos 30 dias
+              {t('categoryHistory.last30')}
             </button>
             <button
               onClick={() => handleQuickDateSelect(90)}
               className="px-3 py-1.5 text-sm text-gray-400 hover:text-white bg-[#151B2B] hover:bg-gray-700 rounded-lg transition-colors"
             >
-              Últimos 90 dias
+              {t('categoryHistory.last90')}
             </button>
           </div>
         </div>
@@ -525,7 +531,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -551,7 +557,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Histórico por Categoria</h2>
+        <h2 className="text-xl font-semibold text-white">{t('categoryHistory.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -569,12 +575,12 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
             className="flex items-center gap-2 px-3 py-2 bg-[#0B1120] border border-gray-700 rounded-lg text-white hover:bg-gray-700 transition-colors"
           >
             <Calendar className="h-5 w-5 text-gray-400" />
-            <span>Selecionar Período</span>
+            <span>{t('categoryHistory.selectPeriod')}</span>
           </button>
           <div className="grid grid-cols-2 gap-4 flex-1">
             <div>
               <label className="block text-sm text-gray-400 mb-1">
-                Data Inicial
+                {t('categoryHistory.startDate')}
               </label>
               <input
                 type="date"
@@ -588,7 +594,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
             </div>
             <div>
               <label className="block text-sm text-gray-400 mb-1">
-                Data Final
+                {t('categoryHistory.endDate')}
               </label>
               <input
                 type="date"
@@ -608,7 +614,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
 
       <div className="space-y-6">
         {monthlyData.map(({ name, data, total }) => {
-          const isGlobal = name === 'Total por Categoria';
+          const isGlobal = name === t('categoryHistory.total');
           const isExpanded = isGlobal || expandedCategories.includes(name);
           
           return (
@@ -624,7 +630,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
                     {name}
                   </h3>
                   <p className="text-sm text-gray-400">
-                    {total} chamados no período selecionado
+                    {t('categoryHistory.ticketsInPeriod', { count: total })}
                   </p>
                 </div>
                 {!isGlobal && (
@@ -634,7 +640,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
                         onClick={() => setSelectedCategory(name)}
                         className="px-3 py-1.5 text-sm text-indigo-400 hover:text-white bg-[#151B2B] hover:bg-indigo-600/20 rounded-lg transition-colors"
                       >
-                        Ver Subcategorias
+                        {t('categoryHistory.showSubcategories')}
                       </button>
                     )}
                     <button
@@ -684,7 +690,7 @@ export function CategoryHistoryAnalysis({ incidents, onClose }: CategoryHistoryA
                       <Bar
                         key={priority}
                         dataKey={priority}
-                        name={priority}
+                        name={getPriorityLabel(priority)}
                         fill={CHART_COLORS[priority]}
                         stackId="stack"
                         label={{
@@ -25,8 +25,9 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizePriority } from '../utils/incidentUtils';
+import { getCategoryLabel, getNormalizedCategory } from '../utils/categoryUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface CategoryHistoryTop5Props {
   incidents: Incident[];
@@ -45,6 +46,10 @@ const CHART_COLORS = {
 
 const PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
 
+// 'Não definido' é a chave das prioridades não reconhecidas; só o rótulo exibido é traduzido
+const getPriorityLabel = (priority: string) =>
+  priority === 'Não definido' ? t('analysis.priority.undefined') : priority;
+
 const CustomTooltip = ({ active, payload, label }: any) => {
   if (!active || !payload || !payload.length) return null;
 
@@ -60,7 +65,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
         ))}
         <div className="pt-2 mt-2 border-t border-gray-700">
           <div className="flex items-center justify-between">
-            <span className="text-gray-400">Total</span>
+            <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
             <span className="text-white font-bold">
               {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
             </span>
@@ -95,7 +100,7 @@ export function CategoryHistoryTop5({ incidents, onClose, startDate, endDate }:
         const end = parseISO(endDate);
         
         if (isWithinInterval(incidentDate, { start, end })) {
-          const category = incident.Category || 'Não categorizado';
+          const category = getNormalizedCategory(incident);
           categoryCount[category] = (categoryCount[category] || 0) + 1;
         }
       } catch (error) {
@@ -131,14 +136,14 @@ export function CategoryHistoryTop5({ incidents, onClose, startDate, endDate }:
 
       const data: Record<string, any> = {
         month: month.getTime(),
-        monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+        monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
         total: monthIncidents.length
       };
 
       // Count incidents for top 5 categories
       topCategories.forEach(category => {
         const categoryIncidents = monthIncidents.filter(incident => 
-          (incident.Category || 'Não categorizado') === category
+          getNormalizedCategory(incident) === category
         );
         
         data[category] = categoryIncidents.length;
@@ -159,7 +164,7 @@ export function CategoryHistoryTop5({ incidents, onClose, startDate, endDate }:
     <>
       <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold text-white">Histórico por Categoria (Top 5)</h2>
+          <h2 className="text-xl font-semibold text-white">{t('categoryHistory.top5Title')}</h2>
           {onClose && (
             <button
               onClick={onClose}
@@ -182,10 +187,10 @@ export function CategoryHistoryTop5({ incidents, onClose, startDate, endDate }:
                 <div className="flex items-center justify-between mb-4">
                   <div>
                     <h3 className="text-lg font-medium text-white">
-                      {category}
+                      {getCategoryLabel(category)}
                     </h3>
                     <p className="text-sm text-gray-400">
-                      {monthlyData.reduce((sum, month) => sum + (month[category] || 0), 0)} chamados no período selecionado
+                      {t('categoryHistory.ticketsInPeriod', { count: monthlyData.reduce((sum, month) => sum + (month[category] || 0), 0) })}
                     </p>
                   </div>
                   <button
@@ -233,7 +238,7 @@ export function CategoryHistoryTop5({ incidents, onClose, startDate, endDate }:
                         <Bar
                           key={`${category}_${priority}`}
                           dataKey={`${category}_${priority}`}
-                          name={priority}
+                          name={getPriorityLabel(priority)}
                           fill={CHART_COLORS[priority]}
                           stackId="stack"
                           label={{
@@ -0,0 +1,254 @@
+import { useMemo, useState } from 'react';
+import { Tags, Plus, Save, Trash2, RotateCcw, X, AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
+import { Incident } from '../types/incident';
+import { CategoryRule, CategoryRuleField, CategoryRuleOperator } from '../types/category';
+import {
+  CATEGORY_RULE_FIELDS,
+  CATEGORY_RULE_OPERATORS,
+  createCategoryRule,
+  getCategoryLabel,
+  loadCategoryRules,
+  previewCategoryRules,
+  resetCategoryRules,
+  saveCategoryRules,
+  validateCategoryRulePattern
+} from '../utils/categoryUtils';
+import { t } from '../utils/i18nUtils';
+
+interface CategoryRuleManagerProps {
+  incidents: Incident[];
+  onClose: () => void;
+  // Recebe as regras gravadas para reaplicá-las aos chamados carregados
+  onSaved: (rules: CategoryRule[]) => void;
+}
+
+const inputClassName = 'w-full bg-[#151B2B] border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white';
+
+export function CategoryRuleManager({ incidents, onClose, onSaved }: CategoryRuleManagerProps) {
+  const [rules, setRules] = useState<CategoryRule[]>(() => loadCategoryRules());
+  const [error, setError] = useState<string | null>(null);
+
+  // Prévia ao vivo: quantos chamados cada regra captura com a lista em edição
+  const preview = useMemo(() => previewCategoryRules(incidents, rules), [incidents, rules]);
+
+  const updateRule = (id: string, changes: Partial<CategoryRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const handleSave = () => {
+    const invalid = rules.find(rule => rule.enabled && (validateCategoryRulePattern(rule) || !rule.targetCategory.trim()));
+    if (invalid) {
+      setError(validateCategoryRulePattern(invalid) ?? t('categoryRule.error.target'));
+      return;
+    }
+
+    const saved = rules.map(rule => ({
+      ...rule,
+      pattern: rule.pattern.trim(),
+      targetCategory: rule.targetCategory.trim(),
+      targetSubcategory: rule.targetSubcategory.trim()
+    }));
+    saveCategoryRules(saved);
+    setError(null);
+    onSaved(saved);
+    onClose();
+  };
+
+  const handleReset = () => {
+    const defaults = resetCategoryRules();
+    setRules(defaults);
+    setError(null);
+    onSaved(defaults);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Tags className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('categoryRule.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('categoryRule.subtitle')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t('categoryRule.reset')}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-3 space-y-2">
+            <div className="grid grid-cols-[auto_1fr_1fr_1.2fr_1.2fr_1fr_auto_auto] gap-2 px-2 text-xs text-gray-400">
+              <span />
+              <span>{t('categoryRule.field')}</span>
+              <span>{t('categoryRule.operator')}</span>
+              <span>{t('categoryRule.pattern')}</span>
+              <span>{t('categoryRule.category')}</span>
+              <span>{t('categoryRule.subcategory')}</span>
+              <span className="text-right">{t('categoryRule.tickets')}</span>
+              <span />
+            </div>
+
+            {rules.map((rule, index) => {
+              const patternError = validateCategoryRulePattern(rule);
+              return (
+                <div
+                  key={rule.id}
+                  className={`grid grid-cols-[auto_1fr_1fr_1.2fr_1.2fr_1fr_auto_auto] gap-2 items-center p-2 rounded-lg bg-[#1C2333] ${
+                    rule.enabled ? '' : 'opacity-50'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    title={t('categoryRule.enabled')}
+                    className="rounded border-gray-600 bg-[#151B2B]"
+                  />
+                  <select
+                    value={rule.field}
+                    onChange={(e) => updateRule(rule.id, { field: e.target.value as CategoryRuleField })}
+                    className={inputClassName}
+                  >
+                    {CATEGORY_RULE_FIELDS.map(field => (
+                      <option key={field.value} value={field.value}>{t(field.labelKey)}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={rule.operator}
+                    onChange={(e) => updateRule(rule.id, { operator: e.target.value as CategoryRuleOperator })}
+                    className={inputClassName}
+                  >
+                    {CATEGORY_RULE_OPERATORS.map(operator => (
+                      <option key={operator.value} value={operator.value}>{t(operator.labelKey)}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    title={patternError ?? undefined}
+                    className={`${inputClassName} ${patternError && rule.enabled ? 'border-red-500' : ''}`}
+                  />
+                  <input
+                    type="text"
+                    value={rule.targetCategory}
+                    onChange={(e) => updateRule(rule.id, { targetCategory: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    value={rule.targetSubcategory}
+                    onChange={(e) => updateRule(rule.id, { targetSubcategory: e.target.value })}
+                    placeholder={t('categoryRule.keepOriginal')}
+                    className={inputClassName}
+                  />
+                  <span className="text-sm text-white text-right tabular-nums w-16">
+                    {preview.matchesByRule[rule.id] ?? 0}
+                  </span>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                      title={t('categoryRule.moveUp')}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === rules.length - 1}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                      title={t('categoryRule.moveDown')}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                      className="p-1 text-red-400 hover:text-red-300 transition-colors"
+                      title={t('categoryRule.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+            <button
+              onClick={() => setRules([...rules, createCategoryRule()])}
+              className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-600 text-gray-300 hover:border-gray-400 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              {t('categoryRule.new')}
+            </button>
+          </div>
+
+          <div className="bg-[#1C2333] rounded-lg p-4 space-y-3 self-start">
+            <h3 className="text-sm font-medium text-white">{t('categoryRule.preview')}</h3>
+            <p className="text-xs text-gray-400">
+              {t('categoryRule.previewSummary', {
+                matched: incidents.length - preview.unmatched,
+                total: incidents.length,
+                unmatched: preview.unmatched
+              })}
+            </p>
+            <ul className="max-h-96 overflow-auto space-y-1">
+              {preview.categories.map(({ category, count }) => (
+                <li key={category} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-300 truncate" title={getCategoryLabel(category)}>{getCategoryLabel(category)}</span>
+                  <span className="text-gray-400 flex-shrink-0">{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-4">
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : (
+            <span className="text-sm text-gray-400">
+              {t('categoryRule.activeCount', { count: rules.filter(rule => rule.enabled).length })}
+            </span>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            {t('categoryRule.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
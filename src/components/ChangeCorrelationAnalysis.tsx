@@ -0,0 +1,340 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import {
+  FileSpreadsheet,
+  AlertCircle,
+  AlertTriangle,
+  GitPullRequest,
+  Link2,
+  ChevronDown,
+  ChevronUp,
+  Trash2
+} from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { Incident } from '../types/incident';
+import { Change } from '../types/change';
+import { ValidationError } from '../types/ingestion';
+import { IMPORT_FILE_ACCEPT, readImportFile } from '../utils/ingestionUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
+import { normalizePriority } from '../utils/incidentUtils';
+import {
+  correlateChangesWithIncidents,
+  DEFAULT_CORRELATION_WINDOW_HOURS,
+  findMissingChangeColumns,
+  loadChanges,
+  processChangeRows,
+  saveChanges
+} from '../utils/changeUtils';
+import { ChangeWindowChart } from './ChangeWindowChart';
+import { StatsCard } from './StatsCard';
+
+interface ChangeCorrelationAnalysisProps {
+  incidents: Incident[];
+  startDate: string;
+  endDate: string;
+  onClose: () => void;
+  onShowIncidentDetails?: (incident: Incident) => void;
+}
+
+const formatDateTime = (value: string) => {
+  try {
+    return formatLocalizedDate(parseISO(value));
+  } catch {
+    return value || '—';
+  }
+};
+
+const getRiskColor = (risk: string) => {
+  const r = (risk || '').toLowerCase();
+  if (r.includes('high') || r.includes('alto') || r.includes('very')) return 'text-red-400';
+  if (r.includes('moderate') || r.includes('medium') || r.includes('médio') || r.includes('moderado')) return 'text-yellow-400';
+  return 'text-gray-300';
+};
+
+export function ChangeCorrelationAnalysis({
+  incidents,
+  startDate,
+  endDate,
+  onClose,
+  onShowIncidentDetails
+}: ChangeCorrelationAnalysisProps) {
+  const [changes, setChanges] = useState<Change[]>(() => loadChanges());
+  const [windowHours, setWindowHours] = useState(DEFAULT_CORRELATION_WINDOW_HOURS);
+  const [expandedChange, setExpandedChange] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const correlations = useMemo(
+    () => correlateChangesWithIncidents(changes, incidents, windowHours),
+    [changes, incidents, windowHours]
+  );
+  const correlatedIncidents = useMemo(
+    () => new Set(correlations.flatMap(c => c.incidents.map(({ incident }) => incident.Number))).size,
+    [correlations]
+  );
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setError(null);
+    setValidationErrors([]);
+    setIsProcessing(true);
+
+    try {
+      const data = await readImportFile(file);
+      const missing = findMissingChangeColumns(data.headers);
+      if (missing.length > 0) {
+        throw new Error(t('import.error.missingColumns', { columns: missing.join(', ') }));
+      }
+      const result = processChangeRows(data.rows);
+      if (result.items.length === 0) {
+        throw new Error(t('change.error.noChanges'));
+      }
+      setValidationErrors(result.errors);
+      setChanges(result.items);
+      saveChanges(result.items);
+    } catch (err) {
+      console.error('Erro ao importar mudanças:', err);
+      setError(err instanceof Error ? err.message : t('import.error.processFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: IMPORT_FILE_ACCEPT,
+    multiple: false,
+    disabled: isProcessing
+  });
+
+  const handleClear = () => {
+    setChanges([]);
+    setValidationErrors([]);
+    setExpandedChange(null);
+    saveChanges([]);
+  };
+
+  const handleWindowChange = (value: string) => {
+    const hours = Number(value);
+    if (!isNaN(hours) && hours >= 1) setWindowHours(Math.min(hours, 720));
+  };
+
+  return (
+    <div className="bg-[#151B2B] p-6 rounded-lg space-y-6 relative">
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
+        aria-label={t('change.close')}
+      >
+        ×
+      </button>
+
+      <div className="flex items-center gap-3">
+        <GitPullRequest className="h-6 w-6 text-amber-400" />
+        <div>
+          <h2 className="text-xl font-bold text-white">{t('change.title')}</h2>
+          <p className="text-sm text-gray-400">
+            {t('change.subtitle', { hours: windowHours })}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <div
+          {...getRootProps()}
+          className={`flex-1 border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+            isDragActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          <input {...getInputProps()} />
+          <FileSpreadsheet className="h-6 w-6 text-indigo-400 mx-auto mb-1" />
+          <p className="text-white text-sm">
+            {isProcessing
+              ? t('change.processing')
+              : changes.length > 0
+                ? t('change.replace')
+                : t('change.drop')}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            {t('change.columns')}
+          </p>
+        </div>
+
+        <div className="bg-[#1C2333] rounded-lg p-4 flex flex-col justify-center gap-3 md:w-64">
+          <label className="text-sm text-gray-400">
+            {t('change.window')}
+            <input
+              type="number"
+              min={1}
+              max={720}
+              value={windowHours}
+              onChange={(e) => handleWindowChange(e.target.value)}
+              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+            />
+          </label>
+          {changes.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="flex items-center justify-center gap-2 px-3 py-2 bg-[#151B2B] hover:bg-[#252d3d] text-gray-300 rounded-lg transition-colors text-sm"
+            >
+              <Trash2 className="h-4 w-4" />
+              {t('change.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {validationErrors.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-400">
+                {t('import.occurrences', { count: validationErrors.length })}
+              </h3>
+              <ul className="mt-2 max-h-32 overflow-auto list-disc list-inside text-sm text-yellow-300 space-y-1">
+                {validationErrors.map((validationError, index) => (
+                  <li key={index}>
+                    {t('upload.rowError', { row: validationError.row, reason: validationError.reason })}
+                    {validationError.value && t('upload.rowValue', { value: validationError.value })}
+                    {validationError.severity === 'error' && t('import.rowDiscarded')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {changes.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <StatsCard title={t('change.imported')} value={changes.length} icon={GitPullRequest} className="bg-[#1C2333]" />
+            <StatsCard
+              title={t('change.withIncidents')}
+              value={correlations.length}
+              icon={Link2}
+              className="bg-[#1C2333]"
+              valueColor={correlations.length > 0 ? 'text-amber-400' : undefined}
+            />
+            <StatsCard
+              title={t('change.correlated')}
+              value={correlatedIncidents}
+              icon={AlertTriangle}
+              className="bg-[#1C2333]"
+              subtitle={t('change.windowHint', { hours: windowHours })}
+            />
+          </div>
+
+          <div className="bg-[#1C2333] rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-white font-medium">{t('change.daily')}</h3>
+              <div className="flex items-center gap-4 text-xs text-gray-400">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#EF4444]" />{t('change.legend.highPriority')}</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#4F46E5]" />{t('change.legend.incidents')}</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-[#F59E0B]/30 border-l-2 border-[#F59E0B]" />{t('change.legend.changes')}</span>
+              </div>
+            </div>
+            <ChangeWindowChart
+              incidents={incidents}
+              changes={changes}
+              startDate={startDate}
+              endDate={endDate}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-lg font-medium text-white">{t('change.followed')}</h3>
+            {correlations.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                {t('change.none', { hours: windowHours })}
+              </p>
+            ) : (
+              correlations.map(({ change, windowStart, windowEnd, incidents: related }) => {
+                const isExpanded = expandedChange === change.Number;
+                return (
+                  <div key={change.Number} className="bg-[#1C2333] rounded-lg">
+                    <button
+                      onClick={() => setExpandedChange(isExpanded ? null : change.Number)}
+                      className="w-full flex items-center justify-between p-4 text-left"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-3">
+                          <span className="text-white font-medium">{change.Number}</span>
+                          <span className="text-sm text-gray-400">{change.ConfigurationItem}</span>
+                          {change.Risk && (
+                            <span className={`text-xs ${getRiskColor(change.Risk)}`}>{t('change.risk', { risk: change.Risk })}</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-400 truncate">
+                          {change.ShortDescription || '—'} · {t('change.windowRange', { start: formatDateTime(windowStart), end: formatDateTime(windowEnd) })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <span className="px-2 py-1 rounded-full bg-amber-500/20 text-amber-400 text-sm">
+                          {t('change.incidentCount', { count: related.length })}
+                        </span>
+                        {isExpanded ? (
+                          <ChevronUp className="h-5 w-5 text-gray-400" />
+                        ) : (
+                          <ChevronDown className="h-5 w-5 text-gray-400" />
+                        )}
+                      </div>
+                    </button>
+                    {isExpanded && (
+                      <div className="px-4 pb-4 overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                          <thead className="bg-[#151B2B]">
+                            <tr>
+                              <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('change.incident')}</th>
+                              <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('change.description')}</th>
+                              <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('change.priority')}</th>
+                              <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('change.opened')}</th>
+                              <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('change.afterStart')}</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {related.map(({ incident, hoursAfterStart }) => (
+                              <tr
+                                key={incident.Number}
+                                onClick={() => onShowIncidentDetails?.(incident)}
+                                className={`border-t border-gray-800 ${onShowIncidentDetails ? 'cursor-pointer hover:bg-[#151B2B]' : ''}`}
+                              >
+                                <td className="px-3 py-2 text-white whitespace-nowrap">{incident.Number}</td>
+                                <td className="px-3 py-2 text-gray-300 max-w-[320px] truncate" title={incident.ShortDescription}>
+                                  {incident.ShortDescription}
+                                </td>
+                                <td className="px-3 py-2 text-gray-300">{normalizePriority(incident.Priority)}</td>
+                                <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{formatDateTime(incident.Opened)}</td>
+                                <td className="px-3 py-2 text-right text-gray-300 whitespace-nowrap">
+                                  {t('change.hours', { value: formatDecimal(hoursAfterStart) })}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <p className="mt-2 text-xs text-gray-500">
+                          {t('change.groupState', { group: change.AssignmentGroup || '—', state: change.State || '—' })}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  TooltipProps
+} from 'recharts';
+import { addDays, eachDayOfInterval, endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { Incident } from '../types/incident';
+import { Change } from '../types/change';
+import { getChangeWindow } from '../utils/changeUtils';
+import { isHighPriority } from '../utils/incidentUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
+
+interface ChangeWindowChartProps {
+  incidents: Incident[];
+  changes: Change[];
+  startDate: string;
+  endDate: string;
+  className?: string;
+}
+
+interface DailyPoint {
+  time: number;
+  day: Date;
+  high: number;
+  other: number;
+  changes: string[];
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Incidentes por dia (alta prioridade em destaque) com as janelas de mudança
+ * desenhadas do início ao fim, para ver se os picos acompanham uma janela.
+ */
+export function ChangeWindowChart({
+  incidents,
+  changes,
+  startDate,
+  endDate,
+  className = 'h-[260px] w-full'
+}: ChangeWindowChartProps) {
+  const rangeStart = useMemo(() => startOfDay(parseISO(startDate)), [startDate]);
+  const rangeEnd = useMemo(() => endOfDay(parseISO(endDate)), [endDate]);
+
+  const windows = useMemo(() => {
+    if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime())) return [];
+    return changes
+      .map(change => ({ change, ...getChangeWindow(change) }))
+      .filter(({ start, end }) => !isNaN(start.getTime()) && start <= rangeEnd && end >= rangeStart)
+      .map(({ change, start, end }) => ({
+        number: change.Number,
+        start: Math.max(start.getTime(), rangeStart.getTime()),
+        end: Math.min(end.getTime(), rangeEnd.getTime())
+      }));
+  }, [changes, rangeStart, rangeEnd]);
+
+  const dailyData = useMemo((): DailyPoint[] => {
+    if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeStart > rangeEnd) return [];
+
+    const counts = new Map<number, { high: number; other: number }>();
+    incidents.forEach(incident => {
+      const opened = new Date(incident.Opened);
+      if (isNaN(opened.getTime()) || opened < rangeStart || opened > rangeEnd) return;
+      const day = startOfDay(opened).getTime();
+      const entry = counts.get(day) ?? { high: 0, other: 0 };
+      if (isHighPriority(incident.Priority)) {
+        entry.high++;
+      } else {
+        entry.other++;
+      }
+      counts.set(day, entry);
+    });
+
+    return eachDayOfInterval({ start: rangeStart, end: rangeEnd }).map(day => {
+      const dayStart = day.getTime();
+      const dayEnd = addDays(day, 1).getTime();
+      const entry = counts.get(dayStart) ?? { high: 0, other: 0 };
+      return {
+        // Barra centrada no meio do dia, para ocupar o dia inteiro no eixo de tempo
+        time: dayStart + DAY_MS / 2,
+        day,
+        high: entry.high,
+        other: entry.other,
+        changes: windows.filter(window => window.start < dayEnd && window.end >= dayStart).map(window => window.number)
+      };
+    });
+  }, [incidents, windows, rangeStart, rangeEnd]);
+
+  const formatTick = (value: number) => format(new Date(value), 'dd MMM', { locale: getDateLocale() });
+
+  const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload as DailyPoint;
+      return (
+        <div className="bg-[#1F2937] p-2 rounded-lg shadow-lg border border-gray-700 max-w-xs">
+          <p className="text-white text-sm font-medium">{format(data.day, 'PPPP', { locale: getDateLocale() })}</p>
+          <p className="text-gray-300 text-sm">
+            <span className="text-red-400">{t('change.legend.highPriority')}:</span> {data.high}
+          </p>
+          <p className="text-gray-300 text-sm">
+            <span className="text-indigo-400">{t('change.legend.incidents')}:</span> {data.other}
+          </p>
+          {data.changes.length > 0 && (
+            <p className="text-gray-300 text-sm">
+              <span className="text-amber-400">{t('change.legend.changes')}:</span> {data.changes.join(', ')}
+            </p>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={dailyData} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={[rangeStart.getTime(), rangeEnd.getTime()]}
+            tickFormatter={formatTick}
+            tick={{ fill: '#9CA3AF', fontSize: 10 }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis allowDecimals={false} tick={{ fill: '#9CA3AF', fontSize: 10 }} axisLine={false} tickLine={false} width={30} />
+          <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(107, 114, 128, 0.1)' }} />
+          {windows.map((window, index) => (
+            <ReferenceArea
+              key={`area-${index}`}
+              x1={window.start}
+              x2={window.end}
+              fill="#F59E0B"
+              fillOpacity={0.15}
+              ifOverflow="hidden"
+            />
+          ))}
+          {windows.map((window, index) => (
+            <ReferenceLine
+              key={`start-${index}`}
+              x={window.start}
+              stroke="#F59E0B"
+              strokeOpacity={0.7}
+              ifOverflow="hidden"
+            />
+          ))}
+          <Bar dataKey="high" stackId="incidents" fill="#EF4444" />
+          <Bar dataKey="other" stackId="incidents" fill="#4F46E5" radius={[2, 2, 0, 0]} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Send, Bot, User, Loader2, X } from 'lucide-react';
 import { Incident } from '../types/incident';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
 import OpenAI from 'openai';
+import { getAILanguageInstruction, t } from '../utils/i18nUtils';
 
 interface ChatBotProps {
   incidents: Incident[];
@@ -60,7 +61,7 @@ export function ChatBot({ incidents, onClose }: ChatBotProps) {
           return acc;
         }, {} as Record<string, number>),
         byCategory: incidents.reduce((acc, incident) => {
-          const category = incident.Category || 'Não categorizado';
+          const category = incident.Category || t('prompt.chat.uncategorized');
           acc[category] = (acc[category] || 0) + 1;
           return acc;
         }, {} as Record<string, number>)
@@ -71,13 +72,7 @@ export function ChatBot({ incidents, onClose }: ChatBotProps) {
         messages: [
           {
             role: "system",
-            content: `Você é um assistente especializado em análise de incidentes de TI. 
-            Aqui estão as estatísticas dos incidentes:
-            ${JSON.stringify(stats, null, 2)}
-            
-            Responda de forma clara e profissional, focando em insights relevantes.
-            Use os dados fornecidos para embasar suas respostas.
-            Seja conciso mas informativo.`
+            content: `${t('prompt.chat.system', { stats: JSON.stringify(stats, null, 2) })}\n${getAILanguageInstruction()}`
           },
           ...messages.map(m => ({ role: m.role, content: m.content })),
           { role: "user", content: userMessage }
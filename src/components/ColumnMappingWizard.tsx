@@ -0,0 +1,340 @@
+import { useMemo, useState } from 'react';
+import { Columns, X, Check, AlertCircle, AlertTriangle, Save, Calendar } from 'lucide-react';
+import {
+  ColumnMappingProfile,
+  DateColumnDetection,
+  DateColumnSettings,
+  IngestionTarget,
+  SpreadsheetData
+} from '../types/ingestion';
+import {
+  assignmentsToProfile,
+  detectColumnAssignments,
+  getIngestionFields,
+  MAPPING_PREVIEW_ROWS,
+  mapRowToRecord,
+  validateRecord
+} from '../utils/ingestionUtils';
+import { saveMappingProfile, setSelectedProfile } from '../utils/mappingProfileUtils';
+import { DATE_FORMAT_OPTIONS, TIMEZONE_OPTIONS, getDateFormatLabel } from '../utils/dateUtils';
+import { formatNumber, t } from '../utils/i18nUtils';
+
+const DATE_FIELDS = ['Opened', 'Updated', 'Closed'];
+
+interface ColumnMappingWizardProps {
+  target: IngestionTarget;
+  fileName: string;
+  data: SpreadsheetData;
+  totalRows?: number;
+  dateDetections?: Record<string, DateColumnDetection>;
+  initialProfile?: ColumnMappingProfile | null;
+  onConfirm: (profile: ColumnMappingProfile) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingWizard({ target, fileName, data, totalRows, dateDetections, initialProfile, onConfirm, onCancel }: ColumnMappingWizardProps) {
+  const fields = getIngestionFields(target);
+  const [assignments, setAssignments] = useState<Record<string, string>>(() =>
+    detectColumnAssignments(data.headers, target, initialProfile)
+  );
+  const [saveAsProfile, setSaveAsProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [dateOverrides, setDateOverrides] = useState<Record<string, Partial<DateColumnSettings>>>({});
+
+  const assignedFields = useMemo(() => new Set(Object.values(assignments).filter(Boolean)), [assignments]);
+
+  // Colunas de data mapeadas, com o formato detectado como padrão
+  const dateColumns = useMemo(() => {
+    return fields
+      .filter(field => DATE_FIELDS.includes(field.key) && assignedFields.has(field.key))
+      .map(field => {
+        const header = Object.keys(assignments).find(key => assignments[key] === field.key) ?? '';
+        const detection = dateDetections?.[header];
+        const saved = initialProfile?.dateFormats?.[field.key];
+        const override = dateOverrides[field.key];
+        const settings: DateColumnSettings = {
+          format: override?.format ?? saved?.format ?? detection?.format ?? 'auto',
+          timezone: override?.timezone ?? saved?.timezone ?? 'local'
+        };
+        return { field, header, detection, settings };
+      });
+  }, [fields, assignedFields, assignments, dateDetections, initialProfile, dateOverrides]);
+
+  const profile = useMemo(() => {
+    const dateFormats = Object.fromEntries(dateColumns.map(({ field, settings }) => [field.key, settings]));
+    return {
+      ...assignmentsToProfile(assignments, target),
+      sourceSystem: initialProfile?.sourceSystem,
+      adapterId: initialProfile?.adapterId,
+      dateFormats
+    };
+  }, [assignments, target, initialProfile, dateColumns]);
+  const mappedFields = fields.filter(field => assignedFields.has(field.key));
+  const missingRequired = fields.filter(field => field.required && !assignedFields.has(field.key));
+
+  const preview = useMemo(() => {
+    return data.rows.slice(0, MAPPING_PREVIEW_ROWS).map((row, index) => {
+      const record = mapRowToRecord(row, target, profile);
+      const errors = validateRecord(record, target, index + 2, profile.dateFormats);
+      return { record, errors };
+    });
+  }, [data.rows, target, profile]);
+
+  const previewErrors = preview.flatMap(item => item.errors);
+
+  const handleAssign = (header: string, fieldKey: string) => {
+    setAssignments(prev => {
+      const next = { ...prev };
+      // Cada campo recebe apenas uma coluna
+      Object.keys(next).forEach(key => {
+        if (fieldKey && next[key] === fieldKey) delete next[key];
+      });
+      if (fieldKey) {
+        next[header] = fieldKey;
+      } else {
+        delete next[header];
+      }
+      return next;
+    });
+  };
+
+  const handleDateSetting = (fieldKey: string, settings: Partial<DateColumnSettings>) => {
+    setDateOverrides(prev => ({ ...prev, [fieldKey]: { ...prev[fieldKey], ...settings } }));
+  };
+
+  const handleConfirm = () => {
+    if (saveAsProfile && profileName.trim()) {
+      const saved = saveMappingProfile({ ...profile, id: undefined, name: profileName.trim() });
+      setSelectedProfile(target, saved.id);
+      onConfirm(saved);
+      return;
+    }
+    onConfirm(profile);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Columns className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('mapping.wizardTitle')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('mapping.wizardSubtitle', {
+                    fileName,
+                    columns: data.headers.length,
+                    rows: formatNumber(totalRows ?? data.rows.length)
+                  })}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onCancel}
+              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {missingRequired.length > 0 && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+              <p className="text-red-400">
+                {t('mapping.missingRequired', { fields: missingRequired.map(field => t(field.labelKey)).join(', ') })}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-medium text-white mb-3">{t('mapping.detectedColumns')}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+              {data.headers.map(header => (
+                <div key={header} className="bg-[#1C2333] p-3 rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-white truncate" title={header}>{header}</span>
+                    {assignments[header] && <Check className="h-4 w-4 text-green-400 flex-shrink-0" />}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate" title={data.rows[0]?.[header]}>
+                    {t('mapping.example', { value: data.rows[0]?.[header] || '—' })}
+                  </p>
+                  <select
+                    value={assignments[header] ?? ''}
+                    onChange={(e) => handleAssign(header, e.target.value)}
+                    className="w-full px-2 py-1.5 bg-[#151B2B] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">{t('mapping.ignoreColumn')}</option>
+                    {fields.map(field => (
+                      <option key={field.key} value={field.key}>
+                        {t(field.labelKey)}{field.required ? ' *' : ''}
+                        {assignedFields.has(field.key) && assignments[header] !== field.key ? t('mapping.inUse') : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {dateColumns.length > 0 && (
+            <div>
+              <h3 className="text-lg font-medium text-white mb-3">{t('mapping.dates')}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {dateColumns.map(({ field, header, detection, settings }) => (
+                  <div key={field.key} className="bg-[#1C2333] p-3 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4 text-indigo-400" />
+                      <span className="text-sm font-medium text-white">{t(field.labelKey)}</span>
+                      <span className="text-xs text-gray-500 truncate" title={header}>({header})</span>
+                    </div>
+                    <p className={`text-xs ${detection?.ambiguous ? 'text-yellow-400' : 'text-gray-400'}`}>
+                      {detection
+                        ? t('mapping.detectedFormat', { format: getDateFormatLabel(detection.format) })
+                        : t('mapping.formatNotDetected')}
+                      {detection?.ambiguous && t('mapping.ambiguousDate')}
+                    </p>
+                    <select
+                      value={settings.format}
+                      onChange={(e) => handleDateSetting(field.key, { format: e.target.value as DateColumnSettings['format'] })}
+                      className="w-full px-2 py-1.5 bg-[#151B2B] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {DATE_FORMAT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={settings.timezone}
+                      onChange={(e) => handleDateSetting(field.key, { timezone: e.target.value })}
+                      disabled={detection?.hasTimezone}
+                      className="w-full px-2 py-1.5 bg-[#151B2B] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                    >
+                      {TIMEZONE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                      ))}
+                    </select>
+                    {detection?.hasTimezone && (
+                      <p className="text-xs text-gray-500">{t('mapping.timezoneInValues')}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-medium text-white mb-3">
+              {t('mapping.preview', { count: Math.min(MAPPING_PREVIEW_ROWS, data.rows.length) })}
+            </h3>
+            <div className="overflow-x-auto border border-gray-700 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-[#1C2333]">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('mapping.row')}</th>
+                    {mappedFields.map(field => (
+                      <th key={field.key} className="px-3 py-2 text-left text-gray-400 font-medium whitespace-nowrap">
+                        {t(field.labelKey)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(({ record, errors }, index) => {
+                    const hasError = errors.some(error => error.severity === 'error');
+                    const hasWarning = errors.length > 0;
+                    return (
+                      <tr
+                        key={index}
+                        className={`border-t border-gray-800 ${hasError ? 'bg-red-500/10' : hasWarning ? 'bg-yellow-500/5' : ''}`}
+                      >
+                        <td className="px-3 py-2 text-gray-500">{index + 2}</td>
+                        {mappedFields.map(field => {
+                          const fieldError = errors.find(error => error.column === field.key);
+                          return (
+                            <td
+                              key={field.key}
+                              title={fieldError?.reason}
+                              className={`px-3 py-2 whitespace-nowrap max-w-[220px] truncate ${
+                                fieldError?.severity === 'error' ? 'text-red-400' : fieldError ? 'text-yellow-400' : 'text-gray-300'
+                              }`}
+                            >
+                              {record[field.key] || '—'}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {previewErrors.length > 0 && (
+            <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+              <div className="flex gap-3">
+                <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+                <div>
+                  <h3 className="text-sm font-medium text-yellow-400">
+                    {t('mapping.previewErrors')}
+                  </h3>
+                  <ul className="mt-2 max-h-40 overflow-auto list-disc list-inside text-sm text-yellow-300 space-y-1">
+                    {previewErrors.map((error, index) => (
+                      <li key={index}>
+                        {t('upload.rowError', { row: error.row, reason: error.reason })}
+                        {error.value && t('upload.rowValue', { value: error.value })}
+                        {error.severity === 'error' && t('mapping.rowDiscarded')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={saveAsProfile}
+                onChange={(e) => setSaveAsProfile(e.target.checked)}
+                className="rounded border-gray-600 bg-[#1C2333] text-indigo-600 focus:ring-indigo-500"
+              />
+              <Save className="h-4 w-4 text-gray-400" />
+              {t('mapping.saveAsProfile')}
+            </label>
+            {saveAsProfile && (
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder={t('mapping.profileName')}
+                className="px-3 py-1.5 bg-[#1C2333] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+            >
+              {t('mapping.cancel')}
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={missingRequired.length > 0 || (saveAsProfile && !profileName.trim())}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="h-4 w-4" />
+              {t('mapping.confirmImport')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
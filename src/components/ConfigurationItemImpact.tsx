@@ -0,0 +1,389 @@
+import { Fragment, useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import {
+  Server,
+  Layers,
+  Database,
+  AlertCircle,
+  AlertTriangle,
+  Flame,
+  Search,
+  ChevronDown,
+  ChevronUp,
+  Trash2
+} from 'lucide-react';
+import { Incident } from '../types/incident';
+import { ConfigurationItemRecord, ImpactStats } from '../types/cmdb';
+import { ValidationError } from '../types/ingestion';
+import { IMPORT_FILE_ACCEPT, readImportFile } from '../utils/ingestionUtils';
+import { formatDecimal, formatNumber, t } from '../utils/i18nUtils';
+import { formatIncidentDate, normalizePriority } from '../utils/incidentUtils';
+import {
+  calculateImpactStats,
+  findMissingCmdbColumns,
+  getIncidentBusinessService,
+  indexCmdbItems,
+  loadCmdbItems,
+  processCmdbRows,
+  saveCmdbItems
+} from '../utils/cmdbUtils';
+
+interface ConfigurationItemImpactProps {
+  incidents: Incident[];
+  onClose: () => void;
+  onShowIncidentDetails?: (incident: Incident) => void;
+}
+
+type ImpactView = 'ci' | 'service';
+
+const FRAGILE_RANKING_SIZE = 10;
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  return hours >= 24
+    ? t('ciImpact.days', { value: formatDecimal(hours / 24) })
+    : t('ciImpact.hours', { value: formatDecimal(hours) });
+};
+
+export function ConfigurationItemImpact({ incidents, onClose, onShowIncidentDetails }: ConfigurationItemImpactProps) {
+  const [view, setView] = useState<ImpactView>('ci');
+  const [cmdbItems, setCmdbItems] = useState<ConfigurationItemRecord[]>(() => loadCmdbItems());
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expandedName, setExpandedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const cmdbIndex = useMemo(() => indexCmdbItems(cmdbItems), [cmdbItems]);
+  const ciStats = useMemo(
+    () => calculateImpactStats(incidents, incident => incident.ConfigurationItem, cmdbIndex),
+    [incidents, cmdbIndex]
+  );
+  const serviceStats = useMemo(
+    () => calculateImpactStats(incidents, incident => getIncidentBusinessService(incident, cmdbIndex)),
+    [incidents, cmdbIndex]
+  );
+  const fragileCIs = useMemo(
+    () => [...ciStats].sort((a, b) => b.fragilityScore - a.fragilityScore).slice(0, FRAGILE_RANKING_SIZE),
+    [ciStats]
+  );
+
+  const stats = view === 'ci' ? ciStats : serviceStats;
+  const filteredStats = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return stats;
+    return stats.filter(item =>
+      item.name.toLowerCase().includes(term) ||
+      item.cmdb?.Owner?.toLowerCase().includes(term) ||
+      item.cmdb?.Class?.toLowerCase().includes(term)
+    );
+  }, [stats, searchTerm]);
+  const withoutCI = incidents.filter(incident => !incident.ConfigurationItem?.trim()).length;
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setError(null);
+    setValidationErrors([]);
+    setIsProcessing(true);
+
+    try {
+      const data = await readImportFile(file);
+      const missing = findMissingCmdbColumns(data.headers);
+      if (missing.length > 0) {
+        throw new Error(t('import.error.missingColumns', { columns: missing.join(', ') }));
+      }
+      const result = processCmdbRows(data.rows);
+      if (result.items.length === 0) {
+        throw new Error(t('ciImpact.error.noItems'));
+      }
+      setValidationErrors(result.errors);
+      setCmdbItems(result.items);
+      saveCmdbItems(result.items);
+    } catch (err) {
+      console.error('Erro ao importar CMDB:', err);
+      setError(err instanceof Error ? err.message : t('import.error.processFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: IMPORT_FILE_ACCEPT,
+    multiple: false,
+    disabled: isProcessing
+  });
+
+  const handleClearCmdb = () => {
+    setCmdbItems([]);
+    setValidationErrors([]);
+    saveCmdbItems([]);
+  };
+
+  const showDetails = (name: string, targetView: ImpactView) => {
+    setView(targetView);
+    setSearchTerm('');
+    setExpandedName(current => (current === name ? null : name));
+  };
+
+  const renderIncidents = (item: ImpactStats) => (
+    <div className="max-h-72 overflow-y-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-[#151B2B] sticky top-0">
+          <tr>
+            <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.incident')}</th>
+            <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.description')}</th>
+            <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.priority')}</th>
+            <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.state')}</th>
+            <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.opened')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {item.incidents.map(incident => (
+            <tr
+              key={incident.Number}
+              onClick={() => onShowIncidentDetails?.(incident)}
+              className={`border-t border-gray-800 ${onShowIncidentDetails ? 'cursor-pointer hover:bg-[#151B2B]' : ''}`}
+            >
+              <td className="px-3 py-2 text-white whitespace-nowrap">{incident.Number}</td>
+              <td className="px-3 py-2 text-gray-300 max-w-[360px] truncate" title={incident.ShortDescription}>
+                {incident.ShortDescription}
+              </td>
+              <td className="px-3 py-2 text-gray-300">{normalizePriority(incident.Priority)}</td>
+              <td className="px-3 py-2 text-gray-300">{incident.State}</td>
+              <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{formatIncidentDate(incident.Opened)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="bg-[#151B2B] p-6 rounded-lg space-y-6 relative">
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
+        aria-label={t('ciImpact.close')}
+      >
+        ×
+      </button>
+
+      <div className="flex items-center gap-3">
+        <Server className="h-6 w-6 text-cyan-400" />
+        <div>
+          <h2 className="text-xl font-bold text-white">{t('ciImpact.title')}</h2>
+          <p className="text-sm text-gray-400">
+            {t('ciImpact.subtitle')}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <div
+          {...getRootProps()}
+          className={`flex-1 border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+            isDragActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-gray-700 hover:border-gray-500'
+          }`}
+        >
+          <input {...getInputProps()} />
+          <Database className="h-6 w-6 text-indigo-400 mx-auto mb-1" />
+          <p className="text-white text-sm">
+            {isProcessing
+              ? t('ciImpact.processing')
+              : t('ciImpact.drop')}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            {t('ciImpact.columns')}
+          </p>
+        </div>
+        {cmdbItems.length > 0 && (
+          <div className="bg-[#1C2333] rounded-lg p-4 flex flex-col justify-center gap-3 md:w-64">
+            <p className="text-sm text-gray-300">{t('ciImpact.cmdbItems', { count: cmdbItems.length })}</p>
+            <button
+              onClick={handleClearCmdb}
+              className="flex items-center justify-center gap-2 px-3 py-2 bg-[#151B2B] hover:bg-[#252d3d] text-gray-300 rounded-lg transition-colors text-sm"
+            >
+              <Trash2 className="h-4 w-4" />
+              {t('ciImpact.removeCmdb')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {validationErrors.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-400">
+                {t('ciImpact.occurrences', { count: validationErrors.length })}
+              </h3>
+              <ul className="mt-2 max-h-32 overflow-auto list-disc list-inside text-sm text-yellow-300 space-y-1">
+                {validationErrors.map((validationError, index) => (
+                  <li key={index}>
+                    {t('upload.rowError', { row: validationError.row, reason: validationError.reason })}
+                    {validationError.value && t('upload.rowValue', { value: validationError.value })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {ciStats.length === 0 && serviceStats.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          {t('ciImpact.empty')}
+        </p>
+      ) : (
+        <>
+          <div className="bg-[#1C2333] rounded-lg p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Flame className="h-5 w-5 text-red-400" />
+              <h3 className="text-white font-medium">{t('ciImpact.fragile')}</h3>
+              <span className="text-xs text-gray-500">
+                {t('ciImpact.fragileHint')}{cmdbItems.length > 0 && t('ciImpact.fragileWeighted')}
+              </span>
+            </div>
+            <ol className="space-y-2">
+              {fragileCIs.map((item, index) => (
+                <li key={item.name}>
+                  <button
+                    onClick={() => showDetails(item.name, 'ci')}
+                    className="w-full flex items-center justify-between gap-4 px-3 py-2 rounded-lg hover:bg-[#151B2B] text-left"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-gray-500 w-6 text-right">{index + 1}.</span>
+                      <span className="text-white truncate">{item.name}</span>
+                      {item.cmdb?.Criticality && (
+                        <span className="text-xs text-gray-400">{item.cmdb.Criticality}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm flex-shrink-0">
+                      <span className="text-gray-300">{t('ciImpact.incidentsShort', { count: item.incidents.length })}</span>
+                      <span className="text-red-400">{t('ciImpact.highPriority', { count: item.highPriorityCount })}</span>
+                      <span className="text-gray-300">{t('ciImpact.outageShort', { value: formatHours(item.outageHours) })}</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="flex gap-2">
+              <button
+                onClick={() => { setView('ci'); setExpandedName(null); }}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  view === 'ci' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+                }`}
+              >
+                <Server className="h-4 w-4" />
+                {t('ciImpact.byCi', { count: ciStats.length })}
+              </button>
+              <button
+                onClick={() => { setView('service'); setExpandedName(null); }}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  view === 'service' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+                }`}
+              >
+                <Layers className="h-4 w-4" />
+                {t('ciImpact.byService', { count: serviceStats.length })}
+              </button>
+            </div>
+            <div className="relative">
+              <Search className="h-4 w-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder={t('ciImpact.filter')}
+                className="pl-9 pr-3 py-2 bg-[#1C2333] border border-gray-700 rounded-lg text-white text-sm w-72"
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-[#1C2333]">
+                <tr>
+                  <th className="px-3 py-2 text-left text-gray-400 font-medium">
+                    {view === 'ci' ? t('ciImpact.ci') : t('ciImpact.service')}
+                  </th>
+                  {view === 'ci' && cmdbItems.length > 0 && (
+                    <>
+                      <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.class')}</th>
+                      <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.owner')}</th>
+                      <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('ciImpact.criticality')}</th>
+                    </>
+                  )}
+                  <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('ciImpact.incidents')}</th>
+                  <th className="px-3 py-2 text-right text-gray-400 font-medium">P1/P2</th>
+                  <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('ciImpact.outage')}</th>
+                  <th className="px-3 py-2 text-right text-gray-400 font-medium">MTTR</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {filteredStats.map(item => {
+                  const isExpanded = expandedName === item.name;
+                  const columns = view === 'ci' && cmdbItems.length > 0 ? 9 : 6;
+                  return (
+                    <Fragment key={item.name}>
+                      <tr
+                        onClick={() => setExpandedName(isExpanded ? null : item.name)}
+                        className="border-t border-gray-800 cursor-pointer hover:bg-[#1C2333]"
+                      >
+                        <td className="px-3 py-2 text-white">{item.name}</td>
+                        {view === 'ci' && cmdbItems.length > 0 && (
+                          <>
+                            <td className="px-3 py-2 text-gray-300">{item.cmdb?.Class || '—'}</td>
+                            <td className="px-3 py-2 text-gray-300">{item.cmdb?.Owner || '—'}</td>
+                            <td className="px-3 py-2 text-gray-300">{item.cmdb?.Criticality || '—'}</td>
+                          </>
+                        )}
+                        <td className="px-3 py-2 text-right text-gray-300">{item.incidents.length}</td>
+                        <td className="px-3 py-2 text-right text-gray-300">
+                          {item.highPriorityCount}
+                          <span className="text-gray-500"> ({formatNumber(item.highPriorityShare, { maximumFractionDigits: 0 })}%)</span>
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-300">{formatHours(item.outageHours)}</td>
+                        <td className="px-3 py-2 text-right text-gray-300">{formatHours(item.mttrHours)}</td>
+                        <td className="px-3 py-2 text-right text-gray-400">
+                          {isExpanded ? <ChevronUp className="h-4 w-4 inline" /> : <ChevronDown className="h-4 w-4 inline" />}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={columns} className="px-3 pb-4 bg-[#1C2333]">
+                            {renderIncidents(item)}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {view === 'ci' && withoutCI > 0 && (
+            <p className="text-xs text-gray-500">
+              {t('ciImpact.withoutCi', { count: withoutCI })}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,10 @@
 import React, { useState } from 'react';
 import { X, AlertTriangle, ExternalLink } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { formatDistanceToNow, parseISO, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { formatDistanceToNow, parseISO } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { formatLocalizedDate, getDateLocale, t } from '../utils/i18nUtils';
 
 interface CriticalIncidentsModalProps {
   incidents: Incident[];
@@ -25,19 +25,19 @@ export function CriticalIncidentsModal({ incidents, onClose }: CriticalIncidents
   const getIncidentDuration = (openedDate: string): string => {
     try {
       return formatDistanceToNow(parseISO(openedDate), { 
-        locale: ptBR,
+        locale: getDateLocale(),
         addSuffix: false 
       });
     } catch (error) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.dateTime');
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -54,10 +54,10 @@ export function CriticalIncidentsModal({ incidents, onClose }: CriticalIncidents
           <div className="flex items-center justify-between">
             <div>
               <h2 className="text-xl font-semibold text-white">
-                Chamados Críticos em Aberto
+                {t('criticalModal.title')}
               </h2>
               <p className="text-gray-400 mt-1">
-                {incidents.length} chamados pendentes
+                {t('criticalModal.count', { count: incidents.length })}
               </p>
             </div>
             <button
@@ -110,7 +110,7 @@ export function CriticalIncidentsModal({ incidents, onClose }: CriticalIncidents
                     )}
                     <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
                       <span className="text-amber-400">
-                        • Aberto há {getIncidentDuration(incident.Opened)}
+                        • {t('criticalModal.openFor', { duration: getIncidentDuration(incident.Opened) })}
                       </span>
                       {incident.AssignmentGroup && (
                         <>
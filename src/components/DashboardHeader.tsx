@@ -1,13 +1,27 @@
 import React from 'react';
-import { LogOut, RefreshCw } from 'lucide-react';
+import { LogOut, RefreshCw, Database, Timer, MapPin, Tags, Grid3x3 } from 'lucide-react';
 import environment from '../config/environment';
+import { Language } from '../types/i18n';
+import { t } from '../utils/i18nUtils';
+import { LanguageSelector } from './LanguageSelector';
 
 interface DashboardHeaderProps {
   onLogout?: () => void;
   onReload?: () => void;
   title?: string;
   onShowRequestDashboard?: () => void;
+  onShowBacklogDashboard?: () => void;
   onShowExecutiveDashboard?: () => void;
+  onShowDatasetLibrary?: () => void;
+  onShowSLAPolicies?: () => void;
+  onShowLocationDirectory?: () => void;
+  onShowCategoryRules?: () => void;
+  onShowPriorityModel?: () => void;
+  // Grupos designados do conjunto atual sem localidade no diretório
+  unmappedLocationCount?: number;
+  datasetName?: string;
+  language?: Language;
+  onLanguageChange?: (language: Language) => void;
 }
 
 export function DashboardHeader({ 
@@ -15,7 +29,17 @@ export function DashboardHeader({
   onReload, 
   title,
   onShowRequestDashboard,
-  onShowExecutiveDashboard 
+  onShowBacklogDashboard,
+  onShowExecutiveDashboard,
+  onShowDatasetLibrary,
+  onShowSLAPolicies,
+  onShowLocationDirectory,
+  onShowCategoryRules,
+  onShowPriorityModel,
+  unmappedLocationCount = 0,
+  datasetName,
+  language,
+  onLanguageChange
 }: DashboardHeaderProps) {
   return (
     <header className="bg-[#151B2B] py-4">
@@ -35,18 +59,78 @@ export function DashboardHeader({
               </span>
               {environment.isDevelopment && (
                 <span className="ml-2 px-2 py-1 text-xs font-medium bg-yellow-500/20 text-yellow-400 rounded-full">
-                  Development
+                  {t('header.development')}
                 </span>
               )}
             </h1>
           </div>
           <div className="flex items-center gap-2">
+            {onShowDatasetLibrary && (
+              <button
+                onClick={onShowDatasetLibrary}
+                title={datasetName ? t('header.currentDataset', { name: datasetName }) : undefined}
+                className="inline-flex items-center px-4 py-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-white font-medium transition-colors"
+              >
+                <Database className="w-5 h-5 mr-2" />
+                {t('header.datasets')}
+              </button>
+            )}
+            {onShowSLAPolicies && (
+              <button
+                onClick={onShowSLAPolicies}
+                className="inline-flex items-center px-4 py-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-white font-medium transition-colors"
+              >
+                <Timer className="w-5 h-5 mr-2" />
+                {t('header.sla')}
+              </button>
+            )}
+            {onShowLocationDirectory && (
+              <button
+                onClick={onShowLocationDirectory}
+                title={unmappedLocationCount > 0 ? t('header.unmappedGroups', { count: unmappedLocationCount }) : undefined}
+                className="inline-flex items-center px-4 py-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-white font-medium transition-colors"
+              >
+                <MapPin className="w-5 h-5 mr-2" />
+                {t('header.locations')}
+                {unmappedLocationCount > 0 && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-bold bg-yellow-500/20 text-yellow-400 rounded-full">
+                    {unmappedLocationCount}
+                  </span>
+                )}
+              </button>
+            )}
+            {onShowCategoryRules && (
+              <button
+                onClick={onShowCategoryRules}
+                className="inline-flex items-center px-4 py-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-white font-medium transition-colors"
+              >
+                <Tags className="w-5 h-5 mr-2" />
+                {t('header.categories')}
+              </button>
+            )}
+            {onShowPriorityModel && (
+              <button
+                onClick={onShowPriorityModel}
+                className="inline-flex items-center px-4 py-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-white font-medium transition-colors"
+              >
+                <Grid3x3 className="w-5 h-5 mr-2" />
+                {t('header.priorities')}
+              </button>
+            )}
             {onShowRequestDashboard && (
               <button
                 onClick={onShowRequestDashboard}
                 className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium transition-colors"
               >
-                Solicitações
+                {t('header.requests')}
+              </button>
+            )}
+            {onShowBacklogDashboard && (
+              <button
+                onClick={onShowBacklogDashboard}
+                className="inline-flex items-center px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg text-white font-medium transition-colors"
+              >
+                {t('header.backlog')}
               </button>
             )}
             {onShowExecutiveDashboard && (
@@ -54,16 +138,19 @@ export function DashboardHeader({
                 onClick={onShowExecutiveDashboard}
                 className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-white font-medium transition-colors"
               >
-                Executivo
+                {t('header.executive')}
               </button>
             )}
+            {language && onLanguageChange && (
+              <LanguageSelector language={language} onChange={onLanguageChange} />
+            )}
             {onReload && (
               <button
                 onClick={onReload}
                 className="inline-flex items-center px-4 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-white font-medium transition-colors"
               >
                 <RefreshCw className="w-5 h-5 mr-2" />
-                Recarregar
+                {t('header.reload')}
               </button>
             )}
             {onLogout && (
@@ -72,7 +159,7 @@ export function DashboardHeader({
                 className="inline-flex items-center px-4 py-2 bg-orange-600 hover:bg-orange-700 rounded-lg text-white font-medium transition-colors"
               >
                 <LogOut className="w-5 h-5 mr-2" />
-                Sair
+                {t('header.logout')}
               </button>
             )}
           </div>
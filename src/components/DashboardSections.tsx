@@ -21,9 +21,14 @@ import {
   LineChart,
   BarChart2,
   Users2,
+  GitPullRequest,
+  Bug,
+  Server,
+  CalendarClock,
   X
 } from 'lucide-react';
 import { AssociatedIndicatorsAnalysis } from './AssociatedIndicatorsAnalysis';
+import { t } from '../utils/i18nUtils';
 
 // Adicione o tipo para os itens das seções
 interface DashboardSectionItem {
@@ -89,57 +94,64 @@ export function DashboardSections({
 
   const sections = {
     operacional: {
-      title: "Indicadores Operacionais",
-      description: "Métricas de operação diária",
+      title: t('sections.operacional.title'),
+      description: t('sections.operacional.description'),
       icon: BarChart3,
       color: "bg-blue-600",
       hoverColor: "hover:bg-blue-700",
       items: [
         {
-          title: "Chamados Pendentes",
-          description: "Status atual dos chamados",
+          title: t('sections.pendingIncidents.title'),
+          description: t('sections.pendingIncidents.description'),
           icon: AlertCircle,
           sectionKey: "pending-incidents",
           onClick: () => onShowPendingIncidents()
         },
         {
-          title: "SLA",
-          description: "Acordo de nível de serviço",
+          title: t('sections.sla.title'),
+          description: t('sections.sla.description'),
           icon: Clock,
           sectionKey: "sla",
           onClick: () => handleSectionClick("sla")
         },
         {
-          title: "Por Categoria",
-          description: "Distribuição por tipo",
+          title: t('sections.category.title'),
+          description: t('sections.category.description'),
           icon: BarChart3,
           sectionKey: "category",
           onClick: () => handleSectionClick("category")
         },
         {
-          title: "Por Grupo",
-          description: "Distribuição por equipe",
+          title: t('sections.group.title'),
+          description: t('sections.group.description'),
           icon: Users,
           sectionKey: "group",
           onClick: () => handleSectionClick("group")
         },
         {
-          title: "Por Usuários",
-          description: "Distribuição por usuários",
+          title: t('sections.associates.title'),
+          description: t('sections.associates.description'),
           icon: UserCircle,
           sectionKey: "associates",
           onClick: () => handleSectionClick("associates")
         },
         {
-          title: "Top Chamados – Drilldown por String Associado",
-          description: "Drilldown por Categoria, Subcategoria e String Associado",
+          title: t('sections.topStringAssociado.title'),
+          description: t('sections.topStringAssociado.description'),
           icon: BarChart2,
           sectionKey: "top-string-associado",
           onClick: () => handleSectionClick("top-string-associado")
         },
         {
-          title: "Análise de Indicadores Associados",
-          description: "Análise integrada de Função, Grupo e String Associado com turnos",
+          title: t('sections.problems.title'),
+          description: t('sections.problems.description'),
+          icon: Bug,
+          sectionKey: "problems",
+          onClick: () => handleSectionClick("problems")
+        },
+        {
+          title: t('sections.associatedIndicators.title'),
+          description: t('sections.associatedIndicators.description'),
           icon: Users2,
           sectionKey: "operacional",
           onClick: () => {
@@ -149,73 +161,87 @@ export function DashboardSections({
       ]
     },
     estrategico: {
-      title: "Indicadores Estratégicos",
-      description: "Métricas de longo prazo",
+      title: t('sections.estrategico.title'),
+      description: t('sections.estrategico.description'),
       icon: Target,
       color: "bg-green-600",
       hoverColor: "hover:bg-green-700",
       items: [
         {
-          title: "Histórico por Categoria",
-          description: "Tendências por categoria",
+          title: t('sections.categoryHistory.title'),
+          description: t('sections.categoryHistory.description'),
           icon: History,
           sectionKey: "category-history",
           onClick: () => handleSectionClick("category-history")
         },
         {
-          title: "Histórico por Grupo",
-          description: "Tendências por equipe",
+          title: t('sections.groupHistory.title'),
+          description: t('sections.groupHistory.description'),
           icon: Users,
           sectionKey: "group-history",
           onClick: () => handleSectionClick("group-history")
         },
         {
-          title: "Histórico por SLA",
-          description: "Tendências de tempo de resposta",
+          title: t('sections.slaHistory.title'),
+          description: t('sections.slaHistory.description'),
           icon: Timer,
           sectionKey: "sla-history",
           onClick: () => handleSectionClick("sla-history")
         },
         {
-          title: "Histórico por Localidade",
-          description: "Tendências por local",
+          title: t('sections.locationHistory.title'),
+          description: t('sections.locationHistory.description'),
           icon: MapPin,
           sectionKey: "location-history",
           onClick: () => handleSectionClick("location-history")
+        },
+        {
+          title: t('sections.changeCorrelation.title'),
+          description: t('sections.changeCorrelation.description'),
+          icon: GitPullRequest,
+          sectionKey: "change-correlation",
+          onClick: () => handleSectionClick("change-correlation")
+        },
+        {
+          title: t('sections.ciImpact.title'),
+          description: t('sections.ciImpact.description'),
+          icon: Server,
+          sectionKey: "ci-impact",
+          onClick: () => handleSectionClick("ci-impact")
         }
       ]
     },
     executivo: {
-      title: "Indicadores Executivos",
-      description: "Visão geral para gestão",
+      title: t('sections.executivo.title'),
+      description: t('sections.executivo.description'),
       icon: PieChart,
       color: "bg-purple-600",
       hoverColor: "hover:bg-purple-700",
       items: [
         {
-          title: "Variação Mensal",
-          description: "Análise de variação mês a mês",
+          title: t('sections.monthlyVariation.title'),
+          description: t('sections.monthlyVariation.description'),
           icon: LineChart,
           sectionKey: "monthly-variation",
           onClick: () => handleSectionClick("monthly-variation")
         },
         {
-          title: "Variação Mensal por Localidade",
-          description: "Comparativo mensal por local",
+          title: t('sections.monthlyLocationVariation.title'),
+          description: t('sections.monthlyLocationVariation.description'),
           icon: MapPin,
           sectionKey: "monthly-location-variation",
           onClick: () => handleSectionClick("monthly-location-variation")
         },
         {
-          title: "Volumetria Comparativa",
-          description: "Comparação de volumes entre localidades",
+          title: t('sections.comparativeVolumetry.title'),
+          description: t('sections.comparativeVolumetry.description'),
           icon: BarChart3,
           sectionKey: "comparative-volumetry",
           onClick: () => handleSectionClick("comparative-volumetry")
         },
         {
-          title: "Distribuição por Localidade",
-          description: "Distribuição de incidentes e requisições por local",
+          title: t('sections.locationDistribution.title'),
+          description: t('sections.locationDistribution.description'),
           icon: MapPin,
           sectionKey: "location-distribution",
           onClick: () => handleSectionClick("location-distribution")
@@ -223,32 +249,39 @@ export function DashboardSections({
       ]
     },
     preditiva: {
-      title: "Análise Preditiva - IA",
-      description: "Insights e previsões",
+      title: t('sections.preditiva.title'),
+      description: t('sections.preditiva.description'),
       icon: Brain,
       color: "bg-orange-600",
       hoverColor: "hover:bg-orange-700",
       items: [
         {
-          title: "Análise Preditiva",
-          description: "Previsões e tendências",
+          title: t('sections.predictive.title'),
+          description: t('sections.predictive.description'),
           icon: Brain,
           sectionKey: "predictive",
           onClick: () => handleSectionClick("predictive")
         },
         {
-          title: "Análise por Analista",
-          description: "Desempenho individual",
+          title: t('sections.analyst.title'),
+          description: t('sections.analyst.description'),
           icon: UserCog,
           sectionKey: "analyst",
           onClick: () => handleSectionClick("analyst")
         },
         {
-          title: "Análise por Turno",
-          description: "Desempenho por período",
+          title: t('sections.shift.title'),
+          description: t('sections.shift.description'),
           icon: Clock,
           sectionKey: "shift",
           onClick: () => handleSectionClick("shift")
+        },
+        {
+          title: t('sections.staffing.title'),
+          description: t('sections.staffing.description'),
+          icon: CalendarClock,
+          sectionKey: "staffing",
+          onClick: () => handleSectionClick("staffing")
         }
       ]
     }
@@ -356,7 +389,7 @@ export function DashboardSections({
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-[#151B2B] rounded-lg p-6 w-11/12 max-w-7xl max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-6">
-              <h2 className="text-2xl font-bold text-white">Análise de Indicadores Associados</h2>
+              <h2 className="text-2xl font-bold text-white">{t('sections.associatedIndicators.title')}</h2>
               <button
                 onClick={() => setShowAssociatedAnalysis(false)}
                 className="text-gray-400 hover:text-white"
@@ -0,0 +1,58 @@
+import { ClipboardCheck, Download } from 'lucide-react';
+import { DataQualityReport } from '../types/ingestion';
+import { countDataQualityIssues, downloadDataQualityReport } from '../utils/dataQualityUtils';
+import { formatNumber, t } from '../utils/i18nUtils';
+
+interface DataQualityReportCardProps {
+  report: DataQualityReport;
+  sourceName: string;
+}
+
+export function DataQualityReportCard({ report, sourceName }: DataQualityReportCardProps) {
+  const incompleteColumns = report.completeness.filter(column => column.percentage < 100).length;
+  const items = [
+    { label: t('quality.rejectedRows'), value: report.rejectedRows },
+    { label: t('quality.incompleteColumns'), value: incompleteColumns },
+    { label: t('quality.invalidDates'), value: report.invalidDates.length },
+    { label: t('quality.unknownPriorities'), value: report.unknownPriorities.length },
+    { label: t('quality.unknownStates'), value: report.unknownStates.length },
+    { label: t('quality.duplicateNumbers'), value: report.duplicateNumbers.length },
+    { label: t('quality.updatedBeforeOpened'), value: report.updatedBeforeOpened.length }
+  ];
+
+  return (
+    <div className="bg-[#151B2B] border border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="h-5 w-5 text-indigo-400" />
+          <div>
+            <h3 className="text-sm font-medium text-white">{t('quality.title')}</h3>
+            <p className="text-xs text-gray-400">
+              {t('quality.summary', {
+                rows: formatNumber(report.totalRows),
+                issues: formatNumber(countDataQualityIssues(report))
+              })}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => downloadDataQualityReport(report, sourceName)}
+          className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg transition-colors"
+        >
+          <Download className="h-4 w-4" />
+          {t('quality.download')}
+        </button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {items.map(item => (
+          <div key={item.label} className="bg-[#1C2333] rounded-lg p-3">
+            <p className="text-xs text-gray-400">{item.label}</p>
+            <p className={`text-lg font-semibold ${item.value > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+              {formatNumber(item.value)}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Database, FolderOpen, Pencil, Trash2, Star, Save, Check, X, AlertCircle, Loader2, ArrowRight } from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { Incident } from '../types/incident';
+import { Request } from '../types/request';
+import { DatasetMeta, StoredDataset } from '../types/dataset';
+import { FileUploadSelector } from './FileUploadSelector';
+import {
+  deleteDataset,
+  getDefaultDatasetId,
+  listDatasets,
+  loadDataset,
+  renameDataset,
+  saveDataset,
+  setDefaultDatasetId
+} from '../utils/datasetUtils';
+import { formatLocalizedDate, formatNumber, t } from '../utils/i18nUtils';
+
+interface DatasetLibraryProps {
+  activeDatasetId?: string | null;
+  onOpen: (dataset: StoredDataset) => void;
+}
+
+const formatDatasetDate = (value: string) => {
+  try {
+    return formatLocalizedDate(parseISO(value));
+  } catch {
+    return value;
+  }
+};
+
+export function DatasetLibrary({ activeDatasetId, onOpen }: DatasetLibraryProps) {
+  const [datasets, setDatasets] = useState<DatasetMeta[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(() => getDefaultDatasetId());
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  // Dados carregados pelo FileUploadSelector ainda não salvos
+  const [pendingIncidents, setPendingIncidents] = useState<{ items: Incident[]; files: string[] }>({ items: [], files: [] });
+  const [pendingRequests, setPendingRequests] = useState<{ items: Request[]; files: string[] }>({ items: [], files: [] });
+  const [datasetName, setDatasetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDatasets(await listDatasets());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t('dataset.error.list'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleOpen = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      const dataset = await loadDataset(id);
+      if (!dataset) {
+        throw new Error(t('dataset.error.notFound'));
+      }
+      onOpen(dataset);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t('dataset.error.open'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !renaming.name.trim()) return;
+    try {
+      await renameDataset(renaming.id, renaming.name.trim());
+      setRenaming(null);
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t('dataset.error.rename'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteDataset(id);
+      setConfirmDeleteId(null);
+      setDefaultId(getDefaultDatasetId());
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t('dataset.error.delete'));
+    }
+  };
+
+  const handleToggleDefault = (id: string) => {
+    const next = defaultId === id ? null : id;
+    setDefaultDatasetId(next);
+    setDefaultId(next);
+  };
+
+  const sourceFiles = Array.from(new Set([...pendingIncidents.files, ...pendingRequests.files]));
+  const canOpenPending = pendingIncidents.items.length > 0;
+
+  const buildPendingDataset = (meta: DatasetMeta): StoredDataset => ({
+    meta,
+    incidents: pendingIncidents.items,
+    requests: pendingRequests.items
+  });
+
+  const handleSaveAndOpen = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const meta = await saveDataset({
+        name: datasetName.trim() || sourceFiles[0] || t('dataset.unnamed'),
+        sourceFiles,
+        incidents: pendingIncidents.items,
+        requests: pendingRequests.items
+      });
+      onOpen(buildPendingDataset(meta));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : t('dataset.error.save'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenWithoutSaving = () => {
+    const now = new Date().toISOString();
+    onOpen(buildPendingDataset({
+      id: '',
+      name: datasetName.trim() || t('dataset.unsaved'),
+      sourceFiles,
+      createdAt: now,
+      updatedAt: now,
+      incidentCount: pendingIncidents.items.length,
+      requestCount: pendingRequests.items.length
+    }));
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-[#151B2B] p-6 rounded-lg space-y-4">
+        <div className="flex items-center gap-3">
+          <Database className="h-6 w-6 text-indigo-400" />
+          <div>
+            <h2 className="text-xl font-semibold text-white">{t('dataset.title')}</h2>
+            <p className="text-sm text-gray-400">{t('dataset.subtitle')}</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            <span>{t('dataset.loading')}</span>
+          </div>
+        ) : datasets.length === 0 ? (
+          <p className="text-gray-400">{t('dataset.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {datasets.map(dataset => (
+              <div
+                key={dataset.id}
+                className={`bg-[#1C2333] p-4 rounded-lg flex flex-wrap items-center justify-between gap-4 ${
+                  dataset.id === activeDatasetId ? 'border border-indigo-500/50' : ''
+                }`}
+              >
+                <div className="min-w-0 flex-1">
+                  {renaming?.id === dataset.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: dataset.id, name: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                        autoFocus
+                        className="flex-1 px-3 py-1.5 bg-[#151B2B] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                      <button onClick={handleRename} className="p-1.5 text-green-400 hover:text-green-300" title={t('dataset.saveName')}>
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setRenaming(null)} className="p-1.5 text-gray-400 hover:text-white" title={t('dataset.cancel')}>
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-white font-medium truncate">{dataset.name}</h3>
+                      {dataset.id === defaultId && (
+                        <span className="px-2 py-0.5 text-xs bg-yellow-500/20 text-yellow-400 rounded-full">{t('dataset.default')}</span>
+                      )}
+                      {dataset.id === activeDatasetId && (
+                        <span className="px-2 py-0.5 text-xs bg-indigo-500/20 text-indigo-300 rounded-full">{t('dataset.inUse')}</span>
+                      )}
+                    </div>
+                  )}
+                  <p className="text-sm text-gray-400 mt-1 truncate" title={dataset.sourceFiles.join(', ')}>
+                    {dataset.sourceFiles.length > 0 ? dataset.sourceFiles.join(', ') : t('dataset.noFile')}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t('dataset.importedAt', {
+                      date: formatDatasetDate(dataset.createdAt),
+                      incidents: formatNumber(dataset.incidentCount),
+                      requests: formatNumber(dataset.requestCount)
+                    })}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {confirmDeleteId === dataset.id ? (
+                    <>
+                      <span className="text-sm text-red-400">{t('dataset.confirmDelete')}</span>
+                      <button
+                        onClick={() => handleDelete(dataset.id)}
+                        className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm rounded-lg transition-colors"
+                      >
+                        {t('dataset.delete')}
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="px-3 py-1.5 text-gray-400 hover:text-white text-sm transition-colors"
+                      >
+                        {t('dataset.cancel')}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleOpen(dataset.id)}
+                        disabled={busyId !== null}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {busyId === dataset.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <FolderOpen className="h-4 w-4" />}
+                        {t('dataset.open')}
+                      </button>
+                      <button
+                        onClick={() => setRenaming({ id: dataset.id, name: dataset.name })}
+                        title={t('dataset.rename')}
+                        className="p-2 bg-[#151B2B] hover:bg-[#252d3d] rounded-lg text-gray-400 hover:text-white transition-colors"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleDefault(dataset.id)}
+                        title={t(dataset.id === defaultId ? 'dataset.unsetDefault' : 'dataset.setDefault')}
+                        className="p-2 bg-[#151B2B] hover:bg-[#252d3d] rounded-lg transition-colors"
+                      >
+                        <Star className={`h-4 w-4 ${dataset.id === defaultId ? 'text-yellow-400 fill-yellow-400' : 'text-gray-400'}`} />
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(dataset.id)}
+                        title={t('dataset.delete')}
+                        className="p-2 bg-[#151B2B] hover:bg-[#252d3d] rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <FileUploadSelector
+        onSelectIncidents={(items, files) => setPendingIncidents({ items, files })}
+        onSelectRequests={(items, files) => setPendingRequests({ items, files })}
+      />
+
+      {canOpenPending && (
+        <div className="bg-[#151B2B] p-6 rounded-lg space-y-4">
+          <h3 className="text-lg font-medium text-white">{t('dataset.newTitle')}</h3>
+          <p className="text-sm text-gray-400">
+            {t('dataset.ready', {
+              incidents: formatNumber(pendingIncidents.items.length),
+              requests: formatNumber(pendingRequests.items.length)
+            })}
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={datasetName}
+              onChange={(e) => setDatasetName(e.target.value)}
+              placeholder={sourceFiles[0] ?? t('dataset.namePlaceholder')}
+              className="flex-1 min-w-[200px] px-3 py-2 bg-[#1C2333] border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              onClick={handleOpenWithoutSaving}
+              disabled={isSaving}
+              className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+            >
+              {t('dataset.openWithoutSaving')}
+            </button>
+            <button
+              onClick={handleSaveAndOpen}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {t('dataset.saveAndOpen')}
+              <ArrowRight className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -54,8 +54,7 @@ import {
   differenceInMonths,
   startOfYear
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { normalizePriority, getIncidentState, isHighPriority } from '../utils/incidentUtils';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { normalizeLocationName } from '../utils/locationUtils';
 import { MonthlyVariation } from './MonthlyVariation';
@@ -64,11 +63,18 @@ import { CalendarSelector } from './CalendarSelector';
 import { TopIncidentsByStringAssociado } from './TopIncidentsByStringAssociado';
 import { DashboardSections } from './DashboardSections';
 import { AIPredictiveAnalysis } from './AIPredictiveAnalysis';
+import { SourceSystemComparison } from './SourceSystemComparison';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { formatDecimal, formatLocalizedDate, formatNumber, getDateLocale, t } from '../utils/i18nUtils';
+import { Language } from '../types/i18n';
+import { LanguageSelector } from './LanguageSelector';
 
 interface ExecutiveDashboardProps {
   incidents: Incident[];
   requests: Request[];
   onBack: () => void;
+  language?: Language;
+  onLanguageChange?: (language: Language) => void;
 }
 
 const CHART_COLORS = {
@@ -94,7 +100,7 @@ const LOCATION_COLORS = [
   '#EF4444'  // red
 ];
 
-export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDashboardProps) {
+export function ExecutiveDashboard({ incidents, requests, onBack, language, onLanguageChange }: ExecutiveDashboardProps) {
   // Definir ano corrente
   const currentYear = new Date().getFullYear();
   const [startDate, setStartDate] = useState(() => `${currentYear}-01-01`);
@@ -138,18 +144,12 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
         totalForSLA++;
         
         // Check if within SLA based on priority
-        const priority = incident.Priority?.toLowerCase() || '';
-        const threshold = 
-          priority.includes('p1') || priority.includes('1') ? 1 :  // 1 hour
-          priority.includes('p2') || priority.includes('2') ? 4 :  // 4 hours
-          priority.includes('p3') || priority.includes('3') ? 36 : // 36 hours
-          priority.includes('p4') || priority.includes('4') ? 72 : // 72 hours
-          36; // default
+        const threshold = getIncidentSLAHours(incident);
         
         try {
           const opened = parseISO(incident.Opened);
           const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-          const responseHours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
+          const responseHours = getIncidentSLAElapsedHours(incident, opened, closed);
           
           if (responseHours <= threshold) {
             withinSLA++;
@@ -200,7 +200,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
     return months.map((month, index) => {
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
-      const monthLabel = format(month, 'MMM/yy', { locale: ptBR });
+      const monthLabel = format(month, 'MMM/yy', { locale: getDateLocale() });
 
       // Count incidents for this month
       const monthIncidents = filteredData.incidents.filter(incident => {
@@ -227,7 +227,6 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
       let totalForSLA = 0;
 
       monthIncidents.forEach(incident => {
-        const priority = normalizePriority(incident.Priority);
         const state = getIncidentState(incident.State);
         
         // Only count closed incidents for SLA
@@ -235,17 +234,12 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
           totalForSLA++;
           
           // Check if within SLA based on priority
-          const threshold = 
-            priority === 'P1' ? 1 :  // 1 hour
-            priority === 'P2' ? 4 :  // 4 hours
-            priority === 'P3' ? 36 : // 36 hours
-            priority === 'P4' ? 72 : // 72 hours
-            36; // default
+          const threshold = getIncidentSLAHours(incident);
           
           try {
             const opened = parseISO(incident.Opened);
             const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-            const responseHours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
+            const responseHours = getIncidentSLAElapsedHours(incident, opened, closed);
             
             if (responseHours <= threshold) {
               withinSLA++;
@@ -317,7 +311,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
     
     // Count incidents by location
     filteredData.incidents.forEach(incident => {
-      const location = normalizeLocationName(incident.AssignmentGroup) || 'Não especificado';
+      const location = normalizeLocationName(incident.AssignmentGroup) || t('analysis.notSpecified');
       if (!locationCounts[location]) {
         locationCounts[location] = { incidents: 0, requests: 0 };
       }
@@ -326,7 +320,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
     
     // Count requests by location
     filteredData.requests.forEach(request => {
-      const location = normalizeLocationName(request.AssignmentGroup) || 'Não especificado';
+      const location = normalizeLocationName(request.AssignmentGroup) || t('analysis.notSpecified');
       if (!locationCounts[location]) {
         locationCounts[location] = { incidents: 0, requests: 0 };
       }
@@ -359,7 +353,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
       return months.map(month => {
         const monthStart = startOfMonth(month);
         const monthEnd = endOfMonth(month);
-        const monthLabel = format(month, 'MMM/yy', { locale: ptBR });
+        const monthLabel = format(month, 'MMM/yy', { locale: getDateLocale() });
         
         // Count incidents for this location and month
         const locationIncidents = filteredData.incidents.filter(incident => {
@@ -420,7 +414,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
     const criticalIncidents = filteredData.incidents.filter(incident => {
       const priority = normalizePriority(incident.Priority);
       const state = getIncidentState(incident.State);
-      return (priority === 'P1' || priority === 'P2') && 
+      return isHighPriority(priority) && 
              state !== 'Fechado' && 
              state !== 'Cancelado';
     }).length;
@@ -438,7 +432,6 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
     let totalForSLA = 0;
     
     filteredData.incidents.forEach(incident => {
-      const priority = normalizePriority(incident.Priority);
       const state = getIncidentState(incident.State);
       
       // Only count closed incidents for SLA
@@ -446,17 +439,12 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
         totalForSLA++;
         
         // Check if within SLA based on priority
-        const threshold = 
-          priority === 'P1' ? 1 :  // 1 hour
-          priority === 'P2' ? 4 :  // 4 hours
-          priority === 'P3' ? 36 : // 36 hours
-          priority === 'P4' ? 72 : // 72 hours
-          36; // default
+        const threshold = getIncidentSLAHours(incident);
         
         try {
           const opened = parseISO(incident.Opened);
           const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-          const responseHours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
+          const responseHours = getIncidentSLAElapsedHours(incident, opened, closed);
           
           if (responseHours <= threshold) {
             withinSLA++;
@@ -552,7 +540,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
   // Format dates for display
   const formatDateForDisplay = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), 'dd/MM/yyyy', { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.date');
     } catch (e) {
       return dateStr;
     }
@@ -575,7 +563,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
           {payload[0]?.payload?.total && (
             <div className="pt-2 mt-2 border-t border-gray-700">
               <div className="flex items-center justify-between">
-                <span className="text-gray-400">Total</span>
+                <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
                 <span className="text-white font-bold">{payload[0].payload.total}</span>
               </div>
             </div>
@@ -596,29 +584,34 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                 className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
               >
                 <ArrowLeft className="h-5 w-5" />
-                <span>Voltar</span>
+                <span>{t('executive.back')}</span>
               </button>
               <h1 className="ml-6 text-2xl font-bold text-white">
-                Dashboard Executivo
+                {t('executive.title')}
               </h1>
             </div>
-            <div className="relative">
-              <button
-                onClick={() => setShowCalendar(!showCalendar)}
-                className="flex items-center gap-2 px-3 py-2 bg-[#0B1120] border border-gray-700 rounded-lg text-white hover:bg-gray-700 transition-colors"
-              >
-                <Calendar className="h-5 w-5 text-gray-400" />
-                <span>{formatDateForDisplay(startDate)} - {formatDateForDisplay(endDate)}</span>
-              </button>
-              {showCalendar && (
-                <CalendarSelector
-                  startDate={startDate}
-                  endDate={endDate}
-                  onStartDateChange={setStartDate}
-                  onEndDateChange={setEndDate}
-                  onClose={() => setShowCalendar(false)}
-                />
+            <div className="flex items-center gap-2">
+              {language && onLanguageChange && (
+                <LanguageSelector language={language} onChange={onLanguageChange} />
               )}
+              <div className="relative">
+                <button
+                  onClick={() => setShowCalendar(!showCalendar)}
+                  className="flex items-center gap-2 px-3 py-2 bg-[#0B1120] border border-gray-700 rounded-lg text-white hover:bg-gray-700 transition-colors"
+                >
+                  <Calendar className="h-5 w-5 text-gray-400" />
+                  <span>{formatDateForDisplay(startDate)} - {formatDateForDisplay(endDate)}</span>
+                </button>
+                {showCalendar && (
+                  <CalendarSelector
+                    startDate={startDate}
+                    endDate={endDate}
+                    onStartDateChange={setStartDate}
+                    onEndDateChange={setEndDate}
+                    onClose={() => setShowCalendar(false)}
+                  />
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -626,7 +619,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
         <button
           onClick={onBack}
           className="absolute top-4 right-6 text-gray-400 hover:text-red-500 transition-colors text-2xl font-bold z-50"
-          title="Fechar Dashboard Executivo"
+          title={t('executive.close')}
         >
           <span aria-hidden="true">×</span>
         </button>
@@ -644,34 +637,34 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               {/* Total Incidents */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">Total de Incidentes</h2>
-                <p className="text-4xl font-bold text-white mb-2">{overallStats.totalIncidents}</p>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.totalIncidents')}</h2>
+                <p className="text-4xl font-bold text-white mb-2">{formatNumber(overallStats.totalIncidents)}</p>
                 <p className={`text-sm ${
                   overallStats.incidentsChange <= 0 ? 'text-green-500' : 'text-red-500'
                 }`}>
-                  {overallStats.incidentsChange === 0 ? '0.0%' : 
-                   `${overallStats.incidentsChange <= 0 ? '↓' : '↑'} ${Math.abs(overallStats.incidentsChange).toFixed(1)}%`} vs Ano Anterior
+                  {overallStats.incidentsChange === 0 ? `${formatDecimal(0)}%` : 
+                   `${overallStats.incidentsChange <= 0 ? '↓' : '↑'} ${formatDecimal(Math.abs(overallStats.incidentsChange))}%`} {t('executive.vsPreviousYear')}
                 </p>
               </div>
               {/* Total Requests */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">Total de Requests</h2>
-                <p className="text-4xl font-bold text-white mb-2">{overallStats.totalRequests}</p>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.totalRequests')}</h2>
+                <p className="text-4xl font-bold text-white mb-2">{formatNumber(overallStats.totalRequests)}</p>
                 <p className={`text-sm ${
                   overallStats.requestsChange <= 0 ? 'text-green-500' : 'text-red-500'
                 }`}>
-                  {overallStats.requestsChange === 0 ? '0.0%' : 
-                   `${overallStats.requestsChange <= 0 ? '↓' : '↑'} ${Math.abs(overallStats.requestsChange).toFixed(1)}%`} vs Ano Anterior
+                  {overallStats.requestsChange === 0 ? `${formatDecimal(0)}%` : 
+                   `${overallStats.requestsChange <= 0 ? '↓' : '↑'} ${formatDecimal(Math.abs(overallStats.requestsChange))}%`} {t('executive.vsPreviousYear')}
                 </p>
               </div>
               {/* SLA Compliance */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">SLA Global</h2>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.globalSla')}</h2>
                 <p className={`text-4xl font-bold mb-2 ${
                   overallStats.slaPercentage >= 95 ? 'text-green-500' :
                   overallStats.slaPercentage >= 85 ? 'text-yellow-500' : 'text-red-500'
                 }`}>
-                  {overallStats.slaPercentage.toFixed(1)}%
+                  {formatDecimal(overallStats.slaPercentage)}%
                 </p>
                 <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                   <div 
@@ -685,15 +678,18 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                 <p className={`text-sm mt-2 ${
                   overallStats.slaChange >= 0 ? 'text-green-500' : 'text-red-500'
                 }`}>
-                  {overallStats.slaChange >= 0 ? '↑' : '↓'} {Math.abs(overallStats.slaChange).toFixed(1)}pp vs Ano Anterior
+                  {overallStats.slaChange >= 0 ? '↑' : '↓'} {formatDecimal(Math.abs(overallStats.slaChange))}pp {t('executive.vsPreviousYear')}
                 </p>
               </div>
               {/* Proportion */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">Proporção</h2>
-                <p className="text-4xl font-bold text-white mb-2">{overallStats.total}</p>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.proportion')}</h2>
+                <p className="text-4xl font-bold text-white mb-2">{formatNumber(overallStats.total)}</p>
                 <p className="text-sm text-gray-400">
-                  {overallStats.incidentsPercentage.toFixed(0)}% incidentes • {overallStats.requestsPercentage.toFixed(0)}% requests
+                  {t('executive.split', {
+                    incidents: formatDecimal(overallStats.incidentsPercentage, 0),
+                    requests: formatDecimal(overallStats.requestsPercentage, 0)
+                  })}
                 </p>
               </div>
             </div>
@@ -703,7 +699,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                 className="flex items-center justify-between p-4 cursor-pointer"
                 onClick={() => toggleSection('monthly-variation')}
               >
-                <h2 className="text-xl font-semibold text-white">Variação Mensal</h2>
+                <h2 className="text-xl font-semibold text-white">{t('executive.monthlyVariation')}</h2>
                 {expandedSections.includes('monthly-variation') ? (
                   <ChevronUp className="h-5 w-5 text-gray-400" />
                 ) : (
@@ -725,7 +721,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                 className="flex items-center justify-between p-4 cursor-pointer"
                 onClick={() => toggleSection('monthly-location-variation')}
               >
-                <h2 className="text-xl font-semibold text-white">Variação Mensal por Localidade</h2>
+                <h2 className="text-xl font-semibold text-white">{t('executive.monthlyLocationVariation')}</h2>
                 {expandedSections.includes('monthly-location-variation') ? (
                   <ChevronUp className="h-5 w-5 text-gray-400" />
                 ) : (
@@ -741,10 +737,30 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                 />
               )}
             </div>
+            {/* Comparativo por Ferramenta de Origem */}
+            <div className="bg-[#151B2B] rounded-lg overflow-hidden">
+              <div 
+                className="flex items-center justify-between p-4 cursor-pointer"
+                onClick={() => toggleSection('source-system-comparison')}
+              >
+                <h2 className="text-xl font-semibold text-white">{t('executive.sourceComparison')}</h2>
+                {expandedSections.includes('source-system-comparison') ? (
+                  <ChevronUp className="h-5 w-5 text-gray-400" />
+                ) : (
+                  <ChevronDown className="h-5 w-5 text-gray-400" />
+                )}
+              </div>
+              {expandedSections.includes('source-system-comparison') && (
+                <SourceSystemComparison
+                  incidents={filteredData.incidents}
+                  requests={filteredData.requests}
+                />
+              )}
+            </div>
             {/* Volumetria Comparativa */}
             <div className="bg-[#151B2B] p-6 rounded-lg">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-semibold text-white">Volumetria Comparativa</h2>
+                <h2 className="text-xl font-semibold text-white">{t('executive.comparativeVolumetry')}</h2>
                 <div className="flex items-center gap-2">
                   <div className="flex bg-[#1C2333] rounded-lg p-1">
                     <button
@@ -752,7 +768,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                       className={`p-2 rounded-lg transition-colors ${
                         chartType === 'bar' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
                       }`}
-                      title="Gráfico de Barras"
+                      title={t('executive.barChart')}
                     >
                       <BarChart2 className="h-5 w-5" />
                     </button>
@@ -761,7 +777,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                       className={`p-2 rounded-lg transition-colors ${
                         chartType === 'line' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
                       }`}
-                      title="Gráfico de Linha"
+                      title={t('executive.lineChart')}
                     >
                       <LineChartIcon className="h-5 w-5" />
                     </button>
@@ -800,7 +816,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                         <Legend />
                         <Bar
                           dataKey="incidentsTotal"
-                          name="Incidentes"
+                          name={t('executive.incidents')}
                           fill={CHART_COLORS.incidents}
                           radius={[4, 4, 0, 0]}
                         >
@@ -847,7 +863,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                         <Line
                           type="monotone"
                           dataKey="incidentsTotal"
-                          name="Incidentes"
+                          name={t('executive.incidents')}
                           stroke={CHART_COLORS.incidents}
                           strokeWidth={2}
                           dot={{ fill: CHART_COLORS.incidents, r: 4 }}
@@ -871,7 +887,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
             {/* Distribuição por Localidade */}
             <div className="bg-[#151B2B] rounded-lg overflow-hidden">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-semibold text-white">Distribuição por Localidade</h2>
+                <h2 className="text-xl font-semibold text-white">{t('executive.locationDistribution')}</h2>
                 <div className="flex items-center gap-2">
                   <div className="flex bg-[#1C2333] rounded-lg p-1">
                     <button
@@ -879,7 +895,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                       className={`p-2 rounded-lg transition-colors ${
                         locationChartType === 'bar' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
                       }`}
-                      title="Gráfico de Barras"
+                      title={t('executive.barChart')}
                     >
                       <BarChart2 className="h-5 w-5" />
                     </button>
@@ -888,7 +904,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                       className={`p-2 rounded-lg transition-colors ${
                         locationChartType === 'pie' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
                       }`}
-                      title="Gráfico de Pizza"
+                      title={t('executive.pieChart')}
                     >
                       <PieChartIcon className="h-5 w-5" />
                     </button>
@@ -930,7 +946,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                               <Legend />
                               <Bar
                                 dataKey="incidents"
-                                name="Incidentes"
+                                name={t('executive.incidents')}
                                 fill={CHART_COLORS.incidents}
                                 stackId="stack"
                               />
@@ -993,7 +1009,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                             <p className="text-2xl font-bold text-white mb-2">{location.total}</p>
                             <div className="grid grid-cols-2 gap-2 text-sm">
                               <div>
-                                <span className="text-gray-400">Incidentes:</span>
+                                <span className="text-gray-400">{t('executive.incidents')}:</span>
                                 <span className="text-yellow-400 ml-2">{location.incidents}</span>
                                 <span className="text-gray-400 ml-1">
                                   ({filteredData.incidents.length > 0 
@@ -1002,7 +1018,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                                 </span>
                               </div>
                               <div>
-                                <span className="text-gray-400">Requests:</span>
+                                <span className="text-gray-400">{t('executive.requests')}:</span>
                                 <span className="text-blue-400 ml-2">{location.requests}</span>
                                 <span className="text-gray-400 ml-1">
                                   ({filteredData.requests.length > 0 
@@ -1017,14 +1033,14 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                     </>
                   ) : (
                     <div className="text-center py-8">
-                      <p className="text-gray-400">Nenhuma localidade encontrada no período selecionado.</p>
+                      <p className="text-gray-400">{t('executive.noLocations')}</p>
                     </div>
                   )}
 
                   {selectedLocation && (
                     <div className="bg-[#1C2333] p-4 rounded-lg">
                       <h3 className="text-lg font-medium text-white mb-4">
-                        Tendência: {selectedLocation}
+                        {t('executive.trend', { location: selectedLocation })}
                       </h3>
                       <div className="h-[300px]">
                         <ResponsiveContainer width="100%" height="100%">
@@ -1046,7 +1062,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                             <Legend />
                             <Bar
                               dataKey="incidents"
-                              name="Incidentes"
+                              name={t('executive.incidents')}
                               fill={CHART_COLORS.incidents}
                               radius={[4, 4, 0, 0]}
                             />
@@ -1070,7 +1086,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                 className="flex items-center justify-between p-4 cursor-pointer"
                 onClick={() => toggleSection('ai-predictive')}
               >
-                <h2 className="text-xl font-semibold text-white">Análise Preditiva - IA</h2>
+                <h2 className="text-xl font-semibold text-white">{t('executive.predictive')}</h2>
                 {expandedSections.includes('ai-predictive') ? (
                   <ChevronUp className="h-5 w-5 text-gray-400" />
                 ) : (
@@ -1088,68 +1104,68 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {/* Período Selecionado */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">Período Selecionado</h2>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.selectedPeriod')}</h2>
                 <p className="text-xl font-bold text-white mb-2">
                   {formatDateForDisplay(startDate)} - {formatDateForDisplay(endDate)}
                 </p>
                 <div className="space-y-4">
                   <div className="flex justify-between items-center">
-                    <span className="text-gray-400">Incidentes</span>
-                    <span className="text-white">{overallStats.totalIncidents}</span>
+                    <span className="text-gray-400">{t('executive.incidents')}</span>
+                    <span className="text-white">{formatNumber(overallStats.totalIncidents)}</span>
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-gray-400">Requests</span>
-                    <span className="text-white">{overallStats.totalRequests}</span>
+                    <span className="text-gray-400">{t('executive.requests')}</span>
+                    <span className="text-white">{formatNumber(overallStats.totalRequests)}</span>
                   </div>
                 </div>
               </div>
               {/* Variação vs Ano Anterior */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">Variação vs Ano Anterior</h2>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.variationVsPreviousYear')}</h2>
                 <div className="space-y-4">
                   <div>
                     <div className="flex justify-between items-center">
-                      <span className="text-gray-400">Incidentes</span>
+                      <span className="text-gray-400">{t('executive.incidents')}</span>
                       <span className={`font-medium ${
                         overallStats.incidentsChange <= 0 ? 'text-green-500' : 'text-red-500'
                       }`}>
-                        {overallStats.incidentsChange === 0 ? '0.0%' : 
-                         `${overallStats.incidentsChange <= 0 ? '↓' : '↑'} ${Math.abs(overallStats.incidentsChange).toFixed(1)}%`}
+                        {overallStats.incidentsChange === 0 ? `${formatDecimal(0)}%` : 
+                         `${overallStats.incidentsChange <= 0 ? '↓' : '↑'} ${formatDecimal(Math.abs(overallStats.incidentsChange))}%`}
                       </span>
                     </div>
                     <p className="text-xs text-gray-500">
-                      {overallStats.previousPeriodIncidents} incidentes no período anterior
+                      {t('executive.previousIncidents', { count: formatNumber(overallStats.previousPeriodIncidents) })}
                     </p>
                   </div>
                   <div>
                     <div className="flex justify-between items-center">
-                      <span className="text-gray-400">Requests</span>
+                      <span className="text-gray-400">{t('executive.requests')}</span>
                       <span className={`font-medium ${
                         overallStats.requestsChange <= 0 ? 'text-green-500' : 'text-red-500'
                       }`}>
-                        {overallStats.requestsChange === 0 ? '0.0%' : 
-                         `${overallStats.requestsChange <= 0 ? '↓' : '↑'} ${Math.abs(overallStats.requestsChange).toFixed(1)}%`}
+                        {overallStats.requestsChange === 0 ? `${formatDecimal(0)}%` : 
+                         `${overallStats.requestsChange <= 0 ? '↓' : '↑'} ${formatDecimal(Math.abs(overallStats.requestsChange))}%`}
                       </span>
                     </div>
                     <p className="text-xs text-gray-500">
-                      {overallStats.previousPeriodRequests} requests no período anterior
+                      {t('executive.previousRequests', { count: formatNumber(overallStats.previousPeriodRequests) })}
                     </p>
                   </div>
                 </div>
               </div>
               {/* SLA Compliance */}
               <div className="bg-[#151B2B] p-6 rounded-lg">
-                <h2 className="text-gray-400 text-sm mb-4">SLA Compliance</h2>
+                <h2 className="text-gray-400 text-sm mb-4">{t('executive.slaCompliance')}</h2>
                 <p className={`text-2xl font-bold mb-2 ${
                   overallStats.slaPercentage >= 95 ? 'text-green-500' :
                   overallStats.slaPercentage >= 85 ? 'text-yellow-500' : 'text-red-500'
                 }`}>
-                  {overallStats.slaPercentage.toFixed(1)}%
+                  {formatDecimal(overallStats.slaPercentage)}%
                 </p>
                 <p className={`text-sm ${
                   overallStats.slaChange >= 0 ? 'text-green-500' : 'text-red-500'
                 }`}>
-                  {overallStats.slaChange >= 0 ? '↑' : '↓'} {Math.abs(overallStats.slaChange).toFixed(1)}pp vs Ano Anterior
+                  {overallStats.slaChange >= 0 ? '↑' : '↓'} {formatDecimal(Math.abs(overallStats.slaChange))}pp {t('executive.vsPreviousYear')}
                 </p>
               </div>
             </div>
@@ -1157,18 +1173,18 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
             <div className="w-full mt-8 p-0">
               <div className="bg-[#151B2B] rounded-lg shadow-lg p-6">
                 <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
-                  <PieChartIcon className="w-6 h-6 text-[#3B82F6]" /> Indicadores por Associado
+                  <PieChartIcon className="w-6 h-6 text-[#3B82F6]" /> {t('executive.associatedIndicators')}
                 </h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                   {/* Gráfico por StringAssociado */}
                   <div className="bg-[#1C2333] rounded-lg shadow p-6 flex flex-col items-start min-h-[340px]">
-                    <h3 className="text-lg font-semibold text-white mb-4">Chamados por String Associado</h3>
+                    <h3 className="text-lg font-semibold text-white mb-4">{t('executive.byStringAssociado')}</h3>
                     <ResponsiveContainer width="100%" height={260}>
                       <BarChart
                         data={(function() {
                           const counts: Record<string, number> = {};
                           filteredData.incidents.forEach(inc => {
-                            const key = inc.StringAssociado || 'Não informado';
+                            const key = inc.StringAssociado || t('executive.notInformed');
                             counts[key] = (counts[key] || 0) + 1;
                           });
                           const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
@@ -1176,7 +1192,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                           const outros = sorted.slice(10);
                           const outrosTotal = outros.reduce((sum, [, v]) => sum + v, 0);
                           const data = top.map(([name, value]) => ({ name, value }));
-                          if (outrosTotal > 0) data.push({ name: 'Outros', value: outrosTotal });
+                          if (outrosTotal > 0) data.push({ name: t('executive.others'), value: outrosTotal });
                           return data;
                         })()}
                         layout="vertical"
@@ -1187,7 +1203,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                         <YAxis dataKey="name" type="category" tick={{ fill: '#F3F4F6', fontSize: 13 }} width={120} />
                         <Tooltip content={({ active, payload }) => active && payload && payload.length ? (
                           <div className="bg-[#232B41] p-2 rounded shadow text-white">
-                            <span className="font-bold">{payload[0].payload.name}</span>: {payload[0].payload.value} chamados
+                            <span className="font-bold">{payload[0].payload.name}</span>: {t('analysis.tickets', { count: payload[0].payload.value })}
                           </div>
                         ) : null} />
                         <Bar dataKey="value" fill="#F59E0B" radius={[0, 6, 6, 0]}>
@@ -1198,14 +1214,14 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                   </div>
                   {/* Gráfico por FuncaoAssociada */}
                   <div className="bg-[#1C2333] rounded-lg shadow p-6 flex flex-col items-start min-h-[340px]">
-                    <h3 className="text-lg font-semibold text-white mb-4">Chamados por Função Associada</h3>
+                    <h3 className="text-lg font-semibold text-white mb-4">{t('executive.byFuncaoAssociada')}</h3>
                     <div className="flex flex-row w-full h-[260px] items-center">
                       <ResponsiveContainer width="60%" height="100%">
                         <PieChart>
                           {(function() {
                             const counts: Record<string, number> = {};
                             filteredData.incidents.forEach(inc => {
-                              const key = inc.FuncaoAssociada || 'Não informado';
+                              const key = inc.FuncaoAssociada || t('executive.notInformed');
                               counts[key] = (counts[key] || 0) + 1;
                             });
                             const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
@@ -1213,7 +1229,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                             const outros = sorted.slice(10);
                             const outrosTotal = outros.reduce((sum, [, v]) => sum + v, 0);
                             const data = top.map(([name, value]) => ({ name, value }));
-                            if (outrosTotal > 0) data.push({ name: 'Outros', value: outrosTotal });
+                            if (outrosTotal > 0) data.push({ name: t('executive.others'), value: outrosTotal });
                             return (
                               <Pie
                                 data={data}
@@ -1232,7 +1248,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                           })()}
                           <Tooltip content={({ active, payload }) => active && payload && payload.length ? (
                             <div className="bg-[#232B41] p-2 rounded shadow text-white">
-                              <span className="font-bold">{payload[0].payload.name}</span>: {payload[0].payload.value} chamados
+                              <span className="font-bold">{payload[0].payload.name}</span>: {t('analysis.tickets', { count: payload[0].payload.value })}
                             </div>
                           ) : null} />
                         </PieChart>
@@ -1242,7 +1258,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                         {(function() {
                           const counts: Record<string, number> = {};
                           filteredData.incidents.forEach(inc => {
-                            const key = inc.FuncaoAssociada || 'Não informado';
+                            const key = inc.FuncaoAssociada || t('executive.notInformed');
                             counts[key] = (counts[key] || 0) + 1;
                           });
                           const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
@@ -1250,7 +1266,7 @@ export function ExecutiveDashboard({ incidents, requests, onBack }: ExecutiveDas
                           const outros = sorted.slice(10);
                           const outrosTotal = outros.reduce((sum, [, v]) => sum + v, 0);
                           const data = top.map(([name, value]) => ({ name, value }));
-                          if (outrosTotal > 0) data.push({ name: 'Outros', value: outrosTotal });
+                          if (outrosTotal > 0) data.push({ name: t('executive.others'), value: outrosTotal });
                           return data.map((entry, idx) => (
                             <div key={entry.name} className="flex items-center gap-2 mb-2">
                               <span className="inline-block w-3 h-3 rounded-full" style={{ background: ["#3B82F6", "#6366F1", "#F59E0B", "#10B981", "#EF4444", "#FBBF24"][idx % 6] }}></span>
@@ -1,241 +1,42 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Search, Calendar, Filter, ChevronLeft, ChevronRight, X, AlertCircle, Info, BarChart3, FileSpreadsheet, Download } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import * as XLSX from 'xlsx';
 import { Incident } from '../types/incident';
 import { Request } from '../types/request';
+import { ColumnMappingProfile, DataQualityReport, DateColumnDetection, ImportProgress, IngestionTarget, SpreadsheetData, ValidationError } from '../types/ingestion';
 import Fuse from 'fuse.js';
 import { TemplateGenerator } from './TemplateGenerator';
+import { MappingProfileSelector } from './MappingProfileSelector';
+import { DataQualityReportCard } from './DataQualityReportCard';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { IMPORT_FILE_ACCEPT, MANUAL_PROFILE_ID } from '../utils/ingestionUtils';
+import { ImportSession, createImportSession, formatImportProgress, isImportCancelled } from '../utils/importSession';
+import { getSelectedProfile } from '../utils/mappingProfileUtils';
+import { t } from '../utils/i18nUtils';
 
 interface FileUploadProps {
   onDataLoaded: (data: Incident[] | Request[]) => void;
+  type?: IngestionTarget;
 }
 
-interface ValidationError {
-  row: number;
-  column: string;
-  value: string;
-  reason: string;
-}
-
-export function FileUpload({ onDataLoaded }: FileUploadProps) {
+export function FileUpload({ onDataLoaded, type = 'incidents' }: FileUploadProps) {
   const [error, setError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
   const [showTemplateGenerator, setShowTemplateGenerator] = useState(false);
-
-  const columnMappings = {
-    number: ['Number', 'Incident Number', 'ID', 'Reference', 'IncidentNumber', 'Número', 'Numero', 'Chamado', 'Ticket'],
-    opened: ['Opened', 'Created Date', 'Open Date', 'Start Date', 'Created', 'Data Abertura', 'Data', 'Data Criação', 'Início'],
-    description: ['Short description', 'Description', 'Details', 'Summary', 'Descrição', 'Descricao', 'Resumo', 'C'],
-    caller: ['Request item [Catalog Task] Requested for Name', 'Requested for Name', 'Caller', 'Reported By', 'Created By', 'Requestor', 'Solicitante', 'Usuario', 'Usuário', 'D'],
-    priority: ['Priority', 'Incident Priority', 'Urgency', 'Prioridade', 'Urgência'],
-    state: ['State', 'Status', 'Current State', 'Estado', 'Situação'],
-    category: ['Category', 'Incident Category', 'Type', 'Categoria', 'Tipo'],
-    subcategory: ['Subcategory', 'Sub Category', 'Sub-Category', 'Subcategoria', 'Sub-Categoria'],
-    assignmentGroup: ['Assignment group', 'Assigned Group', 'Team', 'Grupo', 'Grupo Atribuído', 'G'],
-    assignedTo: ['Assigned to', 'Assigned To', 'Owner', 'Atribuído para', 'Atribuido para', 'Responsável'],
-    updated: ['Updated', 'Last Modified Date', 'Modified Date', 'Data Atualização', 'Última Atualização'],
-    updatedBy: ['Updated by', 'Last Modified By', 'Modified By', 'Atualizado por', 'Modificado por'],
-    businessImpact: ['Business impact', 'Impact', 'Severity', 'Impacto', 'Severidade'],
-    responseTime: ['Response Time', 'Resolution Time', 'Time to Resolve', 'Tempo Resposta', 'Tempo de Resolução'],
-    location: ['Location', 'Site', 'Local', 'Localidade', 'Localização'],
-    commentsAndWorkNotes: [
-      'Comments and Work notes',
-      'Work notes',
-      'Additional comments',
-      'Comments',
-      'Work Notes',
-      'Comentários',
-      'Notas de Trabalho',
-      'Observações',
-      'Notas',
-      'Comentarios',
-      'Notas de trabalho'
-    ]
-  };
+  const [profile, setProfile] = useState<ColumnMappingProfile>(() => getSelectedProfile(type));
+  const [unmappedColumns, setUnmappedColumns] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: SpreadsheetData; totalRows: number; dateDetections: Record<string, DateColumnDetection> } | null>(null);
+  const sessionRef = useRef<ImportSession | null>(null);
+  const [qualityReport, setQualityReport] = useState<{ report: DataQualityReport; sourceName: string } | null>(null);
 
   const resetErrors = () => {
     setError(null);
     setValidationErrors([]);
-    setProgress(0);
-  };
-
-  const findColumnValue = (row: any, mappings: string[]): string => {
-    // First try exact match
-    for (const mapping of mappings) {
-      if (row[mapping] !== undefined) {
-        return String(row[mapping] || '').trim();
-      }
-    }
-    
-    // Then try case-insensitive match
-    const rowKeys = Object.keys(row);
-    for (const mapping of mappings) {
-      const key = rowKeys.find(k => k.toLowerCase() === mapping.toLowerCase());
-      if (key && row[key] !== undefined) {
-        return String(row[key] || '').trim();
-      }
-    }
-    
-    return '';
-  };
-
-  const validatePriority = (priority: string): string | null => {
-    if (!priority) return null;
-
-    const p = priority.toLowerCase().trim();
-    if (p.includes('p1') || p.includes('1') || p.includes('critical') || p.startsWith('1 -')) {
-      return 'P1';
-    }
-    if (p.includes('p2') || p.includes('2') || p.includes('high') || p.startsWith('2 -')) {
-      return 'P2';
-    }
-    if (p.includes('p3') || p.includes('3') || p.includes('medium') || p.startsWith('3 -')) {
-      return 'P3';
-    }
-    if (p.includes('p4') || p.includes('4') || p.includes('low') || p.startsWith('4 -')) {
-      return 'P4';
-    }
-
-    return null;
-  };
-
-  const validateItem = (item: Incident | Request, rowIndex: number): ValidationError[] => {
-    const errors: ValidationError[] = [];
-
-    // Validate Number
-    if (!item.Number) {
-      errors.push({
-        row: rowIndex,
-        column: 'Number',
-        value: '',
-        reason: 'Número do chamado é obrigatório'
-      });
-    }
-
-    // Validate Opened date
-    if (!item.Opened) {
-      errors.push({
-        row: rowIndex,
-        column: 'Opened',
-        value: '',
-        reason: 'Data de abertura é obrigatória'
-      });
-    } else {
-      try {
-        const date = new Date(item.Opened);
-        if (isNaN(date.getTime())) {
-          errors.push({
-            row: rowIndex,
-            column: 'Opened',
-            value: item.Opened,
-            reason: 'Data de abertura inválida'
-          });
-        }
-      } catch (e) {
-        errors.push({
-          row: rowIndex,
-          column: 'Opened',
-          value: item.Opened,
-          reason: 'Data de abertura inválida'
-        });
-      }
-    }
-
-    // Validate Priority format
-    if (item.Priority) {
-      const validPriority = validatePriority(item.Priority);
-      if (!validPriority) {
-        errors.push({
-          row: rowIndex,
-          column: 'Priority',
-          value: item.Priority,
-          reason: 'Prioridade inválida (use P1, P2, P3 ou P4)'
-        });
-      } else {
-        item.Priority = validPriority;
-      }
-    }
-
-    // Validate State format
-    if (item.State) {
-      const normalizedState = item.State.toLowerCase().trim();
-      if (['closed', 'resolved', 'cancelled', 'fechado', 'resolvido', 'cancelado'].includes(normalizedState)) {
-        item.State = normalizedState.charAt(0).toUpperCase() + normalizedState.slice(1);
-      }
-    }
-
-    return errors;
-  };
-
-  const processExcelData = async (data: any[]): Promise<Incident[] | Request[]> => {
-    if (!data || !Array.isArray(data) || data.length === 0) {
-      throw new Error('Arquivo vazio ou formato inválido');
-    }
-
-    const processedItems: (Incident | Request)[] = [];
-    const errors: ValidationError[] = [];
-    const totalRows = data.length;
-    let validRows = 0;
-    
-    for (let i = 0; i < data.length; i++) {
-      const row = data[i];
-      setProgress(Math.round((i / totalRows) * 100));
-
-      if (!row || typeof row !== 'object' || Object.keys(row).length === 0) {
-        errors.push({
-          row: i + 2,
-          column: 'all',
-          value: '',
-          reason: 'Linha vazia ou inválida'
-        });
-        continue;
-      }
-
-      const item = {
-        Number: findColumnValue(row, columnMappings.number),
-        Opened: findColumnValue(row, columnMappings.opened),
-        ShortDescription: findColumnValue(row, columnMappings.description),
-        Caller: findColumnValue(row, columnMappings.caller),
-        Priority: findColumnValue(row, columnMappings.priority),
-        State: findColumnValue(row, columnMappings.state),
-        Category: findColumnValue(row, columnMappings.category),
-        Subcategory: findColumnValue(row, columnMappings.subcategory),
-        AssignmentGroup: findColumnValue(row, columnMappings.assignmentGroup),
-        AssignedTo: findColumnValue(row, columnMappings.assignedTo),
-        Updated: findColumnValue(row, columnMappings.updated),
-        UpdatedBy: findColumnValue(row, columnMappings.updatedBy),
-        BusinessImpact: findColumnValue(row, columnMappings.businessImpact),
-        ResponseTime: findColumnValue(row, columnMappings.responseTime) || '0',
-        Location: findColumnValue(row, columnMappings.location),
-        CommentsAndWorkNotes: findColumnValue(row, columnMappings.commentsAndWorkNotes)
-      };
-
-      const rowErrors = validateItem(item, i + 2);
-      
-      if (rowErrors.length === 0) {
-        processedItems.push(item);
-        validRows++;
-      } else {
-        errors.push(...rowErrors);
-      }
-
-      if (i % 100 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
-    }
-
-    if (errors.length > 0) {
-      setValidationErrors(errors);
-    }
-
-    if (validRows === 0) {
-      throw new Error('Nenhum chamado válido encontrado no arquivo. Verifique se as colunas estão corretas.');
-    }
-
-    return processedItems;
+    setUnmappedColumns([]);
+    setQualityReport(null);
+    setProgress(null);
   };
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
@@ -244,91 +45,76 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
     setIsProcessing(true);
 
     if (!file) {
-      setError('Nenhum arquivo selecionado');
+      setError(t('upload.noFile'));
       setIsProcessing(false);
       return;
     }
 
-    try {
-      const data = await new Promise<any[]>((resolve, reject) => {
-        const reader = new FileReader();
-        
-        reader.onload = async (event) => {
-          try {
-            const binaryStr = event.target?.result;
-            const workbook = XLSX.read(binaryStr, { type: 'binary' });
-            
-            if (!workbook.SheetNames.length) {
-              throw new Error('Arquivo Excel vazio');
-            }
-
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            
-            const rawData = XLSX.utils.sheet_to_json(worksheet, {
-              raw: false,
-              defval: '',
-              header: 1
-            });
+    const session = createImportSession();
+    sessionRef.current = session;
 
-            if (!rawData || !Array.isArray(rawData) || rawData.length <= 1) {
-              throw new Error('Arquivo não contém dados válidos');
-            }
-
-            const headers = rawData[0];
-            if (!Array.isArray(headers) || headers.length === 0) {
-              throw new Error('Cabeçalhos não encontrados no arquivo');
-            }
+    try {
+      const { data, totalRows, dateDetections } = await session.parse([file], setProgress);
+      if (totalRows === 0) {
+        throw new Error(t('import.error.emptyFile'));
+      }
+      // O assistente de mapeamento confirma as colunas antes do processamento
+      setPendingImport({ fileName: file.name, data, totalRows, dateDetections });
+    } catch (error) {
+      session.cancel();
+      if (!isImportCancelled(error)) {
+        setError(error instanceof Error ? error.message : t('import.error.processFailed'));
+      }
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  }, []);
 
-            // Validate required columns
-            const foundColumns = headers.map(h => String(h).toLowerCase());
-            const requiredColumns = ['number', 'opened'];
-            const missingColumns = requiredColumns.filter(col => 
-              !columnMappings[col as keyof typeof columnMappings].some(mapping => 
-                foundColumns.includes(mapping.toLowerCase())
-              )
-            );
+  const handleCancelImport = () => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    setPendingImport(null);
+  };
 
-            if (missingColumns.length > 0) {
-              throw new Error(`Colunas obrigatórias não encontradas: ${missingColumns.join(', ')}`);
-            }
+  const handleMappingConfirmed = async (mappingProfile: ColumnMappingProfile) => {
+    const session = sessionRef.current;
+    if (!pendingImport || !session) return;
+    const sourceName = pendingImport.fileName;
+    setPendingImport(null);
+    if (mappingProfile.id !== MANUAL_PROFILE_ID) {
+      setProfile(mappingProfile);
+    }
+    setIsProcessing(true);
 
-            const data = rawData.slice(1).map((row: any) => {
-              const obj: any = {};
-              headers.forEach((header: string, index: number) => {
-                if (header) {
-                  obj[header] = row[index] || '';
-                }
-              });
-              return obj;
-            });
+    try {
+      const result = await session.process(type, mappingProfile, setProgress);
+      setQualityReport({ report: result.quality, sourceName });
 
-            resolve(data);
-          } catch (error) {
-            reject(error);
-          }
-        };
+      if (result.errors.length > 0) {
+        setValidationErrors(result.errors);
+      }
+      setUnmappedColumns(result.unmappedColumns);
 
-        reader.onerror = () => reject(new Error('Erro ao ler o arquivo'));
-        reader.readAsBinaryString(file);
-      });
+      if (result.items.length === 0) {
+        throw new Error(t('upload.noValidTickets'));
+      }
 
-      const processedData = await processExcelData(data);
-      onDataLoaded(processedData);
+      onDataLoaded(result.items as Incident[] | Request[]);
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Erro ao processar o arquivo Excel');
+      if (!isImportCancelled(error)) {
+        setError(error instanceof Error ? error.message : t('import.error.processFailed'));
+      }
     } finally {
+      sessionRef.current = null;
       setIsProcessing(false);
-      setProgress(0);
+      setProgress(null);
     }
-  }, [onDataLoaded]);
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({ 
     onDrop,
-    accept: {
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls']
-    },
+    accept: IMPORT_FILE_ACCEPT,
     maxFiles: 1
   });
 
@@ -347,12 +133,12 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
           />
           <h1 className="text-3xl font-bold text-white mb-1">IT Operations Dashboard</h1>
           <p className="text-gray-400">
-            Conectando Inteligência e Tecnologia
+            {t('upload.tagline')}
           </p>
         </div>
         <div className="bg-[#151B2B] p-6 rounded-lg">
           <p className="text-gray-300 leading-relaxed">
-            Plataforma para análise e monitoramento operacional de TI, baseado em dados estruturados.
+            {t('upload.platformDescription')}
           </p>
         </div>
       </div>
@@ -361,13 +147,20 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
         <div className="text-center space-y-4">
           <FileSpreadsheet className="h-16 w-16 text-indigo-500 mx-auto" />
           <h2 className="text-xl font-semibold text-white">
-            Importar Chamados
+            {t('upload.importTickets')}
           </h2>
           <p className="text-gray-400">
-            Arraste e solte seu arquivo Excel ou clique para selecionar
+            {t('upload.dropHint')}
           </p>
         </div>
 
+        <MappingProfileSelector
+          target={type}
+          value={profile}
+          onChange={setProfile}
+          disabled={isProcessing}
+        />
+
         <div
           {...getRootProps()}
           className={`
@@ -378,26 +171,38 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
         >
           <input {...getInputProps()} disabled={isProcessing} />
           {isDragActive ? (
-            <p className="text-indigo-400">Solte o arquivo Excel aqui...</p>
+            <p className="text-indigo-400">{t('upload.dropHere')}</p>
           ) : (
             <div>
               <p className="text-gray-300">
-                {isProcessing ? `Processando... ${progress}%` : 'Clique ou arraste seu arquivo Excel'}
+                {isProcessing ? formatImportProgress(progress) : t('upload.clickOrDrag')}
               </p>
               <p className="text-sm text-gray-500 mt-2">
-                Formatos suportados: .xlsx e .xls
+                {t('upload.supportedFormats')}
               </p>
             </div>
           )}
         </div>
 
+        {isProcessing && (
+          <div className="flex justify-center">
+            <button
+              onClick={handleCancelImport}
+              className="flex items-center gap-2 px-4 py-2 text-red-400 hover:text-red-300 transition-colors"
+            >
+              <X className="h-4 w-4" />
+              {t('upload.cancelImport')}
+            </button>
+          </div>
+        )}
+
         <div className="flex justify-center">
           <button
             onClick={handleDownloadTemplate}
             className="flex items-center gap-2 px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg transition-colors"
           >
             <Download className="h-5 w-5 text-gray-600" />
-            <span>Baixar Modelo de Planilha</span>
+            <span>{t('upload.downloadSpreadsheetTemplate')}</span>
           </button>
         </div>
 
@@ -407,19 +212,19 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
               <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
               <div>
                 <h3 className="text-sm font-medium text-red-400">
-                  Erro ao carregar arquivo
+                  {t('upload.errorTitle')}
                 </h3>
                 <p className="text-sm text-red-300 mt-1">
                   {error}
                 </p>
                 <div className="mt-2">
                   <p className="text-sm text-red-400">
-                    Verifique se o arquivo:
+                    {t('upload.errorChecklist')}
                   </p>
                   <ul className="list-disc list-inside text-sm text-red-300 mt-1 space-y-1">
-                    <li>É um arquivo Excel válido (.xlsx ou .xls)</li>
-                    <li>Contém as colunas necessárias (Número, Data, Descrição, etc.)</li>
-                    <li>Possui dados válidos nas linhas</li>
+                    <li>{t('upload.errorCheckFormat')}</li>
+                    <li>{t('upload.errorCheckColumns')}</li>
+                    <li>{t('upload.errorCheckRows')}</li>
                   </ul>
                 </div>
               </div>
@@ -427,20 +232,35 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
           </div>
         )}
 
+        {qualityReport && (
+          <DataQualityReportCard report={qualityReport.report} sourceName={qualityReport.sourceName} />
+        )}
+
+        {unmappedColumns.length > 0 && (
+          <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+            <div className="flex gap-3">
+              <Info className="h-5 w-5 text-blue-400 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-blue-300">
+                {t('upload.unmappedColumns', { columns: unmappedColumns.join(', ') })}
+              </p>
+            </div>
+          </div>
+        )}
+
         {validationErrors.length > 0 && (
           <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
             <div className="flex gap-3">
               <Info className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
               <div>
                 <h3 className="text-sm font-medium text-yellow-400">
-                  Avisos de validação
+                  {t('upload.validationWarnings')}
                 </h3>
                 <div className="mt-2 max-h-40 overflow-auto">
                   <ul className="list-disc list-inside text-sm text-yellow-300 space-y-1">
                     {validationErrors.map((error, index) => (
                       <li key={index}>
-                        Linha {error.row}: {error.reason} 
-                        {error.value && ` (valor: ${error.value})`}
+                        {t('upload.rowError', { row: error.row, reason: error.reason })}
+                        {error.value && t('upload.rowValue', { value: error.value })}
                       </li>
                     ))}
                   </ul>
@@ -455,15 +275,28 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
         <div className="flex items-center gap-3">
           <Info className="h-5 w-5 text-blue-400" />
           <p className="text-blue-400">
-            Os arquivos devem estar no formato Excel (.xlsx ou .xls)
+            {t('upload.acceptedFormatsShort')}
           </p>
         </div>
       </div>
 
+      {pendingImport && (
+        <ColumnMappingWizard
+          target={type}
+          fileName={pendingImport.fileName}
+          data={pendingImport.data}
+          totalRows={pendingImport.totalRows}
+          dateDetections={pendingImport.dateDetections}
+          initialProfile={profile}
+          onConfirm={handleMappingConfirmed}
+          onCancel={handleCancelImport}
+        />
+      )}
+
       {/* Template Generator */}
       {showTemplateGenerator && (
         <TemplateGenerator 
-          type="incidents" 
+          type={type} 
           onGenerated={() => setShowTemplateGenerator(false)} 
         />
       )}
@@ -1,340 +1,155 @@
-import React, { useState, useCallback } from 'react';
-import { FileSpreadsheet, AlertCircle, Info, BarChart3, FileText, ArrowRight, Check, Loader2 } from 'lucide-react';
+import React, { useState, useCallback, useRef } from 'react';
+import { FileSpreadsheet, AlertCircle, Info, BarChart3, FileText, ArrowRight, Check, Plus, GitMerge } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
-import * as XLSX from 'xlsx';
 import { Incident } from '../types/incident';
 import { Request } from '../types/request';
+import { ColumnMappingProfile, DataQualityReport, DateColumnDetection, ImportProgress, MergeSummary, SpreadsheetData, ValidationError } from '../types/ingestion';
 import { TemplateDownload } from './TemplateDownload';
+import { MappingProfileSelector } from './MappingProfileSelector';
+import { DataQualityReportCard } from './DataQualityReportCard';
+import { ColumnMappingWizard } from './ColumnMappingWizard';
+import { IMPORT_FILE_ACCEPT, MANUAL_PROFILE_ID, mergeRecordsByNumber } from '../utils/ingestionUtils';
+import { ImportSession, createImportSession, formatImportProgress, getImportPercent, isImportCancelled } from '../utils/importSession';
+import { getSelectedProfile } from '../utils/mappingProfileUtils';
+import { formatNumber, t } from '../utils/i18nUtils';
 
 interface FileUploadSelectorProps {
-  onSelectIncidents: (data: Incident[]) => void;
-  onSelectRequests: (data: Request[]) => void;
+  onSelectIncidents: (data: Incident[], sourceFiles: string[]) => void;
+  onSelectRequests: (data: Request[], sourceFiles: string[]) => void;
 }
 
 export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: FileUploadSelectorProps) {
   const [selectedType, setSelectedType] = useState<'incidents' | 'requests' | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
   
   // Track the loading status of both data types
   const [incidentsLoaded, setIncidentsLoaded] = useState(false);
   const [requestsLoaded, setRequestsLoaded] = useState(false);
   const [incidentsData, setIncidentsData] = useState<Incident[]>([]);
   const [requestsData, setRequestsData] = useState<Request[]>([]);
+  const [incidentProfile, setIncidentProfile] = useState<ColumnMappingProfile>(() => getSelectedProfile('incidents'));
+  const [requestProfile, setRequestProfile] = useState<ColumnMappingProfile>(() => getSelectedProfile('requests'));
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [unmappedColumns, setUnmappedColumns] = useState<string[]>([]);
+  const [incidentFiles, setIncidentFiles] = useState<string[]>([]);
+  const [requestFiles, setRequestFiles] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; fileNames: string[]; data: SpreadsheetData; totalRows: number; dateDetections: Record<string, DateColumnDetection> } | null>(null);
+  const sessionRef = useRef<ImportSession | null>(null);
+  const [mergeSummary, setMergeSummary] = useState<MergeSummary | null>(null);
+  const [qualityReport, setQualityReport] = useState<{ report: DataQualityReport; sourceName: string } | null>(null);
 
   const handleTypeSelect = (type: 'incidents' | 'requests') => {
     setSelectedType(type);
     setError(null);
-    setProgress(0);
+    setProgress(null);
   };
 
-  const processIncidentData = async (data: any[]): Promise<Incident[]> => {
-    // Column mappings for incident data
-    const columnMappings = {
-      number: ['Number', 'Incident Number', 'ID', 'Reference', 'IncidentNumber', 'Número', 'Numero', 'Chamado', 'Ticket'],
-      opened: ['Opened', 'Created Date', 'Open Date', 'Start Date', 'Created', 'Data Abertura', 'Data', 'Data Criação', 'Início'],
-      description: ['Short description', 'Description', 'Details', 'Summary', 'Descrição', 'Descricao', 'Resumo', 'C'],
-      caller: ['Request item [Catalog Task] Requested for Name', 'Requested for Name', 'Caller', 'Reported By', 'Created By', 'Requestor', 'Solicitante', 'Usuario', 'Usuário', 'D'],
-      priority: ['Priority', 'Incident Priority', 'Urgency', 'Prioridade', 'Urgência'],
-      state: ['State', 'Status', 'Current State', 'Estado', 'Situação'],
-      category: ['Category', 'Incident Category', 'Type', 'Categoria', 'Tipo'],
-      subcategory: ['Subcategory', 'Sub Category', 'Sub-Category', 'Subcategoria', 'Sub-Categoria'],
-      assignmentGroup: ['Assignment group', 'Assigned Group', 'Team', 'Grupo', 'Grupo Atribuído', 'G'],
-      assignedTo: ['Assigned to', 'Assigned To', 'Owner', 'Atribuído para', 'Atribuido para', 'Responsável'],
-      updated: ['Updated', 'Last Modified Date', 'Modified Date', 'Data Atualização', 'Última Atualização'],
-      updatedBy: ['Updated by', 'Last Modified By', 'Modified By', 'Atualizado por', 'Modificado por'],
-      businessImpact: ['Business impact', 'Impact', 'Severity', 'Impacto', 'Severidade'],
-      responseTime: ['Response Time', 'Resolution Time', 'Time to Resolve', 'Tempo Resposta', 'Tempo de Resolução'],
-      location: ['Location', 'Site', 'Local', 'Localidade', 'Localização'],
-      commentsAndWorkNotes: [
-        'Comments and Work notes',
-        'Work notes',
-        'Additional comments',
-        'Comments',
-        'Work Notes',
-        'Comentários',
-        'Notas de Trabalho',
-        'Observações',
-        'Notas',
-        'Comentarios',
-        'Notas de trabalho'
-      ]
-    };
+  const processImportFiles = async (files: File[]) => {
+    const session = createImportSession();
+    sessionRef.current = session;
 
-    const findColumnValue = (row: any, mappings: string[]): string => {
-      // First try exact match
-      for (const mapping of mappings) {
-        if (row[mapping] !== undefined) {
-          return String(row[mapping] || '').trim();
-        }
-      }
-      
-      // Then try case-insensitive match
-      const rowKeys = Object.keys(row);
-      for (const mapping of mappings) {
-        const key = rowKeys.find(k => k.toLowerCase() === mapping.toLowerCase());
-        if (key && row[key] !== undefined) {
-          return String(row[key] || '').trim();
-        }
-      }
-      
-      return '';
-    };
-
-    const totalRows = data.length;
-    const processedIncidents: Incident[] = [];
-    
-    for (let i = 0; i < totalRows; i++) {
-      const row = data[i];
-      setProgress(Math.round(((i + 1) / totalRows) * 100));
-      
-      if (!row || typeof row !== 'object' || Object.keys(row).length === 0) {
-        continue;
-      }
-
-      // Sanitização das novas colunas
-      const sanitize = (value: string) => {
-        if (!value) return '';
-        return String(value)
-          .replace(/[\r\n\t]+/g, ' ')
-          .replace(/["'`´]/g, '')
-          .replace(/[^\w\sÀ-ÿ-]/g, '') // Mantém letras, números, espaços e acentuação
-          .trim();
-      };
-
-      const incident: Incident = {
-        Number: findColumnValue(row, columnMappings.number),
-        Opened: findColumnValue(row, columnMappings.opened),
-        ShortDescription: findColumnValue(row, columnMappings.description),
-        Caller: findColumnValue(row, columnMappings.caller),
-        Priority: findColumnValue(row, columnMappings.priority),
-        State: findColumnValue(row, columnMappings.state),
-        Category: findColumnValue(row, columnMappings.category),
-        Subcategory: findColumnValue(row, columnMappings.subcategory),
-        AssignmentGroup: findColumnValue(row, columnMappings.assignmentGroup),
-        AssignedTo: findColumnValue(row, columnMappings.assignedTo),
-        Updated: findColumnValue(row, columnMappings.updated),
-        UpdatedBy: findColumnValue(row, columnMappings.updatedBy),
-        BusinessImpact: findColumnValue(row, columnMappings.businessImpact),
-        ResponseTime: findColumnValue(row, columnMappings.responseTime) || '0',
-        Location: findColumnValue(row, columnMappings.location),
-        CommentsAndWorkNotes: findColumnValue(row, columnMappings.commentsAndWorkNotes),
-        StringAssociado: sanitize(findColumnValue(row, ['String Associado', 'StringAssociado'])),
-        FuncaoAssociada: sanitize(findColumnValue(row, ['Função Associada', 'Funcao Associada', 'FuncaoAssociada']))
-      };
-
-      // Log para depuração
-      if (incident.StringAssociado || incident.FuncaoAssociada) {
-        console.log('Valores lidos - StringAssociado:', incident.StringAssociado, '| FuncaoAssociada:', incident.FuncaoAssociada);
-      }
-
-      // Validação dos campos essenciais
-      if (!incident.Number || !incident.Opened || !incident.Priority || !incident.State) {
-        console.warn('Incidente com campos essenciais ausentes:', incident);
-        continue; // Pula incidentes inválidos
-      }
-
-      if (incident.Number) {
-        processedIncidents.push(incident);
+    try {
+      setIsUploading(true);
+      setError(null);
+      setProgress(null);
+      setValidationErrors([]);
+      setUnmappedColumns([]);
+      setMergeSummary(null);
+      setQualityReport(null);
+
+      const { data, totalRows, dateDetections } = await session.parse(files, setProgress);
+      if (totalRows === 0) {
+        throw new Error(t('import.error.emptyFile'));
       }
-
-      // Allow UI to update
-      if (i % 100 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
+      // O assistente de mapeamento confirma as colunas antes do processamento
+      setPendingImport({
+        fileName: files.length === 1 ? files[0].name : t('upload.fileCount', { count: files.length }),
+        fileNames: files.map(file => file.name),
+        data,
+        totalRows,
+        dateDetections
+      });
+    } catch (error) {
+      session.cancel();
+      if (!isImportCancelled(error)) {
+        setError(error instanceof Error ? error.message : t('import.error.processFailed'));
       }
+    } finally {
+      setIsUploading(false);
+      setProgress(null);
     }
-
-    console.log("Processed incidents:", processedIncidents.length);
-    return processedIncidents;
   };
 
-  const processRequestData = async (data: any[]): Promise<Request[]> => {
-    // Column mappings for request data
-    const columnMappings = {
-      number: ['Number', 'Request Number', 'ID', 'Reference', 'RequestNumber', 'Número', 'Numero', 'Chamado', 'Ticket'],
-      opened: ['Opened', 'Open', 'Created Date', 'Open Date', 'Start Date', 'Created', 'Data Abertura', 'Data', 'Data Criação', 'Início'],
-      shortDescription: ['Short description', 'Summary', 'Resumo', 'Descrição Curta', 'Descricao Curta'],
-      description: ['Description', 'Details', 'Full Description', 'Descrição', 'Descricao', 'Descrição Completa', 'Descricao Completa'],
-      requestItem: ['Request item [Catalog Task]', 'Catalog Task', 'Item Catálogo', 'Item', 'Tipo de Solicitação'],
-      requestedForName: ['Requested for Name', 'Requested For', 'Solicitado Para', 'Solicitante', 'Usuario', 'Usuário'],
-      priority: ['Priority', 'Request Priority', 'Urgency', 'Prioridade', 'Urgência'],
-      state: ['State', 'Status', 'Current State', 'Estado', 'Situação'],
-      assignmentGroup: ['Assignment group', 'Assigned Group', 'Team', 'Grupo', 'Grupo Atribuído', 'Localidade'],
-      assignedTo: ['Assigned to', 'Assigned To', 'Owner', 'Atribuído para', 'Atribuido para', 'Responsável'],
-      updated: ['Updated', 'Last Modified Date', 'Modified Date', 'Data Atualização', 'Última Atualização'],
-      updatedBy: ['Updated by', 'Last Modified By', 'Modified By', 'Atualizado por', 'Modificado por'],
-      commentsAndWorkNotes: [
-        'Comments and Work notes',
-        'Work notes',
-        'Additional comments',
-        'Comments',
-        'Work Notes',
-        'Comentários',
-        'Notas de Trabalho',
-        'Observações',
-        'Notas',
-        'Comentarios',
-        'Notas de trabalho'
-      ],
-      businessImpact: ['Business impact', 'Impact', 'Severity', 'Impacto', 'Severidade']
-    };
-
-    const findColumnValue = (row: any, mappings: string[]): string => {
-      // First try exact match
-      for (const mapping of mappings) {
-        if (row[mapping] !== undefined) {
-          return String(row[mapping] || '').trim();
-        }
-      }
-      
-      // Then try case-insensitive match
-      const rowKeys = Object.keys(row);
-      for (const mapping of mappings) {
-        const key = rowKeys.find(k => k.toLowerCase() === mapping.toLowerCase());
-        if (key && row[key] !== undefined) {
-          return String(row[key] || '').trim();
-        }
-      }
-      
-      return '';
-    };
-
-    const totalRows = data.length;
-    const processedRequests: Request[] = [];
-    
-    for (let i = 0; i < totalRows; i++) {
-      const row = data[i];
-      setProgress(Math.round(((i + 1) / totalRows) * 100));
-      
-      if (!row || typeof row !== 'object' || Object.keys(row).length === 0) {
-        continue;
-      }
-
-      const request: Request = {
-        Number: findColumnValue(row, columnMappings.number),
-        Opened: findColumnValue(row, columnMappings.opened),
-        ShortDescription: findColumnValue(row, columnMappings.shortDescription),
-        Description: findColumnValue(row, columnMappings.description),
-        RequestItem: findColumnValue(row, columnMappings.requestItem),
-        RequestedForName: findColumnValue(row, columnMappings.requestedForName),
-        Priority: findColumnValue(row, columnMappings.priority),
-        State: findColumnValue(row, columnMappings.state),
-        AssignmentGroup: findColumnValue(row, columnMappings.assignmentGroup),
-        AssignedTo: findColumnValue(row, columnMappings.assignedTo),
-        Updated: findColumnValue(row, columnMappings.updated),
-        UpdatedBy: findColumnValue(row, columnMappings.updatedBy),
-        CommentsAndWorkNotes: findColumnValue(row, columnMappings.commentsAndWorkNotes),
-        BusinessImpact: findColumnValue(row, columnMappings.businessImpact)
-      };
-
-      if (request.Number) {
-        processedRequests.push(request);
-      }
-
-      // Allow UI to update
-      if (i % 100 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
-    }
-
-    console.log("Processed requests:", processedRequests.length);
-    return processedRequests;
+  const handleCancelImport = () => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    setPendingImport(null);
   };
 
-  const processExcelFile = async (file: File) => {
+  const handleMappingConfirmed = async (mappingProfile: ColumnMappingProfile) => {
+    const session = sessionRef.current;
+    if (!pendingImport || !session) return;
+    const { fileName, fileNames } = pendingImport;
+    setPendingImport(null);
+
     try {
       setIsUploading(true);
-      setError(null);
-      setProgress(0);
-
-      const data = await new Promise<any[]>((resolve, reject) => {
-        const reader = new FileReader();
-        
-        reader.onload = async (event) => {
-          try {
-            const binaryStr = event.target?.result;
-            const workbook = XLSX.read(binaryStr, { type: 'binary' });
-            
-            if (!workbook.SheetNames.length) {
-              throw new Error('Arquivo Excel vazio');
-            }
-
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            
-            const rawData = XLSX.utils.sheet_to_json(worksheet, {
-              raw: false,
-              defval: '',
-              header: 1
-            });
-
-            if (!rawData || !Array.isArray(rawData) || rawData.length <= 1) {
-              throw new Error('Arquivo não contém dados válidos');
-            }
-
-            const headers = rawData[0];
-            if (!Array.isArray(headers) || headers.length === 0) {
-              throw new Error('Cabeçalhos não encontrados no arquivo');
-            }
-
-            const data = rawData.slice(1).map((row: any) => {
-              const obj: any = {};
-              headers.forEach((header: string, index: number) => {
-                if (header) {
-                  obj[header] = row[index] || '';
-                }
-              });
-              return obj;
-            });
-
-            resolve(data);
-          } catch (error) {
-            reject(error);
-          }
-        };
-
-        reader.onerror = () => reject(new Error('Erro ao ler o arquivo'));
-        reader.readAsBinaryString(file);
-      });
 
       if (selectedType === 'incidents') {
-        const processedData = await processIncidentData(data);
-        setIncidentsData(processedData);
+        if (mappingProfile.id !== MANUAL_PROFILE_ID) setIncidentProfile(mappingProfile);
+        const result = await session.process('incidents', mappingProfile, setProgress);
+        setValidationErrors(result.errors);
+        setUnmappedColumns(result.unmappedColumns);
+        setQualityReport({ report: result.quality, sourceName: fileName });
+        // Arquivos adicionais são mesclados aos já carregados
+        const { items, summary } = mergeRecordsByNumber(incidentsData, result.items);
+        const sourceFiles = [...incidentFiles, ...fileNames];
+        setIncidentsData(items);
+        setIncidentFiles(sourceFiles);
+        setMergeSummary(summary);
         setIncidentsLoaded(true);
-        console.log("Incidents loaded:", processedData.length);
+        console.log("Incidents loaded:", items.length);
         
         // Call onSelectIncidents immediately
-        onSelectIncidents(processedData);
+        onSelectIncidents(items, sourceFiles);
       } else if (selectedType === 'requests') {
-        const processedData = await processRequestData(data);
-        setRequestsData(processedData);
+        if (mappingProfile.id !== MANUAL_PROFILE_ID) setRequestProfile(mappingProfile);
+        const result = await session.process('requests', mappingProfile, setProgress);
+        setValidationErrors(result.errors);
+        setUnmappedColumns(result.unmappedColumns);
+        setQualityReport({ report: result.quality, sourceName: fileName });
+        const { items, summary } = mergeRecordsByNumber(requestsData, result.items);
+        const sourceFiles = [...requestFiles, ...fileNames];
+        setRequestsData(items);
+        setRequestFiles(sourceFiles);
+        setMergeSummary(summary);
         setRequestsLoaded(true);
-        console.log("Requests loaded:", processedData.length);
+        console.log("Requests loaded:", items.length);
         
         // Call onSelectRequests immediately
-        onSelectRequests(processedData);
+        onSelectRequests(items, sourceFiles);
       }
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Erro ao processar o arquivo Excel');
+      if (!isImportCancelled(error)) {
+        setError(error instanceof Error ? error.message : t('import.error.processFailed'));
+      }
     } finally {
+      sessionRef.current = null;
       setIsUploading(false);
-      setProgress(100);
+      setProgress(null);
     }
   };
 
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({ 
     onDrop: async (acceptedFiles) => {
-      const file = acceptedFiles[0];
-      if (file) {
-        await processExcelFile(file);
+      if (acceptedFiles.length > 0) {
+        await processImportFiles(acceptedFiles);
       }
     },
-    accept: {
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls']
-    },
-    maxFiles: 1,
+    accept: IMPORT_FILE_ACCEPT,
+    multiple: true,
     noClick: true,
     noKeyboard: true
   });
@@ -351,12 +166,12 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
           />
           <h1 className="text-3xl font-bold text-white mb-1">IT Operations Dashboard</h1>
           <p className="text-gray-400">
-            Conectando Inteligência e Tecnologia
+            {t('upload.tagline')}
           </p>
         </div>
         <div className="bg-[#151B2B] p-6 rounded-lg">
           <p className="text-gray-300 leading-relaxed">
-            Selecione o tipo de dados que deseja carregar para análise
+            {t('upload.selectType')}
           </p>
         </div>
       </div>
@@ -369,8 +184,8 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
               <BarChart3 className="h-8 w-8 text-indigo-500" />
             </div>
             <div>
-              <h2 className="text-xl font-semibold text-white">Incidentes</h2>
-              <p className="text-gray-400">Análise de chamados e incidentes</p>
+              <h2 className="text-xl font-semibold text-white">{t('upload.incidents')}</h2>
+              <p className="text-gray-400">{t('upload.incidentsSubtitle')}</p>
             </div>
             {incidentsLoaded && (
               <div className="ml-auto p-2 bg-green-500/20 rounded-full">
@@ -382,40 +197,90 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
           {incidentsLoaded ? (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-gray-400">Carregamento concluído</span>
+                <span className="text-gray-400">{t('upload.loadComplete')}</span>
                 <span className="text-green-400">100%</span>
               </div>
               <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                 <div className="h-full bg-green-500" style={{ width: '100%' }} />
               </div>
               <p className="text-green-400 text-sm mt-2">
-                {incidentsData.length} incidentes carregados com sucesso
+                {t('upload.incidentsLoaded', { count: formatNumber(incidentsData.length) })}
               </p>
+              {selectedType === 'incidents' && isUploading ? (
+                <div className="flex items-center justify-between gap-2 pt-2 text-sm">
+                  <span className="text-gray-400">{formatImportProgress(progress)}</span>
+                  <button
+                    onClick={handleCancelImport}
+                    className="text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    {t('upload.cancel')}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={() => {
+                      handleTypeSelect('incidents');
+                      open();
+                    }}
+                    className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg transition-colors flex items-center justify-center gap-2"
+                    disabled={isUploading}
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>{t('upload.addFiles')}</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setIncidentsData([]);
+                      setIncidentFiles([]);
+                      setIncidentsLoaded(false);
+                      setMergeSummary(null);
+                      onSelectIncidents([], []);
+                    }}
+                    className="px-3 py-2 bg-[#1C2333] hover:bg-[#252d3d] text-gray-400 hover:text-white text-sm rounded-lg transition-colors"
+                    disabled={isUploading}
+                  >
+                    {t('upload.clear')}
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <>
               <div className="space-y-2 text-sm text-gray-400 mb-4">
-                <p>• Análise por categoria e prioridade</p>
-                <p>• Monitoramento de SLA</p>
-                <p>• Distribuição por equipe</p>
-                <p>• Análise de impacto</p>
+                <p>• {t('upload.incidentFeature1')}</p>
+                <p>• {t('upload.incidentFeature2')}</p>
+                <p>• {t('upload.incidentFeature3')}</p>
+                <p>• {t('upload.incidentFeature4')}</p>
               </div>
               
               {selectedType === 'incidents' && isUploading ? (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-400">Processando...</span>
-                    <span className="text-indigo-400">{progress}%</span>
+                    <span className="text-gray-400">{formatImportProgress(progress)}</span>
+                    <span className="text-indigo-400">{getImportPercent(progress)}%</span>
                   </div>
                   <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                     <div 
                       className="h-full bg-indigo-500 transition-all duration-300" 
-                      style={{ width: `${progress}%` }} 
+                      style={{ width: `${getImportPercent(progress)}%` }} 
                     />
                   </div>
+                  <button
+                    onClick={handleCancelImport}
+                    className="text-sm text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    {t('upload.cancelImport')}
+                  </button>
                 </div>
               ) : (
                 <div className="space-y-4">
+                  <MappingProfileSelector
+                    target="incidents"
+                    value={incidentProfile}
+                    onChange={setIncidentProfile}
+                    disabled={isUploading}
+                  />
                   <button
                     onClick={() => {
                       handleTypeSelect('incidents');
@@ -425,7 +290,7 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
                     disabled={isUploading}
                   >
                     <FileSpreadsheet className="h-5 w-5" />
-                    <span>Carregar Incidentes</span>
+                    <span>{t('upload.loadIncidents')}</span>
                   </button>
                   
                   <TemplateDownload type="incidents" />
@@ -442,8 +307,8 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
               <FileText className="h-8 w-8 text-emerald-500" />
             </div>
             <div>
-              <h2 className="text-xl font-semibold text-white">Requests</h2>
-              <p className="text-gray-400">Análise de solicitações e demandas</p>
+              <h2 className="text-xl font-semibold text-white">{t('upload.requests')}</h2>
+              <p className="text-gray-400">{t('upload.requestsSubtitle')}</p>
             </div>
             {requestsLoaded && (
               <div className="ml-auto p-2 bg-green-500/20 rounded-full">
@@ -455,40 +320,90 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
           {requestsLoaded ? (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-gray-400">Carregamento concluído</span>
+                <span className="text-gray-400">{t('upload.loadComplete')}</span>
                 <span className="text-green-400">100%</span>
               </div>
               <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                 <div className="h-full bg-green-500" style={{ width: '100%' }} />
               </div>
               <p className="text-green-400 text-sm mt-2">
-                {requestsData.length} requests carregados com sucesso
+                {t('upload.requestsLoaded', { count: formatNumber(requestsData.length) })}
               </p>
+              {selectedType === 'requests' && isUploading ? (
+                <div className="flex items-center justify-between gap-2 pt-2 text-sm">
+                  <span className="text-gray-400">{formatImportProgress(progress)}</span>
+                  <button
+                    onClick={handleCancelImport}
+                    className="text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    {t('upload.cancel')}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={() => {
+                      handleTypeSelect('requests');
+                      open();
+                    }}
+                    className="flex-1 py-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm rounded-lg transition-colors flex items-center justify-center gap-2"
+                    disabled={isUploading}
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>{t('upload.addFiles')}</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRequestsData([]);
+                      setRequestFiles([]);
+                      setRequestsLoaded(false);
+                      setMergeSummary(null);
+                      onSelectRequests([], []);
+                    }}
+                    className="px-3 py-2 bg-[#1C2333] hover:bg-[#252d3d] text-gray-400 hover:text-white text-sm rounded-lg transition-colors"
+                    disabled={isUploading}
+                  >
+                    {t('upload.clear')}
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <>
               <div className="space-y-2 text-sm text-gray-400 mb-4">
-                <p>• Análise por tipo e categoria</p>
-                <p>• Controle de aprovações</p>
-                <p>• Métricas de custo</p>
-                <p>• Prazos e entregas</p>
+                <p>• {t('upload.requestFeature1')}</p>
+                <p>• {t('upload.requestFeature2')}</p>
+                <p>• {t('upload.requestFeature3')}</p>
+                <p>• {t('upload.requestFeature4')}</p>
               </div>
               
               {selectedType === 'requests' && isUploading ? (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
-                    <span className="text-gray-400">Processando...</span>
-                    <span className="text-emerald-400">{progress}%</span>
+                    <span className="text-gray-400">{formatImportProgress(progress)}</span>
+                    <span className="text-emerald-400">{getImportPercent(progress)}%</span>
                   </div>
                   <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                     <div 
                       className="h-full bg-emerald-500 transition-all duration-300" 
-                      style={{ width: `${progress}%` }} 
+                      style={{ width: `${getImportPercent(progress)}%` }} 
                     />
                   </div>
+                  <button
+                    onClick={handleCancelImport}
+                    className="text-sm text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    {t('upload.cancelImport')}
+                  </button>
                 </div>
               ) : (
                 <div className="space-y-4">
+                  <MappingProfileSelector
+                    target="requests"
+                    value={requestProfile}
+                    onChange={setRequestProfile}
+                    disabled={isUploading}
+                  />
                   <button
                     onClick={() => {
                       handleTypeSelect('requests');
@@ -498,7 +413,7 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
                     disabled={isUploading}
                   >
                     <FileSpreadsheet className="h-5 w-5" />
-                    <span>Carregar Requests</span>
+                    <span>{t('upload.loadRequests')}</span>
                   </button>
                   
                   <TemplateDownload type="requests" />
@@ -519,15 +434,11 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
         <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4 text-center">
           <Check className="h-8 w-8 text-green-500 mx-auto mb-2" />
           <h3 className="text-lg font-medium text-green-400 mb-2">
-            Carregamento Completo!
+            {t('upload.allLoadedTitle')}
           </h3>
           <p className="text-gray-300">
-            Ambos os conjuntos de dados foram carregados com sucesso. Redirecionando para os dashboards...
+            {t('upload.allLoadedText')}
           </p>
-          <div className="mt-4 flex items-center justify-center">
-            <Loader2 className="h-5 w-5 text-white animate-spin mr-2" />
-            <span className="text-white">Preparando dashboards</span>
-          </div>
         </div>
       )}
 
@@ -538,19 +449,76 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
             <AlertCircle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
             <div>
               <h3 className="text-sm font-medium text-red-400">
-                Erro ao carregar arquivo
+                {t('upload.errorTitle')}
               </h3>
               <p className="text-sm text-red-300 mt-1">
                 {error}
               </p>
               <div className="mt-2">
                 <p className="text-sm text-red-400">
-                  Verifique se o arquivo:
+                  {t('upload.errorChecklist')}
                 </p>
                 <ul className="list-disc list-inside text-sm text-red-300 mt-1 space-y-1">
-                  <li>É um arquivo Excel válido (.xlsx ou .xls)</li>
-                  <li>Contém as colunas necessárias (Número, Data, Descrição, etc.)</li>
-                  <li>Possui dados válidos nas linhas</li>
+                  <li>{t('upload.errorCheckFormat')}</li>
+                  <li>{t('upload.errorCheckColumns')}</li>
+                  <li>{t('upload.errorCheckRows')}</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {mergeSummary && (
+        <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <GitMerge className="h-5 w-5 text-green-400 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-green-400">{t('upload.mergeTitle')}</h3>
+              <p className="text-sm text-green-300 mt-1">
+                {t('upload.mergeSummary', {
+                  added: formatNumber(mergeSummary.added),
+                  updated: formatNumber(mergeSummary.updated),
+                  unchanged: formatNumber(mergeSummary.unchanged),
+                  total: formatNumber(mergeSummary.total)
+                })}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {qualityReport && (
+        <DataQualityReportCard report={qualityReport.report} sourceName={qualityReport.sourceName} />
+      )}
+
+      {unmappedColumns.length > 0 && (
+        <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <Info className="h-5 w-5 text-blue-400 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-blue-300">
+              {t('upload.unmappedColumns', { columns: unmappedColumns.join(', ') })}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {validationErrors.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <Info className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-400">
+                {t('upload.validationWarnings')}
+              </h3>
+              <div className="mt-2 max-h-40 overflow-auto">
+                <ul className="list-disc list-inside text-sm text-yellow-300 space-y-1">
+                  {validationErrors.map((error, index) => (
+                    <li key={index}>
+                      {t('upload.rowError', { row: error.row, reason: error.reason })}
+                      {error.value && t('upload.rowValue', { value: error.value })}
+                    </li>
+                  ))}
                 </ul>
               </div>
             </div>
@@ -562,10 +530,23 @@ export function FileUploadSelector({ onSelectIncidents, onSelectRequests }: File
         <div className="flex items-center gap-3">
           <Info className="h-5 w-5 text-blue-400" />
           <p className="text-blue-400">
-            Os arquivos devem estar no formato Excel (.xlsx ou .xls)
+            {t('upload.acceptedFormats')}
           </p>
         </div>
       </div>
+
+      {pendingImport && selectedType && (
+        <ColumnMappingWizard
+          target={selectedType}
+          fileName={pendingImport.fileName}
+          data={pendingImport.data}
+          totalRows={pendingImport.totalRows}
+          dateDetections={pendingImport.dateDetections}
+          initialProfile={selectedType === 'incidents' ? incidentProfile : requestProfile}
+          onConfirm={handleMappingConfirmed}
+          onCancel={handleCancelImport}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
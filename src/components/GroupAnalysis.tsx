@@ -12,11 +12,11 @@ import {
 } from 'recharts';
 import { X, AlertTriangle, ExternalLink } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, isWithinInterval } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { normalizePriority, getIncidentState, isHighPriority } from '../utils/incidentUtils';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface GroupAnalysisProps {
   incidents: Incident[];
@@ -44,9 +44,9 @@ function IncidentModal({ incidents, group, onClose }: IncidentModalProps) {
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -63,10 +63,10 @@ function IncidentModal({ incidents, group, onClose }: IncidentModalProps) {
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados em Aberto - {group}
+              {t('analysis.openTicketsTitle', { name: group })}
             </h2>
             <p className="text-gray-400 mt-1">
-              {incidents.length} chamados encontrados
+              {t('analysis.ticketsFound', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -81,12 +81,12 @@ function IncidentModal({ incidents, group, onClose }: IncidentModalProps) {
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Prioridade</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.priority')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -154,7 +154,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
     });
 
     const data = filteredIncidents.reduce((acc, incident) => {
-      const group = normalizeLocationName(incident.AssignmentGroup) || 'Não atribuído';
+      const group = normalizeLocationName(incident.AssignmentGroup) || t('incident.unassigned');
       
       if (!acc[group]) {
         acc[group] = {
@@ -179,7 +179,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
       const priority = normalizePriority(incident.Priority);
       acc[group][priority]++;
 
-      if ((priority === 'P1' || priority === 'P2') && getIncidentState(incident.State) !== 'Fechado') {
+      if (isHighPriority(priority) && getIncidentState(incident.State) !== 'Fechado') {
         acc[group].openCritical++;
       }
       
@@ -214,7 +214,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
       const priority = normalizePriority(incident.Priority);
       const isOpen = getIncidentState(incident.State) !== 'Fechado';
       
-      return matchesGroup && (priority === 'P1' || priority === 'P2') && isOpen;
+      return matchesGroup && isHighPriority(priority) && isOpen;
     });
 
     if (openIncidents.length > 0) {
@@ -245,7 +245,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
     return (
       <div className="bg-[#151B2B] p-6 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-white">Análise por Grupo</h2>
+          <h2 className="text-xl font-semibold text-white">{t('groupAnalysis.title')}</h2>
           {onClose && (
             <button
               onClick={onClose}
@@ -256,7 +256,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
           )}
         </div>
         <div className="text-center py-8">
-          <p className="text-gray-400">Nenhum incidente encontrado no período selecionado.</p>
+          <p className="text-gray-400">{t('analysis.noIncidents')}</p>
         </div>
       </div>
     );
@@ -265,12 +265,12 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise por Grupo</h2>
+        <h2 className="text-xl font-semibold text-white">{t('groupAnalysis.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
             className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-            aria-label="Fechar análise"
+            aria-label={t('analysis.close')}
           >
             <X className="h-5 w-5 text-gray-400 hover:text-white" />
           </button>
@@ -278,7 +278,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
       </div>
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição por Grupo</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('groupAnalysis.distribution')}</h3>
         <div className="h-[600px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
@@ -319,15 +319,15 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
                 formatter={(value: number, name: string, props: any) => {
                   const data = props.payload;
                   const total = data.total;
-                  const percentage = ((value / total) * 100).toFixed(1);
+                  const percentage = formatDecimal((value / total) * 100);
                   return [`${value} (${percentage}%)`, name];
                 }}
-                label={({ payload }) => `Total: ${payload?.total || 0}`}
+                label={({ payload }) => t('analysis.total', { count: payload?.total || 0 })}
               />
               <Legend />
               <Bar 
                 dataKey="P1" 
-                name="Crítico" 
+                name={t('analysis.priority.critical')} 
                 fill={CHART_COLORS.P1} 
                 stackId="stack"
               >
@@ -337,10 +337,10 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
                   position="right"
                 />
               </Bar>
-              <Bar dataKey="P2" name="Alto" fill={CHART_COLORS.P2} stackId="stack" />
-              <Bar dataKey="P3" name="Médio" fill={CHART_COLORS.P3} stackId="stack" />
-              <Bar dataKey="P4" name="Baixo" fill={CHART_COLORS.P4} stackId="stack" />
-              <Bar dataKey="undefined" name="Não definido" fill={CHART_COLORS.undefined} stackId="stack" />
+              <Bar dataKey="P2" name={t('analysis.priority.high')} fill={CHART_COLORS.P2} stackId="stack" />
+              <Bar dataKey="P3" name={t('analysis.priority.medium')} fill={CHART_COLORS.P3} stackId="stack" />
+              <Bar dataKey="P4" name={t('analysis.priority.low')} fill={CHART_COLORS.P4} stackId="stack" />
+              <Bar dataKey="undefined" name={t('analysis.priority.undefined')} fill={CHART_COLORS.undefined} stackId="stack" />
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -351,7 +351,7 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
           <div className="flex items-start gap-3">
             <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
             <div>
-              <h4 className="text-red-500 font-medium">Grupos que Requerem Atenção</h4>
+              <h4 className="text-red-500 font-medium">{t('groupAnalysis.attention')}</h4>
               <div className="mt-2 space-y-1">
                 {groupData
                   .filter(group => group.openCritical > 0)
@@ -364,15 +364,15 @@ export function GroupAnalysis({ incidents, onClose, startDate, endDate }: GroupA
                         {group.name}
                       </button>
                       <span className="text-red-400 mx-1">•</span>
-                      <span>{group.P1 + group.P2} incidentes críticos</span>
+                      <span>{t('analysis.criticalIncidents', { count: group.P1 + group.P2 })}</span>
                       <span className="text-yellow-300 ml-2">
-                        ({group.openCritical} em aberto)
+                        {t('analysis.openParen', { count: group.openCritical })}
                       </span>
                       <span className="text-gray-400 ml-1">
-                        ({((group.P1 + group.P2) / group.total * 100).toFixed(1)}% do total)
+                        ({t('analysis.percentOfTotal', { percent: formatDecimal((group.P1 + group.P2) / group.total * 100) })})
                       </span>
                       <span className="text-gray-400 ml-2">
-                        • {group.assignedCount} técnicos
+                        • {t('groupAnalysis.technicians', { count: group.assignedCount })}
                       </span>
                     </p>
                   ))}
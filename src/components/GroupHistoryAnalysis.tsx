@@ -27,9 +27,9 @@ import {
   addMonths,
   subMonths
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizePriority } from '../utils/incidentUtils';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface GroupHistoryAnalysisProps {
   incidents: Incident[];
@@ -46,6 +46,10 @@ const CHART_COLORS = {
 
 const PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
 
+// 'Não definido' é a chave das prioridades não reconhecidas; só o rótulo exibido é traduzido
+const getPriorityLabel = (priority: string) =>
+  priority === 'Não definido' ? t('analysis.priority.undefined') : priority;
+
 const CustomTooltip = ({ active, payload, label }: any) => {
   if (!active || !payload || !payload.length) return null;
 
@@ -61,7 +65,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
         ))}
         <div className="pt-2 mt-2 border-t border-gray-700">
           <div className="flex items-center justify-between">
-            <span className="text-gray-400">Total</span>
+            <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
             <span className="text-white font-bold">
               {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
             </span>
@@ -111,7 +115,7 @@ export function GroupHistoryAnalysis({ incidents, onClose }: GroupHistoryAnalysi
 
       const data: Record<string, any> = {
         month: month.getTime(),
-        monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+        monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
         total: monthIncidents.length
       };
 
@@ -141,7 +145,7 @@ export function GroupHistoryAnalysis({ incidents, onClose }: GroupHistoryAnalysi
 
         const data: Record<string, any> = {
           month: month.getTime(),
-          monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+          monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
           total: monthIncidents.length
         };
 
@@ -181,7 +185,7 @@ export function GroupHistoryAnalysis({ incidents, onClose }: GroupHistoryAnalysi
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Histórico por Grupo</h2>
+        <h2 className="text-xl font-semibold text-white">{t('groupHistory.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -260,7 +264,7 @@ export function GroupHistoryAnalysis({ incidents, onClose }: GroupHistoryAnalysi
                       <Bar
                         key={priority}
                         dataKey={priority}
-                        name={priority}
+                        name={getPriorityLabel(priority)}
                         fill={CHART_COLORS[priority]}
                         stackId="stack"
                         label={{
@@ -13,12 +13,15 @@ import {
   Cell,
   Sector
 } from 'recharts';
-import { X, AlertTriangle, ExternalLink } from 'lucide-react';
+import { X, AlertTriangle, ExternalLink, Boxes } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, isWithinInterval } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { AssetTaxonomyManager } from './AssetTaxonomyManager';
+import { AssetClassTaxonomy } from '../types/taxonomy';
+import { loadAssetTaxonomy, matchesAssetClass } from '../utils/taxonomyUtils';
+import { normalizePriority, getIncidentState, isHighPriority } from '../utils/incidentUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface HardwareAnalysisProps {
   incidents: Incident[];
@@ -41,54 +44,14 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
-const HARDWARE_KEYWORDS = [
-  'hardware',
-  'equipamento',
-  'computador',
-  'desktop',
-  'notebook',
-  'laptop',
-  'impressora',
-  'printer',
-  'monitor',
-  'teclado',
-  'keyboard',
-  'mouse',
-  'scanner',
-  'servidor',
-  'server',
-  'workstation',
-  'estação',
-  'hd',
-  'ssd',
-  'memória',
-  'memory',
-  'ram',
-  'processador',
-  'cpu',
-  'placa',
-  'board',
-  'bateria',
-  'battery',
-  'carregador',
-  'charger',
-  'cabo',
-  'cable',
-  'rede',
-  'network',
-  'wifi',
-  'wireless',
-  'ethernet'
-];
-
 function IncidentModal({ incidents, name, onClose }: IncidentModalProps) {
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -105,10 +68,10 @@ function IncidentModal({ incidents, name, onClose }: IncidentModalProps) {
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados em Aberto - {name}
+              {t('analysis.openTicketsTitle', { name })}
             </h2>
             <p className="text-gray-400 mt-1">
-              {incidents.length} chamados encontrados
+              {t('analysis.ticketsFound', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -123,12 +86,12 @@ function IncidentModal({ incidents, name, onClose }: IncidentModalProps) {
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Prioridade</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.priority')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -197,10 +160,10 @@ const renderActiveShape = (props: any) => {
         {payload.name}
       </text>
       <text x={cx} y={cy + 10} dy={8} textAnchor="middle" fill="#fff" className="text-sm">
-        {value} incidentes críticos
+        {t('analysis.criticalIncidents', { count: value })}
       </text>
       <text x={cx} y={cy + 30} dy={8} textAnchor="middle" fill="#fff" className="text-xs">
-        {`${(percent * 100).toFixed(1)}% do total`}
+        {t('analysis.percentOfTotal', { percent: formatDecimal(percent * 100) })}
       </text>
       <Sector
         cx={cx}
@@ -227,19 +190,13 @@ const renderActiveShape = (props: any) => {
 export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: HardwareAnalysisProps) {
   const [activeIndex, setActiveIndex] = useState(0);
   const [selectedIncidents, setSelectedIncidents] = useState<Incident[] | null>(null);
+  const [taxonomy, setTaxonomy] = useState<AssetClassTaxonomy[]>(() => loadAssetTaxonomy());
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
   const [selectedSystemName, setSelectedSystemName] = useState<string>('');
 
   const hardwareData = useMemo(() => {
     const filteredIncidents = incidents.filter(incident => {
-      const isHardware = HARDWARE_KEYWORDS.some(keyword => {
-        const category = (incident.Category || '').toLowerCase();
-        const subcategory = (incident.Subcategory || '').toLowerCase();
-        const description = (incident.ShortDescription || '').toLowerCase();
-        
-        return category.includes(keyword) || 
-               subcategory.includes(keyword) || 
-               description.includes(keyword);
-      });
+      const isHardware = matchesAssetClass(incident, 'hardware', taxonomy);
 
       if (!isHardware) return false;
 
@@ -256,7 +213,7 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
     });
 
     const groupedData = filteredIncidents.reduce((acc, incident) => {
-      const key = incident.Subcategory || incident.Category || 'Não especificado';
+      const key = incident.Subcategory || incident.Category || t('analysis.notSpecified');
       
       if (!acc[key]) {
         acc[key] = {
@@ -275,7 +232,7 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
       const priority = normalizePriority(incident.Priority);
       acc[key][priority]++;
 
-      if ((priority === 'P1' || priority === 'P2') && getIncidentState(incident.State) !== 'Fechado') {
+      if (isHighPriority(priority) && getIncidentState(incident.State) !== 'Fechado') {
         acc[key].openCritical++;
       }
       
@@ -296,7 +253,7 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
         ...data
       }))
       .sort((a, b) => b.total - a.total);
-  }, [incidents, startDate, endDate]);
+  }, [incidents, startDate, endDate, taxonomy]);
 
   const impactAnalysis = useMemo(() => {
     return hardwareData
@@ -321,15 +278,13 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
         incident.Category === systemName || 
         incident.Subcategory === systemName ||
         (incident.ShortDescription?.toLowerCase().includes(systemName.toLowerCase()) &&
-         HARDWARE_KEYWORDS.some(keyword => 
-           incident.ShortDescription?.toLowerCase().includes(keyword)
-         ))
+         matchesAssetClass(incident, 'hardware', taxonomy))
       );
       
       const priority = normalizePriority(incident.Priority);
       const isOpen = getIncidentState(incident.State) !== 'Fechado';
       
-      return matchesSystem && (priority === 'P1' || priority === 'P2') && isOpen;
+      return matchesSystem && isHighPriority(priority) && isOpen;
     });
 
     if (openIncidents.length > 0) {
@@ -338,23 +293,42 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
     }
   };
 
+  const taxonomyManager = showTaxonomy && (
+    <AssetTaxonomyManager
+      incidents={incidents}
+      initialClass="hardware"
+      onClose={() => setShowTaxonomy(false)}
+      onSaved={setTaxonomy}
+    />
+  );
+
   if (hardwareData.length === 0) {
     return (
       <div className="bg-[#151B2B] p-6 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-white">Análise de Hardware</h2>
-          {onClose && (
+          <h2 className="text-xl font-semibold text-white">{t('hardwareAnalysis.title')}</h2>
+          <div className="flex items-center gap-2">
             <button
-              onClick={onClose}
-              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              onClick={() => setShowTaxonomy(true)}
+              className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
             >
-              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              <Boxes className="h-4 w-4" />
+              {t('analysis.taxonomy')}
             </button>
-          )}
+            {onClose && (
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            )}
+          </div>
         </div>
         <div className="text-center py-8">
-          <p className="text-gray-400">Nenhum incidente de hardware encontrado no período selecionado.</p>
+          <p className="text-gray-400">{t('hardwareAnalysis.empty')}</p>
         </div>
+        {taxonomyManager}
       </div>
     );
   }
@@ -362,21 +336,30 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise de Hardware</h2>
-        {onClose && (
+        <h2 className="text-xl font-semibold text-white">{t('hardwareAnalysis.title')}</h2>
+        <div className="flex items-center gap-2">
           <button
-            onClick={onClose}
-            className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-            aria-label="Fechar análise"
+            onClick={() => setShowTaxonomy(true)}
+            className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
           >
-            <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            <Boxes className="h-4 w-4" />
+            {t('analysis.taxonomy')}
           </button>
-        )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              aria-label={t('analysis.close')}
+            >
+              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">Distribuição por Hardware</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('hardwareAnalysis.distribution')}</h3>
           <div className="h-[400px]">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
@@ -424,17 +407,17 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
                   formatter={(value: number, name: string, props: any) => {
                     const data = props.payload;
                     const total = data.total;
-                    const percentage = ((value / total) * 100).toFixed(1);
+                    const percentage = formatDecimal((value / total) * 100);
                     return [`${value} (${percentage}%)`, name];
                   }}
-                  label={({ payload }) => `Total: ${payload?.total || 0}`}
+                  label={({ payload }) => t('analysis.total', { count: payload?.total || 0 })}
                 />
                 <Legend />
-                <Bar dataKey="P1" name="Crítico" fill={CHART_COLORS.P1} stackId="stack" />
-                <Bar dataKey="P2" name="Alto" fill={CHART_COLORS.P2} stackId="stack" />
-                <Bar dataKey="P3" name="Médio" fill={CHART_COLORS.P3} stackId="stack" />
-                <Bar dataKey="P4" name="Baixo" fill={CHART_COLORS.P4} stackId="stack" />
-                <Bar dataKey="Não definido" name="Não definido" fill={CHART_COLORS['Não definido']} stackId="stack" />
+                <Bar dataKey="P1" name={t('analysis.priority.critical')} fill={CHART_COLORS.P1} stackId="stack" />
+                <Bar dataKey="P2" name={t('analysis.priority.high')} fill={CHART_COLORS.P2} stackId="stack" />
+                <Bar dataKey="P3" name={t('analysis.priority.medium')} fill={CHART_COLORS.P3} stackId="stack" />
+                <Bar dataKey="P4" name={t('analysis.priority.low')} fill={CHART_COLORS.P4} stackId="stack" />
+                <Bar dataKey="Não definido" name={t('analysis.priority.undefined')} fill={CHART_COLORS['Não definido']} stackId="stack" />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -442,8 +425,8 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <h3 className="text-lg font-medium text-white mb-4">
-            Sistemas Mais Críticos
-            <span className="text-sm text-gray-400 ml-2">(Baseado em P1 + P2)</span>
+            {t('analysis.mostCritical')}
+            <span className="text-sm text-gray-400 ml-2">{t('analysis.basedOnP1P2')}</span>
           </h3>
           <div className="h-[500px]">
             <ResponsiveContainer width="100%" height="100%">
@@ -497,14 +480,14 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
                         </p>
                         <div className="space-y-2 text-base">
                           <p className="text-white">
-                            {data.value} incidentes críticos
+                            {t('analysis.criticalIncidents', { count: data.value })}
                           </p>
                           <p className="text-gray-400">
-                            {((data.value / data.total) * 100).toFixed(1)}% do total
+                            {t('analysis.percentOfTotal', { percent: formatDecimal((data.value / data.total) * 100) })}
                           </p>
                           {data.openCritical > 0 && (
                             <p className="text-yellow-300 font-medium">
-                              {data.openCritical} incidentes em aberto
+                              {t('analysis.openIncidents', { count: data.openCritical })}
                             </p>
                           )}
                         </div>
@@ -522,7 +505,7 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
             <div className="flex items-start gap-3">
               <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
               <div>
-                <h4 className="text-red-500 font-medium">Hardware que Requer Atenção</h4>
+                <h4 className="text-red-500 font-medium">{t('hardwareAnalysis.attention')}</h4>
                 <div className="mt-2 space-y-1">
                   {impactAnalysis.map(system => (
                     <p key={system.name} className="text-sm">
@@ -540,14 +523,14 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
                         {system.name}
                       </button>
                       <span className="text-red-400 mx-1">•</span>
-                      <span>{system.value} incidentes críticos</span>
+                      <span>{t('analysis.criticalIncidents', { count: system.value })}</span>
                       {system.openCritical > 0 && (
                         <span className="text-yellow-300 ml-2">
-                          ({system.openCritical} em aberto)
+                          {t('analysis.openParen', { count: system.openCritical })}
                         </span>
                       )}
                       <span className="text-gray-400 ml-1">
-                        ({((system.value / system.total) * 100).toFixed(1)}% do total)
+                        ({t('analysis.percentOfTotal', { percent: formatDecimal((system.value / system.total) * 100) })})
                       </span>
                     </p>
                   ))}
@@ -568,6 +551,8 @@ export function HardwareAnalysis({ incidents, onClose, startDate, endDate }: Har
           }}
         />
       )}
+
+      {taxonomyManager}
     </div>
   );
 }
\ No newline at end of file
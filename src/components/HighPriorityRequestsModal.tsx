@@ -1,6 +1,6 @@
 import React from 'react';
 import { X } from 'lucide-react';
-import { Request } from '../types/request';
+import { Request, normalizeRequestPriority } from '../types/request';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -10,11 +10,7 @@ interface HighPriorityRequestsModalProps {
 }
 
 export function HighPriorityRequestsModal({ requests, onClose }: HighPriorityRequestsModalProps) {
-  const highPriorityRequests = requests.filter(request => 
-    request.Priority?.toLowerCase().includes('high') || 
-    request.Priority?.toLowerCase().includes('p1') || 
-    request.Priority?.toLowerCase().includes('1')
-  );
+  const highPriorityRequests = requests.filter(request => normalizeRequestPriority(request.Priority) === 'HIGH');
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
@@ -32,9 +32,10 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { getNormalizedCategory } from '../utils/categoryUtils';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface HistoricalDataAnalysisProps {
   incidents: Incident[];
@@ -104,7 +105,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
           'Não definido': monthIncidents.filter(i => normalizePriority(i.Priority) === 'Não definido').length
         },
         byCategory: monthIncidents.reduce((acc, incident) => {
-          const category = incident.Category || 'Não categorizado';
+          const category = getNormalizedCategory(incident);
           acc[category] = (acc[category] || 0) + 1;
           return acc;
         }, {} as Record<string, number>),
@@ -148,7 +149,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
 
       return {
         month: monthKey,
-        monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+        monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
         incidents: incidentsData,
         requests: requestsData,
         // Chart data
@@ -228,9 +229,9 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-xl font-semibold text-white">Histórico de Chamados</h2>
+          <h2 className="text-xl font-semibold text-white">{t('historyData.title')}</h2>
           <p className="text-gray-400 mt-1">
-            Análise comparativa entre Incidentes e Requests
+            {t('historyData.subtitle')}
           </p>
         </div>
         {onClose && (
@@ -254,7 +255,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
           `}
         >
           <BarChart3 className="h-4 w-4" />
-          <span>Geral</span>
+          <span>{t('historyData.all')}</span>
         </button>
         <button
           onClick={() => setViewMode('incidents')}
@@ -266,7 +267,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
           `}
         >
           <AlertCircle className="h-4 w-4" />
-          <span>Incidentes</span>
+          <span>{t('executive.incidents')}</span>
         </button>
         <button
           onClick={() => setViewMode('requests')}
@@ -278,16 +279,16 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
           `}
         >
           <FileText className="h-4 w-4" />
-          <span>Requests</span>
+          <span>{t('executive.requests')}</span>
         </button>
       </div>
 
       {/* Distribution Chart - Shows based on view mode */}
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <h3 className="text-lg font-medium text-white mb-4">
-          {viewMode === 'all' ? 'Distribuição Mensal' : 
-           viewMode === 'incidents' ? 'Distribuição Mensal de Incidentes' : 
-           'Distribuição Mensal de Requests'}
+          {viewMode === 'all' ? t('historyData.monthly') : 
+           viewMode === 'incidents' ? t('historyData.monthlyIncidents') : 
+           t('historyData.monthlyRequests')}
         </h3>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -313,7 +314,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
               {(viewMode === 'all' || viewMode === 'incidents') && (
                 <Bar
                   dataKey="incidentsTotal"
-                  name="Incidentes"
+                  name={t('executive.incidents')}
                   fill={CHART_COLORS.incidents}
                   radius={[4, 4, 0, 0]}
                 >
@@ -326,7 +327,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
               {(viewMode === 'all' || viewMode === 'requests') && (
                 <Bar
                   dataKey="requestsTotal"
-                  name="Requests"
+                  name={t('executive.requests')}
                   fill={CHART_COLORS.requests}
                   radius={[4, 4, 0, 0]}
                 >
@@ -345,7 +346,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {viewMode !== 'requests' && (
           <div className="bg-[#1C2333] p-4 rounded-lg">
-            <h3 className="text-lg font-medium text-white mb-4">Incidentes por Prioridade</h3>
+            <h3 className="text-lg font-medium text-white mb-4">{t('historyData.incidentsByPriority')}</h3>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart
@@ -379,7 +380,7 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
 
         {viewMode !== 'incidents' && (
           <div className="bg-[#1C2333] p-4 rounded-lg">
-            <h3 className="text-lg font-medium text-white mb-4">Requests por Prioridade</h3>
+            <h3 className="text-lg font-medium text-white mb-4">{t('historyData.requestsByPriority')}</h3>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart
@@ -401,9 +402,9 @@ export function HistoricalDataAnalysis({ incidents, requests, onClose }: Histori
                   />
                   <Tooltip content={<CustomTooltip />} />
                   <Legend />
-                  <Bar dataKey="HIGH" name="Alta" fill={CHART_COLORS.HIGH} stackId="requests" />
-                  <Bar dataKey="MEDIUM" name="Média" fill={CHART_COLORS.MEDIUM} stackId="requests" />
-                  <Bar dataKey="LOW" name="Baixa" fill={CHART_COLORS.LOW} stackId="requests" />
+                  <Bar dataKey="HIGH" name={t('aiAnalysis.requestPriority.HIGH')} fill={CHART_COLORS.HIGH} stackId="requests" />
+                  <Bar dataKey="MEDIUM" name={t('aiAnalysis.requestPriority.MEDIUM')} fill={CHART_COLORS.MEDIUM} stackId="requests" />
+                  <Bar dataKey="LOW" name={t('aiAnalysis.requestPriority.LOW')} fill={CHART_COLORS.LOW} stackId="requests" />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -13,6 +13,7 @@ import { Incident } from '../types/incident';
 import { format, parseISO, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { normalizePriority } from '../utils/incidentUtils';
+import { loadLocationDirectory, normalizeLocationName } from '../utils/locationUtils';
 
 interface HistoricalOverviewProps {
   incidents: Incident[];
@@ -29,22 +30,6 @@ const CHART_COLORS = {
 
 const PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
 
-const GROUPS = [
-  'Brazil-Santo Andre-Local Support',
-  'Brazil-Bandag-Local Support',
-  'Brazil-Mafra-Local Support',
-  'Brazil-Bahia-Local Support',
-  'Brazil-Local Support',
-  'Brazil-Bahia-Manufacturing-Local Support',
-  'Brazil-Santo Andre-Manufacturing-Local Support',
-  'Brazil-Bandag-Manufacturing-Local Support',
-  'Brazil-Bahia-Network/Telecom',
-  'Brazil-Santo Andre-Network/Telecom',
-  'Brazil-Bandag-Network/Telecom',
-  'Brazil-Ticket Manager',
-  'Brazil-Telephony'
-];
-
 export function HistoricalOverview({ incidents, onClose }: HistoricalOverviewProps) {
   const [expandedGroups, setExpandedGroups] = useState<string[]>([]);
 
@@ -98,7 +83,7 @@ export function HistoricalOverview({ incidents, onClose }: HistoricalOverviewPro
     start.setMonth(start.getMonth() - 11);
     const months = eachMonthOfInterval({ start, end });
 
-    return GROUPS.map(group => {
+    return loadLocationDirectory().map(({ shortName: group }) => {
       const monthlyStats = months.map(month => {
         const monthStart = startOfMonth(month);
         const monthEnd = endOfMonth(month);
@@ -106,7 +91,7 @@ export function HistoricalOverview({ incidents, onClose }: HistoricalOverviewPro
         const monthIncidents = incidents.filter(incident => {
           try {
             const incidentDate = parseISO(incident.Opened);
-            return incident.AssignmentGroup?.includes(group) &&
+            return normalizeLocationName(incident.AssignmentGroup) === group &&
                    incidentDate >= monthStart && 
                    incidentDate <= monthEnd;
           } catch (error) {
@@ -14,23 +14,17 @@ import {
   AlertTriangle
 } from 'lucide-react';
 import { Request } from '../types/request';
-import { parseISO, format, differenceInDays, differenceInHours } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, format, differenceInHours } from 'date-fns';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { formatSLADays, getRequestSLADays, getRequestSLAElapsedDays } from '../utils/slaUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface InProgressRequestsModalProps {
   requests: Request[];
   onClose: () => void;
 }
 
-// SLA thresholds for requests (in days)
-const REQUEST_SLA_THRESHOLDS = {
-  HIGH: 3,    // 3 days
-  MEDIUM: 5,  // 5 days
-  LOW: 7      // 7 days
-};
-
 const CHART_COLORS = {
   HIGH: '#EF4444',
   MEDIUM: '#F59E0B',
@@ -40,19 +34,19 @@ const CHART_COLORS = {
 const STATUS_OPTIONS = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'analysis.status.all' as const,
     icon: Filter,
     color: 'text-gray-400'
   },
   { 
     value: 'IN_PROGRESS', 
-    label: 'Em Andamento',
+    labelKey: 'request.status.IN_PROGRESS' as const,
     icon: Clock,
     color: 'text-blue-400'
   },
   { 
     value: 'ON_HOLD', 
-    label: 'Em Espera',
+    labelKey: 'request.status.ON_HOLD' as const,
     icon: PauseCircle,
     color: 'text-orange-400'
   }
@@ -121,20 +115,19 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return format(parseISO(dateStr), t('format.dateTime'), { locale: getDateLocale() });
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
   const getSLAStatus = (request: Request) => {
     try {
-      const priority = normalizeRequestPriority(request.Priority);
-      const threshold = REQUEST_SLA_THRESHOLDS[priority] || 5; // Default to 5 days
+      const threshold = getRequestSLADays(request);
       
       const opened = parseISO(request.Opened);
       const now = new Date();
-      const daysElapsed = differenceInDays(now, opened);
+      const daysElapsed = getRequestSLAElapsedDays(request, opened, now);
       
       // Calculate percentage of SLA consumed
       const percentage = Math.min(100, Math.round((daysElapsed / threshold) * 100));
@@ -206,10 +199,10 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-xl font-semibold text-white">
-                Solicitações em Andamento
+                {t('requestModal.inProgressTitle')}
               </h2>
               <p className="text-gray-400 mt-1">
-                {filteredRequests.length} solicitações encontradas
+                {t('requestModal.found', { count: filteredRequests.length })}
               </p>
             </div>
             <button
@@ -247,7 +240,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                   `}
                 >
                   <Icon className="h-4 w-4" />
-                  <span>{option.label}</span>
+                  <span>{t(option.labelKey)}</span>
                   <span className="ml-2 px-2 py-0.5 rounded-full bg-[#151B2B] text-xs">
                     {count}
                   </span>
@@ -261,27 +254,27 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">
                   <button 
                     className="flex items-center gap-1 hover:text-white"
                     onClick={() => handleSortChange('date')}
                   >
-                    Data {getSortIcon('date')}
+                    {t('incident.date')} {getSortIcon('date')}
                   </button>
                 </th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Grupo</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.group')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">
                   <button 
                     className="flex items-center gap-1 hover:text-white"
                     onClick={() => handleSortChange('priority')}
                   >
-                    Prioridade {getSortIcon('priority')}
+                    {t('field.priority')} {getSortIcon('priority')}
                   </button>
                 </th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">
                   <button 
                     className="flex items-center gap-1 hover:text-white"
@@ -336,8 +329,8 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                         </div>
                         <span className="text-xs text-gray-400 mt-1">
                           {slaStatus.status === 'critical' 
-                            ? 'SLA excedido' 
-                            : `${slaStatus.remaining} ${slaStatus.remaining === 1 ? 'dia' : 'dias'} restantes`}
+                            ? t('requestModal.slaExceeded') 
+                            : t('requestModal.remaining', { time: formatSLADays(slaStatus.remaining) })}
                         </span>
                       </div>
                     </td>
@@ -365,7 +358,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
             <div className="p-6 border-b border-gray-700 flex-shrink-0">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-2xl font-bold text-white">
-                  Solicitação {selectedRequest.Number}
+                  {t('requestModal.title', { number: selectedRequest.Number })}
                 </h2>
                 <div className="flex items-center gap-2">
                   <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(selectedRequest.State)}`}>
@@ -375,7 +368,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                     color: CHART_COLORS[normalizeRequestPriority(selectedRequest.Priority) as keyof typeof CHART_COLORS] 
                   }}>
                     <AlertCircle className="h-4 w-4" />
-                    Prioridade {selectedRequest.Priority}
+                    {t('incident.priority', { priority: selectedRequest.Priority })}
                   </span>
                   <button
                     onClick={() => setSelectedRequest(null)}
@@ -385,11 +378,11 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                   </button>
                 </div>
               </div>
-              <h3 className="text-lg text-white">Descrição Resumida</h3>
+              <h3 className="text-lg text-white">{t('requestModal.shortDescription')}</h3>
               <p className="text-gray-300 mt-2">{selectedRequest.ShortDescription}</p>
               {selectedRequest.Description && (
                 <>
-                  <h3 className="text-lg text-white mt-4">Descrição Completa</h3>
+                  <h3 className="text-lg text-white mt-4">{t('requestModal.fullDescription')}</h3>
                   <p className="text-gray-300 mt-2 whitespace-pre-wrap">{selectedRequest.Description}</p>
                 </>
               )}
@@ -403,7 +396,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                   <div className="flex items-center gap-3">
                     <Timer className="h-5 w-5 text-indigo-400" />
                     <span className="text-white font-medium">
-                      Status do SLA
+                      {t('requestModal.slaStatus')}
                     </span>
                   </div>
                 </div>
@@ -414,7 +407,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                     return (
                       <div className="space-y-4">
                         <div className="flex items-center justify-between">
-                          <span className="text-gray-400">Progresso do SLA</span>
+                          <span className="text-gray-400">{t('requestModal.slaProgress')}</span>
                           <span className={slaStatus.color}>
                             {slaStatus.percentage}%
                           </span>
@@ -430,15 +423,15 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                         </div>
                         <div className="grid grid-cols-2 gap-4">
                           <div>
-                            <p className="text-sm text-gray-400">Tempo Decorrido</p>
+                            <p className="text-sm text-gray-400">{t('requestModal.elapsed')}</p>
                             <p className="text-lg font-medium text-white">
-                              {slaStatus.days} {slaStatus.days === 1 ? 'dia' : 'dias'}
+                              {formatSLADays(slaStatus.days)}
                             </p>
                           </div>
                           <div>
-                            <p className="text-sm text-gray-400">Prazo SLA</p>
+                            <p className="text-sm text-gray-400">{t('requestModal.slaDeadline')}</p>
                             <p className="text-lg font-medium text-white">
-                              {slaStatus.threshold} {slaStatus.threshold === 1 ? 'dia' : 'dias'}
+                              {formatSLADays(slaStatus.threshold)}
                             </p>
                           </div>
                         </div>
@@ -446,7 +439,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                           <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-2">
                             <AlertTriangle className="h-5 w-5 text-red-500" />
                             <p className="text-red-400">
-                              SLA excedido em {slaStatus.days - slaStatus.threshold} {(slaStatus.days - slaStatus.threshold) === 1 ? 'dia' : 'dias'}
+                              {t('requestModal.slaExceededBy', { time: formatSLADays(slaStatus.days - slaStatus.threshold) })}
                             </p>
                           </div>
                         ) : (
@@ -459,7 +452,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                             <p className={`${
                               slaStatus.status === 'warning' ? 'text-yellow-400' : 'text-green-400'
                             }`}>
-                              {slaStatus.remaining} {slaStatus.remaining === 1 ? 'dia' : 'dias'} restantes no SLA
+                              {t('requestModal.remainingInSla', { time: formatSLADays(slaStatus.remaining) })}
                             </p>
                           </div>
                         )}
@@ -475,7 +468,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                   <div className="flex items-center gap-3">
                     <FileText className="h-5 w-5 text-indigo-400" />
                     <span className="text-white font-medium">
-                      Comentários e Notas de Trabalho
+                      {t('incident.comments')}
                     </span>
                   </div>
                 </div>
@@ -491,7 +484,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                     </div>
                   ) : (
                     <p className="text-gray-500 italic">
-                      Nenhum comentário ou nota de trabalho disponível.
+                      {t('incident.noComments')}
                     </p>
                   )}
                 </div>
@@ -502,7 +495,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Solicitante</p>
+                    <p className="text-sm text-gray-400">{t('incident.caller')}</p>
                     <p className="text-white">{selectedRequest.RequestedForName}</p>
                   </div>
                 </div>
@@ -510,7 +503,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Grupo Responsável</p>
+                    <p className="text-sm text-gray-400">{t('incident.assignmentGroup')}</p>
                     <p className="text-white">{normalizeLocationName(selectedRequest.AssignmentGroup)}</p>
                   </div>
                 </div>
@@ -518,7 +511,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                 <div className="flex items-center gap-3">
                   <Calendar className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Data de Abertura</p>
+                    <p className="text-sm text-gray-400">{t('incident.opened')}</p>
                     <p className="text-white">{formatDate(selectedRequest.Opened)}</p>
                   </div>
                 </div>
@@ -526,28 +519,28 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Analista Responsável</p>
-                    <p className="text-white">{selectedRequest.AssignedTo || 'Não atribuído'}</p>
+                    <p className="text-sm text-gray-400">{t('incident.assignedTo')}</p>
+                    <p className="text-white">{selectedRequest.AssignedTo || t('incident.unassigned')}</p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
                   <FileText className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Tipo de Solicitação</p>
-                    <p className="text-white">{selectedRequest.RequestItem || 'Não categorizado'}</p>
+                    <p className="text-sm text-gray-400">{t('requestModal.requestType')}</p>
+                    <p className="text-white">{selectedRequest.RequestItem || t('analysis.uncategorized')}</p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
                   <Clock className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Última Atualização</p>
+                    <p className="text-sm text-gray-400">{t('incident.updated')}</p>
                     <p className="text-white">
-                      {selectedRequest.Updated ? formatDate(selectedRequest.Updated) : 'Não atualizado'}
+                      {selectedRequest.Updated ? formatDate(selectedRequest.Updated) : t('incident.notUpdated')}
                     </p>
                     {selectedRequest.UpdatedBy && (
-                      <p className="text-sm text-gray-400">por {selectedRequest.UpdatedBy}</p>
+                      <p className="text-sm text-gray-400">{t('incident.updatedBy', { name: selectedRequest.UpdatedBy })}</p>
                     )}
                   </div>
                 </div>
@@ -560,7 +553,7 @@ export function InProgressRequestsModal({ requests, onClose }: InProgressRequest
                 onClick={() => setSelectedRequest(null)}
                 className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white transition-colors"
               >
-                Fechar
+                {t('incident.close')}
               </button>
             </div>
           </div>
@@ -13,23 +13,17 @@ import {
   Timer
 } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { format, parseISO, differenceInHours, differenceInDays } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-import { normalizePriority } from '../utils/incidentUtils';
+import { parseISO, differenceInDays } from 'date-fns';
+import { formatSLAOverdue, getIncidentSLADeadline, getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { getCategoryLabel, getNormalizedCategory, getNormalizedSubcategory } from '../utils/categoryUtils';
 
 interface IncidentDetailsProps {
   incident: Incident;
   onClose: () => void;
 }
 
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hour
-  P2: 4,   // 4 hours
-  P3: 36,  // 36 hours
-  P4: 72   // 72 hours
-};
-
 export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
   const [showComments, setShowComments] = useState(true);
 
@@ -101,10 +95,10 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
   const formatDate = (dateStr: string) => {
     try {
       const date = parseDateFlexible(dateStr);
-      if (!date) return 'Não atualizado';
-      return format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      if (!date) return t('incident.notUpdated');
+      return formatLocalizedDate(date);
     } catch (e) {
-      return 'Não atualizado';
+      return t('incident.notUpdated');
     }
   };
 
@@ -125,8 +119,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
 
   const getSLABreachTime = () => {
     try {
-      const priority = normalizePriority(incident.Priority);
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
+      const threshold = getIncidentSLAHours(incident);
       const opened = parseDateFlexible(incident.Opened);
       let lastUpdate: Date | undefined;
       if (incident.Updated && parseDateFlexible(incident.Updated)) {
@@ -137,18 +130,13 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
         lastUpdate = new Date();
       }
       if (!opened || !lastUpdate) return null;
-      const totalHours = differenceInHours(lastUpdate, opened);
+      const totalHours = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
       if (totalHours <= threshold) {
         return null; // Dentro do SLA
       }
       const hoursOverSLA = totalHours - threshold;
       if (isNaN(hoursOverSLA) || hoursOverSLA < 0) return null;
-      const days = Math.floor(hoursOverSLA / 24);
-      const remainingHours = hoursOverSLA % 24;
-      if (days > 0) {
-        return `${days} ${days === 1 ? 'dia' : 'dias'}${remainingHours > 0 ? ` e ${remainingHours} ${remainingHours === 1 ? 'hora' : 'horas'}` : ''} fora do SLA`;
-      }
-      return `${hoursOverSLA} ${hoursOverSLA === 1 ? 'hora' : 'horas'} fora do SLA`;
+      return t('sla.breach', { time: formatSLAOverdue(hoursOverSLA) });
     } catch (e) {
       return null;
     }
@@ -156,6 +144,18 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
 
   const slaBreachTime = getSLABreachTime();
 
+  // Prazo de vencimento considerando o calendário de atendimento (apenas chamados abertos)
+  const getSLADeadline = () => {
+    if (slaBreachTime || isClosed()) return null;
+    const opened = parseDateFlexible(incident.Opened);
+    if (!opened) return null;
+    const deadline = getIncidentSLADeadline(incident, opened);
+    if (isNaN(deadline.getTime())) return null;
+    return t('incident.dueAt', { date: formatLocalizedDate(deadline) });
+  };
+
+  const slaDeadline = getSLADeadline();
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
       <div 
@@ -166,7 +166,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
         <div className="p-6 border-b border-gray-700 flex-shrink-0">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-2xl font-bold text-white">
-              Chamado {incident.Number}
+              {t('incident.title', { number: incident.Number })}
             </h2>
             <div className="flex items-center gap-2">
               <span className="px-3 py-1 rounded-full text-sm font-medium bg-yellow-500/20 text-yellow-400">
@@ -174,7 +174,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
               </span>
               <span className="flex items-center gap-1 text-sm text-red-500">
                 <Timer className="h-4 w-4" />
-                Prioridade {incident.Priority}
+                {t('incident.priority', { priority: incident.Priority })}
               </span>
               <button
                 onClick={onClose}
@@ -184,7 +184,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
               </button>
             </div>
           </div>
-          <h3 className="text-lg text-white">Descrição</h3>
+          <h3 className="text-lg text-white">{t('incident.description')}</h3>
           <p className="text-gray-300 mt-2">{incident.ShortDescription}</p>
         </div>
 
@@ -199,7 +199,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
               <div className="flex items-center gap-3">
                 <MessageSquare className="h-5 w-5 text-indigo-400" />
                 <span className="text-white font-medium">
-                  Comentários e Notas de Trabalho
+                  {t('incident.comments')}
                 </span>
               </div>
               {showComments ? (
@@ -221,7 +221,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
                   </div>
                 ) : (
                   <p className="text-gray-500 italic">
-                    Nenhum comentário ou nota de trabalho disponível.
+                    {t('incident.noComments')}
                   </p>
                 )}
               </div>
@@ -233,7 +233,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
             <div className="flex items-center gap-3">
               <User className="h-5 w-5 text-gray-400" />
               <div>
-                <p className="text-sm text-gray-400">Solicitante</p>
+                <p className="text-sm text-gray-400">{t('incident.caller')}</p>
                 <p className="text-white">{incident.Caller}</p>
               </div>
             </div>
@@ -241,7 +241,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
             <div className="flex items-center gap-3">
               <Users className="h-5 w-5 text-gray-400" />
               <div>
-                <p className="text-sm text-gray-400">Grupo Responsável</p>
+                <p className="text-sm text-gray-400">{t('incident.assignmentGroup')}</p>
                 <p className="text-white">{normalizeLocationName(incident.AssignmentGroup)}</p>
               </div>
             </div>
@@ -249,7 +249,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
             <div className="flex items-center gap-3">
               <Calendar className="h-5 w-5 text-gray-400" />
               <div>
-                <p className="text-sm text-gray-400">Data de Abertura</p>
+                <p className="text-sm text-gray-400">{t('incident.opened')}</p>
                 <p className="text-white">{formatDate(incident.Opened)}</p>
               </div>
             </div>
@@ -257,18 +257,21 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
             <div className="flex items-center gap-3">
               <User className="h-5 w-5 text-gray-400" />
               <div>
-                <p className="text-sm text-gray-400">Analista Responsável</p>
-                <p className="text-white">{incident.AssignedTo || 'Não atribuído'}</p>
+                <p className="text-sm text-gray-400">{t('incident.assignedTo')}</p>
+                <p className="text-white">{incident.AssignedTo || t('incident.unassigned')}</p>
               </div>
             </div>
 
             <div className="flex items-center gap-3">
               <Tag className="h-5 w-5 text-gray-400" />
               <div>
-                <p className="text-sm text-gray-400">Categoria</p>
-                <p className="text-white">{incident.Category || 'Não categorizado'}</p>
-                {incident.Subcategory && (
-                  <p className="text-sm text-gray-400">{incident.Subcategory}</p>
+                <p className="text-sm text-gray-400">{t('incident.category')}</p>
+                <p className="text-white">{getCategoryLabel(getNormalizedCategory(incident))}</p>
+                {getNormalizedSubcategory(incident) && (
+                  <p className="text-sm text-gray-400">{getNormalizedSubcategory(incident)}</p>
+                )}
+                {incident.Category && incident.Category !== getNormalizedCategory(incident) && (
+                  <p className="text-xs text-gray-500">{t('incident.originalCategory', { category: incident.Category })}</p>
                 )}
               </div>
             </div>
@@ -276,12 +279,12 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
             <div className="flex items-center gap-3">
               <Clock className="h-5 w-5 text-gray-400" />
               <div>
-                <p className="text-sm text-gray-400">Última Atualização</p>
+                <p className="text-sm text-gray-400">{t('incident.updated')}</p>
                 <p className="text-white">
                   {formatDate(incident.Updated)}
                 </p>
                 {incident.UpdatedBy && (
-                  <p className="text-sm text-gray-400">por {incident.UpdatedBy}</p>
+                  <p className="text-sm text-gray-400">{t('incident.updatedBy', { name: incident.UpdatedBy })}</p>
                 )}
                 {slaBreachTime && (
                   <div className="flex items-center gap-1 mt-1">
@@ -289,6 +292,12 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
                     <p className="text-sm text-red-400">{slaBreachTime}</p>
                   </div>
                 )}
+                {slaDeadline && (
+                  <div className="flex items-center gap-1 mt-1">
+                    <Timer className="h-4 w-4 text-yellow-400" />
+                    <p className="text-sm text-yellow-400">{slaDeadline}</p>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -300,7 +309,7 @@ export function IncidentDetails({ incident, onClose }: IncidentDetailsProps) {
             onClick={onClose}
             className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white transition-colors"
           >
-            Fechar
+            {t('incident.close')}
           </button>
         </div>
       </div>
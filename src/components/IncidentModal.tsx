@@ -2,8 +2,9 @@ import React, { useState } from 'react';
 import { X, Eye } from 'lucide-react';
 import type { Incident } from '../types/incident';
 import { format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-import { normalizePriority, getIncidentState, formatIncidentDate } from '../utils/incidentUtils';
+import { normalizePriority, getIncidentState, getIncidentStateLabel, formatIncidentDate } from '../utils/incidentUtils';
+import { formatSLAOverdue } from '../utils/slaUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface IncidentModalProps {
   incidents: Incident[];
@@ -17,10 +18,10 @@ const formatDate = (dateStr: string) => {
   try {
     if (!dateStr) return '-';
     const date = new Date(dateStr);
-    if (!date || isNaN(date.getTime())) return 'Data inválida';
-    return format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+    if (!date || isNaN(date.getTime())) return t('format.invalidDate');
+    return format(date, t('format.dateTime'), { locale: getDateLocale() });
   } catch (e) {
-    return 'Data inválida';
+    return t('format.invalidDate');
   }
 };
 
@@ -33,18 +34,18 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
         <div className="p-6 border-b border-gray-700">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-white">
-              Incidentes do Associado: {user}
+              {t('incident.userIncidents', { user })}
             </h2>
             <button
               onClick={onClose}
               className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-              aria-label="Fechar modal"
+              aria-label={t('incident.closeModal')}
             >
               <X className="h-5 w-5 text-gray-400 hover:text-white" />
             </button>
           </div>
           <p className="text-gray-400 mt-1">
-            Total de incidentes: {incidents.length}
+            {t('incident.totalIncidents', { count: incidents.length })}
           </p>
         </div>
 
@@ -53,13 +54,13 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
             <table className="w-full text-sm">
               <thead>
                 <tr className="text-gray-300 border-b border-[#232B41]">
-                  <th className="px-2 py-2 text-left">Número</th>
-                  <th className="px-2 py-2 text-left">Data</th>
-                  <th className="px-2 py-2 text-left">Descrição</th>
-                  <th className="px-2 py-2 text-left">Solicitante</th>
-                  <th className="px-2 py-2 text-left">Grupo</th>
-                  <th className="px-2 py-2 text-left">Tempo</th>
-                  <th className="px-2 py-2 text-left">Estado</th>
+                  <th className="px-2 py-2 text-left">{t('incident.number')}</th>
+                  <th className="px-2 py-2 text-left">{t('incident.date')}</th>
+                  <th className="px-2 py-2 text-left">{t('incident.description')}</th>
+                  <th className="px-2 py-2 text-left">{t('incident.caller')}</th>
+                  <th className="px-2 py-2 text-left">{t('incident.group')}</th>
+                  <th className="px-2 py-2 text-left">{t('incident.time')}</th>
+                  <th className="px-2 py-2 text-left">{t('incident.state')}</th>
                   <th className="px-2 py-2 text-center"></th>
                 </tr>
               </thead>
@@ -74,10 +75,8 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
                     if (!isNaN(opened.getTime()) && !isNaN(updated.getTime())) {
                       const diffMs = updated.getTime() - opened.getTime();
                       const diffH = Math.floor(diffMs / (1000 * 60 * 60));
-                      const dias = Math.floor(diffH / 24);
-                      const horas = diffH % 24;
-                      if (dias > 0 || horas > 0) {
-                        tempoFora = `${dias > 0 ? dias + ' dias' : ''}${dias > 0 && horas > 0 ? ' e ' : ''}${horas > 0 ? horas + ' horas' : ''}`;
+                      if (diffH > 0) {
+                        tempoFora = formatSLAOverdue(diffH);
                       }
                     }
                   }
@@ -99,7 +98,7 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
                       if (prioridade === 'P3') sla = 36;
                       if (prioridade === 'P4') sla = 72;
                       if (diffH > sla) {
-                        slaMsg = tempoFora + ' fora do SLA';
+                        slaMsg = t('sla.breach', { time: tempoFora });
                         slaColor = 'text-red-500 font-semibold';
                       }
                     }
@@ -117,12 +116,12 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
                         {slaMsg ? <span className={slaColor}>{slaMsg}</span> : '-'}
                       </td>
                       <td className="px-2 py-2 whitespace-nowrap">
-                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${estado === 'Fechado' ? 'bg-green-600/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{estado}</span>
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${estado === 'Fechado' ? 'bg-green-600/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{getIncidentStateLabel(incident.State)}</span>
                       </td>
                       <td className="px-2 py-2 text-center">
                         <button
                           className="p-2 rounded-full hover:bg-[#2D3748] text-gray-400 hover:text-white transition-colors"
-                          title="Ver detalhes do chamado"
+                          title={t('incident.showDetails')}
                           onClick={() => setSelectedIncident(incident)}
                         >
                           <Eye className="h-5 w-5" />
@@ -143,49 +142,49 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
             <button
               onClick={() => setSelectedIncident(null)}
               className="absolute top-4 right-4 text-gray-400 hover:text-white"
-              aria-label="Fechar detalhes do chamado"
+              aria-label={t('incident.closeDetails')}
             >
               <X className="h-5 w-5" />
             </button>
             <h2 className="text-xl font-semibold text-white mb-4">
-              Chamado {selectedIncident.Number}
+              {t('incident.title', { number: selectedIncident.Number })}
             </h2>
             <div className="flex items-center gap-3 mb-2">
-              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getIncidentState(selectedIncident.State) === 'Fechado' ? 'bg-green-600/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{getIncidentState(selectedIncident.State)}</span>
-              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${normalizePriority(selectedIncident.Priority) === 'P1' ? 'bg-red-500/20 text-red-400' : normalizePriority(selectedIncident.Priority) === 'P2' ? 'bg-orange-500/20 text-orange-400' : normalizePriority(selectedIncident.Priority) === 'P3' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}>Prioridade {normalizePriority(selectedIncident.Priority)}</span>
+              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${getIncidentState(selectedIncident.State) === 'Fechado' ? 'bg-green-600/20 text-green-400' : 'bg-yellow-500/20 text-yellow-400'}`}>{getIncidentStateLabel(selectedIncident.State)}</span>
+              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${normalizePriority(selectedIncident.Priority) === 'P1' ? 'bg-red-500/20 text-red-400' : normalizePriority(selectedIncident.Priority) === 'P2' ? 'bg-orange-500/20 text-orange-400' : normalizePriority(selectedIncident.Priority) === 'P3' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-green-500/20 text-green-400'}`}>{t('incident.priority', { priority: normalizePriority(selectedIncident.Priority) })}</span>
             </div>
-            <div className="font-semibold text-gray-200 block mb-2 text-lg">Descrição</div>
+            <div className="font-semibold text-gray-200 block mb-2 text-lg">{t('incident.description')}</div>
             <div className="text-base text-gray-100 bg-[#151B2B] rounded p-3 shadow-inner mb-4">
               {selectedIncident.Description || selectedIncident.ShortDescription || '-'}
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 mt-4">
               <div className="space-y-4">
                 <div className="flex items-start gap-2">
-                  <span className="text-gray-400 font-semibold">Solicitante</span>
+                  <span className="text-gray-400 font-semibold">{t('incident.caller')}</span>
                   <span className="text-white font-normal">{selectedIncident.Caller || '-'}</span>
                 </div>
                 <div className="flex items-start gap-2">
-                  <span className="text-gray-400 font-semibold">Data de Abertura</span>
+                  <span className="text-gray-400 font-semibold">{t('incident.opened')}</span>
                   <span className="text-white font-normal">{formatIncidentDate(selectedIncident.Opened)}</span>
                 </div>
                 <div className="flex items-start gap-2">
-                  <span className="text-gray-400 font-semibold">Categoria</span>
+                  <span className="text-gray-400 font-semibold">{t('incident.category')}</span>
                   <span className="text-white font-normal">{selectedIncident.Category || '-'}</span>
                 </div>
               </div>
               <div className="space-y-4">
                 <div className="flex items-start gap-2">
-                  <span className="text-gray-400 font-semibold">Grupo Responsável</span>
+                  <span className="text-gray-400 font-semibold">{t('incident.assignmentGroup')}</span>
                   <span className="text-white font-normal">{selectedIncident.AssignmentGroup || '-'}</span>
                 </div>
                 <div className="flex items-start gap-2">
-                  <span className="text-gray-400 font-semibold">Analista Responsável</span>
+                  <span className="text-gray-400 font-semibold">{t('incident.assignedTo')}</span>
                   <span className="text-white font-normal">{selectedIncident.AssignedTo || '-'}</span>
                 </div>
                 <div className="flex items-start gap-2">
-                  <span className="text-gray-400 font-semibold">Última Atualização</span>
+                  <span className="text-gray-400 font-semibold">{t('incident.updated')}</span>
                   <span className="text-white font-normal">
-                    {['Data inválida', '-'].includes(formatIncidentDate(selectedIncident.Updated)) ? '-' : formatIncidentDate(selectedIncident.Updated)}
+                    {[t('format.invalidDate'), '-'].includes(formatIncidentDate(selectedIncident.Updated)) ? '-' : formatIncidentDate(selectedIncident.Updated)}
                   </span>
                 </div>
                 {/* SLA info */}
@@ -203,9 +202,7 @@ export function IncidentModal({ incidents, user, onClose, startDate, endDate }:
                       if (!isNaN(opened.getTime()) && !isNaN(updated.getTime())) {
                         const diffH = Math.floor((updated.getTime() - opened.getTime()) / (1000 * 60 * 60));
                         if (diffH > sla) {
-                          const dias = Math.floor((diffH - sla) / 24);
-                          const horas = (diffH - sla) % 24;
-                          return <span>⏱ {dias > 0 ? dias + ' dias' : ''}{dias > 0 && horas > 0 ? ' e ' : ''}{horas > 0 ? horas + ' horas' : ''} fora do SLA</span>;
+                          return <span>⏱ {t('sla.breach', { time: formatSLAOverdue(diffH - sla) })}</span>;
                         }
                       }
                     }
@@ -0,0 +1,28 @@
+import { Globe } from 'lucide-react';
+import { Language } from '../types/i18n';
+import { LANGUAGE_OPTIONS, t } from '../utils/i18nUtils';
+
+interface LanguageSelectorProps {
+  language: Language;
+  onChange: (language: Language) => void;
+}
+
+export function LanguageSelector({ language, onChange }: LanguageSelectorProps) {
+  return (
+    <label
+      title={t('header.language')}
+      className="inline-flex items-center px-3 py-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-white font-medium transition-colors"
+    >
+      <Globe className="w-5 h-5 mr-2 text-gray-400" />
+      <select
+        value={language}
+        onChange={(e) => onChange(e.target.value as Language)}
+        className="bg-transparent text-white focus:outline-none"
+      >
+        {LANGUAGE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value} className="bg-[#151B2B]">{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
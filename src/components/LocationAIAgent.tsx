@@ -20,8 +20,8 @@ import {
   isWithinInterval
 } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { normalizePriority } from '../utils/incidentUtils';
 import { normalizeRequestPriority } from '../types/request';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
 
 interface LocationAIAgentProps {
   location: string;
@@ -106,7 +106,6 @@ export function LocationAIAgent({ location, incidents, requests, startDate, endD
         let totalForSLA = 0;
         
         monthIncidents.forEach(incident => {
-          const priority = normalizePriority(incident.Priority);
           const state = incident.State?.toLowerCase() || '';
           
           // Only count closed incidents for SLA
@@ -114,17 +113,12 @@ export function LocationAIAgent({ location, incidents, requests, startDate, endD
             totalForSLA++;
             
             // Check if within SLA based on priority
-            const threshold = 
-              priority === 'P1' ? 1 :  // 1 hour
-              priority === 'P2' ? 4 :  // 4 hours
-              priority === 'P3' ? 36 : // 36 hours
-              priority === 'P4' ? 72 : // 72 hours
-              36; // default
+            const threshold = getIncidentSLAHours(incident);
             
             try {
               const opened = parseISO(incident.Opened);
               const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-              const responseHours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
+              const responseHours = getIncidentSLAElapsedHours(incident, opened, closed);
               
               if (responseHours <= threshold) {
                 withinSLA++;
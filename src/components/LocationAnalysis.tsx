@@ -26,10 +26,10 @@ import {
 } from 'lucide-react';
 import { Incident } from '../types/incident';
 import { parseISO, isWithinInterval, format, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { IncidentDetails } from './IncidentDetails';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { normalizePriority, getIncidentState, isHighPriority } from '../utils/incidentUtils';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { formatLocalizedDate, getDateLocale, t } from '../utils/i18nUtils';
 
 type ChartType = 'bar' | 'line' | 'area';
 
@@ -59,9 +59,9 @@ function IncidentModal({ incidents, location, onClose }: IncidentModalProps) {
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -78,10 +78,10 @@ function IncidentModal({ incidents, location, onClose }: IncidentModalProps) {
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados em {location}
+              {t('locationAnalysis.modalTitle', { location })}
             </h2>
             <p className="text-gray-400 mt-1">
-              {incidents.length} chamados encontrados
+              {t('analysis.ticketsFound', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -96,14 +96,14 @@ function IncidentModal({ incidents, location, onClose }: IncidentModalProps) {
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Categoria</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Subcategoria</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Grupo</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Prioridade</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.category')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.subcategory')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.group')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.priority')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -231,7 +231,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
       const locationCounts: Record<string, Record<string, number>> = {};
 
       monthIncidents.forEach(incident => {
-        const location = normalizeLocationName(incident.AssignmentGroup) || 'Não especificado';
+        const location = normalizeLocationName(incident.AssignmentGroup) || t('analysis.notSpecified');
         const priority = normalizePriority(incident.Priority);
 
         if (!locationCounts[location]) {
@@ -251,7 +251,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
 
       return {
         month: month.getTime(),
-        monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+        monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
         ...Object.entries(locationCounts).reduce((acc, [location, counts]) => ({
           ...acc,
           [`${location}_P1`]: counts.P1,
@@ -266,7 +266,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
 
   const locationData = useMemo(() => {
     const data = filteredIncidents.reduce((acc, incident) => {
-      const location = normalizeLocationName(incident.AssignmentGroup) || 'Não especificado';
+      const location = normalizeLocationName(incident.AssignmentGroup) || t('analysis.notSpecified');
       
       if (!acc[location]) {
         acc[location] = {
@@ -291,7 +291,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
       const priority = normalizePriority(incident.Priority);
       acc[location][priority]++;
 
-      if ((priority === 'P1' || priority === 'P2') && getIncidentState(incident.State) !== 'Fechado') {
+      if (isHighPriority(priority) && getIncidentState(incident.State) !== 'Fechado') {
         acc[location].openCritical++;
       }
 
@@ -330,12 +330,12 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
   const getFilterSummary = () => {
     const parts = [];
     if (selectedSubcategory) {
-      parts.push(`Subcategoria: ${selectedSubcategory}`);
+      parts.push(t('locationAnalysis.subcategoryFilter', { value: selectedSubcategory }));
     }
     if (selectedGroup) {
-      parts.push(`Grupo: ${selectedGroup}`);
+      parts.push(t('locationAnalysis.groupFilter', { value: selectedGroup }));
     }
-    return parts.length > 0 ? parts.join(' • ') : 'Todos os chamados';
+    return parts.length > 0 ? parts.join(' • ') : t('locationAnalysis.allTickets');
   };
 
   const renderChart = () => {
@@ -367,7 +367,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               }}
               formatter={(value: number, name: string) => {
                 const [location, priority] = name.split('_');
-                return [`${value} chamados`, `${location} - ${priority}`];
+                return [t('analysis.tickets', { count: value }), `${location} - ${priority}`];
               }}
             />
             <Legend 
@@ -476,11 +476,11 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               }}
             />
             <Legend />
-            <Bar dataKey="P1" name="Crítico" fill={CHART_COLORS.P1} stackId="stack" />
-            <Bar dataKey="P2" name="Alto" fill={CHART_COLORS.P2} stackId="stack" />
-            <Bar dataKey="P3" name="Médio" fill={CHART_COLORS.P3} stackId="stack" />
-            <Bar dataKey="P4" name="Baixo" fill={CHART_COLORS.P4} stackId="stack" />
-            <Bar dataKey="undefined" name="Não definido" fill={CHART_COLORS['Não definido']} stackId="stack" />
+            <Bar dataKey="P1" name={t('analysis.priority.critical')} fill={CHART_COLORS.P1} stackId="stack" />
+            <Bar dataKey="P2" name={t('analysis.priority.high')} fill={CHART_COLORS.P2} stackId="stack" />
+            <Bar dataKey="P3" name={t('analysis.priority.medium')} fill={CHART_COLORS.P3} stackId="stack" />
+            <Bar dataKey="P4" name={t('analysis.priority.low')} fill={CHART_COLORS.P4} stackId="stack" />
+            <Bar dataKey="undefined" name={t('analysis.priority.undefined')} fill={CHART_COLORS['Não definido']} stackId="stack" />
           </BarChart>
         );
     }
@@ -490,7 +490,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
     return (
       <div className="bg-[#151B2B] p-6 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-white">Análise por Localidade</h2>
+          <h2 className="text-xl font-semibold text-white">{t('locationAnalysis.title')}</h2>
           {onClose && (
             <button
               onClick={onClose}
@@ -501,7 +501,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
           )}
         </div>
         <div className="text-center py-8">
-          <p className="text-gray-400">Nenhum incidente encontrado para os filtros selecionados.</p>
+          <p className="text-gray-400">{t('locationAnalysis.empty')}</p>
         </div>
       </div>
     );
@@ -510,7 +510,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise por Localidade</h2>
+        <h2 className="text-xl font-semibold text-white">{t('locationAnalysis.title')}</h2>
         <div className="flex items-center gap-2">
           <div className="flex bg-[#1C2333] rounded-lg p-1">
             <button
@@ -518,7 +518,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               className={`p-2 rounded-lg transition-colors ${
                 chartType === 'bar' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
               }`}
-              title="Gráfico de Barras"
+              title={t('analysis.barChart')}
             >
               <BarChart2 className="h-5 w-5" />
             </button>
@@ -527,7 +527,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               className={`p-2 rounded-lg transition-colors ${
                 chartType === 'line' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
               }`}
-              title="Gráfico de Linha"
+              title={t('analysis.lineChart')}
             >
               <LineChartIcon className="h-5 w-5" />
             </button>
@@ -536,7 +536,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               className={`p-2 rounded-lg transition-colors ${
                 chartType === 'area' ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
               }`}
-              title="Gráfico de Área"
+              title={t('analysis.areaChart')}
             >
               <TrendingUp className="h-5 w-5" />
             </button>
@@ -545,7 +545,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
             <button
               onClick={onClose}
               className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-              aria-label="Fechar análise"
+              aria-label={t('analysis.close')}
             >
               <X className="h-5 w-5 text-gray-400 hover:text-white" />
             </button>
@@ -562,7 +562,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               onChange={(e) => setSelectedSubcategory(e.target.value)}
               className="w-full bg-[#151B2B] text-white border border-gray-700 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             >
-              <option value="">Todas as Subcategorias</option>
+              <option value="">{t('locationAnalysis.allSubcategories')}</option>
               {subcategories.map(subcategory => (
                 <option key={subcategory} value={subcategory}>
                   {subcategory}
@@ -578,7 +578,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
               onChange={(e) => setSelectedGroup(e.target.value)}
               className="w-full bg-[#151B2B] text-white border border-gray-700 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             >
-              <option value="">Todos os Grupos</option>
+              <option value="">{t('locationAnalysis.allGroups')}</option>
               {groups.map(group => (
                 <option key={group} value={group}>
                   {group}
@@ -594,7 +594,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
       </div>
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição por Localidade</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('locationAnalysis.distribution')}</h3>
         <div className="h-[500px]">
           <ResponsiveContainer width="100%" height="100%">
             {renderChart()}
@@ -616,7 +616,7 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
                   <h4 className="text-lg font-medium text-white">{location.name}</h4>
                 </div>
                 <p className="text-sm text-gray-400 mt-1">
-                  {location.userCount} usuários ativos
+                  {t('locationAnalysis.activeUsers', { count: location.userCount })}
                 </p>
               </div>
               <span className="text-2xl font-bold text-white">{location.total}</span>
@@ -624,13 +624,13 @@ export function LocationAnalysis({ incidents, onClose, startDate, endDate }: Loc
 
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-red-400">Críticos (P1/P2)</span>
+                <span className="text-red-400">{t('locationAnalysis.critical')}</span>
                 <span className="text-white">{location.P1 + location.P2}</span>
               </div>
               {location.openCritical > 0 && (
                 <div className="flex items-center gap-2 text-sm text-yellow-300">
                   <AlertTriangle className="h-4 w-4" />
-                  <span>{location.openCritical} em aberto</span>
+                  <span>{t('analysis.open', { count: location.openCritical })}</span>
                 </div>
               )}
               <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
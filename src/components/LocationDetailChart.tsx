@@ -3,8 +3,8 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { Incident } from '../types/incident';
 import { Request } from '../types/request';
 import { format, parseISO, startOfMonth, endOfMonth, eachMonthOfInterval, isWithinInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface LocationDetailChartProps {
   location: string;
@@ -29,7 +29,7 @@ export function LocationDetailChart({ location, incidents, requests, startDate,
     return months.map(month => {
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
-      const monthLabel = format(month, 'MMM/yy', { locale: ptBR });
+      const monthLabel = format(month, 'MMM/yy', { locale: getDateLocale() });
       const incidentsTotal = incidents.filter(incident => {
         try {
           const incidentDate = parseISO(incident.Opened);
@@ -58,11 +58,13 @@ export function LocationDetailChart({ location, incidents, requests, startDate,
         <button
           onClick={onClose}
           className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
-          aria-label="Fechar"
+          aria-label={t('location.close')}
         >
           ×
         </button>
-        <h2 className="text-2xl font-bold text-white mb-6">{location}</h2>
+        <h2 className="text-2xl font-bold text-white mb-6">
+          {location === 'Não especificado' ? t('location.unspecified') : location}
+        </h2>
         <div className="h-[350px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={monthlyData} margin={{ top: 20, right: 30, left: 20, bottom: 40 }}>
@@ -71,10 +73,10 @@ export function LocationDetailChart({ location, incidents, requests, startDate,
               <YAxis tick={{ fill: '#9CA3AF', fontSize: 12 }} />
               <Tooltip />
               <Legend />
-              <Bar dataKey="incidentsTotal" name="Incidentes" fill={CHART_COLORS.incidents} radius={[4, 4, 0, 0]}>
+              <Bar dataKey="incidentsTotal" name={t('location.incidents')} fill={CHART_COLORS.incidents} radius={[4, 4, 0, 0]}>
                 <LabelList dataKey="incidentsTotal" position="top" fill="#9CA3AF" fontSize={12} />
               </Bar>
-              <Bar dataKey="requestsTotal" name="Requisições" fill={CHART_COLORS.requests} radius={[4, 4, 0, 0]}>
+              <Bar dataKey="requestsTotal" name={t('location.requests')} fill={CHART_COLORS.requests} radius={[4, 4, 0, 0]}>
                 <LabelList dataKey="requestsTotal" position="top" fill="#9CA3AF" fontSize={12} />
               </Bar>
             </BarChart>
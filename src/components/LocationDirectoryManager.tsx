@@ -0,0 +1,339 @@
+import { useState } from 'react';
+import { MapPin, Plus, Save, Trash2, RotateCcw, X, AlertCircle, AlertTriangle } from 'lucide-react';
+import { Incident } from '../types/incident';
+import { Request } from '../types/request';
+import { LocationDirectoryEntry } from '../types/location';
+import { BRAZILIAN_STATES } from '../utils/calendarUtils';
+import {
+  DEFAULT_TIMEZONE,
+  deleteLocationEntry,
+  findUnmappedLocationGroups,
+  loadLocationDirectory,
+  resetLocationDirectory,
+  saveLocationEntry
+} from '../utils/locationUtils';
+import { t } from '../utils/i18nUtils';
+
+interface LocationDirectoryManagerProps {
+  incidents: Incident[];
+  requests: Request[];
+  onClose: () => void;
+  // Chamado após salvar/excluir para que os agrupamentos por localidade sejam refeitos
+  onChanged: () => void;
+}
+
+type LocationDraft = Omit<LocationDirectoryEntry, 'id' | 'updatedAt' | 'patterns' | 'headcount'> & {
+  id?: string;
+  patterns: string;
+  headcount: string;
+};
+
+const BRAZILIAN_TIMEZONES = [
+  'America/Sao_Paulo',
+  'America/Bahia',
+  'America/Fortaleza',
+  'America/Recife',
+  'America/Belem',
+  'America/Manaus',
+  'America/Cuiaba',
+  'America/Campo_Grande',
+  'America/Porto_Velho',
+  'America/Boa_Vista',
+  'America/Rio_Branco',
+  'America/Noronha'
+];
+
+const toDraft = (entry: LocationDirectoryEntry): LocationDraft => ({
+  ...entry,
+  patterns: entry.patterns.join('\n'),
+  headcount: entry.headcount ? String(entry.headcount) : ''
+});
+
+const createDraft = (patterns = ''): LocationDraft => ({
+  shortName: '',
+  patterns,
+  region: '',
+  state: '',
+  timezone: DEFAULT_TIMEZONE,
+  headcount: ''
+});
+
+export function LocationDirectoryManager({ incidents, requests, onClose, onChanged }: LocationDirectoryManagerProps) {
+  const [entries, setEntries] = useState<LocationDirectoryEntry[]>(() => loadLocationDirectory());
+  const [draft, setDraft] = useState<LocationDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Recalculado a cada render: o diretório muda a cada gravação
+  const unmappedGroups = findUnmappedLocationGroups([
+    ...incidents.map(incident => incident.AssignmentGroup),
+    ...requests.map(request => request.AssignmentGroup)
+  ]);
+
+  const refresh = () => {
+    setEntries([...loadLocationDirectory()]);
+    onChanged();
+  };
+
+  const handleMapGroup = (group: string) => {
+    setError(null);
+    if (!draft) {
+      setDraft(createDraft(group));
+      return;
+    }
+    const patterns = draft.patterns.trim() ? `${draft.patterns.trim()}\n${group}` : group;
+    setDraft({ ...draft, patterns });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const shortName = draft.shortName.trim();
+    if (!shortName) {
+      setError(t('locationDirectory.error.name'));
+      return;
+    }
+    if (entries.some(entry => entry.id !== draft.id && entry.shortName.toLowerCase() === shortName.toLowerCase())) {
+      setError(t('locationDirectory.error.duplicate', { name: shortName }));
+      return;
+    }
+    const patterns = draft.patterns.split('\n').map(pattern => pattern.trim()).filter(Boolean);
+    if (patterns.length === 0) {
+      setError(t('locationDirectory.error.patterns'));
+      return;
+    }
+    const headcount = draft.headcount.trim() ? Number(draft.headcount) : 0;
+    if (isNaN(headcount) || headcount < 0) {
+      setError(t('locationDirectory.error.headcount'));
+      return;
+    }
+
+    const saved = saveLocationEntry({
+      id: draft.id,
+      shortName,
+      patterns,
+      region: draft.region.trim(),
+      state: draft.state,
+      timezone: draft.timezone.trim() || DEFAULT_TIMEZONE,
+      headcount: Math.round(headcount)
+    });
+    setDraft(toDraft(saved));
+    setError(null);
+    refresh();
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id) return;
+    deleteLocationEntry(draft.id);
+    setDraft(null);
+    refresh();
+  };
+
+  const handleReset = () => {
+    resetLocationDirectory();
+    setDraft(null);
+    setError(null);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <MapPin className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('locationDirectory.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('locationDirectory.subtitle')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t('locationDirectory.reset')}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            {unmappedGroups.length > 0 && (
+              <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  <h3 className="text-sm font-medium text-yellow-400">
+                    {t('locationDirectory.unmapped', { count: unmappedGroups.length })}
+                  </h3>
+                </div>
+                <ul className="max-h-40 overflow-auto space-y-1">
+                  {unmappedGroups.map(({ group, count }) => (
+                    <li key={group} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-yellow-200 truncate" title={group}>{group}</span>
+                      <span className="flex items-center gap-2 flex-shrink-0">
+                        <span className="text-gray-400">{t('locationDirectory.tickets', { count })}</span>
+                        <button
+                          onClick={() => handleMapGroup(group)}
+                          className="text-indigo-400 hover:text-indigo-300 transition-colors"
+                        >
+                          {t(draft ? 'locationDirectory.add' : 'locationDirectory.map')}
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => { setDraft(toDraft(entry)); setError(null); }}
+                  className={`w-full text-left p-4 rounded-lg transition-colors ${
+                    draft?.id === entry.id ? 'bg-indigo-600/20 border border-indigo-500' : 'bg-[#1C2333] hover:bg-[#252d3d] border border-transparent'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-white font-medium">{entry.shortName}</span>
+                    <span className="text-xs text-gray-400">
+                      {[entry.region, entry.state].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1 truncate">{entry.patterns.join(' · ')}</p>
+                  {entry.headcount > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">{t('locationDirectory.people', { count: entry.headcount })}</p>
+                  )}
+                </button>
+              ))}
+              <button
+                onClick={() => { setDraft(createDraft()); setError(null); }}
+                className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-600 text-gray-300 hover:border-gray-400 transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                {t('locationDirectory.new')}
+              </button>
+            </div>
+          </div>
+
+          {draft ? (
+            <div className="bg-[#1C2333] rounded-lg p-4 space-y-4 self-start">
+              <label className="block text-sm text-gray-400">
+                {t('locationDirectory.shortName')}
+                <input
+                  type="text"
+                  value={draft.shortName}
+                  onChange={(e) => setDraft({ ...draft, shortName: e.target.value })}
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+
+              <label className="block text-sm text-gray-400">
+                {t('locationDirectory.patterns')}
+                <textarea
+                  value={draft.patterns}
+                  onChange={(e) => setDraft({ ...draft, patterns: e.target.value })}
+                  rows={4}
+                  placeholder="Brazil-Santo Andre-*"
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-sm text-gray-400">
+                  {t('locationDirectory.region')}
+                  <input
+                    type="text"
+                    value={draft.region}
+                    onChange={(e) => setDraft({ ...draft, region: e.target.value })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  />
+                </label>
+                <label className="block text-sm text-gray-400">
+                  {t('locationDirectory.state')}
+                  <select
+                    value={draft.state}
+                    onChange={(e) => setDraft({ ...draft, state: e.target.value })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  >
+                    <option value="">{t('locationDirectory.noState')}</option>
+                    {BRAZILIAN_STATES.map(state => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm text-gray-400">
+                  {t('locationDirectory.timezone')}
+                  <input
+                    type="text"
+                    list="location-timezones"
+                    value={draft.timezone}
+                    onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  />
+                  <datalist id="location-timezones">
+                    {BRAZILIAN_TIMEZONES.map(timezone => (
+                      <option key={timezone} value={timezone} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="block text-sm text-gray-400">
+                  {t('locationDirectory.headcount')}
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.headcount}
+                    onChange={(e) => setDraft({ ...draft, headcount: e.target.value })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  />
+                </label>
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-red-400">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                {draft.id ? (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    {t('locationDirectory.delete')}
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={handleSave}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+                >
+                  <Save className="h-4 w-4" />
+                  {t('locationDirectory.save')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400 self-start">
+              {t('locationDirectory.empty')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
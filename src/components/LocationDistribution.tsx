@@ -3,7 +3,9 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsive
 import { Incident } from '../types/incident';
 import { Request } from '../types/request';
 import { format, parseISO, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
-import { normalizeLocationName } from '../utils/locationUtils';
+import { isMappedLocation, normalizeLocationName } from '../utils/locationUtils';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { formatDecimal, formatNumber, t } from '../utils/i18nUtils';
 import { LocationDetailChart } from './LocationDetailChart';
 
 interface LocationDistributionProps {
@@ -132,7 +134,7 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
   const incidentsVar = prevIncidents > 0 ? ((totalIncidents - prevIncidents) / prevIncidents) * 100 : 0;
   const requestsVar = prevRequests > 0 ? ((totalRequests - prevRequests) / prevRequests) * 100 : 0;
 
-  // SLA Global (simples: % incidentes fechados dentro do SLA)
+  // SLA Global: % incidentes fechados dentro do SLA
   const sla = useMemo(() => {
     let withinSLA = 0, total = 0;
     incidents.forEach(incident => {
@@ -141,11 +143,11 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
         if (!isWithinInterval(d, { start: parseISO(startDate), end: parseISO(endDate) })) return;
         if (incident.State && incident.State.toLowerCase().includes('fechado')) {
           total++;
-          // Simples: SLA 36h para todos
+          // Meta e tempo decorrido pela política de SLA e calendário do chamado
           const opened = parseISO(incident.Opened);
           const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-          const hours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
-          if (hours <= 36) withinSLA++;
+          const hours = getIncidentSLAElapsedHours(incident, opened, closed);
+          if (hours <= getIncidentSLAHours(incident)) withinSLA++;
         }
       } catch {}
     });
@@ -163,8 +165,8 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
           total++;
           const opened = parseISO(incident.Opened);
           const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-          const hours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
-          if (hours <= 36) withinSLA++;
+          const hours = getIncidentSLAElapsedHours(incident, opened, closed);
+          if (hours <= getIncidentSLAHours(incident)) withinSLA++;
         }
       } catch {}
     });
@@ -177,7 +179,7 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
       <button
         onClick={onClose}
         className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
-        aria-label="Fechar"
+        aria-label={t('location.close')}
       >
         ×
       </button>
@@ -185,33 +187,38 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         {/* Total de Incidentes */}
         <div className="bg-[#1E233B] rounded-lg p-6 flex flex-col">
-          <span className="text-gray-400 mb-1">Total de Incidentes</span>
-          <span className="text-3xl font-bold text-white">{allIncidents}</span>
-          <span className="text-green-400 text-sm mt-2">{incidentsVar.toFixed(1)}% vs Ano Anterior</span>
+          <span className="text-gray-400 mb-1">{t('executive.totalIncidents')}</span>
+          <span className="text-3xl font-bold text-white">{formatNumber(allIncidents)}</span>
+          <span className="text-green-400 text-sm mt-2">{formatDecimal(incidentsVar)}% {t('executive.vsPreviousYear')}</span>
         </div>
         {/* Total de Requests */}
         <div className="bg-[#1E233B] rounded-lg p-6 flex flex-col">
-          <span className="text-gray-400 mb-1">Total de Requests</span>
-          <span className="text-3xl font-bold text-white">{allRequests}</span>
-          <span className="text-green-400 text-sm mt-2">{requestsVar.toFixed(1)}% vs Ano Anterior</span>
+          <span className="text-gray-400 mb-1">{t('executive.totalRequests')}</span>
+          <span className="text-3xl font-bold text-white">{formatNumber(allRequests)}</span>
+          <span className="text-green-400 text-sm mt-2">{formatDecimal(requestsVar)}% {t('executive.vsPreviousYear')}</span>
         </div>
         {/* SLA Global */}
         <div className="bg-[#1E233B] rounded-lg p-6 flex flex-col">
-          <span className="text-gray-400 mb-1">SLA Global</span>
-          <span className={`text-3xl font-bold ${sla < 80 ? 'text-red-400' : 'text-green-400'}`}>{sla.toFixed(1)}%</span>
+          <span className="text-gray-400 mb-1">{t('executive.globalSla')}</span>
+          <span className={`text-3xl font-bold ${sla < 80 ? 'text-red-400' : 'text-green-400'}`}>{formatDecimal(sla)}%</span>
           <div className="w-full h-2 bg-gray-700 rounded mt-2 mb-1">
             <div className={`h-2 rounded ${sla < 80 ? 'bg-red-400' : 'bg-green-400'}`} style={{ width: `${sla}%` }}></div>
           </div>
-          <span className={`text-sm ${slaVar >= 0 ? 'text-green-400' : 'text-red-400'}`}>{slaVar >= 0 ? '↑' : '↓'} {slaVar.toFixed(1)}pp vs Ano Anterior</span>
+          <span className={`text-sm ${slaVar >= 0 ? 'text-green-400' : 'text-red-400'}`}>{slaVar >= 0 ? '↑' : '↓'} {t('location.slaVsPreviousYear', { value: formatDecimal(slaVar) })}</span>
         </div>
         {/* Proporção */}
         <div className="bg-[#1E233B] rounded-lg p-6 flex flex-col">
-          <span className="text-gray-400 mb-1">Proporção</span>
-          <span className="text-3xl font-bold text-white">{allTotal}</span>
-          <span className="text-sm text-gray-400 mt-2">{allIncidentsPercent.toFixed(0)}% incidentes • {allRequestsPercent.toFixed(0)}% requests</span>
+          <span className="text-gray-400 mb-1">{t('executive.proportion')}</span>
+          <span className="text-3xl font-bold text-white">{formatNumber(allTotal)}</span>
+          <span className="text-sm text-gray-400 mt-2">
+            {t('executive.split', {
+              incidents: formatDecimal(allIncidentsPercent, 0),
+              requests: formatDecimal(allRequestsPercent, 0)
+            })}
+          </span>
         </div>
       </div>
-      <h2 className="text-xl font-semibold text-white mb-4">Distribuição por Localidade Top 5</h2>
+      <h2 className="text-xl font-semibold text-white mb-4">{t('location.top5')}</h2>
       <div className="h-[350px]">
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={data.slice(0, 5).reverse()} layout="vertical" margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
@@ -220,16 +227,16 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
             <YAxis dataKey="location" type="category" tick={{ fill: '#9CA3AF', fontSize: 12 }} width={150} />
             <Tooltip />
             <Legend />
-            <Bar dataKey="incidents" name="Incidentes" fill={CHART_COLORS.incidents} barSize={24} radius={[0, 4, 4, 0]}>
+            <Bar dataKey="incidents" name={t('location.incidents')} fill={CHART_COLORS.incidents} barSize={24} radius={[0, 4, 4, 0]}>
               <LabelList dataKey="incidents" position="right" fill="#9CA3AF" fontSize={12} />
             </Bar>
-            <Bar dataKey="requests" name="Requisições" fill={CHART_COLORS.requests} barSize={24} radius={[0, 4, 4, 0]}>
+            <Bar dataKey="requests" name={t('location.requests')} fill={CHART_COLORS.requests} barSize={24} radius={[0, 4, 4, 0]}>
               <LabelList dataKey="requests" position="right" fill="#9CA3AF" fontSize={12} />
             </Bar>
           </BarChart>
         </ResponsiveContainer>
       </div>
-      <h3 className="text-lg font-semibold text-white mb-2 mt-8">Distribuição Geral dos Incidentes e Requisições por Localidades</h3>
+      <h3 className="text-lg font-semibold text-white mb-2 mt-8">{t('location.overall')}</h3>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-2">
         {data.map((l, idx) => (
           <div
@@ -239,12 +246,28 @@ export function LocationDistribution({ incidents, requests, startDate, endDate,
           >
             <div className="flex items-center gap-2 mb-2">
               <span className="inline-block w-2 h-2 rounded-full" style={{ background: idx === 0 ? '#6366F1' : '#64748B' }}></span>
-              <span className="text-lg font-bold text-white">{l.location}</span>
+              <span className="text-lg font-bold text-white">
+                {l.location === 'Não especificado' ? t('location.unspecified') : l.location}
+              </span>
+              {l.location !== 'Não especificado' && !isMappedLocation(l.location) && (
+                <span
+                  className="px-2 py-0.5 text-xs font-medium bg-yellow-500/20 text-yellow-400 rounded-full"
+                  title={t('location.unmappedHint')}
+                >
+                  {t('location.unmapped')}
+                </span>
+              )}
               <span className="ml-auto text-2xl font-bold text-white">{l.incidents + l.requests}</span>
             </div>
             <div className="flex justify-between text-xs text-gray-400 mt-2">
-              <span>Incidentes: <span className="text-amber-400 font-bold">{l.incidents}</span> ({totalIncidents > 0 ? ((l.incidents / totalIncidents) * 100).toFixed(1) : 0}%)</span>
-              <span>Requests: <span className="text-blue-400 font-bold">{l.requests}</span> ({totalRequests > 0 ? ((l.requests / totalRequests) * 100).toFixed(1) : 0}%)</span>
+              <span>
+                {t('location.incidentsLabel')} <span className="text-amber-400 font-bold">{l.incidents}</span>{' '}
+                ({totalIncidents > 0 ? formatDecimal((l.incidents / totalIncidents) * 100) : 0}%)
+              </span>
+              <span>
+                {t('location.requestsLabel')} <span className="text-blue-400 font-bold">{l.requests}</span>{' '}
+                ({totalRequests > 0 ? formatDecimal((l.requests / totalRequests) * 100) : 0}%)
+              </span>
             </div>
           </div>
         ))}
@@ -23,9 +23,9 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizePriority } from '../utils/incidentUtils';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface LocationHistoryTop5Props {
   incidents: Incident[];
@@ -44,6 +44,10 @@ const CHART_COLORS = {
 
 const PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
 
+// 'Não definido' é a chave das prioridades não reconhecidas; só o rótulo exibido é traduzido
+const getPriorityLabel = (priority: string) =>
+  priority === 'Não definido' ? t('analysis.priority.undefined') : priority;
+
 const CustomTooltip = ({ active, payload, label }: any) => {
   if (!active || !payload || !payload.length) return null;
 
@@ -59,7 +63,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
         ))}
         <div className="pt-2 mt-2 border-t border-gray-700">
           <div className="flex items-center justify-between">
-            <span className="text-gray-400">Total</span>
+            <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
             <span className="text-white font-bold">
               {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
             </span>
@@ -95,7 +99,7 @@ export function LocationHistoryTop5({ incidents, onClose, startDate, endDate }:
         
         if (isWithinInterval(incidentDate, { start, end })) {
           // Use normalized AssignmentGroup
-          const location = normalizeLocationName(incident.AssignmentGroup) || 'Não especificado';
+          const location = normalizeLocationName(incident.AssignmentGroup) || t('analysis.notSpecified');
           locationCount[location] = (locationCount[location] || 0) + 1;
         }
       } catch (error) {
@@ -131,7 +135,7 @@ export function LocationHistoryTop5({ incidents, onClose, startDate, endDate }:
 
       const data: Record<string, any> = {
         month: month.getTime(),
-        monthLabel: format(month, 'MMM/yy', { locale: ptBR }),
+        monthLabel: format(month, 'MMM/yy', { locale: getDateLocale() }),
         total: monthIncidents.length
       };
 
@@ -159,7 +163,7 @@ export function LocationHistoryTop5({ incidents, onClose, startDate, endDate }:
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Top 5 Localidades (por Grupo de Atribuição)</h2>
+        <h2 className="text-xl font-semibold text-white">{t('locationHistory.top5Title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -187,7 +191,7 @@ export function LocationHistoryTop5({ incidents, onClose, startDate, endDate }:
                       {location}
                     </h3>
                     <p className="text-sm text-gray-400">
-                      {monthlyData.reduce((sum, month) => sum + (month[location] || 0), 0)} chamados no período selecionado
+                      {t('categoryHistory.ticketsInPeriod', { count: monthlyData.reduce((sum, month) => sum + (month[location] || 0), 0) })}
                     </p>
                   </div>
                 </div>
@@ -236,7 +240,7 @@ export function LocationHistoryTop5({ incidents, onClose, startDate, endDate }:
                       <Bar
                         key={`${location}_${priority}`}
                         dataKey={`${location}_${priority}`}
-                        name={priority}
+                        name={getPriorityLabel(priority)}
                         fill={CHART_COLORS[priority]}
                         stackId="stack"
                         label={{
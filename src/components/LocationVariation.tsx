@@ -22,6 +22,7 @@ import {
 import { ptBR } from 'date-fns/locale';
 import { normalizeLocationName } from '../utils/locationUtils';
 import { LocationAIAgent } from './LocationAIAgent';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
 
 interface LocationVariationProps {
   incidents: Incident[];
@@ -71,18 +72,12 @@ export function LocationVariation({ incidents, requests, startDate, endDate }: L
         totalForSLA++;
         
         // Check if within SLA based on priority
-        const priority = incident.Priority?.toLowerCase() || '';
-        const threshold = 
-          priority.includes('p1') || priority.includes('1') ? 1 :  // 1 hour
-          priority.includes('p2') || priority.includes('2') ? 4 :  // 4 hours
-          priority.includes('p3') || priority.includes('3') ? 36 : // 36 hours
-          priority.includes('p4') || priority.includes('4') ? 72 : // 72 hours
-          36; // default
+        const threshold = getIncidentSLAHours(incident);
         
         try {
           const opened = parseISO(incident.Opened);
           const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-          const responseHours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
+          const responseHours = getIncidentSLAElapsedHours(incident, opened, closed);
           
           if (responseHours <= threshold) {
             withinSLA++;
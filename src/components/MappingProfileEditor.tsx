@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Columns, Save, Trash2, X, AlertCircle } from 'lucide-react';
+import { ColumnMappingProfile, IngestionTarget } from '../types/ingestion';
+import { getIngestionFields } from '../utils/ingestionUtils';
+import { deleteMappingProfile, saveMappingProfile } from '../utils/mappingProfileUtils';
+import { t } from '../utils/i18nUtils';
+
+interface MappingProfileEditorProps {
+  target: IngestionTarget;
+  profile?: ColumnMappingProfile | null;
+  onClose: () => void;
+  onSaved: (profile: ColumnMappingProfile) => void;
+  onDeleted?: (id: string) => void;
+}
+
+export function MappingProfileEditor({ target, profile, onClose, onSaved, onDeleted }: MappingProfileEditorProps) {
+  const fields = getIngestionFields(target);
+  const [name, setName] = useState(profile?.name ?? '');
+  const [sourceSystem, setSourceSystem] = useState(profile?.sourceSystem ?? '');
+  const [strict, setStrict] = useState(profile?.strict ?? false);
+  const [columns, setColumns] = useState<Record<string, string>>(() => {
+    return fields.reduce((acc, field) => {
+      acc[field.key] = (profile?.columns[field.key] ?? []).join(', ');
+      return acc;
+    }, {} as Record<string, string>);
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError(t('mapping.nameRequired'));
+      return;
+    }
+
+    const parsedColumns = Object.entries(columns).reduce((acc, [key, value]) => {
+      const names = value.split(',').map(v => v.trim()).filter(Boolean);
+      if (names.length > 0) acc[key] = names;
+      return acc;
+    }, {} as Record<string, string[]>);
+
+    const saved = saveMappingProfile({
+      id: profile?.id,
+      name: name.trim(),
+      sourceSystem: sourceSystem.trim() || undefined,
+      target,
+      columns: parsedColumns,
+      strict,
+      dateFormats: profile?.dateFormats
+    });
+    onSaved(saved);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!profile) return;
+    deleteMappingProfile(profile.id);
+    onDeleted?.(profile.id);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Columns className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">
+                  {profile ? t('mapping.editorEditTitle') : t('mapping.editorNewTitle')}
+                </h2>
+                <p className="text-sm text-gray-400">
+                  {t('mapping.editorSubtitle', { target: t(target === 'incidents' ? 'upload.incidents' : 'upload.requests') })}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+              <p className="text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">{t('mapping.profileName')}</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  setError(null);
+                }}
+                placeholder={t('mapping.profileNamePlaceholder')}
+                className="w-full px-3 py-2 bg-[#1C2333] border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">{t('mapping.sourceSystem')}</label>
+              <input
+                type="text"
+                value={sourceSystem}
+                onChange={(e) => setSourceSystem(e.target.value)}
+                placeholder={t('mapping.sourceSystemPlaceholder')}
+                className="w-full px-3 py-2 bg-[#1C2333] border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={strict}
+              onChange={(e) => setStrict(e.target.checked)}
+              className="rounded border-gray-600 bg-[#1C2333] text-indigo-600 focus:ring-indigo-500"
+            />
+            {t('mapping.strict')}
+          </label>
+
+          <div className="space-y-3">
+            {fields.map(field => (
+              <div key={field.key} className="grid grid-cols-3 gap-4 items-center">
+                <label className="text-sm text-gray-300">
+                  {t(field.labelKey)}
+                  {field.required && <span className="text-red-400 ml-1">*</span>}
+                </label>
+                <input
+                  type="text"
+                  value={columns[field.key]}
+                  onChange={(e) => setColumns(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.aliases.slice(0, 3).join(', ')}
+                  className="col-span-2 px-3 py-2 bg-[#1C2333] border border-gray-700 rounded-lg text-white text-sm placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-3">
+          <div>
+            {profile && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 text-red-400 hover:text-red-300 transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+                {t('mapping.delete')}
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
+            >
+              {t('mapping.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+            >
+              <Save className="h-4 w-4" />
+              {t('mapping.saveProfile')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Plus, Pencil, Download } from 'lucide-react';
+import { ColumnMappingProfile, IngestionTarget } from '../types/ingestion';
+import {
+  DEFAULT_PROFILE_ID,
+  getDefaultProfile,
+  isBuiltInProfile,
+  loadMappingProfiles,
+  setSelectedProfile
+} from '../utils/mappingProfileUtils';
+import { getAdapterProfiles, getImportAdapter } from '../utils/importAdapters';
+import { t } from '../utils/i18nUtils';
+import { MappingProfileEditor } from './MappingProfileEditor';
+
+interface MappingProfileSelectorProps {
+  target: IngestionTarget;
+  value: ColumnMappingProfile;
+  onChange: (profile: ColumnMappingProfile) => void;
+  disabled?: boolean;
+}
+
+export function MappingProfileSelector({ target, value, onChange, disabled }: MappingProfileSelectorProps) {
+  const [, setVersion] = useState(0);
+  // Lido a cada render para refletir perfis salvos pelo assistente de mapeamento
+  const profiles = loadMappingProfiles(target);
+  const adapterProfiles = getAdapterProfiles(target);
+  const sampleFile = getImportAdapter(value.adapterId)?.samples[target];
+  const [editing, setEditing] = useState<ColumnMappingProfile | null | undefined>(undefined);
+
+  const selectProfile = (profile: ColumnMappingProfile) => {
+    setSelectedProfile(target, profile.id);
+    onChange(profile);
+  };
+
+  const handleSelect = (id: string) => {
+    const profile = [...adapterProfiles, ...profiles].find(p => p.id === id) ?? getDefaultProfile(target);
+    selectProfile(profile);
+  };
+
+  const handleSaved = (profile: ColumnMappingProfile) => {
+    setVersion(v => v + 1);
+    selectProfile(profile);
+  };
+
+  const handleDeleted = (id: string) => {
+    setVersion(v => v + 1);
+    if (value.id === id) {
+      selectProfile(getDefaultProfile(target));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-sm text-gray-400">{t('mapping.profileLabel')}</label>
+      <div className="flex items-center gap-2">
+        <select
+          value={value.id}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 bg-[#1C2333] border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value={DEFAULT_PROFILE_ID}>{getDefaultProfile(target).name}</option>
+          <optgroup label={t('mapping.itsmTools')}>
+            {adapterProfiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </optgroup>
+          {profiles.length > 0 && (
+            <optgroup label={t('mapping.savedProfiles')}>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{profile.sourceSystem ? ` (${profile.sourceSystem})` : ''}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => setEditing(isBuiltInProfile(value.id) ? null : value)}
+          disabled={disabled || isBuiltInProfile(value.id)}
+          title={t('mapping.editProfile')}
+          className="p-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => setEditing(null)}
+          disabled={disabled}
+          title={t('mapping.newProfile')}
+          className="p-2 bg-[#1C2333] hover:bg-[#252d3d] rounded-lg text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+      {sampleFile && (
+        <a
+          href={sampleFile}
+          download
+          className="inline-flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"
+        >
+          <Download className="h-3 w-3" />
+          {t('mapping.sampleFile', { name: value.name })}
+        </a>
+      )}
+
+      {editing !== undefined && (
+        <MappingProfileEditor
+          target={target}
+          profile={editing}
+          onClose={() => setEditing(undefined)}
+          onSaved={handleSaved}
+          onDeleted={handleDeleted}
+        />
+      )}
+    </div>
+  );
+}
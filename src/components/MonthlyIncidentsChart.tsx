@@ -10,20 +10,22 @@ import {
 } from 'recharts';
 import { Incident } from '../types/incident';
 import { parseISO, format, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface MonthlyIncidentsChartProps {
   incidents: Incident[];
   startDate?: string;
   endDate?: string;
   onBarClick?: (monthIncidents: Incident[]) => void;
+  className?: string;
 }
 
 export function MonthlyIncidentsChart({ 
   incidents, 
   startDate, 
   endDate,
-  onBarClick 
+  onBarClick,
+  className = 'h-[40px] w-[300px]'
 }: MonthlyIncidentsChartProps) {
   const monthlyData = useMemo(() => {
     const now = new Date();
@@ -49,9 +51,9 @@ export function MonthlyIncidentsChart({
       });
 
       return {
-        month: format(month, 'MMM', { locale: ptBR }),
+        month: format(month, 'MMM', { locale: getDateLocale() }),
         total: monthIncidents.length,
-        monthFull: format(month, 'MMMM/yy', { locale: ptBR }),
+        monthFull: format(month, 'MMMM/yy', { locale: getDateLocale() }),
         incidents: monthIncidents
       };
     });
@@ -69,7 +71,7 @@ export function MonthlyIncidentsChart({
         <div className="bg-[#1F2937] p-2 rounded-lg shadow-lg border border-gray-700">
           <p className="text-white text-sm font-medium capitalize">{payload[0].payload.monthFull}</p>
           <p className="text-gray-300 text-sm">
-            <span className="text-indigo-400">Total:</span> {payload[0].value} chamados
+            <span className="text-indigo-400">{t('monthlyChart.total')}</span> {t('monthlyChart.tickets', { count: payload[0].payload.total })}
           </p>
         </div>
       );
@@ -78,7 +80,7 @@ export function MonthlyIncidentsChart({
   };
 
   return (
-    <div className="h-[40px] w-[300px]">
+    <div className={className}>
       <ResponsiveContainer width="100%" height="100%">
         <BarChart
           data={monthlyData}
@@ -16,8 +16,8 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface MonthlyLocationVariationProps {
   incidents: Incident[];
@@ -166,12 +166,12 @@ export function MonthlyLocationVariation({ incidents, requests, startDate, endDa
           
           monthlyComparisons.push({
             current: {
-              month: format(currentMonth, 'MMM/yy', { locale: ptBR }),
+              month: format(currentMonth, 'MMM/yy', { locale: getDateLocale() }),
               incidents: currentMonthIncidents,
               requests: currentMonthRequests
             },
             previous: {
-              month: format(previousMonth, 'MMM/yy', { locale: ptBR }),
+              month: format(previousMonth, 'MMM/yy', { locale: getDateLocale() }),
               incidents: previousMonthIncidents,
               requests: previousMonthRequests
             },
@@ -212,13 +212,13 @@ export function MonthlyLocationVariation({ incidents, requests, startDate, endDa
       <button
         onClick={onClose}
         className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
-        aria-label="Fechar"
+        aria-label={t('analysis.close')}
       >
         ×
       </button>
       {locationsMonthlyData.length === 0 ? (
         <div className="text-center py-4 text-gray-400">
-          Não há dados suficientes para comparação mensal por localidade.
+          {t('variation.noLocationData')}
         </div>
       ) : (
         locationsMonthlyData.map(locationData => (
@@ -245,14 +245,14 @@ export function MonthlyLocationVariation({ incidents, requests, startDate, endDa
                 {locationData.months.map((monthData, index) => (
                   <div key={index} className="p-4">
                     <h4 className="text-white font-medium mb-3">
-                      {monthData.current.month} em relação a {monthData.previous.month}
+                      {t('variation.comparedTo', { current: monthData.current.month, previous: monthData.previous.month })}
                     </h4>
                     
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                       {/* Incidents */}
                       <div className="bg-[#151B2B] p-3 rounded-lg">
                         <div className="flex items-center justify-between mb-2">
-                          <span className="text-gray-300">Incidentes</span>
+                          <span className="text-gray-300">{t('executive.incidents')}</span>
                           <div className="flex items-center gap-1">
                             {monthData.incidentsChange > 0 ? (
                               <TrendingUp className="h-4 w-4 text-red-400" />
@@ -266,15 +266,15 @@ export function MonthlyLocationVariation({ incidents, requests, startDate, endDa
                         </div>
                         <p className="text-sm text-gray-400">
                           {monthData.incidentsChangeAbsolute > 0 
-                            ? `Aumento de ${monthData.incidentsChangeAbsolute} chamados`
-                            : `Redução de ${Math.abs(monthData.incidentsChangeAbsolute)} chamados`}
+                            ? t('variation.incidentsUp', { count: monthData.incidentsChangeAbsolute })
+                            : t('variation.incidentsDown', { count: Math.abs(monthData.incidentsChangeAbsolute) })}
                         </p>
                       </div>
                       
                       {/* Requests */}
                       <div className="bg-[#151B2B] p-3 rounded-lg">
                         <div className="flex items-center justify-between mb-2">
-                          <span className="text-gray-300">Requisições</span>
+                          <span className="text-gray-300">{t('variation.requests')}</span>
                           <div className="flex items-center gap-1">
                             {monthData.requestsChange > 0 ? (
                               <TrendingUp className="h-4 w-4 text-red-400" />
@@ -288,15 +288,15 @@ export function MonthlyLocationVariation({ incidents, requests, startDate, endDa
                         </div>
                         <p className="text-sm text-gray-400">
                           {monthData.requestsChangeAbsolute > 0 
-                            ? `Aumento de ${monthData.requestsChangeAbsolute} solicitações`
-                            : `Redução de ${Math.abs(monthData.requestsChangeAbsolute)} solicitações`}
+                            ? t('variation.requestsUp', { count: monthData.requestsChangeAbsolute })
+                            : t('variation.requestsDown', { count: Math.abs(monthData.requestsChangeAbsolute) })}
                         </p>
                       </div>
                       
                       {/* Total */}
                       <div className="bg-[#151B2B] p-3 rounded-lg">
                         <div className="flex items-center justify-between mb-2">
-                          <span className="text-gray-300">Total</span>
+                          <span className="text-gray-300">{t('categoryHistory.tooltipTotal')}</span>
                           <div className="flex items-center gap-1">
                             {monthData.totalChange > 0 ? (
                               <TrendingUp className="h-4 w-4 text-red-400" />
@@ -15,8 +15,9 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { getIncidentState } from '../utils/incidentUtils';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface MonthlyVariationProps {
   incidents: Incident[];
@@ -57,7 +58,7 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
     return months.map(month => {
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
-      const monthLabel = format(month, 'MMM/yy', { locale: ptBR });
+      const monthLabel = format(month, 'MMM/yy', { locale: getDateLocale() });
 
       // Count incidents for this month
       const monthIncidents = incidents.filter(incident => {
@@ -84,7 +85,6 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
       let totalForSLA = 0;
 
       monthIncidents.forEach(incident => {
-        const priority = normalizePriority(incident.Priority);
         const state = getIncidentState(incident.State);
         
         // Only count closed incidents for SLA
@@ -92,17 +92,12 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
           totalForSLA++;
           
           // Check if within SLA based on priority
-          const threshold = 
-            priority === 'P1' ? 1 :  // 1 hour
-            priority === 'P2' ? 4 :  // 4 hours
-            priority === 'P3' ? 36 : // 36 hours
-            priority === 'P4' ? 72 : // 72 hours
-            36; // default
+          const threshold = getIncidentSLAHours(incident);
           
           try {
             const opened = parseISO(incident.Opened);
             const closed = incident.Updated ? parseISO(incident.Updated) : new Date();
-            const responseHours = (closed.getTime() - opened.getTime()) / (1000 * 60 * 60);
+            const responseHours = getIncidentSLAElapsedHours(incident, opened, closed);
             
             if (responseHours <= threshold) {
               withinSLA++;
@@ -163,26 +158,26 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
       <button
         onClick={onClose}
         className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
-        aria-label="Fechar"
+        aria-label={t('analysis.close')}
       >
         ×
       </button>
       {monthComparisons.length === 0 ? (
         <div className="text-center py-4 text-gray-400">
-          Não há dados suficientes para comparação mensal.
+          {t('variation.noData')}
         </div>
       ) : (
         monthComparisons.map((comparison, index) => (
           <div key={index} className="bg-[#0F172A] rounded-lg p-4">
             <h3 className="text-lg font-medium text-white mb-4">
-              {comparison.currentMonth} em relação a {comparison.previousMonth}
+              {t('variation.comparedTo', { current: comparison.currentMonth, previous: comparison.previousMonth })}
             </h3>
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {/* Incidents */}
               <div className="bg-[#151B2B] p-4 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-gray-300">Incidentes</span>
+                  <span className="text-gray-300">{t('executive.incidents')}</span>
                   <div className="flex items-center gap-1">
                     {comparison.incidentsChange > 0 ? (
                       <TrendingUp className="h-4 w-4 text-red-400" />
@@ -196,15 +191,15 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
                 </div>
                 <p className="text-sm text-gray-400">
                   {comparison.incidentsChangeAbsolute > 0 
-                    ? `Aumento de ${comparison.incidentsChangeAbsolute} chamados`
-                    : `Redução de ${Math.abs(comparison.incidentsChangeAbsolute)} chamados`}
+                    ? t('variation.incidentsUp', { count: comparison.incidentsChangeAbsolute })
+                    : t('variation.incidentsDown', { count: Math.abs(comparison.incidentsChangeAbsolute) })}
                 </p>
               </div>
               
               {/* Requests */}
               <div className="bg-[#151B2B] p-4 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-gray-300">Requisições</span>
+                  <span className="text-gray-300">{t('variation.requests')}</span>
                   <div className="flex items-center gap-1">
                     {comparison.requestsChange > 0 ? (
                       <TrendingUp className="h-4 w-4 text-red-400" />
@@ -218,8 +213,8 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
                 </div>
                 <p className="text-sm text-gray-400">
                   {comparison.requestsChangeAbsolute > 0 
-                    ? `Aumento de ${comparison.requestsChangeAbsolute} solicitações`
-                    : `Redução de ${Math.abs(comparison.requestsChangeAbsolute)} solicitações`}
+                    ? t('variation.requestsUp', { count: comparison.requestsChangeAbsolute })
+                    : t('variation.requestsDown', { count: Math.abs(comparison.requestsChangeAbsolute) })}
                 </p>
               </div>
               
@@ -240,8 +235,8 @@ export function MonthlyVariation({ incidents, requests, startDate, endDate, onCl
                 </div>
                 <p className="text-sm text-gray-400">
                   {comparison.slaChange > 0 
-                    ? 'Melhoria no SLA'
-                    : 'Piora no SLA'}
+                    ? t('variation.slaBetter')
+                    : t('variation.slaWorse')}
                 </p>
               </div>
             </div>
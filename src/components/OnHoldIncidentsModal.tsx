@@ -1,9 +1,10 @@
 import React, { useState, useMemo } from 'react';
 import { X, AlertTriangle, Filter, AlertCircle, Clock, CheckCircle2, ExternalLink, FileText } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, format, differenceInHours } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, differenceInHours } from 'date-fns';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
+import { formatSLAOverdue } from '../utils/slaUtils';
 
 interface OnHoldIncidentsModalProps {
   incidents: Incident[];
@@ -13,19 +14,19 @@ interface OnHoldIncidentsModalProps {
 const STATUS_OPTIONS = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'analysis.status.all' as const,
     icon: Filter,
     color: 'text-gray-400'
   },
   { 
     value: 'Aberto', 
-    label: 'Em Aberto',
+    labelKey: 'analysis.status.open' as const,
     icon: AlertCircle,
     color: 'text-yellow-400'
   },
   { 
     value: 'Em Andamento', 
-    label: 'Em Andamento',
+    labelKey: 'analysis.status.inProgress' as const,
     icon: Clock,
     color: 'text-blue-400'
   }
@@ -52,9 +53,9 @@ export function OnHoldIncidentsModal({ incidents, onClose }: OnHoldIncidentsModa
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.dateTime');
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -68,17 +69,9 @@ export function OnHoldIncidentsModal({ incidents, onClose }: OnHoldIncidentsModa
     try {
       const opened = parseISO(incident.Opened);
       const now = new Date();
-      const hours = differenceInHours(now, opened);
-      const days = Math.floor(hours / 24);
-      const remainingHours = hours % 24;
-      
-      if (days > 0) {
-        return `${days} ${days === 1 ? 'dia' : 'dias'}${remainingHours > 0 ? ` e ${remainingHours} ${remainingHours === 1 ? 'hora' : 'horas'}` : ''}`;
-      }
-      
-      return `${hours} ${hours === 1 ? 'hora' : 'horas'}`;
+      return formatSLAOverdue(differenceInHours(now, opened));
     } catch (error) {
-      return 'Tempo desconhecido';
+      return t('onHoldModal.unknownTime');
     }
   };
 
@@ -89,10 +82,10 @@ export function OnHoldIncidentsModal({ incidents, onClose }: OnHoldIncidentsModa
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-xl font-semibold text-white">
-                Chamados em Espera
+                {t('onHoldModal.title')}
               </h2>
               <p className="text-gray-400 mt-1">
-                {filteredIncidents.length} chamados em espera
+                {t('onHoldModal.count', { count: filteredIncidents.length })}
               </p>
             </div>
             <button
@@ -118,7 +111,7 @@ export function OnHoldIncidentsModal({ incidents, onClose }: OnHoldIncidentsModa
                   `}
                 >
                   <Icon className="h-4 w-4" />
-                  <span>{option.label}</span>
+                  <span>{t(option.labelKey)}</span>
                 </button>
               );
             })}
@@ -166,7 +159,7 @@ export function OnHoldIncidentsModal({ incidents, onClose }: OnHoldIncidentsModa
                     <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
                       <div className="flex items-center gap-1">
                         <Clock className="h-4 w-4 text-red-400" />
-                        <span className="text-red-400">Em espera por {getHoldDuration(incident)}</span>
+                        <span className="text-red-400">{t('onHoldModal.waitingFor', { duration: getHoldDuration(incident) })}</span>
                       </div>
                       {incident.AssignmentGroup && (
                         <>
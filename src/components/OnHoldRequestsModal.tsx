@@ -15,22 +15,16 @@ import {
 } from 'lucide-react';
 import { Request } from '../types/request';
 import { parseISO, format, differenceInDays, differenceInHours } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { formatSLADays, getRequestSLADays, getRequestSLAElapsedDays } from '../utils/slaUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface OnHoldRequestsModalProps {
   requests: Request[];
   onClose: () => void;
 }
 
-// SLA thresholds for requests (in days)
-const REQUEST_SLA_THRESHOLDS = {
-  HIGH: 3,    // 3 days
-  MEDIUM: 5,  // 5 days
-  LOW: 7      // 7 days
-};
-
 const CHART_COLORS = {
   HIGH: '#EF4444',
   MEDIUM: '#F59E0B',
@@ -82,20 +76,19 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return format(parseISO(dateStr), t('format.dateTime'), { locale: getDateLocale() });
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
   const getSLAStatus = (request: Request) => {
     try {
-      const priority = normalizeRequestPriority(request.Priority);
-      const threshold = REQUEST_SLA_THRESHOLDS[priority] || 5; // Default to 5 days
+      const threshold = getRequestSLADays(request);
       
       const opened = parseISO(request.Opened);
       const now = new Date();
-      const daysElapsed = differenceInDays(now, opened);
+      const daysElapsed = getRequestSLAElapsedDays(request, opened, now);
       
       // Calculate percentage of SLA consumed
       const percentage = Math.min(100, Math.round((daysElapsed / threshold) * 100));
@@ -141,13 +134,16 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
       const days = differenceInDays(now, opened);
       const hours = differenceInHours(now, opened) % 24;
       
+      const hoursText = t(hours === 1 ? 'sla.hour' : 'sla.hours', { count: hours });
+      
       if (days > 0) {
-        return `${days} ${days === 1 ? 'dia' : 'dias'}${hours > 0 ? ` e ${hours} ${hours === 1 ? 'hora' : 'horas'}` : ''}`;
+        const daysText = t(days === 1 ? 'sla.day' : 'sla.days', { count: days });
+        return hours > 0 ? t('sla.daysAndHours', { days: daysText, hours: hoursText }) : daysText;
       }
       
-      return `${hours} ${hours === 1 ? 'hora' : 'horas'}`;
+      return hoursText;
     } catch (error) {
-      return 'Tempo desconhecido';
+      return t('requestModal.unknownTime');
     }
   };
 
@@ -176,10 +172,10 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-xl font-semibold text-white">
-                Solicitações em Espera
+                {t('requestModal.onHoldTitle')}
               </h2>
               <p className="text-gray-400 mt-1">
-                {filteredRequests.length} solicitações encontradas
+                {t('requestModal.found', { count: filteredRequests.length })}
               </p>
             </div>
             <button
@@ -195,39 +191,39 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
           {filteredRequests.length === 0 ? (
             <div className="p-8 text-center">
               <PauseCircle className="h-12 w-12 text-orange-400 mx-auto mb-4 opacity-50" />
-              <p className="text-gray-400">Não há solicitações em espera no momento.</p>
+              <p className="text-gray-400">{t('requestModal.noneOnHold')}</p>
             </div>
           ) : (
             <table className="w-full">
               <thead className="bg-[#1C2333] sticky top-0">
                 <tr>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">
                     <button 
                       className="flex items-center gap-1 hover:text-white"
                       onClick={() => handleSortChange('date')}
                     >
-                      Data {getSortIcon('date')}
+                      {t('incident.date')} {getSortIcon('date')}
                     </button>
                   </th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Grupo</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.group')}</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">
                     <button 
                       className="flex items-center gap-1 hover:text-white"
                       onClick={() => handleSortChange('priority')}
                     >
-                      Prioridade {getSortIcon('priority')}
+                      {t('field.priority')} {getSortIcon('priority')}
                     </button>
                   </th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">
                     <button 
                       className="flex items-center gap-1 hover:text-white"
                       onClick={() => handleSortChange('sla')}
                     >
-                      Tempo em Espera {getSortIcon('sla')}
+                      {t('requestModal.holdTime')} {getSortIcon('sla')}
                     </button>
                   </th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
@@ -265,8 +261,8 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                           </span>
                           <span className="text-xs text-gray-400 mt-1">
                             {slaStatus.status === 'critical' 
-                              ? 'SLA em risco' 
-                              : `${slaStatus.remaining} ${slaStatus.remaining === 1 ? 'dia' : 'dias'} restantes`}
+                              ? t('requestModal.slaAtRisk') 
+                              : t('requestModal.remaining', { time: formatSLADays(slaStatus.remaining) })}
                           </span>
                         </div>
                       </td>
@@ -295,7 +291,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
             <div className="p-6 border-b border-gray-700 flex-shrink-0">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-2xl font-bold text-white">
-                  Solicitação {selectedRequest.Number}
+                  {t('requestModal.title', { number: selectedRequest.Number })}
                 </h2>
                 <div className="flex items-center gap-2">
                   <span className="px-3 py-1 rounded-full text-sm font-medium bg-orange-500/20 text-orange-400">
@@ -305,7 +301,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                     color: CHART_COLORS[normalizeRequestPriority(selectedRequest.Priority) as keyof typeof CHART_COLORS] 
                   }}>
                     <AlertCircle className="h-4 w-4" />
-                    Prioridade {selectedRequest.Priority}
+                    {t('incident.priority', { priority: selectedRequest.Priority })}
                   </span>
                   <button
                     onClick={() => setSelectedRequest(null)}
@@ -315,11 +311,11 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                   </button>
                 </div>
               </div>
-              <h3 className="text-lg text-white">Descrição Resumida</h3>
+              <h3 className="text-lg text-white">{t('requestModal.shortDescription')}</h3>
               <p className="text-gray-300 mt-2">{selectedRequest.ShortDescription}</p>
               {selectedRequest.Description && (
                 <>
-                  <h3 className="text-lg text-white mt-4">Descrição Completa</h3>
+                  <h3 className="text-lg text-white mt-4">{t('requestModal.fullDescription')}</h3>
                   <p className="text-gray-300 mt-2 whitespace-pre-wrap">{selectedRequest.Description}</p>
                 </>
               )}
@@ -333,7 +329,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                   <div className="flex items-center gap-3">
                     <PauseCircle className="h-5 w-5 text-orange-400" />
                     <span className="text-white font-medium">
-                      Status de Espera
+                      {t('requestModal.holdStatus')}
                     </span>
                   </div>
                 </div>
@@ -344,14 +340,14 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                     return (
                       <div className="space-y-4">
                         <div className="flex items-center justify-between">
-                          <span className="text-gray-400">Tempo em Espera</span>
+                          <span className="text-gray-400">{t('requestModal.holdTime')}</span>
                           <span className="text-orange-400 font-medium">
                             {getHoldDuration(selectedRequest)}
                           </span>
                         </div>
                         <div className="grid grid-cols-2 gap-4">
                           <div>
-                            <p className="text-sm text-gray-400">Progresso do SLA</p>
+                            <p className="text-sm text-gray-400">{t('requestModal.slaProgress')}</p>
                             <div className="flex items-center gap-2 mt-1">
                               <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
                                 <div 
@@ -368,9 +364,9 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                             </div>
                           </div>
                           <div>
-                            <p className="text-sm text-gray-400">Prazo SLA</p>
+                            <p className="text-sm text-gray-400">{t('requestModal.slaDeadline')}</p>
                             <p className="text-lg font-medium text-white">
-                              {slaStatus.threshold} {slaStatus.threshold === 1 ? 'dia' : 'dias'}
+                              {formatSLADays(slaStatus.threshold)}
                             </p>
                           </div>
                         </div>
@@ -378,7 +374,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                           <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-center gap-2">
                             <AlertTriangle className="h-5 w-5 text-red-500" />
                             <p className="text-red-400">
-                              SLA em risco - Tempo em espera excedeu o prazo recomendado
+                              {t('requestModal.slaAtRiskDetail')}
                             </p>
                           </div>
                         ) : (
@@ -391,7 +387,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                             <p className={`${
                               slaStatus.status === 'warning' ? 'text-yellow-400' : 'text-green-400'
                             }`}>
-                              {slaStatus.remaining} {slaStatus.remaining === 1 ? 'dia' : 'dias'} restantes no SLA
+                              {t('requestModal.remainingInSla', { time: formatSLADays(slaStatus.remaining) })}
                             </p>
                           </div>
                         )}
@@ -407,7 +403,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                   <div className="flex items-center gap-3">
                     <FileText className="h-5 w-5 text-indigo-400" />
                     <span className="text-white font-medium">
-                      Comentários e Notas de Trabalho
+                      {t('incident.comments')}
                     </span>
                   </div>
                 </div>
@@ -423,7 +419,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                     </div>
                   ) : (
                     <p className="text-gray-500 italic">
-                      Nenhum comentário ou nota de trabalho disponível.
+                      {t('incident.noComments')}
                     </p>
                   )}
                 </div>
@@ -434,7 +430,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Solicitante</p>
+                    <p className="text-sm text-gray-400">{t('incident.caller')}</p>
                     <p className="text-white">{selectedRequest.RequestedForName}</p>
                   </div>
                 </div>
@@ -442,7 +438,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Grupo Responsável</p>
+                    <p className="text-sm text-gray-400">{t('incident.assignmentGroup')}</p>
                     <p className="text-white">{normalizeLocationName(selectedRequest.AssignmentGroup)}</p>
                   </div>
                 </div>
@@ -450,7 +446,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                 <div className="flex items-center gap-3">
                   <Calendar className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Data de Abertura</p>
+                    <p className="text-sm text-gray-400">{t('incident.opened')}</p>
                     <p className="text-white">{formatDate(selectedRequest.Opened)}</p>
                   </div>
                 </div>
@@ -458,28 +454,28 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                 <div className="flex items-center gap-3">
                   <Users className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Analista Responsável</p>
-                    <p className="text-white">{selectedRequest.AssignedTo || 'Não atribuído'}</p>
+                    <p className="text-sm text-gray-400">{t('incident.assignedTo')}</p>
+                    <p className="text-white">{selectedRequest.AssignedTo || t('incident.unassigned')}</p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
                   <FileText className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Tipo de Solicitação</p>
-                    <p className="text-white">{selectedRequest.RequestItem || 'Não categorizado'}</p>
+                    <p className="text-sm text-gray-400">{t('requestModal.requestType')}</p>
+                    <p className="text-white">{selectedRequest.RequestItem || t('analysis.uncategorized')}</p>
                   </div>
                 </div>
 
                 <div className="flex items-center gap-3">
                   <Clock className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-400">Última Atualização</p>
+                    <p className="text-sm text-gray-400">{t('incident.updated')}</p>
                     <p className="text-white">
-                      {selectedRequest.Updated ? formatDate(selectedRequest.Updated) : 'Não atualizado'}
+                      {selectedRequest.Updated ? formatDate(selectedRequest.Updated) : t('incident.notUpdated')}
                     </p>
                     {selectedRequest.UpdatedBy && (
-                      <p className="text-sm text-gray-400">por {selectedRequest.UpdatedBy}</p>
+                      <p className="text-sm text-gray-400">{t('incident.updatedBy', { name: selectedRequest.UpdatedBy })}</p>
                     )}
                   </div>
                 </div>
@@ -492,7 +488,7 @@ export function OnHoldRequestsModal({ requests, onClose }: OnHoldRequestsModalPr
                 onClick={() => setSelectedRequest(null)}
                 className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg text-white transition-colors"
               >
-                Fechar
+                {t('incident.close')}
               </button>
             </div>
           </div>
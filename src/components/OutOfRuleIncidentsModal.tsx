@@ -1,34 +1,44 @@
 import React, { useState, useMemo } from 'react';
-import { X, AlertTriangle, Filter, AlertCircle, Clock, ExternalLink, FileText } from 'lucide-react';
+import { X, AlertTriangle, Filter, AlertCircle, Clock, ExternalLink, FileText, PauseCircle, Settings, Timer } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, format, differenceInHours } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO } from 'date-fns';
+import { StaleIncident } from '../types/staleness';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { describeStalenessRule, formatStalenessHours } from '../utils/stalenessUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
+import { MessageKey } from '../utils/i18nMessages';
 import { IncidentDetails } from './IncidentDetails';
 
 interface OutOfRuleIncidentsModalProps {
-  incidents: Incident[];
+  staleIncidents: StaleIncident[];
   onClose: () => void;
+  onConfigureRules?: () => void;
 }
 
-const STATUS_OPTIONS = [
+const STATUS_OPTIONS: { value: string; labelKey: MessageKey; icon: typeof Filter; color: string }[] = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'outOfRule.filter.all',
     icon: Filter,
     color: 'text-gray-400'
   },
   { 
     value: 'Aberto', 
-    label: 'Em Aberto',
+    labelKey: 'outOfRule.filter.open',
     icon: AlertCircle,
     color: 'text-yellow-400'
   },
   { 
     value: 'Em Andamento', 
-    label: 'Em Andamento',
+    labelKey: 'outOfRule.filter.inProgress',
     icon: Clock,
     color: 'text-blue-400'
+  },
+  {
+    value: 'Em Espera',
+    labelKey: 'outOfRule.filter.onHold',
+    icon: PauseCircle,
+    color: 'text-orange-400'
   }
 ];
 
@@ -40,49 +50,33 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
-export function OutOfRuleIncidentsModal({ incidents, onClose }: OutOfRuleIncidentsModalProps) {
+export function OutOfRuleIncidentsModal({ staleIncidents, onClose, onConfigureRules }: OutOfRuleIncidentsModalProps) {
   const [selectedStatus, setSelectedStatus] = useState('');
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
 
   const filteredIncidents = useMemo(() => {
-    return incidents.filter(incident => {
+    return staleIncidents.filter(({ incident, state }) => {
       if (!selectedStatus) return true;
-      return getIncidentState(incident.State) === selectedStatus;
+      if (selectedStatus === 'Em Espera') return state === 'onHold';
+      return state === 'active' && getIncidentState(incident.State) === selectedStatus;
     });
-  }, [incidents, selectedStatus]);
+  }, [staleIncidents, selectedStatus]);
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
-  const getStatusColor = (state: string) => {
-    const normalizedState = getIncidentState(state);
+  const getStatusColor = ({ incident, state }: StaleIncident) => {
+    if (state === 'onHold') return 'bg-orange-500/20 text-orange-400';
+    const normalizedState = getIncidentState(incident.State);
     if (normalizedState === 'Em Andamento') return 'bg-blue-500/20 text-blue-400';
     return 'bg-yellow-500/20 text-yellow-400';
   };
 
-  const getElapsedTime = (incident: Incident) => {
-    try {
-      const now = new Date();
-      const lastUpdate = incident.Updated ? parseISO(incident.Updated) : now;
-      const hours = differenceInHours(now, lastUpdate);
-      const days = Math.floor(hours / 24);
-      const remainingHours = hours % 24;
-      
-      if (days > 0) {
-        return `${days} ${days === 1 ? 'dia' : 'dias'}${remainingHours > 0 ? ` e ${remainingHours} ${remainingHours === 1 ? 'hora' : 'horas'}` : ''}`;
-      }
-      
-      return `${hours} ${hours === 1 ? 'hora' : 'horas'}`;
-    } catch (error) {
-      return 'Tempo desconhecido';
-    }
-  };
-
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[60]">
       <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
@@ -90,18 +84,29 @@ export function OutOfRuleIncidentsModal({ incidents, onClose }: OutOfRuleInciden
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-xl font-semibold text-white">
-                Chamados Fora de Regra
+                {t('outOfRule.title')}
               </h2>
               <p className="text-gray-400 mt-1">
-                {filteredIncidents.length} chamados sem atualização por mais de 48 horas
+                {t('outOfRule.subtitle', { count: filteredIncidents.length })}
               </p>
             </div>
-            <button
-              onClick={onClose}
-              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-            >
-              <X className="h-5 w-5 text-gray-400 hover:text-white" />
-            </button>
+            <div className="flex items-center gap-2">
+              {onConfigureRules && (
+                <button
+                  onClick={onConfigureRules}
+                  className="flex items-center gap-2 px-3 py-2 bg-[#1C2333] hover:bg-[#252d3d] text-gray-300 rounded-lg transition-colors text-sm"
+                >
+                  <Settings className="h-4 w-4" />
+                  {t('outOfRule.configureRules')}
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
           </div>
 
           <div className="flex gap-2">
@@ -119,7 +124,7 @@ export function OutOfRuleIncidentsModal({ incidents, onClose }: OutOfRuleInciden
                   `}
                 >
                   <Icon className="h-4 w-4" />
-                  <span>{option.label}</span>
+                  <span>{t(option.labelKey)}</span>
                 </button>
               );
             })}
@@ -128,64 +133,72 @@ export function OutOfRuleIncidentsModal({ incidents, onClose }: OutOfRuleInciden
         
         <div className="overflow-y-auto max-h-[calc(90vh-200px)]">
           <div className="p-6 space-y-4">
-            {filteredIncidents.map((incident) => (
-              <div 
-                key={incident.Number}
-                className="bg-[#1C2333] p-4 rounded-lg hover:bg-[#1F2937] transition-colors"
-              >
-                <div className="flex items-start gap-4">
-                  <AlertTriangle className="h-5 w-5 mt-1 flex-shrink-0" style={{ 
-                    color: CHART_COLORS[normalizePriority(incident.Priority) as keyof typeof CHART_COLORS] 
-                  }} />
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="font-medium text-white">{incident.Number}</span>
-                      <span className="font-medium" style={{ 
-                        color: CHART_COLORS[normalizePriority(incident.Priority) as keyof typeof CHART_COLORS] 
-                      }}>
-                        {incident.Priority}
-                      </span>
-                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(incident.State)}`}>
-                        {incident.State}
-                      </span>
-                      <button
-                        onClick={() => setSelectedIncident(incident)}
-                        className="ml-auto text-indigo-400 hover:text-indigo-300 transition-colors"
-                      >
-                        <ExternalLink className="h-4 w-4" />
-                      </button>
-                    </div>
-                    <p className="text-gray-300 mb-2">{incident.ShortDescription}</p>
-                    {incident.CommentsAndWorkNotes && (
-                      <div className="mb-2 p-3 bg-[#151B2B] rounded border border-gray-700">
-                        <div className="flex items-start gap-2">
-                          <FileText className="h-4 w-4 text-indigo-400 mt-0.5" />
-                          <p className="text-sm text-gray-400 whitespace-pre-wrap">{incident.CommentsAndWorkNotes}</p>
-                        </div>
-                      </div>
-                    )}
-                    <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-4 w-4 text-red-400" />
-                        <span className="text-red-400">Sem atualização por {getElapsedTime(incident)}</span>
+            {filteredIncidents.map((staleIncident) => {
+              const { incident, rule, hoursSinceUpdate } = staleIncident;
+              return (
+                <div 
+                  key={incident.Number}
+                  className="bg-[#1C2333] p-4 rounded-lg hover:bg-[#1F2937] transition-colors"
+                >
+                  <div className="flex items-start gap-4">
+                    <AlertTriangle className="h-5 w-5 mt-1 flex-shrink-0" style={{ 
+                      color: CHART_COLORS[normalizePriority(incident.Priority) as keyof typeof CHART_COLORS] 
+                    }} />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="font-medium text-white">{incident.Number}</span>
+                        <span className="font-medium" style={{ 
+                          color: CHART_COLORS[normalizePriority(incident.Priority) as keyof typeof CHART_COLORS] 
+                        }}>
+                          {incident.Priority}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(staleIncident)}`}>
+                          {incident.State}
+                        </span>
+                        <button
+                          onClick={() => setSelectedIncident(incident)}
+                          className="ml-auto text-indigo-400 hover:text-indigo-300 transition-colors"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </button>
                       </div>
-                      {incident.AssignmentGroup && (
-                        <>
-                          <span className="text-gray-500">•</span>
-                          <span className="text-gray-400">{incident.AssignmentGroup}</span>
-                        </>
-                      )}
-                      {incident.Caller && (
-                        <>
-                          <span className="text-gray-500">•</span>
-                          <span className="text-gray-400">{incident.Caller}</span>
-                        </>
+                      <p className="text-gray-300 mb-2">{incident.ShortDescription}</p>
+                      {incident.CommentsAndWorkNotes && (
+                        <div className="mb-2 p-3 bg-[#151B2B] rounded border border-gray-700">
+                          <div className="flex items-start gap-2">
+                            <FileText className="h-4 w-4 text-indigo-400 mt-0.5" />
+                            <p className="text-sm text-gray-400 whitespace-pre-wrap">{incident.CommentsAndWorkNotes}</p>
+                          </div>
+                        </div>
                       )}
+                      <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                        <div className="flex items-center gap-1">
+                          <Clock className="h-4 w-4 text-red-400" />
+                          <span className="text-red-400">{t('outOfRule.noUpdateFor', { time: formatStalenessHours(hoursSinceUpdate) })}</span>
+                        </div>
+                        <span className="text-gray-500">•</span>
+                        <div className="flex items-center gap-1" title={incident.Updated ? t('outOfRule.lastUpdate', { date: formatDate(incident.Updated) }) : undefined}>
+                          <Timer className="h-4 w-4 text-gray-400" />
+                          <span className="text-gray-400">{t('outOfRule.rule', { rule: describeStalenessRule(rule) })}</span>
+                        </div>
+                        {incident.AssignmentGroup && (
+                          <>
+                            <span className="text-gray-500">•</span>
+                            <span className="text-gray-400">{incident.AssignmentGroup}</span>
+                          </>
+                        )}
+                        {incident.Caller && (
+                          <>
+                            <span className="text-gray-500">•</span>
+                            <span className="text-gray-400">{incident.Caller}</span>
+                          </>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
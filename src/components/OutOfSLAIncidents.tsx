@@ -2,15 +2,9 @@ import React, { useState, useMemo } from 'react';
 import { ExternalLink, X, Info, ChevronDown, ChevronUp, User, Users, Calendar, Briefcase, Tag, Clock } from 'lucide-react';
 import { Incident } from '../types/incident';
 import { normalizePriority } from '../utils/incidentUtils';
-import { format, differenceInHours, parseISO, parse } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hora
-  P2: 4,   // 4 horas
-  P3: 36,  // 36 horas
-  P4: 72   // 72 horas
-};
+import { formatSLAOverdue, getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
+import { parseISO, parse } from 'date-fns';
 
 const PRIORITY_COLORS = {
   P1: 'bg-red-500/20 text-red-500',
@@ -70,16 +64,6 @@ function parseDate(dateStr: string): Date | null {
   }
 }
 
-// Função utilitária para converter horas em dias e horas
-function formatHorasParaDiasHoras(horas: number): string {
-  if (horas < 24) return `${horas} horas`;
-  const dias = Math.floor(horas / 24);
-  const horasRestantes = horas % 24;
-  let texto = `${dias} ${dias === 1 ? 'dia' : 'dias'}`;
-  if (horasRestantes > 0) texto += ` e ${horasRestantes} horas`;
-  return texto;
-}
-
 interface OutOfSLAIncidentsProps {
   incidents: Incident[];
   priorityLabel?: string;
@@ -98,7 +82,6 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
   const outOfSLAIncidents = useMemo(() => {
     return incidents.filter(incident => {
       try {
-        const priority = normalizePriority(incident.Priority || '');
         const opened = parseDate(incident.Opened || '');
         const lastUpdate = parseDate(incident.Updated || '');
         
@@ -106,8 +89,8 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
           return false;
         }
 
-        const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
-        const responseTime = differenceInHours(lastUpdate, opened);
+        const threshold = getIncidentSLAHours(incident);
+        const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
         const isOutOfSLA = responseTime > threshold;
 
         return isOutOfSLA;
@@ -122,15 +105,17 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
       <div className="flex items-center justify-between pt-8 pb-2">
         <div>
           <h2 className="text-2xl font-bold text-white mb-1">
-            Chamados {priorityLabel ? priorityLabel + ' - ' : ''}Fora do SLA
+            {priorityLabel
+              ? t('slaAnalysis.listTitle', { priority: priorityLabel, status: t('sla.outside') })
+              : t('incident.outOfSlaTitle')}
           </h2>
-          <p className="text-gray-400 text-base">{outOfSLAIncidents.length} chamados encontrados</p>
+          <p className="text-gray-400 text-base">{t('slaAnalysis.found', { count: outOfSLAIncidents.length })}</p>
         </div>
         {onClose && (
           <button
             onClick={onClose}
             className="p-2 rounded hover:bg-[#1C2333] text-gray-400 hover:text-white"
-            title="Fechar"
+            title={t('incident.close')}
           >
             <X className="h-6 w-6" />
           </button>
@@ -138,27 +123,26 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
       </div>
       {outOfSLAIncidents.length === 0 ? (
         <div className="text-center py-8 text-gray-400">
-          Nenhum chamado fora do SLA encontrado no período selecionado.
+          {t('incident.noneOutOfSla')}
         </div>
       ) : (
         <div className="overflow-y-auto max-h-[60vh] w-full">
           <table className="w-full table-fixed border-separate border-spacing-0">
             <thead className="bg-[#1C2333]">
               <tr className="border-b border-[#2D3344]">
-                <th style={{ minWidth: 120 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">Número</th>
-                <th style={{ minWidth: 160 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">Data</th>
-                <th style={{ minWidth: 300 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300">Descrição</th>
-                <th style={{ minWidth: 180 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300">Solicitante</th>
-                <th style={{ minWidth: 200 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 group-col">Grupo</th>
-                <th style={{ minWidth: 160 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">Tempo</th>
-                <th style={{ minWidth: 120 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">Estado</th>
+                <th style={{ minWidth: 120 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">{t('incident.number')}</th>
+                <th style={{ minWidth: 160 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">{t('incident.date')}</th>
+                <th style={{ minWidth: 300 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300">{t('incident.description')}</th>
+                <th style={{ minWidth: 180 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300">{t('incident.caller')}</th>
+                <th style={{ minWidth: 200 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 group-col">{t('incident.group')}</th>
+                <th style={{ minWidth: 160 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">{t('incident.time')}</th>
+                <th style={{ minWidth: 120 }} className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap">{t('incident.state')}</th>
                 <th className="px-2 py-3 text-center align-middle text-sm font-semibold text-gray-300 whitespace-nowrap" style={{ width: 56 }}></th>
               </tr>
             </thead>
             <tbody className="divide-y divide-[#232B41] text-sm">
               {outOfSLAIncidents.map((incident) => {
                 try {
-                  const priority = normalizePriority(incident.Priority || '');
                   const opened = parseDate(incident.Opened || '');
                   const lastUpdate = parseDate(incident.Updated || '');
                   
@@ -166,18 +150,18 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
                     return null;
                   }
 
-                  const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
-                  const responseTime = differenceInHours(lastUpdate, opened);
+                  const threshold = getIncidentSLAHours(incident);
+                  const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
                   const tempoFora = responseTime - threshold;
 
                   return (
                     <tr key={incident.Number} className="hover:bg-[#2A2F3A] transition-colors min-h-[56px] border-b border-[#232B41]">
                       <td className="px-2 py-3 text-white font-mono text-center align-middle min-w-[120px] break-words whitespace-pre-line" style={{ lineHeight: 1.4 }}>{incident.Number}</td>
                       <td className="px-2 py-3 text-gray-300 text-center align-middle min-w-[160px] break-words whitespace-pre-line" style={{ lineHeight: 1.4 }}>
-                        {format(opened, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                        {formatLocalizedDate(opened)}
                       </td>
                       <td className="px-2 py-3 text-gray-300 text-center align-middle min-w-[300px] break-words whitespace-pre-line" style={{ lineHeight: 1.4 }} title={incident.ShortDescription || ''}>
-                        {incident.ShortDescription || 'Sem descrição'}
+                        {incident.ShortDescription || t('incident.noDescription')}
                       </td>
                       <td className="px-2 py-3 text-gray-300 text-center align-middle min-w-[180px] break-words whitespace-pre-line" style={{ lineHeight: 1.4 }} title={incident.Caller || ''}>
                         {incident.Caller || '-'}
@@ -185,11 +169,11 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
                       <td className="px-2 py-3 text-gray-300 text-center align-middle min-w-[200px] break-words whitespace-pre-line group-col" style={{ lineHeight: 1.4 }} title={incident.AssignmentGroup || ''}>
                         <span className="hidden md:inline">{incident.AssignmentGroup || '-'}</span>
                         <span className="md:hidden">
-                          <span className="cursor-pointer underline decoration-dotted" title={incident.AssignmentGroup || '-'}>Grupo</span>
+                          <span className="cursor-pointer underline decoration-dotted" title={incident.AssignmentGroup || '-'}>{t('incident.group')}</span>
                         </span>
                       </td>
                       <td className="px-2 py-3 font-semibold text-red-500 text-center align-middle min-w-[160px] break-words whitespace-pre-line" style={{ lineHeight: 1.4 }}>
-                        {tempoFora > 0 ? formatHorasParaDiasHoras(tempoFora) + '\nfora do SLA' : '-'}
+                        {tempoFora > 0 ? t('sla.breach', { time: formatSLAOverdue(tempoFora) }) : '-'}
                       </td>
                       <td className="px-2 py-3 text-center align-middle min-w-[120px] break-words whitespace-pre-line" style={{ lineHeight: 1.4 }}>
                         <span className={`px-3 py-1 rounded-full text-xs font-semibold ${incident.State === 'Closed' || incident.State === 'Resolved' ? 'bg-green-600/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>{incident.State}</span>
@@ -198,7 +182,7 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
                         <button
                           onClick={e => { e.stopPropagation(); setSelectedIncident(incident); }}
                           className="text-indigo-400 hover:text-indigo-300 transition-colors"
-                          title="Exibir detalhes do chamado"
+                          title={t('incident.showDetails')}
                           style={{ marginRight: 0 }}
                         >
                           <ExternalLink className="h-4 w-4 mx-auto" />
@@ -220,7 +204,7 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
              onClick={e => { e.stopPropagation(); }}>
           <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-auto">
             <div className="flex items-center justify-between p-6 border-b border-gray-700">
-              <h2 className="text-2xl font-bold text-white">Chamado {selectedIncident.Number}</h2>
+              <h2 className="text-2xl font-bold text-white">{t('incident.title', { number: selectedIncident.Number })}</h2>
               <button onClick={e => { e.stopPropagation(); setSelectedIncident(null); }} className="p-2 hover:bg-[#1C2333] rounded transition-colors">
                 <X className="h-6 w-6 text-gray-400 hover:text-white" />
               </button>
@@ -228,12 +212,14 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
             <div className="p-6 space-y-6">
               <div className="flex items-center gap-3 mb-2">
                 <span className={`px-3 py-1 rounded-full text-sm font-semibold ${selectedIncident.State === 'Closed' || selectedIncident.State === 'Resolved' ? 'bg-green-600/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>{selectedIncident.State}</span>
-                <span className="px-3 py-1 rounded-full text-sm font-semibold bg-red-500/20 text-red-400">Prioridade {normalizePriority(selectedIncident.Priority || '')}</span>
+                <span className="px-3 py-1 rounded-full text-sm font-semibold bg-red-500/20 text-red-400">
+                  {t('incident.priority', { priority: normalizePriority(selectedIncident.Priority || '') })}
+                </span>
               </div>
               <div>
-                <span className="font-semibold text-gray-200 block mb-2 text-lg">Descrição</span>
+                <span className="font-semibold text-gray-200 block mb-2 text-lg">{t('incident.description')}</span>
                 <div className="text-base text-gray-100 bg-[#232B41] rounded p-3 shadow-inner">
-                  {selectedIncident.Description || selectedIncident.ShortDescription || 'Sem descrição'}
+                  {selectedIncident.Description || selectedIncident.ShortDescription || t('incident.noDescription')}
                 </div>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 mt-4">
@@ -241,21 +227,21 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
                   <div className="flex items-start gap-2">
                     <User className="h-5 w-5 text-gray-400 mt-0.5" />
                     <div>
-                      <div className="text-xs text-gray-400 font-semibold">Solicitante</div>
+                      <div className="text-xs text-gray-400 font-semibold">{t('incident.caller')}</div>
                       <div className="text-base text-white font-normal">{selectedIncident.Caller || '-'}</div>
                     </div>
                   </div>
                   <div className="flex items-start gap-2">
                     <Calendar className="h-5 w-5 text-gray-400 mt-0.5" />
                     <div>
-                      <div className="text-xs text-gray-400 font-semibold">Data de Abertura</div>
-                      <div className="text-base text-white font-normal">{selectedIncident.Opened ? format(parseDate(selectedIncident.Opened)!, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : '-'}</div>
+                      <div className="text-xs text-gray-400 font-semibold">{t('incident.opened')}</div>
+                      <div className="text-base text-white font-normal">{selectedIncident.Opened ? formatLocalizedDate(parseDate(selectedIncident.Opened)!) : '-'}</div>
                     </div>
                   </div>
                   <div className="flex items-start gap-2">
                     <Tag className="h-5 w-5 text-gray-400 mt-0.5" />
                     <div>
-                      <div className="text-xs text-gray-400 font-semibold">Categoria</div>
+                      <div className="text-xs text-gray-400 font-semibold">{t('incident.category')}</div>
                       <div className="text-base text-white font-normal">{selectedIncident.Category || '-'}</div>
                     </div>
                   </div>
@@ -264,35 +250,34 @@ export function OutOfSLAIncidents({ incidents, priorityLabel, onClose }: OutOfSL
                   <div className="flex items-start gap-2">
                     <Users className="h-5 w-5 text-gray-400 mt-0.5" />
                     <div>
-                      <div className="text-xs text-gray-400 font-semibold">Grupo Responsável</div>
+                      <div className="text-xs text-gray-400 font-semibold">{t('incident.assignmentGroup')}</div>
                       <div className="text-base text-white font-normal">{selectedIncident.AssignmentGroup || '-'}</div>
                     </div>
                   </div>
                   <div className="flex items-start gap-2">
                     <Briefcase className="h-5 w-5 text-gray-400 mt-0.5" />
                     <div>
-                      <div className="text-xs text-gray-400 font-semibold">Analista Responsável</div>
+                      <div className="text-xs text-gray-400 font-semibold">{t('incident.assignedTo')}</div>
                       <div className="text-base text-white font-normal">{selectedIncident.AssignedTo || '-'}</div>
                     </div>
                   </div>
                   <div className="flex items-start gap-2">
                     <Clock className="h-5 w-5 text-gray-400 mt-0.5" />
                     <div>
-                      <div className="text-xs text-gray-400 font-semibold">Última Atualização</div>
-                      <div className="text-base text-white font-normal">{selectedIncident.Updated ? format(parseDate(selectedIncident.Updated)!, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : '-'}</div>
+                      <div className="text-xs text-gray-400 font-semibold">{t('incident.updated')}</div>
+                      <div className="text-base text-white font-normal">{selectedIncident.Updated ? formatLocalizedDate(parseDate(selectedIncident.Updated)!) : '-'}</div>
                       {selectedIncident.UpdatedBy && (
-                        <div className="text-xs text-gray-400">por {selectedIncident.UpdatedBy}</div>
+                        <div className="text-xs text-gray-400">{t('incident.updatedBy', { name: selectedIncident.UpdatedBy })}</div>
                       )}
                       <div className="flex items-center gap-1 mt-1 text-red-500 font-semibold text-base">
                         <Info className="h-4 w-4" />
                         {(() => {
-                          const priority = normalizePriority(selectedIncident.Priority || '');
-                          const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
+                          const threshold = getIncidentSLAHours(selectedIncident);
                           const opened = parseDate(selectedIncident.Opened || '');
                           const lastUpdate = parseDate(selectedIncident.Updated || '');
-                          const responseTime = (opened && lastUpdate) ? differenceInHours(lastUpdate, opened) : 0;
+                          const responseTime = (opened && lastUpdate) ? getIncidentSLAElapsedHours(selectedIncident, opened, lastUpdate) : 0;
                           const tempoFora = responseTime - threshold;
-                          return tempoFora > 0 ? formatHorasParaDiasHoras(tempoFora) + ' fora do SLA' : '-';
+                          return tempoFora > 0 ? t('sla.breach', { time: formatSLAOverdue(tempoFora) }) : '-';
                         })()}
                       </div>
                     </div>
@@ -1,10 +1,10 @@
 import React, { useMemo } from 'react';
 import { X, AlertTriangle, ExternalLink } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
 import { normalizePriority, getIncidentState, isCancelled } from '../utils/incidentUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface PendingIncidentsAnalysisProps {
   incidents: Incident[];
@@ -23,9 +23,9 @@ const PRIORITY_COLORS = {
 export function PendingIncidentsAnalysis({ incidents, onClose, onShowIncidentDetails }: PendingIncidentsAnalysisProps) {
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.dateTime');
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -62,10 +62,10 @@ export function PendingIncidentsAnalysis({ incidents, onClose, onShowIncidentDet
       <div className="flex items-center justify-between mb-6">
         <div>
           <h2 className="text-xl font-semibold text-white">
-            Chamados Pendentes
+            {t('pendingModal.title')}
           </h2>
           <p className="text-gray-400 mt-1">
-            {pendingIncidents.length} chamados encontrados
+            {t('analysis.ticketsFound', { count: pendingIncidents.length })}
           </p>
         </div>
         <button
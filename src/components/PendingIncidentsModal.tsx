@@ -1,10 +1,10 @@
 import React, { useState, useMemo } from 'react';
 import { X, AlertTriangle, ExternalLink, Filter, AlertCircle, Clock } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface PendingIncidentsModalProps {
   incidents: Incident[];
@@ -14,21 +14,21 @@ interface PendingIncidentsModalProps {
 const STATUS_OPTIONS = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'analysis.status.all' as const,
     icon: Filter,
     color: 'text-gray-400',
     count: 19
   },
   { 
     value: 'Aberto', 
-    label: 'Em Aberto',
+    labelKey: 'analysis.status.open' as const,
     icon: AlertCircle,
     color: 'text-yellow-400',
     count: 0
   },
   { 
     value: 'Em Andamento', 
-    label: 'Em Andamento',
+    labelKey: 'analysis.status.inProgress' as const,
     icon: Clock,
     color: 'text-blue-400',
     count: 0
@@ -57,9 +57,9 @@ export function PendingIncidentsModal({ incidents, onClose }: PendingIncidentsMo
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.dateTime');
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -77,10 +77,10 @@ export function PendingIncidentsModal({ incidents, onClose }: PendingIncidentsMo
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h2 className="text-xl font-semibold text-white">
-                  Chamados Pendentes
+                  {t('pendingModal.title')}
                 </h2>
                 <p className="text-gray-400 mt-1">
-                  {filteredIncidents.length} chamados encontrados
+                  {t('analysis.ticketsFound', { count: filteredIncidents.length })}
                 </p>
               </div>
               <button
@@ -106,7 +106,7 @@ export function PendingIncidentsModal({ incidents, onClose }: PendingIncidentsMo
                     `}
                   >
                     <Icon className="h-4 w-4" />
-                    <span>{option.label}</span>
+                    <span>{t(option.labelKey)}</span>
                     <span className="ml-2 px-2 py-0.5 rounded-full bg-[#151B2B] text-xs">
                       {option.count}
                     </span>
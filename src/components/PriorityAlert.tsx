@@ -2,8 +2,8 @@ import React from 'react';
 import { AlertTriangle, X } from 'lucide-react';
 import { Incident } from '../types/incident';
 import { formatDistanceToNow, parseISO } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { getIncidentState, isHighPriority, normalizePriority, isCancelled } from '../utils/incidentUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface PriorityAlertProps {
   incidents: Incident[];
@@ -13,11 +13,11 @@ interface PriorityAlertProps {
 const getIncidentDuration = (openedDate: string): string => {
   try {
     return formatDistanceToNow(parseISO(openedDate), { 
-      locale: ptBR,
+      locale: getDateLocale(),
       addSuffix: false 
     });
   } catch (error) {
-    return 'Data inválida';
+    return t('format.invalidDate');
   }
 };
 
@@ -61,7 +61,7 @@ export function PriorityAlert({ incidents, onClose }: PriorityAlertProps) {
         <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5 mr-3 flex-shrink-0" />
         <div>
           <h3 className="text-red-500 font-semibold mb-2">
-            Atenção: Chamados Críticos em Aberto
+            {t('priorityAlert.title')}
           </h3>
           <div className="space-y-2">
             {highPriorityOpenIncidents.map(incident => (
@@ -81,13 +81,13 @@ export function PriorityAlert({ incidents, onClose }: PriorityAlertProps) {
                 </span>
                 <span className="text-gray-400 ml-2">{incident.ShortDescription}</span>
                 <span className="text-amber-400 ml-2">
-                  • Aberto há {getIncidentDuration(incident.Opened)}
+                  • {t('criticalModal.openFor', { duration: getIncidentDuration(incident.Opened) })}
                 </span>
               </div>
             ))}
           </div>
           <p className="text-sm text-gray-400 mt-3">
-            Total de chamados críticos em aberto: {highPriorityOpenIncidents.length}
+            {t('priorityAlert.total', { count: highPriorityOpenIncidents.length })}
           </p>
         </div>
       </div>
@@ -1,10 +1,11 @@
 import React, { useMemo, useState } from 'react';
 import { X, AlertTriangle, ExternalLink } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format, differenceInHours } from 'date-fns';
+import { parseISO, isWithinInterval, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { IncidentDetails } from './IncidentDetails';
 import { getIncidentState, normalizePriority, isCancelled } from '../utils/incidentUtils';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
 
 interface PriorityAnalysisProps {
   incidents: Incident[];
@@ -28,13 +29,6 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
-const SLA_THRESHOLDS = {
-  P1: 1,  // 1 hour
-  P2: 4,  // 4 hours
-  P3: 24, // 24 hours
-  P4: 48  // 48 hours
-};
-
 function IncidentModal({ incidents, priority, state, onClose }: IncidentModalProps) {
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
 
@@ -226,9 +220,9 @@ export function PriorityAnalysis({ incidents, onClose, startDate, endDate }: Pri
       }
 
       // Calculate SLA compliance
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 24;
+      const threshold = getIncidentSLAHours(incident);
       try {
-        const responseTime = differenceInHours(parseISO(incident.Updated), parseISO(incident.Opened));
+        const responseTime = getIncidentSLAElapsedHours(incident, parseISO(incident.Opened), parseISO(incident.Updated));
         if (responseTime <= threshold) {
           data[priority].withinSLA++;
         } else {
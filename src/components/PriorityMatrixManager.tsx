@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react';
+import { Grid3x3, Save, RotateCcw, X, AlertTriangle, ExternalLink } from 'lucide-react';
+import { Incident } from '../types/incident';
+import { ImpactUrgencyLevel, PriorityLevel, PriorityModel } from '../types/priority';
+import {
+  IMPACT_URGENCY_LEVELS,
+  PRIORITY_LEVELS,
+  findPriorityMismatches,
+  loadPriorityModel,
+  resetPriorityModel,
+  savePriorityModel
+} from '../utils/priorityUtils';
+import { t } from '../utils/i18nUtils';
+import { IncidentDetails } from './IncidentDetails';
+
+interface PriorityMatrixManagerProps {
+  incidents: Incident[];
+  onClose: () => void;
+  onSaved: (model: PriorityModel) => void;
+}
+
+// Quantidade de divergências listadas; o total aparece na aba
+const MISMATCH_LIST_LIMIT = 100;
+
+const PRIORITY_COLORS: Record<PriorityLevel, string> = {
+  P1: 'bg-red-500/20 text-red-400',
+  P2: 'bg-orange-500/20 text-orange-400',
+  P3: 'bg-yellow-500/20 text-yellow-400',
+  P4: 'bg-green-500/20 text-green-400'
+};
+
+export function PriorityMatrixManager({ incidents, onClose, onSaved }: PriorityMatrixManagerProps) {
+  const [model, setModel] = useState<PriorityModel>(() => loadPriorityModel());
+  const [panel, setPanel] = useState<'matrix' | 'mismatches'>('matrix');
+  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
+
+  // Divergências calculadas com a matriz em edição
+  const mismatches = useMemo(() => findPriorityMismatches(incidents, model), [incidents, model]);
+  const withMatrixFields = incidents.filter(incident => incident.Impact && incident.Urgency).length;
+
+  const handleCellChange = (impact: ImpactUrgencyLevel, urgency: ImpactUrgencyLevel, priority: PriorityLevel) => {
+    setModel({
+      ...model,
+      matrix: { ...model.matrix, [impact]: { ...model.matrix[impact], [urgency]: priority } }
+    });
+  };
+
+  const toggleHighPriority = (priority: PriorityLevel) => {
+    const highPriorities = model.highPriorities.includes(priority)
+      ? model.highPriorities.filter(level => level !== priority)
+      : PRIORITY_LEVELS.filter(level => level === priority || model.highPriorities.includes(level));
+    setModel({ ...model, highPriorities });
+  };
+
+  const handleSave = () => {
+    savePriorityModel(model);
+    onSaved(model);
+    onClose();
+  };
+
+  const handleReset = () => {
+    const defaults = resetPriorityModel();
+    setModel(defaults);
+    onSaved(defaults);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Grid3x3 className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('priorityModel.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('priorityModel.subtitle')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t('priorityModel.reset')}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={() => setPanel('matrix')}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                panel === 'matrix' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+              }`}
+            >
+              {t('priorityModel.matrix')}
+            </button>
+            <button
+              onClick={() => setPanel('mismatches')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                panel === 'mismatches' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+              }`}
+            >
+              <AlertTriangle className="h-4 w-4" />
+              {t('priorityModel.mismatches')}
+              <span className="text-xs opacity-75">{mismatches.length}</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {panel === 'matrix' ? (
+            <div className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="text-sm">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('priorityModel.axes')}</th>
+                      {IMPACT_URGENCY_LEVELS.map(urgency => (
+                        <th key={urgency.value} className="px-3 py-2 text-gray-400 font-medium text-center">
+                          {t('priorityModel.level', { value: urgency.value, label: t(urgency.labelKey) })}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {IMPACT_URGENCY_LEVELS.map(impact => (
+                      <tr key={impact.value}>
+                        <th className="px-3 py-2 text-left text-gray-400 font-medium">
+                          {t('priorityModel.level', { value: impact.value, label: t(impact.labelKey) })}
+                        </th>
+                        {IMPACT_URGENCY_LEVELS.map(urgency => {
+                          const priority = model.matrix[impact.value][urgency.value];
+                          return (
+                            <td key={urgency.value} className="px-3 py-2">
+                              <select
+                                value={priority}
+                                onChange={(e) => handleCellChange(impact.value, urgency.value, e.target.value as PriorityLevel)}
+                                className={`w-24 rounded-lg px-2 py-1.5 text-sm font-medium border border-gray-700 ${PRIORITY_COLORS[priority]}`}
+                              >
+                                {PRIORITY_LEVELS.map(level => (
+                                  <option key={level} value={level} className="bg-[#151B2B] text-white">{level}</option>
+                                ))}
+                              </select>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-[#1C2333] rounded-lg p-4 space-y-3">
+                <h3 className="text-sm font-medium text-white">{t('priorityModel.highPriority')}</h3>
+                <div className="flex gap-4">
+                  {PRIORITY_LEVELS.map(level => (
+                    <label key={level} className="flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={model.highPriorities.includes(level)}
+                        onChange={() => toggleHighPriority(level)}
+                        className="rounded border-gray-600 bg-[#151B2B]"
+                      />
+                      {level}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400">
+                  {t('priorityModel.parsingHint')}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-400">
+                {t('priorityModel.mismatchSummary', {
+                  withFields: withMatrixFields,
+                  total: incidents.length,
+                  mismatches: mismatches.length
+                })}
+                {mismatches.length > MISMATCH_LIST_LIMIT && t('priorityModel.showingFirst', { count: MISMATCH_LIST_LIMIT })}.
+              </p>
+              {mismatches.slice(0, MISMATCH_LIST_LIMIT).map(({ incident, recorded, derived }) => (
+                <div key={incident.Number} className="bg-[#1C2333] p-3 rounded-lg flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm font-medium truncate">
+                      {incident.Number} <span className="text-gray-400 font-normal">· {incident.ShortDescription}</span>
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {t('priorityModel.impactUrgency', { impact: incident.Impact ?? '', urgency: incident.Urgency ?? '' })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0 text-sm">
+                    <span
+                      className={`px-2 py-0.5 rounded-full ${recorded ? PRIORITY_COLORS[recorded] : 'bg-gray-500/20 text-gray-400'}`}
+                      title={t('priorityModel.recorded', { value: incident.Priority || t('priorityModel.empty') })}
+                    >
+                      {recorded ?? (incident.Priority || t('priorityModel.undefined'))}
+                    </span>
+                    <span className="text-gray-500">→</span>
+                    <span className={`px-2 py-0.5 rounded-full ${PRIORITY_COLORS[derived]}`} title={t('priorityModel.calculated')}>
+                      {derived}
+                    </span>
+                    <button
+                      onClick={() => setSelectedIncident(incident)}
+                      className="ml-2 text-indigo-400 hover:text-indigo-300 transition-colors"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex items-center justify-end">
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            {t('priorityModel.save')}
+          </button>
+        </div>
+      </div>
+
+      {selectedIncident && (
+        <IncidentDetails
+          incident={selectedIncident}
+          onClose={() => setSelectedIncident(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+import { useMemo, useState } from 'react';
+import {
+  Bug,
+  Lightbulb,
+  ChevronDown,
+  ChevronUp,
+  ArrowRight,
+  Trash2,
+  Plus,
+  X
+} from 'lucide-react';
+import { parseISO } from 'date-fns';
+import { Incident } from '../types/incident';
+import { Problem, ProblemCandidateCriterion, ProblemCandidateSettings, ProblemState } from '../types/problem';
+import { normalizePriority } from '../utils/incidentUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
+import {
+  CANDIDATE_CRITERIA,
+  PROBLEM_STATES,
+  deleteProblem,
+  findProblemCandidates,
+  getCriterionLabel,
+  getNextProblemState,
+  getProblemStateLabel,
+  loadCandidateSettings,
+  loadProblems,
+  promoteCandidateToProblem,
+  saveCandidateSettings,
+  saveProblem
+} from '../utils/problemUtils';
+
+interface ProblemManagementProps {
+  incidents: Incident[];
+  onClose: () => void;
+  onShowIncidentDetails?: (incident: Incident) => void;
+}
+
+const STATE_COLORS: Record<ProblemState, string> = {
+  new: 'bg-blue-500/20 text-blue-400',
+  root_cause_analysis: 'bg-yellow-500/20 text-yellow-400',
+  known_error: 'bg-orange-500/20 text-orange-400',
+  resolved: 'bg-green-500/20 text-green-400'
+};
+
+const formatDate = (value: string) => {
+  try {
+    return formatLocalizedDate(parseISO(value));
+  } catch {
+    return value || '—';
+  }
+};
+
+const IncidentList = ({
+  incidents,
+  onShowIncidentDetails,
+  onRemove
+}: {
+  incidents: Incident[];
+  onShowIncidentDetails?: (incident: Incident) => void;
+  onRemove?: (incident: Incident) => void;
+}) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full text-sm">
+      <thead className="bg-[#151B2B]">
+        <tr>
+          <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('problem.incident')}</th>
+          <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('problem.description')}</th>
+          <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('problem.priority')}</th>
+          <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('problem.opened')}</th>
+          {onRemove && <th className="px-3 py-2" />}
+        </tr>
+      </thead>
+      <tbody>
+        {incidents.map(incident => (
+          <tr
+            key={incident.Number}
+            onClick={() => onShowIncidentDetails?.(incident)}
+            className={`border-t border-gray-800 ${onShowIncidentDetails ? 'cursor-pointer hover:bg-[#151B2B]' : ''}`}
+          >
+            <td className="px-3 py-2 text-white whitespace-nowrap">{incident.Number}</td>
+            <td className="px-3 py-2 text-gray-300 max-w-[360px] truncate" title={incident.ShortDescription}>
+              {incident.ShortDescription}
+            </td>
+            <td className="px-3 py-2 text-gray-300">{normalizePriority(incident.Priority)}</td>
+            <td className="px-3 py-2 text-gray-300 whitespace-nowrap">{formatDate(incident.Opened)}</td>
+            {onRemove && (
+              <td className="px-3 py-2 text-right">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemove(incident);
+                  }}
+                  className="text-gray-500 hover:text-red-400"
+                  title={t('problem.unlink')}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export function ProblemManagement({ incidents, onClose, onShowIncidentDetails }: ProblemManagementProps) {
+  const [problems, setProblems] = useState<Problem[]>(() => loadProblems());
+  const [settings, setSettings] = useState<ProblemCandidateSettings>(() => loadCandidateSettings());
+  const [activeTab, setActiveTab] = useState<'candidates' | 'problems'>('candidates');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [incidentToLink, setIncidentToLink] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  const candidates = useMemo(
+    () => findProblemCandidates(incidents, settings, problems),
+    [incidents, settings, problems]
+  );
+  const incidentsByNumber = useMemo(
+    () => new Map(incidents.map(incident => [incident.Number, incident])),
+    [incidents]
+  );
+
+  const updateSettings = (changes: Partial<ProblemCandidateSettings>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    saveCandidateSettings(updated);
+  };
+
+  const toggleCriterion = (criterion: ProblemCandidateCriterion) => {
+    const criteria = settings.criteria.includes(criterion)
+      ? settings.criteria.filter(c => c !== criterion)
+      : [...settings.criteria, criterion];
+    updateSettings({ criteria });
+  };
+
+  const handleNumberSetting = (key: 'windowDays' | 'minIncidents', value: string, min: number) => {
+    const parsed = Number(value);
+    if (!isNaN(parsed) && parsed >= min) updateSettings({ [key]: parsed });
+  };
+
+  const updateProblem = (problem: Problem, changes: Partial<Problem>) => {
+    const saved = saveProblem({ ...problem, ...changes });
+    setProblems(current => current.map(p => (p.id === saved.id ? saved : p)));
+  };
+
+  const handlePromote = (key: string) => {
+    const candidate = candidates.find(c => c.key === key);
+    if (!candidate) return;
+    const problem = promoteCandidateToProblem(candidate);
+    setProblems(current => [...current, problem]);
+    setActiveTab('problems');
+    setExpandedKey(problem.id);
+  };
+
+  const handleDelete = (problem: Problem) => {
+    if (!window.confirm(t('problem.confirmDelete', { number: problem.number }))) return;
+    deleteProblem(problem.id);
+    setProblems(current => current.filter(p => p.id !== problem.id));
+  };
+
+  const handleLinkIncident = (problem: Problem) => {
+    const number = incidentToLink.trim().toUpperCase();
+    if (!number) return;
+    if (!incidentsByNumber.has(number)) {
+      setLinkError(t('problem.error.notFound', { number }));
+      return;
+    }
+    const owner = problems.find(p => p.incidentNumbers.includes(number));
+    if (owner) {
+      setLinkError(t('problem.error.alreadyLinked', { number, problem: owner.number }));
+      return;
+    }
+    updateProblem(problem, { incidentNumbers: [...problem.incidentNumbers, number] });
+    setIncidentToLink('');
+    setLinkError(null);
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKey(current => (current === key ? null : key));
+    setIncidentToLink('');
+    setLinkError(null);
+  };
+
+  const openProblems = problems.filter(problem => problem.state !== 'resolved').length;
+
+  return (
+    <div className="bg-[#151B2B] p-6 rounded-lg space-y-6 relative">
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
+        aria-label={t('problem.close')}
+      >
+        ×
+      </button>
+
+      <div className="flex items-center gap-3">
+        <Bug className="h-6 w-6 text-orange-400" />
+        <div>
+          <h2 className="text-xl font-bold text-white">{t('problem.title')}</h2>
+          <p className="text-sm text-gray-400">
+            {t('problem.subtitle')}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setActiveTab('candidates')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+            activeTab === 'candidates' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+          }`}
+        >
+          <Lightbulb className="h-4 w-4" />
+          {t('problem.candidatesTab', { count: candidates.length })}
+        </button>
+        <button
+          onClick={() => setActiveTab('problems')}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+            activeTab === 'problems' ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+          }`}
+        >
+          <Bug className="h-4 w-4" />
+          {t('problem.problemsTab', { count: openProblems })}
+        </button>
+      </div>
+
+      {activeTab === 'candidates' && (
+        <div className="space-y-4">
+          <div className="bg-[#1C2333] rounded-lg p-4 flex flex-wrap items-end gap-6">
+            <label className="text-sm text-gray-400">
+              {t('problem.windowDays')}
+              <input
+                type="number"
+                min={1}
+                value={settings.windowDays}
+                onChange={(e) => handleNumberSetting('windowDays', e.target.value, 1)}
+                className="mt-1 block w-28 bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              {t('problem.minIncidents')}
+              <input
+                type="number"
+                min={2}
+                value={settings.minIncidents}
+                onChange={(e) => handleNumberSetting('minIncidents', e.target.value, 2)}
+                className="mt-1 block w-28 bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+            <div className="flex flex-wrap gap-4">
+              {CANDIDATE_CRITERIA.map(criterion => (
+                <label key={criterion.value} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={settings.criteria.includes(criterion.value)}
+                    onChange={() => toggleCriterion(criterion.value)}
+                    className="rounded border-gray-600 bg-[#151B2B] text-indigo-600"
+                  />
+                  {t(criterion.labelKey)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {candidates.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {t('problem.noCandidates', { min: settings.minIncidents, days: settings.windowDays })}
+            </p>
+          ) : (
+            candidates.map(candidate => {
+              const isExpanded = expandedKey === candidate.key;
+              return (
+                <div key={candidate.key} className="bg-[#1C2333] rounded-lg">
+                  <div className="flex items-center justify-between p-4 gap-4">
+                    <button onClick={() => toggleExpanded(candidate.key)} className="flex-1 min-w-0 text-left">
+                      <div className="flex items-center gap-3">
+                        <span className="px-2 py-0.5 rounded bg-[#151B2B] text-xs text-gray-400">
+                          {getCriterionLabel(candidate.criterion)}
+                        </span>
+                        <span className="text-white font-medium truncate" title={candidate.label}>{candidate.label}</span>
+                      </div>
+                      <p className="text-sm text-gray-400 mt-1">
+                        {t('problem.candidateRange', {
+                          count: candidate.incidents.length,
+                          first: formatDate(candidate.firstOpened),
+                          last: formatDate(candidate.lastOpened)
+                        })}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => handlePromote(candidate.key)}
+                      className="flex items-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm transition-colors flex-shrink-0"
+                    >
+                      <Plus className="h-4 w-4" />
+                      {t('problem.promote')}
+                    </button>
+                    <button onClick={() => toggleExpanded(candidate.key)} className="text-gray-400">
+                      {isExpanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+                    </button>
+                  </div>
+                  {isExpanded && (
+                    <div className="px-4 pb-4">
+                      <IncidentList incidents={candidate.incidents} onShowIncidentDetails={onShowIncidentDetails} />
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {activeTab === 'problems' && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {PROBLEM_STATES.map(state => (
+              <div key={state.value} className="bg-[#1C2333] rounded-lg p-4">
+                <p className="text-sm text-gray-400">{t(state.labelKey)}</p>
+                <p className="text-2xl font-bold text-white">
+                  {problems.filter(problem => problem.state === state.value).length}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {problems.length === 0 ? (
+            <p className="text-sm text-gray-400">{t('problem.empty')}</p>
+          ) : (
+            [...problems]
+              .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+              .map(problem => {
+                const isExpanded = expandedKey === problem.id;
+                const nextState = getNextProblemState(problem.state);
+                const linkedIncidents = problem.incidentNumbers
+                  .map(number => incidentsByNumber.get(number))
+                  .filter((incident): incident is Incident => !!incident);
+                const outOfPeriod = problem.incidentNumbers.length - linkedIncidents.length;
+
+                return (
+                  <div key={problem.id} className="bg-[#1C2333] rounded-lg">
+                    <div className="flex items-center justify-between p-4 gap-4">
+                      <button onClick={() => toggleExpanded(problem.id)} className="flex-1 min-w-0 text-left">
+                        <div className="flex items-center gap-3">
+                          <span className="text-white font-medium">{problem.number}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${STATE_COLORS[problem.state]}`}>
+                            {getProblemStateLabel(problem.state)}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-300 truncate mt-1" title={problem.title}>{problem.title}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {t('problem.linkedSummary', { count: problem.incidentNumbers.length, date: formatDate(problem.updatedAt) })}
+                        </p>
+                      </button>
+                      {nextState && (
+                        <button
+                          onClick={() => updateProblem(problem, { state: nextState })}
+                          className="flex items-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm transition-colors flex-shrink-0"
+                        >
+                          <ArrowRight className="h-4 w-4" />
+                          {getProblemStateLabel(nextState)}
+                        </button>
+                      )}
+                      <button onClick={() => toggleExpanded(problem.id)} className="text-gray-400">
+                        {isExpanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+                      </button>
+                    </div>
+
+                    {isExpanded && (
+                      <div className="px-4 pb-4 space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <label className="text-sm text-gray-400">
+                            {t('problem.titleField')}
+                            <input
+                              type="text"
+                              value={problem.title}
+                              onChange={(e) => updateProblem(problem, { title: e.target.value })}
+                              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                            />
+                          </label>
+                          <label className="text-sm text-gray-400">
+                            {t('problem.state')}
+                            <select
+                              value={problem.state}
+                              onChange={(e) => updateProblem(problem, { state: e.target.value as ProblemState })}
+                              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                            >
+                              {PROBLEM_STATES.map(state => (
+                                <option key={state.value} value={state.value}>{t(state.labelKey)}</option>
+                              ))}
+                            </select>
+                          </label>
+                          <label className="text-sm text-gray-400">
+                            {t('problem.rootCause')}
+                            <textarea
+                              value={problem.rootCause}
+                              onChange={(e) => updateProblem(problem, { rootCause: e.target.value })}
+                              rows={3}
+                              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                            />
+                          </label>
+                          <label className="text-sm text-gray-400">
+                            {t('problem.workaround')}
+                            <textarea
+                              value={problem.workaround}
+                              onChange={(e) => updateProblem(problem, { workaround: e.target.value })}
+                              rows={3}
+                              className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                            />
+                          </label>
+                        </div>
+
+                        <div>
+                          <div className="flex items-center gap-2 mb-2">
+                            <input
+                              type="text"
+                              value={incidentToLink}
+                              onChange={(e) => setIncidentToLink(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && handleLinkIncident(problem)}
+                              placeholder={t('problem.incidentNumber')}
+                              className="bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white text-sm"
+                            />
+                            <button
+                              onClick={() => handleLinkIncident(problem)}
+                              className="flex items-center gap-2 px-3 py-2 bg-[#151B2B] hover:bg-[#252d3d] text-gray-300 rounded-lg text-sm transition-colors"
+                            >
+                              <Plus className="h-4 w-4" />
+                              {t('problem.link')}
+                            </button>
+                            {linkError && <span className="text-sm text-red-400">{linkError}</span>}
+                          </div>
+                          <IncidentList
+                            incidents={linkedIncidents}
+                            onShowIncidentDetails={onShowIncidentDetails}
+                            onRemove={(incident) =>
+                              updateProblem(problem, {
+                                incidentNumbers: problem.incidentNumbers.filter(number => number !== incident.Number)
+                              })
+                            }
+                          />
+                          {outOfPeriod > 0 && (
+                            <p className="mt-2 text-xs text-gray-500">
+                              {t('problem.outOfPeriod', { count: outOfPeriod })}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => handleDelete(problem)}
+                            className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            {t('problem.delete')}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Send, Bot, User, Loader2, X, Search, AlertTriangle, CheckCircle2, Clock, FileText } from 'lucide-react';
 import { Incident } from '../types/incident';
 import OpenAI from 'openai';
+import { getAILanguageInstruction, t } from '../utils/i18nUtils';
 
 interface RCAChatProps {
   incidents: Incident[];
@@ -86,29 +87,28 @@ export function RCAChat({ incidents, onClose }: RCAChatProps) {
       // Prepare context from selected incident or general incidents data
       let context = '';
       if (selectedIncident) {
-        context = `
-          Informações do incidente:
-          Número: ${selectedIncident.Number}
-          Descrição: ${selectedIncident.ShortDescription}
-          Categoria: ${selectedIncident.Category || 'Não especificada'}
-          Subcategoria: ${selectedIncident.Subcategory || 'Não especificada'}
-          Prioridade: ${selectedIncident.Priority || 'Não especificada'}
-          Estado: ${selectedIncident.State || 'Não especificado'}
-          Grupo: ${selectedIncident.AssignmentGroup || 'Não especificado'}
-          Usuário: ${selectedIncident.Caller || 'Não especificado'}
-          Comentários: ${selectedIncident.CommentsAndWorkNotes || 'Não disponíveis'}
-        `;
+        const notSpecified = t('prompt.rca.notSpecified');
+        context = t('prompt.rca.incidentContext', {
+          number: selectedIncident.Number,
+          description: selectedIncident.ShortDescription,
+          category: selectedIncident.Category || notSpecified,
+          subcategory: selectedIncident.Subcategory || notSpecified,
+          priority: selectedIncident.Priority || notSpecified,
+          state: selectedIncident.State || notSpecified,
+          group: selectedIncident.AssignmentGroup || notSpecified,
+          caller: selectedIncident.Caller || notSpecified,
+          comments: selectedIncident.CommentsAndWorkNotes || t('prompt.rca.notAvailable')
+        });
       } else {
         // Provide general statistics about incidents
         const categories = Array.from(new Set(incidents.map(i => i.Category))).filter(Boolean);
         const subcategories = Array.from(new Set(incidents.map(i => i.Subcategory))).filter(Boolean);
-        
-        context = `
-          Estatísticas gerais:
-          Total de incidentes: ${incidents.length}
-          Categorias principais: ${categories.slice(0, 5).join(', ')}
-          Subcategorias principais: ${subcategories.slice(0, 5).join(', ')}
-        `;
+
+        context = t('prompt.rca.generalContext', {
+          total: incidents.length,
+          categories: categories.slice(0, 5).join(', '),
+          subcategories: subcategories.slice(0, 5).join(', ')
+        });
       }
 
       const completion = await openai.chat.completions.create({
@@ -116,28 +116,7 @@ export function RCAChat({ incidents, onClose }: RCAChatProps) {
         messages: [
           {
             role: "system",
-            content: `Você é um especialista em Análise de Causa Raiz (RCA). Seu papel é analisar problemas reais descritos na base de dados de chamados, especificamente usando os seguintes campos:
-
-Shortdescription (descrição curta exata do incidente)
-
-Assignment group (localidade ou grupo de suporte específico onde o problema ocorre com maior frequência)
-
-Você não deve criar cenários hipotéticos nem pedir informações adicionais. Utilize apenas as informações fornecidas.
-
-Sua resposta deve seguir exatamente este formato direto e objetivo:
-
-Problema identificado: (problema exato descrito em Shortdescription)
-
-Localidade mais afetada: (Assignment group)
-
-Causas Prováveis (máximo 3): (causas específicas e diretamente relacionadas à descrição e localidade)
-
-Recomendações Imediatas: (ações práticas e imediatas para resolver o problema, considerando a localidade)
-
-Estratégias Preventivas: (ações específicas para evitar recorrências desse tipo de problema na localidade indicada)
-
-Contexto sobre os incidentes:
-${context}`
+            content: `${t('prompt.rca.system', { context })}\n\n${getAILanguageInstruction()}`
           },
           ...messages.map(m => ({ role: m.role, content: m.content })),
           { role: "user", content: userMessage }
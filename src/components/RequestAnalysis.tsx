@@ -26,6 +26,8 @@ import {
 import { Request, REQUEST_PRIORITIES, REQUEST_STATUSES, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { parseISO, format, isWithinInterval } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel } from '../utils/requestUtils';
 
 interface RequestAnalysisProps {
   requests: Request[];
@@ -48,31 +50,31 @@ const CHART_COLORS = {
 const STATUS_OPTIONS = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'analysis.status.all' as const,
     icon: Filter,
     color: 'text-gray-400'
   },
   { 
     value: 'NEW', 
-    label: 'Novos',
+    labelKey: 'requestTrend.new' as const,
     icon: AlertCircle,
     color: 'text-blue-400'
   },
   { 
     value: 'IN_PROGRESS', 
-    label: 'Em Andamento',
+    labelKey: 'request.status.IN_PROGRESS' as const,
     icon: Clock,
     color: 'text-indigo-400'
   },
   { 
     value: 'ON_HOLD', 
-    label: 'Em Espera',
+    labelKey: 'request.status.ON_HOLD' as const,
     icon: PauseCircle,
     color: 'text-orange-400'
   },
   { 
     value: 'COMPLETED', 
-    label: 'Concluídos',
+    labelKey: 'requestDashboard.completed' as const,
     icon: CheckCircle2,
     color: 'text-green-400'
   }
@@ -138,7 +140,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
 
   const categoryData = useMemo(() => {
     return requests.reduce((acc, request) => {
-      const category = request.RequestItem || 'Não categorizado';
+      const category = request.RequestItem || t('analysis.uncategorized');
       const priority = normalizeRequestPriority(request.Priority);
       
       if (!acc[category]) {
@@ -167,7 +169,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
   const topRequesters = useMemo(() => {
     const requesters = requests.reduce((acc, request) => {
       // Use the correct field for user identification
-      const requester = request["Request item [Catalog Task] Requested for Name"] || request.RequestedForName || 'Não identificado';
+      const requester = request["Request item [Catalog Task] Requested for Name"] || request.RequestedForName || t('userAnalysis.unidentified');
       
       if (!acc[requester]) {
         acc[requester] = {
@@ -246,7 +248,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -261,9 +263,9 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-xl font-semibold text-white">Análise de Requests</h2>
+          <h2 className="text-xl font-semibold text-white">{t('requestAnalysis.title')}</h2>
           <p className="text-gray-400 mt-1">
-            {stats.total} requests no período
+            {t('requestAnalysis.inPeriod', { count: stats.total })}
           </p>
         </div>
         {onClose && (
@@ -280,7 +282,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <FileText className="h-5 w-5 text-emerald-400" />
-            <h3 className="text-sm text-gray-400">Taxa de Conclusão</h3>
+            <h3 className="text-sm text-gray-400">{t('requestSla.completionRate')}</h3>
           </div>
           <p className={`text-2xl font-bold ${
             stats.completionRate >= 80 ? 'text-green-400' :
@@ -291,31 +293,31 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-sm text-gray-400 mb-2">Em Andamento</h3>
+          <h3 className="text-sm text-gray-400 mb-2">{t('request.status.IN_PROGRESS')}</h3>
           <p className="text-2xl font-bold text-blue-400">{stats.inProgress}</p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-sm text-gray-400 mb-2">Em Espera</h3>
+          <h3 className="text-sm text-gray-400 mb-2">{t('request.status.ON_HOLD')}</h3>
           <p className="text-2xl font-bold text-orange-400">{stats.onHold}</p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-sm text-gray-400 mb-2">Concluídos</h3>
+          <h3 className="text-sm text-gray-400 mb-2">{t('requestDashboard.completed')}</h3>
           <p className="text-2xl font-bold text-green-400">{stats.completed}</p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <AlertTriangle className="h-5 w-5 text-red-400" />
-            <h3 className="text-sm text-gray-400">Alta Prioridade</h3>
+            <h3 className="text-sm text-gray-400">{t('requestDashboard.highPriority')}</h3>
           </div>
           <p className="text-2xl font-bold text-red-400">{stats.highPriority}</p>
         </div>
       </div>
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição por Status</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestAnalysis.byStatus')}</h3>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
@@ -336,19 +338,19 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
               <Legend />
               <Bar 
                 dataKey="HIGH" 
-                name="Alta" 
+                name={getRequestPriorityLabel('HIGH')} 
                 fill={CHART_COLORS.HIGH} 
                 stackId="stack"
               />
               <Bar 
                 dataKey="MEDIUM" 
-                name="Média" 
+                name={getRequestPriorityLabel('MEDIUM')} 
                 fill={CHART_COLORS.MEDIUM} 
                 stackId="stack"
               />
               <Bar 
                 dataKey="LOW" 
-                name="Baixa" 
+                name={getRequestPriorityLabel('LOW')} 
                 fill={CHART_COLORS.LOW} 
                 stackId="stack"
               />
@@ -359,7 +361,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">Top 10 Solicitantes</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('requestAnalysis.topRequesters')}</h3>
           <div className="space-y-4">
             {topRequesters.map(requester => (
               <div 
@@ -368,7 +370,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
               >
                 <div className="flex items-center justify-between mb-2">
                   <h4 className="text-white font-medium">{requester.name}</h4>
-                  <span className="text-gray-400">{requester.total} requests</span>
+                  <span className="text-gray-400">{t('requestAnalysis.count', { count: requester.total })}</span>
                 </div>
                 <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                   {['HIGH', 'MEDIUM', 'LOW'].map(priority => {
@@ -391,7 +393,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">Distribuição por Categoria</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('requestAnalysis.byCategory')}</h3>
           <div className="space-y-4">
             {Object.values(categoryData)
               .sort((a, b) => b.total - a.total)
@@ -403,7 +405,7 @@ export function RequestAnalysis({ requests, onClose, startDate, endDate }: Reque
                 >
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="text-white font-medium">{category.name}</h4>
-                    <span className="text-gray-400">{category.total} requests</span>
+                    <span className="text-gray-400">{t('requestAnalysis.count', { count: category.total })}</span>
                   </div>
                   <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                     {['HIGH', 'MEDIUM', 'LOW'].map(priority => {
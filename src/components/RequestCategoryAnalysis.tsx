@@ -18,9 +18,11 @@ import {
   ChevronDown,
   ChevronRight
 } from 'lucide-react';
-import { Request, REQUEST_PRIORITIES, normalizeRequestPriority } from '../types/request';
+import { Request, normalizeRequestPriority } from '../types/request';
 import { parseISO, isWithinInterval, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel } from '../utils/requestUtils';
 
 interface RequestCategoryAnalysisProps {
   requests: Request[];
@@ -61,7 +63,7 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
     });
 
     const data = filteredRequests.reduce((acc, request) => {
-      const category = request.RequestItem || 'Não categorizado';
+      const category = request.RequestItem || t('analysis.uncategorized');
       const priority = normalizeRequestPriority(request.Priority);
       
       if (!acc[category]) {
@@ -111,7 +113,7 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -125,7 +127,7 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise por Categoria</h2>
+        <h2 className="text-xl font-semibold text-white">{t('requestCategory.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -137,7 +139,7 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
       </div>
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição por Categoria</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestAnalysis.byCategory')}</h3>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
@@ -157,19 +159,19 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
               <Legend />
               <Bar 
                 dataKey="HIGH" 
-                name="Alta" 
+                name={getRequestPriorityLabel('HIGH')} 
                 fill={CHART_COLORS.HIGH} 
                 stackId="stack"
               />
               <Bar 
                 dataKey="MEDIUM" 
-                name="Média" 
+                name={getRequestPriorityLabel('MEDIUM')} 
                 fill={CHART_COLORS.MEDIUM} 
                 stackId="stack"
               />
               <Bar 
                 dataKey="LOW" 
-                name="Baixa" 
+                name={getRequestPriorityLabel('LOW')} 
                 fill={CHART_COLORS.LOW} 
                 stackId="stack"
               />
@@ -191,7 +193,7 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
               <div>
                 <h4 className="text-lg font-medium text-white">{category.name}</h4>
                 <p className="text-sm text-gray-400">
-                  {category.total} requests • {category.requesters.size} solicitantes
+                  {t('requestAnalysis.count', { count: category.total })} • {t('requestCategory.requesters', { count: category.requesters.size })}
                 </p>
               </div>
               {expandedCategories.includes(category.name) ? (
@@ -210,7 +212,7 @@ export function RequestCategoryAnalysis({ requests, onClose, startDate, endDate
                       className="bg-[#151B2B] p-4 rounded-lg"
                     >
                       <p className="text-sm" style={{ color: CHART_COLORS[priority] }}>
-                        {REQUEST_PRIORITIES[priority]}
+                        {getRequestPriorityLabel(priority)}
                       </p>
                       <p className="text-2xl font-bold text-white">
                         {category[priority]}
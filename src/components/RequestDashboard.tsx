@@ -40,6 +40,7 @@ import { format, startOfYear, parseISO, isWithinInterval } from 'date-fns';
 import environment from '../config/environment';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { t } from '../utils/i18nUtils';
 
 interface RequestDashboardProps {
   onBack: () => void;
@@ -111,11 +112,7 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
       normalizeRequestStatus(r.State) === 'CANCELLED'
     ).length;
     
-    const highPriority = requests.filter(r => 
-      r.Priority?.toLowerCase().includes('high') || 
-      r.Priority?.toLowerCase().includes('p1') || 
-      r.Priority?.toLowerCase().includes('1')
-    ).length;
+    const highPriority = requests.filter(r => normalizeRequestPriority(r.Priority) === 'HIGH').length;
     
     // Calculate total as the sum of in progress, on hold, and completed
     const total = inProgress + onHold + completed;
@@ -132,7 +129,7 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
   return (
     <div className="min-h-screen bg-[#0B1120] text-white">
       <DashboardHeader 
-        title="Requests Dashboard"
+        title={t('requestDashboard.title')}
         onLogout={handleLogout}
       />
       
@@ -143,47 +140,47 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
             className="flex items-center gap-2 px-4 py-2 bg-[#151B2B] hover:bg-[#1C2333] rounded-lg transition-colors text-yellow-400 hover:text-yellow-400"
           >
             <ArrowLeft className="h-5 w-5" />
-            <span>Voltar para Dashboard de Incidentes</span>
+            <span>{t('requestDashboard.back')}</span>
           </button>
         </div>
 
         <div className="space-y-8">
           <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
             <StatsCard
-              title="Total de Requests"
+              title={t('requestDashboard.total')}
               value={stats.total}
               icon={FileText}
               className="bg-[#151B2B]"
             />
             <StatsCard
-              title="Em Andamento"
+              title={t('request.status.IN_PROGRESS')}
               value={stats.inProgress}
               icon={Clock}
               className="bg-[#151B2B] border-2 border-blue-500/50"
               valueColor="text-blue-500"
               onClick={() => setShowInProgressRequests(true)}
               clickable={true}
-              subtitle="Clique para ver detalhes"
+              subtitle={t('requestDashboard.clickForDetails')}
             />
             <StatsCard
-              title="Em Espera"
+              title={t('request.status.ON_HOLD')}
               value={stats.onHold}
               icon={PauseCircle}
               className="bg-[#151B2B] border-2 border-orange-500/50"
               valueColor="text-orange-500"
               onClick={() => setShowOnHoldRequests(true)}
               clickable={true}
-              subtitle="Clique para ver detalhes"
+              subtitle={t('requestDashboard.clickForDetails')}
             />
             <StatsCard
-              title="Concluídos"
+              title={t('requestDashboard.completed')}
               value={stats.completed}
               icon={CheckCircle2}
               className="bg-[#151B2B] border-2 border-green-500/50"
               valueColor="text-green-500"
             />
             <StatsCard
-              title="Alta Prioridade"
+              title={t('requestDashboard.highPriority')}
               value={stats.highPriority}
               icon={AlertTriangle}
               className="bg-[#151B2B] border-2 border-red-500/50"
@@ -193,13 +190,13 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
 
           {/* Monthly Location Summary */}
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-medium text-white">Sumarização Mensal por Localidade</h3>
+            <h3 className="text-lg font-medium text-white">{t('app.monthlyLocationSummary')}</h3>
             <button
               onClick={() => setShowMonthlyLocationSummary(!showMonthlyLocationSummary)}
               className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg transition-colors"
             >
               <Calendar className="h-4 w-4" />
-              <span>{showMonthlyLocationSummary ? 'Ocultar Detalhes' : 'Ver Detalhes'}</span>
+              <span>{showMonthlyLocationSummary ? t('app.hideDetails') : t('app.showDetails')}</span>
             </button>
           </div>
 
@@ -236,78 +233,78 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             <CategoryCard
-              title="Análise Geral"
-              description="Visão geral das requests"
+              title={t('requestSections.general.title')}
+              description={t('requestSections.general.description')}
               icon={BarChart2}
               onClick={() => setShowRequestAnalysis(!showRequestAnalysis)}
               active={showRequestAnalysis}
             />
             <CategoryCard
-              title="Por Categoria"
-              description="Distribuição por categoria"
+              title={t('requestSections.category.title')}
+              description={t('requestSections.category.description')}
               icon={FileText}
               onClick={() => setShowCategoryAnalysis(!showCategoryAnalysis)}
               active={showCategoryAnalysis}
             />
             <CategoryCard
-              title="Por Prioridade"
-              description="Análise por prioridade"
+              title={t('requestSections.priority.title')}
+              description={t('requestSections.priority.description')}
               icon={Users}
               onClick={() => setShowPriorityAnalysis(!showPriorityAnalysis)}
               active={showPriorityAnalysis}
             />
             <CategoryCard
-              title="Histórico"
-              description="Análise histórica"
+              title={t('requestSections.history.title')}
+              description={t('requestSections.history.description')}
               icon={History}
               onClick={() => setShowHistoryAnalysis(!showHistoryAnalysis)}
               active={showHistoryAnalysis}
             />
             <CategoryCard
-              title="Principais usuários"
-              description="Usuários mais frequentes"
+              title={t('requestSections.users.title')}
+              description={t('requestSections.users.description')}
               icon={UserCircle}
               onClick={() => setShowUserAnalysis(!showUserAnalysis)}
               active={showUserAnalysis}
             />
             <CategoryCard
-              title="Por Localidade"
-              description="Análise por localização"
+              title={t('requestSections.location.title')}
+              description={t('requestSections.location.description')}
               icon={MapPin}
               onClick={() => setShowLocationAnalysis(!showLocationAnalysis)}
               active={showLocationAnalysis}
             />
             <CategoryCard
-              title="Análise de SLA"
-              description="Acordo de nível de serviço"
+              title={t('requestSections.sla.title')}
+              description={t('requestSections.sla.description')}
               icon={Timer}
               onClick={() => setShowSLAAnalysis(!showSLAAnalysis)}
               active={showSLAAnalysis}
             />
             <CategoryCard
-              title="Métricas"
-              description="Indicadores de desempenho"
+              title={t('requestSections.metrics.title')}
+              description={t('requestSections.metrics.description')}
               icon={BarChart2}
               onClick={() => setShowDashboardMetrics(!showDashboardMetrics)}
               active={showDashboardMetrics}
             />
             <CategoryCard
-              title="Performance"
-              description="Métricas de performance"
+              title={t('requestSections.performance.title')}
+              description={t('requestSections.performance.description')}
               icon={TrendingUp}
               onClick={() => setShowPerformanceMetrics(!showPerformanceMetrics)}
               active={showPerformanceMetrics}
             />
             <CategoryCard
-              title="Tendências"
-              description="Análise de tendências"
+              title={t('requestSections.trends.title')}
+              description={t('requestSections.trends.description')}
               icon={TrendingUp}
               onClick={() => setShowTrendAnalysis(!showTrendAnalysis)}
               active={showTrendAnalysis}
             />
             <CategoryCard
-              title="Análise Preditiva - IA"
-              description="Análise inteligente de solicitações"
+              title={t('requestSections.predictive.title')}
+              description={t('requestSections.predictive.description')}
               icon={Brain}
               onClick={() => setShowAIPredictiveAnalysis(!showAIPredictiveAnalysis)}
               active={showAIPredictiveAnalysis}
@@ -317,7 +314,7 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
           {showDashboardMetrics && (
             <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
               <div className="flex items-center justify-between">
-                <h2 className="text-xl font-semibold text-white">Métricas do Dashboard</h2>
+                <h2 className="text-xl font-semibold text-white">{t('requestDashboard.metricsTitle')}</h2>
                 <button
                   onClick={() => setShowDashboardMetrics(false)}
                   className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
@@ -406,7 +403,7 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
           {showUserAnalysis && (
             <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
               <div className="flex items-center justify-between">
-                <h2 className="text-xl font-semibold text-white">Principais Usuários</h2>
+                <h2 className="text-xl font-semibold text-white">{t('requestDashboard.topUsers')}</h2>
                 <button
                   onClick={() => setShowUserAnalysis(false)}
                   className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
@@ -425,7 +422,7 @@ export function RequestDashboard({ onBack, requests }: RequestDashboardProps) {
           {showLocationAnalysis && (
             <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
               <div className="flex items-center justify-between">
-                <h2 className="text-xl font-semibold text-white">Análise por Localidade</h2>
+                <h2 className="text-xl font-semibold text-white">{t('requestDashboard.locationAnalysis')}</h2>
                 <button
                   onClick={() => setShowLocationAnalysis(false)}
                   className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
@@ -480,7 +477,7 @@ function RequestUserAnalysis({ requests, startDate, endDate }: { requests: Reque
     // Group by user using the "Request item [Catalog Task] Requested for Name" field
     const userMap = filteredRequests.reduce((acc, request) => {
       // Use the correct field for user identification
-      const user = request["Request item [Catalog Task] Requested for Name"] || request.RequestedForName || 'Não identificado';
+      const user = request["Request item [Catalog Task] Requested for Name"] || request.RequestedForName || t('userAnalysis.unidentified');
       
       if (!acc[user]) {
         acc[user] = {
@@ -507,9 +504,7 @@ function RequestUserAnalysis({ requests, startDate, endDate }: { requests: Reque
       }
       
       // Count high priority
-      if (request.Priority?.toLowerCase().includes('high') || 
-          request.Priority?.toLowerCase().includes('p1') || 
-          request.Priority?.toLowerCase().includes('1')) {
+      if (normalizeRequestPriority(request.Priority) === 'HIGH') {
         acc[user].highPriority++;
       }
       
@@ -537,7 +532,7 @@ function RequestUserAnalysis({ requests, startDate, endDate }: { requests: Reque
   if (userStats.length === 0) {
     return (
       <div className="text-center py-8">
-        <p className="text-gray-400">Nenhum dado de usuário encontrado no período selecionado.</p>
+        <p className="text-gray-400">{t('requestDashboard.noUserData')}</p>
       </div>
     );
   }
@@ -557,12 +552,12 @@ function RequestUserAnalysis({ requests, startDate, endDate }: { requests: Reque
                   <h4 className="text-lg font-medium text-white truncate">{user.name}</h4>
                 </div>
                 <p className="text-sm text-gray-400 mt-1">
-                  {user.categories.size} {user.categories.size === 1 ? 'categoria' : 'categorias'} solicitadas
+                  {t(user.categories.size === 1 ? 'requestDashboard.categoryRequested' : 'requestDashboard.categoriesRequested', { count: user.categories.size })}
                 </p>
               </div>
               <div className="text-right">
                 <span className="text-2xl font-bold text-white">{user.total}</span>
-                <p className="text-sm text-gray-400">solicitações</p>
+                <p className="text-sm text-gray-400">{t('requestDashboard.requests')}</p>
               </div>
             </div>
 
@@ -570,19 +565,19 @@ function RequestUserAnalysis({ requests, startDate, endDate }: { requests: Reque
               <div className="grid grid-cols-4 gap-2 text-sm">
                 <div className="text-center">
                   <span className="text-blue-400">{user.inProgress}</span>
-                  <p className="text-gray-400 text-xs">Em Andamento</p>
+                  <p className="text-gray-400 text-xs">{t('request.status.IN_PROGRESS')}</p>
                 </div>
                 <div className="text-center">
                   <span className="text-orange-400">{user.onHold}</span>
-                  <p className="text-gray-400 text-xs">Em Espera</p>
+                  <p className="text-gray-400 text-xs">{t('request.status.ON_HOLD')}</p>
                 </div>
                 <div className="text-center">
                   <span className="text-green-400">{user.completed}</span>
-                  <p className="text-gray-400 text-xs">Concluídos</p>
+                  <p className="text-gray-400 text-xs">{t('requestDashboard.completed')}</p>
                 </div>
                 <div className="text-center">
                   <span className="text-red-400">{user.highPriority}</span>
-                  <p className="text-gray-400 text-xs">Alta Prioridade</p>
+                  <p className="text-gray-400 text-xs">{t('requestDashboard.highPriority')}</p>
                 </div>
               </div>
 
@@ -609,13 +604,13 @@ function RequestUserAnalysis({ requests, startDate, endDate }: { requests: Reque
         <table className="w-full">
           <thead className="bg-[#151B2B]">
             <tr>
-              <th className="px-6 py-3 text-left text-sm font-medium text-gray-400">Usuário</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Total</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Em Andamento</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Em Espera</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Concluídos</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Alta Prioridade</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Categorias</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-400">{t('userAnalysis.user')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('categoryHistory.tooltipTotal')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('request.status.IN_PROGRESS')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('request.status.ON_HOLD')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('requestDashboard.completed')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('requestDashboard.highPriority')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('requestDashboard.categories')}</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-700">
@@ -659,7 +654,7 @@ function RequestLocationAnalysis({ requests, startDate, endDate }: { requests: R
 
     // Group by location (using AssignmentGroup as proxy for location)
     const locationMap = filteredRequests.reduce((acc, request) => {
-      const location = normalizeLocationName(request.AssignmentGroup) || 'Não especificado';
+      const location = normalizeLocationName(request.AssignmentGroup) || t('analysis.notSpecified');
       
       if (!acc[location]) {
         acc[location] = {
@@ -686,9 +681,7 @@ function RequestLocationAnalysis({ requests, startDate, endDate }: { requests: R
       }
       
       // Count high priority
-      if (request.Priority?.toLowerCase().includes('high') || 
-          request.Priority?.toLowerCase().includes('p1') || 
-          request.Priority?.toLowerCase().includes('1')) {
+      if (normalizeRequestPriority(request.Priority) === 'HIGH') {
         acc[location].highPriority++;
       }
       
@@ -717,7 +710,7 @@ function RequestLocationAnalysis({ requests, startDate, endDate }: { requests: R
   if (locationStats.length === 0) {
     return (
       <div className="text-center py-8">
-        <p className="text-gray-400">Nenhum dado de localidade encontrado no período selecionado.</p>
+        <p className="text-gray-400">{t('requestDashboard.noLocationData')}</p>
       </div>
     );
   }
@@ -737,12 +730,12 @@ function RequestLocationAnalysis({ requests, startDate, endDate }: { requests: R
                   <h4 className="text-lg font-medium text-white truncate">{location.name}</h4>
                 </div>
                 <p className="text-sm text-gray-400 mt-1">
-                  {location.users.size} {location.users.size === 1 ? 'usuário' : 'usuários'} ativos
+                  {t(location.users.size === 1 ? 'requestDashboard.activeUser' : 'locationAnalysis.activeUsers', { count: location.users.size })}
                 </p>
               </div>
               <div className="text-right">
                 <span className="text-2xl font-bold text-white">{location.total}</span>
-                <p className="text-sm text-gray-400">solicitações</p>
+                <p className="text-sm text-gray-400">{t('requestDashboard.requests')}</p>
               </div>
             </div>
 
@@ -750,19 +743,19 @@ function RequestLocationAnalysis({ requests, startDate, endDate }: { requests: R
               <div className="grid grid-cols-4 gap-2 text-sm">
                 <div className="text-center">
                   <span className="text-blue-400">{location.inProgress}</span>
-                  <p className="text-gray-400 text-xs">Em Andamento</p>
+                  <p className="text-gray-400 text-xs">{t('request.status.IN_PROGRESS')}</p>
                 </div>
                 <div className="text-center">
                   <span className="text-orange-400">{location.onHold}</span>
-                  <p className="text-gray-400 text-xs">Em Espera</p>
+                  <p className="text-gray-400 text-xs">{t('request.status.ON_HOLD')}</p>
                 </div>
                 <div className="text-center">
                   <span className="text-green-400">{location.completed}</span>
-                  <p className="text-gray-400 text-xs">Concluídos</p>
+                  <p className="text-gray-400 text-xs">{t('requestDashboard.completed')}</p>
                 </div>
                 <div className="text-center">
                   <span className="text-red-400">{location.highPriority}</span>
-                  <p className="text-gray-400 text-xs">Alta Prioridade</p>
+                  <p className="text-gray-400 text-xs">{t('requestDashboard.highPriority')}</p>
                 </div>
               </div>
 
@@ -789,13 +782,13 @@ function RequestLocationAnalysis({ requests, startDate, endDate }: { requests: R
         <table className="w-full">
           <thead className="bg-[#151B2B]">
             <tr>
-              <th className="px-6 py-3 text-left text-sm font-medium text-gray-400">Localidade</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Total</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Em Andamento</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Em Espera</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Concluídos</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Alta Prioridade</th>
-              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">Usuários</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-400">{t('requestDashboard.location')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('categoryHistory.tooltipTotal')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('request.status.IN_PROGRESS')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('request.status.ON_HOLD')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('requestDashboard.completed')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('requestDashboard.highPriority')}</th>
+              <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">{t('requestDashboard.users')}</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-700">
@@ -21,9 +21,12 @@ import {
   Calendar,
   BarChart2
 } from 'lucide-react';
-import { Request, normalizeRequestPriority, normalizeRequestStatus, REQUEST_PRIORITIES, REQUEST_STATUSES } from '../types/request';
-import { parseISO, format, differenceInDays, isAfter, isBefore, isWithinInterval } from 'date-fns';
+import { Request, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
+import { parseISO, format, isAfter, isBefore, isWithinInterval } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { getRequestSLADays, getRequestSLAElapsedDays } from '../utils/slaUtils';
+import { t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel, getRequestStatusLabel } from '../utils/requestUtils';
 
 interface RequestDashboardMetricsProps {
   requests: Request[];
@@ -75,13 +78,6 @@ const CHART_COLORS = {
   CANCELLED: '#6b7280'
 } as const;
 
-// SLA thresholds for requests (in days)
-const REQUEST_SLA_THRESHOLDS: Record<string, number> = {
-  HIGH: 3,    // 3 days
-  MEDIUM: 5,  // 5 days
-  LOW: 7      // 7 days
-};
-
 export function RequestDashboardMetrics({ requests, startDate, endDate }: RequestDashboardMetricsProps) {
   // Filter requests by date range
   const filteredRequests = useMemo(() => {
@@ -138,14 +134,13 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
     let outsideSla = 0;
     
     filteredRequests.forEach(request => {
-      const priority = normalizeRequestPriority(request.Priority);
       const status = normalizeRequestStatus(request.State);
-      const threshold = REQUEST_SLA_THRESHOLDS[priority] || 5;
+      const threshold = getRequestSLADays(request);
       
       try {
         const opened = parseISO(request.Opened);
         const closed = request.Updated && status === 'COMPLETED' ? parseISO(request.Updated) : new Date();
-        const daysToResolve = differenceInDays(closed, opened);
+        const daysToResolve = getRequestSLAElapsedDays(request, opened, closed);
         
         if (daysToResolve <= threshold) {
           withinSla++;
@@ -178,23 +173,23 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
 
   // Status distribution data
   const statusData = useMemo<ChartData[]>(() => [
-    { name: REQUEST_STATUSES.NEW, value: metrics.new_, color: CHART_COLORS.NEW },
-    { name: REQUEST_STATUSES.IN_PROGRESS, value: metrics.inProgress, color: CHART_COLORS.IN_PROGRESS },
-    { name: REQUEST_STATUSES.COMPLETED, value: metrics.completed, color: CHART_COLORS.COMPLETED },
-    { name: REQUEST_STATUSES.CANCELLED, value: metrics.cancelled, color: CHART_COLORS.CANCELLED }
+    { name: getRequestStatusLabel('NEW'), value: metrics.new_, color: CHART_COLORS.NEW },
+    { name: getRequestStatusLabel('IN_PROGRESS'), value: metrics.inProgress, color: CHART_COLORS.IN_PROGRESS },
+    { name: getRequestStatusLabel('COMPLETED'), value: metrics.completed, color: CHART_COLORS.COMPLETED },
+    { name: getRequestStatusLabel('CANCELLED'), value: metrics.cancelled, color: CHART_COLORS.CANCELLED }
   ], [metrics]);
 
   // Priority distribution data
   const priorityData = useMemo<ChartData[]>(() => [
-    { name: REQUEST_PRIORITIES.HIGH, value: metrics.highPriority, color: CHART_COLORS.HIGH },
-    { name: REQUEST_PRIORITIES.MEDIUM, value: metrics.mediumPriority, color: CHART_COLORS.MEDIUM },
-    { name: REQUEST_PRIORITIES.LOW, value: metrics.lowPriority, color: CHART_COLORS.LOW }
+    { name: getRequestPriorityLabel('HIGH'), value: metrics.highPriority, color: CHART_COLORS.HIGH },
+    { name: getRequestPriorityLabel('MEDIUM'), value: metrics.mediumPriority, color: CHART_COLORS.MEDIUM },
+    { name: getRequestPriorityLabel('LOW'), value: metrics.lowPriority, color: CHART_COLORS.LOW }
   ], [metrics]);
 
   // Category distribution
   const categoryData = useMemo(() => {
     const categories = filteredRequests.reduce((acc, request) => {
-      const category = request.RequestItem || 'Não categorizado';
+      const category = request.RequestItem || t('analysis.uncategorized');
       
       if (!acc[category]) {
         acc[category] = {
@@ -238,7 +233,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
       {/* Status Overview */}
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Visão Geral por Status</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestMetrics.statusOverview')}</h3>
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
             <PieChart>
@@ -264,7 +259,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
 
       {/* Priority Overview */}
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Visão Geral por Prioridade</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestMetrics.priorityOverview')}</h3>
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
             <PieChart>
@@ -290,12 +285,12 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
 
       {/* Key Metrics */}
       <div className="bg-[#1C2333] p-4 rounded-lg col-span-2">
-        <h3 className="text-lg font-medium text-white mb-4">Métricas Principais</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestMetrics.main')}</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <div className="bg-[#151B2B] p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <FileText className="h-5 w-5 text-blue-400" />
-              <h4 className="text-white font-medium">Total de Solicitações</h4>
+              <h4 className="text-white font-medium">{t('requestMetrics.total')}</h4>
             </div>
             <p className="text-2xl font-bold text-white">{metrics.total}</p>
           </div>
@@ -303,7 +298,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
           <div className="bg-[#151B2B] p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <Clock className="h-5 w-5 text-purple-400" />
-              <h4 className="text-white font-medium">Em Andamento</h4>
+              <h4 className="text-white font-medium">{t('request.status.IN_PROGRESS')}</h4>
             </div>
             <p className="text-2xl font-bold text-white">{metrics.inProgress}</p>
           </div>
@@ -311,7 +306,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
           <div className="bg-[#151B2B] p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <CheckCircle2 className="h-5 w-5 text-green-400" />
-              <h4 className="text-white font-medium">Taxa de Conclusão</h4>
+              <h4 className="text-white font-medium">{t('requestSla.completionRate')}</h4>
             </div>
             <p className="text-2xl font-bold text-white">{metrics.completionRate.toFixed(1)}%</p>
           </div>
@@ -319,7 +314,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
           <div className="bg-[#151B2B] p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <AlertTriangle className="h-5 w-5 text-red-400" />
-              <h4 className="text-white font-medium">Alta Prioridade</h4>
+              <h4 className="text-white font-medium">{t('requestDashboard.highPriority')}</h4>
             </div>
             <p className="text-2xl font-bold text-white">{metrics.highPriority}</p>
           </div>
@@ -328,7 +323,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
 
       {/* Top Categories */}
       <div className="bg-[#1C2333] p-4 rounded-lg col-span-2">
-        <h3 className="text-lg font-medium text-white mb-4">Top 5 Categorias</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestMetrics.topCategories')}</h3>
         <div className="space-y-4">
           {categoryData.map(category => (
             <div
@@ -340,7 +335,7 @@ export function RequestDashboardMetrics({ requests, startDate, endDate }: Reques
                   <BarChart2 className="h-5 w-5 text-blue-400" />
                   <h4 className="text-white font-medium">{category.name}</h4>
                 </div>
-                <span className="text-gray-400">{category.value} solicitações</span>
+                <span className="text-gray-400">{category.value} {t('requestDashboard.requests')}</span>
               </div>
               <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                 {(['HIGH', 'MEDIUM', 'LOW'] as const).map(priority => {
@@ -1,6 +1,8 @@
 import React from 'react';
 import { X } from 'lucide-react';
-import { Request, normalizeRequestPriority, normalizeRequestStatus, REQUEST_PRIORITIES, REQUEST_STATUSES } from '../types/request';
+import { Request, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
+import { getRequestPriorityLabel, getRequestStatusLabel } from '../utils/requestUtils';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface RequestDetailsProps {
   request: Request;
@@ -12,15 +14,9 @@ export function RequestDetails({ request, onClose }: RequestDetailsProps) {
 
   const formatDate = (dateStr: string) => {
     try {
-      return new Date(dateStr).toLocaleDateString('pt-BR', {
-        day: '2-digit',
-        month: '2-digit',
-        year: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      });
+      return formatLocalizedDate(new Date(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -30,7 +26,7 @@ export function RequestDetails({ request, onClose }: RequestDetailsProps) {
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h2 className="text-xl font-semibold text-white">Detalhes da Solicitação</h2>
+              <h2 className="text-xl font-semibold text-white">{t('requestDetails.title')}</h2>
               <p className="text-gray-400 mt-1">{request.Number}</p>
             </div>
             <button
@@ -43,11 +39,11 @@ export function RequestDetails({ request, onClose }: RequestDetailsProps) {
 
           <div className="space-y-6">
             <div>
-              <h3 className="text-lg font-medium text-white mb-2">Descrição</h3>
+              <h3 className="text-lg font-medium text-white mb-2">{t('incident.description')}</h3>
               <p className="text-gray-400">{request.ShortDescription}</p>
               {request.Description && (
                 <div className="mt-4">
-                  <h4 className="text-md font-medium text-white mb-2">Descrição Detalhada</h4>
+                  <h4 className="text-md font-medium text-white mb-2">{t('requestDetails.detailedDescription')}</h4>
                   <p className="text-gray-400 whitespace-pre-wrap">{request.Description}</p>
                 </div>
               )}
@@ -55,10 +51,10 @@ export function RequestDetails({ request, onClose }: RequestDetailsProps) {
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
-                <h3 className="text-lg font-medium text-white mb-4">Informações Gerais</h3>
+                <h3 className="text-lg font-medium text-white mb-4">{t('requestDetails.general')}</h3>
                 <div className="space-y-3">
                   <div>
-                    <p className="text-sm text-gray-400">Status</p>
+                    <p className="text-sm text-gray-400">{t('requestDetails.status')}</p>
                     <p className={`text-white px-2 py-0.5 rounded-full inline-block ${
                       (() => {
                         const status = normalizeRequestStatus(request.State);
@@ -76,51 +72,51 @@ export function RequestDetails({ request, onClose }: RequestDetailsProps) {
                         }
                       })()
                     }`}>
-                      {REQUEST_STATUSES[normalizeRequestStatus(request.State)]}
+                      {getRequestStatusLabel(normalizeRequestStatus(request.State))}
                     </p>
                   </div>
                   <div>
-                    <p className="text-sm text-gray-400">Prioridade</p>
-                    <p className="text-white">{REQUEST_PRIORITIES[normalizeRequestPriority(request.Priority)]}</p>
+                    <p className="text-sm text-gray-400">{t('field.priority')}</p>
+                    <p className="text-white">{getRequestPriorityLabel(normalizeRequestPriority(request.Priority))}</p>
                   </div>
                   <div>
-                    <p className="text-sm text-gray-400">Categoria</p>
-                    <p className="text-white">{request.RequestItem || 'Não categorizado'}</p>
+                    <p className="text-sm text-gray-400">{t('incident.category')}</p>
+                    <p className="text-white">{request.RequestItem || t('analysis.uncategorized')}</p>
                   </div>
                 </div>
               </div>
 
               <div>
-                <h3 className="text-lg font-medium text-white mb-4">Atribuição</h3>
+                <h3 className="text-lg font-medium text-white mb-4">{t('requestDetails.assignment')}</h3>
                 <div className="space-y-3">
                   <div>
-                    <p className="text-sm text-gray-400">Solicitante</p>
+                    <p className="text-sm text-gray-400">{t('incident.caller')}</p>
                     <p className="text-white">{request.RequestedForName}</p>
                   </div>
                   <div>
-                    <p className="text-sm text-gray-400">Grupo Responsável</p>
-                    <p className="text-white">{request.AssignmentGroup || 'Não atribuído'}</p>
+                    <p className="text-sm text-gray-400">{t('incident.assignmentGroup')}</p>
+                    <p className="text-white">{request.AssignmentGroup || t('incident.unassigned')}</p>
                   </div>
                   <div>
-                    <p className="text-sm text-gray-400">Atribuído para</p>
-                    <p className="text-white">{request.AssignedTo || 'Não atribuído'}</p>
+                    <p className="text-sm text-gray-400">{t('requestDetails.assignedTo')}</p>
+                    <p className="text-white">{request.AssignedTo || t('incident.unassigned')}</p>
                   </div>
                 </div>
               </div>
             </div>
 
             <div>
-              <h3 className="text-lg font-medium text-white mb-4">Datas</h3>
+              <h3 className="text-lg font-medium text-white mb-4">{t('requestDetails.dates')}</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <p className="text-sm text-gray-400">Aberto em</p>
+                  <p className="text-sm text-gray-400">{t('requestDetails.opened')}</p>
                   <p className="text-white">{formatDate(request.Opened)}</p>
                 </div>
                 {request.Updated && (
                   <div>
-                    <p className="text-sm text-gray-400">Última atualização</p>
+                    <p className="text-sm text-gray-400">{t('requestDetails.updated')}</p>
                     <p className="text-white">{formatDate(request.Updated)}</p>
-                    <p className="text-sm text-gray-400 mt-1">por {request.UpdatedBy}</p>
+                    <p className="text-sm text-gray-400 mt-1">{t('incident.updatedBy', { name: request.UpdatedBy })}</p>
                   </div>
                 )}
               </div>
@@ -128,7 +124,7 @@ export function RequestDetails({ request, onClose }: RequestDetailsProps) {
 
             {request.CommentsAndWorkNotes && (
               <div>
-                <h3 className="text-lg font-medium text-white mb-4">Comentários e Notas de Trabalho</h3>
+                <h3 className="text-lg font-medium text-white mb-4">{t('incident.comments')}</h3>
                 <div className="bg-[#151B2B] p-4 rounded-lg">
                   <p className="text-gray-400 whitespace-pre-wrap">{request.CommentsAndWorkNotes}</p>
                 </div>
@@ -24,7 +24,8 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { getDateLocale, t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel } from '../utils/requestUtils';
 
 interface RequestHistoryAnalysisProps {
   requests: Request[];
@@ -68,7 +69,7 @@ export function RequestHistoryAnalysis({
       });
 
       const data: Record<string, any> = {
-        month: format(month, 'MMM/yy', { locale: ptBR }),
+        month: format(month, 'MMM/yy', { locale: getDateLocale() }),
         monthStart,
         monthEnd,
         total: monthRequests.length
@@ -104,7 +105,7 @@ export function RequestHistoryAnalysis({
     });
 
     const categories = monthRequests.reduce((acc, request) => {
-      const category = request.RequestItem || 'Não categorizado';
+      const category = request.RequestItem || t('analysis.uncategorized');
       
       if (!acc[category]) {
         acc[category] = {
@@ -148,7 +149,7 @@ export function RequestHistoryAnalysis({
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -162,7 +163,7 @@ export function RequestHistoryAnalysis({
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Histórico de Requests</h2>
+        <h2 className="text-xl font-semibold text-white">{t('requestHistory.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -176,10 +177,10 @@ export function RequestHistoryAnalysis({
       <div className="space-y-6">
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-medium text-white">Distribuição Mensal</h3>
+            <h3 className="text-lg font-medium text-white">{t('historyData.monthly')}</h3>
             <div className="flex items-center gap-2 px-3 py-1.5 bg-yellow-500/20 text-yellow-400 rounded-lg">
               <MousePointerClick className="h-4 w-4" />
-              <span className="text-sm">Clique para ver detalhes do mês</span>
+              <span className="text-sm">{t('requestHistory.clickHint')}</span>
             </div>
           </div>
           <div className="h-[400px]">
@@ -207,19 +208,19 @@ export function RequestHistoryAnalysis({
                 <Tooltip content={<CustomTooltip />} />
                 <Bar 
                   dataKey="HIGH" 
-                  name="Alta" 
+                  name={getRequestPriorityLabel('HIGH')} 
                   fill={CHART_COLORS.HIGH} 
                   stackId="stack"
                 />
                 <Bar 
                   dataKey="MEDIUM" 
-                  name="Média" 
+                  name={getRequestPriorityLabel('MEDIUM')} 
                   fill={CHART_COLORS.MEDIUM} 
                   stackId="stack"
                 />
                 <Bar 
                   dataKey="LOW" 
-                  name="Baixa" 
+                  name={getRequestPriorityLabel('LOW')} 
                   fill={CHART_COLORS.LOW} 
                   stackId="stack"
                 />
@@ -236,10 +237,10 @@ export function RequestHistoryAnalysis({
                 className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
               >
                 <ChevronDown className="h-4 w-4" />
-                <span>Voltar para visão mensal</span>
+                <span>{t('slaHistory.back')}</span>
               </button>
               <h3 className="text-lg font-medium text-white">
-                Análise por Categoria - {selectedMonth}
+                {t('slaHistory.byCategory', { month: selectedMonth })}
               </h3>
             </div>
             <div className="space-y-4">
@@ -250,7 +251,7 @@ export function RequestHistoryAnalysis({
                 >
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="text-white font-medium">{category.name}</h4>
-                    <span className="text-gray-400">{category.total} requests</span>
+                    <span className="text-gray-400">{t('requestAnalysis.count', { count: category.total })}</span>
                   </div>
                   <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                     {(['HIGH', 'MEDIUM', 'LOW'] as const).map(priority => {
@@ -271,7 +272,7 @@ export function RequestHistoryAnalysis({
                     {(['HIGH', 'MEDIUM', 'LOW'] as const).map(priority => (
                       <div key={priority} className="text-center">
                         <span className="text-sm" style={{ color: CHART_COLORS[priority] }}>
-                          {REQUEST_PRIORITIES[priority]}
+                          {getRequestPriorityLabel(priority)}
                         </span>
                         <p className="text-white font-medium">{category[priority]}</p>
                       </div>
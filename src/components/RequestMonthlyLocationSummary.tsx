@@ -24,8 +24,8 @@ import {
   eachMonthOfInterval,
   isWithinInterval
 } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface RequestMonthlyLocationSummaryProps {
   requests: Request[];
@@ -57,7 +57,7 @@ export function RequestMonthlyLocationSummary({ requests, onClose, startDate, en
         const end = parseISO(endDate);
         
         if (isWithinInterval(requestDate, { start, end })) {
-          const location = normalizeLocationName(request.AssignmentGroup) || 'Não especificado';
+          const location = normalizeLocationName(request.AssignmentGroup) || t('analysis.notSpecified');
           locationCount[location] = (locationCount[location] || 0) + 1;
         }
       } catch (error) {
@@ -82,7 +82,7 @@ export function RequestMonthlyLocationSummary({ requests, onClose, startDate, en
     return months.map(month => {
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
-      const monthLabel = format(month, 'MMM/yy', { locale: ptBR });
+      const monthLabel = format(month, 'MMM/yy', { locale: getDateLocale() });
 
       const data: Record<string, any> = {
         month: monthLabel
@@ -118,14 +118,14 @@ export function RequestMonthlyLocationSummary({ requests, onClose, startDate, en
           {payload.map((entry: any, index: number) => (
             <div key={entry.name} className="flex items-center justify-between gap-4">
               <span style={{ color: LOCATION_COLORS[index % LOCATION_COLORS.length] }}>{entry.name}</span>
-              <span className="text-white">{entry.value} solicitações</span>
+              <span className="text-white">{t('requestLocation.count', { count: entry.value })}</span>
             </div>
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
-                {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)} solicitações
+                {t('requestLocation.count', { count: payload.reduce((sum: number, entry: any) => sum + entry.value, 0) })}
               </span>
             </div>
           </div>
@@ -157,8 +157,8 @@ export function RequestMonthlyLocationSummary({ requests, onClose, startDate, en
         <div className="flex items-center gap-3">
           <Calendar className="h-6 w-6 text-emerald-400" />
           <div>
-            <h2 className="text-xl font-semibold text-white">Sumarização Mensal por Localidade</h2>
-            <p className="text-gray-400 mt-1">Top 6 localidades mais ativas</p>
+            <h2 className="text-xl font-semibold text-white">{t('locationSummary.title')}</h2>
+            <p className="text-gray-400 mt-1">{t('locationSummary.subtitle')}</p>
           </div>
         </div>
         {onClose && (
@@ -229,7 +229,7 @@ export function RequestMonthlyLocationSummary({ requests, onClose, startDate, en
                 {totalRequests}
               </p>
               <p className="text-xs text-gray-400 mt-1">
-                solicitações no período
+                {t('requestLocation.inPeriod')}
               </p>
             </div>
           );
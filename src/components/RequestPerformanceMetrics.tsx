@@ -19,7 +19,7 @@ import {
 } from 'lucide-react';
 import { Request, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { parseISO, isWithinInterval, format, differenceInDays, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { formatDecimal, getDateLocale, t } from '../utils/i18nUtils';
 
 interface RequestPerformanceMetricsProps {
   requests: Request[];
@@ -58,7 +58,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
   // Calculate resolution time by group
   const resolutionByGroup = useMemo(() => {
     const groups = filteredRequests.reduce((acc, request) => {
-      const group = request.AssignmentGroup || 'Não atribuído';
+      const group = request.AssignmentGroup || t('incident.unassigned');
       const status = normalizeRequestStatus(request.State);
       
       if (!acc[group]) {
@@ -168,7 +168,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
         : 0;
 
       return {
-        month: format(month, 'MMM/yy', { locale: ptBR }),
+        month: format(month, 'MMM/yy', { locale: getDateLocale() }),
         totalRequests: monthRequests.length,
         completedRequests: completedRequests.length,
         avgResolutionDays,
@@ -180,7 +180,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
   // Calculate analyst performance
   const analystPerformance = useMemo(() => {
     const analysts = filteredRequests.reduce((acc, request) => {
-      const analyst = request.AssignedTo || 'Não atribuído';
+      const analyst = request.AssignedTo || t('incident.unassigned');
       const status = normalizeRequestStatus(request.State);
       
       if (!acc[analyst]) {
@@ -251,7 +251,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
             <div key={entry.name} className="flex items-center justify-between gap-4">
               <span style={{ color: entry.color }}>{entry.name}</span>
               <span className="text-white">
-                {entry.name.includes('dias') ? `${entry.value.toFixed(1)} dias` : entry.value}
+                {entry.dataKey === 'avgResolutionDays' ? t('requestSla.avgDays', { days: formatDecimal(entry.value) }) : entry.value}
               </span>
             </div>
           ))}
@@ -263,7 +263,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Métricas de Performance</h2>
+        <h2 className="text-xl font-semibold text-white">{t('requestPerformance.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -278,7 +278,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <TrendingUp className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Tendência de Performance Mensal</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestPerformance.monthly')}</h3>
         </div>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -313,7 +313,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
                 yAxisId="left"
                 type="monotone"
                 dataKey="avgResolutionDays"
-                name="Tempo Médio (dias)"
+                name={t('requestPerformance.avgDaysSeries')}
                 stroke="#3B82F6"
                 activeDot={{ r: 8 }}
                 strokeWidth={2}
@@ -322,7 +322,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
                 yAxisId="right"
                 type="monotone"
                 dataKey="completionRate"
-                name="Taxa de Conclusão (%)"
+                name={t('requestPerformance.completionSeries')}
                 stroke="#10B981"
                 activeDot={{ r: 8 }}
                 strokeWidth={2}
@@ -336,7 +336,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <Users className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Tempo de Resolução por Grupo</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestPerformance.byGroup')}</h3>
         </div>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -357,7 +357,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
               <Legend />
               <Bar
                 dataKey="avgResolutionDays"
-                name="Tempo Médio (dias)"
+                name={t('requestPerformance.avgDaysSeries')}
                 fill="#3B82F6"
               />
             </BarChart>
@@ -369,7 +369,7 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <Clock className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Top 10 Analistas por Tempo de Resolução</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestPerformance.topAnalysts')}</h3>
         </div>
         <div className="space-y-4">
           {analystPerformance.map(analyst => (
@@ -383,29 +383,29 @@ export function RequestPerformanceMetrics({ requests, onClose, startDate, endDat
                   <h4 className="text-white font-medium">{analyst.name}</h4>
                 </div>
                 <div className="text-right">
-                  <p className="text-lg font-bold text-white">{analyst.avgResolutionDays.toFixed(1)} dias</p>
-                  <p className="text-sm text-gray-400">tempo médio</p>
+                  <p className="text-lg font-bold text-white">{t('requestSla.avgDays', { days: formatDecimal(analyst.avgResolutionDays) })}</p>
+                  <p className="text-sm text-gray-400">{t('requestPerformance.avgTime')}</p>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-4 mt-4">
                 <div>
-                  <p className="text-sm text-gray-400 mb-1">Solicitações</p>
+                  <p className="text-sm text-gray-400 mb-1">{t('requestPerformance.requests')}</p>
                   <div className="flex items-center justify-between">
-                    <p className="text-white">{analyst.totalRequests} total</p>
-                    <p className="text-green-400">{analyst.completedRequests} concluídas</p>
+                    <p className="text-white">{t('requestPerformance.total', { count: analyst.totalRequests })}</p>
+                    <p className="text-green-400">{t('requestPerformance.completed', { count: analyst.completedRequests })}</p>
                   </div>
                 </div>
                 <div>
-                  <p className="text-sm text-gray-400 mb-1">Por Prioridade</p>
+                  <p className="text-sm text-gray-400 mb-1">{t('requestSections.priority.title')}</p>
                   <div className="flex items-center gap-2">
                     <span className="px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-400">
-                      {analyst.HIGH} alta
+                      {t('requestPerformance.high', { count: analyst.HIGH })}
                     </span>
                     <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-500/20 text-yellow-400">
-                      {analyst.MEDIUM} média
+                      {t('requestPerformance.medium', { count: analyst.MEDIUM })}
                     </span>
                     <span className="px-2 py-0.5 rounded-full text-xs bg-green-500/20 text-green-400">
-                      {analyst.LOW} baixa
+                      {t('requestPerformance.low', { count: analyst.LOW })}
                     </span>
                   </div>
                 </div>
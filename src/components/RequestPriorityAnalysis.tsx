@@ -23,6 +23,8 @@ import {
 import { Request, REQUEST_PRIORITIES, REQUEST_STATUSES, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { parseISO, isWithinInterval, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel } from '../utils/requestUtils';
 
 interface RequestPriorityAnalysisProps {
   requests: Request[];
@@ -106,7 +108,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -120,7 +122,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise por Prioridade</h2>
+        <h2 className="text-xl font-semibold text-white">{t('requestPriority.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -140,7 +142,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
           >
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-medium" style={{ color: CHART_COLORS[data.priority as keyof typeof CHART_COLORS] }}>
-                {REQUEST_PRIORITIES[data.priority as keyof typeof REQUEST_PRIORITIES]}
+                {getRequestPriorityLabel(data.priority as keyof typeof REQUEST_PRIORITIES)}
               </h3>
               <span className="text-2xl font-bold text-white">{data.total}</span>
             </div>
@@ -149,7 +151,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-2">
                   <AlertCircle className="h-4 w-4 text-blue-400" />
-                  <span className="text-blue-400">Novos</span>
+                  <span className="text-blue-400">{t('requestTrend.new')}</span>
                 </div>
                 <span className="text-white">{data.NEW}</span>
               </div>
@@ -157,7 +159,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-2">
                   <Clock className="h-4 w-4 text-indigo-400" />
-                  <span className="text-indigo-400">Em Andamento</span>
+                  <span className="text-indigo-400">{t('request.status.IN_PROGRESS')}</span>
                 </div>
                 <span className="text-white">{data.IN_PROGRESS}</span>
               </div>
@@ -165,7 +167,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-2">
                   <CheckCircle2 className="h-4 w-4 text-green-400" />
-                  <span className="text-green-400">Concluídos</span>
+                  <span className="text-green-400">{t('requestDashboard.completed')}</span>
                 </div>
                 <span className="text-white">{data.COMPLETED}</span>
               </div>
@@ -174,7 +176,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
                 <div className="flex items-center gap-2 text-sm">
                   <Users className="h-4 w-4 text-gray-400" />
                   <span className="text-gray-400">
-                    {data.groups.size} grupos atribuídos
+                    {t('requestPriority.assignedGroups', { count: data.groups.size })}
                   </span>
                 </div>
               </div>
@@ -184,7 +186,7 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
       </div>
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição por Status</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestAnalysis.byStatus')}</h3>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
@@ -205,25 +207,25 @@ export function RequestPriorityAnalysis({ requests, onClose, startDate, endDate
               <Legend />
               <Bar 
                 dataKey="NEW" 
-                name="Novos" 
+                name={t('requestTrend.new')} 
                 fill="#3B82F6" 
                 stackId="stack"
               />
               <Bar 
                 dataKey="IN_PROGRESS" 
-                name="Em Andamento" 
+                name={t('request.status.IN_PROGRESS')} 
                 fill="#6366F1" 
                 stackId="stack"
               />
               <Bar 
                 dataKey="COMPLETED" 
-                name="Concluídos" 
+                name={t('requestDashboard.completed')} 
                 fill="#10B981" 
                 stackId="stack"
               />
               <Bar 
                 dataKey="CANCELLED" 
-                name="Cancelados" 
+                name={t('requestTrend.cancelled')} 
                 fill="#6B7280" 
                 stackId="stack"
               />
@@ -23,6 +23,9 @@ import {
 import { Request, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { parseISO, isWithinInterval, format, differenceInDays } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { formatSLADays, getDefaultSLAHours, getRequestSLADays, getRequestSLAElapsedDays } from '../utils/slaUtils';
+import { getRequestPriorityLabel } from '../utils/requestUtils';
+import { formatDecimal, t } from '../utils/i18nUtils';
 
 interface RequestSLAAnalysisProps {
   requests: Request[];
@@ -39,13 +42,6 @@ const CHART_COLORS = {
   outsideSLA: '#EF4444'
 };
 
-// SLA thresholds for requests (in days)
-const REQUEST_SLA_THRESHOLDS = {
-  HIGH: 3,    // 3 days
-  MEDIUM: 5,  // 5 days
-  LOW: 7      // 7 days
-};
-
 export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: RequestSLAAnalysisProps) {
   const [selectedPriority, setSelectedPriority] = useState<string | null>(null);
 
@@ -66,30 +62,33 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
     // Initialize data structure with all priority levels
     const data = {
       HIGH: {
-        priority: 'Alta',
+        priority: getRequestPriorityLabel('HIGH'),
         total: 0,
         withinSLA: 0,
         outsideSLA: 0,
+        grossWithinSLA: 0,
         completionRate: 0,
         avgResolutionDays: 0,
         totalResolutionDays: 0,
         completedCount: 0
       },
       MEDIUM: {
-        priority: 'Média',
+        priority: getRequestPriorityLabel('MEDIUM'),
         total: 0,
         withinSLA: 0,
         outsideSLA: 0,
+        grossWithinSLA: 0,
         completionRate: 0,
         avgResolutionDays: 0,
         totalResolutionDays: 0,
         completedCount: 0
       },
       LOW: {
-        priority: 'Baixa',
+        priority: getRequestPriorityLabel('LOW'),
         total: 0,
         withinSLA: 0,
         outsideSLA: 0,
+        grossWithinSLA: 0,
         completionRate: 0,
         avgResolutionDays: 0,
         totalResolutionDays: 0,
@@ -107,19 +106,24 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
       data[priority].total++;
       
       // Calculate SLA compliance
-      const threshold = REQUEST_SLA_THRESHOLDS[priority];
+      const threshold = getRequestSLADays(request);
       
       try {
         const opened = parseISO(request.Opened);
         const closed = request.Updated && isCompleted ? parseISO(request.Updated) : new Date();
         const daysToResolve = differenceInDays(closed, opened);
+        const slaDays = getRequestSLAElapsedDays(request, opened, closed);
+        // SLA bruto: sem descontar o tempo em espera
+        if (getRequestSLAElapsedDays(request, opened, closed, false) <= threshold) {
+          data[priority].grossWithinSLA++;
+        }
         
         if (isCompleted) {
           data[priority].completedCount++;
           data[priority].totalResolutionDays += daysToResolve;
         }
         
-        if (daysToResolve <= threshold) {
+        if (slaDays <= threshold) {
           data[priority].withinSLA++;
         } else {
           data[priority].outsideSLA++;
@@ -142,6 +146,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
     const total = Object.values(slaData).reduce((sum, item) => sum + item.total, 0);
     const withinSLA = Object.values(slaData).reduce((sum, item) => sum + item.withinSLA, 0);
     const outsideSLA = Object.values(slaData).reduce((sum, item) => sum + item.outsideSLA, 0);
+    const grossWithinSLA = Object.values(slaData).reduce((sum, item) => sum + item.grossWithinSLA, 0);
     const completedCount = Object.values(slaData).reduce((sum, item) => sum + item.completedCount, 0);
     
     return {
@@ -149,14 +154,15 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
       withinSLA,
       outsideSLA,
       slaComplianceRate: total > 0 ? (withinSLA / total) * 100 : 0,
+      grossSlaComplianceRate: total > 0 ? (grossWithinSLA / total) * 100 : 0,
       completionRate: total > 0 ? (completedCount / total) * 100 : 0
     };
   }, [slaData]);
 
   const pieChartData = useMemo(() => {
     return [
-      { name: 'Dentro do SLA', value: overallStats.withinSLA, color: CHART_COLORS.withinSLA },
-      { name: 'Fora do SLA', value: overallStats.outsideSLA, color: CHART_COLORS.outsideSLA }
+      { name: t('sla.within'), value: overallStats.withinSLA, color: CHART_COLORS.withinSLA },
+      { name: t('sla.outside'), value: overallStats.outsideSLA, color: CHART_COLORS.outsideSLA }
     ];
   }, [overallStats]);
 
@@ -166,7 +172,8 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
       withinSLA: value.withinSLA,
       outsideSLA: value.outsideSLA,
       total: value.total,
-      slaComplianceRate: value.total > 0 ? (value.withinSLA / value.total) * 100 : 0
+      slaComplianceRate: value.total > 0 ? (value.withinSLA / value.total) * 100 : 0,
+      grossSlaComplianceRate: value.total > 0 ? (value.grossWithinSLA / value.total) * 100 : 0
     }));
   }, [slaData]);
 
@@ -186,12 +193,12 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
           {payload[0]?.payload?.total && (
             <div className="pt-2 mt-2 border-t border-gray-700">
               <div className="flex items-center justify-between">
-                <span className="text-gray-400">Total</span>
+                <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
                 <span className="text-white font-bold">{payload[0].payload.total}</span>
               </div>
               {payload[0]?.payload?.slaComplianceRate !== undefined && (
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-400">Taxa de SLA</span>
+                  <span className="text-gray-400">{t('requestSla.slaRate')}</span>
                   <span className={`font-bold ${
                     payload[0].payload.slaComplianceRate >= 90 ? 'text-green-400' :
                     payload[0].payload.slaComplianceRate >= 75 ? 'text-yellow-400' : 'text-red-400'
@@ -200,6 +207,12 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
                   </span>
                 </div>
               )}
+              {payload[0]?.payload?.grossSlaComplianceRate !== undefined && (
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-400">{t('slaHistory.gross')}</span>
+                  <span className="text-white">{payload[0].payload.grossSlaComplianceRate.toFixed(1)}%</span>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -210,7 +223,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise de SLA - Requests</h2>
+        <h2 className="text-xl font-semibold text-white">{t('requestSla.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -226,7 +239,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <Timer className="h-5 w-5 text-indigo-400" />
-            <h3 className="text-sm text-gray-400">SLA Global</h3>
+            <h3 className="text-sm text-gray-400">{t('slaHistory.global')}</h3>
           </div>
           <p className={`text-2xl font-bold ${
             overallStats.slaComplianceRate >= 90 ? 'text-green-400' :
@@ -234,34 +247,37 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
           }`}>
             {overallStats.slaComplianceRate.toFixed(1)}%
           </p>
+          <p className="text-xs text-gray-400 mt-1">
+            {t('slaHistory.netOfPauses', { percent: formatDecimal(overallStats.grossSlaComplianceRate) })}
+          </p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <CheckCircle2 className="h-5 w-5 text-green-400" />
-            <h3 className="text-sm text-gray-400">Dentro do SLA</h3>
+            <h3 className="text-sm text-gray-400">{t('sla.within')}</h3>
           </div>
           <p className="text-2xl font-bold text-green-400">{overallStats.withinSLA}</p>
           <p className="text-sm text-gray-400 mt-1">
-            {((overallStats.withinSLA / overallStats.total) * 100).toFixed(1)}% do total
+            {t('analysis.percentOfTotal', { percent: formatDecimal((overallStats.withinSLA / overallStats.total) * 100) })}
           </p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <AlertTriangle className="h-5 w-5 text-red-400" />
-            <h3 className="text-sm text-gray-400">Fora do SLA</h3>
+            <h3 className="text-sm text-gray-400">{t('sla.outside')}</h3>
           </div>
           <p className="text-2xl font-bold text-red-400">{overallStats.outsideSLA}</p>
           <p className="text-sm text-gray-400 mt-1">
-            {((overallStats.outsideSLA / overallStats.total) * 100).toFixed(1)}% do total
+            {t('analysis.percentOfTotal', { percent: formatDecimal((overallStats.outsideSLA / overallStats.total) * 100) })}
           </p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <Calendar className="h-5 w-5 text-blue-400" />
-            <h3 className="text-sm text-gray-400">Taxa de Conclusão</h3>
+            <h3 className="text-sm text-gray-400">{t('requestSla.completionRate')}</h3>
           </div>
           <p className={`text-2xl font-bold ${
             overallStats.completionRate >= 80 ? 'text-green-400' :
@@ -275,7 +291,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
       {/* SLA Compliance Charts */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">Distribuição de SLA</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('requestSla.distribution')}</h3>
           <div className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
               <PieChart>
@@ -300,7 +316,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">SLA por Prioridade</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('requestSla.byPriority')}</h3>
           <div className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
@@ -314,13 +330,13 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
                 <Legend />
                 <Bar
                   dataKey="withinSLA"
-                  name="Dentro do SLA"
+                  name={t('sla.within')}
                   fill={CHART_COLORS.withinSLA}
                   stackId="a"
                 />
                 <Bar
                   dataKey="outsideSLA"
-                  name="Fora do SLA"
+                  name={t('sla.outside')}
                   fill={CHART_COLORS.outsideSLA}
                   stackId="a"
                 />
@@ -332,7 +348,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
 
       {/* SLA Details by Priority */}
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Detalhes por Prioridade</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('requestSla.details')}</h3>
         <div className="space-y-4">
           {Object.entries(slaData).map(([key, data]) => (
             <div
@@ -344,12 +360,12 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
                 <div>
                   <h4 className="text-lg font-medium text-white">{data.priority}</h4>
                   <p className="text-sm text-gray-400">
-                    SLA: {REQUEST_SLA_THRESHOLDS[key as keyof typeof REQUEST_SLA_THRESHOLDS]} dias
+                    {t('requestSla.target', { time: formatSLADays(getDefaultSLAHours('requests', key) / 24) })}
                   </p>
                 </div>
                 <div className="text-right">
                   <p className="text-2xl font-bold text-white">{data.total}</p>
-                  <p className="text-sm text-gray-400">solicitações</p>
+                  <p className="text-sm text-gray-400">{t('requestDashboard.requests')}</p>
                 </div>
               </div>
 
@@ -357,7 +373,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
                 <div className="bg-[#1C2333] p-3 rounded-lg">
                   <div className="flex items-center gap-2 mb-1">
                     <CheckCircle2 className="h-4 w-4 text-green-400" />
-                    <p className="text-sm text-gray-400">Dentro do SLA</p>
+                    <p className="text-sm text-gray-400">{t('sla.within')}</p>
                   </div>
                   <p className="text-xl font-bold text-green-400">{data.withinSLA}</p>
                   <p className="text-xs text-gray-400">
@@ -368,7 +384,7 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
                 <div className="bg-[#1C2333] p-3 rounded-lg">
                   <div className="flex items-center gap-2 mb-1">
                     <AlertTriangle className="h-4 w-4 text-red-400" />
-                    <p className="text-sm text-gray-400">Fora do SLA</p>
+                    <p className="text-sm text-gray-400">{t('sla.outside')}</p>
                   </div>
                   <p className="text-xl font-bold text-red-400">{data.outsideSLA}</p>
                   <p className="text-xs text-gray-400">
@@ -379,20 +395,20 @@ export function RequestSLAAnalysis({ requests, onClose, startDate, endDate }: Re
                 <div className="bg-[#1C2333] p-3 rounded-lg">
                   <div className="flex items-center gap-2 mb-1">
                     <Clock className="h-4 w-4 text-blue-400" />
-                    <p className="text-sm text-gray-400">Tempo Médio</p>
+                    <p className="text-sm text-gray-400">{t('requestSla.avgTime')}</p>
                   </div>
                   <p className="text-xl font-bold text-blue-400">
-                    {data.avgResolutionDays.toFixed(1)} dias
+                    {t('requestSla.avgDays', { days: formatDecimal(data.avgResolutionDays) })}
                   </p>
                   <p className="text-xs text-gray-400">
-                    {data.completedCount} concluídos
+                    {t('requestSla.completed', { count: data.completedCount })}
                   </p>
                 </div>
               </div>
 
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-gray-400">Taxa de Conclusão</span>
+                  <span className="text-gray-400">{t('requestSla.completionRate')}</span>
                   <span className={`font-medium ${
                     data.completionRate >= 80 ? 'text-green-400' :
                     data.completionRate >= 60 ? 'text-yellow-400' : 'text-red-400'
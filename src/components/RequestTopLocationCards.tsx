@@ -4,6 +4,7 @@ import { Request } from '../types/request';
 import { normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { normalizeLocationName } from '../utils/locationUtils';
 import { parseISO, isWithinInterval } from 'date-fns';
+import { t } from '../utils/i18nUtils';
 
 interface RequestTopLocationCardsProps {
   requests: Request[];
@@ -31,7 +32,7 @@ export function RequestTopLocationCards({ requests, onLocationClick, startDate,
     
     // Then group by location
     return filteredRequests.reduce((acc, request) => {
-      const location = normalizeLocationName(request.AssignmentGroup) || 'Não especificado';
+      const location = normalizeLocationName(request.AssignmentGroup) || t('analysis.notSpecified');
       
       if (!acc[location]) {
         acc[location] = {
@@ -77,7 +78,7 @@ export function RequestTopLocationCards({ requests, onLocationClick, startDate,
   
   return (
     <div className="mb-6">
-      <h3 className="text-lg font-medium text-white mb-4">Top 5 por Localidade</h3>
+      <h3 className="text-lg font-medium text-white mb-4">{t('requestLocation.top5')}</h3>
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         {topLocations.map(location => (
           <div 
@@ -91,12 +92,12 @@ export function RequestTopLocationCards({ requests, onLocationClick, startDate,
             </div>
             <p className="text-2xl font-bold text-white mb-2">{location.total}</p>
             <p className="text-sm text-gray-400 mb-1">
-              {location.users.size} usuários ativos
+              {t('locationAnalysis.activeUsers', { count: location.users.size })}
             </p>
             {location.highPriority > 0 && (
               <div className="flex items-center gap-1 text-sm text-yellow-300">
                 <AlertTriangle className="h-4 w-4" />
-                <span>Alta prioridade: {location.highPriority}</span>
+                <span>{t('requestLocation.highPriority', { count: location.highPriority })}</span>
               </div>
             )}
           </div>
@@ -20,7 +20,8 @@ import {
 } from 'lucide-react';
 import { Request, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { parseISO, isWithinInterval, format, startOfMonth, endOfMonth, eachMonthOfInterval, eachWeekOfInterval, startOfWeek, endOfWeek } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { formatLocalizedDate, getDateLocale, t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel } from '../utils/requestUtils';
 
 interface RequestTrendAnalysisProps {
   requests: Request[];
@@ -62,7 +63,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       });
 
       const data: Record<string, any> = {
-        month: format(month, 'MMM/yy', { locale: ptBR }),
+        month: format(month, 'MMM/yy', { locale: getDateLocale() }),
         total: monthRequests.length
       };
 
@@ -111,7 +112,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       });
 
       return {
-        week: `${format(weekStart, 'dd/MM', { locale: ptBR })} - ${format(weekEnd, 'dd/MM', { locale: ptBR })}`,
+        week: `${formatLocalizedDate(weekStart, 'format.dayMonth')} - ${formatLocalizedDate(weekEnd, 'format.dayMonth')}`,
         total: weekRequests.length,
         HIGH: weekRequests.filter(r => normalizeRequestPriority(r.Priority) === 'HIGH').length,
         MEDIUM: weekRequests.filter(r => normalizeRequestPriority(r.Priority) === 'MEDIUM').length,
@@ -134,7 +135,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
 
     // Get top 5 categories
     const categoryCount = requests.reduce((acc, request) => {
-      const category = request.RequestItem || 'Não categorizado';
+      const category = request.RequestItem || t('analysis.uncategorized');
       acc[category] = (acc[category] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
@@ -148,7 +149,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
     return months.map(month => {
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
-      const monthLabel = format(month, 'MMM/yy', { locale: ptBR });
+      const monthLabel = format(month, 'MMM/yy', { locale: getDateLocale() });
 
       const data: Record<string, any> = {
         month: monthLabel
@@ -194,7 +195,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise de Tendências</h2>
+        <h2 className="text-xl font-semibold text-white">{t('requestTrend.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
@@ -209,7 +210,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <Calendar className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Tendência Mensal por Prioridade</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestTrend.monthlyByPriority')}</h3>
         </div>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -232,7 +233,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Area
                 type="monotone"
                 dataKey="HIGH"
-                name="Alta"
+                name={getRequestPriorityLabel('HIGH')}
                 stackId="1"
                 stroke={CHART_COLORS.HIGH}
                 fill={CHART_COLORS.HIGH}
@@ -241,7 +242,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Area
                 type="monotone"
                 dataKey="MEDIUM"
-                name="Média"
+                name={getRequestPriorityLabel('MEDIUM')}
                 stackId="1"
                 stroke={CHART_COLORS.MEDIUM}
                 fill={CHART_COLORS.MEDIUM}
@@ -250,7 +251,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Area
                 type="monotone"
                 dataKey="LOW"
-                name="Baixa"
+                name={getRequestPriorityLabel('LOW')}
                 stackId="1"
                 stroke={CHART_COLORS.LOW}
                 fill={CHART_COLORS.LOW}
@@ -265,7 +266,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <TrendingUp className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Tendência Mensal por Status</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestTrend.monthlyByStatus')}</h3>
         </div>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -288,7 +289,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Line
                 type="monotone"
                 dataKey="NEW_count"
-                name="Novos"
+                name={t('requestTrend.new')}
                 stroke={CHART_COLORS.NEW}
                 strokeWidth={2}
                 dot={{ r: 4 }}
@@ -297,7 +298,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Line
                 type="monotone"
                 dataKey="IN_PROGRESS_count"
-                name="Em Andamento"
+                name={t('request.status.IN_PROGRESS')}
                 stroke={CHART_COLORS.IN_PROGRESS}
                 strokeWidth={2}
                 dot={{ r: 4 }}
@@ -306,7 +307,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Line
                 type="monotone"
                 dataKey="COMPLETED_count"
-                name="Concluídos"
+                name={t('requestDashboard.completed')}
                 stroke={CHART_COLORS.COMPLETED}
                 strokeWidth={2}
                 dot={{ r: 4 }}
@@ -315,7 +316,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Line
                 type="monotone"
                 dataKey="CANCELLED_count"
-                name="Cancelados"
+                name={t('requestTrend.cancelled')}
                 stroke={CHART_COLORS.CANCELLED}
                 strokeWidth={2}
                 dot={{ r: 4 }}
@@ -330,7 +331,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <TrendingUp className="h-5 w-5 text-green-400" />
-          <h3 className="text-lg font-medium text-white">Taxa de Conclusão Mensal</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestTrend.monthlyCompletion')}</h3>
         </div>
         <div className="h-[300px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -353,12 +354,12 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
                 tickFormatter={(value) => `${value}%`}
               />
               <Tooltip 
-                formatter={(value: any) => [`${value.toFixed(1)}%`, 'Taxa de Conclusão']}
+                formatter={(value: any) => [`${value.toFixed(1)}%`, t('requestSla.completionRate')]}
               />
               <Legend />
               <Bar
                 dataKey="completionRate"
-                name="Taxa de Conclusão"
+                name={t('requestSla.completionRate')}
                 fill="#10B981"
                 radius={[4, 4, 0, 0]}
               />
@@ -371,7 +372,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <TrendingUp className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Tendência por Categoria</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestTrend.byCategory')}</h3>
         </div>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -414,7 +415,7 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center gap-2 mb-4">
           <Calendar className="h-5 w-5 text-indigo-400" />
-          <h3 className="text-lg font-medium text-white">Tendência Semanal</h3>
+          <h3 className="text-lg font-medium text-white">{t('requestTrend.weekly')}</h3>
         </div>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
@@ -436,19 +437,19 @@ export function RequestTrendAnalysis({ requests, onClose, startDate, endDate }:
               <Legend />
               <Bar
                 dataKey="HIGH"
-                name="Alta"
+                name={getRequestPriorityLabel('HIGH')}
                 stackId="priority"
                 fill={CHART_COLORS.HIGH}
               />
               <Bar
                 dataKey="MEDIUM"
-                name="Média"
+                name={getRequestPriorityLabel('MEDIUM')}
                 stackId="priority"
                 fill={CHART_COLORS.MEDIUM}
               />
               <Bar
                 dataKey="LOW"
-                name="Baixa"
+                name={getRequestPriorityLabel('LOW')}
                 stackId="priority"
                 fill={CHART_COLORS.LOW}
               />
@@ -14,10 +14,11 @@ import {
 } from 'recharts';
 import { X, AlertTriangle, ExternalLink, PauseCircle, Timer } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format, differenceInMinutes, differenceInHours, differenceInDays, parse } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, isWithinInterval, differenceInMinutes, differenceInDays, parse } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { formatSLAOverdue, getDefaultSLAHours, getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
 import { OutOfSLAIncidents } from './OutOfSLAIncidents';
 
 interface SLAAnalysisProps {
@@ -44,60 +45,48 @@ const CHART_COLORS = {
   outsideSLA: '#EF4444'  // Vermelho
 };
 
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hora
-  P2: 4,   // 4 horas
-  P3: 36,  // 36 horas
-  P4: 72   // 72 horas
-};
+// 'Não definido' é a chave interna do agrupamento; na tela aparece traduzida
+const getPriorityLabel = (priority: string): string =>
+  priority === 'Não definido' ? t('slaAnalysis.undefinedPriority') : priority;
 
 function IncidentModal({ incidents, priority, compliant, onClose }: IncidentModalProps) {
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
 
   const formatDate = (dateStr: string) => {
     try {
-      if (!dateStr) return 'Data não disponível';
+      if (!dateStr) return t('sla.noDate');
       const date = parseDate(dateStr);
-      if (!date || isNaN(date.getTime())) return 'Data inválida';
-      return format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      if (!date || isNaN(date.getTime())) return t('format.invalidDate');
+      return formatLocalizedDate(date);
     } catch (e) {
       console.error('Erro ao formatar data:', e);
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
   const getResponseTime = (incident: Incident): string => {
     try {
-      if (!incident.Opened) return 'Data de abertura não disponível';
+      if (!incident.Opened) return t('sla.noOpened');
       
       const opened = parseDate(incident.Opened);
-      if (!opened || isNaN(opened.getTime())) return 'Data de abertura inválida';
+      if (!opened || isNaN(opened.getTime())) return t('sla.invalidOpened');
       
       const lastUpdate = incident.Updated ? parseDate(incident.Updated) : new Date();
-      if (!lastUpdate || isNaN(lastUpdate.getTime())) return 'Data de atualização inválida';
+      if (!lastUpdate || isNaN(lastUpdate.getTime())) return t('sla.invalidUpdated');
       
-      const priority = normalizePriority(incident.Priority);
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
-      const totalHours = differenceInHours(lastUpdate, opened);
+      const threshold = getIncidentSLAHours(incident);
+      const totalHours = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
       
-      if (isNaN(totalHours)) return 'Tempo não calculado';
+      if (isNaN(totalHours)) return t('sla.notCalculated');
       
       if (totalHours <= threshold) {
-        return 'Dentro do SLA';
+        return t('sla.within');
       }
 
-      const hoursOverSLA = totalHours - threshold;
-      const days = Math.floor(hoursOverSLA / 24);
-      const remainingHours = hoursOverSLA % 24;
-
-      if (days > 0) {
-        return `${days} ${days === 1 ? 'dia' : 'dias'}${remainingHours > 0 ? ` e ${remainingHours} ${remainingHours === 1 ? 'hora' : 'horas'}` : ''} fora do SLA`;
-      }
-      
-      return `${hoursOverSLA} ${hoursOverSLA === 1 ? 'hora' : 'horas'} fora do SLA`;
+      return t('sla.breach', { time: formatSLAOverdue(totalHours - threshold) });
     } catch (e) {
       console.error('Erro ao calcular tempo de resposta:', e);
-      return 'Tempo não calculado';
+      return t('sla.notCalculated');
     }
   };
 
@@ -114,10 +103,13 @@ function IncidentModal({ incidents, priority, compliant, onClose }: IncidentModa
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados {priority} - {compliant ? 'Dentro do SLA' : 'Fora do SLA'}
+              {t('slaAnalysis.listTitle', {
+                priority: getPriorityLabel(priority),
+                status: compliant ? t('sla.within') : t('sla.outside')
+              })}
             </h2>
             <p className="text-gray-400 mt-1">
-              {incidents.length} chamados encontrados
+              {t('slaAnalysis.found', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -132,13 +124,13 @@ function IncidentModal({ incidents, priority, compliant, onClose }: IncidentModa
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Grupo</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Tempo</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.group')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.time')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -234,23 +226,27 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
     console.log('[SLA LOG] Filtrados:', totalFiltrados, 'Fora do período:', foraDoPeriodo, 'Erro de data:', erroData, 'Sem data:', semData);
 
     const priorityData = {
-      P1: { withinSLA: 0, outsideSLA: 0, total: 0 },
-      P2: { withinSLA: 0, outsideSLA: 0, total: 0 },
-      P3: { withinSLA: 0, outsideSLA: 0, total: 0 },
-      P4: { withinSLA: 0, outsideSLA: 0, total: 0 },
-      'Não definido': { withinSLA: 0, outsideSLA: 0, total: 0 }
+      P1: { withinSLA: 0, outsideSLA: 0, grossWithinSLA: 0, total: 0 },
+      P2: { withinSLA: 0, outsideSLA: 0, grossWithinSLA: 0, total: 0 },
+      P3: { withinSLA: 0, outsideSLA: 0, grossWithinSLA: 0, total: 0 },
+      P4: { withinSLA: 0, outsideSLA: 0, grossWithinSLA: 0, total: 0 },
+      'Não definido': { withinSLA: 0, outsideSLA: 0, grossWithinSLA: 0, total: 0 }
     };
 
     filteredIncidents.forEach(incident => {
       const priority = normalizePriority(incident.Priority) || 'Não definido';
       if (priority === 'Não definido') semPrioridade++;
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
+      const threshold = getIncidentSLAHours(incident);
       const opened = parseDate(incident.Opened || '');
       const lastUpdate = parseDate(incident.Updated || '');
       if (!opened || !lastUpdate) { semData++; return; }
-      const responseTime = differenceInHours(lastUpdate, opened);
+      const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
       if (isNaN(responseTime)) { erroData++; return; }
       const priorityKey = priority as keyof typeof priorityData;
+      // SLA bruto: mesmo cálculo sem descontar o tempo em espera
+      if (getIncidentSLAElapsedHours(incident, opened, lastUpdate, false) <= threshold) {
+        priorityData[priorityKey].grossWithinSLA++;
+      }
       if (responseTime <= threshold) {
         priorityData[priorityKey].withinSLA++;
       } else {
@@ -269,7 +265,6 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
   const slaPercentage = totalIncidents > 0 ? (totalWithinSLA / totalIncidents) * 100 : 0;
 
   const handleSLAClick = (priority: string, compliant: boolean) => {
-    const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
     let logCount = 0;
     const filteredIncidents = incidents.filter(incident => {
       const normalizedPriority = normalizePriority(incident.Priority);
@@ -277,7 +272,8 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
       try {
         const opened = parseDate(incident.Opened || '');
         const lastUpdate = parseDate(incident.Updated || '');
-        const responseTime = differenceInHours(lastUpdate, opened);
+        const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
+        const threshold = getIncidentSLAHours(incident);
         const isAtrasado = responseTime > threshold;
         if (!compliant && isAtrasado && logCount < 20) {
           logCount++;
@@ -341,8 +337,8 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
       const opened = parseDate(incident.Opened || '');
       const lastUpdate = parseDate(incident.Updated || '');
       if (!opened || !lastUpdate) return false;
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
-      const responseTime = differenceInHours(lastUpdate, opened);
+      const threshold = getIncidentSLAHours(incident);
+      const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
       return responseTime > threshold;
     });
     console.log(`[SLA LOG][getAtrasadosPorPrioridade] Priority: ${priority} | Total atrasados: ${atrasados.length}`);
@@ -357,13 +353,13 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
       <div className="bg-[#111827] rounded-lg w-full max-w-6xl max-h-[90vh] overflow-hidden">
         <div className="p-6 border-b border-gray-700">
           <div className="flex items-center justify-between">
-            <h2 className="text-xl font-semibold text-white">Análise de SLA</h2>
+            <h2 className="text-xl font-semibold text-white">{t('slaAnalysis.title')}</h2>
             {onClose && (
               <button
                 onClick={onClose}
                 className="text-gray-400 hover:text-white transition-colors"
               >
-                Fechar
+                {t('slaAnalysis.close')}
               </button>
             )}
           </div>
@@ -372,17 +368,25 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
         <div className="p-6 overflow-auto max-h-[calc(90vh-80px)] space-y-8">
           {/* Barras de progresso por prioridade */}
           <div className="bg-[#181F32] rounded-lg p-6 mb-6">
-            <h3 className="text-lg font-medium text-white mb-4">Cumprimento de SLA por Prioridade</h3>
+            <h3 className="text-lg font-medium text-white mb-1">{t('slaAnalysis.byPriority')}</h3>
+            <p className="text-sm text-gray-400 mb-4">
+              {t('slaAnalysis.netExplanation')}
+            </p>
             {Object.entries(slaData).map(([priority, data]) => {
               const percentage = data.total > 0 ? (data.withinSLA / data.total) * 100 : 0;
+              const grossPercentage = data.total > 0 ? (data.grossWithinSLA / data.total) * 100 : 0;
               const atrasados = data.outsideSLA;
-              const emEspera = 0; // Ajuste se houver lógica para "em espera"
               const noPrazo = data.withinSLA;
               return (
                 <div key={priority} className="mb-4">
                   <div className="flex items-center justify-between mb-1">
-                    <span className="text-gray-400 font-medium">{priority}</span>
-                    <span className="text-white font-semibold">{percentage.toFixed(1)}%</span>
+                    <span className="text-gray-400 font-medium">{getPriorityLabel(priority)}</span>
+                    <span className="text-white font-semibold">
+                      {formatDecimal(percentage)}%
+                      <span className="ml-2 text-xs font-normal text-gray-400">
+                        {t('slaAnalysis.gross', { percent: formatDecimal(grossPercentage) })}
+                      </span>
+                    </span>
                   </div>
                   <div className="relative h-3 bg-gray-700 rounded-full overflow-hidden">
                     <div
@@ -391,14 +395,14 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
                     />
                   </div>
                   <div className="flex items-center gap-4 mt-1 text-sm">
-                    <span className="text-green-400">{noPrazo} no prazo</span>
+                    <span className="text-green-400">{t('slaAnalysis.onTime', { count: noPrazo })}</span>
                     {/* Em espera pode ser adicionado aqui se necessário */}
                     <button
                       className="text-red-500 underline hover:text-red-400 cursor-pointer font-semibold"
                       onClick={() => { setSelectedPriority(priority); setShowModal(true); }}
                       style={{ background: 'none', border: 'none', padding: 0 }}
                     >
-                      {atrasados} atrasados
+                      {t('slaAnalysis.late', { count: atrasados })}
                     </button>
                   </div>
                 </div>
@@ -415,19 +419,26 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
               return (
                 <div key={priority} className="rounded-lg p-6 bg-[#181F32] border border-gray-700 flex flex-col gap-2">
                   <div className="flex items-center gap-2 mb-2">
-                    <span className={`text-${priority === 'P2' ? 'blue' : priority === 'P3' ? 'yellow' : 'green'}-400 font-bold text-lg`}>{priority}</span>
-                    <span className="ml-auto text-2xl font-bold" style={{ color: atrasados > 0 ? '#EF4444' : '#10B981' }}>{percentage.toFixed(1)}%</span>
+                    <span className={`text-${priority === 'P2' ? 'blue' : priority === 'P3' ? 'yellow' : 'green'}-400 font-bold text-lg`}>{getPriorityLabel(priority)}</span>
+                    <span className="ml-auto text-2xl font-bold" style={{ color: atrasados > 0 ? '#EF4444' : '#10B981' }}>{formatDecimal(percentage)}%</span>
+                  </div>
+                  <div className="text-gray-400 text-sm mb-1">
+                    {t('slaAnalysis.target', { hours: getDefaultSLAHours('incidents', priority) })}
+                  </div>
+                  <div className="text-gray-400 text-sm mb-1">{t('slaAnalysis.total', { count: data.total })}</div>
+                  <div className="text-gray-400 text-sm mb-1">
+                    {t('slaAnalysis.grossWithPauses', {
+                      percent: formatDecimal(data.total > 0 ? (data.grossWithinSLA / data.total) * 100 : 0)
+                    })}
                   </div>
-                  <div className="text-gray-400 text-sm mb-1">Meta de atendimento: {SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS]} horas</div>
-                  <div className="text-gray-400 text-sm mb-1">Total de chamados: {data.total}</div>
                   <div className="flex flex-col gap-1 text-sm">
-                    <span className="text-green-400">{noPrazo} no prazo</span>
+                    <span className="text-green-400">{t('slaAnalysis.onTime', { count: noPrazo })}</span>
                     <button
                       className="text-red-500 underline hover:text-red-400 cursor-pointer font-semibold text-left"
                       onClick={() => { setSelectedPriority(priority); setShowModal(true); }}
                       style={{ background: 'none', border: 'none', padding: 0 }}
                     >
-                      {atrasados} atrasados
+                      {t('slaAnalysis.late', { count: atrasados })}
                     </button>
                   </div>
                 </div>
@@ -443,10 +454,10 @@ export function SLAAnalysis({ incidents, onClose, startDate, endDate }: SLAAnaly
                   onClick={() => setShowModal(false)}
                   className="absolute top-4 right-4 text-gray-400 hover:text-white"
                 >
-                  Fechar
+                  {t('slaAnalysis.close')}
                 </button>
                 <h2 className="text-xl font-semibold text-white mb-4">
-                  Chamados {selectedPriority} fora do SLA
+                  {t('slaAnalysis.lateTitle', { priority: getPriorityLabel(selectedPriority) })}
                 </h2>
                 <OutOfSLAIncidents incidents={getAtrasadosPorPrioridade(selectedPriority)} />
               </div>
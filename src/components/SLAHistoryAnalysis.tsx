@@ -12,9 +12,10 @@ import {
 } from 'recharts';
 import { X, Timer, AlertTriangle, ChevronLeft, MousePointerClick } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format, differenceInHours, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
-import { normalizePriority } from '../utils/incidentUtils';
+import { parseISO, isWithinInterval, format, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
+import { normalizePriority, isHighPriority } from '../utils/incidentUtils';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
+import { formatDecimal, getDateLocale, t } from '../utils/i18nUtils';
 
 interface SLAHistoryAnalysisProps {
   incidents: Incident[];
@@ -23,13 +24,6 @@ interface SLAHistoryAnalysisProps {
   endDate?: string;
 }
 
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hour
-  P2: 4,   // 4 hours
-  P3: 36,  // 36 hours
-  P4: 72   // 72 hours
-};
-
 const CHART_COLORS = {
   withinSLA: '#10B981', // Green
   outsideSLA: '#EF4444'  // Red
@@ -61,21 +55,26 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
       let withinSLA = 0;
       let outsideSLA = 0;
       let criticalOutsideSLA = 0;
+      // Sem descontar o tempo em espera
+      let grossWithinSLA = 0;
 
       monthIncidents.forEach(incident => {
         const priority = normalizePriority(incident.Priority);
-        const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
+        const threshold = getIncidentSLAHours(incident);
         
         try {
           const opened = parseISO(incident.Opened);
           const lastUpdate = incident.Updated ? parseISO(incident.Updated) : new Date();
-          const responseTime = differenceInHours(lastUpdate, opened);
+          const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
+          if (getIncidentSLAElapsedHours(incident, opened, lastUpdate, false) <= threshold) {
+            grossWithinSLA++;
+          }
 
           if (responseTime <= threshold) {
             withinSLA++;
           } else {
             outsideSLA++;
-            if (priority === 'P1' || priority === 'P2') {
+            if (isHighPriority(priority)) {
               criticalOutsideSLA++;
             }
           }
@@ -86,9 +85,10 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
 
       const total = withinSLA + outsideSLA;
       const slaPercentage = total > 0 ? (withinSLA / total) * 100 : 0;
+      const grossSlaPercentage = total > 0 ? (grossWithinSLA / total) * 100 : 0;
 
       return {
-        month: format(month, 'MMM/yy', { locale: ptBR }),
+        month: format(month, 'MMM/yy', { locale: getDateLocale() }),
         monthStart,
         monthEnd,
         withinSLA,
@@ -96,6 +96,8 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
         criticalOutsideSLA,
         total,
         slaPercentage,
+        grossWithinSLA,
+        grossSlaPercentage,
       };
     });
   }, [incidents, startDate, endDate]);
@@ -104,6 +106,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
     const withinSLA = monthlyData.reduce((sum, month) => sum + month.withinSLA, 0);
     const outsideSLA = monthlyData.reduce((sum, month) => sum + month.outsideSLA, 0);
     const criticalOutsideSLA = monthlyData.reduce((sum, month) => sum + month.criticalOutsideSLA, 0);
+    const grossWithinSLA = monthlyData.reduce((sum, month) => sum + month.grossWithinSLA, 0);
     const total = withinSLA + outsideSLA;
     
     return {
@@ -112,6 +115,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
       criticalOutsideSLA,
       total,
       slaPercentage: total > 0 ? (withinSLA / total) * 100 : 0,
+      grossSlaPercentage: total > 0 ? (grossWithinSLA / total) * 100 : 0,
     };
   }, [monthlyData]);
 
@@ -134,7 +138,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
     });
 
     const categories = monthIncidents.reduce((acc, incident) => {
-      const category = incident.Category || 'Não categorizado';
+      const category = incident.Category || t('analysis.uncategorized');
       
       if (!acc[category]) {
         acc[category] = {
@@ -145,13 +149,12 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
         };
       }
 
-      const priority = normalizePriority(incident.Priority);
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
+      const threshold = getIncidentSLAHours(incident);
       
       try {
         const opened = parseISO(incident.Opened);
         const lastUpdate = incident.Updated ? parseISO(incident.Updated) : new Date();
-        const responseTime = differenceInHours(lastUpdate, opened);
+        const responseTime = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
 
         if (responseTime <= threshold) {
           acc[category].withinSLA++;
@@ -187,16 +190,20 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
         <p className="text-white font-medium mb-2">{label}</p>
         <div className="space-y-2">
           <div className="flex items-center justify-between gap-4">
-            <span className="text-green-400">Dentro do SLA</span>
+            <span className="text-green-400">{t('sla.within')}</span>
             <span className="text-white">{data.withinSLA} ({((data.withinSLA / total) * 100).toFixed(1)}%)</span>
           </div>
           <div className="flex items-center justify-between gap-4">
-            <span className="text-red-400">Fora do SLA</span>
+            <span className="text-red-400">{t('sla.outside')}</span>
             <span className="text-white">{data.outsideSLA} ({((data.outsideSLA / total) * 100).toFixed(1)}%)</span>
           </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-gray-400">{t('slaHistory.gross')}</span>
+            <span className="text-white">{data.grossSlaPercentage.toFixed(1)}%</span>
+          </div>
           {data.criticalOutsideSLA > 0 && (
             <div className="flex items-center justify-between gap-4 pt-2 mt-2 border-t border-gray-700">
-              <span className="text-yellow-400">Críticos fora do SLA</span>
+              <span className="text-yellow-400">{t('slaHistory.criticalOutside')}</span>
               <span className="text-white">{data.criticalOutsideSLA}</span>
             </div>
           )}
@@ -216,16 +223,16 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
         <p className="text-white font-medium mb-2">{data.name}</p>
         <div className="space-y-2">
           <div className="flex items-center justify-between gap-4">
-            <span className="text-green-400">Dentro do SLA</span>
+            <span className="text-green-400">{t('sla.within')}</span>
             <span className="text-white">{data.withinSLA} ({((data.withinSLA / total) * 100).toFixed(1)}%)</span>
           </div>
           <div className="flex items-center justify-between gap-4">
-            <span className="text-red-400">Fora do SLA</span>
+            <span className="text-red-400">{t('sla.outside')}</span>
             <span className="text-white">{data.outsideSLA} ({((data.outsideSLA / total) * 100).toFixed(1)}%)</span>
           </div>
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">{total}</span>
             </div>
           </div>
@@ -255,9 +262,9 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-xl font-semibold text-white">Histórico por SLA</h2>
+          <h2 className="text-xl font-semibold text-white">{t('slaHistory.title')}</h2>
           <p className="text-gray-400 mt-1">
-            {totalStats.total} chamados no período
+            {t('slaHistory.ticketsInPeriod', { count: totalStats.total })}
           </p>
         </div>
         {onClose && (
@@ -274,7 +281,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <Timer className="h-5 w-5 text-indigo-400" />
-            <h3 className="text-sm text-gray-400">SLA Global</h3>
+            <h3 className="text-sm text-gray-400">{t('slaHistory.global')}</h3>
           </div>
           <p className={`text-2xl font-bold ${
             totalStats.slaPercentage >= 95 ? 'text-green-400' :
@@ -282,22 +289,25 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
           }`}>
             {totalStats.slaPercentage.toFixed(1)}%
           </p>
+          <p className="text-xs text-gray-400 mt-1">
+            {t('slaHistory.netOfPauses', { percent: formatDecimal(totalStats.grossSlaPercentage) })}
+          </p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-sm text-gray-400 mb-2">Dentro do SLA</h3>
+          <h3 className="text-sm text-gray-400 mb-2">{t('sla.within')}</h3>
           <p className="text-2xl font-bold text-green-400">{totalStats.withinSLA}</p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-sm text-gray-400 mb-2">Fora do SLA</h3>
+          <h3 className="text-sm text-gray-400 mb-2">{t('sla.outside')}</h3>
           <p className="text-2xl font-bold text-red-400">{totalStats.outsideSLA}</p>
         </div>
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
             <AlertTriangle className="h-5 w-5 text-yellow-400" />
-            <h3 className="text-sm text-gray-400">Críticos fora do SLA</h3>
+            <h3 className="text-sm text-gray-400">{t('slaHistory.criticalOutside')}</h3>
           </div>
           <p className="text-2xl font-bold text-yellow-400">{totalStats.criticalOutsideSLA}</p>
         </div>
@@ -305,10 +315,10 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-medium text-white">Distribuição por Mês</h3>
+          <h3 className="text-lg font-medium text-white">{t('slaHistory.byMonth')}</h3>
           <div className="flex items-center gap-2 px-3 py-1.5 bg-yellow-500/20 text-yellow-400 rounded-lg">
             <MousePointerClick className="h-4 w-4" />
-            <span className="text-sm">Clique para ver os SLA's por Categoria</span>
+            <span className="text-sm">{t('slaHistory.clickHint')}</span>
           </div>
         </div>
         <div className="h-[400px]">
@@ -337,7 +347,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
               <Legend />
               <Bar 
                 dataKey="outsideSLA" 
-                name="Fora do SLA" 
+                name={t('sla.outside')} 
                 fill={CHART_COLORS.outsideSLA}
                 radius={[4, 4, 0, 0]}
               >
@@ -348,7 +358,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
               </Bar>
               <Bar 
                 dataKey="withinSLA" 
-                name="Dentro do SLA" 
+                name={t('sla.within')} 
                 fill={CHART_COLORS.withinSLA}
                 radius={[4, 4, 0, 0]}
               >
@@ -370,10 +380,10 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
               className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
             >
               <ChevronLeft className="h-4 w-4" />
-              <span>Voltar para visão mensal</span>
+              <span>{t('slaHistory.back')}</span>
             </button>
             <h3 className="text-lg font-medium text-white">
-              Análise por Categoria - {selectedMonth}
+              {t('slaHistory.byCategory', { month: selectedMonth })}
             </h3>
           </div>
           <div className="h-[400px]">
@@ -396,7 +406,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
                 <Legend />
                 <Bar 
                   dataKey="outsideSLA" 
-                  name="Fora do SLA" 
+                  name={t('sla.outside')} 
                   fill={CHART_COLORS.outsideSLA}
                   radius={[0, 4, 4, 0]}
                 >
@@ -407,7 +417,7 @@ export function SLAHistoryAnalysis({ incidents, onClose, startDate, endDate }: S
                 </Bar>
                 <Bar 
                   dataKey="withinSLA" 
-                  name="Dentro do SLA" 
+                  name={t('sla.within')} 
                   fill={CHART_COLORS.withinSLA}
                   radius={[0, 4, 4, 0]}
                 >
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { X, AlertTriangle, ExternalLink, Timer, FileText } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, format, differenceInHours } from 'date-fns';
+import { parseISO, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { IncidentDetails } from './IncidentDetails';
 import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { getIncidentSLAElapsedHours, getIncidentSLAHours } from '../utils/slaUtils';
 
 interface SLAIncidentsModalProps {
   incidents: Incident[];
@@ -19,13 +20,6 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
-const SLA_THRESHOLDS = {
-  P1: 1,   // 1 hour
-  P2: 4,   // 4 hours
-  P3: 36,  // 36 hours
-  P4: 72   // 72 hours
-};
-
 export function SLAIncidentsModal({ incidents, onClose }: SLAIncidentsModalProps) {
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
 
@@ -41,9 +35,8 @@ export function SLAIncidentsModal({ incidents, onClose }: SLAIncidentsModalProps
     try {
       const opened = parseISO(incident.Opened);
       const lastUpdate = incident.Updated ? parseISO(incident.Updated) : opened;
-      const priority = normalizePriority(incident.Priority);
-      const threshold = SLA_THRESHOLDS[priority as keyof typeof SLA_THRESHOLDS] || 36;
-      const totalHours = differenceInHours(lastUpdate, opened);
+      const threshold = getIncidentSLAHours(incident);
+      const totalHours = getIncidentSLAElapsedHours(incident, opened, lastUpdate);
       
       if (totalHours <= threshold) {
         return 'Dentro do SLA';
@@ -0,0 +1,153 @@
+import { useCallback, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { FileSpreadsheet, AlertCircle, AlertTriangle, PauseCircle, Trash2 } from 'lucide-react';
+import { StateHistoryEntry } from '../types/sla';
+import { ValidationError } from '../types/ingestion';
+import { IMPORT_FILE_ACCEPT, readImportFile } from '../utils/ingestionUtils';
+import {
+  findMissingStateHistoryColumns,
+  isPauseState,
+  loadStateHistory,
+  processStateHistoryRows,
+  saveStateHistory
+} from '../utils/slaPauseUtils';
+import { t } from '../utils/i18nUtils';
+
+interface SLAPauseHistoryImportProps {
+  // Chamado após importar/limpar para que as telas recalculem o SLA
+  onChanged: () => void;
+}
+
+export function SLAPauseHistoryImport({ onChanged }: SLAPauseHistoryImportProps) {
+  const [entries, setEntries] = useState<StateHistoryEntry[]>(() => loadStateHistory());
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const ticketCount = new Set(entries.map(entry => entry.Number.toUpperCase())).size;
+  const pauseCount = entries.filter(entry => isPauseState(entry.State)).length;
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    setError(null);
+    setValidationErrors([]);
+    setIsProcessing(true);
+
+    try {
+      const data = await readImportFile(file);
+      const missing = findMissingStateHistoryColumns(data.headers);
+      if (missing.length > 0) {
+        throw new Error(t('import.error.missingColumns', { columns: missing.join(', ') }));
+      }
+      const result = processStateHistoryRows(data.rows);
+      if (result.items.length === 0) {
+        throw new Error(t('slaPause.noChanges'));
+      }
+      await saveStateHistory(result.items);
+      setValidationErrors(result.errors);
+      setEntries(result.items);
+      onChanged();
+    } catch (err) {
+      console.error('Erro ao importar histórico de estados:', err);
+      setError(err instanceof Error ? err.message : t('import.error.processFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [onChanged]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: IMPORT_FILE_ACCEPT,
+    multiple: false,
+    disabled: isProcessing
+  });
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await saveStateHistory([]);
+      setEntries([]);
+      setValidationErrors([]);
+      onChanged();
+    } catch (err) {
+      console.error('Erro ao limpar histórico de estados:', err);
+      setError(err instanceof Error ? err.message : t('slaPause.clearFailed'));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400">
+        {t('slaPause.intro')}
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+          isDragActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-gray-700 hover:border-gray-500'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <FileSpreadsheet className="h-6 w-6 text-indigo-400 mx-auto mb-1" />
+        <p className="text-white text-sm">
+          {isProcessing
+            ? t('slaPause.processing')
+            : entries.length > 0
+              ? t('slaPause.replace')
+              : t('slaPause.drop')}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          {t('slaPause.columns')}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {validationErrors.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-400">
+                {t('import.occurrences', { count: validationErrors.length })}
+              </h3>
+              <ul className="mt-2 max-h-32 overflow-auto list-disc list-inside text-sm text-yellow-300 space-y-1">
+                {validationErrors.map((validationError, index) => (
+                  <li key={index}>
+                    {t('upload.rowError', { row: validationError.row, reason: validationError.reason })}
+                    {validationError.value && t('upload.rowValue', { value: validationError.value })}
+                    {validationError.severity === 'error' && t('import.rowDiscarded')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="bg-[#1C2333] rounded-lg p-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <PauseCircle className="h-5 w-5 text-yellow-400" />
+            <p className="text-sm text-gray-300">
+              {t('slaPause.summary', { changes: entries.length, tickets: ticketCount, pauses: pauseCount })}
+            </p>
+          </div>
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-2 px-3 py-2 bg-[#151B2B] hover:bg-[#252d3d] text-gray-300 rounded-lg transition-colors text-sm"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('slaPause.clear')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import { Timer, Plus, Save, Trash2, RotateCcw, X, AlertCircle, CalendarDays, PauseCircle } from 'lucide-react';
+import { SLAPolicy, SLAPolicyTarget } from '../types/sla';
+import { BusinessCalendarEditor } from './BusinessCalendarEditor';
+import { SLAPauseHistoryImport } from './SLAPauseHistoryImport';
+import { loadCalendars } from '../utils/calendarUtils';
+import {
+  SLA_PRIORITIES,
+  deleteSLAPolicy,
+  formatSLAHours,
+  isDefaultSLAPolicy,
+  loadSLAPolicies,
+  resetDefaultSLAPolicy,
+  saveSLAPolicy
+} from '../utils/slaUtils';
+import { t } from '../utils/i18nUtils';
+
+type SettingsPanel = 'policies' | 'calendars' | 'pauses';
+
+interface SLAPolicyManagerProps {
+  onClose: () => void;
+  // Chamado após salvar/excluir para que as telas recalculem o SLA
+  onChanged: () => void;
+}
+
+type PolicyDraft = Omit<SLAPolicy, 'id' | 'updatedAt' | 'targets'> & {
+  id?: string;
+  targets: Record<string, string>;
+};
+
+const toDraft = (policy: SLAPolicy): PolicyDraft => ({
+  ...policy,
+  targets: Object.fromEntries(Object.entries(policy.targets).map(([key, hours]) => [key, String(hours)]))
+});
+
+const createDraft = (target: SLAPolicyTarget): PolicyDraft => ({
+  name: '',
+  target,
+  location: '',
+  category: '',
+  catalogItem: '',
+  calendarId: '',
+  targets: {}
+});
+
+const describeScope = (policy: SLAPolicy) => {
+  const parts = [
+    policy.location && t('slaPolicy.scopeLocation', { value: policy.location }),
+    policy.category && t('slaPolicy.scopeCategory', { value: policy.category }),
+    policy.catalogItem && t('slaPolicy.scopeItem', { value: policy.catalogItem })
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : t('slaPolicy.scopeAll');
+};
+
+export function SLAPolicyManager({ onClose, onChanged }: SLAPolicyManagerProps) {
+  const [target, setTarget] = useState<SLAPolicyTarget>('incidents');
+  const [panel, setPanel] = useState<SettingsPanel>('policies');
+  const [policies, setPolicies] = useState<SLAPolicy[]>(() => loadSLAPolicies());
+  const [draft, setDraft] = useState<PolicyDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetPolicies = policies.filter(policy => policy.target === target);
+  const priorities = SLA_PRIORITIES[target];
+
+  const refresh = () => {
+    setPolicies([...loadSLAPolicies()]);
+    onChanged();
+  };
+
+  const handleTargetChange = (value: SLAPolicyTarget) => {
+    setTarget(value);
+    setPanel('policies');
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError(t('slaPolicy.error.name'));
+      return;
+    }
+    const isDefault = !!draft.id && isDefaultSLAPolicy(draft.id);
+    if (!isDefault && !draft.location.trim() && !draft.category.trim() && !draft.catalogItem.trim()) {
+      setError(t('slaPolicy.error.scope'));
+      return;
+    }
+
+    const targets: Record<string, number> = {};
+    for (const priority of priorities) {
+      const raw = (draft.targets[priority.value] ?? '').trim();
+      if (!raw) continue;
+      const hours = Number(raw.replace(',', '.'));
+      if (isNaN(hours) || hours <= 0) {
+        setError(t('slaPolicy.error.target', { priority: t(priority.labelKey) }));
+        return;
+      }
+      targets[priority.value] = hours;
+    }
+    if (isDefault && Object.keys(targets).length < priorities.length) {
+      setError(t('slaPolicy.error.defaultTargets'));
+      return;
+    }
+
+    const saved = saveSLAPolicy({
+      id: draft.id,
+      name: draft.name.trim(),
+      target,
+      location: draft.location.trim(),
+      category: draft.category.trim(),
+      catalogItem: target === 'requests' ? draft.catalogItem.trim() : '',
+      calendarId: draft.calendarId || '',
+      targets
+    });
+    setDraft(toDraft(saved));
+    setError(null);
+    refresh();
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id) return;
+    deleteSLAPolicy(draft.id);
+    setDraft(null);
+    refresh();
+  };
+
+  const handleReset = () => {
+    setDraft(toDraft(resetDefaultSLAPolicy(target)));
+    setError(null);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Timer className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('slaPolicy.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('slaPolicy.subtitle')}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+            >
+              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            </button>
+          </div>
+          <div className="flex gap-2 mt-4">
+            {(['incidents', 'requests'] as SLAPolicyTarget[]).map(value => (
+              <button
+                key={value}
+                onClick={() => handleTargetChange(value)}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  panel === 'policies' && target === value ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+                }`}
+              >
+                {t(value === 'incidents' ? 'slaPolicy.incidents' : 'slaPolicy.requests')}
+              </button>
+            ))}
+            {([
+              ['calendars', 'slaPolicy.calendars', CalendarDays],
+              ['pauses', 'slaPolicy.pauses', PauseCircle]
+            ] as const).map(([value, labelKey, Icon]) => (
+              <button
+                key={value}
+                onClick={() => { setPanel(value); setDraft(null); setError(null); }}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  panel === value ? 'bg-indigo-600 text-white' : 'bg-[#1C2333] text-gray-300 hover:bg-[#252d3d]'
+                }`}
+              >
+                <Icon className="h-4 w-4" />
+                {t(labelKey)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {panel === 'calendars' ? (
+          <div className="flex-1 overflow-y-auto p-6">
+            <BusinessCalendarEditor onChanged={onChanged} />
+          </div>
+        ) : panel === 'pauses' ? (
+          <div className="flex-1 overflow-y-auto p-6">
+            <SLAPauseHistoryImport onChanged={onChanged} />
+          </div>
+        ) : (
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            {targetPolicies.map(policy => (
+              <button
+                key={policy.id}
+                onClick={() => { setDraft(toDraft(policy)); setError(null); }}
+                className={`w-full text-left p-4 rounded-lg transition-colors ${
+                  draft?.id === policy.id ? 'bg-indigo-600/20 border border-indigo-500' : 'bg-[#1C2333] hover:bg-[#252d3d] border border-transparent'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">{policy.name}</span>
+                  {isDefaultSLAPolicy(policy.id) && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{t('slaPolicy.default')}</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{describeScope(policy)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {priorities
+                    .filter(priority => policy.targets[priority.value] !== undefined)
+                    .map(priority => `${t(priority.labelKey)}: ${formatSLAHours(policy.targets[priority.value])}`)
+                    .join(' · ')}
+                </p>
+              </button>
+            ))}
+            <button
+              onClick={() => { setDraft(createDraft(target)); setError(null); }}
+              className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-600 text-gray-300 hover:border-gray-400 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              {t('slaPolicy.new')}
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="bg-[#1C2333] rounded-lg p-4 space-y-4">
+              <label className="block text-sm text-gray-400">
+                {t('slaPolicy.name')}
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+
+              {!(draft.id && isDefaultSLAPolicy(draft.id)) && (
+                <div className="grid grid-cols-1 gap-3">
+                  <label className="block text-sm text-gray-400">
+                    {t('slaPolicy.location')}
+                    <input
+                      type="text"
+                      value={draft.location}
+                      onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+                      className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-400">
+                    {t('slaPolicy.category')}
+                    <input
+                      type="text"
+                      value={draft.category}
+                      onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                      className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                    />
+                  </label>
+                  {target === 'requests' && (
+                    <label className="block text-sm text-gray-400">
+                      {t('slaPolicy.catalogItem')}
+                      <input
+                        type="text"
+                        value={draft.catalogItem}
+                        onChange={(e) => setDraft({ ...draft, catalogItem: e.target.value })}
+                        className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                      />
+                    </label>
+                  )}
+                </div>
+              )}
+
+              <label className="block text-sm text-gray-400">
+                {t('slaPolicy.calendar')}
+                <select
+                  value={draft.calendarId || ''}
+                  onChange={(e) => setDraft({ ...draft, calendarId: e.target.value })}
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                >
+                  <option value="">{t('slaPolicy.locationCalendar')}</option>
+                  {loadCalendars().map(calendar => (
+                    <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                  ))}
+                </select>
+              </label>
+
+              <div>
+                <p className="text-sm text-gray-400 mb-2">
+                  {t('slaPolicy.targets')}
+                  {!(draft.id && isDefaultSLAPolicy(draft.id)) && t('slaPolicy.targetsFallback')}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {priorities.map(priority => (
+                    <label key={priority.value} className="block text-sm text-gray-300">
+                      {t(priority.labelKey)}
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={draft.targets[priority.value] ?? ''}
+                        onChange={(e) =>
+                          setDraft({ ...draft, targets: { ...draft.targets, [priority.value]: e.target.value } })
+                        }
+                        className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-red-400">
+                  <AlertCircle className="h-4 w-4" />
+                  {error}
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                {draft.id && isDefaultSLAPolicy(draft.id) ? (
+                  <button
+                    onClick={handleReset}
+                    className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#252d3d] rounded-lg text-sm transition-colors"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {t('slaPolicy.reset')}
+                  </button>
+                ) : draft.id ? (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    {t('slaPolicy.delete')}
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={handleSave}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+                >
+                  <Save className="h-4 w-4" />
+                  {t('slaPolicy.save')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400">
+              {t('slaPolicy.empty')}
+            </div>
+          )}
+        </div>
+        )}
+      </div>
+    </div>
+  );
+}
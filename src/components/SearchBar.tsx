@@ -1,8 +1,11 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Search, Calendar, Filter, X, AlertCircle, Clock, CheckCircle2, AlertTriangle, ExternalLink } from 'lucide-react';
-import { Request, normalizeRequestPriority, normalizeRequestStatus, REQUEST_PRIORITIES, REQUEST_STATUSES } from '../types/request';
+import { Request, normalizeRequestPriority, normalizeRequestStatus } from '../types/request';
 import { CalendarSelector } from './CalendarSelector';
 import { RequestDetails } from './RequestDetails';
+import { loadLanguage, t } from '../utils/i18nUtils';
+import { getRequestPriorityLabel, getRequestStatusLabel } from '../utils/requestUtils';
+import { getCategoryLabel } from '../utils/categoryUtils';
 
 interface SearchBarProps {
   value: string;
@@ -130,7 +133,7 @@ export function SearchBar({
 
   const formatDate = (dateStr: string) => {
     try {
-      return new Date(dateStr).toLocaleDateString('pt-BR', {
+      return new Date(dateStr).toLocaleDateString(loadLanguage(), {
         day: '2-digit',
         month: '2-digit',
         year: 'numeric',
@@ -138,19 +141,19 @@ export function SearchBar({
         minute: '2-digit'
       });
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
   const formatDateForDisplay = (dateStr: string) => {
     try {
-      return new Date(dateStr).toLocaleDateString('pt-BR', {
+      return new Date(dateStr).toLocaleDateString(loadLanguage(), {
         day: '2-digit',
         month: 'long',
         year: 'numeric'
       });
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -170,7 +173,7 @@ export function SearchBar({
 
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
-      <h2 className="text-lg font-semibold mb-4">Buscar Solicitação</h2>
+      <h2 className="text-lg font-semibold mb-4">{t('search.title')}</h2>
       
       {/* Search and Filters */}
       <div className="flex flex-col md:flex-row gap-4">
@@ -182,7 +185,7 @@ export function SearchBar({
             onChange={handleSearchChange}
             onFocus={() => setSearchFocused(true)}
             onKeyDown={handleKeyDown}
-            placeholder="Buscar por número, descrição, solicitante..."
+            placeholder={t('search.placeholder')}
             className={`
               w-full pl-10 pr-10 py-2 bg-[#0B1120] border rounded-lg text-white 
               placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500
@@ -216,10 +219,10 @@ export function SearchBar({
                     <div className="flex items-center gap-2">
                       <span className="text-white font-medium">{request.Number}</span>
                       <span className="text-sm" style={{ color: CHART_COLORS[normalizeRequestPriority(request.Priority) as keyof typeof CHART_COLORS] }}>
-                        {REQUEST_PRIORITIES[normalizeRequestPriority(request.Priority)]}
+                        {getRequestPriorityLabel(normalizeRequestPriority(request.Priority))}
                       </span>
                       <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(request.State)}`}>
-                        {REQUEST_STATUSES[normalizeRequestStatus(request.State)]}
+                        {getRequestStatusLabel(normalizeRequestStatus(request.State))}
                       </span>
                     </div>
                     <p className="text-sm text-gray-400 mt-1">{request.ShortDescription}</p>
@@ -249,10 +252,10 @@ export function SearchBar({
             onChange={handleCategoryChange}
             className="w-full pl-10 pr-4 py-2 bg-[#0B1120] text-white border border-yellow-400/50 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-400"
           >
-            <option value="">Todas as Categorias</option>
+            <option value="">{t('search.allCategories')}</option>
             {categories.map(category => (
               <option key={category} value={category}>
-                {category}
+                {getCategoryLabel(category)}
               </option>
             ))}
           </select>
@@ -266,11 +269,11 @@ export function SearchBar({
               onChange={handleStatusChange}
               className="w-full pl-10 pr-4 py-2 bg-[#0B1120] text-white border border-blue-400/50 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400"
             >
-              <option value="">Todos os Estados</option>
-              <option value="NEW">Novo</option>
-              <option value="IN_PROGRESS">Em Andamento</option>
-              <option value="COMPLETED">Concluído</option>
-              <option value="CANCELLED">Cancelado</option>
+              <option value="">{t('analysis.status.all')}</option>
+              <option value="NEW">{getRequestStatusLabel('NEW')}</option>
+              <option value="IN_PROGRESS">{getRequestStatusLabel('IN_PROGRESS')}</option>
+              <option value="COMPLETED">{getRequestStatusLabel('COMPLETED')}</option>
+              <option value="CANCELLED">{getRequestStatusLabel('CANCELLED')}</option>
             </select>
           </div>
         )}
@@ -284,12 +287,12 @@ export function SearchBar({
             className="flex items-center gap-2 px-3 py-2 bg-[#0B1120] border border-gray-700 rounded-lg text-white hover:bg-gray-700 transition-colors"
           >
             <Calendar className="h-5 w-5 text-gray-400" />
-            <span>Selecionar Período</span>
+            <span>{t('categoryHistory.selectPeriod')}</span>
           </button>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
             <div>
               <label className="block text-sm text-gray-400 mb-1">
-                Data Inicial
+                {t('categoryHistory.startDate')}
               </label>
               <input
                 type="date"
@@ -303,7 +306,7 @@ export function SearchBar({
             </div>
             <div>
               <label className="block text-sm text-gray-400 mb-1">
-                Data Final
+                {t('categoryHistory.endDate')}
               </label>
               <input
                 type="date"
@@ -341,7 +344,7 @@ export function SearchBar({
           }}
           className="px-3 py-1 bg-[#0B1120] hover:bg-indigo-600/20 text-gray-400 hover:text-white rounded-full text-sm transition-colors"
         >
-          Últimos 30 dias
+          {t('categoryHistory.last30')}
         </button>
         <button
           onClick={() => {
@@ -353,7 +356,7 @@ export function SearchBar({
           }}
           className="px-3 py-1 bg-[#0B1120] hover:bg-indigo-600/20 text-gray-400 hover:text-white rounded-full text-sm transition-colors"
         >
-          Últimos 7 dias
+          {t('dateRange.last7')}
         </button>
         <button
           onClick={() => {
@@ -363,7 +366,7 @@ export function SearchBar({
           }}
           className="px-3 py-1 bg-[#0B1120] hover:bg-indigo-600/20 text-gray-400 hover:text-white rounded-full text-sm transition-colors"
         >
-          Hoje
+          {t('dateRange.today')}
         </button>
       </div>
 
@@ -1,30 +1,57 @@
 import React, { useState } from 'react';
 import { Clock, Save, X, Plus, Trash2, AlertCircle } from 'lucide-react';
-import { SHIFTS, SHIFT_LEVELS } from '../types/analyst';
+import { AnalystShift, SHIFT_LEVELS, ShiftKey } from '../types/analyst';
+import { loadLocationDirectory } from '../utils/locationUtils';
+import {
+  DEFAULT_SHIFT_LOCATION,
+  ShiftTime,
+  deleteLocationShifts,
+  getLocationShifts,
+  getShiftLocations,
+  loadShiftDefinitions,
+  saveLocationShifts
+} from '../utils/shiftUtils';
+import { t } from '../utils/i18nUtils';
 
 interface ShiftConfigurationProps {
   onClose: () => void;
-  onSave: (shifts: typeof SHIFTS) => void;
-}
-
-interface ShiftTime {
-  name: string;
-  startTime: string;
-  endTime: string;
+  // Recebe todas as definições gravadas (padrão e por localidade)
+  onSave: (definitions: AnalystShift[]) => void;
 }
 
 export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps) {
-  const [shifts, setShifts] = useState<Record<string, ShiftTime>>(() => {
-    // Initialize with current shifts
-    return Object.entries(SHIFTS).reduce((acc, [key, value]) => {
-      acc[key] = { ...value };
-      return acc;
-    }, {} as Record<string, ShiftTime>);
-  });
+  const [definitions, setDefinitions] = useState<AnalystShift[]>(() => loadShiftDefinitions());
+  const [location, setLocation] = useState(DEFAULT_SHIFT_LOCATION);
+  const [loadedLocation, setLoadedLocation] = useState(DEFAULT_SHIFT_LOCATION);
+  const [shifts, setShifts] = useState<Record<ShiftKey, ShiftTime>>(() => getLocationShifts());
 
   const [error, setError] = useState<string | null>(null);
 
-  const handleTimeChange = (shiftKey: string, field: 'startTime' | 'endTime', value: string) => {
+  const configuredLocations = getShiftLocations(definitions);
+  const hasOwnShifts = loadedLocation === DEFAULT_SHIFT_LOCATION || configuredLocations.includes(loadedLocation);
+  const locationOptions = Array.from(new Set([
+    ...configuredLocations,
+    ...loadLocationDirectory().map(entry => entry.shortName)
+  ]));
+
+  // Troca de localidade: carrega os turnos dela (ou os herdados do padrão)
+  const handleLocationCommit = () => {
+    const value = location.trim();
+    if (value === loadedLocation) return;
+    setLocation(value);
+    setLoadedLocation(value);
+    setShifts(getLocationShifts(value, definitions));
+    setError(null);
+  };
+
+  const handleRemoveLocation = () => {
+    const next = deleteLocationShifts(loadedLocation);
+    setDefinitions(next);
+    setShifts(getLocationShifts(loadedLocation, next));
+    onSave(next);
+  };
+
+  const handleTimeChange = (shiftKey: ShiftKey, field: 'startTime' | 'endTime', value: string) => {
     setShifts(prev => ({
       ...prev,
       [shiftKey]: {
@@ -53,7 +80,7 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
       for (let i = startSlot; i < endSlot; i++) {
         const slot = i % (24 * 60);
         if (timeSlots[slot]) {
-          setError('Os turnos não podem se sobrepor');
+          setError(t('shift.error.overlap'));
           return false;
         }
         timeSlots[slot] = true;
@@ -62,7 +89,7 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
 
     // Check if all minutes are covered
     if (!timeSlots.every(slot => slot)) {
-      setError('Os turnos devem cobrir todas as 24 horas do dia');
+      setError(t('shift.error.coverage'));
       return false;
     }
 
@@ -74,7 +101,7 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
       return;
     }
 
-    onSave(shifts as typeof SHIFTS);
+    onSave(saveLocationShifts(loadedLocation, shifts));
     onClose();
   };
 
@@ -86,7 +113,7 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
             <div className="flex items-center gap-3">
               <Clock className="h-6 w-6 text-indigo-400" />
               <h2 className="text-xl font-semibold text-white">
-                Configuração de Turnos
+                {t('shift.title')}
               </h2>
             </div>
             <button
@@ -99,18 +126,57 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
         </div>
 
         <div className="p-6 space-y-6">
+          <div className="bg-[#1C2333] p-4 rounded-lg space-y-2">
+            <label className="block text-sm text-gray-400">
+              {t('shift.location')}
+              <input
+                type="text"
+                list="shift-locations"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                onBlur={handleLocationCommit}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleLocationCommit(); }}
+                placeholder={t('shift.defaultPlaceholder')}
+                className="mt-1 w-full px-3 py-2 bg-[#151B2B] border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <datalist id="shift-locations">
+                {locationOptions.map(option => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+            </label>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">
+                {loadedLocation === DEFAULT_SHIFT_LOCATION
+                  ? t('shift.defaultShifts')
+                  : hasOwnShifts
+                    ? t('shift.ownShifts', { location: loadedLocation })
+                    : t('shift.inheritsDefault', { location: loadedLocation })}
+              </span>
+              {hasOwnShifts && (
+                <button
+                  onClick={handleRemoveLocation}
+                  className="flex items-center gap-1 text-red-400 hover:text-red-300 transition-colors"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  {loadedLocation === DEFAULT_SHIFT_LOCATION ? t('shift.restore') : t('shift.remove')}
+                </button>
+              )}
+            </div>
+          </div>
+
           {error && (
             <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
               <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
               <div>
-                <h4 className="text-red-500 font-medium">Erro na Configuração</h4>
+                <h4 className="text-red-500 font-medium">{t('shift.errorTitle')}</h4>
                 <p className="text-red-400 mt-1">{error}</p>
               </div>
             </div>
           )}
 
           <div className="space-y-4">
-            {Object.entries(shifts).map(([key, shift]) => (
+            {(Object.entries(shifts) as [ShiftKey, ShiftTime][]).map(([key, shift]) => (
               <div 
                 key={key}
                 className="bg-[#1C2333] p-4 rounded-lg space-y-4"
@@ -122,7 +188,7 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm text-gray-400 mb-1">
-                      Início do Turno
+                      {t('shift.start')}
                     </label>
                     <input
                       type="time"
@@ -133,7 +199,7 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
                   </div>
                   <div>
                     <label className="block text-sm text-gray-400 mb-1">
-                      Fim do Turno
+                      {t('shift.end')}
                     </label>
                     <input
                       type="time"
@@ -153,14 +219,14 @@ export function ShiftConfiguration({ onClose, onSave }: ShiftConfigurationProps)
             onClick={onClose}
             className="px-4 py-2 text-gray-400 hover:text-white transition-colors"
           >
-            Cancelar
+            {t('shift.cancel')}
           </button>
           <button
             onClick={handleSave}
             className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
           >
             <Save className="h-4 w-4" />
-            Salvar Alterações
+            {t('shift.save')}
           </button>
         </div>
       </div>
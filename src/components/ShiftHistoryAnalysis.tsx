@@ -22,12 +22,14 @@ import {
   Lightbulb
 } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { SHIFTS, SHIFT_LEVELS, SHIFT_SCHEDULES } from '../types/analyst';
-import { getShiftFromTime, getShiftName } from '../utils/shiftUtils';
+import { AnalystLevel, AnalystShift, SHIFT_LEVELS, SHIFT_SCHEDULES } from '../types/analyst';
+import { getLocationShifts, getShiftFromTime, getShiftLevelLabel, getShiftLocations, getShiftName, loadShiftDefinitions } from '../utils/shiftUtils';
+import { normalizeLocationName } from '../utils/locationUtils';
+import { getRequiredLevel } from '../utils/rosterUtils';
 import { parseISO, format, isWithinInterval, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
 import { normalizePriority } from '../utils/incidentUtils';
 import { ShiftConfiguration } from './ShiftConfiguration';
+import { getDateLocale, t } from '../utils/i18nUtils';
 
 interface ShiftHistoryAnalysisProps {
   incidents: Incident[];
@@ -50,23 +52,18 @@ const SHIFT_COLORS = {
 
 const PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
 
-const determineIncidentLevel = (incident: Incident): string => {
-  const group = incident.AssignmentGroup?.toLowerCase() || '';
-  
-  if (group.includes('local support')) {
-    return SHIFT_LEVELS.N1;
-  }
-  if (group.includes('network') || group.includes('server') || group.includes('infrastructure')) {
-    return SHIFT_LEVELS.N2;
-  }
-  return SHIFT_LEVELS.N3;
-};
+// 'Não definido' é a chave das prioridades não reconhecidas; só o rótulo exibido é traduzido
+const getPriorityLabel = (priority: string) =>
+  priority === 'Não definido' ? t('analysis.priority.undefined') : priority;
 
 export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysisProps) {
   const [expandedShifts, setExpandedShifts] = useState<string[]>([]);
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
   const [showShiftConfig, setShowShiftConfig] = useState(false);
-  const [currentShifts, setCurrentShifts] = useState(SHIFTS);
+  const [shiftDefinitions, setShiftDefinitions] = useState<AnalystShift[]>(() => loadShiftDefinitions());
+  // Horários padrão exibidos nos cards; cada chamado usa os turnos da sua localidade
+  const currentShifts = useMemo(() => getLocationShifts(undefined, shiftDefinitions), [shiftDefinitions]);
+  const hasLocationShifts = getShiftLocations(shiftDefinitions).length > 0;
 
   const toggleShift = (shift: string) => {
     setExpandedShifts(prev => 
@@ -76,8 +73,8 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
     );
   };
 
-  const handleSaveShifts = (newShifts: typeof SHIFTS) => {
-    setCurrentShifts(newShifts);
+  const handleSaveShifts = (definitions: AnalystShift[]) => {
+    setShiftDefinitions(definitions);
   };
 
   const shiftData = useMemo(() => {
@@ -94,7 +91,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
         P3: 0,
         P4: 0,
         'Não definido': 0,
-        byLevel: Object.values(SHIFT_LEVELS).reduce((levels, level) => {
+        byLevel: (Object.keys(SHIFT_LEVELS) as AnalystLevel[]).reduce((levels, level) => {
           levels[level] = {
             total: 0,
             P1: 0,
@@ -112,9 +109,9 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
     // Process incidents
     incidents.forEach(incident => {
       try {
-        const shift = getShiftFromTime(incident.Opened);
+        const shift = getShiftFromTime(incident.Opened, normalizeLocationName(incident.AssignmentGroup), shiftDefinitions);
         const priority = normalizePriority(incident.Priority);
-        const level = determineIncidentLevel(incident);
+        const level = getRequiredLevel(incident);
 
         // Update total counts
         data[shift].total++;
@@ -130,7 +127,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
     });
 
     return Object.values(data);
-  }, [incidents, currentShifts]);
+  }, [incidents, currentShifts, shiftDefinitions]);
 
   const monthlyData = useMemo(() => {
     try {
@@ -166,7 +163,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
 
         monthIncidents.forEach(incident => {
           try {
-            const shift = getShiftFromTime(incident.Opened);
+            const shift = getShiftFromTime(incident.Opened, normalizeLocationName(incident.AssignmentGroup), shiftDefinitions);
             const priority = normalizePriority(incident.Priority);
             shiftCounts[shift].total++;
             shiftCounts[shift][priority]++;
@@ -176,7 +173,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
         });
 
         return {
-          month: format(month, 'MMM/yy', { locale: ptBR }),
+          month: format(month, 'MMM/yy', { locale: getDateLocale() }),
           ...Object.entries(shiftCounts).reduce((acc, [shift, counts]) => ({
             ...acc,
             [`${shift}_total`]: counts.total,
@@ -191,7 +188,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
       console.error("Error generating monthly data:", error);
       return [];
     }
-  }, [incidents, currentShifts]);
+  }, [incidents, currentShifts, shiftDefinitions]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (!active || !payload || !payload.length) return null;
@@ -208,7 +205,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
           ))}
           <div className="pt-2 mt-2 border-t border-gray-700">
             <div className="flex items-center justify-between">
-              <span className="text-gray-400">Total</span>
+              <span className="text-gray-400">{t('categoryHistory.tooltipTotal')}</span>
               <span className="text-white font-bold">
                 {payload.reduce((sum: number, entry: any) => sum + entry.value, 0)}
               </span>
@@ -223,9 +220,9 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-xl font-semibold text-white">Análise por Turno</h2>
+          <h2 className="text-xl font-semibold text-white">{t('shiftHistory.title')}</h2>
           <p className="text-gray-400 mt-1">
-            Distribuição de chamados por período: Manhã (06:00h às 14:00h) • Tarde (14:00h às 22:00h) • Noite (22:00h às 06:00h)
+            {t('shiftHistory.subtitle')}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -234,7 +231,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
             className="flex items-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
           >
             <Settings className="h-4 w-4" />
-            <span>Configurar Turnos</span>
+            <span>{t('shiftHistory.configure')}</span>
           </button>
           {onClose && (
             <button
@@ -259,7 +256,9 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
                 <Clock className="h-5 w-5" style={{ color: SHIFT_COLORS[shift.key as keyof typeof SHIFT_COLORS] }} />
                 <div>
                   <h3 className="text-lg font-medium text-white">{shift.name}</h3>
-                  <p className="text-sm text-gray-400">{shift.startTime}h às {shift.endTime}h</p>
+                  <p className="text-sm text-gray-400">
+                    {t('shiftHistory.timeRange', { start: shift.startTime, end: shift.endTime })}{hasLocationShifts && t('shiftHistory.variesByLocation')}
+                  </p>
                 </div>
               </div>
               <button
@@ -277,7 +276,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <span className="text-2xl font-bold text-white">{shift.total}</span>
-                <span className="text-sm text-gray-400">chamados</span>
+                <span className="text-sm text-gray-400">{t('shiftHistory.tickets')}</span>
               </div>
 
               <div className="grid grid-cols-4 gap-2">
@@ -287,7 +286,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
                     className="text-center p-2 rounded-lg bg-[#151B2B]"
                   >
                     <p className="text-sm" style={{ color: CHART_COLORS[priority as keyof typeof CHART_COLORS] }}>
-                      {priority}
+                      {getPriorityLabel(priority)}
                     </p>
                     <p className="text-white font-medium">{shift[priority]}</p>
                   </div>
@@ -298,11 +297,11 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
                 <div className="pt-4 space-y-4">
                   {/* Categorias Comuns Section */}
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-yellow-300 font-medium mb-3">Categorias Comuns</h4>
+                    <h4 className="text-yellow-300 font-medium mb-3">{t('shiftHistory.commonCategories')}</h4>
                     <div className="space-y-2">
                       {Object.entries(shift.byLevel).map(([level, counts]: [string, any]) => (
                         <div key={level} className="text-yellow-200">
-                          • {level}
+                          • {getShiftLevelLabel(level as AnalystLevel)}
                         </div>
                       ))}
                     </div>
@@ -310,13 +309,13 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
 
                   {/* Padrões Identificados Section */}
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-yellow-300 font-medium mb-3">Padrões Identificados</h4>
+                    <h4 className="text-yellow-300 font-medium mb-3">{t('shiftHistory.patterns')}</h4>
                     <div className="space-y-2">
                       {Object.entries(shift.byLevel).map(([level, counts]: [string, any]) => (
                         <div key={level} className="bg-[#1C2333] p-3 rounded-lg">
                           <div className="flex items-center justify-between mb-2">
-                            <span className="text-sm text-yellow-200">{level}</span>
-                            <span className="text-sm text-gray-400">{counts.total} chamados</span>
+                            <span className="text-sm text-yellow-200">{getShiftLevelLabel(level as AnalystLevel)}</span>
+                            <span className="text-sm text-gray-400">{t('analysis.tickets', { count: counts.total })}</span>
                           </div>
                           <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
                             {PRIORITIES.map(priority => {
@@ -340,11 +339,11 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
 
                   {/* Recomendações Section */}
                   <div className="bg-[#151B2B] p-4 rounded-lg">
-                    <h4 className="text-yellow-300 font-medium mb-3">Recomendações</h4>
+                    <h4 className="text-yellow-300 font-medium mb-3">{t('shiftHistory.recommendations')}</h4>
                     <div className="space-y-2 text-yellow-200">
-                      <div>• Otimização do processo de atendimento</div>
-                      <div>• Treinamento específico para demandas do turno</div>
-                      <div>• Revisão da distribuição de recursos</div>
+                      <div>{t('shiftHistory.recommendation1')}</div>
+                      <div>{t('shiftHistory.recommendation2')}</div>
+                      <div>{t('shiftHistory.recommendation3')}</div>
                     </div>
                   </div>
                 </div>
@@ -355,7 +354,7 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
       </div>
 
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição Mensal por Turno</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('shiftHistory.monthly')}</h3>
         <div className="h-[400px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
@@ -392,19 +391,19 @@ export function ShiftHistoryAnalysis({ incidents, onClose }: ShiftHistoryAnalysi
 
       {/* Cross-Shift Patterns Section */}
       <div className="bg-[#1C2333] p-4 rounded-lg space-y-4">
-        <h3 className="text-lg font-medium text-white mb-4">Padrões Entre Turnos</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('shiftHistory.crossShift')}</h3>
         <div className="bg-[#151B2B] p-4 rounded-lg">
           <p className="text-yellow-200">
-            • Solicitações de suporte local são um problema constante em todos os turnos
+            {t('shiftHistory.crossShiftPattern')}
           </p>
         </div>
 
         <div className="bg-[#151B2B] p-4 rounded-lg">
-          <h4 className="text-yellow-300 font-medium mb-3">Recomendações Gerais</h4>
+          <h4 className="text-yellow-300 font-medium mb-3">{t('shiftHistory.generalRecommendations')}</h4>
           <div className="space-y-2 text-yellow-200">
-            <p>• Capacitação contínua dos times de suporte técnico para melhor atendimento</p>
-            <p>• Implementação de processos de documentação padronizados</p>
-            <p>• Revisão periódica dos procedimentos de escalação</p>
+            <p>{t('shiftHistory.generalRecommendation1')}</p>
+            <p>{t('shiftHistory.generalRecommendation2')}</p>
+            <p>{t('shiftHistory.generalRecommendation3')}</p>
           </div>
         </div>
       </div>
@@ -13,11 +13,15 @@ import {
   Cell,
   Sector
 } from 'recharts';
-import { X, AlertTriangle, ExternalLink } from 'lucide-react';
+import { X, AlertTriangle, ExternalLink, Boxes } from 'lucide-react';
 import { Incident } from '../types/incident';
-import { parseISO, isWithinInterval, format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO, isWithinInterval } from 'date-fns';
 import { IncidentDetails } from './IncidentDetails';
+import { AssetTaxonomyManager } from './AssetTaxonomyManager';
+import { AssetClassTaxonomy } from '../types/taxonomy';
+import { loadAssetTaxonomy, matchesAssetClass } from '../utils/taxonomyUtils';
+import { normalizePriority, isHighPriority } from '../utils/incidentUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
 
 interface SoftwareAnalysisProps {
   incidents: Incident[];
@@ -40,38 +44,6 @@ const CHART_COLORS = {
   'Não definido': '#6B7280'
 };
 
-const SOFTWARE_KEYWORDS = [
-  'software',
-  'programa',
-  'aplicativo',
-  'sistema',
-  'app',
-  'aplicação',
-  'erp',
-  'sap',
-  'oracle',
-  'windows',
-  'office',
-  'excel',
-  'word',
-  'outlook',
-  'teams',
-  'browser',
-  'navegador',
-  'chrome',
-  'firefox',
-  'edge',
-  'internet explorer',
-  'ie',
-  'email',
-  'e-mail',
-  'correio',
-  'banco de dados',
-  'database',
-  'sistema operacional',
-  'os'
-];
-
 const isIncidentClosed = (state: string): boolean => {
   if (!state) return false;
   const normalizedState = state.toLowerCase().trim();
@@ -83,9 +55,9 @@ function IncidentModal({ incidents, system, onClose }: IncidentModalProps) {
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr));
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -102,10 +74,10 @@ function IncidentModal({ incidents, system, onClose }: IncidentModalProps) {
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados Críticos - {system}
+              {t('analysis.criticalTicketsTitle', { name: system })}
             </h2>
             <p className="text-gray-400 mt-1">
-              {incidents.length} chamados encontrados
+              {t('analysis.ticketsFound', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -120,12 +92,12 @@ function IncidentModal({ incidents, system, onClose }: IncidentModalProps) {
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Solicitante</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Prioridade</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.caller')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.priority')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -194,10 +166,10 @@ const renderActiveShape = (props: any) => {
         {payload.name}
       </text>
       <text x={cx} y={cy + 10} dy={8} textAnchor="middle" fill="#fff" className="text-sm">
-        {value} incidentes críticos
+        {t('analysis.criticalIncidents', { count: value })}
       </text>
       <text x={cx} y={cy + 30} dy={8} textAnchor="middle" fill="#fff" className="text-xs">
-        {`${(percent * 100).toFixed(1)}% do total`}
+        {t('analysis.percentOfTotal', { percent: formatDecimal(percent * 100) })}
       </text>
       <Sector
         cx={cx}
@@ -224,19 +196,13 @@ const renderActiveShape = (props: any) => {
 export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: SoftwareAnalysisProps) {
   const [activeIndex, setActiveIndex] = useState(0);
   const [selectedIncidents, setSelectedIncidents] = useState<Incident[] | null>(null);
+  const [taxonomy, setTaxonomy] = useState<AssetClassTaxonomy[]>(() => loadAssetTaxonomy());
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
   const [selectedSystem, setSelectedSystem] = useState<string>('');
 
   const softwareData = useMemo(() => {
     const filteredIncidents = incidents.filter(incident => {
-      const isSoftware = SOFTWARE_KEYWORDS.some(keyword => {
-        const category = (incident.Category || '').toLowerCase();
-        const subcategory = (incident.Subcategory || '').toLowerCase();
-        const description = (incident.ShortDescription || '').toLowerCase();
-        
-        return category.includes(keyword) || 
-               subcategory.includes(keyword) || 
-               description.includes(keyword);
-      });
+      const isSoftware = matchesAssetClass(incident, 'software', taxonomy);
 
       if (!isSoftware) return false;
 
@@ -253,7 +219,7 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
     });
 
     const groupedData = filteredIncidents.reduce((acc, incident) => {
-      const key = incident.Subcategory || incident.Category || 'Não especificado';
+      const key = incident.Subcategory || incident.Category || t('analysis.notSpecified');
       
       if (!acc[key]) {
         acc[key] = {
@@ -262,26 +228,17 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
           P2: 0,
           P3: 0,
           P4: 0,
-          undefined: 0,
+          'Não definido': 0,
           openCritical: 0
         };
       }
 
       acc[key].total++;
 
-      const priority = (() => {
-        if (!incident.Priority) return 'undefined';
-        const p = incident.Priority.toLowerCase().trim();
-        if (p.includes('p1') || p.includes('1') || p.includes('critical')) return 'P1';
-        if (p.includes('p2') || p.includes('2') || p.includes('high')) return 'P2';
-        if (p.includes('p3') || p.includes('3') || p.includes('medium')) return 'P3';
-        if (p.includes('p4') || p.includes('4') || p.includes('low')) return 'P4';
-        return 'undefined';
-      })();
-
+      const priority = normalizePriority(incident.Priority);
       acc[key][priority]++;
 
-      if ((priority === 'P1' || priority === 'P2') && !isIncidentClosed(incident.State)) {
+      if (isHighPriority(priority) && !isIncidentClosed(incident.State)) {
         acc[key].openCritical++;
       }
       
@@ -292,7 +249,7 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
       P2: number; 
       P3: number; 
       P4: number; 
-      undefined: number;
+      'Não definido': number;
       openCritical: number;
     }>);
 
@@ -302,7 +259,7 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
         ...data
       }))
       .sort((a, b) => b.total - a.total);
-  }, [incidents, startDate, endDate]);
+  }, [incidents, startDate, endDate, taxonomy]);
 
   const impactAnalysis = useMemo(() => {
     return softwareData
@@ -327,20 +284,10 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
         incident.Category === systemName || 
         incident.Subcategory === systemName ||
         (incident.ShortDescription?.toLowerCase().includes(systemName.toLowerCase()) &&
-         SOFTWARE_KEYWORDS.some(keyword => 
-           incident.ShortDescription?.toLowerCase().includes(keyword)
-         ))
+         matchesAssetClass(incident, 'software', taxonomy))
       );
       
-      const priority = (() => {
-        if (!incident.Priority) return 'undefined';
-        const p = incident.Priority.toLowerCase().trim();
-        if (p.includes('p1') || p.includes('1') || p.includes('critical')) return 'P1';
-        if (p.includes('p2') || p.includes('2') || p.includes('high')) return 'P2';
-        return null;
-      })();
-
-      return matchesSystem && (priority === 'P1' || priority === 'P2');
+      return matchesSystem && isHighPriority(incident.Priority);
     });
 
     if (criticalIncidents.length > 0) {
@@ -349,23 +296,42 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
     }
   };
 
+  const taxonomyManager = showTaxonomy && (
+    <AssetTaxonomyManager
+      incidents={incidents}
+      initialClass="software"
+      onClose={() => setShowTaxonomy(false)}
+      onSaved={setTaxonomy}
+    />
+  );
+
   if (softwareData.length === 0) {
     return (
       <div className="bg-[#151B2B] p-6 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-white">Análise de Sistemas e Programas</h2>
-          {onClose && (
+          <h2 className="text-xl font-semibold text-white">{t('softwareAnalysis.title')}</h2>
+          <div className="flex items-center gap-2">
             <button
-              onClick={onClose}
-              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              onClick={() => setShowTaxonomy(true)}
+              className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
             >
-              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              <Boxes className="h-4 w-4" />
+              {t('analysis.taxonomy')}
             </button>
-          )}
+            {onClose && (
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            )}
+          </div>
         </div>
         <div className="text-center py-8">
-          <p className="text-gray-400">Nenhum incidente de software encontrado no período selecionado.</p>
+          <p className="text-gray-400">{t('softwareAnalysis.empty')}</p>
         </div>
+        {taxonomyManager}
       </div>
     );
   }
@@ -373,21 +339,30 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise de Sistemas e Programas</h2>
-        {onClose && (
+        <h2 className="text-xl font-semibold text-white">{t('softwareAnalysis.title')}</h2>
+        <div className="flex items-center gap-2">
           <button
-            onClick={onClose}
-            className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-            aria-label="Fechar análise"
+            onClick={() => setShowTaxonomy(true)}
+            className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
           >
-            <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            <Boxes className="h-4 w-4" />
+            {t('analysis.taxonomy')}
           </button>
-        )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              aria-label={t('analysis.close')}
+            >
+              <X className="h-5 w-5 text-gray-400 hover:text-white" />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-[#1C2333] p-4 rounded-lg">
-          <h3 className="text-lg font-medium text-white mb-4">Distribuição por Sistema</h3>
+          <h3 className="text-lg font-medium text-white mb-4">{t('softwareAnalysis.distribution')}</h3>
           <div className="h-[400px]">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart
@@ -429,11 +404,11 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
                   }}
                 />
                 <Legend />
-                <Bar dataKey="P1" name="Crítico" fill={CHART_COLORS.P1} stackId="stack" />
-                <Bar dataKey="P2" name="Alto" fill={CHART_COLORS.P2} stackId="stack" />
-                <Bar dataKey="P3" name="Médio" fill={CHART_COLORS.P3} stackId="stack" />
-                <Bar dataKey="P4" name="Baixo" fill={CHART_COLORS.P4} stackId="stack" />
-                <Bar dataKey="undefined" name="Não definido" fill={CHART_COLORS.undefined} stackId="stack" />
+                <Bar dataKey="P1" name={t('analysis.priority.critical')} fill={CHART_COLORS.P1} stackId="stack" />
+                <Bar dataKey="P2" name={t('analysis.priority.high')} fill={CHART_COLORS.P2} stackId="stack" />
+                <Bar dataKey="P3" name={t('analysis.priority.medium')} fill={CHART_COLORS.P3} stackId="stack" />
+                <Bar dataKey="P4" name={t('analysis.priority.low')} fill={CHART_COLORS.P4} stackId="stack" />
+                <Bar dataKey="Não definido" name={t('analysis.priority.undefined')} fill={CHART_COLORS['Não definido']} stackId="stack" />
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -441,8 +416,8 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
 
         <div className="bg-[#1C2333] p-4 rounded-lg">
           <h3 className="text-lg font-medium text-white mb-4">
-            Sistemas Mais Críticos
-            <span className="text-sm text-gray-400 ml-2">(Baseado em P1 + P2)</span>
+            {t('analysis.mostCritical')}
+            <span className="text-sm text-gray-400 ml-2">{t('analysis.basedOnP1P2')}</span>
           </h3>
           <div className="h-[500px]">
             <ResponsiveContainer width="100%" height="100%">
@@ -497,14 +472,14 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
                         </p>
                         <div className="space-y-2 text-base">
                           <p className="text-white">
-                            {data.value} incidentes críticos
+                            {t('analysis.criticalIncidents', { count: data.value })}
                           </p>
                           <p className="text-gray-400">
-                            {((data.value / data.total) * 100).toFixed(1)}% do total
+                            {t('analysis.percentOfTotal', { percent: formatDecimal((data.value / data.total) * 100) })}
                           </p>
                           {data.openCritical > 0 && (
                             <p className="text-yellow-300 font-medium">
-                              {data.openCritical} incidentes em aberto
+                              {t('analysis.openIncidents', { count: data.openCritical })}
                             </p>
                           )}
                         </div>
@@ -522,7 +497,7 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
             <div className="flex items-start gap-3">
               <AlertTriangle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
               <div>
-                <h4 className="text-red-500 font-medium">Sistemas que Requerem Atenção</h4>
+                <h4 className="text-red-500 font-medium">{t('softwareAnalysis.attention')}</h4>
                 <div className="mt-2 space-y-1">
                   {impactAnalysis.map(system => (
                     <p key={system.name} className="text-sm">
@@ -535,14 +510,14 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
                         {system.name}
                       </button>
                       <span className="text-red-400 mx-1">•</span>
-                      <span>{system.value} incidentes críticos</span>
+                      <span>{t('analysis.criticalIncidents', { count: system.value })}</span>
                       {system.openCritical > 0 && (
                         <span className="text-yellow-300 ml-2">
-                          ({system.openCritical} em aberto)
+                          {t('analysis.openParen', { count: system.openCritical })}
                         </span>
                       )}
                       <span className="text-gray-400 ml-1">
-                        ({((system.value / system.total) * 100).toFixed(1)}% do total)
+                        ({t('analysis.percentOfTotal', { percent: formatDecimal((system.value / system.total) * 100) })})
                       </span>
                     </p>
                   ))}
@@ -563,6 +538,8 @@ export function SoftwareAnalysis({ incidents, onClose, startDate, endDate }: Sof
           }}
         />
       )}
+
+      {taxonomyManager}
     </div>
   );
 }
\ No newline at end of file
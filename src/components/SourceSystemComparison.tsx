@@ -0,0 +1,125 @@
+import { useMemo } from 'react';
+import { Incident } from '../types/incident';
+import { Request, isRequestActive } from '../types/request';
+import { normalizePriority, isActiveIncident, isCancelled, isHighPriority } from '../utils/incidentUtils';
+import { formatDecimal, formatNumber, t } from '../utils/i18nUtils';
+
+interface SourceSystemComparisonProps {
+  incidents: Incident[];
+  requests: Request[];
+}
+
+interface SourceSystemStats {
+  source: string;
+  incidents: number;
+  activeIncidents: number;
+  highPriority: number;
+  averageResolutionHours: number | null;
+  requests: number;
+  activeRequests: number;
+}
+
+// Registros importados sem adaptador vêm do ServiceNow
+const DEFAULT_SOURCE = 'ServiceNow';
+
+const getSource = (sourceSystem?: string) => sourceSystem || DEFAULT_SOURCE;
+
+export function SourceSystemComparison({ incidents, requests }: SourceSystemComparisonProps) {
+  const stats = useMemo(() => {
+    const bySource = new Map<string, SourceSystemStats & { resolutionTotal: number; resolvedCount: number }>();
+    const getEntry = (source: string) => {
+      let entry = bySource.get(source);
+      if (!entry) {
+        entry = {
+          source,
+          incidents: 0,
+          activeIncidents: 0,
+          highPriority: 0,
+          averageResolutionHours: null,
+          requests: 0,
+          activeRequests: 0,
+          resolutionTotal: 0,
+          resolvedCount: 0
+        };
+        bySource.set(source, entry);
+      }
+      return entry;
+    };
+
+    incidents.forEach(incident => {
+      const entry = getEntry(getSource(incident.SourceSystem));
+      entry.incidents++;
+      if (isActiveIncident(incident.State) && !isCancelled(incident.State)) entry.activeIncidents++;
+      const priority = normalizePriority(incident.Priority);
+      if (isHighPriority(priority)) entry.highPriority++;
+      if (incident.Closed) {
+        const hours = (new Date(incident.Closed).getTime() - new Date(incident.Opened).getTime()) / 3600000;
+        if (!isNaN(hours) && hours >= 0) {
+          entry.resolutionTotal += hours;
+          entry.resolvedCount++;
+        }
+      }
+    });
+
+    requests.forEach(request => {
+      const entry = getEntry(getSource(request.SourceSystem));
+      entry.requests++;
+      if (isRequestActive(request.State)) entry.activeRequests++;
+    });
+
+    return Array.from(bySource.values())
+      .map(({ resolutionTotal, resolvedCount, ...entry }) => ({
+        ...entry,
+        averageResolutionHours: resolvedCount > 0 ? resolutionTotal / resolvedCount : null
+      }))
+      .sort((a, b) => (b.incidents + b.requests) - (a.incidents + a.requests));
+  }, [incidents, requests]);
+
+  if (stats.length <= 1) {
+    return (
+      <p className="px-4 pb-4 text-sm text-gray-400">
+        {t('sourceSystem.single', { source: stats[0]?.source ?? DEFAULT_SOURCE })}
+      </p>
+    );
+  }
+
+  return (
+    <div className="px-4 pb-4 overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-[#1C2333]">
+          <tr>
+            <th className="px-3 py-2 text-left text-gray-400 font-medium">{t('sourceSystem.source')}</th>
+            <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('sourceSystem.incidents')}</th>
+            <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('sourceSystem.active')}</th>
+            <th className="px-3 py-2 text-right text-gray-400 font-medium">P1/P2</th>
+            <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('sourceSystem.averageResolution')}</th>
+            <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('sourceSystem.requests')}</th>
+            <th className="px-3 py-2 text-right text-gray-400 font-medium">{t('sourceSystem.activeRequests')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map(item => (
+            <tr key={item.source} className="border-t border-gray-800">
+              <td className="px-3 py-2 text-white font-medium">{item.source}</td>
+              <td className="px-3 py-2 text-right text-gray-300">{item.incidents}</td>
+              <td className="px-3 py-2 text-right text-gray-300">{item.activeIncidents}</td>
+              <td className="px-3 py-2 text-right text-gray-300">
+                {item.highPriority}
+                {item.incidents > 0 && (
+                  <span className="text-gray-500"> ({formatNumber((item.highPriority / item.incidents) * 100, { maximumFractionDigits: 0 })}%)</span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-300">
+                {item.averageResolutionHours !== null
+                  ? t('sourceSystem.hours', { value: formatDecimal(item.averageResolutionHours) })
+                  : '—'}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-300">{item.requests}</td>
+              <td className="px-3 py-2 text-right text-gray-300">{item.activeRequests}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
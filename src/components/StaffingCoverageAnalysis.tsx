@@ -0,0 +1,321 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { parseISO } from 'date-fns';
+import { X, FileSpreadsheet, AlertCircle, AlertTriangle, Users, Trash2, ShieldAlert, Timer, Grid3x3 } from 'lucide-react';
+import { Incident } from '../types/incident';
+import { ValidationError } from '../types/ingestion';
+import { Analyst, AnalystLevel, SHIFT_LEVELS } from '../types/analyst';
+import { IMPORT_FILE_ACCEPT, readImportFile } from '../utils/ingestionUtils';
+import { formatDecimal, formatLocalizedDate, t } from '../utils/i18nUtils';
+import { getShiftLevelLabel } from '../utils/shiftUtils';
+import {
+  buildStaffingAnalysis,
+  findMissingRosterColumns,
+  loadRoster,
+  processRosterRows,
+  saveRoster
+} from '../utils/rosterUtils';
+
+interface StaffingCoverageAnalysisProps {
+  incidents: Incident[];
+  onClose?: () => void;
+}
+
+// Quantidade de chamados descobertos listados; o total aparece no cabeçalho
+const UNCOVERED_LIST_LIMIT = 50;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Sem analista em hora com chamados fica em vermelho; demais tons pela média em escala
+const getCellClass = (analysts: number, incidents: number): string => {
+  if (analysts < 0.5) return incidents > 0 ? 'bg-red-500/60 text-white' : 'bg-[#1C2333] text-gray-600';
+  if (analysts < 1.5) return 'bg-indigo-500/20 text-indigo-200';
+  if (analysts < 3) return 'bg-indigo-500/40 text-white';
+  return 'bg-indigo-500/70 text-white';
+};
+
+export function StaffingCoverageAnalysis({ incidents, onClose }: StaffingCoverageAnalysisProps) {
+  const [roster, setRoster] = useState<Analyst[]>(() => loadRoster());
+  const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const analysis = useMemo(() => buildStaffingAnalysis(incidents, roster), [incidents, roster]);
+
+  const assignedTickets = analysis.workload.reduce((sum, item) => sum + item.tickets, 0);
+  const totalShiftHours = analysis.workload.reduce((sum, item) => sum + item.shiftHours, 0);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+    setError(null);
+    setValidationErrors([]);
+    setIsProcessing(true);
+
+    try {
+      const data = await readImportFile(file);
+      const missing = findMissingRosterColumns(data.headers);
+      if (missing.length > 0) {
+        throw new Error(t('import.error.missingColumns', { columns: missing.join(', ') }));
+      }
+      const result = processRosterRows(data.rows);
+      if (result.items.length === 0) {
+        throw new Error(t('staffing.error.noAnalysts'));
+      }
+      setValidationErrors(result.errors);
+      saveRoster(result.items);
+      setRoster(result.items);
+    } catch (err) {
+      console.error('Erro ao importar escala de analistas:', err);
+      setError(err instanceof Error ? err.message : t('import.error.processFailed'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: IMPORT_FILE_ACCEPT,
+    multiple: false,
+    disabled: isProcessing
+  });
+
+  const handleClear = () => {
+    saveRoster([]);
+    setRoster([]);
+    setValidationErrors([]);
+  };
+
+  return (
+    <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">{t('staffing.title')}</h2>
+          <p className="text-gray-400 mt-1">
+            {t('staffing.subtitle')}
+          </p>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5 text-gray-400 hover:text-white" />
+          </button>
+        )}
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
+          isDragActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-gray-700 hover:border-gray-500'
+        }`}
+      >
+        <input {...getInputProps()} />
+        <FileSpreadsheet className="h-6 w-6 text-indigo-400 mx-auto mb-1" />
+        <p className="text-white text-sm">
+          {isProcessing
+            ? t('staffing.processing')
+            : roster.length > 0
+              ? t('staffing.replace')
+              : t('staffing.drop')}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          {t('staffing.columns')}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-400">{error}</p>
+        </div>
+      )}
+
+      {validationErrors.length > 0 && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4">
+          <div className="flex gap-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="text-sm font-medium text-yellow-400">
+                {t('import.occurrences', { count: validationErrors.length })}
+              </h3>
+              <ul className="mt-2 max-h-32 overflow-auto list-disc list-inside text-sm text-yellow-300 space-y-1">
+                {validationErrors.map((validationError, index) => (
+                  <li key={index}>
+                    {t('upload.rowError', { row: validationError.row, reason: validationError.reason })}
+                    {validationError.value && t('upload.rowValue', { value: validationError.value })}
+                    {validationError.severity === 'error' && t('import.rowDiscarded')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {roster.length > 0 && (
+        <div className="bg-[#1C2333] rounded-lg p-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Users className="h-5 w-5 text-indigo-400" />
+            <p className="text-sm text-gray-300">
+              {t('staffing.rosterSize', { count: roster.length })} · {(Object.keys(SHIFT_LEVELS) as AnalystLevel[])
+                .map(level => `${roster.filter(analyst => analyst.level === level).length} ${level}`)
+                .join(' · ')}
+            </p>
+          </div>
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-2 px-3 py-2 bg-[#151B2B] hover:bg-[#252d3d] text-gray-300 rounded-lg transition-colors text-sm"
+          >
+            <Trash2 className="h-4 w-4" />
+            {t('staffing.clear')}
+          </button>
+        </div>
+      )}
+
+      {roster.length > 0 && analysis.periodDays > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-[#1C2333] p-4 rounded-lg">
+              <p className="text-sm text-gray-400">{t('staffing.period')}</p>
+              <p className="text-2xl font-bold text-white">{t('staffing.days', { count: analysis.periodDays })}</p>
+            </div>
+            <div className="bg-[#1C2333] p-4 rounded-lg">
+              <p className="text-sm text-gray-400">{t('staffing.ticketsPerShiftHour')}</p>
+              <p className="text-2xl font-bold text-white">
+                {totalShiftHours > 0 ? formatDecimal(assignedTickets / totalShiftHours, 2) : '—'}
+              </p>
+            </div>
+            <div className="bg-[#1C2333] p-4 rounded-lg">
+              <p className="text-sm text-gray-400">{t('staffing.uncovered')}</p>
+              <p className="text-2xl font-bold text-red-400">{analysis.uncovered.length}</p>
+            </div>
+            <div className="bg-[#1C2333] p-4 rounded-lg">
+              <p className="text-sm text-gray-400">{t('staffing.unmatched')}</p>
+              <p
+                className="text-2xl font-bold text-yellow-400"
+                title={analysis.unmatchedAssignees.slice(0, 30).join('\n')}
+              >
+                {analysis.unmatchedAssignees.length}
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-[#1C2333] p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-4">
+              <Timer className="h-5 w-5 text-indigo-400" />
+              <h3 className="text-lg font-medium text-white">{t('staffing.workload')}</h3>
+            </div>
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="px-3 py-2 font-medium">{t('staffing.analyst')}</th>
+                    <th className="px-3 py-2 font-medium">{t('staffing.level')}</th>
+                    <th className="px-3 py-2 font-medium">{t('staffing.shift')}</th>
+                    <th className="px-3 py-2 font-medium">{t('staffing.location')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('staffing.tickets')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('staffing.shiftHours')}</th>
+                    <th className="px-3 py-2 font-medium text-right">{t('staffing.ticketsPerHour')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.workload.map(({ analyst, tickets, shiftHours, ticketsPerHour }) => (
+                    <tr key={analyst.name} className="border-t border-gray-700/50 text-gray-300">
+                      <td className="px-3 py-2 text-white">{analyst.name}</td>
+                      <td className="px-3 py-2">{analyst.level}</td>
+                      <td className="px-3 py-2">{analyst.startTime}–{analyst.endTime} · {analyst.schedule}</td>
+                      <td className="px-3 py-2">{analyst.location || t('staffing.allLocations')}</td>
+                      <td className="px-3 py-2 text-right">{tickets}</td>
+                      <td className="px-3 py-2 text-right">{Math.round(shiftHours)}</td>
+                      <td className="px-3 py-2 text-right font-medium text-white">{formatDecimal(ticketsPerHour, 2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-[#1C2333] p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-1">
+              <Grid3x3 className="h-5 w-5 text-indigo-400" />
+              <h3 className="text-lg font-medium text-white">{t('staffing.heatmap')}</h3>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+              {t('staffing.heatmapHint')}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="text-xs border-separate border-spacing-0.5">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1" />
+                    {HOURS.map(hour => (
+                      <th key={hour} className="px-1 py-1 text-gray-400 font-medium w-8">{String(hour).padStart(2, '0')}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.heatmap.map(row => (
+                    <tr key={row.location}>
+                      <th className="px-2 py-1 text-gray-300 font-medium text-left whitespace-nowrap">{row.location}</th>
+                      {row.hours.map((cell, hour) => (
+                        <td
+                          key={hour}
+                          title={t('staffing.cellTitle', {
+                            location: row.location,
+                            hour: String(hour).padStart(2, '0'),
+                            analysts: formatDecimal(cell.analysts),
+                            incidents: cell.incidents
+                          })}
+                          className={`w-8 h-7 text-center rounded ${getCellClass(cell.analysts, cell.incidents)}`}
+                        >
+                          {cell.incidents || ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-[#1C2333] p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-1">
+              <ShieldAlert className="h-5 w-5 text-red-400" />
+              <h3 className="text-lg font-medium text-white">{t('staffing.uncoveredTitle')}</h3>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+              {t('staffing.uncoveredHint')}
+              {analysis.uncovered.length > UNCOVERED_LIST_LIMIT && t('staffing.showingRecent', { count: UNCOVERED_LIST_LIMIT })}
+            </p>
+            {analysis.uncovered.length === 0 ? (
+              <p className="text-sm text-green-400">{t('staffing.allCovered')}</p>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {analysis.uncovered.slice(0, UNCOVERED_LIST_LIMIT).map(({ incident, level, location }) => (
+                  <div key={incident.Number} className="bg-[#151B2B] p-3 rounded-lg flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-white text-sm font-medium">
+                        {incident.Number} <span className="text-gray-400 font-normal">· {incident.ShortDescription}</span>
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        {incident.AssignmentGroup || t('staffing.noGroup')} · {location}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-sm text-red-400">{getShiftLevelLabel(level)}</p>
+                      <p className="text-xs text-gray-400">
+                        {formatLocalizedDate(parseISO(incident.Opened))}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
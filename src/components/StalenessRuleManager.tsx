@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { Timer, Plus, Save, Trash2, RotateCcw, X, AlertCircle } from 'lucide-react';
+import { Incident } from '../types/incident';
+import { StalenessRule, StalenessState } from '../types/staleness';
+import { loadLocationDirectory } from '../utils/locationUtils';
+import {
+  STALENESS_PRIORITIES,
+  STALENESS_STATE_OPTIONS,
+  createStalenessRule,
+  findStaleIncidents,
+  formatStalenessHours,
+  getStalenessPriorityLabel,
+  loadStalenessRules,
+  resetStalenessRules,
+  saveStalenessRules
+} from '../utils/stalenessUtils';
+import { t } from '../utils/i18nUtils';
+
+interface StalenessRuleManagerProps {
+  incidents: Incident[];
+  onClose: () => void;
+  onSaved: (rules: StalenessRule[]) => void;
+}
+
+const inputClassName = 'w-full bg-[#151B2B] border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-white';
+
+const getRuleKey = (rule: StalenessRule) => `${rule.priority}|${rule.state}|${rule.location.trim().toLowerCase()}`;
+
+export function StalenessRuleManager({ incidents, onClose, onSaved }: StalenessRuleManagerProps) {
+  const [rules, setRules] = useState<StalenessRule[]>(() => loadStalenessRules());
+  const [error, setError] = useState<string | null>(null);
+
+  // Prévia ao vivo: chamados fora de regra atribuídos a cada regra em edição
+  const preview = useMemo(() => {
+    const stale = findStaleIncidents(incidents, rules);
+    const counts: Record<string, number> = {};
+    stale.forEach(({ rule }) => { counts[rule.id] = (counts[rule.id] ?? 0) + 1; });
+    return { total: stale.length, counts };
+  }, [incidents, rules]);
+
+  const locationOptions = useMemo(() => loadLocationDirectory().map(entry => entry.shortName), []);
+
+  const updateRule = (id: string, changes: Partial<StalenessRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleSave = () => {
+    const enabled = rules.filter(rule => rule.enabled);
+    if (enabled.some(rule => !(rule.maxHours > 0))) {
+      setError(t('stalenessRule.error.maxHours'));
+      return;
+    }
+    const keys = enabled.map(getRuleKey);
+    if (new Set(keys).size !== keys.length) {
+      setError(t('stalenessRule.error.duplicate'));
+      return;
+    }
+
+    const saved = rules.map(rule => ({ ...rule, location: rule.location.trim() }));
+    saveStalenessRules(saved);
+    setError(null);
+    onSaved(saved);
+    onClose();
+  };
+
+  const handleReset = () => {
+    const defaults = resetStalenessRules();
+    setRules(defaults);
+    setError(null);
+    onSaved(defaults);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Timer className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('stalenessRule.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('stalenessRule.subtitle')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t('stalenessRule.reset')}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          <div className="grid grid-cols-[auto_1fr_1.3fr_1.3fr_1fr_auto_auto] gap-2 px-2 text-xs text-gray-400">
+            <span />
+            <span>{t('stalenessRule.priority')}</span>
+            <span>{t('stalenessRule.state')}</span>
+            <span>{t('stalenessRule.location')}</span>
+            <span>{t('stalenessRule.maxHours')}</span>
+            <span className="text-right">{t('stalenessRule.outOfRule')}</span>
+            <span />
+          </div>
+
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`grid grid-cols-[auto_1fr_1.3fr_1.3fr_1fr_auto_auto] gap-2 items-center p-2 rounded-lg bg-[#1C2333] ${
+                rule.enabled ? '' : 'opacity-50'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                title={t('stalenessRule.enabled')}
+                className="rounded border-gray-600 bg-[#151B2B]"
+              />
+              <select
+                value={rule.priority}
+                onChange={(e) => updateRule(rule.id, { priority: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">{t('stalenessRule.allPriorities')}</option>
+                {STALENESS_PRIORITIES.map(priority => (
+                  <option key={priority} value={priority}>{getStalenessPriorityLabel(priority)}</option>
+                ))}
+              </select>
+              <select
+                value={rule.state}
+                onChange={(e) => updateRule(rule.id, { state: e.target.value as StalenessState | '' })}
+                className={inputClassName}
+              >
+                <option value="">{t('stalenessRule.allStates')}</option>
+                {STALENESS_STATE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                list="staleness-locations"
+                value={rule.location}
+                onChange={(e) => updateRule(rule.id, { location: e.target.value })}
+                placeholder={t('stalenessRule.allLocations')}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={Number.isNaN(rule.maxHours) ? '' : rule.maxHours}
+                onChange={(e) => updateRule(rule.id, { maxHours: e.target.valueAsNumber })}
+                title={rule.maxHours > 0 ? formatStalenessHours(rule.maxHours) : undefined}
+                className={`${inputClassName} ${rule.enabled && !(rule.maxHours > 0) ? 'border-red-500' : ''}`}
+              />
+              <span className="text-sm text-white text-right tabular-nums w-24">
+                {preview.counts[rule.id] ?? 0}
+              </span>
+              <button
+                onClick={() => setRules(rules.filter(r => r.id !== rule.id))}
+                className="p-1 text-red-400 hover:text-red-300 transition-colors"
+                title={t('stalenessRule.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <datalist id="staleness-locations">
+            {locationOptions.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+
+          <button
+            onClick={() => setRules([...rules, createStalenessRule()])}
+            className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-600 text-gray-300 hover:border-gray-400 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            {t('stalenessRule.new')}
+          </button>
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-4">
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : (
+            <span className="text-sm text-gray-400">
+              {t('stalenessRule.previewSummary', { stale: preview.total, total: incidents.length })}
+            </span>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            {t('stalenessRule.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { DivideIcon as LucideIcon } from 'lucide-react';
+import { t } from '../utils/i18nUtils';
 
 interface StatsCardProps {
   title: string;
@@ -49,7 +50,7 @@ export function StatsCard({
           <p className={`text-sm ${subtitleColor} flex items-center gap-1`}>
             {subtitle}
             {clickable && (
-              <span className="text-xs text-indigo-400">(clique para detalhes)</span>
+              <span className="text-xs text-indigo-400">{t('stats.clickForDetails')}</span>
             )}
           </p>
         )}
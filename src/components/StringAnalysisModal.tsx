@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Incident } from '../types/incident';
 import { StringAnalysisResult, analyzeStringDistribution } from '../services/stringAnalysisService';
+import { t } from '../utils/i18nUtils';
 
 interface StringAnalysisModalProps {
   incidents: Incident[];
@@ -28,7 +29,7 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
         const result = await analyzeStringDistribution(incidents, selectedString);
         setAnalysis(result);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Erro ao realizar análise');
+        setError(err instanceof Error ? err.message : t('stringAnalysis.error'));
       } finally {
         setLoading(false);
       }
@@ -37,6 +38,11 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
     performAnalysis();
   }, [incidents, selectedString]);
 
+  // Impactos sem descrição vêm com o texto padrão do serviço e ficam de fora
+  const isDescribedImpact = (impacto: StringAnalysisResult['impactos'][number]) =>
+    impacto.descricao !== t('prompt.fallback.impactDescription') &&
+    impacto.descricao !== t('prompt.fallback.impactError');
+
   // Função para abrir o modal de incidentes relacionados ao impacto
   const handleShowIncidents = (impactoString: string, impactoTitulo: string) => {
     // Busca por palavras-chave do impacto na descrição
@@ -55,7 +61,7 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-[#151B2B] rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-xl font-bold text-white">Análise de String: {selectedString}</h2>
+          <h2 className="text-xl font-bold text-white">{t('stringAnalysis.title', { string: selectedString })}</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-white"
@@ -69,7 +75,7 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
         {loading && (
           <div className="text-center py-8">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
-            <p className="text-gray-300 mt-4">Realizando análise...</p>
+            <p className="text-gray-300 mt-4">{t('stringAnalysis.loading')}</p>
           </div>
         )}
 
@@ -80,47 +86,47 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
               onClick={() => window.location.reload()}
               className="mt-4 bg-blue-500 hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded"
             >
-              Tentar Novamente
+              {t('aiAnalysis.retry')}
             </button>
           </div>
         )}
 
         {analysis && (
           <div className="space-y-6 text-gray-200">
-            {analysis.sumarioExecutivo && !/não disponível/i.test(analysis.sumarioExecutivo) && (
+            {analysis.sumarioExecutivo && analysis.sumarioExecutivo !== t('prompt.fallback.summary') && (
               <div>
-                <h3 className="text-lg font-semibold text-white mb-2">Sumário Executivo</h3>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('prompt.section.summary')}</h3>
                 <p className="text-gray-300">{analysis.sumarioExecutivo}</p>
               </div>
             )}
 
-            {analysis.metodologia && !/não disponível/i.test(analysis.metodologia) && (
+            {analysis.metodologia && analysis.metodologia !== t('prompt.fallback.methodology') && (
               <div>
-                <h3 className="text-lg font-semibold text-white mb-2">Metodologia</h3>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('prompt.section.methodology')}</h3>
                 <p className="text-gray-300">{analysis.metodologia}</p>
               </div>
             )}
 
-            {analysis.causaRaiz && !/não identificada|não disponível/i.test(analysis.causaRaiz) && (
+            {analysis.causaRaiz && analysis.causaRaiz !== t('prompt.fallback.rootCause') && (
               <div>
-                <h3 className="text-lg font-semibold text-white mb-2">Causa-Raiz</h3>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('prompt.section.rootCause')}</h3>
                 <p className="text-gray-300">{analysis.causaRaiz}</p>
               </div>
             )}
 
             {analysis.impactos && Array.isArray(analysis.impactos) && analysis.impactos.length > 0 &&
-              analysis.impactos.some(impacto => !/não disponível|erro/i.test(impacto.descricao)) && (
+              analysis.impactos.some(isDescribedImpact) && (
               <div>
-                <h3 className="text-lg font-semibold text-white mb-2">Impactos Detalhados</h3>
+                <h3 className="text-lg font-semibold text-white mb-2">{t('prompt.section.impacts')}</h3>
                 <div className="space-y-4">
-                  {analysis.impactos.filter(impacto => !/não disponível|erro/i.test(impacto.descricao)).map((impacto, index) => (
+                  {analysis.impactos.filter(isDescribedImpact).map((impacto, index) => (
                     <div key={index} className="bg-gray-800 p-4 rounded">
                       <div className="flex justify-between items-center">
                         <span className="font-semibold">{impacto.string}</span>
                         <span className="text-blue-400 flex items-center gap-2">
-                          {impacto.quantidade} incidentes
+                          {t('stringAnalysis.incidents', { count: impacto.quantidade })}
                           <button
-                            title="Ver incidentes relacionados"
+                            title={t('stringAnalysis.showIncidents')}
                             onClick={() => handleShowIncidents(impacto.string, impacto.string)}
                             className="ml-1 text-gray-300 hover:text-blue-400 focus:outline-none"
                           >
@@ -149,16 +155,16 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                     </svg>
                   </button>
-                  <h4 className="text-lg font-bold text-white mb-4">Incidentes relacionados: {impactTitle}</h4>
+                  <h4 className="text-lg font-bold text-white mb-4">{t('stringAnalysis.related', { title: impactTitle })}</h4>
                   {incidentsToShow.length === 0 ? (
-                    <p className="text-gray-300">Nenhum incidente encontrado.</p>
+                    <p className="text-gray-300">{t('stringAnalysis.noIncidents')}</p>
                   ) : (
                     <table className="w-full text-left text-gray-200">
                       <thead>
                         <tr>
-                          <th className="py-1 px-2">Número</th>
-                          <th className="py-1 px-2">Data</th>
-                          <th className="py-1 px-2">Descrição</th>
+                          <th className="py-1 px-2">{t('stringAnalysis.number')}</th>
+                          <th className="py-1 px-2">{t('stringAnalysis.date')}</th>
+                          <th className="py-1 px-2">{t('stringAnalysis.description')}</th>
                         </tr>
                       </thead>
                       <tbody>
@@ -178,7 +184,7 @@ export const StringAnalysisModal: React.FC<StringAnalysisModalProps> = ({
 
             {analysis.nivelConfianca && (
               <div className="text-right text-sm text-gray-400">
-                Nível de Confiança: {analysis.nivelConfianca}%
+                {t('stringAnalysis.confidence', { value: analysis.nivelConfianca })}
               </div>
             )}
           </div>
@@ -0,0 +1,367 @@
+import { useRef, useState } from 'react';
+import {
+  Layers,
+  Plus,
+  Save,
+  Trash2,
+  RotateCcw,
+  X,
+  AlertCircle,
+  ArrowUp,
+  ArrowDown,
+  Download,
+  Upload
+} from 'lucide-react';
+import { SupportQueue, SupportQueueColor, SupportQueueIcon } from '../types/queue';
+import {
+  QUEUE_COLOR_OPTIONS,
+  QUEUE_ICON_OPTIONS,
+  createSupportQueue,
+  exportSupportQueues,
+  parseSupportQueuesExport,
+  resetSupportQueues,
+  saveSupportQueues
+} from '../utils/queueUtils';
+import { t } from '../utils/i18nUtils';
+import { MessageKey } from '../utils/i18nMessages';
+
+interface SupportQueueManagerProps {
+  queues: SupportQueue[];
+  onClose: () => void;
+  // Recebe a lista gravada, já na ordem de avaliação
+  onSaved: (queues: SupportQueue[]) => void;
+}
+
+const ICON_LABELS: Record<SupportQueueIcon, MessageKey> = {
+  building: 'queue.icon.building',
+  phone: 'queue.icon.phone',
+  ticket: 'queue.icon.ticket',
+  network: 'queue.icon.network',
+  server: 'queue.icon.server',
+  users: 'queue.icon.users',
+  headset: 'queue.icon.headset',
+  shield: 'queue.icon.shield'
+};
+
+const COLOR_LABELS: Record<SupportQueueColor, MessageKey> = {
+  indigo: 'queue.color.indigo',
+  purple: 'queue.color.purple',
+  emerald: 'queue.color.emerald',
+  orange: 'queue.color.orange',
+  blue: 'queue.color.blue',
+  pink: 'queue.color.pink',
+  cyan: 'queue.color.cyan',
+  yellow: 'queue.color.yellow'
+};
+
+const toLines = (values: string[]) => values.join('\n');
+
+const fromLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+
+export function SupportQueueManager({ queues, onClose, onSaved }: SupportQueueManagerProps) {
+  const [draftQueues, setDraftQueues] = useState<SupportQueue[]>(queues);
+  const [selectedId, setSelectedId] = useState<string | null>(queues[0]?.id ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = draftQueues.find(queue => queue.id === selectedId);
+
+  const updateSelected = (changes: Partial<SupportQueue>) => {
+    setDraftQueues(draftQueues.map(queue => (queue.id === selectedId ? { ...queue, ...changes } : queue)));
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draftQueues.length) return;
+    const next = [...draftQueues];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraftQueues(next);
+  };
+
+  const handleAdd = () => {
+    const queue = createSupportQueue();
+    setDraftQueues([...draftQueues, queue]);
+    setSelectedId(queue.id);
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    const next = draftQueues.filter(queue => queue.id !== selectedId);
+    setDraftQueues(next);
+    setSelectedId(next[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    const unnamed = draftQueues.findIndex(queue => !queue.name.trim());
+    if (unnamed !== -1) {
+      setSelectedId(draftQueues[unnamed].id);
+      setError(t('queue.error.noName'));
+      return;
+    }
+    const names = draftQueues.map(queue => queue.name.trim().toLowerCase());
+    const duplicate = draftQueues.find((queue, index) => names.indexOf(queue.name.trim().toLowerCase()) !== index);
+    if (duplicate) {
+      setSelectedId(duplicate.id);
+      setError(t('queue.error.duplicate', { name: duplicate.name.trim() }));
+      return;
+    }
+
+    const saved = draftQueues.map(queue => ({
+      ...queue,
+      name: queue.name.trim(),
+      groups: fromLines(toLines(queue.groups)),
+      categories: fromLines(toLines(queue.categories))
+    }));
+    saveSupportQueues(saved);
+    setError(null);
+    onSaved(saved);
+    onClose();
+  };
+
+  const handleReset = () => {
+    const defaults = resetSupportQueues();
+    setDraftQueues(defaults);
+    setSelectedId(defaults[0]?.id ?? null);
+    setError(null);
+    onSaved(defaults);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSupportQueues(draftQueues)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'filas-de-suporte.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseSupportQueuesExport(await file.text());
+      setDraftQueues(imported);
+      setSelectedId(imported[0].id);
+      setError(null);
+    } catch (err) {
+      console.error('Erro ao importar filas:', err);
+      setError(err instanceof Error ? err.message : t('queue.error.processFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[70]">
+      <div className="bg-[#151B2B] rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Layers className="h-6 w-6 text-indigo-400" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">{t('queue.title')}</h2>
+                <p className="text-sm text-gray-400">
+                  {t('queue.subtitle')}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <Upload className="h-4 w-4" />
+                {t('queue.import')}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <Download className="h-4 w-4" />
+                {t('queue.export')}
+              </button>
+              <button
+                onClick={handleReset}
+                className="flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-[#1C2333] rounded-lg text-sm transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t('queue.reset')}
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
+              >
+                <X className="h-5 w-5 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            {draftQueues.map((queue, index) => (
+              <div
+                key={queue.id}
+                className={`flex items-center gap-2 p-3 rounded-lg transition-colors ${
+                  queue.id === selectedId ? 'bg-indigo-600/20 border border-indigo-500' : 'bg-[#1C2333] hover:bg-[#252d3d] border border-transparent'
+                }`}
+              >
+                <button
+                  onClick={() => { setSelectedId(queue.id); setError(null); }}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <span className="text-white font-medium">{queue.name || t('queue.new')}</span>
+                  <p className="text-xs text-gray-400 mt-1 truncate">
+                    {queue.groups.length > 0 ? queue.groups.join(' · ') : t('queue.allGroups')}
+                    {queue.categories.length > 0 && ` · ${queue.categories.join(', ')}`}
+                  </p>
+                </button>
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                  title={t('queue.moveUp')}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={index === draftQueues.length - 1}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                  title={t('queue.moveDown')}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={handleAdd}
+              className="w-full flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-gray-600 text-gray-300 hover:border-gray-400 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              {t('queue.new')}
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="bg-[#1C2333] rounded-lg p-4 space-y-4 self-start">
+              <label className="block text-sm text-gray-400">
+                {t('queue.name')}
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+
+              <label className="block text-sm text-gray-400">
+                {t('queue.groups')}
+                <textarea
+                  value={toLines(selected.groups)}
+                  onChange={(e) => updateSelected({ groups: e.target.value.split('\n') })}
+                  onBlur={(e) => updateSelected({ groups: fromLines(e.target.value) })}
+                  rows={4}
+                  placeholder="SA-Local Sup"
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+
+              <label className="block text-sm text-gray-400">
+                {t('queue.categories')}
+                <textarea
+                  value={toLines(selected.categories)}
+                  onChange={(e) => updateSelected({ categories: e.target.value.split('\n') })}
+                  onBlur={(e) => updateSelected({ categories: fromLines(e.target.value) })}
+                  rows={3}
+                  placeholder="Network"
+                  className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                />
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block text-sm text-gray-400">
+                  {t('queue.icon')}
+                  <select
+                    value={selected.icon}
+                    onChange={(e) => updateSelected({ icon: e.target.value as SupportQueueIcon })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  >
+                    {QUEUE_ICON_OPTIONS.map(icon => (
+                      <option key={icon} value={icon}>{t(ICON_LABELS[icon])}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm text-gray-400">
+                  {t('queue.color')}
+                  <select
+                    value={selected.color}
+                    onChange={(e) => updateSelected({ color: e.target.value as SupportQueueColor })}
+                    className="mt-1 w-full bg-[#151B2B] border border-gray-700 rounded-lg px-3 py-2 text-white"
+                  >
+                    {QUEUE_COLOR_OPTIONS.map(color => (
+                      <option key={color} value={color}>{t(COLOR_LABELS[color])}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.alwaysVisible}
+                  onChange={(e) => updateSelected({ alwaysVisible: e.target.checked })}
+                  className="rounded border-gray-600 bg-[#151B2B]"
+                />
+                {t('queue.alwaysVisible')}
+              </label>
+
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-500/10 rounded-lg text-sm transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+                {t('queue.delete')}
+              </button>
+            </div>
+          ) : (
+            <div className="bg-[#1C2333] rounded-lg p-4 text-sm text-gray-400 self-start">
+              {t('queue.empty')}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-700 flex items-center justify-between gap-4">
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          ) : (
+            <span className="text-sm text-gray-400">{t('queue.count', { count: draftQueues.length })}</span>
+          )}
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            {t('queue.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,14 +11,22 @@ import {
   AlertCircle,
   PauseCircle,
   Users,
-  X
+  Server,
+  Headset,
+  Shield,
+  Settings,
+  X,
+  LucideIcon
 } from 'lucide-react';
 import { Incident } from '../types/incident';
+import { SupportQueue, SupportQueueColor, SupportQueueIcon } from '../types/queue';
 import { normalizePriority, getIncidentState, isCancelled } from '../utils/incidentUtils';
 import { IncidentDetails } from './IncidentDetails';
-import { format, parseISO } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { parseISO } from 'date-fns';
 import { normalizeLocationName } from '../utils/locationUtils';
+import { findIncidentQueue, loadSupportQueues } from '../utils/queueUtils';
+import { SupportQueueManager } from './SupportQueueManager';
+import { formatLocalizedDate, t } from '../utils/i18nUtils';
 
 const CHART_COLORS = {
   P1: '#EF4444',
@@ -50,73 +58,73 @@ interface IncidentModalProps {
   onClose: () => void;
 }
 
-const QUEUE_GROUPS = {
-  'N1 Local': {
-    groups: [
-      'SA-Local Sup',
-      'Berrini-Local Sup',
-      'SC-Local Sup',
-      'BA-Local Sup',
-      'BR-Local Sup'
-    ],
-    categories: ['Hardware', 'Software', 'Service Support']
-  },
-  'Asset\'s Manager': {
-    groups: ['BR-Net/Tel'],
-    categories: ['Network', 'Hardware']
-  },
-  'Ticket Manager': {
-    groups: ['BR-TM'],
-    categories: ['Service Support', 'Opened']
-  },
-  'N2 - Internet': {
-    groups: [
-      'BA-Net/Tel',
-      'SA-Net/Tel',
-      'Berrini-Net/Tel'
-    ],
-    categories: ['Network', 'Cloud', 'IT Security']
-  }
+const QUEUE_ICONS: Record<SupportQueueIcon, LucideIcon> = {
+  building: Building2,
+  phone: Phone,
+  ticket: TicketIcon,
+  network: Network,
+  server: Server,
+  users: Users,
+  headset: Headset,
+  shield: Shield
 };
 
-const QUEUE_ICONS = {
-  'N1 Local': Building2,
-  'Asset\'s Manager': Phone,
-  'Ticket Manager': TicketIcon,
-  'N2 - Internet': Network
-};
-
-const QUEUE_COLORS = {
-  'N1 Local': {
+// Classes completas para o Tailwind encontrar no build
+const QUEUE_COLORS: Record<SupportQueueColor, { bg: string; border: string; text: string; hover: string }> = {
+  indigo: {
     bg: 'bg-indigo-500/10',
     border: 'border-indigo-500/50',
     text: 'text-indigo-400',
     hover: 'hover:bg-indigo-500/20'
   },
-  'Asset\'s Manager': {
+  purple: {
     bg: 'bg-purple-500/10',
     border: 'border-purple-500/50',
     text: 'text-purple-400',
     hover: 'hover:bg-purple-500/20'
   },
-  'Ticket Manager': {
+  emerald: {
     bg: 'bg-emerald-500/10',
     border: 'border-emerald-500/50',
     text: 'text-emerald-400',
     hover: 'hover:bg-emerald-500/20'
   },
-  'N2 - Internet': {
+  orange: {
     bg: 'bg-orange-500/10',
     border: 'border-orange-500/50',
     text: 'text-orange-400',
     hover: 'hover:bg-orange-500/20'
+  },
+  blue: {
+    bg: 'bg-blue-500/10',
+    border: 'border-blue-500/50',
+    text: 'text-blue-400',
+    hover: 'hover:bg-blue-500/20'
+  },
+  pink: {
+    bg: 'bg-pink-500/10',
+    border: 'border-pink-500/50',
+    text: 'text-pink-400',
+    hover: 'hover:bg-pink-500/20'
+  },
+  cyan: {
+    bg: 'bg-cyan-500/10',
+    border: 'border-cyan-500/50',
+    text: 'text-cyan-400',
+    hover: 'hover:bg-cyan-500/20'
+  },
+  yellow: {
+    bg: 'bg-yellow-500/10',
+    border: 'border-yellow-500/50',
+    text: 'text-yellow-400',
+    hover: 'hover:bg-yellow-500/20'
   }
 };
 
 const STATUS_OPTIONS = [
   { 
     value: 'open', 
-    label: 'Em Aberto',
+    labelKey: 'analysis.status.open' as const,
     icon: AlertCircle,
     styles: {
       bg: 'bg-yellow-500/10',
@@ -127,7 +135,7 @@ const STATUS_OPTIONS = [
   },
   { 
     value: 'inProgress', 
-    label: 'Em Andamento',
+    labelKey: 'analysis.status.inProgress' as const,
     icon: Clock,
     styles: {
       bg: 'bg-blue-500/10',
@@ -138,7 +146,7 @@ const STATUS_OPTIONS = [
   },
   { 
     value: 'onHold', 
-    label: 'Em Espera',
+    labelKey: 'request.status.ON_HOLD' as const,
     icon: PauseCircle,
     styles: {
       bg: 'bg-orange-500/10',
@@ -154,9 +162,9 @@ function IncidentModal({ incidents, queueName, onClose }: IncidentModalProps) {
 
   const formatDate = (dateStr: string) => {
     try {
-      return format(parseISO(dateStr), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+      return formatLocalizedDate(parseISO(dateStr), 'format.dateTime');
     } catch (e) {
-      return 'Data inválida';
+      return t('format.invalidDate');
     }
   };
 
@@ -166,10 +174,10 @@ function IncidentModal({ incidents, queueName, onClose }: IncidentModalProps) {
         <div className="p-6 border-b border-gray-700 flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-white">
-              Chamados em {queueName}
+              {t('locationAnalysis.modalTitle', { location: queueName })}
             </h2>
             <p className="text-gray-400 mt-1">
-              {incidents.length} chamados encontrados
+              {t('analysis.ticketsFound', { count: incidents.length })}
             </p>
           </div>
           <button
@@ -184,14 +192,14 @@ function IncidentModal({ incidents, queueName, onClose }: IncidentModalProps) {
           <table className="w-full">
             <thead className="bg-[#1C2333] sticky top-0">
               <tr>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Número</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Data</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Descrição</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Categoria</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Subcategoria</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Grupo</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Prioridade</th>
-                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">Estado</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.number')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.date')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.description')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.category')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.subcategory')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.group')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('field.priority')}</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-400">{t('incident.state')}</th>
                 <th className="px-4 py-3 text-left text-sm font-medium text-gray-400"></th>
               </tr>
             </thead>
@@ -246,17 +254,41 @@ function IncidentModal({ incidents, queueName, onClose }: IncidentModalProps) {
   );
 }
 
+// Classifica o estado do chamado nos filtros de status das filas
+const getQueueStatus = (state: string): 'open' | 'inProgress' | 'onHold' => {
+  if (state.includes('progress') || state.includes('assigned')) return 'inProgress';
+  if (state.includes('hold') || state.includes('pending') || state.includes('aguardando')) return 'onHold';
+  return 'open';
+};
+
+const isActiveIncident = (incident: Incident) => {
+  if (isCancelled(incident.State)) return false;
+  const state = incident.State?.toLowerCase() || '';
+  return !state.includes('closed') && !state.includes('resolved');
+};
+
 export function SupportQueuesAnalysis({ incidents }: SupportQueuesAnalysisProps) {
   const [selectedStatus, setSelectedStatus] = useState('open');
   const [selectedQueueIncidents, setSelectedQueueIncidents] = useState<Incident[] | null>(null);
   const [selectedQueueName, setSelectedQueueName] = useState<string>('');
+  const [queues, setQueues] = useState<SupportQueue[]>(() => loadSupportQueues());
+  const [showQueueManager, setShowQueueManager] = useState(false);
+
+  // Cada chamado ativo pertence no máximo a uma fila (a primeira que casar)
+  const incidentsByQueue = useMemo(() => {
+    const result = new Map<string, Incident[]>(queues.map(queue => [queue.id, []]));
+    incidents.filter(isActiveIncident).forEach(incident => {
+      const queue = findIncidentQueue(incident, queues);
+      if (queue) result.get(queue.id)!.push(incident);
+    });
+    return result;
+  }, [incidents, queues]);
 
   const queueStats = useMemo(() => {
     const stats = {} as Record<string, QueueStats>;
 
-    // Initialize stats for each queue
-    Object.keys(QUEUE_GROUPS).forEach(queueName => {
-      stats[queueName] = {
+    queues.forEach(queue => {
+      const queueStat: QueueStats = {
         total: 0,
         P1: 0,
         P2: 0,
@@ -267,47 +299,8 @@ export function SupportQueuesAnalysis({ incidents }: SupportQueuesAnalysisProps)
         inProgress: 0,
         onHold: 0
       };
-    });
-
-    // Process incidents
-    incidents.forEach(incident => {
-      // Skip cancelled incidents
-      if (isCancelled(incident.State)) {
-        return;
-      }
-
-      // Skip closed incidents
-      const state = incident.State?.toLowerCase() || '';
-      if (state.includes('closed') || state.includes('resolved')) {
-        return;
-      }
-
-      // Normalize the assignment group
-      const normalizedGroup = normalizeLocationName(incident.AssignmentGroup || '');
-
-      // First check if incident belongs to Ticket Manager
-      if (normalizedGroup === 'BR-TM') {
-        const queueStat = stats['Ticket Manager'];
-        queueStat.total++;
-
-        // Count by priority
-        const priority = normalizePriority(incident.Priority);
-        queueStat[priority]++;
 
-        // Count by status
-        if (state.includes('progress') || state.includes('assigned')) {
-          queueStat.inProgress++;
-        } else if (state.includes('hold') || state.includes('pending') || state.includes('aguardando')) {
-          queueStat.onHold++;
-        } else {
-          queueStat.open++;
-        }
-        return; // Skip further processing
-      }
-
-      // Then check if incident belongs to Asset's Manager
-      if (normalizedGroup === 'BR-Net/Tel') {
-        const queueStat = stats['Asset\'s Manager'];
+      (incidentsByQueue.get(queue.id) ?? []).forEach(incident => {
         queueStat.total++;
 
         // Count by priority
@@ -315,127 +308,62 @@ export function SupportQueuesAnalysis({ incidents }: SupportQueuesAnalysisProps)
         queueStat[priority]++;
 
         // Count by status
-        if (state.includes('progress') || state.includes('assigned')) {
-          queueStat.inProgress++;
-        } else if (state.includes('hold') || state.includes('pending') || state.includes('aguardando')) {
-          queueStat.onHold++;
-        } else {
-          queueStat.open++;
-        }
-        return; // Skip further processing
-      }
-
-      // For other queues, check their groups
-      Object.entries(QUEUE_GROUPS).forEach(([queueName, { groups }]) => {
-        if (queueName !== 'Ticket Manager' && 
-            queueName !== 'Asset\'s Manager' && // Skip already handled queues
-            groups.some(group => normalizedGroup === group)) {
-          const queueStat = stats[queueName];
-          queueStat.total++;
-
-          // Count by priority
-          const priority = normalizePriority(incident.Priority);
-          queueStat[priority]++;
-
-          // Count by status
-          if (state.includes('progress') || state.includes('assigned')) {
-            queueStat.inProgress++;
-          } else if (state.includes('hold') || state.includes('pending') || state.includes('aguardando')) {
-            queueStat.onHold++;
-          } else {
-            queueStat.open++;
-          }
-        }
+        queueStat[getQueueStatus(incident.State?.toLowerCase() || '')]++;
       });
+
+      stats[queue.id] = queueStat;
     });
 
     return stats;
-  }, [incidents]);
-
-  const getQueueIncidents = (queueName: string) => {
-    return incidents.filter(incident => {
-      // Skip cancelled incidents
-      if (isCancelled(incident.State)) {
-        return false;
-      }
-
-      const state = incident.State?.toLowerCase() || '';
-      
-      // Skip closed incidents
-      if (state.includes('closed') || state.includes('resolved')) {
-        return false;
-      }
-
-      // Filter by status
-      if (selectedStatus === 'inProgress' && !(state.includes('progress') || state.includes('assigned'))) {
-        return false;
-      }
-      if (selectedStatus === 'onHold' && !(state.includes('hold') || state.includes('pending') || state.includes('aguardando'))) {
-        return false;
-      }
-      if (selectedStatus === 'open' && (state.includes('progress') || state.includes('assigned') || state.includes('hold') || state.includes('pending') || state.includes('aguardando'))) {
-        return false;
-      }
-
-      // Normalize the assignment group
-      const normalizedGroup = normalizeLocationName(incident.AssignmentGroup || '');
-
-      // For Ticket Manager, check if assignment group includes the name
-      if (queueName === 'Ticket Manager') {
-        return normalizedGroup === 'BR-TM';
-      }
-
-      // For Asset's Manager, check if assignment group includes the name
-      if (queueName === 'Asset\'s Manager') {
-        return normalizedGroup === 'BR-Net/Tel';
-      }
-
-      // For other queues, check their groups
-      const { groups } = QUEUE_GROUPS[queueName as keyof typeof QUEUE_GROUPS];
-      return groups.some(group => normalizedGroup === group);
-    });
+  }, [queues, incidentsByQueue]);
+
+  const getQueueIncidents = (queue: SupportQueue) => {
+    return (incidentsByQueue.get(queue.id) ?? []).filter(incident =>
+      getQueueStatus(incident.State?.toLowerCase() || '') === selectedStatus
+    );
   };
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-      {Object.entries(QUEUE_GROUPS).map(([queueName, { categories }]) => {
-        const Icon = QUEUE_ICONS[queueName as keyof typeof QUEUE_ICONS];
-        const colors = QUEUE_COLORS[queueName as keyof typeof QUEUE_COLORS];
-        const stats = queueStats[queueName];
-        const queueIncidents = getQueueIncidents(queueName);
+      {queues.map(queue => {
+        const Icon = QUEUE_ICONS[queue.icon];
+        const colors = QUEUE_COLORS[queue.color];
+        const stats = queueStats[queue.id];
+        const { categories } = queue;
 
         // Get count based on selected status
         const displayCount = selectedStatus === 'open' ? stats.open :
                            selectedStatus === 'inProgress' ? stats.inProgress :
                            selectedStatus === 'onHold' ? stats.onHold : 0;
 
-        // Always show Ticket Manager and Asset's Manager, even with no incidents
-        if (displayCount === 0 && queueName !== 'Ticket Manager' && queueName !== 'Asset\'s Manager') return null;
+        if (displayCount === 0 && !queue.alwaysVisible) return null;
 
         const statusOption = STATUS_OPTIONS.find(opt => opt.value === selectedStatus)!;
         const StatusIcon = statusOption.icon;
 
         return (
           <div 
-            key={queueName}
+            key={queue.id}
             className={`
               ${colors.bg} rounded-lg border ${colors.border} p-6
               transition-all hover:scale-[1.02] cursor-pointer
             `}
             onClick={() => {
-              const incidents = getQueueIncidents(queueName);
+              const incidents = getQueueIncidents(queue);
               setSelectedQueueIncidents(incidents);
-              setSelectedQueueName(queueName);
+              setSelectedQueueName(queue.name);
             }}
           >
             <div className="flex items-center gap-4 mb-4">
               <Icon className={`h-8 w-8 ${colors.text}`} />
               <div className="flex-1">
-                <h3 className="text-lg font-medium text-white">{queueName}</h3>
+                <h3 className="text-lg font-medium text-white">{queue.name}</h3>
                 <div className="flex items-center gap-2 mt-1">
                   <Users className={`h-4 w-4 ${colors.text}`} />
                   <p className={`text-sm ${colors.text}`}>
-                    {categories.length} {categories.length === 1 ? 'categoria' : 'categorias'}
+                    {categories.length === 0
+                      ? t('queue.allCategories')
+                      : t(categories.length === 1 ? 'queue.category' : 'queue.categoryCount', { count: categories.length })}
                   </p>
                 </div>
               </div>
@@ -448,7 +376,7 @@ export function SupportQueuesAnalysis({ incidents }: SupportQueuesAnalysisProps)
                   {displayCount}
                 </p>
                 <p className="text-sm text-gray-400">
-                  {statusOption.label}
+                  {t(statusOption.labelKey)}
                 </p>
               </div>
             </div>
@@ -487,10 +415,17 @@ export function SupportQueuesAnalysis({ incidents }: SupportQueuesAnalysisProps)
               `}
             >
               <Icon className="h-4 w-4" />
-              <span>{option.label}</span>
+              <span>{t(option.labelKey)}</span>
             </button>
           );
         })}
+        <button
+          onClick={() => setShowQueueManager(true)}
+          className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#1C2333] transition-all"
+        >
+          <Settings className="h-4 w-4" />
+          <span>{t('queue.configure')}</span>
+        </button>
       </div>
 
       {selectedQueueIncidents && (
@@ -503,6 +438,14 @@ export function SupportQueuesAnalysis({ incidents }: SupportQueuesAnalysisProps)
           }}
         />
       )}
+
+      {showQueueManager && (
+        <SupportQueueManager
+          queues={queues}
+          onClose={() => setShowQueueManager(false)}
+          onSaved={setQueues}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React from 'react';
 import { FileDown, FileSpreadsheet } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { t } from '../utils/i18nUtils';
 
 interface TemplateDownloadProps {
   type: 'incidents' | 'requests';
@@ -74,7 +75,7 @@ export function TemplateDownload({ type }: TemplateDownloadProps) {
       `}
     >
       <FileDown className="h-5 w-5" />
-      <span>Baixar Template</span>
+      <span>{t('upload.downloadTemplate')}</span>
     </button>
   );
 }
\ No newline at end of file
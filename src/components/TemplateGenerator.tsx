@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import * as XLSX from 'xlsx';
+import { t } from '../utils/i18nUtils';
 
 interface TemplateGeneratorProps {
   type: 'incidents' | 'requests';
@@ -141,49 +142,48 @@ export function TemplateGenerator({ type, onGenerated }: TemplateGeneratorProps)
         XLSX.utils.book_append_sheet(wb, ws, type === 'incidents' ? 'Incidents' : 'Requests');
         
         // Add a documentation sheet
-        const docTitle = type === 'incidents' ? 'Incidentes' : 'Requests';
         const docWs = XLSX.utils.aoa_to_sheet([
-          [`Documentação do Modelo de ${docTitle}`],
+          [t(type === 'incidents' ? 'template.incidents.title' : 'template.requests.title')],
           [''],
-          [`Este arquivo serve como modelo para importação de dados de ${type === 'incidents' ? 'incidentes' : 'solicitações'} no IT Operations Dashboard.`],
+          [t(type === 'incidents' ? 'template.incidents.intro' : 'template.requests.intro')],
           [''],
-          ['Instruções:'],
-          ['1. Mantenha os cabeçalhos na primeira linha'],
-          ['2. Preencha os dados a partir da segunda linha'],
-          ['3. Salve o arquivo no formato .xlsx ou .xls'],
-          ['4. Importe o arquivo no dashboard'],
+          [t('template.instructions')],
+          [t('template.step1')],
+          [t('template.step2')],
+          [t('template.step3')],
+          [t('template.step4')],
           [''],
-          ['Descrição dos campos:'],
+          [t('template.fields')],
           ...(type === 'incidents' 
             ? [
-                ['Number', 'Número único do incidente (obrigatório)'],
-                ['Opened', 'Data e hora de abertura do incidente (obrigatório, formato: YYYY-MM-DDTHH:MM:SS)'],
-                ['Short description', 'Descrição resumida do incidente'],
-                ['Caller', 'Nome do solicitante'],
-                ['Priority', 'Prioridade do incidente (P1, P2, P3, P4)'],
-                ['State', 'Estado do incidente (Aberto, Em Andamento, Fechado, etc.)'],
-                ['Category', 'Categoria do incidente'],
-                ['Subcategory', 'Subcategoria do incidente'],
-                ['Assignment group', 'Grupo responsável pelo atendimento'],
-                ['Assigned to', 'Pessoa responsável pelo atendimento'],
-                ['Updated', 'Data e hora da última atualização (formato: YYYY-MM-DDTHH:MM:SS)'],
-                ['Updated by', 'Pessoa que realizou a última atualização'],
-                ['Business impact', 'Impacto no negócio']
+                ['Number', t('template.incident.number')],
+                ['Opened', t('template.incident.opened')],
+                ['Short description', t('template.incident.shortDescription')],
+                ['Caller', t('template.field.requester')],
+                ['Priority', t('template.incident.priority')],
+                ['State', t('template.incident.state')],
+                ['Category', t('template.incident.category')],
+                ['Subcategory', t('template.incident.subcategory')],
+                ['Assignment group', t('template.field.assignmentGroup')],
+                ['Assigned to', t('template.field.assignedTo')],
+                ['Updated', t('template.field.updated')],
+                ['Updated by', t('template.field.updatedBy')],
+                ['Business impact', t('template.field.businessImpact')]
               ]
             : [
-                ['Number', 'Número único da solicitação (obrigatório)'],
-                ['Opened', 'Data e hora de abertura da solicitação (obrigatório, formato: YYYY-MM-DDTHH:MM:SS)'],
-                ['Short description', 'Descrição resumida da solicitação'],
-                ['Request item [Catalog Task]', 'Tipo de solicitação ou item do catálogo'],
-                ['Requested for Name', 'Nome do solicitante'],
-                ['Priority', 'Prioridade da solicitação (High, Medium, Low)'],
-                ['State', 'Estado da solicitação (Aberto, Em Andamento, Concluído, etc.)'],
-                ['Assignment group', 'Grupo responsável pelo atendimento'],
-                ['Assigned to', 'Pessoa responsável pelo atendimento'],
-                ['Updated', 'Data e hora da última atualização (formato: YYYY-MM-DDTHH:MM:SS)'],
-                ['Updated by', 'Pessoa que realizou a última atualização'],
-                ['Comments and Work notes', 'Comentários e notas de trabalho'],
-                ['Business impact', 'Impacto no negócio']
+                ['Number', t('template.request.number')],
+                ['Opened', t('template.request.opened')],
+                ['Short description', t('template.request.shortDescription')],
+                ['Request item [Catalog Task]', t('template.request.requestItem')],
+                ['Requested for Name', t('template.field.requester')],
+                ['Priority', t('template.request.priority')],
+                ['State', t('template.request.state')],
+                ['Assignment group', t('template.field.assignmentGroup')],
+                ['Assigned to', t('template.field.assignedTo')],
+                ['Updated', t('template.field.updated')],
+                ['Updated by', t('template.field.updatedBy')],
+                ['Comments and Work notes', t('template.request.comments')],
+                ['Business impact', t('template.field.businessImpact')]
               ]
           )
         ]);
@@ -192,7 +192,7 @@ export function TemplateGenerator({ type, onGenerated }: TemplateGeneratorProps)
         docWs['!cols'] = [{ wch: 25 }, { wch: 70 }];
         
         // Add the documentation worksheet to the workbook
-        XLSX.utils.book_append_sheet(wb, docWs, 'Documentação');
+        XLSX.utils.book_append_sheet(wb, docWs, t('template.sheet.documentation'));
         
         // Generate buffer
         const buffer = XLSX.write(wb, { type: 'array', bookType: 'xlsx' });
@@ -203,7 +203,7 @@ export function TemplateGenerator({ type, onGenerated }: TemplateGeneratorProps)
         
         const link = document.createElement('a');
         link.href = url;
-        link.download = type === 'incidents' ? 'modelo-incidentes.xlsx' : 'modelo-requests.xlsx';
+        link.download = t(type === 'incidents' ? 'template.incidents.fileName' : 'template.requests.fileName');
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -4,6 +4,7 @@ import { ChevronLeft, ExternalLink, Brain } from 'lucide-react';
 import { Incident } from '../types/incident';
 import { AIAnalysisModal } from './AIAnalysisModal';
 import { analyzeTopIncidentsByStringAssociado } from '../services/aiTopIncidentsService';
+import { t } from '../utils/i18nUtils';
 
 interface Props {
   incidents: Incident[];
@@ -13,6 +14,9 @@ interface Props {
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
 
+// 'Não Definido' é a chave de agrupamento dos campos vazios; só o rótulo exibido é traduzido
+const getDisplayName = (name: string) => (name === 'Não Definido' ? t('topIncidents.notDefined') : name);
+
 // ===================== DOCUMENTAÇÃO DO COMPONENTE =====================
 // TopIncidentsByStringAssociado
 //
@@ -168,11 +172,11 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
           <button onClick={() => setStringAssociado(null)} className="p-2 hover:bg-gray-100 rounded-full">
             <ChevronLeft className="w-6 h-6" />
           </button>
-          <h2 className="text-xl font-semibold">Chamados: {stringAssociado}</h2>
+          <h2 className="text-xl font-semibold">{t('topIncidents.tickets', { name: getDisplayName(stringAssociado) })}</h2>
         </div>
         <div className="space-y-4">
           {incidentesDetalhados.length === 0 && (
-            <div className="text-gray-400">Nenhum chamado encontrado para este grupo.</div>
+            <div className="text-gray-400">{t('topIncidents.noTickets')}</div>
           )}
           {incidentesDetalhados.map((inc, idx) => (
             <div key={inc.Number || idx} className="bg-[#1E293B] rounded-lg p-4 flex flex-col gap-2 shadow-md relative">
@@ -185,7 +189,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
                 <button
                   onClick={() => onShowIncidentDetails(inc)}
                   className="text-blue-400 hover:text-blue-300"
-                  title="Ver detalhes do chamado"
+                  title={t('topIncidents.details')}
                   style={{ position: 'absolute', top: 16, right: 16 }}
                 >
                   <ExternalLink className="w-5 h-5" />
@@ -213,22 +217,22 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
           <button onClick={() => setSubcategoria(null)} className="p-2 hover:bg-gray-100 rounded-full">
             <ChevronLeft className="w-6 h-6" />
           </button>
-          <h2 className="text-xl font-semibold">Strings Associadas: {subcategoria}</h2>
+          <h2 className="text-xl font-semibold">{t('topIncidents.strings', { name: getDisplayName(subcategoria) })}</h2>
         </div>
         <div className="flex gap-2 mb-4 justify-end">
-          <button onClick={() => setTopN(5)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 5</button>
-          <button onClick={() => setTopN(10)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 10</button>
-          <button onClick={() => setTopN(20)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 20</button>
+          <button onClick={() => setTopN(5)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 5 })}</button>
+          <button onClick={() => setTopN(10)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 10 })}</button>
+          <button onClick={() => setTopN(20)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 20 })}</button>
         </div>
         <div style={{ height: chartHeight + 'px' }}>
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={stringsAssociadoData} barCategoryGap={stringsAssociadoData.length === 1 ? '40%' : '20%'} barGap={20}>
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} />
+              <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} tickFormatter={getDisplayName} />
               <YAxis />
-              <Tooltip wrapperStyle={{ zIndex: 1000 }} formatter={(value: number, name: string) => [`${value} chamados`, name]} />
+              <Tooltip wrapperStyle={{ zIndex: 1000 }} formatter={(value: number, name: string) => [t('topIncidents.ticketCount', { count: value }), name]} labelFormatter={getDisplayName} />
               <Legend />
-              <Bar dataKey="value" name="Quantidade de Chamados" fill="#3b82f6" onClick={(_, idx) => setStringAssociado(stringsAssociadoData[idx].name)} cursor="pointer">
+              <Bar dataKey="value" name={t('topIncidents.series')} fill="#3b82f6" onClick={(_, idx) => setStringAssociado(stringsAssociadoData[idx].name)} cursor="pointer">
                 {stringsAssociadoData.map((entry, index) => (
                   <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                 ))}
@@ -237,7 +241,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
           </ResponsiveContainer>
         </div>
         {stringsAssociadoData.length === 1 && (
-          <div className="text-gray-400 mt-4">Apenas uma string associada encontrada para esta subcategoria.</div>
+          <div className="text-gray-400 mt-4">{t('topIncidents.onlyOneString')}</div>
         )}
       </div>
     );
@@ -253,30 +257,30 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
             <button onClick={() => setCategoria(null)} className="p-2 hover:bg-gray-100 rounded-full">
               <ChevronLeft className="w-6 h-6" />
             </button>
-            <h2 className="text-xl font-semibold">Subcategorias: {categoria}</h2>
+            <h2 className="text-xl font-semibold">{t('topIncidents.subcategories', { name: getDisplayName(categoria) })}</h2>
           </div>
           <button
             onClick={() => setShowSubcategorySelect(true)}
             className="flex items-center gap-2 px-4 py-2 rounded bg-orange-500 text-white hover:bg-orange-600 transition-colors"
           >
             <Brain className="w-5 h-5" />
-            Analisar com IA
+            {t('topIncidents.analyzeWithAI')}
           </button>
         </div>
         <div className="flex gap-2 mb-4 justify-end">
-          <button onClick={() => setTopN(5)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 5</button>
-          <button onClick={() => setTopN(10)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 10</button>
-          <button onClick={() => setTopN(20)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 20</button>
+          <button onClick={() => setTopN(5)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 5 })}</button>
+          <button onClick={() => setTopN(10)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 10 })}</button>
+          <button onClick={() => setTopN(20)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 20 })}</button>
         </div>
         <div style={{ height: chartHeight + 'px' }}>
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={subcategoriasData} barCategoryGap={subcategoriasData.length === 1 ? '40%' : '20%'} barGap={20}>
               <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} />
+              <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} tickFormatter={getDisplayName} />
               <YAxis />
-              <Tooltip wrapperStyle={{ zIndex: 1000 }} formatter={(value: number, name: string) => [`${value} chamados`, name]} />
+              <Tooltip wrapperStyle={{ zIndex: 1000 }} formatter={(value: number, name: string) => [t('topIncidents.ticketCount', { count: value }), name]} labelFormatter={getDisplayName} />
               <Legend />
-              <Bar dataKey="value" name="Quantidade de Chamados" fill="#3b82f6" onClick={(_, idx) => {
+              <Bar dataKey="value" name={t('topIncidents.series')} fill="#3b82f6" onClick={(_, idx) => {
                 setSubcategoria(subcategoriasData[idx].name);
                 setSelectedSubcategory(subcategoriasData[idx].name);
               }} cursor="pointer">
@@ -288,12 +292,12 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
           </ResponsiveContainer>
         </div>
         {subcategoriasData.length === 1 && (
-          <div className="text-gray-400 mt-4">Apenas uma subcategoria encontrada para esta categoria.</div>
+          <div className="text-gray-400 mt-4">{t('topIncidents.onlyOneSubcategory')}</div>
         )}
         {showSubcategorySelect && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-[#1E293B] rounded-lg p-6 w-full max-w-md">
-              <h2 className="text-lg font-bold mb-4">Escolha uma subcategoria para análise</h2>
+              <h2 className="text-lg font-bold mb-4">{t('topIncidents.chooseSubcategory')}</h2>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 {subcategoriasData.map(subcat => (
                   <button
@@ -319,7 +323,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
                     }}
                     className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors w-full text-left"
                   >
-                    {subcat.name} <span className="text-xs text-gray-200 ml-2">({subcat.value} chamados)</span>
+                    {getDisplayName(subcat.name)} <span className="text-xs text-gray-200 ml-2">{t('topIncidents.ticketCountShort', { count: subcat.value })}</span>
                   </button>
                 ))}
               </div>
@@ -327,7 +331,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
                 onClick={() => setShowSubcategorySelect(false)}
                 className="mt-6 px-4 py-2 rounded bg-gray-500 text-white hover:bg-gray-600 w-full"
               >
-                Cancelar
+                {t('topIncidents.cancel')}
               </button>
             </div>
           </div>
@@ -354,7 +358,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
           <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-full">
             <ChevronLeft className="w-6 h-6" />
           </button>
-          <h2 className="text-xl font-semibold">Top Chamados por Categoria</h2>
+          <h2 className="text-xl font-semibold">{t('topIncidents.title')}</h2>
         </div>
         <div className="flex gap-2">
           <button
@@ -362,12 +366,12 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
             className="flex items-center gap-2 px-4 py-2 rounded bg-orange-500 text-white hover:bg-orange-600 transition-colors"
           >
             <Brain className="w-5 h-5" />
-            Analisar com IA
+            {t('topIncidents.analyzeWithAI')}
           </button>
           <div className="flex gap-2">
-            <button onClick={() => setTopN(5)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 5</button>
-            <button onClick={() => setTopN(10)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 10</button>
-            <button onClick={() => setTopN(20)} className="px-3 py-1 rounded bg-blue-500 text-white">Top 20</button>
+            <button onClick={() => setTopN(5)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 5 })}</button>
+            <button onClick={() => setTopN(10)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 10 })}</button>
+            <button onClick={() => setTopN(20)} className="px-3 py-1 rounded bg-blue-500 text-white">{t('topIncidents.top', { count: 20 })}</button>
           </div>
         </div>
       </div>
@@ -375,11 +379,11 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
         <ResponsiveContainer width="100%" height="100%">
           <BarChart data={categoriasData}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} />
+            <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} interval={0} tickFormatter={getDisplayName} />
             <YAxis />
-            <Tooltip formatter={(value: number, name: string) => [`${value} chamados`, name]} />
+            <Tooltip formatter={(value: number, name: string) => [t('topIncidents.ticketCount', { count: value }), name]} labelFormatter={getDisplayName} />
             <Legend />
-            <Bar dataKey="value" name="Quantidade de Chamados" fill="#3b82f6" onClick={(_, idx) => setCategoria(categoriasData[idx].name)} cursor="pointer">
+            <Bar dataKey="value" name={t('topIncidents.series')} fill="#3b82f6" onClick={(_, idx) => setCategoria(categoriasData[idx].name)} cursor="pointer">
               {categoriasData.map((entry, index) => (
                 <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
               ))}
@@ -390,7 +394,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
       {showCategorySelect && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-[#1E293B] rounded-lg p-6 w-full max-w-md">
-            <h2 className="text-lg font-bold mb-4">Escolha uma categoria para análise</h2>
+            <h2 className="text-lg font-bold mb-4">{t('topIncidents.chooseCategory')}</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               {categoriasData.map(cat => (
                 <button
@@ -398,7 +402,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
                   onClick={() => handleCategorySelect(cat.name)}
                   className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors w-full text-left"
                 >
-                  {cat.name} <span className="text-xs text-gray-200 ml-2">({cat.value} chamados)</span>
+                  {getDisplayName(cat.name)} <span className="text-xs text-gray-200 ml-2">{t('topIncidents.ticketCountShort', { count: cat.value })}</span>
                 </button>
               ))}
             </div>
@@ -406,7 +410,7 @@ export const TopIncidentsByStringAssociado: React.FC<Props> = ({ incidents, onBa
               onClick={() => setShowCategorySelect(false)}
               className="mt-6 px-4 py-2 rounded bg-gray-500 text-white hover:bg-gray-600 w-full"
             >
-              Cancelar
+              {t('topIncidents.cancel')}
             </button>
           </div>
         </div>
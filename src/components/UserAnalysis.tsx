@@ -14,9 +14,10 @@ import type { Incident } from '../types/incident';
 import { parseISO, isWithinInterval, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { IncidentDetails } from './IncidentDetails';
-import { normalizePriority, getIncidentState } from '../utils/incidentUtils';
+import { normalizePriority, getIncidentState, isHighPriority } from '../utils/incidentUtils';
 import { MonthlyIncidentsChart } from './MonthlyIncidentsChart';
 import { IncidentModal } from './IncidentModal';
+import { formatDecimal, t } from '../utils/i18nUtils';
 
 /**
  * Componente UserAnalysis
@@ -59,25 +60,25 @@ interface UserData {
 const STATUS_OPTIONS = [
   { 
     value: '', 
-    label: 'Todos os Estados',
+    labelKey: 'analysis.status.all' as const,
     icon: Filter,
     color: 'text-gray-400'
   },
   { 
     value: 'Aberto', 
-    label: 'Em Aberto',
+    labelKey: 'analysis.status.open' as const,
     icon: AlertCircle,
     color: 'text-yellow-400'
   },
   { 
     value: 'Em Andamento', 
-    label: 'Em Andamento',
+    labelKey: 'analysis.status.inProgress' as const,
     icon: Clock,
     color: 'text-blue-400'
   },
   { 
     value: 'Fechado', 
-    label: 'Fechados',
+    labelKey: 'analysis.status.closed' as const,
     icon: CheckCircle2,
     color: 'text-green-400'
   }
@@ -114,7 +115,7 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
     const data: Record<string, UserData> = {};
 
     filteredIncidents.forEach(incident => {
-      const caller = incident.Caller?.trim() || 'Não identificado';
+      const caller = incident.Caller?.trim() || t('userAnalysis.unidentified');
       const priority = normalizePriority(incident.Priority) as PriorityKey;
       const state = getIncidentState(incident.State) as StateKey;
       
@@ -144,7 +145,7 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
 
       if (state !== 'Fechado') {
         data[caller].openIncidents++;
-        if (priority === 'P1' || priority === 'P2') {
+        if (isHighPriority(priority)) {
           data[caller].criticalPending++;
         }
       }
@@ -155,7 +156,7 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
     return Object.values(data)
       .map(user => ({
         ...user,
-        percentage: ((user.total / totalIncidents) * 100).toFixed(1)
+        percentage: formatDecimal((user.total / totalIncidents) * 100)
       }))
       .sort((a, b) => b.total - a.total)
       .slice(0, 20);
@@ -188,12 +189,12 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
   return (
     <div className="bg-[#151B2B] p-6 rounded-lg space-y-6">
       <div className="flex items-center justify-between">
-        <h2 className="text-xl font-semibold text-white">Análise por Usuários</h2>
+        <h2 className="text-xl font-semibold text-white">{t('userAnalysis.title')}</h2>
         {onClose && (
           <button
             onClick={onClose}
             className="p-2 hover:bg-[#1C2333] rounded-lg transition-colors"
-            aria-label="Fechar análise"
+            aria-label={t('analysis.close')}
           >
             <X className="h-5 w-5 text-gray-400 hover:text-white" />
           </button>
@@ -202,7 +203,7 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
 
       {/* Priority Distribution Chart */}
       <div className="bg-[#1C2333] p-4 rounded-lg">
-        <h3 className="text-lg font-medium text-white mb-4">Distribuição por Prioridade - Top 5 Usuários</h3>
+        <h3 className="text-lg font-medium text-white mb-4">{t('userAnalysis.distribution')}</h3>
         <div className="h-80">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart
@@ -230,7 +231,7 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
               <Bar dataKey="P2" name="P2" stackId="a" fill={CHART_COLORS.P2} />
               <Bar dataKey="P3" name="P3" stackId="a" fill={CHART_COLORS.P3} />
               <Bar dataKey="P4" name="P4" stackId="a" fill={CHART_COLORS.P4} />
-              <Bar dataKey="Não definido" name="Não definido" stackId="a" fill={CHART_COLORS['Não definido']} />
+              <Bar dataKey="Não definido" name={t('analysis.priority.undefined')} stackId="a" fill={CHART_COLORS['Não definido']} />
             </BarChart>
           </ResponsiveContainer>
         </div>
@@ -241,12 +242,12 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
         <table className="w-full">
           <thead className="bg-[#151B2B]">
             <tr>
-              <th className="px-6 py-3 text-left text-sm font-medium text-gray-400">Usuário</th>
+              <th className="px-6 py-3 text-left text-sm font-medium text-gray-400">{t('userAnalysis.user')}</th>
               <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">P1</th>
               <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">P2</th>
               <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">P3</th>
               <th className="px-6 py-3 text-center text-sm font-medium text-gray-400">P4</th>
-              <th className="px-6 py-3 text-right text-sm font-medium text-gray-400">Total</th>
+              <th className="px-6 py-3 text-right text-sm font-medium text-gray-400">{t('userAnalysis.total')}</th>
               <th className="px-6 py-3 text-right text-sm font-medium text-gray-400">%</th>
             </tr>
           </thead>
@@ -266,7 +267,7 @@ export function UserAnalysis({ incidents, onClose, startDate, endDate }: UserAna
                       <div className="flex items-center gap-1 px-2 py-0.5 bg-red-500/10 rounded-full">
                         <AlertTriangle className="h-3 w-3 text-red-500" />
                         <span className="text-xs font-medium text-red-500">
-                          {user.criticalPending} críticos
+                          {t('userAnalysis.critical', { count: user.criticalPending })}
                         </span>
                       </div>
                     )}
@@ -7,6 +7,7 @@
 // =====================================================================
 
 import React from 'react';
+import { t } from '../../utils/i18nUtils';
 
 interface ExecutiveMenuModalProps {
   onClose: () => void;
@@ -20,44 +21,44 @@ export function ExecutiveMenuModal({ onClose, onNavigate }: ExecutiveMenuModalPr
         <button
           onClick={onClose}
           className="absolute top-4 right-4 text-gray-400 hover:text-red-500 text-2xl font-bold"
-          aria-label="Fechar modal"
+          aria-label={t('incident.closeModal')}
         >
           ×
         </button>
         <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
           <span className="inline-block bg-purple-600 rounded-full w-3 h-3"></span>
-          Indicadores Executivos
+          {t('executiveMenu.title')}
         </h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <button onClick={() => onNavigate('executive')} className="bg-[#1E293B] hover:bg-indigo-600 p-6 rounded-lg flex flex-col items-center transition-colors">
             <span className="text-white text-3xl mb-2">📊</span>
-            <span className="text-white font-bold">Visão Consolidada</span>
-            <span className="text-gray-400 text-sm">Dashboard Executivo</span>
+            <span className="text-white font-bold">{t('executiveMenu.consolidated')}</span>
+            <span className="text-gray-400 text-sm">{t('executive.title')}</span>
           </button>
           <button onClick={() => onNavigate('top-categories')} className="bg-[#1E293B] hover:bg-indigo-600 p-6 rounded-lg flex flex-col items-center transition-colors">
             <span className="text-white text-3xl mb-2">📈</span>
-            <span className="text-white font-bold">Top 5 Categorias</span>
-            <span className="text-gray-400 text-sm">Principais categorias</span>
+            <span className="text-white font-bold">{t('executiveMenu.topCategories')}</span>
+            <span className="text-gray-400 text-sm">{t('executiveMenu.topCategoriesDescription')}</span>
           </button>
           <button onClick={() => onNavigate('top-locations')} className="bg-[#1E293B] hover:bg-indigo-600 p-6 rounded-lg flex flex-col items-center transition-colors">
             <span className="text-white text-3xl mb-2">📍</span>
-            <span className="text-white font-bold">Top 5 Localidades</span>
-            <span className="text-gray-400 text-sm">Principais localidades</span>
+            <span className="text-white font-bold">{t('executiveMenu.topLocations')}</span>
+            <span className="text-gray-400 text-sm">{t('executiveMenu.topLocationsDescription')}</span>
           </button>
           <button onClick={() => onNavigate('monthly-summary')} className="bg-[#1E293B] hover:bg-indigo-600 p-6 rounded-lg flex flex-col items-center transition-colors">
             <span className="text-white text-3xl mb-2">📅</span>
-            <span className="text-white font-bold">Sumário Mensal</span>
-            <span className="text-gray-400 text-sm">Resumo mensal</span>
+            <span className="text-white font-bold">{t('executiveMenu.monthlySummary')}</span>
+            <span className="text-gray-400 text-sm">{t('executiveMenu.monthlySummaryDescription')}</span>
           </button>
           <button onClick={() => onNavigate('monthly-location-summary')} className="bg-[#1E293B] hover:bg-indigo-600 p-6 rounded-lg flex flex-col items-center transition-colors">
             <span className="text-white text-3xl mb-2">🗺️</span>
-            <span className="text-white font-bold">Sumarização Mensal por Localidade</span>
-            <span className="text-gray-400 text-sm">Resumo mensal por localidade</span>
+            <span className="text-white font-bold">{t('app.monthlyLocationSummary')}</span>
+            <span className="text-gray-400 text-sm">{t('executiveMenu.monthlyLocationDescription')}</span>
           </button>
           <button onClick={() => onNavigate('ai-predictive')} className="bg-[#1E293B] hover:bg-indigo-600 p-6 rounded-lg flex flex-col items-center transition-colors">
             <span className="text-white text-3xl mb-2">🤖</span>
-            <span className="text-white font-bold">Análise Preditiva - IA</span>
-            <span className="text-gray-400 text-sm">Previsões e insights</span>
+            <span className="text-white font-bold">{t('executive.predictive')}</span>
+            <span className="text-gray-400 text-sm">{t('executiveMenu.predictiveDescription')}</span>
           </button>
         </div>
       </div>
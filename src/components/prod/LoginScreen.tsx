@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { User, Lock } from 'lucide-react';
+import { t } from '../../utils/i18nUtils';
 
 const AUTH_KEY = 'app_auth_state';
 
@@ -21,7 +22,7 @@ export function LoginScreen({ onLogin }: { onLogin: () => void }) {
       setError('');
       onLogin();
     } else {
-      setError('Credenciais inválidas');
+      setError(t('auth.invalidCredentials'));
     }
   };
 
@@ -35,17 +36,17 @@ export function LoginScreen({ onLogin }: { onLogin: () => void }) {
               <span className="text-[#1e40af]">On</span><span className="text-orange-500">Set</span>
             </span>
           </div>
-          <h1 className="text-2xl font-bold text-white text-center mb-1">Painel de Operações de TI</h1>
-          <p className="text-orange-500 text-center text-sm mb-1">Conectando Inteligência e Tecnologia</p>
+          <h1 className="text-2xl font-bold text-white text-center mb-1">{t('auth.appName')}</h1>
+          <p className="text-orange-500 text-center text-sm mb-1">{t('upload.tagline')}</p>
           <p className="text-gray-300 text-center text-sm mb-6">
-            Plataforma com IA nativa para monitorar e analisar incidentes de TI em tempo real, gerar dashboards interativos, identificar padrões automaticamente e realizar análises de causa-raiz acionáveis.
+            {t('auth.prodDescription')}
           </p>
           <form onSubmit={handleSubmit} className="w-full space-y-5">
             {error && (
               <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 text-red-500 text-center mb-2">{error}</div>
             )}
             <div>
-              <label htmlFor="username" className="block text-sm font-medium text-gray-400 mb-1">Usuário</label>
+              <label htmlFor="username" className="block text-sm font-medium text-gray-400 mb-1">{t('auth.username')}</label>
               <div className="relative">
                 <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
                 <input
@@ -54,13 +55,13 @@ export function LoginScreen({ onLogin }: { onLogin: () => void }) {
                   value={username}
                   onChange={e => setUsername(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 bg-[#0B1120] border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                  placeholder="Digite seu nome de usuário"
+                  placeholder={t('auth.usernamePlaceholder')}
                   autoComplete="username"
                 />
               </div>
             </div>
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-400 mb-1">Senha</label>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-400 mb-1">{t('auth.password')}</label>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
                 <input
@@ -69,7 +70,7 @@ export function LoginScreen({ onLogin }: { onLogin: () => void }) {
                   value={password}
                   onChange={e => setPassword(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 bg-[#0B1120] border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                  placeholder="Digite sua senha"
+                  placeholder={t('auth.passwordPlaceholder')}
                   autoComplete="current-password"
                 />
               </div>
@@ -82,13 +83,13 @@ export function LoginScreen({ onLogin }: { onLogin: () => void }) {
                 onChange={e => setRememberMe(e.target.checked)}
                 className="h-4 w-4 text-blue-600 border-gray-300 rounded"
               />
-              <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-300">Lembrar-me</label>
+              <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-300">{t('auth.rememberMe')}</label>
             </div>
             <button
               type="submit"
               className="w-full bg-blue-700 hover:bg-blue-800 text-white font-medium py-2 px-4 rounded-lg transition-colors"
             >
-              Entrar
+              {t('auth.signIn')}
             </button>
           </form>
         </div>
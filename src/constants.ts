@@ -1,6 +0,0 @@
-// SLA thresholds for requests (in days)
-export const REQUEST_SLA_THRESHOLDS = {
-  HIGH: 3,    // 3 days
-  MEDIUM: 5,  // 5 days
-  LOW: 7      // 7 days
-}; 
\ No newline at end of file
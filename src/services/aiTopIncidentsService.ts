@@ -1,4 +1,6 @@
 import { Incident } from '../types/incident';
+import { MessageKey } from '../utils/i18nMessages';
+import { getAILanguageInstruction, getPromptSectionHeaders, getSectionHeaderPattern, t } from '../utils/i18nUtils';
 
 export interface TopIncidentsAIAnalysisResult {
   causaRaiz: string;
@@ -21,7 +23,7 @@ export async function analyzeTopIncidentsByStringAssociado(
   stringAssociado?: string
 ): Promise<TopIncidentsAIAnalysisResult> {
   const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  if (!apiKey) throw new Error('API Key da OpenAI não configurada');
+  if (!apiKey) throw new Error(t('prompt.error.missingApiKey'));
 
   // Montar o prompt com os dados filtrados
   const filtered = incidents.filter(inc => {
@@ -38,7 +40,7 @@ export async function analyzeTopIncidentsByStringAssociado(
   // Ordenar por recorrência (quantidade de chamados por descrição ou shortDescription)
   const countMap: Record<string, { count: number; inc: Incident }> = {};
   filtered.forEach(inc => {
-    const key = inc.ShortDescription?.trim() || 'Sem descrição';
+    const key = inc.ShortDescription?.trim() || t('prompt.noDescription');
     if (!countMap[key]) countMap[key] = { count: 0, inc };
     countMap[key].count++;
   });
@@ -49,65 +51,26 @@ export async function analyzeTopIncidentsByStringAssociado(
     .map(obj => obj.inc);
 
   const incidentesStr = sortedByRecurrence.map(inc =>
-    `Número: ${inc.Number}, Prioridade: ${inc.Priority}, Estado: ${inc.State}, Aberto em: ${inc.Opened}, Fechado em: ${inc.Closed || '-'}, Descrição: ${inc.ShortDescription}`
+    t('prompt.incidentLine', {
+      number: inc.Number,
+      priority: inc.Priority,
+      state: inc.State,
+      opened: inc.Opened,
+      closed: inc.Closed || '-',
+      description: inc.ShortDescription
+    })
   ).join('\n');
 
-  const prompt = `Você é um analista sênior de Dados de Operações de TI.
-Vou fornecer um conjunto de registros de incidentes extraídos do ServiceNow, contendo para cada chamado, no mínimo, os campos:
-
-Short description (descrição resumida do incidente)
-Caller (quem abriu o chamado)
-Priority (nível de prioridade)
-State (estado atual: aberto, em atendimento, fechado etc.)
-Category (categoria principal)
-Subcategory (subcategoria)
-StringAssociado (string de associação)
-FuncaoAssociada (função associada)
-
-INSTRUÇÕES INTERNAS (NÃO INCLUIR NA RESPOSTA):
-Para realizar a análise, siga estas etapas:
-1. Pré-processamento: Padronize textos, trate valores faltantes, analise distribuições
-2. Análise exploratória: Crie tabelas de frequência e nuvens de palavras
-3. Detecção de recorrências: Use clustering para agrupar incidentes similares
-4. Causa-raiz: Elabore árvores de problemas para clusters relevantes
-5. Considere sempre a relação entre StringAssociado e FuncaoAssociada
-
-ESTRUTURA DA RESPOSTA:
-Sua resposta DEVE seguir EXATAMENTE este formato, com as seções abaixo:
-
-**Sumário Executivo:**
-[Resumo conciso dos principais pontos encontrados na análise]
-
-**Metodologia:**
-[Descrição da abordagem utilizada para analisar os dados]
-
-**Resultados:**
-[Análise detalhada dos padrões encontrados, incluindo as top 5 combinações de Category + Subcategory]
-
-**Causa-Raiz:**
-[Identificação das causas principais dos incidentes mais recorrentes]
-
-**Recomendações:**
-[Lista de recomendações específicas para melhorar o gerenciamento de incidentes]
-
-**Impactos Detalhados:**
-[Array JSON com os top 5 impactos mais significativos, no formato:
-[
-  {
-    "categoria": "nome da categoria",
-    "subcategoria": "nome da subcategoria",
-    "quantidade": número de incidentes,
-    "descricao": "descrição opcional do impacto"
-  }
-]]
-
-Contexto:
-Categoria: ${categoria}${subcategoria ? `, Subcategoria: ${subcategoria}` : ''}${stringAssociado ? `, String Associado: ${stringAssociado}` : ''}.
+  const context =
+    t('prompt.topIncidents.category', { value: categoria }) +
+    (subcategoria ? t('prompt.topIncidents.subcategory', { value: subcategoria }) : '') +
+    (stringAssociado ? t('prompt.topIncidents.string', { value: stringAssociado }) : '');
 
-Incidentes:
-${incidentesStr}
-
-IMPORTANTE: Responda apenas com as seções solicitadas, sem incluir as instruções internas.`;
+  const prompt = t('prompt.topIncidents.user', {
+    ...getPromptSectionHeaders(),
+    context,
+    incidents: incidentesStr
+  });
 
   const response = await fetch('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
@@ -118,7 +81,7 @@ IMPORTANTE: Responda apenas com as seções solicitadas, sem incluir as instruç
     body: JSON.stringify({
       model: 'gpt-3.5-turbo',
       messages: [
-        { role: 'system', content: 'Você é um especialista em ITSM e análise de incidentes.' },
+        { role: 'system', content: `${t('prompt.topIncidents.system')} ${getAILanguageInstruction()}` },
         { role: 'user', content: prompt }
       ],
       max_tokens: 800,
@@ -127,7 +90,7 @@ IMPORTANTE: Responda apenas com as seções solicitadas, sem incluir as instruç
   });
 
   if (!response.ok) {
-    throw new Error('Erro ao consultar a OpenAI: ' + response.statusText);
+    throw new Error(t('prompt.error.requestFailed', { status: response.statusText }));
   }
 
   const data = await response.json();
@@ -135,13 +98,18 @@ IMPORTANTE: Responda apenas com as seções solicitadas, sem incluir as instruç
   console.log('Resposta bruta da IA:', content);
 
   // Extrair as seções do texto da IA usando delimitador correto
-  const sections = content.split(/\n\*\*/);
-  const sumarioExecutivo = sections.find((s: string) => s.startsWith('Sumário Executivo'))?.replace(/^Sumário Executivo:?\s*/i, '').trim() || '';
-  const metodologia = sections.find((s: string) => s.startsWith('Metodologia'))?.replace(/^Metodologia:?\s*/i, '').trim() || '';
-  const resultados = sections.find((s: string) => s.startsWith('Resultados'))?.replace(/^Resultados:?\s*/i, '').trim() || '';
-  const causaRaiz = sections.find((s: string) => s.startsWith('Causa-Raiz') || s.startsWith('Causa Raiz'))?.replace(/^Causa[- ]?Raiz:?\s*/i, '').trim() || '';
-  const recomendacoesRaw = sections.find((s: string) => s.startsWith('Recomendações'))?.replace(/^Recomendações:?\s*/i, '').trim() || '';
-  const impactosDetalhadosRaw = sections.find((s: string) => s.startsWith('Impactos Detalhados'))?.replace(/^Impactos Detalhados:?\s*/i, '').trim() || '';
+  const sections: string[] = content.split(/\n\*\*/);
+  // Os títulos vêm no idioma do prompt; asteriscos restantes do markdown são descartados
+  const findSection = (key: MessageKey): string => {
+    const header = new RegExp(`^\\**${getSectionHeaderPattern(key)}:?\\**\\s*`, 'i');
+    return sections.find(s => header.test(s))?.replace(header, '').trim() || '';
+  };
+  const sumarioExecutivo = findSection('prompt.section.summary');
+  const metodologia = findSection('prompt.section.methodology');
+  const resultados = findSection('prompt.section.results');
+  const causaRaiz = findSection('prompt.section.rootCause');
+  const recomendacoesRaw = findSection('prompt.section.recommendations');
+  const impactosDetalhadosRaw = findSection('prompt.section.impacts');
   
   // Log detalhado das seções extraídas
   console.log('Seções extraídas:', JSON.stringify({
@@ -1,4 +1,6 @@
 import { Incident } from '../types/incident';
+import { MessageKey } from '../utils/i18nMessages';
+import { getAILanguageInstruction, getPromptSectionHeaders, getSectionHeaderPattern, t } from '../utils/i18nUtils';
 
 export interface StringAnalysisResult {
   sumarioExecutivo: string;
@@ -19,7 +21,7 @@ export async function analyzeStringDistribution(
   selectedString: string
 ): Promise<StringAnalysisResult> {
   const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  if (!apiKey) throw new Error('API Key da OpenAI não configurada');
+  if (!apiKey) throw new Error(t('prompt.error.missingApiKey'));
 
   // Filtrar incidentes pela string selecionada
   const filteredIncidents = incidents.filter(inc => 
@@ -29,7 +31,7 @@ export async function analyzeStringDistribution(
   // Ordenar por recorrência (quantidade de chamados por descrição)
   const countMap: Record<string, { count: number; inc: Incident }> = {};
   filteredIncidents.forEach(inc => {
-    const key = inc.ShortDescription?.trim() || 'Sem descrição';
+    const key = inc.ShortDescription?.trim() || t('prompt.noDescription');
     if (!countMap[key]) countMap[key] = { count: 0, inc };
     countMap[key].count++;
   });
@@ -41,77 +43,22 @@ export async function analyzeStringDistribution(
     .map(obj => obj.inc);
 
   const incidentesStr = sortedByRecurrence.map(inc =>
-    `Número: ${inc.Number}, Prioridade: ${inc.Priority}, Estado: ${inc.State}, Aberto em: ${inc.Opened}, Fechado em: ${inc.Closed || '-'}, Descrição: ${inc.ShortDescription}, Função: ${inc.FuncaoAssociada || 'Não Definido'}`
+    t('prompt.incidentLine', {
+      number: inc.Number,
+      priority: inc.Priority,
+      state: inc.State,
+      opened: inc.Opened,
+      closed: inc.Closed || '-',
+      description: inc.ShortDescription
+    }) + t('prompt.functionSuffix', { function: inc.FuncaoAssociada || t('prompt.notDefined') })
   ).join('\n');
 
-  const prompt = `Você é um analista sênior de Dados de Operações de TI.
-Vou fornecer um conjunto de registros de incidentes extraídos do ServiceNow, focando na análise de uma string específica.
-
-INSTRUÇÕES INTERNAS (NÃO INCLUIR NA RESPOSTA):
-Para realizar a análise, siga estas etapas:
-1. Pré-processamento: Padronize textos, trate valores faltantes, analise distribuições
-2. Análise exploratória: Crie tabelas de frequência e nuvens de palavras
-3. Detecção de recorrências: Use clustering para agrupar incidentes similares
-4. Causa-raiz: Elabore árvores de problemas para clusters relevantes
-5. Considere sempre a relação entre StringAssociado e FuncaoAssociada
-
-ESTRUTURA DA RESPOSTA:
-Sua resposta DEVE seguir EXATAMENTE este formato, com as seções abaixo. TODAS as seções são OBRIGATÓRIAS e devem conter informações relevantes:
-
-**Sumário Executivo:**
-[Resumo conciso dos principais pontos encontrados na análise, incluindo:
-- Total de incidentes analisados
-- Principais padrões identificados
-- Impacto geral na operação]
-
-**Metodologia:**
-[Descrição detalhada da abordagem utilizada, incluindo:
-- Técnicas de análise aplicadas
-- Critérios de agrupamento
-- Ferramentas e métodos utilizados]
-
-**Resultados:**
-[Análise detalhada dos padrões encontrados, incluindo:
-- Top 5 combinações de incidentes mais recorrentes
-- Distribuição por prioridade
-- Distribuição por função
-- Tendências temporais]
-
-**Causa-Raiz:**
-[Identificação das causas principais, incluindo:
-- Fatores técnicos identificados
-- Fatores operacionais
-- Relação com processos existentes]
-
-**Recomendações:**
-[Lista de recomendações específicas, incluindo:
-- Ações imediatas
-- Melhorias de processo
-- Prevenção de recorrência]
-
-**Impactos Detalhados:**
-[Array JSON com os top 5 impactos mais significativos, no formato:
-[
-  {
-    "string": "nome da string",
-    "quantidade": número de incidentes,
-    "descricao": "descrição detalhada do impacto, incluindo métricas e consequências"
-  }
-]]
-
-Contexto:
-String Analisada: ${selectedString}
-Total de Incidentes: ${filteredIncidents.length}
-
-Incidentes:
-${incidentesStr}
-
-IMPORTANTE: 
-1. Responda apenas com as seções solicitadas, sem incluir as instruções internas
-2. TODAS as seções são OBRIGATÓRIAS e devem conter informações relevantes
-3. Use dados quantitativos sempre que possível
-4. Mantenha um tom profissional e técnico
-5. Inclua métricas e números específicos nas análises`;
+  const prompt = t('prompt.stringAnalysis.user', {
+    ...getPromptSectionHeaders(),
+    string: selectedString,
+    total: filteredIncidents.length,
+    incidents: incidentesStr
+  });
 
   try {
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
@@ -125,7 +72,7 @@ IMPORTANTE:
         messages: [
           {
             role: 'system',
-            content: 'Você é um analista sênior de Dados de Operações de TI, especializado em análise de incidentes. Sua análise deve ser completa, detalhada e baseada em dados.'
+            content: `${t('prompt.stringAnalysis.system')} ${getAILanguageInstruction()}`
           },
           {
             role: 'user',
@@ -138,18 +85,21 @@ IMPORTANTE:
     });
 
     if (!response.ok) {
-      throw new Error('Erro na chamada à API da OpenAI');
+      throw new Error(t('prompt.error.requestFailed', { status: response.statusText }));
     }
 
     const data = await response.json();
     const content = data.choices[0].message.content;
 
     // Extrair as seções da resposta com validação
-    const sumarioExecutivo = content.match(/Sumário Executivo:([\s\S]*?)(?=\*\*|$)/)?.[1]?.trim() || 'Análise não disponível';
-    const metodologia = content.match(/Metodologia:([\s\S]*?)(?=\*\*|$)/)?.[1]?.trim() || 'Metodologia não disponível';
-    const resultados = content.match(/Resultados:([\s\S]*?)(?=\*\*|$)/)?.[1]?.trim() || 'Resultados não disponíveis';
-    const causaRaiz = content.match(/Causa-Raiz:([\s\S]*?)(?=\*\*|$)/)?.[1]?.trim() || 'Causa raiz não identificada';
-    const recomendacoes = content.match(/Recomendações:([\s\S]*?)(?=\*\*|$)/)?.[1]?.trim() || 'Recomendações não disponíveis';
+    // Os títulos vêm no idioma do prompt, com ou sem o negrito do markdown
+    const findSection = (key: MessageKey): string | undefined =>
+      content.match(new RegExp(`${getSectionHeaderPattern(key)}:\\**([\\s\\S]*?)(?=\\*\\*|$)`, 'i'))?.[1]?.trim();
+    const sumarioExecutivo = findSection('prompt.section.summary') || t('prompt.fallback.summary');
+    const metodologia = findSection('prompt.section.methodology') || t('prompt.fallback.methodology');
+    const resultados = findSection('prompt.section.results') || t('prompt.fallback.results');
+    const causaRaiz = findSection('prompt.section.rootCause') || t('prompt.fallback.rootCause');
+    const recomendacoes = findSection('prompt.section.recommendations') || t('prompt.fallback.recommendations');
     
     // Extrair impactos do JSON com validação
     const impactosMatch = content.match(/\[([\s\S]*?)\]/);
@@ -159,27 +109,29 @@ IMPORTANTE:
         impactos = JSON.parse(impactosMatch[0]);
         // Validar se todos os campos necessários estão presentes
         impactos = impactos.map(impacto => ({
-          string: impacto.string || 'Não especificado',
+          string: impacto.string || t('prompt.rca.notSpecified'),
           quantidade: impacto.quantidade || 0,
-          descricao: impacto.descricao || 'Descrição não disponível'
+          descricao: impacto.descricao || t('prompt.fallback.impactDescription')
         }));
       } catch (e) {
         console.error('Erro ao parsear impactos:', e);
         impactos = [{
           string: selectedString,
           quantidade: filteredIncidents.length,
-          descricao: 'Erro ao processar impactos detalhados'
+          descricao: t('prompt.fallback.impactError')
         }];
       }
     }
 
     // Extrair nível de confiança com validação
-    const nivelConfRaw = content.match(/Nível de Confiança.*?(\d{2,3})\s*%/i)?.[1];
+    const nivelConfRaw = content.match(
+      new RegExp(`${getSectionHeaderPattern('prompt.section.confidence')}.*?(\\d{2,3})\\s*%`, 'i')
+    )?.[1];
     const nivelConfianca = nivelConfRaw ? parseInt(nivelConfRaw, 10) : 90;
 
     // Validar se todos os campos obrigatórios estão preenchidos
     if (!sumarioExecutivo || !metodologia || !resultados || !causaRaiz || !recomendacoes || impactos.length === 0) {
-      throw new Error('Análise incompleta: alguns campos obrigatórios não foram preenchidos');
+      throw new Error(t('prompt.error.incomplete'));
     }
 
     return {
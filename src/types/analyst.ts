@@ -1,3 +1,5 @@
+import { Incident } from './incident';
+
 export interface Analyst {
   name: string;
   level: string;
@@ -8,6 +10,8 @@ export interface Analyst {
 }
 
 export interface AnalystShift {
+  shift: ShiftKey;
+  // Localidade (nome curto, aceita '*'); vazio é o padrão para localidades sem turnos próprios
   location: string;
   level: string;
   startTime: string;
@@ -48,13 +52,46 @@ export const SHIFTS = {
   }
 } as const;
 
+export type ShiftKey = keyof typeof SHIFTS;
+
 export const SHIFT_LEVELS = {
   N1: 'N1 - Suporte Local',
   N2: 'N2 - Infraestrutura',
   N3: 'N3 - Especialista'
 } as const;
 
+export type AnalystLevel = keyof typeof SHIFT_LEVELS;
+
 export const SHIFT_SCHEDULES = {
   BUSINESS: '5x2',
   CONTINUOUS: '24x7'
-} as const;
\ No newline at end of file
+} as const;
+
+export interface AnalystWorkload {
+  analyst: Analyst;
+  tickets: number;
+  // Horas de escala no período dos chamados
+  shiftHours: number;
+  ticketsPerHour: number;
+}
+
+export interface UncoveredIncident {
+  incident: Incident;
+  level: AnalystLevel;
+  location: string;
+}
+
+export interface CoverageHeatmapRow {
+  location: string;
+  // Índice = hora do dia: média de analistas em escala e chamados abertos no período
+  hours: { analysts: number; incidents: number }[];
+}
+
+export interface StaffingAnalysis {
+  workload: AnalystWorkload[];
+  uncovered: UncoveredIncident[];
+  heatmap: CoverageHeatmapRow[];
+  // Valores de AssignedTo sem analista correspondente na escala
+  unmatchedAssignees: string[];
+  periodDays: number;
+}
@@ -26,4 +26,11 @@ export interface BacklogStats {
   averageStoryPoints: number;
   topRequesters: Array<{ requester: string; count: number }>;
   upcomingDueDates: Array<{ item: BacklogItem; daysUntilDue: number }>;
-}
\ No newline at end of file
+}
+
+export interface SprintVelocity {
+  sprint: string;
+  itemCount: number;
+  committedPoints: number;
+  completedPoints: number;
+}
@@ -0,0 +1,21 @@
+import { SHIFT_SCHEDULES } from './analyst';
+
+export type CalendarSchedule = typeof SHIFT_SCHEDULES[keyof typeof SHIFT_SCHEDULES];
+
+export interface BusinessCalendar {
+  id: string;
+  name: string;
+  schedule: CalendarSchedule;
+  // Expediente (HH:mm); ignorado em calendários 24x7
+  startTime: string;
+  endTime: string;
+  // Dias úteis (0 = domingo ... 6 = sábado)
+  workDays: number[];
+  // UF para feriados estaduais; vazio considera apenas os nacionais
+  state: string;
+  // Feriados adicionais (municipais, pontos facultativos) em yyyy-MM-dd
+  customHolidays: string[];
+  // Localidades atendidas por este calendário
+  locations: string[];
+  updatedAt: string;
+}
@@ -0,0 +1,15 @@
+export type CategoryRuleField = 'Category' | 'Subcategory' | 'ShortDescription' | 'AssignmentGroup';
+
+export type CategoryRuleOperator = 'contains' | 'equals' | 'startsWith' | 'regex';
+
+export interface CategoryRule {
+  id: string;
+  field: CategoryRuleField;
+  operator: CategoryRuleOperator;
+  // Comparado sem diferenciar maiúsculas; em 'regex' é uma expressão regular
+  pattern: string;
+  targetCategory: string;
+  // Vazio mantém a subcategoria original do chamado
+  targetSubcategory: string;
+  enabled: boolean;
+}
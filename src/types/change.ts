@@ -0,0 +1,21 @@
+import { Incident } from './incident';
+
+export interface Change {
+  Number: string;
+  ShortDescription: string;
+  PlannedStart: string;
+  PlannedEnd: string;
+  ActualStart: string;
+  ActualEnd: string;
+  ConfigurationItem: string;
+  AssignmentGroup: string;
+  Risk: string;
+  State: string;
+}
+
+export interface ChangeIncidentCorrelation {
+  change: Change;
+  windowStart: string;
+  windowEnd: string;
+  incidents: Array<{ incident: Incident; hoursAfterStart: number }>;
+}
@@ -0,0 +1,20 @@
+import { Incident } from './incident';
+
+export interface ConfigurationItemRecord {
+  Name: string;
+  Class: string;
+  Owner: string;
+  Criticality: string;
+  BusinessService: string;
+}
+
+export interface ImpactStats {
+  name: string;
+  incidents: Incident[];
+  highPriorityCount: number;
+  highPriorityShare: number;
+  outageHours: number;
+  mttrHours: number | null;
+  fragilityScore: number;
+  cmdb?: ConfigurationItemRecord;
+}
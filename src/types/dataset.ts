@@ -0,0 +1,18 @@
+import { Incident } from './incident';
+import { Request } from './request';
+
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  sourceFiles: string[];
+  createdAt: string;
+  updatedAt: string;
+  incidentCount: number;
+  requestCount: number;
+}
+
+export interface StoredDataset {
+  meta: DatasetMeta;
+  incidents: Incident[];
+  requests: Request[];
+}
@@ -0,0 +1,4 @@
+export type Language = 'pt-BR' | 'en-US' | 'es-ES';
+
+// Valores interpolados nas mensagens, ex.: t('header.currentDataset', { name })
+export type MessageParams = Record<string, string | number>;
@@ -5,6 +5,9 @@ export interface Incident {
   State: string;
   Category: string;
   Subcategory?: string;
+  // Categoria após as regras de normalização (ver categoryUtils)
+  NormalizedCategory?: string;
+  NormalizedSubcategory?: string;
   Caller: string;
   AssignmentGroup: string;
   AssignedTo: string;
@@ -43,6 +46,8 @@ export interface Incident {
   CallerManagerTitle?: string;
   CallerTitle?: string;
   Closed?: string;
+  // Ferramenta ITSM de origem (ausente = ServiceNow)
+  SourceSystem?: string;
 }
 
 export interface IncidentStats {
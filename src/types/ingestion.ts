@@ -0,0 +1,137 @@
+import { MessageKey } from '../utils/i18nMessages';
+import { Language } from './i18n';
+import { PriorityModel } from './priority';
+
+export type IngestionTarget = 'incidents' | 'requests';
+
+export interface IngestionField {
+  key: string;
+  // Chave do catálogo de mensagens, traduzida na exibição
+  labelKey: MessageKey;
+  aliases: string[];
+  required?: boolean;
+  sanitize?: boolean;
+}
+
+export type DateFormat = 'auto' | 'iso' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'excel';
+
+export interface DateColumnSettings {
+  format: DateFormat;
+  // 'local' (navegador), 'UTC' ou um fuso IANA, ex.: America/Sao_Paulo
+  timezone: string;
+}
+
+export interface DateColumnDetection {
+  format: DateFormat;
+  hasTimezone: boolean;
+  ambiguous: boolean;
+  sampleSize: number;
+}
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  target: IngestionTarget;
+  sourceSystem?: string;
+  columns: Record<string, string[]>;
+  strict?: boolean;
+  dateFormats?: Record<string, DateColumnSettings>;
+  // Adaptador de ferramenta ITSM cujo vocabulário de estado/prioridade é traduzido
+  adapterId?: string;
+  updatedAt: string;
+}
+
+export interface ImportAdapter {
+  id: string;
+  name: string;
+  columns: Record<IngestionTarget, Record<string, string[]>>;
+  // Chaves em minúsculas; valores no vocabulário do ServiceNow usado pelos modelos
+  states: Record<IngestionTarget, Record<string, string>>;
+  priorities: Record<string, string>;
+  // Evita colisão de números puramente numéricos com outras ferramentas
+  numberPrefix?: string;
+  samples: Partial<Record<IngestionTarget, string>>;
+}
+
+export interface ValidationError {
+  row: number;
+  column: string;
+  value: string;
+  reason: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ColumnCompleteness {
+  column: string;
+  filled: number;
+  total: number;
+  percentage: number;
+}
+
+export interface DataQualityIssue {
+  row: number;
+  number: string;
+  column: string;
+  value: string;
+  reason: string;
+}
+
+export interface DuplicateNumber {
+  number: string;
+  rows: number[];
+}
+
+export interface DataQualityReport {
+  generatedAt: string;
+  totalRows: number;
+  rejectedRows: number;
+  completeness: ColumnCompleteness[];
+  invalidDates: DataQualityIssue[];
+  unknownPriorities: DataQualityIssue[];
+  unknownStates: DataQualityIssue[];
+  duplicateNumbers: DuplicateNumber[];
+  updatedBeforeOpened: DataQualityIssue[];
+}
+
+export interface IngestionResult<T> {
+  items: T[];
+  errors: ValidationError[];
+  totalRows: number;
+  unmappedColumns: string[];
+  quality: DataQualityReport;
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  total: number;
+}
+
+export interface ImportProgress {
+  stage: 'reading' | 'processing';
+  processed: number;
+  total: number;
+}
+
+export type IngestionWorkerRequest =
+  // O worker não acessa o localStorage: idioma e modelo de prioridade vão junto na mensagem
+  | { type: 'parse'; files: File[]; previewRows: number; language: Language }
+  | { type: 'process'; target: IngestionTarget; profile: ColumnMappingProfile | null; priorityModel: PriorityModel; language: Language };
+
+export type IngestionWorkerResponse =
+  | { type: 'progress'; progress: ImportProgress }
+  | {
+      type: 'parsed';
+      headers: string[];
+      previewRows: Record<string, string>[];
+      totalRows: number;
+      dateDetections: Record<string, DateColumnDetection>;
+    }
+  | { type: 'processed'; result: IngestionResult<unknown> }
+  | { type: 'error'; message: string };
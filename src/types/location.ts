@@ -0,0 +1,18 @@
+export interface LocationDirectoryEntry {
+  id: string;
+  // Nome curto exibido nos painéis (ex.: SA-Local Sup)
+  shortName: string;
+  // Nomes completos do grupo designado; '*' casa com qualquer trecho
+  patterns: string[];
+  region: string;
+  // UF da localidade
+  state: string;
+  timezone: string;
+  headcount: number;
+  updatedAt: string;
+}
+
+export interface UnmappedLocationGroup {
+  group: string;
+  count: number;
+}
@@ -0,0 +1,20 @@
+import { Incident } from './incident';
+
+export type PriorityLevel = 'P1' | 'P2' | 'P3' | 'P4';
+
+// Escala de impacto e urgência: 1 = alto, 2 = médio, 3 = baixo
+export type ImpactUrgencyLevel = '1' | '2' | '3';
+
+export interface PriorityModel {
+  // matrix[impacto][urgência] = prioridade
+  matrix: Record<ImpactUrgencyLevel, Record<ImpactUrgencyLevel, PriorityLevel>>;
+  // Prioridades contadas como alta prioridade nos painéis e alertas
+  highPriorities: PriorityLevel[];
+}
+
+export interface PriorityMismatch {
+  incident: Incident;
+  // null quando a prioridade registrada não é reconhecida
+  recorded: PriorityLevel | null;
+  derived: PriorityLevel;
+}
@@ -0,0 +1,33 @@
+import { Incident } from './incident';
+
+export type ProblemState = 'new' | 'root_cause_analysis' | 'known_error' | 'resolved';
+
+export type ProblemCandidateCriterion = 'string_associado' | 'configuration_item' | 'short_description';
+
+export interface Problem {
+  id: string;
+  number: string;
+  title: string;
+  state: ProblemState;
+  criterion?: ProblemCandidateCriterion;
+  rootCause: string;
+  workaround: string;
+  incidentNumbers: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProblemCandidate {
+  key: string;
+  criterion: ProblemCandidateCriterion;
+  label: string;
+  incidents: Incident[];
+  firstOpened: string;
+  lastOpened: string;
+}
+
+export interface ProblemCandidateSettings {
+  windowDays: number;
+  minIncidents: number;
+  criteria: ProblemCandidateCriterion[];
+}
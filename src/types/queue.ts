@@ -0,0 +1,16 @@
+export type SupportQueueIcon = 'building' | 'phone' | 'ticket' | 'network' | 'server' | 'users' | 'headset' | 'shield';
+
+export type SupportQueueColor = 'indigo' | 'purple' | 'emerald' | 'orange' | 'blue' | 'pink' | 'cyan' | 'yellow';
+
+export interface SupportQueue {
+  id: string;
+  name: string;
+  // Localidades (nome curto) ou grupos designados, aceitando '*'; vazio aceita qualquer grupo
+  groups: string[];
+  // Categorias aceitas; vazio aceita qualquer categoria
+  categories: string[];
+  icon: SupportQueueIcon;
+  color: SupportQueueColor;
+  // Exibe o card mesmo sem chamados no status selecionado
+  alwaysVisible: boolean;
+}
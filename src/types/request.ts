@@ -1,3 +1,5 @@
+import { isHighPriorityLevel, parsePriority } from '../utils/priorityUtils';
+
 export interface Request {
   Number: string;
   Opened: string;
@@ -44,20 +46,20 @@ export const REQUEST_STATUSES = {
   CANCELLED: 'Cancelado'
 } as const;
 
+// Usa o mesmo intérprete de prioridade dos incidentes: as prioridades altas do
+// modelo viram HIGH e P4 vira LOW
 export const normalizeRequestPriority = (priority: string): keyof typeof REQUEST_PRIORITIES => {
   if (!priority) return 'MEDIUM';
-  
-  const p = priority.toLowerCase().trim();
-  
-  if (p.includes('high') || p.includes('alta') || p.includes('urgent') || p.includes('urgente') || 
-      p.includes('p1') || p.includes('1') || p.startsWith('1 -')) {
-    return 'HIGH';
-  }
-  
-  if (p.includes('low') || p.includes('baixa') || p.includes('p4') || p.includes('4') || p.startsWith('4 -')) {
-    return 'LOW';
+
+  const level = parsePriority(priority);
+  if (!level) {
+    const p = priority.toLowerCase().trim();
+    return p.includes('urgent') ? 'HIGH' : 'MEDIUM';
   }
-  
+
+  if (isHighPriorityLevel(level)) return 'HIGH';
+  if (level === 'P4') return 'LOW';
+
   return 'MEDIUM';
 };
 
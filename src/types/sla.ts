@@ -0,0 +1,37 @@
+export type SLAPolicyTarget = 'incidents' | 'requests';
+
+export interface SLAPolicy {
+  id: string;
+  name: string;
+  target: SLAPolicyTarget;
+  // Critérios opcionais; vazio vale para qualquer valor
+  location: string;
+  category: string;
+  catalogItem: string;
+  // Calendário de horas cobertas; vazio usa o da localidade do chamado (ou 24x7)
+  calendarId?: string;
+  // Meta em horas por prioridade normalizada (P1..P4 ou HIGH/MEDIUM/LOW)
+  targets: Record<string, number>;
+  updatedAt: string;
+}
+
+export interface SLAPolicyScope {
+  location?: string;
+  category?: string;
+  catalogItem?: string;
+}
+
+// Transição de estado importada do histórico/auditoria (sys_audit, histórico de estados)
+export interface StateHistoryEntry {
+  Number: string;
+  State: string;
+  ChangedAt: string;
+}
+
+export type SLAPauseSource = 'history' | 'comments' | 'none';
+
+// Período em espera; sem fim significa que o chamado ainda está pausado
+export interface SLAPausePeriod {
+  start: string;
+  end?: string;
+}
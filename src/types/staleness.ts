@@ -0,0 +1,24 @@
+import { Incident } from './incident';
+
+// 'active': aberto, atribuído ou em andamento; 'onHold': em espera/pendente
+export type StalenessState = 'active' | 'onHold';
+
+export interface StalenessRule {
+  id: string;
+  // Prioridade normalizada (P1..P4, 'Não definido'); vazio vale para todas
+  priority: string;
+  // Vazio vale para os dois grupos de estado
+  state: StalenessState | '';
+  // Nome curto da localidade ou padrão do grupo designado (aceita '*'); vazio vale para todas
+  location: string;
+  // Horas máximas sem atualização antes de o chamado ficar fora de regra
+  maxHours: number;
+  enabled: boolean;
+}
+
+export interface StaleIncident {
+  incident: Incident;
+  rule: StalenessRule;
+  state: StalenessState;
+  hoursSinceUpdate: number;
+}
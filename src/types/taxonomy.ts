@@ -0,0 +1,25 @@
+export type AssetClassId = 'hardware' | 'software' | 'network' | 'telephony' | 'access';
+
+export interface TaxonomyKeyword {
+  // Palavra ou expressão, comparada como palavra inteira e sem diferenciar maiúsculas
+  term: string;
+  weight: number;
+}
+
+export interface AssetClassTaxonomy {
+  id: AssetClassId;
+  label: string;
+  keywords: TaxonomyKeyword[];
+  // Qualquer ocorrência exclui o chamado desta classe
+  negativeKeywords: string[];
+  // Soma mínima dos pesos para o chamado receber a classe
+  threshold: number;
+}
+
+export interface AssetClassOverlap {
+  classes: AssetClassId[];
+  // matrix[a][b]: chamados com as classes a e b; na diagonal, o total da classe
+  matrix: Record<AssetClassId, Record<AssetClassId, number>>;
+  unclassified: number;
+  multiLabel: number;
+}
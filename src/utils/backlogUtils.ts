@@ -0,0 +1,189 @@
+import { BacklogItem, BacklogStats, SprintVelocity } from '../types/backlog';
+import { IngestionField, ValidationError } from '../types/ingestion';
+import { findColumnValue, findHeader } from './ingestionUtils';
+import { parseDateToISO } from './dateUtils';
+import { t } from './i18nUtils';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+
+const BACKLOG_STORAGE_KEY = 'backlog_items';
+
+// Janela (em dias) da lista de próximos vencimentos
+export const UPCOMING_DUE_DAYS = 30;
+
+export const BACKLOG_FIELDS: IngestionField[] = [
+  { key: 'Number', labelKey: 'field.number', required: true, aliases: ['Number', 'ID', 'Issue key', 'Key', 'Item', 'Número', 'Numero'] },
+  { key: 'Created', labelKey: 'field.created', required: true, aliases: ['Created', 'Created Date', 'Opened', 'sys_created_on', 'Criado', 'Data Criação', 'Data de Criação'] },
+  { key: 'Description', labelKey: 'field.description', aliases: ['Description', 'Summary', 'Short description', 'Title', 'Descrição', 'Descricao', 'Resumo', 'Título'] },
+  { key: 'RequestedBy', labelKey: 'field.caller', aliases: ['Requested by', 'Requested By', 'Reporter', 'Requester', 'Solicitante', 'Solicitado por'] },
+  { key: 'Priority', labelKey: 'field.priority', aliases: ['Priority', 'Prioridade'] },
+  { key: 'Status', labelKey: 'field.status', aliases: ['Status', 'State', 'Estado', 'Situação'] },
+  { key: 'Category', labelKey: 'field.category', aliases: ['Category', 'Type', 'Issue Type', 'Categoria', 'Tipo'] },
+  { key: 'Team', labelKey: 'field.team', aliases: ['Team', 'Assignment group', 'Squad', 'Time', 'Equipe', 'Grupo'] },
+  { key: 'AssignedTo', labelKey: 'field.owner', aliases: ['Assigned to', 'Assignee', 'Owner', 'Atribuído para', 'Responsável'] },
+  { key: 'LastUpdate', labelKey: 'field.updated', aliases: ['Last Update', 'Updated', 'sys_updated_on', 'Última Atualização', 'Atualizado'] },
+  { key: 'UpdatedBy', labelKey: 'field.updatedBy', aliases: ['Updated by', 'sys_updated_by', 'Atualizado por'] },
+  { key: 'BusinessValue', labelKey: 'field.businessValue', aliases: ['Business Value', 'Business value', 'Valor de Negócio', 'Valor'] },
+  { key: 'StoryPoints', labelKey: 'field.storyPoints', aliases: ['Story Points', 'Story points', 'Custom field (Story Points)', 'Story Point Estimate', 'Pontos', 'Pontos de História'] },
+  { key: 'Sprint', labelKey: 'field.sprint', aliases: ['Sprint', 'Iteration', 'Iteração'] },
+  { key: 'Release', labelKey: 'field.release', aliases: ['Release', 'Fix Version/s', 'Fix versions', 'Versão', 'Entrega'] },
+  { key: 'DueDate', labelKey: 'field.dueDate', aliases: ['Due Date', 'Due date', 'Due', 'Data de Entrega', 'Prazo', 'Vencimento'] }
+];
+
+const BACKLOG_DATE_FIELDS = ['Created', 'LastUpdate', 'DueDate'];
+
+const DONE_STATUS_TERMS = ['done', 'closed', 'resolved', 'complete', 'released', 'concluído', 'concluido', 'fechado', 'entregue', 'finalizado'];
+
+const NEGATION_TERMS = ['not', 'não', 'nao'];
+const INCOMPLETE_STATUS_TERMS = ['incomplete', 'incompleto', 'incompleta'];
+
+// Compara palavras inteiras: "Incomplete", "Not done" e "Closed Incomplete"
+// não contam como concluídos
+export const isBacklogItemDone = (status: string): boolean => {
+  const words = (status || '').toLowerCase().split(/[^a-zà-ÿ]+/).filter(Boolean);
+  if (words.some(word => INCOMPLETE_STATUS_TERMS.includes(word))) return false;
+  return words.some((word, index) => DONE_STATUS_TERMS.includes(word) && !NEGATION_TERMS.includes(words[index - 1]));
+};
+
+const parseStoryPoints = (value: string): number | null => {
+  if (!value) return 0;
+  const points = Number(value.replace(',', '.'));
+  return isNaN(points) || points < 0 ? null : points;
+};
+
+export const findMissingBacklogColumns = (headers: string[]): string[] => {
+  return BACKLOG_FIELDS
+    .filter(field => field.required && !findHeader(headers, field.aliases))
+    .map(field => t(field.labelKey));
+};
+
+export const processBacklogRows = (
+  rows: Record<string, unknown>[]
+): { items: BacklogItem[]; errors: ValidationError[]; totalRows: number } => {
+  const items: BacklogItem[] = [];
+  const errors: ValidationError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowIndex = index + 2;
+    const record: Record<string, string> = {};
+    BACKLOG_FIELDS.forEach(field => {
+      record[field.key] = findColumnValue(row, field.aliases);
+    });
+
+    if (!record.Number) {
+      errors.push({ row: rowIndex, column: 'Number', value: '', reason: t('validation.itemNumberRequired'), severity: 'error' });
+      return;
+    }
+
+    let rejected = false;
+    BACKLOG_DATE_FIELDS.forEach(key => {
+      if (!record[key]) {
+        if (key === 'Created') {
+          errors.push({ row: rowIndex, column: key, value: '', reason: t('validation.createdRequired'), severity: 'error' });
+          rejected = true;
+        }
+        return;
+      }
+      const iso = parseDateToISO(record[key]);
+      if (!iso) {
+        const severity = key === 'Created' ? 'error' : 'warning';
+        errors.push({ row: rowIndex, column: key, value: record[key], reason: t('validation.invalidDate'), severity });
+        rejected = rejected || severity === 'error';
+      }
+      record[key] = iso;
+    });
+    if (rejected) return;
+
+    let storyPoints = parseStoryPoints(record.StoryPoints);
+    if (storyPoints === null) {
+      errors.push({ row: rowIndex, column: 'StoryPoints', value: record.StoryPoints, reason: t('validation.storyPointsInvalid'), severity: 'warning' });
+      storyPoints = 0;
+    }
+
+    items.push({
+      Number: record.Number,
+      Created: record.Created,
+      Description: record.Description,
+      RequestedBy: record.RequestedBy,
+      Priority: record.Priority,
+      Status: record.Status,
+      Category: record.Category,
+      Team: record.Team,
+      AssignedTo: record.AssignedTo,
+      LastUpdate: record.LastUpdate,
+      UpdatedBy: record.UpdatedBy,
+      BusinessValue: record.BusinessValue,
+      StoryPoints: storyPoints,
+      Sprint: record.Sprint,
+      Release: record.Release,
+      DueDate: record.DueDate
+    });
+  });
+
+  return { items, errors, totalRows: rows.length };
+};
+
+const countBy = (items: BacklogItem[], getKey: (item: BacklogItem) => string): Record<string, number> => {
+  return items.reduce((acc, item) => {
+    const key = getKey(item) || t('backlog.notDefined');
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+export const calculateBacklogStats = (items: BacklogItem[], now: Date = new Date()): BacklogStats => {
+  const totalStoryPoints = items.reduce((sum, item) => sum + item.StoryPoints, 0);
+  const estimated = items.filter(item => item.StoryPoints > 0);
+
+  const requesters = countBy(items.filter(item => item.RequestedBy), item => item.RequestedBy);
+  const topRequesters = Object.entries(requesters)
+    .map(([requester, count]) => ({ requester, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  // Itens atrasados também entram na lista, com dias negativos
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const upcomingDueDates = items
+    .filter(item => item.DueDate && !isBacklogItemDone(item.Status))
+    .map(item => {
+      const due = new Date(item.DueDate);
+      const dueDay = new Date(due.getFullYear(), due.getMonth(), due.getDate()).getTime();
+      return { item, daysUntilDue: Math.round((dueDay - today) / 86400000) };
+    })
+    .filter(entry => entry.daysUntilDue <= UPCOMING_DUE_DAYS)
+    .sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+
+  return {
+    totalByCategory: countBy(items, item => item.Category),
+    totalByTeam: countBy(items, item => item.Team),
+    totalByPriority: countBy(items, item => item.Priority),
+    totalByStatus: countBy(items, item => item.Status),
+    totalStoryPoints,
+    averageStoryPoints: estimated.length > 0 ? totalStoryPoints / estimated.length : 0,
+    topRequesters,
+    upcomingDueDates
+  };
+};
+
+export const calculateSprintVelocity = (items: BacklogItem[]): SprintVelocity[] => {
+  const bySprint = new Map<string, SprintVelocity>();
+  items.forEach(item => {
+    if (!item.Sprint) return;
+    const entry = bySprint.get(item.Sprint) ?? { sprint: item.Sprint, itemCount: 0, committedPoints: 0, completedPoints: 0 };
+    entry.itemCount++;
+    entry.committedPoints += item.StoryPoints;
+    if (isBacklogItemDone(item.Status)) entry.completedPoints += item.StoryPoints;
+    bySprint.set(item.Sprint, entry);
+  });
+  // "Sprint 2" antes de "Sprint 10"
+  return Array.from(bySprint.values()).sort((a, b) =>
+    a.sprint.localeCompare(b.sprint, 'pt-BR', { numeric: true })
+  );
+};
+
+export const loadBacklogItems = (): BacklogItem[] => {
+  return loadFromStorage<BacklogItem[]>(BACKLOG_STORAGE_KEY, []);
+};
+
+export const saveBacklogItems = (items: BacklogItem[]): void => {
+  saveToStorage(BACKLOG_STORAGE_KEY, items);
+};
@@ -0,0 +1,248 @@
+import { addDays, startOfDay } from 'date-fns';
+import { BusinessCalendar } from '../types/calendar';
+import { SHIFT_SCHEDULES } from '../types/analyst';
+import { MessageKey } from './i18nMessages';
+import { normalizeLocationName } from './locationUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+
+const CALENDARS_STORAGE_KEY = 'business_calendars';
+
+export const DEFAULT_CALENDAR_ID = 'calendar-24x7';
+
+// Rótulos curtos dos dias da semana, na ordem de Date.getDay()
+export const WEEK_DAY_KEYS: MessageKey[] = [
+  'calendar.weekDay.sun',
+  'calendar.weekDay.mon',
+  'calendar.weekDay.tue',
+  'calendar.weekDay.wed',
+  'calendar.weekDay.thu',
+  'calendar.weekDay.fri',
+  'calendar.weekDay.sat'
+];
+
+export const BRAZILIAN_STATES = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO'
+];
+
+// Feriados nacionais de data fixa (MM-dd)
+const NATIONAL_HOLIDAYS = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'];
+
+// Consciência Negra: nacional apenas a partir de 2024 (Lei 14.759/2023)
+const BLACK_CONSCIOUSNESS_DAY = { day: '11-20', since: 2024 };
+
+// Feriados estaduais de data fixa (MM-dd); municipais entram como feriados adicionais
+const STATE_HOLIDAYS: Record<string, string[]> = {
+  AC: ['01-23', '06-15', '09-05', '11-17'],
+  AL: ['06-24', '06-29', '09-16'],
+  AP: ['03-19', '10-05'],
+  AM: ['09-05'],
+  BA: ['07-02'],
+  CE: ['03-19', '03-25'],
+  DF: ['11-30'],
+  MA: ['07-28'],
+  MS: ['10-11'],
+  PA: ['08-15'],
+  PB: ['08-05'],
+  PR: ['12-19'],
+  PE: ['03-06'],
+  PI: ['10-19'],
+  RJ: ['04-23'],
+  RN: ['10-03'],
+  RS: ['09-20'],
+  RO: ['01-04', '06-18'],
+  RR: ['10-05'],
+  SC: ['08-11'],
+  SP: ['07-09'],
+  SE: ['07-08'],
+  TO: ['03-18', '09-08', '10-05']
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const holidayCache = new Map<string, Set<string>>();
+
+export const getHolidays = (year: number, state = ''): Set<string> => {
+  const cacheKey = `${year}:${state}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const easter = getEasterSunday(year);
+  // Carnaval (segunda e terça), Sexta-feira Santa e Corpus Christi
+  const movable = [-48, -47, -2, 60].map(offset => toDayKey(addDays(easter, offset)));
+  const national = year >= BLACK_CONSCIOUSNESS_DAY.since
+    ? [...NATIONAL_HOLIDAYS, BLACK_CONSCIOUSNESS_DAY.day]
+    : NATIONAL_HOLIDAYS;
+  const fixed = [...national, ...(STATE_HOLIDAYS[state] ?? [])].map(day => `${year}-${day}`);
+
+  const holidays = new Set([...fixed, ...movable]);
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+};
+
+// Aceita dd/MM/yyyy ou yyyy-MM-dd e devolve yyyy-MM-dd (vazio quando inválido)
+export const parseHolidayDate = (value: string): string => {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const br = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : br ? [Number(br[3]), Number(br[2]), Number(br[1])] : [NaN, NaN, NaN];
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) return '';
+  return toDayKey(date);
+};
+
+const createDefaultCalendar = (): BusinessCalendar => ({
+  id: DEFAULT_CALENDAR_ID,
+  name: '24x7',
+  schedule: SHIFT_SCHEDULES.CONTINUOUS,
+  startTime: '00:00',
+  endTime: '00:00',
+  workDays: [0, 1, 2, 3, 4, 5, 6],
+  state: '',
+  customHolidays: [],
+  locations: [],
+  updatedAt: ''
+});
+
+let cachedCalendars: BusinessCalendar[] | null = null;
+
+export const loadCalendars = (): BusinessCalendar[] => {
+  if (!cachedCalendars) {
+    const stored = loadFromStorage<BusinessCalendar[]>(CALENDARS_STORAGE_KEY, []);
+    cachedCalendars = [createDefaultCalendar(), ...stored.filter(calendar => calendar.id !== DEFAULT_CALENDAR_ID)];
+  }
+  return cachedCalendars;
+};
+
+const persistCalendars = (calendars: BusinessCalendar[]) => {
+  cachedCalendars = calendars;
+  saveToStorage(CALENDARS_STORAGE_KEY, calendars.filter(calendar => calendar.id !== DEFAULT_CALENDAR_ID));
+};
+
+export const saveCalendar = (calendar: Omit<BusinessCalendar, 'id' | 'updatedAt'> & { id?: string }): BusinessCalendar => {
+  const calendars = [...loadCalendars()];
+  const saved: BusinessCalendar = {
+    ...calendar,
+    id: calendar.id && calendar.id !== DEFAULT_CALENDAR_ID ? calendar.id : createId('calendar'),
+    updatedAt: new Date().toISOString()
+  };
+  const index = calendars.findIndex(c => c.id === saved.id);
+  if (index === -1) {
+    calendars.push(saved);
+  } else {
+    calendars[index] = saved;
+  }
+  persistCalendars(calendars);
+  return saved;
+};
+
+export const deleteCalendar = (id: string): void => {
+  if (id === DEFAULT_CALENDAR_ID) return;
+  persistCalendars(loadCalendars().filter(calendar => calendar.id !== id));
+};
+
+export const getCalendarById = (id?: string): BusinessCalendar | undefined => {
+  return id ? loadCalendars().find(calendar => calendar.id === id) : undefined;
+};
+
+const normalizeLocation = (value?: string) => normalizeLocationName(value || '').trim().toLowerCase();
+
+export const getLocationCalendar = (location?: string): BusinessCalendar | undefined => {
+  const key = normalizeLocation(location);
+  if (!key) return undefined;
+  return loadCalendars().find(calendar => calendar.locations.some(l => normalizeLocation(l) === key));
+};
+
+export const isContinuousCalendar = (calendar: BusinessCalendar): boolean => {
+  return calendar.schedule === SHIFT_SCHEDULES.CONTINUOUS;
+};
+
+const isWorkingDay = (day: Date, calendar: BusinessCalendar): boolean => {
+  if (!calendar.workDays.includes(day.getDay())) return false;
+  const key = toDayKey(day);
+  return !getHolidays(day.getFullYear(), calendar.state).has(key) && !calendar.customHolidays.includes(key);
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Janela de expediente do dia; expedientes que cruzam a meia-noite terminam no dia seguinte
+const getWorkingWindow = (day: Date, calendar: BusinessCalendar): [number, number] => {
+  const startMinutes = toMinutes(calendar.startTime);
+  let endMinutes = toMinutes(calendar.endTime);
+  if (endMinutes <= startMinutes) endMinutes += 24 * 60;
+  const base = day.getTime();
+  return [base + startMinutes * 60000, base + endMinutes * 60000];
+};
+
+const MAX_CALENDAR_DAYS = 3660;
+
+/**
+ * Horas cobertas pelo calendário entre início e fim. Em 24x7 é a diferença
+ * simples; nos demais conta apenas o expediente de dias úteis sem feriado.
+ */
+export const calculateCoveredHours = (start: Date, end: Date, calendar: BusinessCalendar): number => {
+  const startTime = start.getTime();
+  const endTime = end.getTime();
+  if (isNaN(startTime) || isNaN(endTime)) return NaN;
+  if (endTime <= startTime) return 0;
+  if (isContinuousCalendar(calendar)) return (endTime - startTime) / 3600000;
+
+  let total = 0;
+  let day = addDays(startOfDay(start), -1);
+  for (let i = 0; i < MAX_CALENDAR_DAYS && day.getTime() <= endTime; i++) {
+    if (isWorkingDay(day, calendar)) {
+      const [windowStart, windowEnd] = getWorkingWindow(day, calendar);
+      total += Math.max(0, Math.min(endTime, windowEnd) - Math.max(startTime, windowStart));
+    }
+    day = addDays(day, 1);
+  }
+  return total / 3600000;
+};
+
+// Momento em que o chamado completa a quantidade de horas cobertas (vencimento do SLA)
+export const addCoveredHours = (start: Date, hours: number, calendar: BusinessCalendar): Date => {
+  if (isNaN(start.getTime())) return start;
+  if (isContinuousCalendar(calendar)) return new Date(start.getTime() + hours * 3600000);
+
+  let remaining = hours * 3600000;
+  let day = addDays(startOfDay(start), -1);
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    if (isWorkingDay(day, calendar)) {
+      const [windowStart, windowEnd] = getWorkingWindow(day, calendar);
+      const from = Math.max(start.getTime(), windowStart);
+      const available = windowEnd - from;
+      if (available > 0) {
+        if (remaining <= available) return new Date(from + remaining);
+        remaining -= available;
+      }
+    }
+    day = addDays(day, 1);
+  }
+  return new Date(NaN);
+};
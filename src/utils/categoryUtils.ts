@@ -0,0 +1,190 @@
+import { Incident } from '../types/incident';
+import { CategoryRule, CategoryRuleField, CategoryRuleOperator } from '../types/category';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+import { t } from './i18nUtils';
+import { MessageKey } from './i18nMessages';
+
+const CATEGORY_RULES_STORAGE_KEY = 'category_rules';
+
+// Sentinela neutra gravada nos chamados; na tela aparece traduzida
+export const UNCATEGORIZED = '__uncategorized__';
+
+export const CATEGORY_RULE_FIELDS: { value: CategoryRuleField; labelKey: MessageKey }[] = [
+  { value: 'Category', labelKey: 'categoryRule.fieldOption.category' },
+  { value: 'Subcategory', labelKey: 'categoryRule.fieldOption.subcategory' },
+  { value: 'ShortDescription', labelKey: 'categoryRule.fieldOption.shortDescription' },
+  { value: 'AssignmentGroup', labelKey: 'categoryRule.fieldOption.assignmentGroup' }
+];
+
+export const CATEGORY_RULE_OPERATORS: { value: CategoryRuleOperator; labelKey: MessageKey }[] = [
+  { value: 'contains', labelKey: 'categoryRule.operatorOption.contains' },
+  { value: 'equals', labelKey: 'categoryRule.operatorOption.equals' },
+  { value: 'startsWith', labelKey: 'categoryRule.operatorOption.startsWith' },
+  { value: 'regex', labelKey: 'categoryRule.operatorOption.regex' }
+];
+
+// Agrupamentos que o painel fazia por trecho do nome da categoria, na mesma ordem
+const DEFAULT_RULES: [pattern: string, targetCategory: string][] = [
+  ['backup', 'Backup/Restore'],
+  ['restore', 'Backup/Restore'],
+  ['security', 'IT Security'],
+  ['segurança', 'IT Security'],
+  ['monitor', 'Monitoring'],
+  ['rede', 'Network'],
+  ['network', 'Network'],
+  ['servidor', 'Server'],
+  ['server', 'Server'],
+  ['suporte', 'Service Support'],
+  ['support', 'Service Support'],
+  ['software', 'Software'],
+  ['programa', 'Software'],
+  ['hardware', 'Hardware'],
+  ['equipment', 'Hardware'],
+  ['cloud', 'Cloud'],
+  ['nuvem', 'Cloud'],
+  ['database', 'Database'],
+  ['banco de dados', 'Database']
+];
+
+const createDefaultRules = (): CategoryRule[] =>
+  DEFAULT_RULES.map(([pattern, targetCategory], index) => ({
+    id: `category-rule-default-${index + 1}`,
+    field: 'Category',
+    operator: 'contains',
+    pattern,
+    targetCategory,
+    targetSubcategory: '',
+    enabled: true
+  }));
+
+let cachedRules: CategoryRule[] | null = null;
+
+export const loadCategoryRules = (): CategoryRule[] => {
+  if (!cachedRules) {
+    cachedRules = loadFromStorage<CategoryRule[] | null>(CATEGORY_RULES_STORAGE_KEY, null) ?? createDefaultRules();
+  }
+  return cachedRules;
+};
+
+// A lista inteira é gravada de uma vez, pois a ordem define qual regra vence
+export const saveCategoryRules = (rules: CategoryRule[]): void => {
+  saveToStorage(CATEGORY_RULES_STORAGE_KEY, rules);
+  cachedRules = rules;
+};
+
+export const resetCategoryRules = (): CategoryRule[] => {
+  const rules = createDefaultRules();
+  saveCategoryRules(rules);
+  return rules;
+};
+
+export const createCategoryRule = (): CategoryRule => ({
+  id: createId('category-rule'),
+  field: 'Category',
+  operator: 'contains',
+  pattern: '',
+  targetCategory: '',
+  targetSubcategory: '',
+  enabled: true
+});
+
+// Mensagem de erro do padrão, ou null quando a regra pode ser avaliada
+export const validateCategoryRulePattern = (rule: CategoryRule): string | null => {
+  if (!rule.pattern.trim()) return t('categoryRule.error.emptyPattern');
+  if (rule.operator !== 'regex') return null;
+  try {
+    new RegExp(rule.pattern, 'i');
+    return null;
+  } catch {
+    return t('categoryRule.error.invalidRegex');
+  }
+};
+
+type RuleMatcher = { rule: CategoryRule; test: (value: string) => boolean };
+
+const compileRule = (rule: CategoryRule): RuleMatcher | null => {
+  if (!rule.enabled || !rule.targetCategory.trim() || validateCategoryRulePattern(rule)) return null;
+
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.operator) {
+    case 'equals':
+      return { rule, test: value => value === pattern };
+    case 'startsWith':
+      return { rule, test: value => value.startsWith(pattern) };
+    case 'regex': {
+      const regex = new RegExp(rule.pattern, 'i');
+      return { rule, test: value => regex.test(value) };
+    }
+    default:
+      return { rule, test: value => value.includes(pattern) };
+  }
+};
+
+const compileRules = (rules: CategoryRule[]): RuleMatcher[] =>
+  rules.map(compileRule).filter((matcher): matcher is RuleMatcher => matcher !== null);
+
+const findMatch = (incident: Incident, matchers: RuleMatcher[]): CategoryRule | undefined => {
+  return matchers.find(({ rule, test }) => test((incident[rule.field] || '').trim().toLowerCase()))?.rule;
+};
+
+const normalizeWith = (incident: Incident, matchers: RuleMatcher[]): Incident => {
+  const rule = findMatch(incident, matchers);
+  return {
+    ...incident,
+    NormalizedCategory: rule ? rule.targetCategory.trim() : incident.Category?.trim() || UNCATEGORIZED,
+    NormalizedSubcategory: rule?.targetSubcategory.trim() || incident.Subcategory
+  };
+};
+
+/**
+ * Grava em cada incidente a categoria normalizada pela primeira regra ativa
+ * que casar; sem regra, a categoria original é mantida. Requisições não têm
+ * Category/Subcategory e seguem agrupadas pelo item de catálogo.
+ */
+export const applyCategoryRules = (incidents: Incident[], rules: CategoryRule[] = loadCategoryRules()): Incident[] => {
+  const matchers = compileRules(rules);
+  return incidents.map(incident => normalizeWith(incident, matchers));
+};
+
+export interface CategoryRulePreview {
+  // Chamados capturados por regra (apenas a primeira regra que casa conta)
+  matchesByRule: Record<string, number>;
+  unmatched: number;
+  // Categorias resultantes e quantidade de chamados
+  categories: { category: string; count: number }[];
+}
+
+export const previewCategoryRules = (incidents: Incident[], rules: CategoryRule[]): CategoryRulePreview => {
+  const matchers = compileRules(rules);
+  const matchesByRule: Record<string, number> = {};
+  const categoryCounts = new Map<string, number>();
+  let unmatched = 0;
+
+  incidents.forEach(incident => {
+    const rule = findMatch(incident, matchers);
+    if (rule) {
+      matchesByRule[rule.id] = (matchesByRule[rule.id] ?? 0) + 1;
+    } else {
+      unmatched++;
+    }
+    const category = rule ? rule.targetCategory.trim() : incident.Category?.trim() || UNCATEGORIZED;
+    categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1);
+  });
+
+  return {
+    matchesByRule,
+    unmatched,
+    categories: Array.from(categoryCounts, ([category, count]) => ({ category, count })).sort((a, b) => b.count - a.count)
+  };
+};
+
+export const getNormalizedCategory = (incident: Incident): string => {
+  return incident.NormalizedCategory || incident.Category?.trim() || UNCATEGORIZED;
+};
+
+export const getCategoryLabel = (category: string): string =>
+  category === UNCATEGORIZED ? t('analysis.uncategorized') : category;
+
+export const getNormalizedSubcategory = (incident: Incident): string | undefined => {
+  return incident.NormalizedSubcategory || incident.Subcategory;
+};
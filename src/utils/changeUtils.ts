@@ -0,0 +1,155 @@
+import { Change, ChangeIncidentCorrelation } from '../types/change';
+import { Incident } from '../types/incident';
+import { IngestionField, ValidationError } from '../types/ingestion';
+import { findColumnValue, findHeader } from './ingestionUtils';
+import { parseDateToISO } from './dateUtils';
+import { t } from './i18nUtils';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+
+const CHANGES_STORAGE_KEY = 'change_records';
+
+// Janela padrão (em horas) após a mudança para correlacionar incidentes
+export const DEFAULT_CORRELATION_WINDOW_HOURS = 24;
+
+export const CHANGE_FIELDS: IngestionField[] = [
+  { key: 'Number', labelKey: 'field.number', required: true, aliases: ['Number', 'Change', 'Change number', 'ID', 'Número', 'Numero', 'Mudança'] },
+  { key: 'ShortDescription', labelKey: 'field.description', aliases: ['Short description', 'ShortDescription', 'Description', 'Summary', 'Descrição', 'Descricao', 'Resumo'] },
+  { key: 'PlannedStart', labelKey: 'field.plannedStart', aliases: ['Planned start date', 'Planned start', 'start_date', 'Start date', 'Início planejado', 'Inicio planejado', 'Data de início planejada'] },
+  { key: 'PlannedEnd', labelKey: 'field.plannedEnd', aliases: ['Planned end date', 'Planned end', 'end_date', 'End date', 'Fim planejado', 'Término planejado', 'Data de término planejada'] },
+  { key: 'ActualStart', labelKey: 'field.actualStart', aliases: ['Actual start date', 'Actual start', 'work_start', 'Work start', 'Início real', 'Inicio real'] },
+  { key: 'ActualEnd', labelKey: 'field.actualEnd', aliases: ['Actual end date', 'Actual end', 'work_end', 'Work end', 'Fim real', 'Término real'] },
+  { key: 'ConfigurationItem', labelKey: 'field.configurationItem', aliases: ['Configuration item', 'ConfigurationItem', 'cmdb_ci', 'CI', 'Item de Configuração', 'Item de Configuracao'] },
+  { key: 'AssignmentGroup', labelKey: 'field.changeGroup', aliases: ['Assignment group', 'AssignmentGroup', 'Grupo designado', 'Grupo'] },
+  { key: 'Risk', labelKey: 'field.risk', aliases: ['Risk', 'Risco'] },
+  { key: 'State', labelKey: 'field.state', aliases: ['State', 'Status', 'Estado'] }
+];
+
+const CHANGE_DATE_FIELDS = ['PlannedStart', 'PlannedEnd', 'ActualStart', 'ActualEnd'];
+
+export const findMissingChangeColumns = (headers: string[]): string[] => {
+  const missing = CHANGE_FIELDS
+    .filter(field => field.required && !findHeader(headers, field.aliases))
+    .map(field => t(field.labelKey));
+  const hasStart = CHANGE_FIELDS
+    .filter(field => field.key === 'PlannedStart' || field.key === 'ActualStart')
+    .some(field => findHeader(headers, field.aliases));
+  if (!hasStart) missing.push(t('change.error.missingStart', { planned: t('field.plannedStart'), actual: t('field.actualStart') }));
+  return missing;
+};
+
+export const processChangeRows = (
+  rows: Record<string, unknown>[]
+): { items: Change[]; errors: ValidationError[]; totalRows: number } => {
+  const items: Change[] = [];
+  const errors: ValidationError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowIndex = index + 2;
+    const record: Record<string, string> = {};
+    CHANGE_FIELDS.forEach(field => {
+      record[field.key] = findColumnValue(row, field.aliases);
+    });
+
+    if (!record.Number) {
+      errors.push({ row: rowIndex, column: 'Number', value: '', reason: t('validation.changeNumberRequired'), severity: 'error' });
+      return;
+    }
+
+    CHANGE_DATE_FIELDS.forEach(key => {
+      if (!record[key]) return;
+      const iso = parseDateToISO(record[key]);
+      if (!iso) {
+        errors.push({ row: rowIndex, column: key, value: record[key], reason: t('validation.invalidDate'), severity: 'warning' });
+      }
+      record[key] = iso;
+    });
+
+    if (!record.PlannedStart && !record.ActualStart) {
+      errors.push({ row: rowIndex, column: 'PlannedStart', value: '', reason: t('validation.changeStartRequired'), severity: 'error' });
+      return;
+    }
+
+    if (!record.ConfigurationItem) {
+      errors.push({ row: rowIndex, column: 'ConfigurationItem', value: '', reason: t('validation.changeWithoutCi'), severity: 'warning' });
+    }
+
+    items.push({
+      Number: record.Number,
+      ShortDescription: record.ShortDescription,
+      PlannedStart: record.PlannedStart,
+      PlannedEnd: record.PlannedEnd,
+      ActualStart: record.ActualStart,
+      ActualEnd: record.ActualEnd,
+      ConfigurationItem: record.ConfigurationItem,
+      AssignmentGroup: record.AssignmentGroup,
+      Risk: record.Risk,
+      State: record.State
+    });
+  });
+
+  return { items, errors, totalRows: rows.length };
+};
+
+/**
+ * Janela efetiva da mudança: datas reais quando existirem, senão as planejadas.
+ * Sem data de término, a janela começa e termina no início.
+ */
+export const getChangeWindow = (change: Change): { start: Date; end: Date } => {
+  const start = new Date(change.ActualStart || change.PlannedStart);
+  const endValue = change.ActualEnd || change.PlannedEnd;
+  const end = endValue ? new Date(endValue) : start;
+  return { start, end: end < start ? start : end };
+};
+
+const normalizeCI = (value?: string) => (value || '').trim().toLowerCase();
+
+export const correlateChangesWithIncidents = (
+  changes: Change[],
+  incidents: Incident[],
+  windowHours: number = DEFAULT_CORRELATION_WINDOW_HOURS
+): ChangeIncidentCorrelation[] => {
+  const incidentsByCI = new Map<string, Incident[]>();
+  incidents.forEach(incident => {
+    const ci = normalizeCI(incident.ConfigurationItem);
+    if (!ci) return;
+    const list = incidentsByCI.get(ci) ?? [];
+    list.push(incident);
+    incidentsByCI.set(ci, list);
+  });
+
+  return changes
+    .map(change => {
+      const { start, end } = getChangeWindow(change);
+      const windowEnd = new Date(end.getTime() + windowHours * 3600000);
+      const candidates = incidentsByCI.get(normalizeCI(change.ConfigurationItem)) ?? [];
+
+      const related = candidates
+        .map(incident => {
+          const opened = new Date(incident.Opened).getTime();
+          return { incident, opened };
+        })
+        .filter(({ opened }) => !isNaN(opened) && opened >= start.getTime() && opened <= windowEnd.getTime())
+        .sort((a, b) => a.opened - b.opened)
+        .map(({ incident, opened }) => ({
+          incident,
+          hoursAfterStart: (opened - start.getTime()) / 3600000
+        }));
+
+      return {
+        change,
+        windowStart: start.toISOString(),
+        windowEnd: windowEnd.toISOString(),
+        incidents: related
+      };
+    })
+    .filter(correlation => correlation.incidents.length > 0)
+    .sort((a, b) => b.incidents.length - a.incidents.length);
+};
+
+export const loadChanges = (): Change[] => {
+  return loadFromStorage<Change[]>(CHANGES_STORAGE_KEY, []);
+};
+
+export const saveChanges = (changes: Change[]): void => {
+  saveToStorage(CHANGES_STORAGE_KEY, changes);
+};
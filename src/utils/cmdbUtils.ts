@@ -0,0 +1,181 @@
+import { ConfigurationItemRecord, ImpactStats } from '../types/cmdb';
+import { Incident } from '../types/incident';
+import { IngestionField, ValidationError } from '../types/ingestion';
+import { findColumnValue, findHeader } from './ingestionUtils';
+import { isActiveIncident, isCancelled, isHighPriority } from './incidentUtils';
+import { t } from './i18nUtils';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+
+const CMDB_STORAGE_KEY = 'cmdb_items';
+
+export const CMDB_FIELDS: IngestionField[] = [
+  { key: 'Name', labelKey: 'field.configurationItem', required: true, aliases: ['Name', 'Configuration item', 'ConfigurationItem', 'cmdb_ci', 'CI', 'Nome', 'Item de Configuração', 'Item de Configuracao'] },
+  { key: 'Class', labelKey: 'field.class', aliases: ['Class', 'sys_class_name', 'CI class', 'Classe', 'Tipo'] },
+  { key: 'Owner', labelKey: 'field.owner', aliases: ['Owned by', 'Owner', 'Managed by', 'Supported by', 'Responsável', 'Proprietário', 'Dono'] },
+  { key: 'Criticality', labelKey: 'field.criticality', aliases: ['Criticality', 'Business criticality', 'busines_criticality', 'Criticidade'] },
+  { key: 'BusinessService', labelKey: 'field.businessService', aliases: ['Business service', 'BusinessService', 'Service', 'Serviço de negócio', 'Serviço'] }
+];
+
+const normalizeName = (value?: string) => (value || '').trim().toLowerCase();
+
+export const findMissingCmdbColumns = (headers: string[]): string[] => {
+  return CMDB_FIELDS
+    .filter(field => field.required && !findHeader(headers, field.aliases))
+    .map(field => t(field.labelKey));
+};
+
+export const processCmdbRows = (
+  rows: Record<string, unknown>[]
+): { items: ConfigurationItemRecord[]; errors: ValidationError[]; totalRows: number } => {
+  const byName = new Map<string, ConfigurationItemRecord>();
+  const errors: ValidationError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowIndex = index + 2;
+    const record: Record<string, string> = {};
+    CMDB_FIELDS.forEach(field => {
+      record[field.key] = findColumnValue(row, field.aliases);
+    });
+
+    if (!record.Name) {
+      errors.push({ row: rowIndex, column: 'Name', value: '', reason: t('validation.ciNameRequired'), severity: 'error' });
+      return;
+    }
+    const key = normalizeName(record.Name);
+    if (byName.has(key)) {
+      errors.push({ row: rowIndex, column: 'Name', value: record.Name, reason: t('validation.ciDuplicate'), severity: 'warning' });
+    }
+
+    byName.set(key, {
+      Name: record.Name,
+      Class: record.Class,
+      Owner: record.Owner,
+      Criticality: record.Criticality,
+      BusinessService: record.BusinessService
+    });
+  });
+
+  return { items: Array.from(byName.values()), errors, totalRows: rows.length };
+};
+
+export const indexCmdbItems = (items: ConfigurationItemRecord[]): Map<string, ConfigurationItemRecord> => {
+  return new Map(items.map(item => [normalizeName(item.Name), item]));
+};
+
+const CRITICAL_WORDS = ['critical', 'crítico', 'crítica', 'critico', 'critica'];
+const HIGH_WORDS = ['high', 'alta', 'alto'];
+const ATTENUATING_WORDS = ['less', 'not', 'somewhat', 'menos', 'não', 'nao', 'pouco', 'pouca'];
+
+// Escala do ServiceNow ("1 - most critical" ... "4 - not critical"): vale o
+// número do início; sem número, só "crítico"/"alta" sem atenuante antes
+const getCriticalityWeight = (criticality?: string): number => {
+  const c = (criticality || '').trim().toLowerCase();
+  const numbered = c.match(/^([1-9])(?!\d)/);
+  if (numbered) {
+    if (numbered[1] === '1') return 1.5;
+    if (numbered[1] === '2') return 1.25;
+    return 1;
+  }
+
+  const words = c.split(/[^a-zà-ÿ]+/).filter(Boolean);
+  const hasWord = (candidates: string[]) => words.some((word, index) =>
+    candidates.includes(word) && !ATTENUATING_WORDS.includes(words[index - 1])
+  );
+  if (hasWord(CRITICAL_WORDS)) return 1.5;
+  if (hasWord(HIGH_WORDS)) return 1.25;
+  return 1;
+};
+
+/**
+ * Horas de indisponibilidade: soma dos períodos com P1/P2 em aberto,
+ * unindo intervalos sobrepostos para não contar a mesma hora duas vezes.
+ */
+const calculateOutageHours = (incidents: Incident[], now: Date): number => {
+  const intervals = incidents
+    .filter(incident => isHighPriority(incident.Priority) && !isCancelled(incident.State))
+    .map(incident => {
+      const start = new Date(incident.Opened).getTime();
+      const end = incident.Closed
+        ? new Date(incident.Closed).getTime()
+        : isActiveIncident(incident.State) ? now.getTime() : start;
+      return [start, end] as [number, number];
+    })
+    .filter(([start, end]) => !isNaN(start) && !isNaN(end) && end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [start, end] of intervals) {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+      continue;
+    }
+    if (current) total += current[1] - current[0];
+    current = [start, end];
+  }
+  if (current) total += current[1] - current[0];
+  return total / 3600000;
+};
+
+const calculateMttrHours = (incidents: Incident[]): number | null => {
+  const durations = incidents
+    .filter(incident => incident.Closed && !isCancelled(incident.State))
+    .map(incident => (new Date(incident.Closed as string).getTime() - new Date(incident.Opened).getTime()) / 3600000)
+    .filter(hours => !isNaN(hours) && hours >= 0);
+  if (durations.length === 0) return null;
+  return durations.reduce((sum, hours) => sum + hours, 0) / durations.length;
+};
+
+export const calculateImpactStats = (
+  incidents: Incident[],
+  getKey: (incident: Incident) => string | undefined,
+  cmdbIndex: Map<string, ConfigurationItemRecord> = new Map(),
+  now: Date = new Date()
+): ImpactStats[] => {
+  const groups = new Map<string, Incident[]>();
+  incidents.forEach(incident => {
+    const key = (getKey(incident) || '').trim();
+    if (!key) return;
+    const list = groups.get(key) ?? [];
+    list.push(incident);
+    groups.set(key, list);
+  });
+
+  return Array.from(groups.entries())
+    .map(([name, groupIncidents]) => {
+      const highPriorityCount = groupIncidents.filter(incident => isHighPriority(incident.Priority)).length;
+      const outageHours = calculateOutageHours(groupIncidents, now);
+      const cmdb = cmdbIndex.get(normalizeName(name));
+      // Volume, P1/P2 (peso 5) e horas de indisponibilidade, ponderados pela criticidade do CMDB
+      const fragilityScore =
+        (groupIncidents.length + highPriorityCount * 5 + outageHours) * getCriticalityWeight(cmdb?.Criticality);
+
+      return {
+        name,
+        incidents: groupIncidents,
+        highPriorityCount,
+        highPriorityShare: (highPriorityCount / groupIncidents.length) * 100,
+        outageHours,
+        mttrHours: calculateMttrHours(groupIncidents),
+        fragilityScore,
+        cmdb
+      };
+    })
+    .sort((a, b) => b.incidents.length - a.incidents.length);
+};
+
+// Incidentes sem serviço de negócio herdam o serviço do CI cadastrado no CMDB
+export const getIncidentBusinessService = (
+  incident: Incident,
+  cmdbIndex: Map<string, ConfigurationItemRecord>
+): string | undefined => {
+  return incident.BusinessService || cmdbIndex.get(normalizeName(incident.ConfigurationItem))?.BusinessService;
+};
+
+export const loadCmdbItems = (): ConfigurationItemRecord[] => {
+  return loadFromStorage<ConfigurationItemRecord[]>(CMDB_STORAGE_KEY, []);
+};
+
+export const saveCmdbItems = (items: ConfigurationItemRecord[]): void => {
+  saveToStorage(CMDB_STORAGE_KEY, items);
+};
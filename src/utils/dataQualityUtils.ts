@@ -0,0 +1,161 @@
+import * as XLSX from 'xlsx';
+import {
+  ColumnCompleteness,
+  DataQualityIssue,
+  DataQualityReport,
+  DuplicateNumber,
+  ValidationError
+} from '../types/ingestion';
+import { formatLocalizedDate, t } from './i18nUtils';
+
+const DATE_COLUMNS = ['Opened', 'Updated', 'Closed'];
+
+export interface MappedRow {
+  row: number;
+  record: Record<string, string>;
+}
+
+const isFilled = (value: unknown): boolean => {
+  return value !== undefined && value !== null && String(value).trim() !== '';
+};
+
+const calculateCompleteness = (rows: Record<string, unknown>[]): ColumnCompleteness[] => {
+  const filledByColumn = new Map<string, number>();
+  rows.forEach(row => {
+    if (!row || typeof row !== 'object') return;
+    Object.entries(row).forEach(([column, value]) => {
+      const filled = filledByColumn.get(column) ?? 0;
+      filledByColumn.set(column, isFilled(value) ? filled + 1 : filled);
+    });
+  });
+
+  return Array.from(filledByColumn.entries()).map(([column, filled]) => ({
+    column,
+    filled,
+    total: rows.length,
+    percentage: rows.length > 0 ? Math.round((filled / rows.length) * 1000) / 10 : 0
+  }));
+};
+
+export const buildDataQualityReport = (
+  rows: Record<string, unknown>[],
+  mappedRows: MappedRow[],
+  errors: ValidationError[]
+): DataQualityReport => {
+  const numberByRow = new Map(mappedRows.map(({ row, record }) => [row, record.Number ?? '']));
+
+  const toIssue = (error: ValidationError): DataQualityIssue => ({
+    row: error.row,
+    number: numberByRow.get(error.row) ?? '',
+    column: error.column,
+    value: error.value,
+    reason: error.reason
+  });
+
+  // Datas vazias já são tratadas como campo obrigatório ausente
+  const invalidDates = errors
+    .filter(error => DATE_COLUMNS.includes(error.column) && error.value !== '')
+    .map(toIssue);
+  const unknownPriorities = errors.filter(error => error.column === 'Priority').map(toIssue);
+  const unknownStates = errors.filter(error => error.column === 'State').map(toIssue);
+
+  const rowsByNumber = new Map<string, number[]>();
+  mappedRows.forEach(({ row, record }) => {
+    const number = record.Number?.trim();
+    if (!number) return;
+    rowsByNumber.set(number, [...(rowsByNumber.get(number) ?? []), row]);
+  });
+  const duplicateNumbers: DuplicateNumber[] = Array.from(rowsByNumber.entries())
+    .filter(([, duplicateRows]) => duplicateRows.length > 1)
+    .map(([number, duplicateRows]) => ({ number, rows: duplicateRows }));
+
+  const updatedBeforeOpened: DataQualityIssue[] = [];
+  mappedRows.forEach(({ row, record }) => {
+    if (!record.Opened || !record.Updated) return;
+    const opened = new Date(record.Opened).getTime();
+    const updated = new Date(record.Updated).getTime();
+    if (!isNaN(opened) && !isNaN(updated) && updated < opened) {
+      updatedBeforeOpened.push({
+        row,
+        number: record.Number ?? '',
+        column: 'Updated',
+        value: `${record.Opened} → ${record.Updated}`,
+        reason: t('validation.updatedBeforeOpened')
+      });
+    }
+  });
+
+  const rejectedRows = new Set(errors.filter(error => error.severity === 'error').map(error => error.row)).size;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    totalRows: rows.length,
+    rejectedRows,
+    completeness: calculateCompleteness(rows),
+    invalidDates,
+    unknownPriorities,
+    unknownStates,
+    duplicateNumbers,
+    updatedBeforeOpened
+  };
+};
+
+export const countDataQualityIssues = (report: DataQualityReport): number => {
+  return report.invalidDates.length +
+    report.unknownPriorities.length +
+    report.unknownStates.length +
+    report.duplicateNumbers.length +
+    report.updatedBeforeOpened.length;
+};
+
+const issuesToSheet = (issues: DataQualityIssue[]) => {
+  const header = [
+    t('quality.sheet.row'),
+    t('quality.sheet.number'),
+    t('quality.sheet.column'),
+    t('quality.sheet.value'),
+    t('quality.sheet.reason')
+  ];
+  return XLSX.utils.aoa_to_sheet([
+    header,
+    ...issues.map(issue => [issue.row, issue.number, issue.column, issue.value, issue.reason])
+  ]);
+};
+
+export const downloadDataQualityReport = (report: DataQualityReport, sourceName: string): void => {
+  const wb = XLSX.utils.book_new();
+
+  const summary = XLSX.utils.aoa_to_sheet([
+    [t('quality.sheet.file'), sourceName],
+    [t('quality.sheet.generatedAt'), formatLocalizedDate(new Date(report.generatedAt))],
+    [t('quality.sheet.totalRows'), report.totalRows],
+    [t('quality.rejectedRows'), report.rejectedRows],
+    [t('quality.invalidDates'), report.invalidDates.length],
+    [t('quality.unknownPriorities'), report.unknownPriorities.length],
+    [t('quality.unknownStates'), report.unknownStates.length],
+    [t('quality.duplicateNumbers'), report.duplicateNumbers.length],
+    [t('quality.updatedBeforeOpened'), report.updatedBeforeOpened.length]
+  ]);
+  XLSX.utils.book_append_sheet(wb, summary, t('quality.sheet.summary'));
+
+  const completeness = XLSX.utils.aoa_to_sheet([
+    [t('quality.sheet.column'), t('quality.sheet.filled'), t('quality.sheet.total'), t('quality.sheet.filledPercent')],
+    ...report.completeness.map(item => [item.column, item.filled, item.total, item.percentage])
+  ]);
+  XLSX.utils.book_append_sheet(wb, completeness, t('quality.sheet.completeness'));
+
+  XLSX.utils.book_append_sheet(wb, issuesToSheet(report.invalidDates), t('quality.invalidDates'));
+  XLSX.utils.book_append_sheet(wb, issuesToSheet(report.unknownPriorities), t('quality.unknownPriorities'));
+  XLSX.utils.book_append_sheet(wb, issuesToSheet(report.unknownStates), t('quality.unknownStates'));
+
+  const duplicates = XLSX.utils.aoa_to_sheet([
+    [t('quality.sheet.number'), t('quality.sheet.occurrences'), t('quality.sheet.rows')],
+    ...report.duplicateNumbers.map(item => [item.number, item.rows.length, item.rows.join(', ')])
+  ]);
+  XLSX.utils.book_append_sheet(wb, duplicates, t('quality.duplicateNumbers'));
+
+  XLSX.utils.book_append_sheet(wb, issuesToSheet(report.updatedBeforeOpened), t('quality.updatedBeforeOpened'));
+
+  const baseName = sourceName.replace(/\.[^.]+$/, '') || t('quality.sheet.defaultName');
+  XLSX.writeFile(wb, t('quality.sheet.fileName', { name: baseName }));
+};
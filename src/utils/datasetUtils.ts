@@ -0,0 +1,105 @@
+import { Incident } from '../types/incident';
+import { Request } from '../types/request';
+import { DatasetMeta, StoredDataset } from '../types/dataset';
+import { DATASETS_STORE, DATASET_RECORDS_STORE, withTransaction } from './indexedDbUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+
+const DEFAULT_DATASET_STORAGE_KEY = 'dataset_default_id';
+const LAST_USED_DATASET_STORAGE_KEY = 'dataset_last_used_id';
+
+interface DatasetRecords {
+  id: string;
+  incidents: Incident[];
+  requests: Request[];
+}
+
+export const listDatasets = async (): Promise<DatasetMeta[]> => {
+  const request = await withTransaction([DATASETS_STORE], 'readonly', transaction =>
+    transaction.objectStore(DATASETS_STORE).getAll()
+  );
+  return (request.result as DatasetMeta[]).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveDataset = async (dataset: {
+  name: string;
+  sourceFiles: string[];
+  incidents: Incident[];
+  requests: Request[];
+}): Promise<DatasetMeta> => {
+  const now = new Date().toISOString();
+  const meta: DatasetMeta = {
+    id: createId('dataset'),
+    name: dataset.name,
+    sourceFiles: dataset.sourceFiles,
+    createdAt: now,
+    updatedAt: now,
+    incidentCount: dataset.incidents.length,
+    requestCount: dataset.requests.length
+  };
+  const records: DatasetRecords = { id: meta.id, incidents: dataset.incidents, requests: dataset.requests };
+
+  await withTransaction([DATASETS_STORE, DATASET_RECORDS_STORE], 'readwrite', transaction => {
+    transaction.objectStore(DATASETS_STORE).put(meta);
+    transaction.objectStore(DATASET_RECORDS_STORE).put(records);
+  });
+  return meta;
+};
+
+export const loadDataset = async (id: string): Promise<StoredDataset | null> => {
+  const [metaRequest, recordsRequest] = await withTransaction([DATASETS_STORE, DATASET_RECORDS_STORE], 'readonly', transaction => [
+    transaction.objectStore(DATASETS_STORE).get(id),
+    transaction.objectStore(DATASET_RECORDS_STORE).get(id)
+  ]);
+  const meta = metaRequest.result as DatasetMeta | undefined;
+  const records = recordsRequest.result as DatasetRecords | undefined;
+  if (!meta || !records) return null;
+  return { meta, incidents: records.incidents, requests: records.requests };
+};
+
+export const renameDataset = async (id: string, name: string): Promise<void> => {
+  await withTransaction([DATASETS_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(DATASETS_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const meta = request.result as DatasetMeta | undefined;
+      if (meta) {
+        store.put({ ...meta, name, updatedAt: new Date().toISOString() });
+      }
+    };
+  });
+};
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  await withTransaction([DATASETS_STORE, DATASET_RECORDS_STORE], 'readwrite', transaction => {
+    transaction.objectStore(DATASETS_STORE).delete(id);
+    transaction.objectStore(DATASET_RECORDS_STORE).delete(id);
+  });
+  if (getDefaultDatasetId() === id) setDefaultDatasetId(null);
+  if (getLastUsedDatasetId() === id) setLastUsedDatasetId(null);
+};
+
+export const getDefaultDatasetId = (): string | null => {
+  return loadFromStorage<string | null>(DEFAULT_DATASET_STORAGE_KEY, null);
+};
+
+export const setDefaultDatasetId = (id: string | null): void => {
+  saveToStorage(DEFAULT_DATASET_STORAGE_KEY, id);
+};
+
+export const getLastUsedDatasetId = (): string | null => {
+  return loadFromStorage<string | null>(LAST_USED_DATASET_STORAGE_KEY, null);
+};
+
+export const setLastUsedDatasetId = (id: string | null): void => {
+  saveToStorage(LAST_USED_DATASET_STORAGE_KEY, id);
+};
+
+// Restaura o último conjunto aberto; se não existir mais, usa o padrão
+export const restoreDataset = async (): Promise<StoredDataset | null> => {
+  const candidates = [getLastUsedDatasetId(), getDefaultDatasetId()].filter((id): id is string => !!id);
+  for (const id of candidates) {
+    const dataset = await loadDataset(id);
+    if (dataset) return dataset;
+  }
+  return null;
+};
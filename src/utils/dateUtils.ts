@@ -0,0 +1,339 @@
+import { DateColumnDetection, DateColumnSettings, DateFormat } from '../types/ingestion';
+import { MessageKey } from './i18nMessages';
+import { t } from './i18nUtils';
+
+export const DATE_FORMAT_OPTIONS: { value: DateFormat; labelKey: MessageKey }[] = [
+  { value: 'auto', labelKey: 'dateFormat.auto' },
+  { value: 'iso', labelKey: 'dateFormat.iso' },
+  { value: 'dd/MM/yyyy', labelKey: 'dateFormat.br' },
+  { value: 'MM/dd/yyyy', labelKey: 'dateFormat.us' },
+  { value: 'excel', labelKey: 'dateFormat.excel' }
+];
+
+export const TIMEZONE_OPTIONS: { value: string; labelKey: MessageKey }[] = [
+  { value: 'local', labelKey: 'timezone.local' },
+  { value: 'UTC', labelKey: 'timezone.utc' },
+  { value: 'America/Sao_Paulo', labelKey: 'timezone.saoPaulo' },
+  { value: 'America/Manaus', labelKey: 'timezone.manaus' },
+  { value: 'America/Rio_Branco', labelKey: 'timezone.rioBranco' },
+  { value: 'America/Noronha', labelKey: 'timezone.noronha' },
+  { value: 'America/New_York', labelKey: 'timezone.newYork' },
+  { value: 'Europe/Lisbon', labelKey: 'timezone.lisbon' }
+];
+
+export const DEFAULT_DATE_SETTINGS: DateColumnSettings = { format: 'auto', timezone: 'local' };
+
+// Amostra usada para detectar o formato de cada coluna
+const DETECTION_SAMPLE_SIZE = 500;
+const DETECTION_MIN_MATCH = 0.8;
+
+// Faixa de seriais do Excel aceita como data (1954–2119); fora dela é número de chamado, quantidade etc.
+const EXCEL_SERIAL_MIN = 20000;
+const EXCEL_SERIAL_MAX = 80000;
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const SLASH_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+const SERIAL_PATTERN = /^\d+(\.\d+)?$/;
+// Formato padrão das exportações CSV do Jira, ex.: 13/Feb/24 10:15 AM
+const MONTH_NAME_PATTERN = /^(\d{1,2})[/ -]([a-zç]{3})[a-zç]*\.?[/ -](\d{4}|\d{2})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, fev: 2, mar: 3, apr: 4, abr: 4, may: 5, mai: 5, jun: 6, jul: 7,
+  aug: 8, ago: 8, sep: 9, set: 9, oct: 10, out: 10, nov: 11, dec: 12, dez: 12
+};
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  // Deslocamento explícito no valor (minutos a leste de UTC)
+  offsetMinutes?: number;
+}
+
+const isValidParts = (parts: DateParts): boolean => {
+  const { year, month, day, hour, minute, second } = parts;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+    return false;
+  }
+  // Rejeita datas como 31/02
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const parseOffset = (zone: string): number => {
+  if (zone.toUpperCase() === 'Z') return 0;
+  const sign = zone.startsWith('-') ? -1 : 1;
+  const digits = zone.slice(1).replace(':', '');
+  return sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2, 4), 10));
+};
+
+const parseIsoParts = (value: string): DateParts | null => {
+  const match = value.match(ISO_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, zone] = match;
+  const parts: DateParts = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+    offsetMinutes: zone ? parseOffset(zone) : undefined
+  };
+  return isValidParts(parts) ? parts : null;
+};
+
+const toFullYear = (year: string) => year.length === 2 ? 2000 + Number(year) : Number(year);
+
+const toHour24 = (hour: string | undefined, meridiem: string | undefined): number => {
+  const parsedHour = Number(hour ?? 0);
+  if (!meridiem) return parsedHour;
+  const isPm = meridiem.toUpperCase() === 'PM';
+  if (parsedHour === 12) return isPm ? 12 : 0;
+  return isPm ? parsedHour + 12 : parsedHour;
+};
+
+const parseSlashParts = (value: string, order: 'dmy' | 'mdy'): DateParts | null => {
+  const match = value.match(SLASH_PATTERN);
+  if (!match) return null;
+  const [, first, second, year, hour, minute, seconds, meridiem] = match;
+  const parts: DateParts = {
+    year: toFullYear(year),
+    month: Number(order === 'dmy' ? second : first),
+    day: Number(order === 'dmy' ? first : second),
+    hour: toHour24(hour, meridiem),
+    minute: Number(minute ?? 0),
+    second: Number(seconds ?? 0)
+  };
+  return isValidParts(parts) ? parts : null;
+};
+
+const parseMonthNameParts = (value: string): DateParts | null => {
+  const match = value.match(MONTH_NAME_PATTERN);
+  if (!match) return null;
+  const [, day, monthName, year, hour, minute, seconds, meridiem] = match;
+  const month = MONTH_NAMES[monthName.toLowerCase()];
+  if (!month) return null;
+  const parts: DateParts = {
+    year: toFullYear(year),
+    month,
+    day: Number(day),
+    hour: toHour24(hour, meridiem),
+    minute: Number(minute ?? 0),
+    second: Number(seconds ?? 0)
+  };
+  return isValidParts(parts) ? parts : null;
+};
+
+const isExcelSerial = (value: string): boolean => {
+  if (!SERIAL_PATTERN.test(value)) return false;
+  const serial = parseFloat(value);
+  return serial >= EXCEL_SERIAL_MIN && serial <= EXCEL_SERIAL_MAX;
+};
+
+const parseExcelSerialParts = (value: string): DateParts | null => {
+  if (!isExcelSerial(value)) return null;
+  const serial = parseFloat(value);
+  // Base 1899-12-30 compensa o bug do ano bissexto de 1900 do Excel
+  const date = new Date(Math.round((serial - 25569) * 86400000));
+  if (isNaN(date.getTime())) return null;
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds()
+  };
+};
+
+// Formato de um valor isolado; datas ambíguas (dia e mês <= 12) assumem dd/MM
+const detectValueFormat = (value: string): DateFormat | null => {
+  if (ISO_PATTERN.test(value)) return 'iso';
+  const slash = value.match(SLASH_PATTERN);
+  if (slash) {
+    if (Number(slash[2]) > 12 && Number(slash[1]) <= 12) return 'MM/dd/yyyy';
+    return 'dd/MM/yyyy';
+  }
+  if (isExcelSerial(value)) return 'excel';
+  return null;
+};
+
+const parseParts = (value: string, format: DateFormat): DateParts | null => {
+  switch (format) {
+    case 'iso':
+      return parseIsoParts(value);
+    case 'dd/MM/yyyy':
+      return parseSlashParts(value, 'dmy');
+    case 'MM/dd/yyyy':
+      return parseSlashParts(value, 'mdy');
+    case 'excel':
+      return parseExcelSerialParts(value);
+    default: {
+      const detected = detectValueFormat(value);
+      return detected ? parseParts(value, detected) : parseMonthNameParts(value);
+    }
+  }
+};
+
+const timezoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getTimezoneOffsetMs = (timezone: string, instant: number): number => {
+  let formatter = timezoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    timezoneFormatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(instant)).map(part => [part.type, part.value]));
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour) % 24,
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Converte o horário "de parede" do fuso de origem para um instante UTC
+const partsToInstant = (parts: DateParts, timezone: string): number => {
+  const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+  if (parts.offsetMinutes !== undefined) {
+    return wallTime - parts.offsetMinutes * 60000;
+  }
+  if (timezone === 'UTC') {
+    return wallTime;
+  }
+  if (timezone && timezone !== 'local') {
+    try {
+      const firstGuess = wallTime - getTimezoneOffsetMs(timezone, wallTime);
+      return wallTime - getTimezoneOffsetMs(timezone, firstGuess);
+    } catch {
+      console.warn(`Fuso horário desconhecido: ${timezone}; usando o fuso do navegador`);
+    }
+  }
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second).getTime();
+};
+
+// Converte datas ISO, dd/MM/yyyy, MM/dd/yyyy ou seriais do Excel para ISO (UTC)
+export function parseDateToISO(value: string, settings: DateColumnSettings = DEFAULT_DATE_SETTINGS): string {
+  if (!value) return '';
+
+  const dateStr = String(value).trim().replace(/['"]/g, '');
+  if (!dateStr) return '';
+
+  // Um valor fora do formato da coluna ainda é aceito se for inequívoco
+  const parts = parseParts(dateStr, settings.format) ??
+    (settings.format !== 'auto' ? parseParts(dateStr, 'auto') : null);
+
+  if (parts) {
+    const instant = partsToInstant(parts, settings.timezone);
+    if (!isNaN(instant)) return new Date(instant).toISOString();
+  }
+
+  // Último recurso para textos como "Feb 3, 2024 10:05"
+  if (/[a-z]{3}/i.test(dateStr)) {
+    const parsed = Date.parse(dateStr);
+    if (!isNaN(parsed)) return new Date(parsed).toISOString();
+  }
+
+  console.warn(`Formato de data não reconhecido: ${dateStr}`);
+  return '';
+}
+
+export const detectDateFormat = (values: string[]): DateColumnDetection | null => {
+  const samples = values
+    .map(value => String(value ?? '').trim())
+    .filter(Boolean)
+    .slice(0, DETECTION_SAMPLE_SIZE);
+  if (samples.length === 0) return null;
+
+  let iso = 0;
+  let isoWithZone = 0;
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let ambiguousSlash = 0;
+  let excel = 0;
+  let monthName = 0;
+
+  samples.forEach(sample => {
+    const isoMatch = sample.match(ISO_PATTERN);
+    if (isoMatch) {
+      iso++;
+      if (isoMatch[7]) isoWithZone++;
+      return;
+    }
+    const slash = sample.match(SLASH_PATTERN);
+    if (slash) {
+      if (Number(slash[1]) > 12) dayFirst++;
+      else if (Number(slash[2]) > 12) monthFirst++;
+      else ambiguousSlash++;
+      return;
+    }
+    if (parseMonthNameParts(sample)) {
+      monthName++;
+      return;
+    }
+    if (isExcelSerial(sample)) excel++;
+  });
+
+  const slash = dayFirst + monthFirst + ambiguousSlash;
+  if ((iso + slash + excel + monthName) / samples.length < DETECTION_MIN_MATCH) return null;
+
+  // Mês por extenso não é ambíguo e não tem opção própria: fica no modo automático
+  if (monthName > iso && monthName > slash && monthName > excel) {
+    return { format: 'auto', hasTimezone: false, ambiguous: false, sampleSize: samples.length };
+  }
+
+  if (slash >= iso && slash >= excel) {
+    return {
+      format: monthFirst > dayFirst ? 'MM/dd/yyyy' : 'dd/MM/yyyy',
+      hasTimezone: false,
+      ambiguous: dayFirst === 0 && monthFirst === 0,
+      sampleSize: samples.length
+    };
+  }
+
+  return {
+    format: iso >= excel ? 'iso' : 'excel',
+    hasTimezone: iso >= excel && isoWithZone === iso,
+    ambiguous: false,
+    sampleSize: samples.length
+  };
+};
+
+export const detectDateColumns = (
+  headers: string[],
+  rows: Record<string, string>[]
+): Record<string, DateColumnDetection> => {
+  return headers.reduce((acc, header) => {
+    const values: string[] = [];
+    for (const row of rows) {
+      const value = row[header];
+      if (value) values.push(value);
+      if (values.length >= DETECTION_SAMPLE_SIZE) break;
+    }
+    const detection = detectDateFormat(values);
+    if (detection) acc[header] = detection;
+    return acc;
+  }, {} as Record<string, DateColumnDetection>);
+};
+
+export const getDateFormatLabel = (format: DateFormat): string => {
+  const option = DATE_FORMAT_OPTIONS.find(item => item.value === format);
+  return option ? t(option.labelKey) : format;
+};
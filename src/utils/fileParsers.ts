@@ -0,0 +1,250 @@
+import * as XLSX from 'xlsx';
+import { SpreadsheetData } from '../types/ingestion';
+import { t } from './i18nUtils';
+
+export type ImportFileFormat = 'excel' | 'csv' | 'tsv' | 'json';
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+
+export const detectFileFormat = (fileName: string): ImportFileFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'tsv' || extension === 'tab') return 'tsv';
+  if (extension === 'json') return 'json';
+  return 'excel';
+};
+
+/**
+ * Exportações agendadas do ServiceNow costumam sair em Latin-1. Tentamos UTF-8
+ * em modo estrito e recorremos a windows-1252 (superconjunto do Latin-1).
+ */
+export const decodeText = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 20);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = 0;
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const headerCount = counts[0];
+    if (headerCount === 0) return;
+    // Prioriza o delimitador que se repete com a mesma frequência em todas as linhas
+    const consistent = counts.filter(count => count === headerCount).length;
+    const score = consistent * 1000 + headerCount;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+export const tableToSpreadsheetData = (table: unknown[][]): SpreadsheetData => {
+  if (!table || table.length <= 1) {
+    throw new Error(t('import.error.noData'));
+  }
+
+  const headers = (table[0] || []).map(header => String(header ?? '').trim());
+  if (!headers.some(Boolean)) {
+    throw new Error(t('import.error.noHeaders'));
+  }
+
+  const rows = table.slice(1).map(row => {
+    const obj: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (header) {
+        obj[header] = String(row[index] ?? '');
+      }
+    });
+    return obj;
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Células de data do Excel não têm fuso: reescrevemos o texto exibido como
+ * yyyy-MM-ddTHH:mm:ss (sem deslocamento) para que o fuso escolhido no
+ * mapeamento seja aplicado na conversão, e não o formato regional da planilha.
+ */
+const normalizeDateCells = (worksheet: XLSX.WorkSheet) => {
+  Object.keys(worksheet).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = worksheet[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || typeof cell.v !== 'number' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+    const date = XLSX.SSF.parse_date_code(cell.v);
+    if (!date) return;
+    cell.w = `${date.y}-${pad(date.m)}-${pad(date.d)}T${pad(date.H)}:${pad(date.M)}:${pad(Math.floor(date.S))}`;
+  });
+};
+
+export const parseWorkbook = (buffer: ArrayBuffer): SpreadsheetData => {
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', cellNF: true });
+
+  if (!workbook.SheetNames.length) {
+    throw new Error(t('import.error.emptyExcel'));
+  }
+
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  normalizeDateCells(worksheet);
+  const rawData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    raw: false,
+    defval: '',
+    header: 1
+  });
+
+  return tableToSpreadsheetData(rawData);
+};
+
+export const parseDelimitedFile = (buffer: ArrayBuffer, delimiter?: string): SpreadsheetData => {
+  const text = decodeText(buffer);
+  return tableToSpreadsheetData(parseDelimitedText(text, delimiter ?? detectDelimiter(text)));
+};
+
+/**
+ * Campos de referência da Table API do ServiceNow vêm como { value, display_value, link };
+ * o Jira usa { name } ou { displayName } e listas como components: [{ name }].
+ */
+const flattenJsonValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    return value.map(flattenJsonValue).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    const ref = value as { display_value?: unknown; value?: unknown; displayName?: unknown; name?: unknown };
+    if (ref.display_value !== undefined && ref.display_value !== '') return String(ref.display_value);
+    if (ref.value !== undefined) return String(ref.value);
+    if (ref.displayName !== undefined) return String(ref.displayName);
+    if (ref.name !== undefined) return String(ref.name);
+    return '';
+  }
+  return String(value);
+};
+
+// Contêineres usados pelo ServiceNow (records/result), Jira (issues) e Zendesk (tickets)
+const JSON_RECORD_CONTAINERS = ['records', 'result', 'issues', 'tickets', 'data'];
+
+const findJsonRecords = (parsed: unknown): unknown[] | null => {
+  if (Array.isArray(parsed)) return parsed;
+  if (!parsed || typeof parsed !== 'object') return null;
+  const container = parsed as Record<string, unknown>;
+  const key = JSON_RECORD_CONTAINERS.find(name => Array.isArray(container[name]));
+  return key ? container[key] as unknown[] : null;
+};
+
+// O Jira agrupa os campos do chamado em "fields", ao lado de "key" e "id"
+const unwrapJsonRecord = (record: Record<string, unknown>): Record<string, unknown> => {
+  const { fields, ...rest } = record;
+  if (fields && typeof fields === 'object' && !Array.isArray(fields)) {
+    return { ...rest, ...(fields as Record<string, unknown>) };
+  }
+  return record;
+};
+
+export const parseJsonExport = (buffer: ArrayBuffer): SpreadsheetData => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeText(buffer));
+  } catch {
+    throw new Error(t('import.error.invalidJson'));
+  }
+
+  const records = findJsonRecords(parsed);
+  if (!records || records.length === 0) {
+    throw new Error(t('import.error.noJsonRecords'));
+  }
+
+  const headers: string[] = [];
+  const rows = (records as Record<string, unknown>[])
+    .filter(record => record && typeof record === 'object')
+    .map(record => {
+      const obj: Record<string, string> = {};
+      Object.entries(unwrapJsonRecord(record)).forEach(([key, value]) => {
+        if (!headers.includes(key)) headers.push(key);
+        obj[key] = flattenJsonValue(value);
+      });
+      return obj;
+    });
+
+  return { headers, rows };
+};
+
+export const parseImportBuffer = (buffer: ArrayBuffer, fileName: string): SpreadsheetData => {
+  switch (detectFileFormat(fileName)) {
+    case 'csv':
+      return parseDelimitedFile(buffer);
+    case 'tsv':
+      return parseDelimitedFile(buffer, '\t');
+    case 'json':
+      return parseJsonExport(buffer);
+    default:
+      return parseWorkbook(buffer);
+  }
+};
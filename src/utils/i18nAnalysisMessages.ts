@@ -0,0 +1,817 @@
+// Mensagens das telas de análise: SLA por prioridade, distribuição por
+// localidade e detalhes do chamado.
+export const ANALYSIS_PT_BR = {
+  // Tempo além da meta de SLA
+  'sla.hour': '{count} hora',
+  'sla.hours': '{count} horas',
+  'sla.day': '{count} dia',
+  'sla.days': '{count} dias',
+  'sla.daysAndHours': '{days} e {hours}',
+  'sla.breach': '{time} fora do SLA',
+  'sla.targetDays': '{count} dia(s)',
+  'sla.within': 'Dentro do SLA',
+  'sla.outside': 'Fora do SLA',
+  'sla.noDate': 'Data não disponível',
+  'sla.noOpened': 'Data de abertura não disponível',
+  'sla.invalidOpened': 'Data de abertura inválida',
+  'sla.invalidUpdated': 'Data de atualização inválida',
+  'sla.notCalculated': 'Tempo não calculado',
+
+  'slaAnalysis.title': 'Análise de SLA',
+  'slaAnalysis.close': 'Fechar',
+  'slaAnalysis.byPriority': 'Cumprimento de SLA por Prioridade',
+  'slaAnalysis.netExplanation': 'Percentual líquido, descontando o tempo em espera; o bruto considera todo o período',
+  'slaAnalysis.gross': 'bruto {percent}%',
+  'slaAnalysis.onTime': '{count} no prazo',
+  'slaAnalysis.late': '{count} atrasados',
+  'slaAnalysis.target': 'Meta de atendimento: {hours} horas',
+  'slaAnalysis.total': 'Total de chamados: {count}',
+  'slaAnalysis.grossWithPauses': 'SLA bruto (com pausas): {percent}%',
+  'slaAnalysis.lateTitle': 'Chamados {priority} fora do SLA',
+  'slaAnalysis.listTitle': 'Chamados {priority} - {status}',
+  'slaAnalysis.found': '{count} chamados encontrados',
+  'slaAnalysis.undefinedPriority': 'Não definido',
+
+  // Lista de chamados fora do SLA e detalhes do chamado
+  'incident.title': 'Chamado {number}',
+  'incident.outOfSlaTitle': 'Chamados Fora do SLA',
+  'incident.noneOutOfSla': 'Nenhum chamado fora do SLA encontrado no período selecionado.',
+  'incident.priority': 'Prioridade {priority}',
+  'incident.number': 'Número',
+  'incident.date': 'Data',
+  'incident.description': 'Descrição',
+  'incident.noDescription': 'Sem descrição',
+  'incident.caller': 'Solicitante',
+  'incident.group': 'Grupo',
+  'incident.time': 'Tempo',
+  'incident.state': 'Estado',
+  'incident.showDetails': 'Exibir detalhes do chamado',
+  'incident.comments': 'Comentários e Notas de Trabalho',
+  'incident.noComments': 'Nenhum comentário ou nota de trabalho disponível.',
+  'incident.assignmentGroup': 'Grupo Responsável',
+  'incident.opened': 'Data de Abertura',
+  'incident.assignedTo': 'Analista Responsável',
+  'incident.unassigned': 'Não atribuído',
+  'incident.category': 'Categoria',
+  'incident.originalCategory': 'Original: {category}',
+  'incident.updated': 'Última Atualização',
+  'incident.updatedBy': 'por {name}',
+  'incident.notUpdated': 'Não atualizado',
+  'incident.dueAt': 'Vence em {date}',
+  'incident.close': 'Fechar',
+  'incident.userIncidents': 'Incidentes do Associado: {user}',
+  'incident.totalIncidents': 'Total de incidentes: {count}',
+  'incident.closeModal': 'Fechar modal',
+  'incident.closeDetails': 'Fechar detalhes do chamado',
+  'incident.state.open': 'Aberto',
+  'incident.state.inProgress': 'Em Andamento',
+  'incident.state.closed': 'Fechado',
+
+  // Distribuição por localidade
+  'location.close': 'Fechar',
+  'location.slaVsPreviousYear': '{value}pp vs Ano Anterior',
+  'location.top5': 'Distribuição por Localidade Top 5',
+  'location.incidents': 'Incidentes',
+  'location.requests': 'Requisições',
+  'location.overall': 'Distribuição Geral dos Incidentes e Requisições por Localidades',
+  'location.unmapped': 'Sem mapeamento',
+  'location.unmappedHint': 'Grupo designado sem localidade no diretório',
+  'location.unspecified': 'Não especificado',
+  'location.incidentsLabel': 'Incidentes:',
+  'location.requestsLabel': 'Requests:',
+
+  // Cobertura de equipe
+  'staffing.title': 'Cobertura de Equipe',
+  'staffing.subtitle':
+    'Escala de analistas cruzada com o campo Atribuído a: carga por hora de escala, chamados sem cobertura e mapa por localidade',
+  'staffing.processing': 'Processando planilha...',
+  'staffing.replace': 'Arraste uma nova escala para substituir a atual',
+  'staffing.drop': 'Arraste a escala de analistas (XLSX ou CSV) ou clique para selecionar',
+  'staffing.columns':
+    'Colunas esperadas: Nome, Nível (N1, N2 ou N3), Início e Fim do turno; opcionais Escala (5x2, 6x1, 24x7) e Localidade',
+  'staffing.error.noAnalysts': 'Nenhum analista válido encontrado na planilha',
+  'staffing.rosterSize': '{count} analistas na escala',
+  'staffing.clear': 'Limpar escala',
+  'staffing.period': 'Período analisado',
+  'staffing.days': '{count} dias',
+  'staffing.ticketsPerShiftHour': 'Chamados / hora de escala',
+  'staffing.uncovered': 'Abertos sem cobertura',
+  'staffing.unmatched': 'Responsáveis fora da escala',
+  'staffing.workload': 'Carga por Analista',
+  'staffing.analyst': 'Analista',
+  'staffing.level': 'Nível',
+  'staffing.shift': 'Turno',
+  'staffing.location': 'Localidade',
+  'staffing.tickets': 'Chamados',
+  'staffing.shiftHours': 'Horas de escala',
+  'staffing.ticketsPerHour': 'Chamados / hora',
+  'staffing.allLocations': 'Todas',
+  'staffing.heatmap': 'Mapa de Cobertura',
+  'staffing.heatmapHint':
+    'Média de analistas em escala por hora; o número é a quantidade de chamados abertos na hora. Vermelho indica chamados abertos sem ninguém escalado.',
+  'staffing.cellTitle': '{location} {hour}h: {analysts} analistas em média, {incidents} chamados',
+  'staffing.uncoveredTitle': 'Abertos sem Cobertura',
+  'staffing.uncoveredHint':
+    'Chamados abertos quando nenhum analista do nível exigido pelo grupo designado estava em escala na localidade',
+  'staffing.showingRecent': ' — exibindo os {count} mais recentes',
+  'staffing.allCovered': 'Todos os chamados foram abertos com cobertura do nível exigido.',
+  'staffing.noGroup': 'Sem grupo',
+
+  // Backlog
+  'backlog.back': 'Voltar',
+  'backlog.title': 'Backlog',
+  'backlog.clear': 'Limpar backlog',
+  'backlog.processing': 'Processando planilha...',
+  'backlog.replace': 'Arraste uma nova planilha de backlog para substituir os dados atuais',
+  'backlog.drop': 'Arraste a planilha de backlog ou clique para selecionar',
+  'backlog.columns':
+    'Colunas esperadas: Number, Created, Status, Team, Category, Story Points, Sprint, Release e Due Date',
+  'backlog.error.noItems': 'Nenhum item válido encontrado na planilha',
+  'backlog.items': 'Itens no Backlog',
+  'backlog.storyPoints': 'Story Points',
+  'backlog.averagePoints': 'Média de {value} por item estimado',
+  'backlog.averageVelocity': 'Velocidade Média',
+  'backlog.pointsPerSprint': 'Pontos concluídos por sprint',
+  'backlog.overdue': 'Vencidos',
+  'backlog.overdueHint': 'Itens abertos com prazo expirado',
+  'backlog.byTeam': 'Por Time',
+  'backlog.byCategory': 'Por Categoria',
+  'backlog.byStatus': 'Por Status',
+  'backlog.notDefined': 'Não definido',
+  'backlog.velocity': 'Velocidade por Sprint (story points)',
+  'backlog.noSprint': 'Nenhum item com sprint informada.',
+  'backlog.committed': 'Comprometidos',
+  'backlog.completed': 'Concluídos',
+  'backlog.upcoming': 'Próximos Vencimentos ({days} dias)',
+  'backlog.noUpcoming': 'Nenhum item aberto vence nos próximos {days} dias.',
+  'backlog.number': 'Número',
+  'backlog.description': 'Descrição',
+  'backlog.team': 'Time',
+  'backlog.sprint': 'Sprint',
+  'backlog.dueDate': 'Vencimento',
+  'backlog.deadline': 'Prazo',
+  'backlog.daysOverdue': '{count} dia(s) em atraso',
+  'backlog.today': 'Hoje',
+  'backlog.daysLeft': '{count} dia(s)',
+
+  // Mudanças x incidentes
+  'change.close': 'Fechar',
+  'change.title': 'Mudanças x Incidentes',
+  'change.subtitle':
+    'Incidentes abertos no mesmo item de configuração durante a janela da mudança ou até {hours}h depois',
+  'change.processing': 'Processando planilha...',
+  'change.replace': 'Arraste uma nova planilha de mudanças para substituir as atuais',
+  'change.drop': 'Arraste a planilha de mudanças (XLSX ou CSV) ou clique para selecionar',
+  'change.columns':
+    'Colunas esperadas: Number, Planned start/end, Actual start/end, Configuration item, Assignment group, Risk e State',
+  'change.window': 'Janela após a mudança (horas)',
+  'change.clear': 'Limpar mudanças',
+  'change.error.noChanges': 'Nenhuma mudança válida encontrada na planilha',
+  'change.error.missingStart': '{planned} ou {actual}',
+  'change.imported': 'Mudanças Importadas',
+  'change.withIncidents': 'Mudanças com Incidentes',
+  'change.correlated': 'Incidentes Correlacionados',
+  'change.windowHint': 'Janela de {hours}h após a mudança',
+  'change.daily': 'Incidentes por dia e janelas de mudança',
+  'change.legend.highPriority': 'Alta prioridade',
+  'change.legend.incidents': 'Demais incidentes',
+  'change.legend.changes': 'Janelas de mudança',
+  'change.followed': 'Mudanças seguidas de incidentes',
+  'change.none': 'Nenhum incidente aberto no mesmo item de configuração até {hours}h após as mudanças.',
+  'change.risk': 'Risco: {risk}',
+  'change.windowRange': '{start} até {end}',
+  'change.incidentCount': '{count} incidente(s)',
+  'change.incident': 'Incidente',
+  'change.description': 'Descrição',
+  'change.priority': 'Prioridade',
+  'change.opened': 'Aberto em',
+  'change.afterStart': 'Após início',
+  'change.hours': '{value}h',
+  'change.groupState': 'Grupo: {group} · Estado: {state}',
+  'monthlyChart.total': 'Total:',
+  'monthlyChart.tickets': '{count} chamados',
+
+  // Impacto por item de configuração e serviço
+  'ciImpact.close': 'Fechar',
+  'ciImpact.title': 'Impacto por Item de Configuração e Serviço',
+  'ciImpact.subtitle':
+    'Volume, participação de P1/P2, horas de indisponibilidade e MTTR por CI e por serviço de negócio',
+  'ciImpact.processing': 'Processando planilha...',
+  'ciImpact.drop': 'Opcional: arraste a planilha do CMDB para incluir classe, responsável e criticidade',
+  'ciImpact.columns': 'Colunas esperadas: Name, Class, Owned by, Criticality e Business service',
+  'ciImpact.cmdbItems': '{count} itens no CMDB importado',
+  'ciImpact.removeCmdb': 'Remover CMDB',
+  'ciImpact.error.noItems': 'Nenhum item de configuração válido encontrado na planilha',
+  'ciImpact.occurrences': '{count} ocorrência(s) na importação do CMDB',
+  'ciImpact.empty': 'Nenhum incidente do período possui item de configuração ou serviço de negócio preenchido.',
+  'ciImpact.fragile': 'CIs mais frágeis',
+  'ciImpact.fragileHint': 'volume + P1/P2 (peso 5) + horas de indisponibilidade',
+  'ciImpact.fragileWeighted': ', ponderado pela criticidade',
+  'ciImpact.incidentsShort': '{count} inc.',
+  'ciImpact.highPriority': '{count} P1/P2',
+  'ciImpact.outageShort': '{value} indisp.',
+  'ciImpact.byCi': 'Por Item de Configuração ({count})',
+  'ciImpact.byService': 'Por Serviço de Negócio ({count})',
+  'ciImpact.filter': 'Filtrar por nome, classe ou responsável',
+  'ciImpact.ci': 'Item de Configuração',
+  'ciImpact.service': 'Serviço de Negócio',
+  'ciImpact.class': 'Classe',
+  'ciImpact.owner': 'Responsável',
+  'ciImpact.criticality': 'Criticidade',
+  'ciImpact.incidents': 'Incidentes',
+  'ciImpact.outage': 'Indisponibilidade',
+  'ciImpact.incident': 'Incidente',
+  'ciImpact.description': 'Descrição',
+  'ciImpact.priority': 'Prioridade',
+  'ciImpact.state': 'Estado',
+  'ciImpact.opened': 'Aberto em',
+  'ciImpact.withoutCi': '{count} incidente(s) do período sem item de configuração não aparecem nesta visão.',
+  'ciImpact.days': '{value}d',
+  'ciImpact.hours': '{value}h',
+
+  // Gestão de problemas
+  'problem.close': 'Fechar',
+  'problem.title': 'Gestão de Problemas',
+  'problem.subtitle': 'Agrupamentos recorrentes de incidentes promovidos a problemas acompanhados até a resolução',
+  'problem.candidatesTab': 'Candidatos ({count})',
+  'problem.problemsTab': 'Problemas ({count} em aberto)',
+  'problem.windowDays': 'Janela (dias)',
+  'problem.minIncidents': 'Mínimo de incidentes',
+  'problem.noCandidates': 'Nenhum agrupamento com {min} ou mais incidentes em {days} dia(s).',
+  'problem.candidateRange': '{count} incidentes entre {first} e {last}',
+  'problem.promote': 'Promover a problema',
+  'problem.empty': 'Nenhum problema registrado. Promova um candidato para começar.',
+  'problem.linkedSummary': '{count} incidente(s) vinculado(s) · atualizado em {date}',
+  'problem.titleField': 'Título',
+  'problem.state': 'Estado',
+  'problem.rootCause': 'Causa raiz',
+  'problem.workaround': 'Solução de contorno',
+  'problem.incidentNumber': 'Número do incidente',
+  'problem.link': 'Vincular incidente',
+  'problem.unlink': 'Desvincular incidente',
+  'problem.outOfPeriod': '{count} incidente(s) vinculado(s) fora do período ou dos dados carregados.',
+  'problem.delete': 'Excluir problema',
+  'problem.confirmDelete': 'Excluir o problema {number}? Os incidentes voltarão a gerar candidatos.',
+  'problem.error.notFound': 'Incidente {number} não encontrado no período carregado',
+  'problem.error.alreadyLinked': 'Incidente {number} já está vinculado a {problem}',
+  'problem.incident': 'Incidente',
+  'problem.description': 'Descrição',
+  'problem.priority': 'Prioridade',
+  'problem.opened': 'Aberto em',
+  'problem.state.new': 'Novo',
+  'problem.state.rootCauseAnalysis': 'Análise de Causa Raiz',
+  'problem.state.knownError': 'Erro Conhecido',
+  'problem.state.resolved': 'Resolvido',
+  'problem.criterion.stringAssociado': 'String Associado',
+  'problem.criterion.configurationItem': 'Item de Configuração',
+  'problem.criterion.shortDescription': 'Descrição semelhante',
+
+  // Comparação entre ferramentas de origem
+  'sourceSystem.single':
+    'Todos os registros do período vêm de {source}. Importe exportações de outras ferramentas (Jira Service Management, GLPI, Zendesk ou OTRS) para comparar as unidades.',
+  'sourceSystem.source': 'Origem',
+  'sourceSystem.incidents': 'Incidentes',
+  'sourceSystem.active': 'Ativos',
+  'sourceSystem.averageResolution': 'Resolução média',
+  'sourceSystem.requests': 'Requests',
+  'sourceSystem.activeRequests': 'Requests ativos',
+  'sourceSystem.hours': '{value}h'
+};
+
+export const ANALYSIS_EN_US: Record<keyof typeof ANALYSIS_PT_BR, string> = {
+  'sla.hour': '{count} hour',
+  'sla.hours': '{count} hours',
+  'sla.day': '{count} day',
+  'sla.days': '{count} days',
+  'sla.daysAndHours': '{days} and {hours}',
+  'sla.breach': '{time} past SLA',
+  'sla.targetDays': '{count} day(s)',
+  'sla.within': 'Within SLA',
+  'sla.outside': 'Past SLA',
+  'sla.noDate': 'Date not available',
+  'sla.noOpened': 'Opened date not available',
+  'sla.invalidOpened': 'Invalid opened date',
+  'sla.invalidUpdated': 'Invalid update date',
+  'sla.notCalculated': 'Time not calculated',
+
+  'slaAnalysis.title': 'SLA Analysis',
+  'slaAnalysis.close': 'Close',
+  'slaAnalysis.byPriority': 'SLA Compliance by Priority',
+  'slaAnalysis.netExplanation': 'Net percentage, excluding time on hold; gross counts the whole period',
+  'slaAnalysis.gross': 'gross {percent}%',
+  'slaAnalysis.onTime': '{count} on time',
+  'slaAnalysis.late': '{count} late',
+  'slaAnalysis.target': 'Service target: {hours} hours',
+  'slaAnalysis.total': 'Total tickets: {count}',
+  'slaAnalysis.grossWithPauses': 'Gross SLA (with pauses): {percent}%',
+  'slaAnalysis.lateTitle': '{priority} tickets past SLA',
+  'slaAnalysis.listTitle': '{priority} tickets - {status}',
+  'slaAnalysis.found': '{count} tickets found',
+  'slaAnalysis.undefinedPriority': 'Not defined',
+
+  'incident.title': 'Ticket {number}',
+  'incident.outOfSlaTitle': 'Tickets Past SLA',
+  'incident.noneOutOfSla': 'No tickets past SLA in the selected period.',
+  'incident.priority': 'Priority {priority}',
+  'incident.number': 'Number',
+  'incident.date': 'Date',
+  'incident.description': 'Description',
+  'incident.noDescription': 'No description',
+  'incident.caller': 'Caller',
+  'incident.group': 'Group',
+  'incident.time': 'Time',
+  'incident.state': 'State',
+  'incident.showDetails': 'Show ticket details',
+  'incident.comments': 'Comments and Work Notes',
+  'incident.noComments': 'No comments or work notes available.',
+  'incident.assignmentGroup': 'Assignment Group',
+  'incident.opened': 'Opened',
+  'incident.assignedTo': 'Assigned Analyst',
+  'incident.unassigned': 'Unassigned',
+  'incident.category': 'Category',
+  'incident.originalCategory': 'Original: {category}',
+  'incident.updated': 'Last Update',
+  'incident.updatedBy': 'by {name}',
+  'incident.notUpdated': 'Not updated',
+  'incident.dueAt': 'Due {date}',
+  'incident.close': 'Close',
+  'incident.userIncidents': "Associate's Incidents: {user}",
+  'incident.totalIncidents': 'Total incidents: {count}',
+  'incident.closeModal': 'Close modal',
+  'incident.closeDetails': 'Close ticket details',
+  'incident.state.open': 'Open',
+  'incident.state.inProgress': 'In Progress',
+  'incident.state.closed': 'Closed',
+
+  'location.close': 'Close',
+  'location.slaVsPreviousYear': '{value}pp vs Previous Year',
+  'location.top5': 'Top 5 Locations',
+  'location.incidents': 'Incidents',
+  'location.requests': 'Requests',
+  'location.overall': 'Overall Distribution of Incidents and Requests by Location',
+  'location.unmapped': 'Unmapped',
+  'location.unmappedHint': 'Assignment group without a location in the directory',
+  'location.unspecified': 'Not specified',
+  'location.incidentsLabel': 'Incidents:',
+  'location.requestsLabel': 'Requests:',
+
+  'staffing.title': 'Staffing Coverage',
+  'staffing.subtitle':
+    'Analyst roster matched against the Assigned to field: load per rostered hour, uncovered tickets and a map by location',
+  'staffing.processing': 'Processing spreadsheet...',
+  'staffing.replace': 'Drag a new roster to replace the current one',
+  'staffing.drop': 'Drag the analyst roster (XLSX or CSV) or click to select',
+  'staffing.columns':
+    'Expected columns: Name, Level (N1, N2 or N3), shift Start and End; optional Schedule (5x2, 6x1, 24x7) and Location',
+  'staffing.error.noAnalysts': 'No valid analysts found in the spreadsheet',
+  'staffing.rosterSize': '{count} analysts on the roster',
+  'staffing.clear': 'Clear roster',
+  'staffing.period': 'Period analyzed',
+  'staffing.days': '{count} days',
+  'staffing.ticketsPerShiftHour': 'Tickets / rostered hour',
+  'staffing.uncovered': 'Opened without coverage',
+  'staffing.unmatched': 'Assignees not on the roster',
+  'staffing.workload': 'Load by Analyst',
+  'staffing.analyst': 'Analyst',
+  'staffing.level': 'Level',
+  'staffing.shift': 'Shift',
+  'staffing.location': 'Location',
+  'staffing.tickets': 'Tickets',
+  'staffing.shiftHours': 'Rostered hours',
+  'staffing.ticketsPerHour': 'Tickets / hour',
+  'staffing.allLocations': 'All',
+  'staffing.heatmap': 'Coverage Map',
+  'staffing.heatmapHint':
+    'Average analysts rostered per hour; the number is the count of tickets opened in that hour. Red marks tickets opened with nobody rostered.',
+  'staffing.cellTitle': '{location} {hour}h: {analysts} analysts on average, {incidents} tickets',
+  'staffing.uncoveredTitle': 'Opened without Coverage',
+  'staffing.uncoveredHint':
+    'Tickets opened when no analyst of the level required by the assignment group was rostered at the location',
+  'staffing.showingRecent': ' — showing the {count} most recent',
+  'staffing.allCovered': 'All tickets were opened with coverage of the required level.',
+  'staffing.noGroup': 'No group',
+
+  'backlog.back': 'Back',
+  'backlog.title': 'Backlog',
+  'backlog.clear': 'Clear backlog',
+  'backlog.processing': 'Processing spreadsheet...',
+  'backlog.replace': 'Drag a new backlog spreadsheet to replace the current data',
+  'backlog.drop': 'Drag the backlog spreadsheet or click to select',
+  'backlog.columns':
+    'Expected columns: Number, Created, Status, Team, Category, Story Points, Sprint, Release and Due Date',
+  'backlog.error.noItems': 'No valid items found in the spreadsheet',
+  'backlog.items': 'Backlog Items',
+  'backlog.storyPoints': 'Story Points',
+  'backlog.averagePoints': 'Average of {value} per estimated item',
+  'backlog.averageVelocity': 'Average Velocity',
+  'backlog.pointsPerSprint': 'Points completed per sprint',
+  'backlog.overdue': 'Overdue',
+  'backlog.overdueHint': 'Open items past their due date',
+  'backlog.byTeam': 'By Team',
+  'backlog.byCategory': 'By Category',
+  'backlog.byStatus': 'By Status',
+  'backlog.notDefined': 'Not defined',
+  'backlog.velocity': 'Velocity by Sprint (story points)',
+  'backlog.noSprint': 'No items with a sprint set.',
+  'backlog.committed': 'Committed',
+  'backlog.completed': 'Completed',
+  'backlog.upcoming': 'Upcoming Due Dates ({days} days)',
+  'backlog.noUpcoming': 'No open items are due in the next {days} days.',
+  'backlog.number': 'Number',
+  'backlog.description': 'Description',
+  'backlog.team': 'Team',
+  'backlog.sprint': 'Sprint',
+  'backlog.dueDate': 'Due date',
+  'backlog.deadline': 'Deadline',
+  'backlog.daysOverdue': '{count} day(s) overdue',
+  'backlog.today': 'Today',
+  'backlog.daysLeft': '{count} day(s)',
+
+  'change.close': 'Close',
+  'change.title': 'Changes x Incidents',
+  'change.subtitle':
+    'Incidents opened on the same configuration item during the change window or up to {hours}h after it',
+  'change.processing': 'Processing spreadsheet...',
+  'change.replace': 'Drag a new change spreadsheet to replace the current changes',
+  'change.drop': 'Drag the change spreadsheet (XLSX or CSV) or click to select',
+  'change.columns':
+    'Expected columns: Number, Planned start/end, Actual start/end, Configuration item, Assignment group, Risk and State',
+  'change.window': 'Window after the change (hours)',
+  'change.clear': 'Clear changes',
+  'change.error.noChanges': 'No valid changes found in the spreadsheet',
+  'change.error.missingStart': '{planned} or {actual}',
+  'change.imported': 'Imported Changes',
+  'change.withIncidents': 'Changes with Incidents',
+  'change.correlated': 'Correlated Incidents',
+  'change.windowHint': '{hours}h window after the change',
+  'change.daily': 'Incidents per day and change windows',
+  'change.legend.highPriority': 'High priority',
+  'change.legend.incidents': 'Other incidents',
+  'change.legend.changes': 'Change windows',
+  'change.followed': 'Changes followed by incidents',
+  'change.none': 'No incidents opened on the same configuration item up to {hours}h after the changes.',
+  'change.risk': 'Risk: {risk}',
+  'change.windowRange': '{start} to {end}',
+  'change.incidentCount': '{count} incident(s)',
+  'change.incident': 'Incident',
+  'change.description': 'Description',
+  'change.priority': 'Priority',
+  'change.opened': 'Opened at',
+  'change.afterStart': 'After start',
+  'change.hours': '{value}h',
+  'change.groupState': 'Group: {group} · State: {state}',
+  'monthlyChart.total': 'Total:',
+  'monthlyChart.tickets': '{count} tickets',
+
+  'ciImpact.close': 'Close',
+  'ciImpact.title': 'Impact by Configuration Item and Service',
+  'ciImpact.subtitle': 'Volume, P1/P2 share, outage hours and MTTR by CI and by business service',
+  'ciImpact.processing': 'Processing spreadsheet...',
+  'ciImpact.drop': 'Optional: drag the CMDB spreadsheet to include class, owner and criticality',
+  'ciImpact.columns': 'Expected columns: Name, Class, Owned by, Criticality and Business service',
+  'ciImpact.cmdbItems': '{count} items in the imported CMDB',
+  'ciImpact.removeCmdb': 'Remove CMDB',
+  'ciImpact.error.noItems': 'No valid configuration items found in the spreadsheet',
+  'ciImpact.occurrences': '{count} issue(s) in the CMDB import',
+  'ciImpact.empty': 'No incidents in the period have a configuration item or business service filled in.',
+  'ciImpact.fragile': 'Most fragile CIs',
+  'ciImpact.fragileHint': 'volume + P1/P2 (weight 5) + outage hours',
+  'ciImpact.fragileWeighted': ', weighted by criticality',
+  'ciImpact.incidentsShort': '{count} inc.',
+  'ciImpact.highPriority': '{count} P1/P2',
+  'ciImpact.outageShort': '{value} outage',
+  'ciImpact.byCi': 'By Configuration Item ({count})',
+  'ciImpact.byService': 'By Business Service ({count})',
+  'ciImpact.filter': 'Filter by name, class or owner',
+  'ciImpact.ci': 'Configuration Item',
+  'ciImpact.service': 'Business Service',
+  'ciImpact.class': 'Class',
+  'ciImpact.owner': 'Owner',
+  'ciImpact.criticality': 'Criticality',
+  'ciImpact.incidents': 'Incidents',
+  'ciImpact.outage': 'Outage',
+  'ciImpact.incident': 'Incident',
+  'ciImpact.description': 'Description',
+  'ciImpact.priority': 'Priority',
+  'ciImpact.state': 'State',
+  'ciImpact.opened': 'Opened at',
+  'ciImpact.withoutCi': '{count} incident(s) in the period without a configuration item are not shown in this view.',
+  'ciImpact.days': '{value}d',
+  'ciImpact.hours': '{value}h',
+
+  'problem.close': 'Close',
+  'problem.title': 'Problem Management',
+  'problem.subtitle': 'Recurring incident groups promoted to problems and tracked until resolution',
+  'problem.candidatesTab': 'Candidates ({count})',
+  'problem.problemsTab': 'Problems ({count} open)',
+  'problem.windowDays': 'Window (days)',
+  'problem.minIncidents': 'Minimum incidents',
+  'problem.noCandidates': 'No groups with {min} or more incidents within {days} day(s).',
+  'problem.candidateRange': '{count} incidents between {first} and {last}',
+  'problem.promote': 'Promote to problem',
+  'problem.empty': 'No problems recorded. Promote a candidate to get started.',
+  'problem.linkedSummary': '{count} linked incident(s) · updated {date}',
+  'problem.titleField': 'Title',
+  'problem.state': 'State',
+  'problem.rootCause': 'Root cause',
+  'problem.workaround': 'Workaround',
+  'problem.incidentNumber': 'Incident number',
+  'problem.link': 'Link incident',
+  'problem.unlink': 'Unlink incident',
+  'problem.outOfPeriod': '{count} linked incident(s) outside the period or the loaded data.',
+  'problem.delete': 'Delete problem',
+  'problem.confirmDelete': 'Delete problem {number}? Its incidents will generate candidates again.',
+  'problem.error.notFound': 'Incident {number} not found in the loaded period',
+  'problem.error.alreadyLinked': 'Incident {number} is already linked to {problem}',
+  'problem.incident': 'Incident',
+  'problem.description': 'Description',
+  'problem.priority': 'Priority',
+  'problem.opened': 'Opened at',
+  'problem.state.new': 'New',
+  'problem.state.rootCauseAnalysis': 'Root Cause Analysis',
+  'problem.state.knownError': 'Known Error',
+  'problem.state.resolved': 'Resolved',
+  'problem.criterion.stringAssociado': 'Associated String',
+  'problem.criterion.configurationItem': 'Configuration Item',
+  'problem.criterion.shortDescription': 'Similar description',
+
+  'sourceSystem.single':
+    'All records in the period come from {source}. Import exports from other tools (Jira Service Management, GLPI, Zendesk or OTRS) to compare the units.',
+  'sourceSystem.source': 'Source',
+  'sourceSystem.incidents': 'Incidents',
+  'sourceSystem.active': 'Active',
+  'sourceSystem.averageResolution': 'Average resolution',
+  'sourceSystem.requests': 'Requests',
+  'sourceSystem.activeRequests': 'Active requests',
+  'sourceSystem.hours': '{value}h'
+};
+
+export const ANALYSIS_ES_ES: Record<keyof typeof ANALYSIS_PT_BR, string> = {
+  'sla.hour': '{count} hora',
+  'sla.hours': '{count} horas',
+  'sla.day': '{count} día',
+  'sla.days': '{count} días',
+  'sla.daysAndHours': '{days} y {hours}',
+  'sla.breach': '{time} fuera del SLA',
+  'sla.targetDays': '{count} día(s)',
+  'sla.within': 'Dentro del SLA',
+  'sla.outside': 'Fuera del SLA',
+  'sla.noDate': 'Fecha no disponible',
+  'sla.noOpened': 'Fecha de apertura no disponible',
+  'sla.invalidOpened': 'Fecha de apertura no válida',
+  'sla.invalidUpdated': 'Fecha de actualización no válida',
+  'sla.notCalculated': 'Tiempo no calculado',
+
+  'slaAnalysis.title': 'Análisis de SLA',
+  'slaAnalysis.close': 'Cerrar',
+  'slaAnalysis.byPriority': 'Cumplimiento de SLA por Prioridad',
+  'slaAnalysis.netExplanation': 'Porcentaje neto, descontando el tiempo en espera; el bruto considera todo el período',
+  'slaAnalysis.gross': 'bruto {percent}%',
+  'slaAnalysis.onTime': '{count} a tiempo',
+  'slaAnalysis.late': '{count} atrasados',
+  'slaAnalysis.target': 'Meta de atención: {hours} horas',
+  'slaAnalysis.total': 'Total de tickets: {count}',
+  'slaAnalysis.grossWithPauses': 'SLA bruto (con pausas): {percent}%',
+  'slaAnalysis.lateTitle': 'Tickets {priority} fuera del SLA',
+  'slaAnalysis.listTitle': 'Tickets {priority} - {status}',
+  'slaAnalysis.found': '{count} tickets encontrados',
+  'slaAnalysis.undefinedPriority': 'No definido',
+
+  'incident.title': 'Ticket {number}',
+  'incident.outOfSlaTitle': 'Tickets Fuera del SLA',
+  'incident.noneOutOfSla': 'No se encontraron tickets fuera del SLA en el período seleccionado.',
+  'incident.priority': 'Prioridad {priority}',
+  'incident.number': 'Número',
+  'incident.date': 'Fecha',
+  'incident.description': 'Descripción',
+  'incident.noDescription': 'Sin descripción',
+  'incident.caller': 'Solicitante',
+  'incident.group': 'Grupo',
+  'incident.time': 'Tiempo',
+  'incident.state': 'Estado',
+  'incident.showDetails': 'Ver detalles del ticket',
+  'incident.comments': 'Comentarios y Notas de Trabajo',
+  'incident.noComments': 'No hay comentarios ni notas de trabajo disponibles.',
+  'incident.assignmentGroup': 'Grupo Responsable',
+  'incident.opened': 'Fecha de Apertura',
+  'incident.assignedTo': 'Analista Responsable',
+  'incident.unassigned': 'Sin asignar',
+  'incident.category': 'Categoría',
+  'incident.originalCategory': 'Original: {category}',
+  'incident.updated': 'Última Actualización',
+  'incident.updatedBy': 'por {name}',
+  'incident.notUpdated': 'No actualizado',
+  'incident.dueAt': 'Vence el {date}',
+  'incident.close': 'Cerrar',
+  'incident.userIncidents': 'Incidentes del Asociado: {user}',
+  'incident.totalIncidents': 'Total de incidentes: {count}',
+  'incident.closeModal': 'Cerrar modal',
+  'incident.closeDetails': 'Cerrar detalles del ticket',
+  'incident.state.open': 'Abierto',
+  'incident.state.inProgress': 'En Curso',
+  'incident.state.closed': 'Cerrado',
+
+  'location.close': 'Cerrar',
+  'location.slaVsPreviousYear': '{value}pp vs Año Anterior',
+  'location.top5': 'Distribución por Ubicación Top 5',
+  'location.incidents': 'Incidentes',
+  'location.requests': 'Solicitudes',
+  'location.overall': 'Distribución General de Incidentes y Solicitudes por Ubicación',
+  'location.unmapped': 'Sin mapeo',
+  'location.unmappedHint': 'Grupo asignado sin ubicación en el directorio',
+  'location.unspecified': 'No especificado',
+  'location.incidentsLabel': 'Incidentes:',
+  'location.requestsLabel': 'Solicitudes:',
+
+  'staffing.title': 'Cobertura del Equipo',
+  'staffing.subtitle':
+    'Escala de analistas cruzada con el campo Asignado a: carga por hora de escala, tickets sin cobertura y mapa por localidad',
+  'staffing.processing': 'Procesando hoja de cálculo...',
+  'staffing.replace': 'Arrastre una nueva escala para reemplazar la actual',
+  'staffing.drop': 'Arrastre la escala de analistas (XLSX o CSV) o haga clic para seleccionar',
+  'staffing.columns':
+    'Columnas esperadas: Nombre, Nivel (N1, N2 o N3), Inicio y Fin del turno; opcionales Escala (5x2, 6x1, 24x7) y Localidad',
+  'staffing.error.noAnalysts': 'No se encontró ningún analista válido en la hoja de cálculo',
+  'staffing.rosterSize': '{count} analistas en la escala',
+  'staffing.clear': 'Limpiar escala',
+  'staffing.period': 'Período analizado',
+  'staffing.days': '{count} días',
+  'staffing.ticketsPerShiftHour': 'Tickets / hora de escala',
+  'staffing.uncovered': 'Abiertos sin cobertura',
+  'staffing.unmatched': 'Responsables fuera de la escala',
+  'staffing.workload': 'Carga por Analista',
+  'staffing.analyst': 'Analista',
+  'staffing.level': 'Nivel',
+  'staffing.shift': 'Turno',
+  'staffing.location': 'Localidad',
+  'staffing.tickets': 'Tickets',
+  'staffing.shiftHours': 'Horas de escala',
+  'staffing.ticketsPerHour': 'Tickets / hora',
+  'staffing.allLocations': 'Todas',
+  'staffing.heatmap': 'Mapa de Cobertura',
+  'staffing.heatmapHint':
+    'Promedio de analistas en escala por hora; el número es la cantidad de tickets abiertos en la hora. El rojo indica tickets abiertos sin nadie en escala.',
+  'staffing.cellTitle': '{location} {hour}h: {analysts} analistas en promedio, {incidents} tickets',
+  'staffing.uncoveredTitle': 'Abiertos sin Cobertura',
+  'staffing.uncoveredHint':
+    'Tickets abiertos cuando ningún analista del nivel exigido por el grupo asignado estaba en escala en la localidad',
+  'staffing.showingRecent': ' — mostrando los {count} más recientes',
+  'staffing.allCovered': 'Todos los tickets se abrieron con cobertura del nivel exigido.',
+  'staffing.noGroup': 'Sin grupo',
+
+  'backlog.back': 'Volver',
+  'backlog.title': 'Backlog',
+  'backlog.clear': 'Limpiar backlog',
+  'backlog.processing': 'Procesando hoja de cálculo...',
+  'backlog.replace': 'Arrastre una nueva hoja de backlog para reemplazar los datos actuales',
+  'backlog.drop': 'Arrastre la hoja de backlog o haga clic para seleccionar',
+  'backlog.columns':
+    'Columnas esperadas: Number, Created, Status, Team, Category, Story Points, Sprint, Release y Due Date',
+  'backlog.error.noItems': 'No se encontró ningún ítem válido en la hoja de cálculo',
+  'backlog.items': 'Ítems en el Backlog',
+  'backlog.storyPoints': 'Story Points',
+  'backlog.averagePoints': 'Promedio de {value} por ítem estimado',
+  'backlog.averageVelocity': 'Velocidad Media',
+  'backlog.pointsPerSprint': 'Puntos completados por sprint',
+  'backlog.overdue': 'Vencidos',
+  'backlog.overdueHint': 'Ítems abiertos con plazo vencido',
+  'backlog.byTeam': 'Por Equipo',
+  'backlog.byCategory': 'Por Categoría',
+  'backlog.byStatus': 'Por Estado',
+  'backlog.notDefined': 'No definido',
+  'backlog.velocity': 'Velocidad por Sprint (story points)',
+  'backlog.noSprint': 'Ningún ítem con sprint informada.',
+  'backlog.committed': 'Comprometidos',
+  'backlog.completed': 'Completados',
+  'backlog.upcoming': 'Próximos Vencimientos ({days} días)',
+  'backlog.noUpcoming': 'Ningún ítem abierto vence en los próximos {days} días.',
+  'backlog.number': 'Número',
+  'backlog.description': 'Descripción',
+  'backlog.team': 'Equipo',
+  'backlog.sprint': 'Sprint',
+  'backlog.dueDate': 'Vencimiento',
+  'backlog.deadline': 'Plazo',
+  'backlog.daysOverdue': '{count} día(s) de atraso',
+  'backlog.today': 'Hoy',
+  'backlog.daysLeft': '{count} día(s)',
+
+  'change.close': 'Cerrar',
+  'change.title': 'Cambios x Incidentes',
+  'change.subtitle':
+    'Incidentes abiertos en el mismo elemento de configuración durante la ventana del cambio o hasta {hours}h después',
+  'change.processing': 'Procesando hoja de cálculo...',
+  'change.replace': 'Arrastre una nueva hoja de cambios para reemplazar los actuales',
+  'change.drop': 'Arrastre la hoja de cambios (XLSX o CSV) o haga clic para seleccionar',
+  'change.columns':
+    'Columnas esperadas: Number, Planned start/end, Actual start/end, Configuration item, Assignment group, Risk y State',
+  'change.window': 'Ventana después del cambio (horas)',
+  'change.clear': 'Limpiar cambios',
+  'change.error.noChanges': 'No se encontró ningún cambio válido en la hoja de cálculo',
+  'change.error.missingStart': '{planned} o {actual}',
+  'change.imported': 'Cambios Importados',
+  'change.withIncidents': 'Cambios con Incidentes',
+  'change.correlated': 'Incidentes Correlacionados',
+  'change.windowHint': 'Ventana de {hours}h después del cambio',
+  'change.daily': 'Incidentes por día y ventanas de cambio',
+  'change.legend.highPriority': 'Alta prioridad',
+  'change.legend.incidents': 'Otros incidentes',
+  'change.legend.changes': 'Ventanas de cambio',
+  'change.followed': 'Cambios seguidos de incidentes',
+  'change.none':
+    'Ningún incidente abierto en el mismo elemento de configuración hasta {hours}h después de los cambios.',
+  'change.risk': 'Riesgo: {risk}',
+  'change.windowRange': '{start} hasta {end}',
+  'change.incidentCount': '{count} incidente(s)',
+  'change.incident': 'Incidente',
+  'change.description': 'Descripción',
+  'change.priority': 'Prioridad',
+  'change.opened': 'Abierto el',
+  'change.afterStart': 'Tras el inicio',
+  'change.hours': '{value}h',
+  'change.groupState': 'Grupo: {group} · Estado: {state}',
+  'monthlyChart.total': 'Total:',
+  'monthlyChart.tickets': '{count} tickets',
+
+  'ciImpact.close': 'Cerrar',
+  'ciImpact.title': 'Impacto por Elemento de Configuración y Servicio',
+  'ciImpact.subtitle':
+    'Volumen, participación de P1/P2, horas de indisponibilidad y MTTR por CI y por servicio de negocio',
+  'ciImpact.processing': 'Procesando hoja de cálculo...',
+  'ciImpact.drop': 'Opcional: arrastre la hoja del CMDB para incluir clase, responsable y criticidad',
+  'ciImpact.columns': 'Columnas esperadas: Name, Class, Owned by, Criticality y Business service',
+  'ciImpact.cmdbItems': '{count} ítems en el CMDB importado',
+  'ciImpact.removeCmdb': 'Eliminar CMDB',
+  'ciImpact.error.noItems': 'No se encontró ningún elemento de configuración válido en la hoja de cálculo',
+  'ciImpact.occurrences': '{count} incidencia(s) en la importación del CMDB',
+  'ciImpact.empty': 'Ningún incidente del período tiene elemento de configuración o servicio de negocio informado.',
+  'ciImpact.fragile': 'CIs más frágiles',
+  'ciImpact.fragileHint': 'volumen + P1/P2 (peso 5) + horas de indisponibilidad',
+  'ciImpact.fragileWeighted': ', ponderado por la criticidad',
+  'ciImpact.incidentsShort': '{count} inc.',
+  'ciImpact.highPriority': '{count} P1/P2',
+  'ciImpact.outageShort': '{value} indisp.',
+  'ciImpact.byCi': 'Por Elemento de Configuración ({count})',
+  'ciImpact.byService': 'Por Servicio de Negocio ({count})',
+  'ciImpact.filter': 'Filtrar por nombre, clase o responsable',
+  'ciImpact.ci': 'Elemento de Configuración',
+  'ciImpact.service': 'Servicio de Negocio',
+  'ciImpact.class': 'Clase',
+  'ciImpact.owner': 'Responsable',
+  'ciImpact.criticality': 'Criticidad',
+  'ciImpact.incidents': 'Incidentes',
+  'ciImpact.outage': 'Indisponibilidad',
+  'ciImpact.incident': 'Incidente',
+  'ciImpact.description': 'Descripción',
+  'ciImpact.priority': 'Prioridad',
+  'ciImpact.state': 'Estado',
+  'ciImpact.opened': 'Abierto el',
+  'ciImpact.withoutCi': '{count} incidente(s) del período sin elemento de configuración no aparecen en esta vista.',
+  'ciImpact.days': '{value}d',
+  'ciImpact.hours': '{value}h',
+
+  'problem.close': 'Cerrar',
+  'problem.title': 'Gestión de Problemas',
+  'problem.subtitle': 'Agrupaciones recurrentes de incidentes promovidas a problemas y seguidas hasta la resolución',
+  'problem.candidatesTab': 'Candidatos ({count})',
+  'problem.problemsTab': 'Problemas ({count} abiertos)',
+  'problem.windowDays': 'Ventana (días)',
+  'problem.minIncidents': 'Mínimo de incidentes',
+  'problem.noCandidates': 'Ninguna agrupación con {min} o más incidentes en {days} día(s).',
+  'problem.candidateRange': '{count} incidentes entre {first} y {last}',
+  'problem.promote': 'Promover a problema',
+  'problem.empty': 'Ningún problema registrado. Promueva un candidato para empezar.',
+  'problem.linkedSummary': '{count} incidente(s) vinculado(s) · actualizado el {date}',
+  'problem.titleField': 'Título',
+  'problem.state': 'Estado',
+  'problem.rootCause': 'Causa raíz',
+  'problem.workaround': 'Solución alternativa',
+  'problem.incidentNumber': 'Número del incidente',
+  'problem.link': 'Vincular incidente',
+  'problem.unlink': 'Desvincular incidente',
+  'problem.outOfPeriod': '{count} incidente(s) vinculado(s) fuera del período o de los datos cargados.',
+  'problem.delete': 'Eliminar problema',
+  'problem.confirmDelete': '¿Eliminar el problema {number}? Los incidentes volverán a generar candidatos.',
+  'problem.error.notFound': 'Incidente {number} no encontrado en el período cargado',
+  'problem.error.alreadyLinked': 'El incidente {number} ya está vinculado a {problem}',
+  'problem.incident': 'Incidente',
+  'problem.description': 'Descripción',
+  'problem.priority': 'Prioridad',
+  'problem.opened': 'Abierto el',
+  'problem.state.new': 'Nuevo',
+  'problem.state.rootCauseAnalysis': 'Análisis de Causa Raíz',
+  'problem.state.knownError': 'Error Conocido',
+  'problem.state.resolved': 'Resuelto',
+  'problem.criterion.stringAssociado': 'String Asociado',
+  'problem.criterion.configurationItem': 'Elemento de Configuración',
+  'problem.criterion.shortDescription': 'Descripción similar',
+
+  'sourceSystem.single':
+    'Todos los registros del período provienen de {source}. Importe exportaciones de otras herramientas (Jira Service Management, GLPI, Zendesk u OTRS) para comparar las unidades.',
+  'sourceSystem.source': 'Origen',
+  'sourceSystem.incidents': 'Incidentes',
+  'sourceSystem.active': 'Activos',
+  'sourceSystem.averageResolution': 'Resolución media',
+  'sourceSystem.requests': 'Solicitudes',
+  'sourceSystem.activeRequests': 'Solicitudes activas',
+  'sourceSystem.hours': '{value}h'
+};
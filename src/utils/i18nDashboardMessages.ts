@@ -0,0 +1,1364 @@
+// Mensagens dos painéis de incidentes e solicitações: análises por categoria,
+// grupo, analista e turno, históricos, modais de chamados e telas de IA.
+export const DASHBOARD_PT_BR = {
+  // Análises com IA (incidentes e solicitações)
+  'aiAnalysis.incidentsTitle': 'Análise dos Dados por IA',
+  'aiAnalysis.requestsTitle': 'Análise Preditiva - IA',
+  'aiAnalysis.errorTitle': 'Erro na Análise',
+  'aiAnalysis.retry': 'Tentar Novamente',
+  'aiAnalysis.loadingIncidents': 'Analisando incidentes com IA...',
+  'aiAnalysis.loadingHint': 'Isso pode levar alguns segundos dependendo do volume de dados.',
+  'aiAnalysis.analyzingIncidents': 'Analisando incidentes...',
+  'aiAnalysis.analyzingRequests': 'Analisando solicitações...',
+  'aiAnalysis.error.empty': 'Nenhuma análise foi gerada',
+  'aiAnalysis.error.parse': 'Falha ao processar resultados da análise',
+  'aiAnalysis.error.incidents': 'Erro ao analisar incidentes',
+  'aiAnalysis.error.requests': 'Erro ao analisar solicitações',
+  'aiAnalysis.rootCause': 'Análise de Causa Raiz',
+  'aiAnalysis.priority': 'Prioridade {priority}',
+  'aiAnalysis.requestPriority.HIGH': 'Alta',
+  'aiAnalysis.requestPriority.MEDIUM': 'Média',
+  'aiAnalysis.requestPriority.LOW': 'Baixa',
+  'aiAnalysis.occurrences': '{count} ocorrências',
+  'aiAnalysis.relatedIncidents': 'Ocorrências Relacionadas',
+  'aiAnalysis.relatedRequests': 'Solicitações Relacionadas',
+  'aiAnalysis.byShift': 'Análise por Turno',
+  'aiAnalysis.byPeriod': 'Análise por Período',
+  'aiAnalysis.hours': '{start}h às {end}h',
+  'aiAnalysis.totalIncidents': 'Total de Chamados',
+  'aiAnalysis.criticalIncidents': 'Incidentes Críticos',
+  'aiAnalysis.totalRequests': 'Total de Solicitações',
+  'aiAnalysis.criticalRequests': 'Solicitações Críticas',
+  'aiAnalysis.commonCategories': 'Categorias Comuns',
+  'aiAnalysis.patterns': 'Padrões Identificados',
+  'aiAnalysis.recommendations': 'Recomendações',
+  'aiAnalysis.crossShift': 'Padrões Entre Turnos',
+  'aiAnalysis.crossPeriod': 'Padrões Entre Períodos',
+  'aiAnalysis.generalRecommendations': 'Recomendações Gerais',
+  'aiAnalysis.smartRecommendations': 'Recomendações Inteligentes',
+  'aiAnalysis.recPriority.high': 'alta',
+  'aiAnalysis.recPriority.medium': 'média',
+  'aiAnalysis.recPriority.low': 'baixa',
+  'aiAnalysis.effort.quickWin': 'rápida',
+  'aiAnalysis.effort.mediumTerm': 'média',
+  'aiAnalysis.effort.longTerm': 'longa',
+  'aiAnalysis.type.preventive': 'Ação Preventiva',
+  'aiAnalysis.type.process': 'Melhoria de Processo',
+  'aiAnalysis.type.technical': 'Solução Técnica',
+  'aiAnalysis.impact': 'Impacto: {value}%',
+  'aiAnalysis.impactAnalysis': 'Análise de Impacto',
+  'aiAnalysis.affectedAreas': 'Áreas Afetadas',
+  'aiAnalysis.severity': 'Severidade',
+  'aiAnalysis.impactByGroup': 'Impacto por Grupo',
+  'aiAnalysis.groupIncidents': '{count} chamados',
+  'aiAnalysis.groupRequests': '{count} solicitações',
+  'aiAnalysis.quickWins': 'Quick Wins',
+  'aiAnalysis.confidence': 'Nível de Confiança',
+  'aiAnalysis.confidence.overall': 'Geral',
+  'aiAnalysis.confidence.dataQuality': 'Qualidade dos Dados',
+  'aiAnalysis.confidence.patternStrength': 'Força dos Padrões',
+  'aiAnalysis.confidence.recommendations': 'Recomendações',
+  'aiAnalysis.request.title': 'Solicitação {number}',
+  'aiAnalysis.request.description': 'Descrição',
+  'aiAnalysis.request.comments': 'Comentários e Notas de Trabalho',
+  'aiAnalysis.request.noComments': 'Nenhum comentário ou nota de trabalho disponível.',
+  'aiAnalysis.request.requester': 'Solicitante',
+  'aiAnalysis.request.group': 'Grupo Responsável',
+  'aiAnalysis.request.opened': 'Data de Abertura',
+  'aiAnalysis.request.assignee': 'Analista Responsável',
+  'aiAnalysis.request.type': 'Tipo de Solicitação',
+  'aiAnalysis.request.updated': 'Última Atualização',
+  'aiAnalysis.request.unassigned': 'Não atribuído',
+  'aiAnalysis.request.uncategorized': 'Não categorizado',
+  'aiAnalysis.request.notUpdated': 'Não atualizado',
+  'aiAnalysis.request.updatedBy': 'por {user}',
+  'aiAnalysis.request.close': 'Fechar',
+
+  // Análise por IA do drilldown de String Associado
+  'aiModal.title': 'Análise Inteligente dos Incidentes',
+  'aiModal.category': 'Categoria:',
+  'aiModal.subcategory': 'Subcategoria:',
+  'aiModal.string': 'String Associado:',
+  'aiModal.loading': 'Analisando dados com IA...',
+  'aiModal.rootCause': 'Causa Raiz',
+  'aiModal.rootCauseHint': 'Principais causas dos incidentes analisados',
+  'aiModal.recommendationsHint': 'Sugestões baseadas na análise de IA para melhorar os processos',
+  'aiModal.impactHint': 'Top 5 agrupamentos de Category + Subcategory mais recorrentes',
+  'aiModal.incident': '{count} incidente',
+  'aiModal.incidents': '{count} incidentes',
+  'aiModal.topLocations': 'Localidades mais afetadas:',
+  'aiModal.notDefined': 'Não Definido',
+  'aiModal.noRecurrence': 'Sem recorrência significativa',
+  'aiModal.error': 'Erro ao carregar a análise.',
+
+  // Análise por IA de uma String Associado
+  'stringAnalysis.title': 'Análise de String: {string}',
+  'stringAnalysis.loading': 'Realizando análise...',
+  'stringAnalysis.error': 'Erro ao realizar análise',
+  'stringAnalysis.incidents': '{count} incidentes',
+  'stringAnalysis.showIncidents': 'Ver incidentes relacionados',
+  'stringAnalysis.related': 'Incidentes relacionados: {title}',
+  'stringAnalysis.noIncidents': 'Nenhum incidente encontrado.',
+  'stringAnalysis.number': 'Número',
+  'stringAnalysis.date': 'Data',
+  'stringAnalysis.description': 'Descrição',
+  'stringAnalysis.confidence': 'Nível de Confiança: {value}%',
+
+  // Top chamados por String Associado
+  'topIncidents.title': 'Top Chamados por Categoria',
+  'topIncidents.subcategories': 'Subcategorias: {name}',
+  'topIncidents.strings': 'Strings Associadas: {name}',
+  'topIncidents.tickets': 'Chamados: {name}',
+  'topIncidents.noTickets': 'Nenhum chamado encontrado para este grupo.',
+  'topIncidents.details': 'Ver detalhes do chamado',
+  'topIncidents.top': 'Top {count}',
+  'topIncidents.ticketCount': '{count} chamados',
+  'topIncidents.ticketCountShort': '({count} chamados)',
+  'topIncidents.series': 'Quantidade de Chamados',
+  'topIncidents.onlyOneString': 'Apenas uma string associada encontrada para esta subcategoria.',
+  'topIncidents.onlyOneSubcategory': 'Apenas uma subcategoria encontrada para esta categoria.',
+  'topIncidents.analyzeWithAI': 'Analisar com IA',
+  'topIncidents.chooseCategory': 'Escolha uma categoria para análise',
+  'topIncidents.chooseSubcategory': 'Escolha uma subcategoria para análise',
+  'topIncidents.cancel': 'Cancelar',
+  'topIncidents.notDefined': 'Não Definido',
+
+  // Análises de incidentes por categoria, grupo, localidade, hardware e software
+  'analysis.close': 'Fechar análise',
+  'analysis.barChart': 'Gráfico de Barras',
+  'analysis.pieChart': 'Gráfico de Pizza',
+  'analysis.lineChart': 'Gráfico de Linha',
+  'analysis.areaChart': 'Gráfico de Área',
+  'analysis.tickets': '{count} chamados',
+  'analysis.ticketsParen': '({count} chamados)',
+  'analysis.ticketsFound': '{count} chamados encontrados',
+  'analysis.percentOfTotal': '{percent}% do total',
+  'analysis.total': 'Total: {count}',
+  'analysis.noIncidents': 'Nenhum incidente encontrado no período selecionado.',
+  'analysis.notSpecified': 'Não especificado',
+  'analysis.priority.critical': 'Crítico',
+  'analysis.priority.high': 'Alto',
+  'analysis.priority.medium': 'Médio',
+  'analysis.priority.low': 'Baixo',
+  'analysis.priority.undefined': 'Não definido',
+  'analysis.criticalIncidents': '{count} incidentes críticos',
+  'analysis.openIncidents': '{count} incidentes em aberto',
+  'analysis.open': '{count} em aberto',
+  'analysis.openParen': '({count} em aberto)',
+  'analysis.openTicketsTitle': 'Chamados em Aberto - {name}',
+  'analysis.criticalTicketsTitle': 'Chamados Críticos - {name}',
+  'analysis.taxonomy': 'Taxonomia',
+  'analysis.mostCritical': 'Sistemas Mais Críticos',
+  'analysis.basedOnP1P2': '(Baseado em P1 + P2)',
+  'categoryAnalysis.title': 'Análise por Categoria e Prioridade',
+  'categoryAnalysis.subtitle': 'Total de {count} chamados no período',
+  'categoryAnalysis.modalTitle': 'Chamados {priority} - {category}',
+  'categoryAnalysis.topCallers': 'Top 30 usuários com mais chamados ({count} total)',
+  'categoryAnalysis.details': 'Detalhamento por Categoria',
+  'groupAnalysis.title': 'Análise por Grupo',
+  'groupAnalysis.distribution': 'Distribuição por Grupo',
+  'groupAnalysis.attention': 'Grupos que Requerem Atenção',
+  'groupAnalysis.technicians': '{count} técnicos',
+  'hardwareAnalysis.title': 'Análise de Hardware',
+  'hardwareAnalysis.empty': 'Nenhum incidente de hardware encontrado no período selecionado.',
+  'hardwareAnalysis.distribution': 'Distribuição por Hardware',
+  'hardwareAnalysis.attention': 'Hardware que Requer Atenção',
+  'softwareAnalysis.title': 'Análise de Sistemas e Programas',
+  'softwareAnalysis.empty': 'Nenhum incidente de software encontrado no período selecionado.',
+  'softwareAnalysis.distribution': 'Distribuição por Sistema',
+  'softwareAnalysis.attention': 'Sistemas que Requerem Atenção',
+  'locationAnalysis.title': 'Análise por Localidade',
+  'locationAnalysis.empty': 'Nenhum incidente encontrado para os filtros selecionados.',
+  'locationAnalysis.modalTitle': 'Chamados em {location}',
+  'locationAnalysis.subcategoryFilter': 'Subcategoria: {value}',
+  'locationAnalysis.groupFilter': 'Grupo: {value}',
+  'locationAnalysis.allTickets': 'Todos os chamados',
+  'locationAnalysis.allSubcategories': 'Todas as Subcategorias',
+  'locationAnalysis.allGroups': 'Todos os Grupos',
+  'locationAnalysis.distribution': 'Distribuição por Localidade',
+  'locationAnalysis.activeUsers': '{count} usuários ativos',
+  'locationAnalysis.critical': 'Críticos (P1/P2)',
+
+  // Análises por analista, usuário e indicadores associados
+  'analysis.status.all': 'Todos os Estados',
+  'analysis.status.open': 'Em Aberto',
+  'analysis.status.inProgress': 'Em Andamento',
+  'analysis.status.closed': 'Fechados',
+  'analystAnalysis.title': 'Análise por Analista',
+  'analystAnalysis.modalTitle': 'Chamados de {analyst}',
+  'analystAnalysis.clearMonth': '(Limpar filtro mensal)',
+  'analystAnalysis.monthly': 'Evolução Mensal',
+  'analystAnalysis.distribution': 'Distribuição por Analista',
+  'analystAnalysis.group': '{count} grupo',
+  'analystAnalysis.groups': '{count} grupos',
+  'analystAnalysis.tickets': 'chamados',
+  'analystAnalysis.open': 'Abertos',
+  'analystAnalysis.closed': 'Fechados',
+  'analystAnalysis.criticalPending': '{count} críticos pendentes',
+  'analystAnalysis.performance': 'Performance Mensal - {analyst}',
+  'analystAnalysis.avgTime': 'Tempo Médio:',
+  'analystAnalysis.hours': '{count} horas',
+  'analystAnalysis.completionRate': 'Taxa de Conclusão:',
+  'analystAnalysis.totalTickets': 'Total de Chamados:',
+  'analystAnalysis.completed': 'Concluídos:',
+  'analystAnalysis.avgTimeSeries': 'Tempo Médio (horas)',
+  'analystAnalysis.completionRateSeries': 'Taxa de Conclusão (%)',
+  'userAnalysis.title': 'Análise por Usuários',
+  'userAnalysis.distribution': 'Distribuição por Prioridade - Top 5 Usuários',
+  'userAnalysis.user': 'Usuário',
+  'userAnalysis.total': 'Total',
+  'userAnalysis.critical': '{count} críticos',
+  'userAnalysis.unidentified': 'Não identificado',
+  'associated.title': 'Análise de Indicadores Associados',
+  'associated.notDefined': 'Não Definido',
+  'associated.byShift': 'Distribuição por Turno',
+  'associated.note': 'Observação:',
+  'associated.shiftNote':
+    'Este gráfico apresenta a distribuição dos chamados por turno de atendimento. Os percentuais e totais ajudam a identificar em quais períodos há maior demanda, auxiliando no planejamento de equipes e recursos.',
+  'associated.byFunction': 'Distribuição por Função',
+  'associated.clickForAI': 'Clique na barra para Análise por IA',
+  'associated.functionList': 'Lista de Funções e Quantidade de Chamados',
+  'associated.shiftByFunction': 'Distribuição por Turno - {name}',
+  'associated.ticketsByShift': 'Chamados por Turno',
+  'associated.byGroup': 'Distribuição por Grupo (por Função)',
+  'associated.byGroupHint':
+    'Cada barra representa um grupo e as cores mostram a quantidade de chamados por função (N1, N2, N3, etc.).',
+  'associated.groupList': 'Lista de Grupos e Quantidade de Chamados por Função',
+  'associated.byString': 'Distribuição por String',
+  'associated.stringList': 'Lista de Strings e Quantidade de Chamados',
+
+  // Históricos por categoria, SLA e período
+  'analysis.uncategorized': 'Não categorizado',
+  'categoryHistory.title': 'Histórico por Categoria',
+  'categoryHistory.top5Title': 'Histórico por Categoria (Top 5)',
+  'categoryHistory.subcategoriesOf': 'Subcategorias de {category}',
+  'categoryHistory.subcategoriesFound': '{count} subcategorias encontradas',
+  'categoryHistory.ticketsInPeriod': '{count} chamados no período selecionado',
+  'categoryHistory.total': 'Total por Categoria',
+  'categoryHistory.tooltipTotal': 'Total',
+  'categoryHistory.selectStart': 'Selecione a data inicial',
+  'categoryHistory.selectEnd': 'Selecione a data final',
+  'categoryHistory.back': 'Voltar para Categorias',
+  'categoryHistory.last30': 'Últimos 30 dias',
+  'categoryHistory.last90': 'Últimos 90 dias',
+  'categoryHistory.selectPeriod': 'Selecionar Período',
+  'categoryHistory.startDate': 'Data Inicial',
+  'categoryHistory.endDate': 'Data Final',
+  'categoryHistory.showSubcategories': 'Ver Subcategorias',
+  'historyData.title': 'Histórico de Chamados',
+  'historyData.subtitle': 'Análise comparativa entre Incidentes e Requests',
+  'historyData.all': 'Geral',
+  'historyData.monthly': 'Distribuição Mensal',
+  'historyData.monthlyIncidents': 'Distribuição Mensal de Incidentes',
+  'historyData.monthlyRequests': 'Distribuição Mensal de Requests',
+  'historyData.incidentsByPriority': 'Incidentes por Prioridade',
+  'historyData.requestsByPriority': 'Requests por Prioridade',
+  'slaHistory.title': 'Histórico por SLA',
+  'slaHistory.ticketsInPeriod': '{count} chamados no período',
+  'slaHistory.global': 'SLA Global',
+  'slaHistory.netOfPauses': 'Líquido de pausas · bruto {percent}%',
+  'slaHistory.gross': 'SLA bruto (com pausas)',
+  'slaHistory.criticalOutside': 'Críticos fora do SLA',
+  'slaHistory.byMonth': 'Distribuição por Mês',
+  'slaHistory.clickHint': "Clique para ver os SLA's por Categoria",
+  'slaHistory.back': 'Voltar para visão mensal',
+  'slaHistory.byCategory': 'Análise por Categoria - {month}',
+
+  // Históricos por grupo, localidade e turno; variação mensal
+  'groupHistory.title': 'Histórico por Grupo',
+  'locationHistory.top5Title': 'Top 5 Localidades (por Grupo de Atribuição)',
+  'locationSummary.title': 'Sumarização Mensal por Localidade',
+  'locationSummary.subtitle': 'Top 6 localidades mais ativas',
+  'locationSummary.ticketsInPeriod': 'chamados no período',
+  'shiftHistory.title': 'Análise por Turno',
+  'shiftHistory.subtitle':
+    'Distribuição de chamados por período: Manhã (06:00h às 14:00h) • Tarde (14:00h às 22:00h) • Noite (22:00h às 06:00h)',
+  'shiftHistory.configure': 'Configurar Turnos',
+  'shiftHistory.timeRange': '{start}h às {end}h',
+  'shiftHistory.variesByLocation': ' (padrão; varia por localidade)',
+  'shiftHistory.tickets': 'chamados',
+  'shiftHistory.commonCategories': 'Categorias Comuns',
+  'shiftHistory.patterns': 'Padrões Identificados',
+  'shiftHistory.recommendations': 'Recomendações',
+  'shiftHistory.recommendation1': '• Otimização do processo de atendimento',
+  'shiftHistory.recommendation2': '• Treinamento específico para demandas do turno',
+  'shiftHistory.recommendation3': '• Revisão da distribuição de recursos',
+  'shiftHistory.monthly': 'Distribuição Mensal por Turno',
+  'shiftHistory.crossShift': 'Padrões Entre Turnos',
+  'shiftHistory.crossShiftPattern': '• Solicitações de suporte local são um problema constante em todos os turnos',
+  'shiftHistory.generalRecommendations': 'Recomendações Gerais',
+  'shiftHistory.generalRecommendation1': '• Capacitação contínua dos times de suporte técnico para melhor atendimento',
+  'shiftHistory.generalRecommendation2': '• Implementação de processos de documentação padronizados',
+  'shiftHistory.generalRecommendation3': '• Revisão periódica dos procedimentos de escalação',
+  'variation.noData': 'Não há dados suficientes para comparação mensal.',
+  'variation.noLocationData': 'Não há dados suficientes para comparação mensal por localidade.',
+  'variation.comparedTo': '{current} em relação a {previous}',
+  'variation.requests': 'Requisições',
+  'variation.incidentsUp': 'Aumento de {count} chamados',
+  'variation.incidentsDown': 'Redução de {count} chamados',
+  'variation.requestsUp': 'Aumento de {count} solicitações',
+  'variation.requestsDown': 'Redução de {count} solicitações',
+  'variation.slaBetter': 'Melhoria no SLA',
+  'variation.slaWorse': 'Piora no SLA',
+
+  // Solicitações: prioridade, status, detalhes e modais
+  'request.priority.HIGH': 'Alta',
+  'request.priority.MEDIUM': 'Média',
+  'request.priority.LOW': 'Baixa',
+  'request.status.NEW': 'Novo',
+  'request.status.IN_PROGRESS': 'Em Andamento',
+  'request.status.ON_HOLD': 'Em Espera',
+  'request.status.COMPLETED': 'Concluído',
+  'request.status.CANCELLED': 'Cancelado',
+  'requestDetails.title': 'Detalhes da Solicitação',
+  'requestDetails.detailedDescription': 'Descrição Detalhada',
+  'requestDetails.general': 'Informações Gerais',
+  'requestDetails.status': 'Status',
+  'requestDetails.assignment': 'Atribuição',
+  'requestDetails.assignedTo': 'Atribuído para',
+  'requestDetails.dates': 'Datas',
+  'requestDetails.opened': 'Aberto em',
+  'requestDetails.updated': 'Última atualização',
+  'requestModal.inProgressTitle': 'Solicitações em Andamento',
+  'requestModal.onHoldTitle': 'Solicitações em Espera',
+  'requestModal.found': '{count} solicitações encontradas',
+  'requestModal.noneOnHold': 'Não há solicitações em espera no momento.',
+  'requestModal.title': 'Solicitação {number}',
+  'requestModal.shortDescription': 'Descrição Resumida',
+  'requestModal.fullDescription': 'Descrição Completa',
+  'requestModal.requestType': 'Tipo de Solicitação',
+  'requestModal.slaStatus': 'Status do SLA',
+  'requestModal.slaProgress': 'Progresso do SLA',
+  'requestModal.slaDeadline': 'Prazo SLA',
+  'requestModal.elapsed': 'Tempo Decorrido',
+  'requestModal.remaining': '{time} restantes',
+  'requestModal.remainingInSla': '{time} restantes no SLA',
+  'requestModal.slaExceeded': 'SLA excedido',
+  'requestModal.slaExceededBy': 'SLA excedido em {time}',
+  'requestModal.holdStatus': 'Status de Espera',
+  'requestModal.holdTime': 'Tempo em Espera',
+  'requestModal.slaAtRisk': 'SLA em risco',
+  'requestModal.slaAtRiskDetail': 'SLA em risco - Tempo em espera excedeu o prazo recomendado',
+  'requestModal.unknownTime': 'Tempo desconhecido',
+
+  // Dashboard de solicitações
+  'requestDashboard.title': 'Requests Dashboard',
+  'requestDashboard.back': 'Voltar para Dashboard de Incidentes',
+  'requestDashboard.total': 'Total de Requests',
+  'requestDashboard.completed': 'Concluídos',
+  'requestDashboard.highPriority': 'Alta Prioridade',
+  'requestDashboard.clickForDetails': 'Clique para ver detalhes',
+  'requestDashboard.metricsTitle': 'Métricas do Dashboard',
+  'requestDashboard.topUsers': 'Principais Usuários',
+  'requestDashboard.locationAnalysis': 'Análise por Localidade',
+  'requestDashboard.noUserData': 'Nenhum dado de usuário encontrado no período selecionado.',
+  'requestDashboard.noLocationData': 'Nenhum dado de localidade encontrado no período selecionado.',
+  'requestDashboard.requests': 'solicitações',
+  'requestDashboard.categoryRequested': '{count} categoria solicitada',
+  'requestDashboard.categoriesRequested': '{count} categorias solicitadas',
+  'requestDashboard.activeUser': '{count} usuário ativo',
+  'requestDashboard.categories': 'Categorias',
+  'requestDashboard.location': 'Localidade',
+  'requestDashboard.users': 'Usuários',
+  'requestSections.general.title': 'Análise Geral',
+  'requestSections.general.description': 'Visão geral das requests',
+  'requestSections.category.title': 'Por Categoria',
+  'requestSections.category.description': 'Distribuição por categoria',
+  'requestSections.priority.title': 'Por Prioridade',
+  'requestSections.priority.description': 'Análise por prioridade',
+  'requestSections.history.title': 'Histórico',
+  'requestSections.history.description': 'Análise histórica',
+  'requestSections.users.title': 'Principais usuários',
+  'requestSections.users.description': 'Usuários mais frequentes',
+  'requestSections.location.title': 'Por Localidade',
+  'requestSections.location.description': 'Análise por localização',
+  'requestSections.sla.title': 'Análise de SLA',
+  'requestSections.sla.description': 'Acordo de nível de serviço',
+  'requestSections.metrics.title': 'Métricas',
+  'requestSections.metrics.description': 'Indicadores de desempenho',
+  'requestSections.performance.title': 'Performance',
+  'requestSections.performance.description': 'Métricas de performance',
+  'requestSections.trends.title': 'Tendências',
+  'requestSections.trends.description': 'Análise de tendências',
+  'requestSections.predictive.title': 'Análise Preditiva - IA',
+  'requestSections.predictive.description': 'Análise inteligente de solicitações',
+  'requestSla.title': 'Análise de SLA - Requests',
+  'requestSla.slaRate': 'Taxa de SLA',
+  'requestSla.completionRate': 'Taxa de Conclusão',
+  'requestSla.distribution': 'Distribuição de SLA',
+  'requestSla.byPriority': 'SLA por Prioridade',
+  'requestSla.details': 'Detalhes por Prioridade',
+  'requestSla.target': 'SLA: {time}',
+  'requestSla.avgTime': 'Tempo Médio',
+  'requestSla.avgDays': '{days} dias',
+  'requestSla.completed': '{count} concluídos',
+  'requestTrend.title': 'Análise de Tendências',
+  'requestTrend.monthlyByPriority': 'Tendência Mensal por Prioridade',
+  'requestTrend.monthlyByStatus': 'Tendência Mensal por Status',
+  'requestTrend.monthlyCompletion': 'Taxa de Conclusão Mensal',
+  'requestTrend.byCategory': 'Tendência por Categoria',
+  'requestTrend.weekly': 'Tendência Semanal',
+  'requestTrend.new': 'Novos',
+  'requestTrend.cancelled': 'Cancelados',
+  'requestAnalysis.title': 'Análise de Requests',
+  'requestAnalysis.inPeriod': '{count} requests no período',
+  'requestAnalysis.count': '{count} requests',
+  'requestAnalysis.byStatus': 'Distribuição por Status',
+  'requestAnalysis.topRequesters': 'Top 10 Solicitantes',
+  'requestAnalysis.byCategory': 'Distribuição por Categoria',
+
+  // Métricas, histórico, prioridade, categoria e localidade de requests
+  'requestPerformance.title': 'Métricas de Performance',
+  'requestPerformance.monthly': 'Tendência de Performance Mensal',
+  'requestPerformance.byGroup': 'Tempo de Resolução por Grupo',
+  'requestPerformance.topAnalysts': 'Top 10 Analistas por Tempo de Resolução',
+  'requestPerformance.avgDaysSeries': 'Tempo Médio (dias)',
+  'requestPerformance.completionSeries': 'Taxa de Conclusão (%)',
+  'requestPerformance.avgTime': 'tempo médio',
+  'requestPerformance.requests': 'Solicitações',
+  'requestPerformance.total': '{count} total',
+  'requestPerformance.completed': '{count} concluídas',
+  'requestPerformance.high': '{count} alta',
+  'requestPerformance.medium': '{count} média',
+  'requestPerformance.low': '{count} baixa',
+  'requestMetrics.statusOverview': 'Visão Geral por Status',
+  'requestMetrics.priorityOverview': 'Visão Geral por Prioridade',
+  'requestMetrics.main': 'Métricas Principais',
+  'requestMetrics.total': 'Total de Solicitações',
+  'requestMetrics.topCategories': 'Top 5 Categorias',
+  'requestHistory.title': 'Histórico de Requests',
+  'requestHistory.clickHint': 'Clique para ver detalhes do mês',
+  'requestPriority.title': 'Análise por Prioridade',
+  'requestPriority.assignedGroups': '{count} grupos atribuídos',
+  'requestCategory.title': 'Análise por Categoria',
+  'requestCategory.requesters': '{count} solicitantes',
+  'requestLocation.count': '{count} solicitações',
+  'requestLocation.inPeriod': 'solicitações no período',
+  'requestLocation.top5': 'Top 5 por Localidade',
+  'requestLocation.highPriority': 'Alta prioridade: {count}',
+
+  // Seletor de período e busca de solicitações
+  'dateRange.previousMonth': 'Mês anterior',
+  'dateRange.nextMonth': 'Próximo mês',
+  'dateRange.close': 'Fechar calendário',
+  'dateRange.start': 'Início',
+  'dateRange.end': 'Fim',
+  'dateRange.days': '{count} dias',
+  'dateRange.last7': 'Últimos 7 dias',
+  'dateRange.today': 'Hoje',
+  'search.title': 'Buscar Solicitação',
+  'search.placeholder': 'Buscar por número, descrição, solicitante...',
+  'search.allCategories': 'Todas as Categorias',
+
+  // Alertas e listas de chamados críticos, pendentes e em espera
+  'criticalModal.title': 'Chamados Críticos em Aberto',
+  'criticalModal.count': '{count} chamados pendentes',
+  'criticalModal.openFor': 'Aberto há {duration}',
+  'priorityAlert.title': 'Atenção: Chamados Críticos em Aberto',
+  'priorityAlert.total': 'Total de chamados críticos em aberto: {count}',
+  'onHoldModal.title': 'Chamados em Espera',
+  'onHoldModal.count': '{count} chamados em espera',
+  'onHoldModal.waitingFor': 'Em espera por {duration}',
+  'onHoldModal.unknownTime': 'Tempo desconhecido',
+  'pendingModal.title': 'Chamados Pendentes'
+};
+
+export const DASHBOARD_EN_US: Record<keyof typeof DASHBOARD_PT_BR, string> = {
+  'aiAnalysis.incidentsTitle': 'AI Data Analysis',
+  'aiAnalysis.requestsTitle': 'Predictive Analysis - AI',
+  'aiAnalysis.errorTitle': 'Analysis Error',
+  'aiAnalysis.retry': 'Try Again',
+  'aiAnalysis.loadingIncidents': 'Analyzing incidents with AI...',
+  'aiAnalysis.loadingHint': 'This may take a few seconds depending on the data volume.',
+  'aiAnalysis.analyzingIncidents': 'Analyzing incidents...',
+  'aiAnalysis.analyzingRequests': 'Analyzing requests...',
+  'aiAnalysis.error.empty': 'No analysis was generated',
+  'aiAnalysis.error.parse': 'Failed to process the analysis results',
+  'aiAnalysis.error.incidents': 'Error analyzing incidents',
+  'aiAnalysis.error.requests': 'Error analyzing requests',
+  'aiAnalysis.rootCause': 'Root Cause Analysis',
+  'aiAnalysis.priority': 'Priority {priority}',
+  'aiAnalysis.requestPriority.HIGH': 'High',
+  'aiAnalysis.requestPriority.MEDIUM': 'Medium',
+  'aiAnalysis.requestPriority.LOW': 'Low',
+  'aiAnalysis.occurrences': '{count} occurrences',
+  'aiAnalysis.relatedIncidents': 'Related Occurrences',
+  'aiAnalysis.relatedRequests': 'Related Requests',
+  'aiAnalysis.byShift': 'Analysis by Shift',
+  'aiAnalysis.byPeriod': 'Analysis by Period',
+  'aiAnalysis.hours': '{start}h to {end}h',
+  'aiAnalysis.totalIncidents': 'Total Tickets',
+  'aiAnalysis.criticalIncidents': 'Critical Incidents',
+  'aiAnalysis.totalRequests': 'Total Requests',
+  'aiAnalysis.criticalRequests': 'Critical Requests',
+  'aiAnalysis.commonCategories': 'Common Categories',
+  'aiAnalysis.patterns': 'Identified Patterns',
+  'aiAnalysis.recommendations': 'Recommendations',
+  'aiAnalysis.crossShift': 'Cross-Shift Patterns',
+  'aiAnalysis.crossPeriod': 'Cross-Period Patterns',
+  'aiAnalysis.generalRecommendations': 'General Recommendations',
+  'aiAnalysis.smartRecommendations': 'Smart Recommendations',
+  'aiAnalysis.recPriority.high': 'high',
+  'aiAnalysis.recPriority.medium': 'medium',
+  'aiAnalysis.recPriority.low': 'low',
+  'aiAnalysis.effort.quickWin': 'quick',
+  'aiAnalysis.effort.mediumTerm': 'medium',
+  'aiAnalysis.effort.longTerm': 'long',
+  'aiAnalysis.type.preventive': 'Preventive Action',
+  'aiAnalysis.type.process': 'Process Improvement',
+  'aiAnalysis.type.technical': 'Technical Solution',
+  'aiAnalysis.impact': 'Impact: {value}%',
+  'aiAnalysis.impactAnalysis': 'Impact Analysis',
+  'aiAnalysis.affectedAreas': 'Affected Areas',
+  'aiAnalysis.severity': 'Severity',
+  'aiAnalysis.impactByGroup': 'Impact by Group',
+  'aiAnalysis.groupIncidents': '{count} tickets',
+  'aiAnalysis.groupRequests': '{count} requests',
+  'aiAnalysis.quickWins': 'Quick Wins',
+  'aiAnalysis.confidence': 'Confidence Level',
+  'aiAnalysis.confidence.overall': 'Overall',
+  'aiAnalysis.confidence.dataQuality': 'Data Quality',
+  'aiAnalysis.confidence.patternStrength': 'Pattern Strength',
+  'aiAnalysis.confidence.recommendations': 'Recommendations',
+  'aiAnalysis.request.title': 'Request {number}',
+  'aiAnalysis.request.description': 'Description',
+  'aiAnalysis.request.comments': 'Comments and Work Notes',
+  'aiAnalysis.request.noComments': 'No comments or work notes available.',
+  'aiAnalysis.request.requester': 'Requester',
+  'aiAnalysis.request.group': 'Assignment Group',
+  'aiAnalysis.request.opened': 'Opened',
+  'aiAnalysis.request.assignee': 'Assigned Analyst',
+  'aiAnalysis.request.type': 'Request Type',
+  'aiAnalysis.request.updated': 'Last Update',
+  'aiAnalysis.request.unassigned': 'Unassigned',
+  'aiAnalysis.request.uncategorized': 'Uncategorized',
+  'aiAnalysis.request.notUpdated': 'Not updated',
+  'aiAnalysis.request.updatedBy': 'by {user}',
+  'aiAnalysis.request.close': 'Close',
+
+  'aiModal.title': 'Smart Incident Analysis',
+  'aiModal.category': 'Category:',
+  'aiModal.subcategory': 'Subcategory:',
+  'aiModal.string': 'Associated String:',
+  'aiModal.loading': 'Analyzing data with AI...',
+  'aiModal.rootCause': 'Root Cause',
+  'aiModal.rootCauseHint': 'Main causes of the analyzed incidents',
+  'aiModal.recommendationsHint': 'AI-based suggestions to improve the processes',
+  'aiModal.impactHint': 'Top 5 most recurring Category + Subcategory groupings',
+  'aiModal.incident': '{count} incident',
+  'aiModal.incidents': '{count} incidents',
+  'aiModal.topLocations': 'Most affected locations:',
+  'aiModal.notDefined': 'Not Defined',
+  'aiModal.noRecurrence': 'No significant recurrence',
+  'aiModal.error': 'Error loading the analysis.',
+
+  'stringAnalysis.title': 'String Analysis: {string}',
+  'stringAnalysis.loading': 'Running analysis...',
+  'stringAnalysis.error': 'Error running the analysis',
+  'stringAnalysis.incidents': '{count} incidents',
+  'stringAnalysis.showIncidents': 'View related incidents',
+  'stringAnalysis.related': 'Related incidents: {title}',
+  'stringAnalysis.noIncidents': 'No incidents found.',
+  'stringAnalysis.number': 'Number',
+  'stringAnalysis.date': 'Date',
+  'stringAnalysis.description': 'Description',
+  'stringAnalysis.confidence': 'Confidence Level: {value}%',
+
+  'topIncidents.title': 'Top Tickets by Category',
+  'topIncidents.subcategories': 'Subcategories: {name}',
+  'topIncidents.strings': 'Associated Strings: {name}',
+  'topIncidents.tickets': 'Tickets: {name}',
+  'topIncidents.noTickets': 'No tickets found for this group.',
+  'topIncidents.details': 'View ticket details',
+  'topIncidents.top': 'Top {count}',
+  'topIncidents.ticketCount': '{count} tickets',
+  'topIncidents.ticketCountShort': '({count} tickets)',
+  'topIncidents.series': 'Number of Tickets',
+  'topIncidents.onlyOneString': 'Only one associated string found for this subcategory.',
+  'topIncidents.onlyOneSubcategory': 'Only one subcategory found for this category.',
+  'topIncidents.analyzeWithAI': 'Analyze with AI',
+  'topIncidents.chooseCategory': 'Choose a category to analyze',
+  'topIncidents.chooseSubcategory': 'Choose a subcategory to analyze',
+  'topIncidents.cancel': 'Cancel',
+  'topIncidents.notDefined': 'Not Defined',
+
+  'analysis.close': 'Close analysis',
+  'analysis.barChart': 'Bar Chart',
+  'analysis.pieChart': 'Pie Chart',
+  'analysis.lineChart': 'Line Chart',
+  'analysis.areaChart': 'Area Chart',
+  'analysis.tickets': '{count} tickets',
+  'analysis.ticketsParen': '({count} tickets)',
+  'analysis.ticketsFound': '{count} tickets found',
+  'analysis.percentOfTotal': '{percent}% of total',
+  'analysis.total': 'Total: {count}',
+  'analysis.noIncidents': 'No incidents found in the selected period.',
+  'analysis.notSpecified': 'Not specified',
+  'analysis.priority.critical': 'Critical',
+  'analysis.priority.high': 'High',
+  'analysis.priority.medium': 'Medium',
+  'analysis.priority.low': 'Low',
+  'analysis.priority.undefined': 'Undefined',
+  'analysis.criticalIncidents': '{count} critical incidents',
+  'analysis.openIncidents': '{count} open incidents',
+  'analysis.open': '{count} open',
+  'analysis.openParen': '({count} open)',
+  'analysis.openTicketsTitle': 'Open Tickets - {name}',
+  'analysis.criticalTicketsTitle': 'Critical Tickets - {name}',
+  'analysis.taxonomy': 'Taxonomy',
+  'analysis.mostCritical': 'Most Critical Systems',
+  'analysis.basedOnP1P2': '(Based on P1 + P2)',
+  'categoryAnalysis.title': 'Analysis by Category and Priority',
+  'categoryAnalysis.subtitle': '{count} tickets in the period',
+  'categoryAnalysis.modalTitle': '{priority} Tickets - {category}',
+  'categoryAnalysis.topCallers': 'Top 30 users with the most tickets ({count} total)',
+  'categoryAnalysis.details': 'Breakdown by Category',
+  'groupAnalysis.title': 'Analysis by Group',
+  'groupAnalysis.distribution': 'Distribution by Group',
+  'groupAnalysis.attention': 'Groups Requiring Attention',
+  'groupAnalysis.technicians': '{count} technicians',
+  'hardwareAnalysis.title': 'Hardware Analysis',
+  'hardwareAnalysis.empty': 'No hardware incidents found in the selected period.',
+  'hardwareAnalysis.distribution': 'Distribution by Hardware',
+  'hardwareAnalysis.attention': 'Hardware Requiring Attention',
+  'softwareAnalysis.title': 'Systems and Software Analysis',
+  'softwareAnalysis.empty': 'No software incidents found in the selected period.',
+  'softwareAnalysis.distribution': 'Distribution by System',
+  'softwareAnalysis.attention': 'Systems Requiring Attention',
+  'locationAnalysis.title': 'Analysis by Location',
+  'locationAnalysis.empty': 'No incidents found for the selected filters.',
+  'locationAnalysis.modalTitle': 'Tickets in {location}',
+  'locationAnalysis.subcategoryFilter': 'Subcategory: {value}',
+  'locationAnalysis.groupFilter': 'Group: {value}',
+  'locationAnalysis.allTickets': 'All tickets',
+  'locationAnalysis.allSubcategories': 'All Subcategories',
+  'locationAnalysis.allGroups': 'All Groups',
+  'locationAnalysis.distribution': 'Distribution by Location',
+  'locationAnalysis.activeUsers': '{count} active users',
+  'locationAnalysis.critical': 'Critical (P1/P2)',
+
+  'analysis.status.all': 'All States',
+  'analysis.status.open': 'Open',
+  'analysis.status.inProgress': 'In Progress',
+  'analysis.status.closed': 'Closed',
+  'analystAnalysis.title': 'Analysis by Analyst',
+  'analystAnalysis.modalTitle': 'Tickets for {analyst}',
+  'analystAnalysis.clearMonth': '(Clear monthly filter)',
+  'analystAnalysis.monthly': 'Monthly Trend',
+  'analystAnalysis.distribution': 'Distribution by Analyst',
+  'analystAnalysis.group': '{count} group',
+  'analystAnalysis.groups': '{count} groups',
+  'analystAnalysis.tickets': 'tickets',
+  'analystAnalysis.open': 'Open',
+  'analystAnalysis.closed': 'Closed',
+  'analystAnalysis.criticalPending': '{count} critical pending',
+  'analystAnalysis.performance': 'Monthly Performance - {analyst}',
+  'analystAnalysis.avgTime': 'Average Time:',
+  'analystAnalysis.hours': '{count} hours',
+  'analystAnalysis.completionRate': 'Completion Rate:',
+  'analystAnalysis.totalTickets': 'Total Tickets:',
+  'analystAnalysis.completed': 'Completed:',
+  'analystAnalysis.avgTimeSeries': 'Average Time (hours)',
+  'analystAnalysis.completionRateSeries': 'Completion Rate (%)',
+  'userAnalysis.title': 'Analysis by User',
+  'userAnalysis.distribution': 'Distribution by Priority - Top 5 Users',
+  'userAnalysis.user': 'User',
+  'userAnalysis.total': 'Total',
+  'userAnalysis.critical': '{count} critical',
+  'userAnalysis.unidentified': 'Unidentified',
+  'associated.title': 'Associated Indicators Analysis',
+  'associated.notDefined': 'Not Defined',
+  'associated.byShift': 'Distribution by Shift',
+  'associated.note': 'Note:',
+  'associated.shiftNote':
+    'This chart shows how tickets are distributed across support shifts. The percentages and totals help identify the periods with the highest demand, supporting team and resource planning.',
+  'associated.byFunction': 'Distribution by Function',
+  'associated.clickForAI': 'Click a bar for AI analysis',
+  'associated.functionList': 'Functions and Ticket Count',
+  'associated.shiftByFunction': 'Distribution by Shift - {name}',
+  'associated.ticketsByShift': 'Tickets by Shift',
+  'associated.byGroup': 'Distribution by Group (by Function)',
+  'associated.byGroupHint': 'Each bar is a group and the colors show the ticket count per function (N1, N2, N3, etc.).',
+  'associated.groupList': 'Groups and Ticket Count by Function',
+  'associated.byString': 'Distribution by String',
+  'associated.stringList': 'Strings and Ticket Count',
+
+  'analysis.uncategorized': 'Uncategorized',
+  'categoryHistory.title': 'History by Category',
+  'categoryHistory.top5Title': 'History by Category (Top 5)',
+  'categoryHistory.subcategoriesOf': 'Subcategories of {category}',
+  'categoryHistory.subcategoriesFound': '{count} subcategories found',
+  'categoryHistory.ticketsInPeriod': '{count} tickets in the selected period',
+  'categoryHistory.total': 'Total by Category',
+  'categoryHistory.tooltipTotal': 'Total',
+  'categoryHistory.selectStart': 'Select the start date',
+  'categoryHistory.selectEnd': 'Select the end date',
+  'categoryHistory.back': 'Back to Categories',
+  'categoryHistory.last30': 'Last 30 days',
+  'categoryHistory.last90': 'Last 90 days',
+  'categoryHistory.selectPeriod': 'Select Period',
+  'categoryHistory.startDate': 'Start Date',
+  'categoryHistory.endDate': 'End Date',
+  'categoryHistory.showSubcategories': 'Show Subcategories',
+  'historyData.title': 'Ticket History',
+  'historyData.subtitle': 'Comparative analysis of Incidents and Requests',
+  'historyData.all': 'Overall',
+  'historyData.monthly': 'Monthly Distribution',
+  'historyData.monthlyIncidents': 'Monthly Distribution of Incidents',
+  'historyData.monthlyRequests': 'Monthly Distribution of Requests',
+  'historyData.incidentsByPriority': 'Incidents by Priority',
+  'historyData.requestsByPriority': 'Requests by Priority',
+  'slaHistory.title': 'SLA History',
+  'slaHistory.ticketsInPeriod': '{count} tickets in the period',
+  'slaHistory.global': 'Overall SLA',
+  'slaHistory.netOfPauses': 'Net of pauses · gross {percent}%',
+  'slaHistory.gross': 'Gross SLA (with pauses)',
+  'slaHistory.criticalOutside': 'Critical past SLA',
+  'slaHistory.byMonth': 'Distribution by Month',
+  'slaHistory.clickHint': 'Click to see SLAs by Category',
+  'slaHistory.back': 'Back to monthly view',
+  'slaHistory.byCategory': 'Analysis by Category - {month}',
+
+  'groupHistory.title': 'History by Group',
+  'locationHistory.top5Title': 'Top 5 Locations (by Assignment Group)',
+  'locationSummary.title': 'Monthly Summary by Location',
+  'locationSummary.subtitle': 'Top 6 most active locations',
+  'locationSummary.ticketsInPeriod': 'tickets in the period',
+  'shiftHistory.title': 'Analysis by Shift',
+  'shiftHistory.subtitle':
+    'Ticket distribution by period: Morning (06:00 to 14:00) • Afternoon (14:00 to 22:00) • Night (22:00 to 06:00)',
+  'shiftHistory.configure': 'Configure Shifts',
+  'shiftHistory.timeRange': '{start} to {end}',
+  'shiftHistory.variesByLocation': ' (default; varies by location)',
+  'shiftHistory.tickets': 'tickets',
+  'shiftHistory.commonCategories': 'Common Categories',
+  'shiftHistory.patterns': 'Identified Patterns',
+  'shiftHistory.recommendations': 'Recommendations',
+  'shiftHistory.recommendation1': '• Optimize the service process',
+  'shiftHistory.recommendation2': '• Training focused on the shift demands',
+  'shiftHistory.recommendation3': '• Review of resource allocation',
+  'shiftHistory.monthly': 'Monthly Distribution by Shift',
+  'shiftHistory.crossShift': 'Cross-Shift Patterns',
+  'shiftHistory.crossShiftPattern': '• Local support requests are a constant issue across all shifts',
+  'shiftHistory.generalRecommendations': 'General Recommendations',
+  'shiftHistory.generalRecommendation1': '• Ongoing training of technical support teams for better service',
+  'shiftHistory.generalRecommendation2': '• Standardized documentation processes',
+  'shiftHistory.generalRecommendation3': '• Periodic review of escalation procedures',
+  'variation.noData': 'Not enough data for a monthly comparison.',
+  'variation.noLocationData': 'Not enough data for a monthly comparison by location.',
+  'variation.comparedTo': '{current} compared to {previous}',
+  'variation.requests': 'Requests',
+  'variation.incidentsUp': 'Increase of {count} tickets',
+  'variation.incidentsDown': 'Decrease of {count} tickets',
+  'variation.requestsUp': 'Increase of {count} requests',
+  'variation.requestsDown': 'Decrease of {count} requests',
+  'variation.slaBetter': 'SLA improved',
+  'variation.slaWorse': 'SLA worsened',
+
+  'request.priority.HIGH': 'High',
+  'request.priority.MEDIUM': 'Medium',
+  'request.priority.LOW': 'Low',
+  'request.status.NEW': 'New',
+  'request.status.IN_PROGRESS': 'In Progress',
+  'request.status.ON_HOLD': 'On Hold',
+  'request.status.COMPLETED': 'Completed',
+  'request.status.CANCELLED': 'Cancelled',
+  'requestDetails.title': 'Request Details',
+  'requestDetails.detailedDescription': 'Detailed Description',
+  'requestDetails.general': 'General Information',
+  'requestDetails.status': 'Status',
+  'requestDetails.assignment': 'Assignment',
+  'requestDetails.assignedTo': 'Assigned to',
+  'requestDetails.dates': 'Dates',
+  'requestDetails.opened': 'Opened on',
+  'requestDetails.updated': 'Last update',
+  'requestModal.inProgressTitle': 'Requests in Progress',
+  'requestModal.onHoldTitle': 'Requests on Hold',
+  'requestModal.found': '{count} requests found',
+  'requestModal.noneOnHold': 'There are no requests on hold right now.',
+  'requestModal.title': 'Request {number}',
+  'requestModal.shortDescription': 'Short Description',
+  'requestModal.fullDescription': 'Full Description',
+  'requestModal.requestType': 'Request Type',
+  'requestModal.slaStatus': 'SLA Status',
+  'requestModal.slaProgress': 'SLA Progress',
+  'requestModal.slaDeadline': 'SLA Deadline',
+  'requestModal.elapsed': 'Elapsed Time',
+  'requestModal.remaining': '{time} remaining',
+  'requestModal.remainingInSla': '{time} left in the SLA',
+  'requestModal.slaExceeded': 'SLA exceeded',
+  'requestModal.slaExceededBy': 'SLA exceeded by {time}',
+  'requestModal.holdStatus': 'Hold Status',
+  'requestModal.holdTime': 'Time on Hold',
+  'requestModal.slaAtRisk': 'SLA at risk',
+  'requestModal.slaAtRiskDetail': 'SLA at risk - Time on hold exceeded the recommended deadline',
+  'requestModal.unknownTime': 'Unknown time',
+
+  'requestDashboard.title': 'Requests Dashboard',
+  'requestDashboard.back': 'Back to Incidents Dashboard',
+  'requestDashboard.total': 'Total Requests',
+  'requestDashboard.completed': 'Completed',
+  'requestDashboard.highPriority': 'High Priority',
+  'requestDashboard.clickForDetails': 'Click to see details',
+  'requestDashboard.metricsTitle': 'Dashboard Metrics',
+  'requestDashboard.topUsers': 'Top Users',
+  'requestDashboard.locationAnalysis': 'Analysis by Location',
+  'requestDashboard.noUserData': 'No user data found in the selected period.',
+  'requestDashboard.noLocationData': 'No location data found in the selected period.',
+  'requestDashboard.requests': 'requests',
+  'requestDashboard.categoryRequested': '{count} category requested',
+  'requestDashboard.categoriesRequested': '{count} categories requested',
+  'requestDashboard.activeUser': '{count} active user',
+  'requestDashboard.categories': 'Categories',
+  'requestDashboard.location': 'Location',
+  'requestDashboard.users': 'Users',
+  'requestSections.general.title': 'Overall Analysis',
+  'requestSections.general.description': 'Overview of requests',
+  'requestSections.category.title': 'By Category',
+  'requestSections.category.description': 'Distribution by category',
+  'requestSections.priority.title': 'By Priority',
+  'requestSections.priority.description': 'Analysis by priority',
+  'requestSections.history.title': 'History',
+  'requestSections.history.description': 'Historical analysis',
+  'requestSections.users.title': 'Top users',
+  'requestSections.users.description': 'Most frequent users',
+  'requestSections.location.title': 'By Location',
+  'requestSections.location.description': 'Analysis by location',
+  'requestSections.sla.title': 'SLA Analysis',
+  'requestSections.sla.description': 'Service level agreement',
+  'requestSections.metrics.title': 'Metrics',
+  'requestSections.metrics.description': 'Performance indicators',
+  'requestSections.performance.title': 'Performance',
+  'requestSections.performance.description': 'Performance metrics',
+  'requestSections.trends.title': 'Trends',
+  'requestSections.trends.description': 'Trend analysis',
+  'requestSections.predictive.title': 'Predictive Analysis - AI',
+  'requestSections.predictive.description': 'Smart analysis of requests',
+  'requestSla.title': 'SLA Analysis - Requests',
+  'requestSla.slaRate': 'SLA Rate',
+  'requestSla.completionRate': 'Completion Rate',
+  'requestSla.distribution': 'SLA Distribution',
+  'requestSla.byPriority': 'SLA by Priority',
+  'requestSla.details': 'Details by Priority',
+  'requestSla.target': 'SLA: {time}',
+  'requestSla.avgTime': 'Average Time',
+  'requestSla.avgDays': '{days} days',
+  'requestSla.completed': '{count} completed',
+  'requestTrend.title': 'Trend Analysis',
+  'requestTrend.monthlyByPriority': 'Monthly Trend by Priority',
+  'requestTrend.monthlyByStatus': 'Monthly Trend by Status',
+  'requestTrend.monthlyCompletion': 'Monthly Completion Rate',
+  'requestTrend.byCategory': 'Trend by Category',
+  'requestTrend.weekly': 'Weekly Trend',
+  'requestTrend.new': 'New',
+  'requestTrend.cancelled': 'Cancelled',
+  'requestAnalysis.title': 'Requests Analysis',
+  'requestAnalysis.inPeriod': '{count} requests in the period',
+  'requestAnalysis.count': '{count} requests',
+  'requestAnalysis.byStatus': 'Distribution by Status',
+  'requestAnalysis.topRequesters': 'Top 10 Requesters',
+  'requestAnalysis.byCategory': 'Distribution by Category',
+
+  'requestPerformance.title': 'Performance Metrics',
+  'requestPerformance.monthly': 'Monthly Performance Trend',
+  'requestPerformance.byGroup': 'Resolution Time by Group',
+  'requestPerformance.topAnalysts': 'Top 10 Analysts by Resolution Time',
+  'requestPerformance.avgDaysSeries': 'Average Time (days)',
+  'requestPerformance.completionSeries': 'Completion Rate (%)',
+  'requestPerformance.avgTime': 'average time',
+  'requestPerformance.requests': 'Requests',
+  'requestPerformance.total': '{count} total',
+  'requestPerformance.completed': '{count} completed',
+  'requestPerformance.high': '{count} high',
+  'requestPerformance.medium': '{count} medium',
+  'requestPerformance.low': '{count} low',
+  'requestMetrics.statusOverview': 'Overview by Status',
+  'requestMetrics.priorityOverview': 'Overview by Priority',
+  'requestMetrics.main': 'Key Metrics',
+  'requestMetrics.total': 'Total Requests',
+  'requestMetrics.topCategories': 'Top 5 Categories',
+  'requestHistory.title': 'Request History',
+  'requestHistory.clickHint': 'Click to see month details',
+  'requestPriority.title': 'Analysis by Priority',
+  'requestPriority.assignedGroups': '{count} assigned groups',
+  'requestCategory.title': 'Analysis by Category',
+  'requestCategory.requesters': '{count} requesters',
+  'requestLocation.count': '{count} requests',
+  'requestLocation.inPeriod': 'requests in the period',
+  'requestLocation.top5': 'Top 5 by Location',
+  'requestLocation.highPriority': 'High priority: {count}',
+
+  'dateRange.previousMonth': 'Previous month',
+  'dateRange.nextMonth': 'Next month',
+  'dateRange.close': 'Close calendar',
+  'dateRange.start': 'Start',
+  'dateRange.end': 'End',
+  'dateRange.days': '{count} days',
+  'dateRange.last7': 'Last 7 days',
+  'dateRange.today': 'Today',
+  'search.title': 'Search Request',
+  'search.placeholder': 'Search by number, description, requester...',
+  'search.allCategories': 'All Categories',
+
+  'criticalModal.title': 'Open Critical Tickets',
+  'criticalModal.count': '{count} pending tickets',
+  'criticalModal.openFor': 'Open for {duration}',
+  'priorityAlert.title': 'Attention: Open Critical Tickets',
+  'priorityAlert.total': 'Total open critical tickets: {count}',
+  'onHoldModal.title': 'Tickets On Hold',
+  'onHoldModal.count': '{count} tickets on hold',
+  'onHoldModal.waitingFor': 'On hold for {duration}',
+  'onHoldModal.unknownTime': 'Unknown time',
+  'pendingModal.title': 'Pending Tickets'
+};
+
+export const DASHBOARD_ES_ES: Record<keyof typeof DASHBOARD_PT_BR, string> = {
+  'aiAnalysis.incidentsTitle': 'Análisis de Datos con IA',
+  'aiAnalysis.requestsTitle': 'Análisis Predictivo - IA',
+  'aiAnalysis.errorTitle': 'Error en el Análisis',
+  'aiAnalysis.retry': 'Intentar de Nuevo',
+  'aiAnalysis.loadingIncidents': 'Analizando incidentes con IA...',
+  'aiAnalysis.loadingHint': 'Esto puede tardar unos segundos según el volumen de datos.',
+  'aiAnalysis.analyzingIncidents': 'Analizando incidentes...',
+  'aiAnalysis.analyzingRequests': 'Analizando solicitudes...',
+  'aiAnalysis.error.empty': 'No se generó ningún análisis',
+  'aiAnalysis.error.parse': 'Error al procesar los resultados del análisis',
+  'aiAnalysis.error.incidents': 'Error al analizar los incidentes',
+  'aiAnalysis.error.requests': 'Error al analizar las solicitudes',
+  'aiAnalysis.rootCause': 'Análisis de Causa Raíz',
+  'aiAnalysis.priority': 'Prioridad {priority}',
+  'aiAnalysis.requestPriority.HIGH': 'Alta',
+  'aiAnalysis.requestPriority.MEDIUM': 'Media',
+  'aiAnalysis.requestPriority.LOW': 'Baja',
+  'aiAnalysis.occurrences': '{count} ocurrencias',
+  'aiAnalysis.relatedIncidents': 'Ocurrencias Relacionadas',
+  'aiAnalysis.relatedRequests': 'Solicitudes Relacionadas',
+  'aiAnalysis.byShift': 'Análisis por Turno',
+  'aiAnalysis.byPeriod': 'Análisis por Período',
+  'aiAnalysis.hours': '{start}h a {end}h',
+  'aiAnalysis.totalIncidents': 'Total de Tickets',
+  'aiAnalysis.criticalIncidents': 'Incidentes Críticos',
+  'aiAnalysis.totalRequests': 'Total de Solicitudes',
+  'aiAnalysis.criticalRequests': 'Solicitudes Críticas',
+  'aiAnalysis.commonCategories': 'Categorías Comunes',
+  'aiAnalysis.patterns': 'Patrones Identificados',
+  'aiAnalysis.recommendations': 'Recomendaciones',
+  'aiAnalysis.crossShift': 'Patrones Entre Turnos',
+  'aiAnalysis.crossPeriod': 'Patrones Entre Períodos',
+  'aiAnalysis.generalRecommendations': 'Recomendaciones Generales',
+  'aiAnalysis.smartRecommendations': 'Recomendaciones Inteligentes',
+  'aiAnalysis.recPriority.high': 'alta',
+  'aiAnalysis.recPriority.medium': 'media',
+  'aiAnalysis.recPriority.low': 'baja',
+  'aiAnalysis.effort.quickWin': 'rápida',
+  'aiAnalysis.effort.mediumTerm': 'media',
+  'aiAnalysis.effort.longTerm': 'larga',
+  'aiAnalysis.type.preventive': 'Acción Preventiva',
+  'aiAnalysis.type.process': 'Mejora de Proceso',
+  'aiAnalysis.type.technical': 'Solución Técnica',
+  'aiAnalysis.impact': 'Impacto: {value}%',
+  'aiAnalysis.impactAnalysis': 'Análisis de Impacto',
+  'aiAnalysis.affectedAreas': 'Áreas Afectadas',
+  'aiAnalysis.severity': 'Severidad',
+  'aiAnalysis.impactByGroup': 'Impacto por Grupo',
+  'aiAnalysis.groupIncidents': '{count} tickets',
+  'aiAnalysis.groupRequests': '{count} solicitudes',
+  'aiAnalysis.quickWins': 'Victorias Rápidas',
+  'aiAnalysis.confidence': 'Nivel de Confianza',
+  'aiAnalysis.confidence.overall': 'General',
+  'aiAnalysis.confidence.dataQuality': 'Calidad de los Datos',
+  'aiAnalysis.confidence.patternStrength': 'Fuerza de los Patrones',
+  'aiAnalysis.confidence.recommendations': 'Recomendaciones',
+  'aiAnalysis.request.title': 'Solicitud {number}',
+  'aiAnalysis.request.description': 'Descripción',
+  'aiAnalysis.request.comments': 'Comentarios y Notas de Trabajo',
+  'aiAnalysis.request.noComments': 'No hay comentarios ni notas de trabajo disponibles.',
+  'aiAnalysis.request.requester': 'Solicitante',
+  'aiAnalysis.request.group': 'Grupo Responsable',
+  'aiAnalysis.request.opened': 'Fecha de Apertura',
+  'aiAnalysis.request.assignee': 'Analista Responsable',
+  'aiAnalysis.request.type': 'Tipo de Solicitud',
+  'aiAnalysis.request.updated': 'Última Actualización',
+  'aiAnalysis.request.unassigned': 'Sin asignar',
+  'aiAnalysis.request.uncategorized': 'Sin categoría',
+  'aiAnalysis.request.notUpdated': 'Sin actualizar',
+  'aiAnalysis.request.updatedBy': 'por {user}',
+  'aiAnalysis.request.close': 'Cerrar',
+
+  'aiModal.title': 'Análisis Inteligente de los Incidentes',
+  'aiModal.category': 'Categoría:',
+  'aiModal.subcategory': 'Subcategoría:',
+  'aiModal.string': 'String Asociado:',
+  'aiModal.loading': 'Analizando datos con IA...',
+  'aiModal.rootCause': 'Causa Raíz',
+  'aiModal.rootCauseHint': 'Principales causas de los incidentes analizados',
+  'aiModal.recommendationsHint': 'Sugerencias basadas en el análisis de IA para mejorar los procesos',
+  'aiModal.impactHint': 'Top 5 agrupaciones de Category + Subcategory más recurrentes',
+  'aiModal.incident': '{count} incidente',
+  'aiModal.incidents': '{count} incidentes',
+  'aiModal.topLocations': 'Localidades más afectadas:',
+  'aiModal.notDefined': 'No Definido',
+  'aiModal.noRecurrence': 'Sin recurrencia significativa',
+  'aiModal.error': 'Error al cargar el análisis.',
+
+  'stringAnalysis.title': 'Análisis de String: {string}',
+  'stringAnalysis.loading': 'Realizando análisis...',
+  'stringAnalysis.error': 'Error al realizar el análisis',
+  'stringAnalysis.incidents': '{count} incidentes',
+  'stringAnalysis.showIncidents': 'Ver incidentes relacionados',
+  'stringAnalysis.related': 'Incidentes relacionados: {title}',
+  'stringAnalysis.noIncidents': 'No se encontró ningún incidente.',
+  'stringAnalysis.number': 'Número',
+  'stringAnalysis.date': 'Fecha',
+  'stringAnalysis.description': 'Descripción',
+  'stringAnalysis.confidence': 'Nivel de Confianza: {value}%',
+
+  'topIncidents.title': 'Top Tickets por Categoría',
+  'topIncidents.subcategories': 'Subcategorías: {name}',
+  'topIncidents.strings': 'Strings Asociados: {name}',
+  'topIncidents.tickets': 'Tickets: {name}',
+  'topIncidents.noTickets': 'No se encontraron tickets para este grupo.',
+  'topIncidents.details': 'Ver detalles del ticket',
+  'topIncidents.top': 'Top {count}',
+  'topIncidents.ticketCount': '{count} tickets',
+  'topIncidents.ticketCountShort': '({count} tickets)',
+  'topIncidents.series': 'Cantidad de Tickets',
+  'topIncidents.onlyOneString': 'Solo se encontró un string asociado para esta subcategoría.',
+  'topIncidents.onlyOneSubcategory': 'Solo se encontró una subcategoría para esta categoría.',
+  'topIncidents.analyzeWithAI': 'Analizar con IA',
+  'topIncidents.chooseCategory': 'Elija una categoría para analizar',
+  'topIncidents.chooseSubcategory': 'Elija una subcategoría para analizar',
+  'topIncidents.cancel': 'Cancelar',
+  'topIncidents.notDefined': 'No Definido',
+
+  'analysis.close': 'Cerrar análisis',
+  'analysis.barChart': 'Gráfico de Barras',
+  'analysis.pieChart': 'Gráfico Circular',
+  'analysis.lineChart': 'Gráfico de Líneas',
+  'analysis.areaChart': 'Gráfico de Área',
+  'analysis.tickets': '{count} tickets',
+  'analysis.ticketsParen': '({count} tickets)',
+  'analysis.ticketsFound': '{count} tickets encontrados',
+  'analysis.percentOfTotal': '{percent}% del total',
+  'analysis.total': 'Total: {count}',
+  'analysis.noIncidents': 'No se encontraron incidentes en el período seleccionado.',
+  'analysis.notSpecified': 'No especificado',
+  'analysis.priority.critical': 'Crítico',
+  'analysis.priority.high': 'Alto',
+  'analysis.priority.medium': 'Medio',
+  'analysis.priority.low': 'Bajo',
+  'analysis.priority.undefined': 'No definido',
+  'analysis.criticalIncidents': '{count} incidentes críticos',
+  'analysis.openIncidents': '{count} incidentes abiertos',
+  'analysis.open': '{count} abiertos',
+  'analysis.openParen': '({count} abiertos)',
+  'analysis.openTicketsTitle': 'Tickets Abiertos - {name}',
+  'analysis.criticalTicketsTitle': 'Tickets Críticos - {name}',
+  'analysis.taxonomy': 'Taxonomía',
+  'analysis.mostCritical': 'Sistemas Más Críticos',
+  'analysis.basedOnP1P2': '(Basado en P1 + P2)',
+  'categoryAnalysis.title': 'Análisis por Categoría y Prioridad',
+  'categoryAnalysis.subtitle': 'Total de {count} tickets en el período',
+  'categoryAnalysis.modalTitle': 'Tickets {priority} - {category}',
+  'categoryAnalysis.topCallers': 'Top 30 usuarios con más tickets ({count} en total)',
+  'categoryAnalysis.details': 'Detalle por Categoría',
+  'groupAnalysis.title': 'Análisis por Grupo',
+  'groupAnalysis.distribution': 'Distribución por Grupo',
+  'groupAnalysis.attention': 'Grupos que Requieren Atención',
+  'groupAnalysis.technicians': '{count} técnicos',
+  'hardwareAnalysis.title': 'Análisis de Hardware',
+  'hardwareAnalysis.empty': 'No se encontraron incidentes de hardware en el período seleccionado.',
+  'hardwareAnalysis.distribution': 'Distribución por Hardware',
+  'hardwareAnalysis.attention': 'Hardware que Requiere Atención',
+  'softwareAnalysis.title': 'Análisis de Sistemas y Programas',
+  'softwareAnalysis.empty': 'No se encontraron incidentes de software en el período seleccionado.',
+  'softwareAnalysis.distribution': 'Distribución por Sistema',
+  'softwareAnalysis.attention': 'Sistemas que Requieren Atención',
+  'locationAnalysis.title': 'Análisis por Localidad',
+  'locationAnalysis.empty': 'No se encontraron incidentes para los filtros seleccionados.',
+  'locationAnalysis.modalTitle': 'Tickets en {location}',
+  'locationAnalysis.subcategoryFilter': 'Subcategoría: {value}',
+  'locationAnalysis.groupFilter': 'Grupo: {value}',
+  'locationAnalysis.allTickets': 'Todos los tickets',
+  'locationAnalysis.allSubcategories': 'Todas las Subcategorías',
+  'locationAnalysis.allGroups': 'Todos los Grupos',
+  'locationAnalysis.distribution': 'Distribución por Localidad',
+  'locationAnalysis.activeUsers': '{count} usuarios activos',
+  'locationAnalysis.critical': 'Críticos (P1/P2)',
+
+  'analysis.status.all': 'Todos los Estados',
+  'analysis.status.open': 'Abiertos',
+  'analysis.status.inProgress': 'En Curso',
+  'analysis.status.closed': 'Cerrados',
+  'analystAnalysis.title': 'Análisis por Analista',
+  'analystAnalysis.modalTitle': 'Tickets de {analyst}',
+  'analystAnalysis.clearMonth': '(Limpiar filtro mensual)',
+  'analystAnalysis.monthly': 'Evolución Mensual',
+  'analystAnalysis.distribution': 'Distribución por Analista',
+  'analystAnalysis.group': '{count} grupo',
+  'analystAnalysis.groups': '{count} grupos',
+  'analystAnalysis.tickets': 'tickets',
+  'analystAnalysis.open': 'Abiertos',
+  'analystAnalysis.closed': 'Cerrados',
+  'analystAnalysis.criticalPending': '{count} críticos pendientes',
+  'analystAnalysis.performance': 'Rendimiento Mensual - {analyst}',
+  'analystAnalysis.avgTime': 'Tiempo Promedio:',
+  'analystAnalysis.hours': '{count} horas',
+  'analystAnalysis.completionRate': 'Tasa de Finalización:',
+  'analystAnalysis.totalTickets': 'Total de Tickets:',
+  'analystAnalysis.completed': 'Finalizados:',
+  'analystAnalysis.avgTimeSeries': 'Tiempo Promedio (horas)',
+  'analystAnalysis.completionRateSeries': 'Tasa de Finalización (%)',
+  'userAnalysis.title': 'Análisis por Usuarios',
+  'userAnalysis.distribution': 'Distribución por Prioridad - Top 5 Usuarios',
+  'userAnalysis.user': 'Usuario',
+  'userAnalysis.total': 'Total',
+  'userAnalysis.critical': '{count} críticos',
+  'userAnalysis.unidentified': 'No identificado',
+  'associated.title': 'Análisis de Indicadores Asociados',
+  'associated.notDefined': 'No Definido',
+  'associated.byShift': 'Distribución por Turno',
+  'associated.note': 'Observación:',
+  'associated.shiftNote':
+    'Este gráfico muestra la distribución de los tickets por turno de atención. Los porcentajes y totales ayudan a identificar los períodos de mayor demanda, apoyando la planificación de equipos y recursos.',
+  'associated.byFunction': 'Distribución por Función',
+  'associated.clickForAI': 'Haga clic en la barra para el análisis por IA',
+  'associated.functionList': 'Lista de Funciones y Cantidad de Tickets',
+  'associated.shiftByFunction': 'Distribución por Turno - {name}',
+  'associated.ticketsByShift': 'Tickets por Turno',
+  'associated.byGroup': 'Distribución por Grupo (por Función)',
+  'associated.byGroupHint':
+    'Cada barra representa un grupo y los colores muestran la cantidad de tickets por función (N1, N2, N3, etc.).',
+  'associated.groupList': 'Lista de Grupos y Cantidad de Tickets por Función',
+  'associated.byString': 'Distribución por String',
+  'associated.stringList': 'Lista de Strings y Cantidad de Tickets',
+
+  'analysis.uncategorized': 'Sin categoría',
+  'categoryHistory.title': 'Historial por Categoría',
+  'categoryHistory.top5Title': 'Historial por Categoría (Top 5)',
+  'categoryHistory.subcategoriesOf': 'Subcategorías de {category}',
+  'categoryHistory.subcategoriesFound': '{count} subcategorías encontradas',
+  'categoryHistory.ticketsInPeriod': '{count} tickets en el período seleccionado',
+  'categoryHistory.total': 'Total por Categoría',
+  'categoryHistory.tooltipTotal': 'Total',
+  'categoryHistory.selectStart': 'Seleccione la fecha inicial',
+  'categoryHistory.selectEnd': 'Seleccione la fecha final',
+  'categoryHistory.back': 'Volver a Categorías',
+  'categoryHistory.last30': 'Últimos 30 días',
+  'categoryHistory.last90': 'Últimos 90 días',
+  'categoryHistory.selectPeriod': 'Seleccionar Período',
+  'categoryHistory.startDate': 'Fecha Inicial',
+  'categoryHistory.endDate': 'Fecha Final',
+  'categoryHistory.showSubcategories': 'Ver Subcategorías',
+  'historyData.title': 'Historial de Tickets',
+  'historyData.subtitle': 'Análisis comparativo entre Incidentes y Requests',
+  'historyData.all': 'General',
+  'historyData.monthly': 'Distribución Mensual',
+  'historyData.monthlyIncidents': 'Distribución Mensual de Incidentes',
+  'historyData.monthlyRequests': 'Distribución Mensual de Requests',
+  'historyData.incidentsByPriority': 'Incidentes por Prioridad',
+  'historyData.requestsByPriority': 'Requests por Prioridad',
+  'slaHistory.title': 'Historial por SLA',
+  'slaHistory.ticketsInPeriod': '{count} tickets en el período',
+  'slaHistory.global': 'SLA Global',
+  'slaHistory.netOfPauses': 'Neto de pausas · bruto {percent}%',
+  'slaHistory.gross': 'SLA bruto (con pausas)',
+  'slaHistory.criticalOutside': 'Críticos fuera del SLA',
+  'slaHistory.byMonth': 'Distribución por Mes',
+  'slaHistory.clickHint': 'Haga clic para ver los SLA por Categoría',
+  'slaHistory.back': 'Volver a la vista mensual',
+  'slaHistory.byCategory': 'Análisis por Categoría - {month}',
+
+  'groupHistory.title': 'Historial por Grupo',
+  'locationHistory.top5Title': 'Top 5 Localidades (por Grupo de Asignación)',
+  'locationSummary.title': 'Resumen Mensual por Localidad',
+  'locationSummary.subtitle': 'Top 6 localidades más activas',
+  'locationSummary.ticketsInPeriod': 'tickets en el período',
+  'shiftHistory.title': 'Análisis por Turno',
+  'shiftHistory.subtitle':
+    'Distribución de tickets por período: Mañana (06:00 a 14:00) • Tarde (14:00 a 22:00) • Noche (22:00 a 06:00)',
+  'shiftHistory.configure': 'Configurar Turnos',
+  'shiftHistory.timeRange': '{start} a {end}',
+  'shiftHistory.variesByLocation': ' (predeterminado; varía según la localidad)',
+  'shiftHistory.tickets': 'tickets',
+  'shiftHistory.commonCategories': 'Categorías Comunes',
+  'shiftHistory.patterns': 'Patrones Identificados',
+  'shiftHistory.recommendations': 'Recomendaciones',
+  'shiftHistory.recommendation1': '• Optimización del proceso de atención',
+  'shiftHistory.recommendation2': '• Capacitación específica para las demandas del turno',
+  'shiftHistory.recommendation3': '• Revisión de la distribución de recursos',
+  'shiftHistory.monthly': 'Distribución Mensual por Turno',
+  'shiftHistory.crossShift': 'Patrones Entre Turnos',
+  'shiftHistory.crossShiftPattern': '• Las solicitudes de soporte local son un problema constante en todos los turnos',
+  'shiftHistory.generalRecommendations': 'Recomendaciones Generales',
+  'shiftHistory.generalRecommendation1':
+    '• Capacitación continua de los equipos de soporte técnico para una mejor atención',
+  'shiftHistory.generalRecommendation2': '• Implementación de procesos de documentación estandarizados',
+  'shiftHistory.generalRecommendation3': '• Revisión periódica de los procedimientos de escalamiento',
+  'variation.noData': 'No hay datos suficientes para la comparación mensual.',
+  'variation.noLocationData': 'No hay datos suficientes para la comparación mensual por localidad.',
+  'variation.comparedTo': '{current} en relación con {previous}',
+  'variation.requests': 'Solicitudes',
+  'variation.incidentsUp': 'Aumento de {count} tickets',
+  'variation.incidentsDown': 'Reducción de {count} tickets',
+  'variation.requestsUp': 'Aumento de {count} solicitudes',
+  'variation.requestsDown': 'Reducción de {count} solicitudes',
+  'variation.slaBetter': 'Mejora en el SLA',
+  'variation.slaWorse': 'Empeoramiento del SLA',
+
+  'request.priority.HIGH': 'Alta',
+  'request.priority.MEDIUM': 'Media',
+  'request.priority.LOW': 'Baja',
+  'request.status.NEW': 'Nuevo',
+  'request.status.IN_PROGRESS': 'En Curso',
+  'request.status.ON_HOLD': 'En Espera',
+  'request.status.COMPLETED': 'Completado',
+  'request.status.CANCELLED': 'Cancelado',
+  'requestDetails.title': 'Detalles de la Solicitud',
+  'requestDetails.detailedDescription': 'Descripción Detallada',
+  'requestDetails.general': 'Información General',
+  'requestDetails.status': 'Estado',
+  'requestDetails.assignment': 'Asignación',
+  'requestDetails.assignedTo': 'Asignado a',
+  'requestDetails.dates': 'Fechas',
+  'requestDetails.opened': 'Abierto el',
+  'requestDetails.updated': 'Última actualización',
+  'requestModal.inProgressTitle': 'Solicitudes en Curso',
+  'requestModal.onHoldTitle': 'Solicitudes en Espera',
+  'requestModal.found': '{count} solicitudes encontradas',
+  'requestModal.noneOnHold': 'No hay solicitudes en espera en este momento.',
+  'requestModal.title': 'Solicitud {number}',
+  'requestModal.shortDescription': 'Descripción Resumida',
+  'requestModal.fullDescription': 'Descripción Completa',
+  'requestModal.requestType': 'Tipo de Solicitud',
+  'requestModal.slaStatus': 'Estado del SLA',
+  'requestModal.slaProgress': 'Progreso del SLA',
+  'requestModal.slaDeadline': 'Plazo SLA',
+  'requestModal.elapsed': 'Tiempo Transcurrido',
+  'requestModal.remaining': '{time} restantes',
+  'requestModal.remainingInSla': '{time} restantes en el SLA',
+  'requestModal.slaExceeded': 'SLA excedido',
+  'requestModal.slaExceededBy': 'SLA excedido por {time}',
+  'requestModal.holdStatus': 'Estado de Espera',
+  'requestModal.holdTime': 'Tiempo en Espera',
+  'requestModal.slaAtRisk': 'SLA en riesgo',
+  'requestModal.slaAtRiskDetail': 'SLA en riesgo - El tiempo en espera superó el plazo recomendado',
+  'requestModal.unknownTime': 'Tiempo desconocido',
+
+  'requestDashboard.title': 'Dashboard de Requests',
+  'requestDashboard.back': 'Volver al Dashboard de Incidentes',
+  'requestDashboard.total': 'Total de Requests',
+  'requestDashboard.completed': 'Completados',
+  'requestDashboard.highPriority': 'Alta Prioridad',
+  'requestDashboard.clickForDetails': 'Haga clic para ver detalles',
+  'requestDashboard.metricsTitle': 'Métricas del Dashboard',
+  'requestDashboard.topUsers': 'Usuarios Principales',
+  'requestDashboard.locationAnalysis': 'Análisis por Localidad',
+  'requestDashboard.noUserData': 'No se encontraron datos de usuarios en el período seleccionado.',
+  'requestDashboard.noLocationData': 'No se encontraron datos de localidades en el período seleccionado.',
+  'requestDashboard.requests': 'solicitudes',
+  'requestDashboard.categoryRequested': '{count} categoría solicitada',
+  'requestDashboard.categoriesRequested': '{count} categorías solicitadas',
+  'requestDashboard.activeUser': '{count} usuario activo',
+  'requestDashboard.categories': 'Categorías',
+  'requestDashboard.location': 'Localidad',
+  'requestDashboard.users': 'Usuarios',
+  'requestSections.general.title': 'Análisis General',
+  'requestSections.general.description': 'Visión general de las requests',
+  'requestSections.category.title': 'Por Categoría',
+  'requestSections.category.description': 'Distribución por categoría',
+  'requestSections.priority.title': 'Por Prioridad',
+  'requestSections.priority.description': 'Análisis por prioridad',
+  'requestSections.history.title': 'Historial',
+  'requestSections.history.description': 'Análisis histórico',
+  'requestSections.users.title': 'Usuarios principales',
+  'requestSections.users.description': 'Usuarios más frecuentes',
+  'requestSections.location.title': 'Por Localidad',
+  'requestSections.location.description': 'Análisis por ubicación',
+  'requestSections.sla.title': 'Análisis de SLA',
+  'requestSections.sla.description': 'Acuerdo de nivel de servicio',
+  'requestSections.metrics.title': 'Métricas',
+  'requestSections.metrics.description': 'Indicadores de desempeño',
+  'requestSections.performance.title': 'Rendimiento',
+  'requestSections.performance.description': 'Métricas de rendimiento',
+  'requestSections.trends.title': 'Tendencias',
+  'requestSections.trends.description': 'Análisis de tendencias',
+  'requestSections.predictive.title': 'Análisis Predictivo - IA',
+  'requestSections.predictive.description': 'Análisis inteligente de solicitudes',
+  'requestSla.title': 'Análisis de SLA - Requests',
+  'requestSla.slaRate': 'Tasa de SLA',
+  'requestSla.completionRate': 'Tasa de Finalización',
+  'requestSla.distribution': 'Distribución de SLA',
+  'requestSla.byPriority': 'SLA por Prioridad',
+  'requestSla.details': 'Detalles por Prioridad',
+  'requestSla.target': 'SLA: {time}',
+  'requestSla.avgTime': 'Tiempo Promedio',
+  'requestSla.avgDays': '{days} días',
+  'requestSla.completed': '{count} completados',
+  'requestTrend.title': 'Análisis de Tendencias',
+  'requestTrend.monthlyByPriority': 'Tendencia Mensual por Prioridad',
+  'requestTrend.monthlyByStatus': 'Tendencia Mensual por Estado',
+  'requestTrend.monthlyCompletion': 'Tasa de Finalización Mensual',
+  'requestTrend.byCategory': 'Tendencia por Categoría',
+  'requestTrend.weekly': 'Tendencia Semanal',
+  'requestTrend.new': 'Nuevos',
+  'requestTrend.cancelled': 'Cancelados',
+  'requestAnalysis.title': 'Análisis de Requests',
+  'requestAnalysis.inPeriod': '{count} requests en el período',
+  'requestAnalysis.count': '{count} requests',
+  'requestAnalysis.byStatus': 'Distribución por Estado',
+  'requestAnalysis.topRequesters': 'Top 10 Solicitantes',
+  'requestAnalysis.byCategory': 'Distribución por Categoría',
+
+  'requestPerformance.title': 'Métricas de Rendimiento',
+  'requestPerformance.monthly': 'Tendencia de Rendimiento Mensual',
+  'requestPerformance.byGroup': 'Tiempo de Resolución por Grupo',
+  'requestPerformance.topAnalysts': 'Top 10 Analistas por Tiempo de Resolución',
+  'requestPerformance.avgDaysSeries': 'Tiempo Promedio (días)',
+  'requestPerformance.completionSeries': 'Tasa de Finalización (%)',
+  'requestPerformance.avgTime': 'tiempo promedio',
+  'requestPerformance.requests': 'Solicitudes',
+  'requestPerformance.total': '{count} total',
+  'requestPerformance.completed': '{count} finalizadas',
+  'requestPerformance.high': '{count} alta',
+  'requestPerformance.medium': '{count} media',
+  'requestPerformance.low': '{count} baja',
+  'requestMetrics.statusOverview': 'Visión General por Estado',
+  'requestMetrics.priorityOverview': 'Visión General por Prioridad',
+  'requestMetrics.main': 'Métricas Principales',
+  'requestMetrics.total': 'Total de Solicitudes',
+  'requestMetrics.topCategories': 'Top 5 Categorías',
+  'requestHistory.title': 'Historial de Requests',
+  'requestHistory.clickHint': 'Haga clic para ver los detalles del mes',
+  'requestPriority.title': 'Análisis por Prioridad',
+  'requestPriority.assignedGroups': '{count} grupos asignados',
+  'requestCategory.title': 'Análisis por Categoría',
+  'requestCategory.requesters': '{count} solicitantes',
+  'requestLocation.count': '{count} solicitudes',
+  'requestLocation.inPeriod': 'solicitudes en el período',
+  'requestLocation.top5': 'Top 5 por Ubicación',
+  'requestLocation.highPriority': 'Alta prioridad: {count}',
+
+  'dateRange.previousMonth': 'Mes anterior',
+  'dateRange.nextMonth': 'Mes siguiente',
+  'dateRange.close': 'Cerrar calendario',
+  'dateRange.start': 'Inicio',
+  'dateRange.end': 'Fin',
+  'dateRange.days': '{count} días',
+  'dateRange.last7': 'Últimos 7 días',
+  'dateRange.today': 'Hoy',
+  'search.title': 'Buscar Solicitud',
+  'search.placeholder': 'Buscar por número, descripción, solicitante...',
+  'search.allCategories': 'Todas las Categorías',
+
+  'criticalModal.title': 'Tickets Críticos Abiertos',
+  'criticalModal.count': '{count} tickets pendientes',
+  'criticalModal.openFor': 'Abierto hace {duration}',
+  'priorityAlert.title': 'Atención: Tickets Críticos Abiertos',
+  'priorityAlert.total': 'Total de tickets críticos abiertos: {count}',
+  'onHoldModal.title': 'Tickets en Espera',
+  'onHoldModal.count': '{count} tickets en espera',
+  'onHoldModal.waitingFor': 'En espera por {duration}',
+  'onHoldModal.unknownTime': 'Tiempo desconocido',
+  'pendingModal.title': 'Tickets Pendientes'
+};
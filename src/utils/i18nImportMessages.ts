@@ -0,0 +1,819 @@
+// Mensagens da importação de planilhas: tela de upload, assistente de
+// mapeamento, validação das linhas e relatório de qualidade.
+export const IMPORT_PT_BR = {
+  // Rótulos dos campos reconhecidos na importação
+  'field.number': 'Número',
+  'field.opened': 'Abertura',
+  'field.description': 'Descrição',
+  'field.shortDescription': 'Descrição Curta',
+  'field.caller': 'Solicitante',
+  'field.priority': 'Prioridade',
+  'field.impact': 'Impacto',
+  'field.urgency': 'Urgência',
+  'field.state': 'Estado',
+  'field.category': 'Categoria',
+  'field.subcategory': 'Subcategoria',
+  'field.assignmentGroup': 'Grupo Atribuído',
+  'field.assignedTo': 'Atribuído para',
+  'field.updated': 'Última Atualização',
+  'field.updatedBy': 'Atualizado por',
+  'field.businessImpact': 'Impacto no Negócio',
+  'field.responseTime': 'Tempo de Resposta',
+  'field.location': 'Localização',
+  'field.comments': 'Comentários',
+  'field.stringAssociado': 'String Associado',
+  'field.funcaoAssociada': 'Função Associada',
+  'field.configurationItem': 'Item de Configuração',
+  'field.businessService': 'Serviço de Negócio',
+  'field.closed': 'Fechamento',
+  'field.requestItem': 'Item do Catálogo',
+  'field.requestedFor': 'Solicitado para',
+  'field.class': 'Classe',
+  'field.owner': 'Responsável',
+  'field.criticality': 'Criticidade',
+  'field.plannedStart': 'Início Planejado',
+  'field.plannedEnd': 'Fim Planejado',
+  'field.actualStart': 'Início Real',
+  'field.actualEnd': 'Fim Real',
+  'field.changeGroup': 'Grupo Designado',
+  'field.risk': 'Risco',
+  'field.analyst': 'Analista',
+  'field.level': 'Nível',
+  'field.startTime': 'Início',
+  'field.endTime': 'Fim',
+  'field.schedule': 'Escala',
+  'field.locationName': 'Localidade',
+  'field.changedAt': 'Data da Alteração',
+  'field.created': 'Criação',
+  'field.status': 'Status',
+  'field.team': 'Time',
+  'field.businessValue': 'Valor de Negócio',
+  'field.storyPoints': 'Story Points',
+  'field.sprint': 'Sprint',
+  'field.release': 'Release',
+  'field.dueDate': 'Vencimento',
+
+  // Motivos de rejeição e avisos por linha
+  'validation.incidentNumberRequired': 'Número do chamado é obrigatório',
+  'validation.requestNumberRequired': 'Número da solicitação é obrigatório',
+  'validation.openedRequired': 'Data de abertura é obrigatória',
+  'validation.openedInvalid': 'Data de abertura inválida',
+  'validation.updatedInvalid': 'Data de atualização inválida',
+  'validation.closedInvalid': 'Data de fechamento inválida',
+  'validation.priorityUnknown': 'Prioridade não reconhecida (use P1, P2, P3 ou P4)',
+  'validation.stateUnknown': 'Estado não reconhecido',
+  'validation.requestStateUnknown':
+    'Estado não reconhecido (Opened, Assigned, Work in Progress, Closed Complete, Closed Incomplete, Closed Skipped, On Hold)',
+  'validation.emptyRow': 'Linha vazia ou inválida',
+  'validation.updatedBeforeOpened': 'Data de atualização anterior à abertura',
+  'validation.invalidDate': 'Data inválida',
+  'validation.ciNameRequired': 'Nome do item de configuração é obrigatório',
+  'validation.ciDuplicate': 'Item duplicado, mantida a última ocorrência',
+  'validation.changeNumberRequired': 'Número da mudança é obrigatório',
+  'validation.changeStartRequired': 'Mudança sem data de início',
+  'validation.changeWithoutCi': 'Mudança sem item de configuração não será correlacionada',
+  'validation.analystRequired': 'Nome do analista é obrigatório',
+  'validation.levelInvalid': 'Nível inválido (use N1, N2 ou N3)',
+  'validation.timeInvalid': 'Horário inválido',
+  'validation.analystDuplicate': 'Analista repetido; vale a primeira linha',
+  'validation.numberAndStateRequired': 'Número e estado são obrigatórios',
+  'validation.changedAtInvalid': 'Data da alteração inválida',
+  'validation.itemNumberRequired': 'Número do item é obrigatório',
+  'validation.createdRequired': 'Data de criação é obrigatória',
+  'validation.storyPointsInvalid': 'Story points inválidos',
+
+  // Erros de leitura dos arquivos
+  'import.error.emptyFile': 'Arquivo vazio ou formato inválido',
+  'import.error.readFailed': 'Erro ao ler o arquivo',
+  'import.error.processFailed': 'Erro ao processar o arquivo',
+  'import.error.noData': 'Arquivo não contém dados válidos',
+  'import.error.noHeaders': 'Cabeçalhos não encontrados no arquivo',
+  'import.error.emptyExcel': 'Arquivo Excel vazio',
+  'import.error.invalidJson': 'Arquivo JSON inválido',
+  'import.error.noJsonRecords':
+    'Arquivo JSON não contém registros (esperado {"records": [...]}, {"issues": [...]} ou {"tickets": [...]})',
+  'import.error.noFileLoaded': 'Nenhum arquivo carregado para processamento',
+  'import.error.unexpectedResponse': 'Resposta inesperada do processamento',
+  'import.cancelled': 'Importação cancelada',
+  'import.progress.processing': 'Processando...',
+  'import.progress.reading': 'Lendo arquivos... ({processed}/{total})',
+  'import.progress.rows': 'Processando {processed} de {total} linhas ({percent}%)',
+  'import.error.missingColumns': 'Colunas obrigatórias não encontradas: {columns}',
+  'import.occurrences': '{count} ocorrência(s) na importação',
+  'import.rowDiscarded': ' — linha descartada',
+
+  // Tela de upload
+  'upload.tagline': 'Conectando Inteligência e Tecnologia',
+  'upload.selectType': 'Selecione o tipo de dados que deseja carregar para análise',
+  'upload.incidents': 'Incidentes',
+  'upload.incidentsSubtitle': 'Análise de chamados e incidentes',
+  'upload.requests': 'Requests',
+  'upload.requestsSubtitle': 'Análise de solicitações e demandas',
+  'upload.loadComplete': 'Carregamento concluído',
+  'upload.incidentsLoaded': '{count} incidentes carregados com sucesso',
+  'upload.requestsLoaded': '{count} requests carregados com sucesso',
+  'upload.cancel': 'Cancelar',
+  'upload.cancelImport': 'Cancelar importação',
+  'upload.addFiles': 'Adicionar arquivos',
+  'upload.clear': 'Limpar',
+  'upload.incidentFeature1': 'Análise por categoria e prioridade',
+  'upload.incidentFeature2': 'Monitoramento de SLA',
+  'upload.incidentFeature3': 'Distribuição por equipe',
+  'upload.incidentFeature4': 'Análise de impacto',
+  'upload.requestFeature1': 'Análise por tipo e categoria',
+  'upload.requestFeature2': 'Controle de aprovações',
+  'upload.requestFeature3': 'Métricas de custo',
+  'upload.requestFeature4': 'Prazos e entregas',
+  'upload.loadIncidents': 'Carregar Incidentes',
+  'upload.loadRequests': 'Carregar Requests',
+  'upload.fileCount': '{count} arquivos',
+  'upload.allLoadedTitle': 'Carregamento Completo!',
+  'upload.allLoadedText':
+    'Incidentes e requests foram carregados. Salve o conjunto abaixo para guardá-lo na biblioteca e abri-lo nos dashboards.',
+  'upload.errorTitle': 'Erro ao carregar arquivo',
+  'upload.errorChecklist': 'Verifique se o arquivo:',
+  'upload.errorCheckFormat': 'É um arquivo válido (.xlsx, .xls, .csv, .tsv ou .json)',
+  'upload.errorCheckColumns': 'Contém as colunas necessárias (Número, Data, Descrição, etc.)',
+  'upload.errorCheckRows': 'Possui dados válidos nas linhas',
+  'upload.mergeTitle': 'Resumo da mesclagem',
+  'upload.mergeSummary': '{added} novos, {updated} atualizados, {unchanged} sem alteração — {total} registros no total',
+  'upload.unmappedColumns': 'Colunas ignoradas (sem mapeamento): {columns}',
+  'upload.validationWarnings': 'Avisos de validação',
+  'upload.rowError': 'Linha {row}: {reason}',
+  'upload.rowValue': ' (valor: {value})',
+  'upload.acceptedFormats':
+    'Formatos aceitos: Excel (.xlsx ou .xls), CSV/TSV (delimitador e codificação detectados automaticamente) e JSON (ServiceNow, Jira ou Zendesk). Para exportações do Jira Service Management, GLPI, Zendesk ou OTRS, escolha o perfil da ferramenta. Selecione vários arquivos de uma vez ou adicione-os em sequência: chamados repetidos são unificados pelo número, mantendo a atualização mais recente.',
+  'upload.downloadTemplate': 'Baixar Template',
+  'upload.noFile': 'Nenhum arquivo selecionado',
+  'upload.noValidTickets': 'Nenhum chamado válido encontrado no arquivo. Verifique se as colunas estão corretas.',
+  'upload.platformDescription':
+    'Plataforma para análise e monitoramento operacional de TI, baseado em dados estruturados.',
+  'upload.importTickets': 'Importar Chamados',
+  'upload.dropHint': 'Arraste e solte seu arquivo (Excel, CSV ou JSON) ou clique para selecionar',
+  'upload.dropHere': 'Solte o arquivo aqui...',
+  'upload.clickOrDrag': 'Clique ou arraste seu arquivo',
+  'upload.supportedFormats': 'Formatos suportados: .xlsx, .xls, .csv, .tsv e .json (ServiceNow, Jira ou Zendesk)',
+  'upload.downloadSpreadsheetTemplate': 'Baixar Modelo de Planilha',
+  'upload.acceptedFormatsShort':
+    'Formatos aceitos: Excel (.xlsx ou .xls), CSV/TSV (delimitador e codificação detectados automaticamente) e JSON (ServiceNow, Jira ou Zendesk)',
+
+  // Perfis e assistente de mapeamento
+  'mapping.profileLabel': 'Perfil de mapeamento de colunas',
+  'mapping.defaultProfile': 'Padrão (detecção automática)',
+  'mapping.manualProfile': 'Mapeamento manual',
+  'mapping.itsmTools': 'Ferramentas ITSM',
+  'mapping.savedProfiles': 'Perfis salvos',
+  'mapping.editProfile': 'Editar perfil',
+  'mapping.newProfile': 'Novo perfil',
+  'mapping.sampleFile': 'Arquivo de exemplo ({name})',
+  'mapping.editorEditTitle': 'Editar Perfil de Mapeamento',
+  'mapping.editorNewTitle': 'Novo Perfil de Mapeamento',
+  'mapping.editorSubtitle': '{target} — informe os nomes das colunas da planilha separados por vírgula',
+  'mapping.nameRequired': 'Informe um nome para o perfil',
+  'mapping.profileName': 'Nome do perfil',
+  'mapping.profileNamePlaceholder': 'Ex.: ServiceNow BR export',
+  'mapping.sourceSystem': 'Sistema de origem',
+  'mapping.sourceSystemPlaceholder': 'Ex.: ServiceNow, GLPI',
+  'mapping.strict': 'Usar somente as colunas informadas (ignorar a detecção automática)',
+  'mapping.delete': 'Excluir',
+  'mapping.cancel': 'Cancelar',
+  'mapping.saveProfile': 'Salvar Perfil',
+  'mapping.wizardTitle': 'Mapeamento de Colunas',
+  'mapping.wizardSubtitle': '{fileName} — {columns} colunas, {rows} linhas',
+  'mapping.missingRequired': 'Campos obrigatórios sem coluna associada: {fields}',
+  'mapping.detectedColumns': 'Colunas detectadas',
+  'mapping.example': 'Ex.: {value}',
+  'mapping.ignoreColumn': '— Ignorar coluna —',
+  'mapping.inUse': ' (em uso)',
+  'mapping.dates': 'Datas',
+  'mapping.detectedFormat': 'Detectado: {format}',
+  'mapping.formatNotDetected': 'Formato não detectado',
+  'mapping.ambiguousDate': ' — dia e mês ambíguos, confira',
+  'mapping.timezoneInValues': 'Os valores já informam o fuso horário (UTC ou deslocamento).',
+  'mapping.preview': 'Pré-visualização ({count} primeiras linhas)',
+  'mapping.row': 'Linha',
+  'mapping.previewErrors': 'Erros de validação na pré-visualização',
+  'mapping.rowDiscarded': ' — linha será descartada',
+  'mapping.saveAsProfile': 'Salvar como perfil',
+  'mapping.confirmImport': 'Confirmar Importação',
+
+  // Opções de formato de data e fuso horário
+  'dateFormat.auto': 'Automático (por valor)',
+  'dateFormat.iso': 'ISO (yyyy-MM-dd HH:mm:ss)',
+  'dateFormat.br': 'Brasileiro (dd/MM/yyyy HH:mm)',
+  'dateFormat.us': 'Americano (MM/dd/yyyy HH:mm)',
+  'dateFormat.excel': 'Número serial do Excel',
+  'timezone.local': 'Fuso do navegador',
+  'timezone.utc': 'UTC',
+  'timezone.saoPaulo': 'Brasília (America/Sao_Paulo)',
+  'timezone.manaus': 'Amazonas (America/Manaus)',
+  'timezone.rioBranco': 'Acre (America/Rio_Branco)',
+  'timezone.noronha': 'Fernando de Noronha (America/Noronha)',
+  'timezone.newYork': 'Nova York (America/New_York)',
+  'timezone.lisbon': 'Lisboa (Europe/Lisbon)',
+
+  // Relatório de qualidade dos dados (tela e planilha exportada)
+  'quality.title': 'Relatório de qualidade dos dados',
+  'quality.summary': '{rows} linhas analisadas • {issues} ocorrências',
+  'quality.download': 'Baixar relatório (XLSX)',
+  'quality.rejectedRows': 'Linhas rejeitadas',
+  'quality.incompleteColumns': 'Colunas incompletas',
+  'quality.invalidDates': 'Datas inválidas',
+  'quality.unknownPriorities': 'Prioridades desconhecidas',
+  'quality.unknownStates': 'Estados desconhecidos',
+  'quality.duplicateNumbers': 'Números duplicados',
+  'quality.updatedBeforeOpened': 'Updated antes de Opened',
+  'quality.sheet.file': 'Arquivo',
+  'quality.sheet.generatedAt': 'Gerado em',
+  'quality.sheet.totalRows': 'Total de linhas',
+  'quality.sheet.summary': 'Resumo',
+  'quality.sheet.completeness': 'Completude',
+  'quality.sheet.row': 'Linha',
+  'quality.sheet.number': 'Número',
+  'quality.sheet.column': 'Coluna',
+  'quality.sheet.value': 'Valor',
+  'quality.sheet.reason': 'Motivo',
+  'quality.sheet.filled': 'Preenchidos',
+  'quality.sheet.total': 'Total',
+  'quality.sheet.filledPercent': '% Preenchido',
+  'quality.sheet.occurrences': 'Ocorrências',
+  'quality.sheet.rows': 'Linhas',
+  'quality.sheet.fileName': 'qualidade-dados-{name}.xlsx',
+  'quality.sheet.defaultName': 'importacao',
+
+  // Planilha modelo para download (aba de documentação)
+  'template.sheet.documentation': 'Documentação',
+  'template.incidents.title': 'Documentação do Modelo de Incidentes',
+  'template.requests.title': 'Documentação do Modelo de Requests',
+  'template.incidents.intro':
+    'Este arquivo serve como modelo para importação de dados de incidentes no IT Operations Dashboard.',
+  'template.requests.intro':
+    'Este arquivo serve como modelo para importação de dados de solicitações no IT Operations Dashboard.',
+  'template.incidents.fileName': 'modelo-incidentes.xlsx',
+  'template.requests.fileName': 'modelo-requests.xlsx',
+  'template.instructions': 'Instruções:',
+  'template.step1': '1. Mantenha os cabeçalhos na primeira linha',
+  'template.step2': '2. Preencha os dados a partir da segunda linha',
+  'template.step3': '3. Salve o arquivo no formato .xlsx ou .xls',
+  'template.step4': '4. Importe o arquivo no dashboard',
+  'template.fields': 'Descrição dos campos:',
+  'template.field.requester': 'Nome do solicitante',
+  'template.field.assignmentGroup': 'Grupo responsável pelo atendimento',
+  'template.field.assignedTo': 'Pessoa responsável pelo atendimento',
+  'template.field.updated': 'Data e hora da última atualização (formato: YYYY-MM-DDTHH:MM:SS)',
+  'template.field.updatedBy': 'Pessoa que realizou a última atualização',
+  'template.field.businessImpact': 'Impacto no negócio',
+  'template.incident.number': 'Número único do incidente (obrigatório)',
+  'template.incident.opened': 'Data e hora de abertura do incidente (obrigatório, formato: YYYY-MM-DDTHH:MM:SS)',
+  'template.incident.shortDescription': 'Descrição resumida do incidente',
+  'template.incident.priority': 'Prioridade do incidente (P1, P2, P3, P4)',
+  'template.incident.state': 'Estado do incidente (Aberto, Em Andamento, Fechado, etc.)',
+  'template.incident.category': 'Categoria do incidente',
+  'template.incident.subcategory': 'Subcategoria do incidente',
+  'template.request.number': 'Número único da solicitação (obrigatório)',
+  'template.request.opened': 'Data e hora de abertura da solicitação (obrigatório, formato: YYYY-MM-DDTHH:MM:SS)',
+  'template.request.shortDescription': 'Descrição resumida da solicitação',
+  'template.request.requestItem': 'Tipo de solicitação ou item do catálogo',
+  'template.request.priority': 'Prioridade da solicitação (High, Medium, Low)',
+  'template.request.state': 'Estado da solicitação (Aberto, Em Andamento, Concluído, etc.)',
+  'template.request.comments': 'Comentários e notas de trabalho'
+};
+
+export const IMPORT_EN_US: Record<keyof typeof IMPORT_PT_BR, string> = {
+  'field.number': 'Number',
+  'field.opened': 'Opened',
+  'field.description': 'Description',
+  'field.shortDescription': 'Short Description',
+  'field.caller': 'Caller',
+  'field.priority': 'Priority',
+  'field.impact': 'Impact',
+  'field.urgency': 'Urgency',
+  'field.state': 'State',
+  'field.category': 'Category',
+  'field.subcategory': 'Subcategory',
+  'field.assignmentGroup': 'Assignment Group',
+  'field.assignedTo': 'Assigned To',
+  'field.updated': 'Last Update',
+  'field.updatedBy': 'Updated By',
+  'field.businessImpact': 'Business Impact',
+  'field.responseTime': 'Response Time',
+  'field.location': 'Location',
+  'field.comments': 'Comments',
+  'field.stringAssociado': 'Associated String',
+  'field.funcaoAssociada': 'Associated Function',
+  'field.configurationItem': 'Configuration Item',
+  'field.businessService': 'Business Service',
+  'field.closed': 'Closed',
+  'field.requestItem': 'Catalog Item',
+  'field.requestedFor': 'Requested For',
+  'field.class': 'Class',
+  'field.owner': 'Owner',
+  'field.criticality': 'Criticality',
+  'field.plannedStart': 'Planned Start',
+  'field.plannedEnd': 'Planned End',
+  'field.actualStart': 'Actual Start',
+  'field.actualEnd': 'Actual End',
+  'field.changeGroup': 'Assignment Group',
+  'field.risk': 'Risk',
+  'field.analyst': 'Analyst',
+  'field.level': 'Level',
+  'field.startTime': 'Start',
+  'field.endTime': 'End',
+  'field.schedule': 'Schedule',
+  'field.locationName': 'Location',
+  'field.changedAt': 'Changed At',
+  'field.created': 'Created',
+  'field.status': 'Status',
+  'field.team': 'Team',
+  'field.businessValue': 'Business Value',
+  'field.storyPoints': 'Story Points',
+  'field.sprint': 'Sprint',
+  'field.release': 'Release',
+  'field.dueDate': 'Due Date',
+
+  'validation.incidentNumberRequired': 'Incident number is required',
+  'validation.requestNumberRequired': 'Request number is required',
+  'validation.openedRequired': 'Opened date is required',
+  'validation.openedInvalid': 'Invalid opened date',
+  'validation.updatedInvalid': 'Invalid updated date',
+  'validation.closedInvalid': 'Invalid closed date',
+  'validation.priorityUnknown': 'Unrecognized priority (use P1, P2, P3 or P4)',
+  'validation.stateUnknown': 'Unrecognized state',
+  'validation.requestStateUnknown':
+    'Unrecognized state (Opened, Assigned, Work in Progress, Closed Complete, Closed Incomplete, Closed Skipped, On Hold)',
+  'validation.emptyRow': 'Empty or invalid row',
+  'validation.updatedBeforeOpened': 'Updated date is earlier than the opened date',
+  'validation.invalidDate': 'Invalid date',
+  'validation.ciNameRequired': 'Configuration item name is required',
+  'validation.ciDuplicate': 'Duplicate item, keeping the last occurrence',
+  'validation.changeNumberRequired': 'Change number is required',
+  'validation.changeStartRequired': 'Change without a start date',
+  'validation.changeWithoutCi': 'Change without a configuration item will not be correlated',
+  'validation.analystRequired': 'Analyst name is required',
+  'validation.levelInvalid': 'Invalid level (use N1, N2 or N3)',
+  'validation.timeInvalid': 'Invalid time',
+  'validation.analystDuplicate': 'Repeated analyst; the first row wins',
+  'validation.numberAndStateRequired': 'Number and state are required',
+  'validation.changedAtInvalid': 'Invalid change date',
+  'validation.itemNumberRequired': 'Item number is required',
+  'validation.createdRequired': 'Created date is required',
+  'validation.storyPointsInvalid': 'Invalid story points',
+
+  'import.error.emptyFile': 'Empty file or invalid format',
+  'import.error.readFailed': 'Error reading the file',
+  'import.error.processFailed': 'Error processing the file',
+  'import.error.noData': 'The file contains no valid data',
+  'import.error.noHeaders': 'No headers found in the file',
+  'import.error.emptyExcel': 'Empty Excel file',
+  'import.error.invalidJson': 'Invalid JSON file',
+  'import.error.noJsonRecords':
+    'The JSON file contains no records (expected {"records": [...]}, {"issues": [...]} or {"tickets": [...]})',
+  'import.error.noFileLoaded': 'No file loaded for processing',
+  'import.error.unexpectedResponse': 'Unexpected response from processing',
+  'import.cancelled': 'Import cancelled',
+  'import.progress.processing': 'Processing...',
+  'import.progress.reading': 'Reading files... ({processed}/{total})',
+  'import.progress.rows': 'Processing {processed} of {total} rows ({percent}%)',
+  'import.error.missingColumns': 'Required columns not found: {columns}',
+  'import.occurrences': '{count} issue(s) in the import',
+  'import.rowDiscarded': ' — row discarded',
+
+  'upload.tagline': 'Connecting Intelligence and Technology',
+  'upload.selectType': 'Select the type of data you want to load for analysis',
+  'upload.incidents': 'Incidents',
+  'upload.incidentsSubtitle': 'Ticket and incident analysis',
+  'upload.requests': 'Requests',
+  'upload.requestsSubtitle': 'Request and demand analysis',
+  'upload.loadComplete': 'Load complete',
+  'upload.incidentsLoaded': '{count} incidents loaded successfully',
+  'upload.requestsLoaded': '{count} requests loaded successfully',
+  'upload.cancel': 'Cancel',
+  'upload.cancelImport': 'Cancel import',
+  'upload.addFiles': 'Add files',
+  'upload.clear': 'Clear',
+  'upload.incidentFeature1': 'Analysis by category and priority',
+  'upload.incidentFeature2': 'SLA monitoring',
+  'upload.incidentFeature3': 'Distribution by team',
+  'upload.incidentFeature4': 'Impact analysis',
+  'upload.requestFeature1': 'Analysis by type and category',
+  'upload.requestFeature2': 'Approval tracking',
+  'upload.requestFeature3': 'Cost metrics',
+  'upload.requestFeature4': 'Deadlines and deliveries',
+  'upload.loadIncidents': 'Load Incidents',
+  'upload.loadRequests': 'Load Requests',
+  'upload.fileCount': '{count} files',
+  'upload.allLoadedTitle': 'Load Complete!',
+  'upload.allLoadedText':
+    'Incidents and requests have been loaded. Save the dataset below to keep it in the library and open it in the dashboards.',
+  'upload.errorTitle': 'Error loading file',
+  'upload.errorChecklist': 'Check that the file:',
+  'upload.errorCheckFormat': 'Is a valid file (.xlsx, .xls, .csv, .tsv or .json)',
+  'upload.errorCheckColumns': 'Contains the required columns (Number, Date, Description, etc.)',
+  'upload.errorCheckRows': 'Has valid data in its rows',
+  'upload.mergeTitle': 'Merge summary',
+  'upload.mergeSummary': '{added} new, {updated} updated, {unchanged} unchanged — {total} records in total',
+  'upload.unmappedColumns': 'Ignored columns (not mapped): {columns}',
+  'upload.validationWarnings': 'Validation warnings',
+  'upload.rowError': 'Row {row}: {reason}',
+  'upload.rowValue': ' (value: {value})',
+  'upload.acceptedFormats':
+    'Accepted formats: Excel (.xlsx or .xls), CSV/TSV (delimiter and encoding detected automatically) and JSON (ServiceNow, Jira or Zendesk). For Jira Service Management, GLPI, Zendesk or OTRS exports, choose the tool profile. Select several files at once or add them one after another: repeated tickets are merged by number, keeping the most recent update.',
+  'upload.downloadTemplate': 'Download Template',
+  'upload.noFile': 'No file selected',
+  'upload.noValidTickets': 'No valid tickets found in the file. Check that the columns are correct.',
+  'upload.platformDescription': 'Platform for IT operations analysis and monitoring based on structured data.',
+  'upload.importTickets': 'Import Tickets',
+  'upload.dropHint': 'Drag and drop your file (Excel, CSV or JSON) or click to select',
+  'upload.dropHere': 'Drop the file here...',
+  'upload.clickOrDrag': 'Click or drag your file',
+  'upload.supportedFormats': 'Supported formats: .xlsx, .xls, .csv, .tsv and .json (ServiceNow, Jira or Zendesk)',
+  'upload.downloadSpreadsheetTemplate': 'Download Spreadsheet Template',
+  'upload.acceptedFormatsShort':
+    'Accepted formats: Excel (.xlsx or .xls), CSV/TSV (delimiter and encoding detected automatically) and JSON (ServiceNow, Jira or Zendesk)',
+
+  'mapping.profileLabel': 'Column mapping profile',
+  'mapping.defaultProfile': 'Default (automatic detection)',
+  'mapping.manualProfile': 'Manual mapping',
+  'mapping.itsmTools': 'ITSM tools',
+  'mapping.savedProfiles': 'Saved profiles',
+  'mapping.editProfile': 'Edit profile',
+  'mapping.newProfile': 'New profile',
+  'mapping.sampleFile': 'Sample file ({name})',
+  'mapping.editorEditTitle': 'Edit Mapping Profile',
+  'mapping.editorNewTitle': 'New Mapping Profile',
+  'mapping.editorSubtitle': '{target} — enter the spreadsheet column names separated by commas',
+  'mapping.nameRequired': 'Enter a name for the profile',
+  'mapping.profileName': 'Profile name',
+  'mapping.profileNamePlaceholder': 'E.g.: ServiceNow US export',
+  'mapping.sourceSystem': 'Source system',
+  'mapping.sourceSystemPlaceholder': 'E.g.: ServiceNow, GLPI',
+  'mapping.strict': 'Use only the columns listed (skip automatic detection)',
+  'mapping.delete': 'Delete',
+  'mapping.cancel': 'Cancel',
+  'mapping.saveProfile': 'Save Profile',
+  'mapping.wizardTitle': 'Column Mapping',
+  'mapping.wizardSubtitle': '{fileName} — {columns} columns, {rows} rows',
+  'mapping.missingRequired': 'Required fields without a column: {fields}',
+  'mapping.detectedColumns': 'Detected columns',
+  'mapping.example': 'E.g.: {value}',
+  'mapping.ignoreColumn': '— Ignore column —',
+  'mapping.inUse': ' (in use)',
+  'mapping.dates': 'Dates',
+  'mapping.detectedFormat': 'Detected: {format}',
+  'mapping.formatNotDetected': 'Format not detected',
+  'mapping.ambiguousDate': ' — day and month are ambiguous, please check',
+  'mapping.timezoneInValues': 'The values already include the time zone (UTC or offset).',
+  'mapping.preview': 'Preview (first {count} rows)',
+  'mapping.row': 'Row',
+  'mapping.previewErrors': 'Validation errors in the preview',
+  'mapping.rowDiscarded': ' — row will be discarded',
+  'mapping.saveAsProfile': 'Save as profile',
+  'mapping.confirmImport': 'Confirm Import',
+
+  'dateFormat.auto': 'Automatic (per value)',
+  'dateFormat.iso': 'ISO (yyyy-MM-dd HH:mm:ss)',
+  'dateFormat.br': 'Brazilian (dd/MM/yyyy HH:mm)',
+  'dateFormat.us': 'American (MM/dd/yyyy HH:mm)',
+  'dateFormat.excel': 'Excel serial number',
+  'timezone.local': 'Browser time zone',
+  'timezone.utc': 'UTC',
+  'timezone.saoPaulo': 'Brasília (America/Sao_Paulo)',
+  'timezone.manaus': 'Amazonas (America/Manaus)',
+  'timezone.rioBranco': 'Acre (America/Rio_Branco)',
+  'timezone.noronha': 'Fernando de Noronha (America/Noronha)',
+  'timezone.newYork': 'New York (America/New_York)',
+  'timezone.lisbon': 'Lisbon (Europe/Lisbon)',
+
+  'quality.title': 'Data quality report',
+  'quality.summary': '{rows} rows analyzed • {issues} issues',
+  'quality.download': 'Download report (XLSX)',
+  'quality.rejectedRows': 'Rejected rows',
+  'quality.incompleteColumns': 'Incomplete columns',
+  'quality.invalidDates': 'Invalid dates',
+  'quality.unknownPriorities': 'Unknown priorities',
+  'quality.unknownStates': 'Unknown states',
+  'quality.duplicateNumbers': 'Duplicate numbers',
+  'quality.updatedBeforeOpened': 'Updated before Opened',
+  'quality.sheet.file': 'File',
+  'quality.sheet.generatedAt': 'Generated at',
+  'quality.sheet.totalRows': 'Total rows',
+  'quality.sheet.summary': 'Summary',
+  'quality.sheet.completeness': 'Completeness',
+  'quality.sheet.row': 'Row',
+  'quality.sheet.number': 'Number',
+  'quality.sheet.column': 'Column',
+  'quality.sheet.value': 'Value',
+  'quality.sheet.reason': 'Reason',
+  'quality.sheet.filled': 'Filled',
+  'quality.sheet.total': 'Total',
+  'quality.sheet.filledPercent': '% Filled',
+  'quality.sheet.occurrences': 'Occurrences',
+  'quality.sheet.rows': 'Rows',
+  'quality.sheet.fileName': 'data-quality-{name}.xlsx',
+  'quality.sheet.defaultName': 'import',
+
+  'template.sheet.documentation': 'Documentation',
+  'template.incidents.title': 'Incident Template Documentation',
+  'template.requests.title': 'Request Template Documentation',
+  'template.incidents.intro': 'This file is a template for importing incident data into the IT Operations Dashboard.',
+  'template.requests.intro': 'This file is a template for importing request data into the IT Operations Dashboard.',
+  'template.incidents.fileName': 'incident-template.xlsx',
+  'template.requests.fileName': 'request-template.xlsx',
+  'template.instructions': 'Instructions:',
+  'template.step1': '1. Keep the headers in the first row',
+  'template.step2': '2. Fill in the data starting from the second row',
+  'template.step3': '3. Save the file as .xlsx or .xls',
+  'template.step4': '4. Import the file into the dashboard',
+  'template.fields': 'Field descriptions:',
+  'template.field.requester': 'Requester name',
+  'template.field.assignmentGroup': 'Group responsible for handling',
+  'template.field.assignedTo': 'Person responsible for handling',
+  'template.field.updated': 'Date and time of the last update (format: YYYY-MM-DDTHH:MM:SS)',
+  'template.field.updatedBy': 'Person who made the last update',
+  'template.field.businessImpact': 'Business impact',
+  'template.incident.number': 'Unique incident number (required)',
+  'template.incident.opened': 'Date and time the incident was opened (required, format: YYYY-MM-DDTHH:MM:SS)',
+  'template.incident.shortDescription': 'Short description of the incident',
+  'template.incident.priority': 'Incident priority (P1, P2, P3, P4)',
+  'template.incident.state': 'Incident state (Aberto, Em Andamento, Fechado, etc.)',
+  'template.incident.category': 'Incident category',
+  'template.incident.subcategory': 'Incident subcategory',
+  'template.request.number': 'Unique request number (required)',
+  'template.request.opened': 'Date and time the request was opened (required, format: YYYY-MM-DDTHH:MM:SS)',
+  'template.request.shortDescription': 'Short description of the request',
+  'template.request.requestItem': 'Request type or catalog item',
+  'template.request.priority': 'Request priority (High, Medium, Low)',
+  'template.request.state': 'Request state (Aberto, Em Andamento, Concluído, etc.)',
+  'template.request.comments': 'Comments and work notes'
+};
+
+export const IMPORT_ES_ES: Record<keyof typeof IMPORT_PT_BR, string> = {
+  'field.number': 'Número',
+  'field.opened': 'Apertura',
+  'field.description': 'Descripción',
+  'field.shortDescription': 'Descripción Breve',
+  'field.caller': 'Solicitante',
+  'field.priority': 'Prioridad',
+  'field.impact': 'Impacto',
+  'field.urgency': 'Urgencia',
+  'field.state': 'Estado',
+  'field.category': 'Categoría',
+  'field.subcategory': 'Subcategoría',
+  'field.assignmentGroup': 'Grupo Asignado',
+  'field.assignedTo': 'Asignado a',
+  'field.updated': 'Última Actualización',
+  'field.updatedBy': 'Actualizado por',
+  'field.businessImpact': 'Impacto en el Negocio',
+  'field.responseTime': 'Tiempo de Respuesta',
+  'field.location': 'Ubicación',
+  'field.comments': 'Comentarios',
+  'field.stringAssociado': 'String Asociado',
+  'field.funcaoAssociada': 'Función Asociada',
+  'field.configurationItem': 'Elemento de Configuración',
+  'field.businessService': 'Servicio de Negocio',
+  'field.closed': 'Cierre',
+  'field.requestItem': 'Elemento del Catálogo',
+  'field.requestedFor': 'Solicitado para',
+  'field.class': 'Clase',
+  'field.owner': 'Responsable',
+  'field.criticality': 'Criticidad',
+  'field.plannedStart': 'Inicio Planificado',
+  'field.plannedEnd': 'Fin Planificado',
+  'field.actualStart': 'Inicio Real',
+  'field.actualEnd': 'Fin Real',
+  'field.changeGroup': 'Grupo Asignado',
+  'field.risk': 'Riesgo',
+  'field.analyst': 'Analista',
+  'field.level': 'Nivel',
+  'field.startTime': 'Inicio',
+  'field.endTime': 'Fin',
+  'field.schedule': 'Turno',
+  'field.locationName': 'Localidad',
+  'field.changedAt': 'Fecha del Cambio',
+  'field.created': 'Creación',
+  'field.status': 'Estado',
+  'field.team': 'Equipo',
+  'field.businessValue': 'Valor de Negocio',
+  'field.storyPoints': 'Story Points',
+  'field.sprint': 'Sprint',
+  'field.release': 'Release',
+  'field.dueDate': 'Vencimiento',
+
+  'validation.incidentNumberRequired': 'El número del ticket es obligatorio',
+  'validation.requestNumberRequired': 'El número de la solicitud es obligatorio',
+  'validation.openedRequired': 'La fecha de apertura es obligatoria',
+  'validation.openedInvalid': 'Fecha de apertura inválida',
+  'validation.updatedInvalid': 'Fecha de actualización inválida',
+  'validation.closedInvalid': 'Fecha de cierre inválida',
+  'validation.priorityUnknown': 'Prioridad no reconocida (use P1, P2, P3 o P4)',
+  'validation.stateUnknown': 'Estado no reconocido',
+  'validation.requestStateUnknown':
+    'Estado no reconocido (Opened, Assigned, Work in Progress, Closed Complete, Closed Incomplete, Closed Skipped, On Hold)',
+  'validation.emptyRow': 'Fila vacía o inválida',
+  'validation.updatedBeforeOpened': 'Fecha de actualización anterior a la apertura',
+  'validation.invalidDate': 'Fecha inválida',
+  'validation.ciNameRequired': 'El nombre del elemento de configuración es obligatorio',
+  'validation.ciDuplicate': 'Elemento duplicado, se conserva la última aparición',
+  'validation.changeNumberRequired': 'El número del cambio es obligatorio',
+  'validation.changeStartRequired': 'Cambio sin fecha de inicio',
+  'validation.changeWithoutCi': 'Un cambio sin elemento de configuración no se correlacionará',
+  'validation.analystRequired': 'El nombre del analista es obligatorio',
+  'validation.levelInvalid': 'Nivel inválido (use N1, N2 o N3)',
+  'validation.timeInvalid': 'Horario inválido',
+  'validation.analystDuplicate': 'Analista repetido; vale la primera fila',
+  'validation.numberAndStateRequired': 'El número y el estado son obligatorios',
+  'validation.changedAtInvalid': 'Fecha del cambio inválida',
+  'validation.itemNumberRequired': 'El número del elemento es obligatorio',
+  'validation.createdRequired': 'La fecha de creación es obligatoria',
+  'validation.storyPointsInvalid': 'Story points inválidos',
+
+  'import.error.emptyFile': 'Archivo vacío o formato inválido',
+  'import.error.readFailed': 'Error al leer el archivo',
+  'import.error.processFailed': 'Error al procesar el archivo',
+  'import.error.noData': 'El archivo no contiene datos válidos',
+  'import.error.noHeaders': 'No se encontraron encabezados en el archivo',
+  'import.error.emptyExcel': 'Archivo Excel vacío',
+  'import.error.invalidJson': 'Archivo JSON inválido',
+  'import.error.noJsonRecords':
+    'El archivo JSON no contiene registros (se esperaba {"records": [...]}, {"issues": [...]} o {"tickets": [...]})',
+  'import.error.noFileLoaded': 'No hay ningún archivo cargado para procesar',
+  'import.error.unexpectedResponse': 'Respuesta inesperada del procesamiento',
+  'import.cancelled': 'Importación cancelada',
+  'import.progress.processing': 'Procesando...',
+  'import.progress.reading': 'Leyendo archivos... ({processed}/{total})',
+  'import.progress.rows': 'Procesando {processed} de {total} filas ({percent}%)',
+  'import.error.missingColumns': 'Columnas obligatorias no encontradas: {columns}',
+  'import.occurrences': '{count} incidencia(s) en la importación',
+  'import.rowDiscarded': ' — fila descartada',
+
+  'upload.tagline': 'Conectando Inteligencia y Tecnología',
+  'upload.selectType': 'Seleccione el tipo de datos que desea cargar para el análisis',
+  'upload.incidents': 'Incidentes',
+  'upload.incidentsSubtitle': 'Análisis de tickets e incidentes',
+  'upload.requests': 'Solicitudes',
+  'upload.requestsSubtitle': 'Análisis de solicitudes y demandas',
+  'upload.loadComplete': 'Carga completada',
+  'upload.incidentsLoaded': '{count} incidentes cargados correctamente',
+  'upload.requestsLoaded': '{count} solicitudes cargadas correctamente',
+  'upload.cancel': 'Cancelar',
+  'upload.cancelImport': 'Cancelar importación',
+  'upload.addFiles': 'Agregar archivos',
+  'upload.clear': 'Limpiar',
+  'upload.incidentFeature1': 'Análisis por categoría y prioridad',
+  'upload.incidentFeature2': 'Monitoreo de SLA',
+  'upload.incidentFeature3': 'Distribución por equipo',
+  'upload.incidentFeature4': 'Análisis de impacto',
+  'upload.requestFeature1': 'Análisis por tipo y categoría',
+  'upload.requestFeature2': 'Control de aprobaciones',
+  'upload.requestFeature3': 'Métricas de costo',
+  'upload.requestFeature4': 'Plazos y entregas',
+  'upload.loadIncidents': 'Cargar Incidentes',
+  'upload.loadRequests': 'Cargar Solicitudes',
+  'upload.fileCount': '{count} archivos',
+  'upload.allLoadedTitle': '¡Carga Completa!',
+  'upload.allLoadedText':
+    'Se cargaron los incidentes y las solicitudes. Guarde el conjunto abajo para conservarlo en la biblioteca y abrirlo en los dashboards.',
+  'upload.errorTitle': 'Error al cargar el archivo',
+  'upload.errorChecklist': 'Verifique que el archivo:',
+  'upload.errorCheckFormat': 'Sea un archivo válido (.xlsx, .xls, .csv, .tsv o .json)',
+  'upload.errorCheckColumns': 'Contenga las columnas necesarias (Número, Fecha, Descripción, etc.)',
+  'upload.errorCheckRows': 'Tenga datos válidos en las filas',
+  'upload.mergeTitle': 'Resumen de la combinación',
+  'upload.mergeSummary': '{added} nuevos, {updated} actualizados, {unchanged} sin cambios — {total} registros en total',
+  'upload.unmappedColumns': 'Columnas ignoradas (sin mapeo): {columns}',
+  'upload.validationWarnings': 'Avisos de validación',
+  'upload.rowError': 'Fila {row}: {reason}',
+  'upload.rowValue': ' (valor: {value})',
+  'upload.acceptedFormats':
+    'Formatos aceptados: Excel (.xlsx o .xls), CSV/TSV (delimitador y codificación detectados automáticamente) y JSON (ServiceNow, Jira o Zendesk). Para exportaciones de Jira Service Management, GLPI, Zendesk u OTRS, elija el perfil de la herramienta. Seleccione varios archivos a la vez o agréguelos en secuencia: los tickets repetidos se unifican por número, conservando la actualización más reciente.',
+  'upload.downloadTemplate': 'Descargar Plantilla',
+  'upload.noFile': 'Ningún archivo seleccionado',
+  'upload.noValidTickets':
+    'No se encontró ningún ticket válido en el archivo. Verifique que las columnas sean correctas.',
+  'upload.platformDescription': 'Plataforma para análisis y monitoreo operativo de TI, basada en datos estructurados.',
+  'upload.importTickets': 'Importar Tickets',
+  'upload.dropHint': 'Arrastre y suelte su archivo (Excel, CSV o JSON) o haga clic para seleccionar',
+  'upload.dropHere': 'Suelte el archivo aquí...',
+  'upload.clickOrDrag': 'Haga clic o arrastre su archivo',
+  'upload.supportedFormats': 'Formatos admitidos: .xlsx, .xls, .csv, .tsv y .json (ServiceNow, Jira o Zendesk)',
+  'upload.downloadSpreadsheetTemplate': 'Descargar Plantilla de Hoja de Cálculo',
+  'upload.acceptedFormatsShort':
+    'Formatos aceptados: Excel (.xlsx o .xls), CSV/TSV (delimitador y codificación detectados automáticamente) y JSON (ServiceNow, Jira o Zendesk)',
+
+  'mapping.profileLabel': 'Perfil de mapeo de columnas',
+  'mapping.defaultProfile': 'Predeterminado (detección automática)',
+  'mapping.manualProfile': 'Mapeo manual',
+  'mapping.itsmTools': 'Herramientas ITSM',
+  'mapping.savedProfiles': 'Perfiles guardados',
+  'mapping.editProfile': 'Editar perfil',
+  'mapping.newProfile': 'Nuevo perfil',
+  'mapping.sampleFile': 'Archivo de ejemplo ({name})',
+  'mapping.editorEditTitle': 'Editar Perfil de Mapeo',
+  'mapping.editorNewTitle': 'Nuevo Perfil de Mapeo',
+  'mapping.editorSubtitle': '{target} — indique los nombres de las columnas de la hoja separados por comas',
+  'mapping.nameRequired': 'Indique un nombre para el perfil',
+  'mapping.profileName': 'Nombre del perfil',
+  'mapping.profileNamePlaceholder': 'Ej.: exportación ServiceNow ES',
+  'mapping.sourceSystem': 'Sistema de origen',
+  'mapping.sourceSystemPlaceholder': 'Ej.: ServiceNow, GLPI',
+  'mapping.strict': 'Usar solo las columnas indicadas (ignorar la detección automática)',
+  'mapping.delete': 'Eliminar',
+  'mapping.cancel': 'Cancelar',
+  'mapping.saveProfile': 'Guardar Perfil',
+  'mapping.wizardTitle': 'Mapeo de Columnas',
+  'mapping.wizardSubtitle': '{fileName} — {columns} columnas, {rows} filas',
+  'mapping.missingRequired': 'Campos obligatorios sin columna asociada: {fields}',
+  'mapping.detectedColumns': 'Columnas detectadas',
+  'mapping.example': 'Ej.: {value}',
+  'mapping.ignoreColumn': '— Ignorar columna —',
+  'mapping.inUse': ' (en uso)',
+  'mapping.dates': 'Fechas',
+  'mapping.detectedFormat': 'Detectado: {format}',
+  'mapping.formatNotDetected': 'Formato no detectado',
+  'mapping.ambiguousDate': ' — día y mes ambiguos, verifique',
+  'mapping.timezoneInValues': 'Los valores ya indican la zona horaria (UTC o desplazamiento).',
+  'mapping.preview': 'Vista previa ({count} primeras filas)',
+  'mapping.row': 'Fila',
+  'mapping.previewErrors': 'Errores de validación en la vista previa',
+  'mapping.rowDiscarded': ' — la fila se descartará',
+  'mapping.saveAsProfile': 'Guardar como perfil',
+  'mapping.confirmImport': 'Confirmar Importación',
+
+  'dateFormat.auto': 'Automático (por valor)',
+  'dateFormat.iso': 'ISO (yyyy-MM-dd HH:mm:ss)',
+  'dateFormat.br': 'Brasileño (dd/MM/yyyy HH:mm)',
+  'dateFormat.us': 'Estadounidense (MM/dd/yyyy HH:mm)',
+  'dateFormat.excel': 'Número de serie de Excel',
+  'timezone.local': 'Zona horaria del navegador',
+  'timezone.utc': 'UTC',
+  'timezone.saoPaulo': 'Brasilia (America/Sao_Paulo)',
+  'timezone.manaus': 'Amazonas (America/Manaus)',
+  'timezone.rioBranco': 'Acre (America/Rio_Branco)',
+  'timezone.noronha': 'Fernando de Noronha (America/Noronha)',
+  'timezone.newYork': 'Nueva York (America/New_York)',
+  'timezone.lisbon': 'Lisboa (Europe/Lisbon)',
+
+  'quality.title': 'Informe de calidad de los datos',
+  'quality.summary': '{rows} filas analizadas • {issues} incidencias',
+  'quality.download': 'Descargar informe (XLSX)',
+  'quality.rejectedRows': 'Filas rechazadas',
+  'quality.incompleteColumns': 'Columnas incompletas',
+  'quality.invalidDates': 'Fechas inválidas',
+  'quality.unknownPriorities': 'Prioridades desconocidas',
+  'quality.unknownStates': 'Estados desconocidos',
+  'quality.duplicateNumbers': 'Números duplicados',
+  'quality.updatedBeforeOpened': 'Updated antes de Opened',
+  'quality.sheet.file': 'Archivo',
+  'quality.sheet.generatedAt': 'Generado el',
+  'quality.sheet.totalRows': 'Total de filas',
+  'quality.sheet.summary': 'Resumen',
+  'quality.sheet.completeness': 'Completitud',
+  'quality.sheet.row': 'Fila',
+  'quality.sheet.number': 'Número',
+  'quality.sheet.column': 'Columna',
+  'quality.sheet.value': 'Valor',
+  'quality.sheet.reason': 'Motivo',
+  'quality.sheet.filled': 'Completados',
+  'quality.sheet.total': 'Total',
+  'quality.sheet.filledPercent': '% Completado',
+  'quality.sheet.occurrences': 'Apariciones',
+  'quality.sheet.rows': 'Filas',
+  'quality.sheet.fileName': 'calidad-datos-{name}.xlsx',
+  'quality.sheet.defaultName': 'importacion',
+
+  'template.sheet.documentation': 'Documentación',
+  'template.incidents.title': 'Documentación de la Plantilla de Incidentes',
+  'template.requests.title': 'Documentación de la Plantilla de Requests',
+  'template.incidents.intro':
+    'Este archivo sirve como plantilla para importar datos de incidentes en el IT Operations Dashboard.',
+  'template.requests.intro':
+    'Este archivo sirve como plantilla para importar datos de solicitudes en el IT Operations Dashboard.',
+  'template.incidents.fileName': 'plantilla-incidentes.xlsx',
+  'template.requests.fileName': 'plantilla-requests.xlsx',
+  'template.instructions': 'Instrucciones:',
+  'template.step1': '1. Mantenga los encabezados en la primera fila',
+  'template.step2': '2. Complete los datos a partir de la segunda fila',
+  'template.step3': '3. Guarde el archivo en formato .xlsx o .xls',
+  'template.step4': '4. Importe el archivo en el dashboard',
+  'template.fields': 'Descripción de los campos:',
+  'template.field.requester': 'Nombre del solicitante',
+  'template.field.assignmentGroup': 'Grupo responsable de la atención',
+  'template.field.assignedTo': 'Persona responsable de la atención',
+  'template.field.updated': 'Fecha y hora de la última actualización (formato: YYYY-MM-DDTHH:MM:SS)',
+  'template.field.updatedBy': 'Persona que realizó la última actualización',
+  'template.field.businessImpact': 'Impacto en el negocio',
+  'template.incident.number': 'Número único del incidente (obligatorio)',
+  'template.incident.opened': 'Fecha y hora de apertura del incidente (obligatorio, formato: YYYY-MM-DDTHH:MM:SS)',
+  'template.incident.shortDescription': 'Descripción resumida del incidente',
+  'template.incident.priority': 'Prioridad del incidente (P1, P2, P3, P4)',
+  'template.incident.state': 'Estado del incidente (Aberto, Em Andamento, Fechado, etc.)',
+  'template.incident.category': 'Categoría del incidente',
+  'template.incident.subcategory': 'Subcategoría del incidente',
+  'template.request.number': 'Número único de la solicitud (obligatorio)',
+  'template.request.opened': 'Fecha y hora de apertura de la solicitud (obligatorio, formato: YYYY-MM-DDTHH:MM:SS)',
+  'template.request.shortDescription': 'Descripción resumida de la solicitud',
+  'template.request.requestItem': 'Tipo de solicitud o ítem del catálogo',
+  'template.request.priority': 'Prioridad de la solicitud (High, Medium, Low)',
+  'template.request.state': 'Estado de la solicitud (Aberto, Em Andamento, Concluído, etc.)',
+  'template.request.comments': 'Comentarios y notas de trabajo'
+};
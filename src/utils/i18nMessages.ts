@@ -0,0 +1,649 @@
+import { ANALYSIS_EN_US, ANALYSIS_ES_ES, ANALYSIS_PT_BR } from './i18nAnalysisMessages';
+import { DASHBOARD_EN_US, DASHBOARD_ES_ES, DASHBOARD_PT_BR } from './i18nDashboardMessages';
+import { IMPORT_EN_US, IMPORT_ES_ES, IMPORT_PT_BR } from './i18nImportMessages';
+import { PROMPT_EN_US, PROMPT_ES_ES, PROMPT_PT_BR } from './i18nPromptMessages';
+import { SETTINGS_EN_US, SETTINGS_ES_ES, SETTINGS_PT_BR } from './i18nSettingsMessages';
+
+// Catálogo de referência: toda chave nova entra aqui primeiro e o TypeScript
+// exige a tradução correspondente nos demais idiomas. Áreas maiores ficam em
+// módulos próprios (i18n*Messages.ts), combinados aqui.
+export const PT_BR = {
+  ...IMPORT_PT_BR,
+  ...ANALYSIS_PT_BR,
+  ...DASHBOARD_PT_BR,
+  ...SETTINGS_PT_BR,
+  ...PROMPT_PT_BR,
+
+  // Formatos de data do date-fns
+  'format.date': 'dd/MM/yyyy',
+  'format.dateTime': "dd/MM/yyyy 'às' HH:mm",
+  'format.dayMonth': 'dd/MM',
+  'format.invalidDate': 'Data inválida',
+
+  'header.language': 'Idioma',
+  'header.datasets': 'Conjuntos de dados',
+  'header.currentDataset': 'Conjunto atual: {name}',
+  'header.sla': 'SLA',
+  'header.locations': 'Localidades',
+  'header.unmappedGroups': '{count} grupo(s) sem localidade',
+  'header.categories': 'Categorias',
+  'header.priorities': 'Prioridades',
+  'header.requests': 'Solicitações',
+  'header.backlog': 'Backlog',
+  'header.executive': 'Executivo',
+  'header.reload': 'Recarregar',
+  'header.logout': 'Sair',
+  'header.development': 'Desenvolvimento',
+
+  'app.loadingDataset': 'Carregando conjunto de dados...',
+  'app.goToRequests': 'Ir para Dashboard de Requests',
+  'app.monthlyLocationSummary': 'Sumarização Mensal por Localidade',
+  'app.showDetails': 'Ver Detalhes',
+  'app.hideDetails': 'Ocultar Detalhes',
+
+  'stats.total': 'Total de Chamados',
+  'stats.totalSubtitle': 'Clique para ver histórico',
+  'stats.highPriorityPending': 'P1/P2 Pendentes',
+  'stats.pending': 'Chamados Pendentes',
+  'stats.onHold': 'Chamados On Hold',
+  'stats.outOfRule': 'Fora de Regra',
+  'stats.outOfRuleSubtitle': 'Sem atualização no prazo da regra',
+  'stats.clickForDetails': '(clique para detalhes)',
+
+  'sections.operacional.title': 'Indicadores Operacionais',
+  'sections.operacional.description': 'Métricas de operação diária',
+  'sections.estrategico.title': 'Indicadores Estratégicos',
+  'sections.estrategico.description': 'Métricas de longo prazo',
+  'sections.executivo.title': 'Indicadores Executivos',
+  'sections.executivo.description': 'Visão geral para gestão',
+  'sections.preditiva.title': 'Análise Preditiva - IA',
+  'sections.preditiva.description': 'Insights e previsões',
+  'sections.pendingIncidents.title': 'Chamados Pendentes',
+  'sections.pendingIncidents.description': 'Status atual dos chamados',
+  'sections.sla.title': 'SLA',
+  'sections.sla.description': 'Acordo de nível de serviço',
+  'sections.category.title': 'Por Categoria',
+  'sections.category.description': 'Distribuição por tipo',
+  'sections.group.title': 'Por Grupo',
+  'sections.group.description': 'Distribuição por equipe',
+  'sections.associates.title': 'Por Usuários',
+  'sections.associates.description': 'Distribuição por usuários',
+  'sections.topStringAssociado.title': 'Top Chamados – Drilldown por String Associado',
+  'sections.topStringAssociado.description': 'Drilldown por Categoria, Subcategoria e String Associado',
+  'sections.problems.title': 'Gestão de Problemas',
+  'sections.problems.description': 'Candidatos a problema e erros conhecidos',
+  'sections.associatedIndicators.title': 'Análise de Indicadores Associados',
+  'sections.associatedIndicators.description': 'Análise integrada de Função, Grupo e String Associado com turnos',
+  'sections.categoryHistory.title': 'Histórico por Categoria',
+  'sections.categoryHistory.description': 'Tendências por categoria',
+  'sections.groupHistory.title': 'Histórico por Grupo',
+  'sections.groupHistory.description': 'Tendências por equipe',
+  'sections.slaHistory.title': 'Histórico por SLA',
+  'sections.slaHistory.description': 'Tendências de tempo de resposta',
+  'sections.locationHistory.title': 'Histórico por Localidade',
+  'sections.locationHistory.description': 'Tendências por local',
+  'sections.changeCorrelation.title': 'Mudanças x Incidentes',
+  'sections.changeCorrelation.description': 'Incidentes após janelas de mudança',
+  'sections.ciImpact.title': 'Impacto por CI e Serviço',
+  'sections.ciImpact.description': 'Itens de configuração mais frágeis',
+  'sections.monthlyVariation.title': 'Variação Mensal',
+  'sections.monthlyVariation.description': 'Análise de variação mês a mês',
+  'sections.monthlyLocationVariation.title': 'Variação Mensal por Localidade',
+  'sections.monthlyLocationVariation.description': 'Comparativo mensal por local',
+  'sections.comparativeVolumetry.title': 'Volumetria Comparativa',
+  'sections.comparativeVolumetry.description': 'Comparação de volumes entre localidades',
+  'sections.locationDistribution.title': 'Distribuição por Localidade',
+  'sections.locationDistribution.description': 'Distribuição de incidentes e requisições por local',
+  'sections.predictive.title': 'Análise Preditiva',
+  'sections.predictive.description': 'Previsões e tendências',
+  'sections.analyst.title': 'Análise por Analista',
+  'sections.analyst.description': 'Desempenho individual',
+  'sections.shift.title': 'Análise por Turno',
+  'sections.shift.description': 'Desempenho por período',
+  'sections.staffing.title': 'Cobertura de Equipe',
+  'sections.staffing.description': 'Escala de analistas e cobertura',
+
+  'outOfRule.title': 'Chamados Fora de Regra',
+  'outOfRule.subtitle': '{count} chamados sem atualização além do limite da sua regra',
+  'outOfRule.configureRules': 'Configurar regras',
+  'outOfRule.filter.all': 'Todos os Estados',
+  'outOfRule.filter.open': 'Em Aberto',
+  'outOfRule.filter.inProgress': 'Em Andamento',
+  'outOfRule.filter.onHold': 'Em Espera',
+  'outOfRule.noUpdateFor': 'Sem atualização por {time}',
+  'outOfRule.lastUpdate': 'Última atualização em {date}',
+  'outOfRule.rule': 'Regra {rule}',
+
+  'staleness.day': '{count} dia',
+  'staleness.days': '{count} dias',
+  'staleness.daysAndHours': '{days} e {hours}h',
+  'staleness.state.active': 'Aberto / Em andamento',
+  'staleness.state.onHold': 'Em espera',
+  'staleness.anyPriority': 'Todas as prioridades',
+  'staleness.anyState': 'Todos os estados',
+  'staleness.anyLocation': 'Todas as localidades',
+  'staleness.upTo': 'até {time}',
+  'staleness.undefinedPriority': 'Não definido',
+
+  'executive.back': 'Voltar',
+  'executive.title': 'Dashboard Executivo',
+  'executive.close': 'Fechar Dashboard Executivo',
+  'executive.totalIncidents': 'Total de Incidentes',
+  'executive.totalRequests': 'Total de Requests',
+  'executive.globalSla': 'SLA Global',
+  'executive.proportion': 'Proporção',
+  'executive.vsPreviousYear': 'vs Ano Anterior',
+  'executive.split': '{incidents}% incidentes • {requests}% requests',
+  'executive.monthlyVariation': 'Variação Mensal',
+  'executive.monthlyLocationVariation': 'Variação Mensal por Localidade',
+  'executive.sourceComparison': 'Comparativo por Ferramenta de Origem',
+  'executive.comparativeVolumetry': 'Volumetria Comparativa',
+  'executive.locationDistribution': 'Distribuição por Localidade',
+  'executive.barChart': 'Gráfico de Barras',
+  'executive.lineChart': 'Gráfico de Linha',
+  'executive.pieChart': 'Gráfico de Pizza',
+  'executive.incidents': 'Incidentes',
+  'executive.requests': 'Requests',
+  'executive.noLocations': 'Nenhuma localidade encontrada no período selecionado.',
+  'executive.predictive': 'Análise Preditiva - IA',
+  'executive.selectedPeriod': 'Período Selecionado',
+  'executive.variationVsPreviousYear': 'Variação vs Ano Anterior',
+  'executive.slaCompliance': 'SLA Compliance',
+  'executive.byStringAssociado': 'Chamados por String Associado',
+  'executive.byFuncaoAssociada': 'Chamados por Função Associada',
+  'executive.previousIncidents': '{count} incidentes no período anterior',
+  'executive.previousRequests': '{count} requests no período anterior',
+  'executive.trend': 'Tendência: {location}',
+  'executive.associatedIndicators': 'Indicadores por Associado',
+  'executive.notInformed': 'Não informado',
+  'executive.others': 'Outros',
+  'executiveMenu.title': 'Indicadores Executivos',
+  'executiveMenu.consolidated': 'Visão Consolidada',
+  'executiveMenu.topCategories': 'Top 5 Categorias',
+  'executiveMenu.topCategoriesDescription': 'Principais categorias',
+  'executiveMenu.topLocations': 'Top 5 Localidades',
+  'executiveMenu.topLocationsDescription': 'Principais localidades',
+  'executiveMenu.monthlySummary': 'Sumário Mensal',
+  'executiveMenu.monthlySummaryDescription': 'Resumo mensal',
+  'executiveMenu.monthlyLocationDescription': 'Resumo mensal por localidade',
+  'executiveMenu.predictiveDescription': 'Previsões e insights',
+
+  'dataset.title': 'Biblioteca de Conjuntos de Dados',
+  'dataset.subtitle': 'Conjuntos salvos neste navegador',
+  'dataset.loading': 'Carregando...',
+  'dataset.empty': 'Nenhum conjunto salvo. Importe seus arquivos abaixo para criar o primeiro.',
+  'dataset.saveName': 'Salvar nome',
+  'dataset.cancel': 'Cancelar',
+  'dataset.default': 'Padrão',
+  'dataset.inUse': 'Em uso',
+  'dataset.noFile': 'Arquivo não informado',
+  'dataset.importedAt': 'Importado em {date} • {incidents} incidentes • {requests} requests',
+  'dataset.confirmDelete': 'Excluir conjunto?',
+  'dataset.delete': 'Excluir',
+  'dataset.open': 'Abrir',
+  'dataset.rename': 'Renomear',
+  'dataset.unsetDefault': 'Remover como padrão',
+  'dataset.setDefault': 'Definir como padrão',
+  'dataset.newTitle': 'Novo conjunto de dados',
+  'dataset.ready': '{incidents} incidentes e {requests} requests prontos para análise',
+  'dataset.namePlaceholder': 'Nome do conjunto',
+  'dataset.openWithoutSaving': 'Abrir sem salvar',
+  'dataset.saveAndOpen': 'Salvar e abrir',
+  'dataset.unnamed': 'Conjunto sem nome',
+  'dataset.unsaved': 'Conjunto não salvo',
+  'dataset.error.list': 'Erro ao carregar os conjuntos de dados',
+  'dataset.error.notFound': 'Conjunto de dados não encontrado',
+  'dataset.error.open': 'Erro ao abrir o conjunto de dados',
+  'dataset.error.rename': 'Erro ao renomear o conjunto de dados',
+  'dataset.error.delete': 'Erro ao excluir o conjunto de dados',
+  'dataset.error.save': 'Erro ao salvar o conjunto de dados',
+  'storage.error.unavailable': 'IndexedDB não está disponível neste navegador',
+  'storage.error.open': 'Erro ao abrir o banco de dados local',
+  'storage.error.access': 'Erro ao acessar o banco de dados local',
+  'storage.error.aborted': 'Operação no banco de dados local cancelada',
+
+  // Instrução anexada aos prompts de sistema dos serviços de IA
+  'ai.answerLanguage':
+    'Responda sempre em português do Brasil. Quando a resposta for JSON, mantenha os nomes dos campos exatamente como pedidos e escreva apenas os textos em português.',
+
+  // Tela de login
+  'auth.appName': 'Painel de Operações de TI',
+  'auth.prodDescription':
+    'Plataforma com IA nativa para monitorar e analisar incidentes de TI em tempo real, gerar dashboards interativos, identificar padrões automaticamente e realizar análises de causa-raiz acionáveis.',
+  'auth.description':
+    'Sistema integrado para monitoramento e análise de incidentes e requisições de TI. Visualize métricas, tendências e indicadores-chave de performance.',
+  'auth.username': 'Usuário',
+  'auth.usernamePlaceholder': 'Digite seu nome de usuário',
+  'auth.password': 'Senha',
+  'auth.passwordPlaceholder': 'Digite sua senha',
+  'auth.rememberMe': 'Lembrar-me',
+  'auth.signIn': 'Entrar',
+  'auth.invalidCredentials': 'Credenciais inválidas',
+  'auth.copyright': '© 2025 OnSet Tecnologia. Todos os direitos reservados.'
+};
+
+export type MessageKey = keyof typeof PT_BR;
+
+export const EN_US: Record<MessageKey, string> = {
+  ...IMPORT_EN_US,
+  ...ANALYSIS_EN_US,
+  ...DASHBOARD_EN_US,
+  ...SETTINGS_EN_US,
+  ...PROMPT_EN_US,
+
+  'format.date': 'MM/dd/yyyy',
+  'format.dateTime': "MM/dd/yyyy 'at' h:mm a",
+  'format.dayMonth': 'MM/dd',
+  'format.invalidDate': 'Invalid date',
+
+  'header.language': 'Language',
+  'header.datasets': 'Datasets',
+  'header.currentDataset': 'Current dataset: {name}',
+  'header.sla': 'SLA',
+  'header.locations': 'Locations',
+  'header.unmappedGroups': '{count} group(s) without a location',
+  'header.categories': 'Categories',
+  'header.priorities': 'Priorities',
+  'header.requests': 'Requests',
+  'header.backlog': 'Backlog',
+  'header.executive': 'Executive',
+  'header.reload': 'Reload',
+  'header.logout': 'Log out',
+  'header.development': 'Development',
+
+  'app.loadingDataset': 'Loading dataset...',
+  'app.goToRequests': 'Go to Requests Dashboard',
+  'app.monthlyLocationSummary': 'Monthly Summary by Location',
+  'app.showDetails': 'Show Details',
+  'app.hideDetails': 'Hide Details',
+
+  'stats.total': 'Total Tickets',
+  'stats.totalSubtitle': 'Click to see history',
+  'stats.highPriorityPending': 'Pending P1/P2',
+  'stats.pending': 'Pending Tickets',
+  'stats.onHold': 'Tickets On Hold',
+  'stats.outOfRule': 'Out of Rule',
+  'stats.outOfRuleSubtitle': 'Not updated within the rule limit',
+  'stats.clickForDetails': '(click for details)',
+
+  'sections.operacional.title': 'Operational Indicators',
+  'sections.operacional.description': 'Day-to-day operation metrics',
+  'sections.estrategico.title': 'Strategic Indicators',
+  'sections.estrategico.description': 'Long-term metrics',
+  'sections.executivo.title': 'Executive Indicators',
+  'sections.executivo.description': 'Overview for management',
+  'sections.preditiva.title': 'Predictive Analysis - AI',
+  'sections.preditiva.description': 'Insights and forecasts',
+  'sections.pendingIncidents.title': 'Pending Tickets',
+  'sections.pendingIncidents.description': 'Current ticket status',
+  'sections.sla.title': 'SLA',
+  'sections.sla.description': 'Service level agreement',
+  'sections.category.title': 'By Category',
+  'sections.category.description': 'Distribution by type',
+  'sections.group.title': 'By Group',
+  'sections.group.description': 'Distribution by team',
+  'sections.associates.title': 'By Users',
+  'sections.associates.description': 'Distribution by users',
+  'sections.topStringAssociado.title': 'Top Tickets – Drilldown by Associated String',
+  'sections.topStringAssociado.description': 'Drilldown by Category, Subcategory and Associated String',
+  'sections.problems.title': 'Problem Management',
+  'sections.problems.description': 'Problem candidates and known errors',
+  'sections.associatedIndicators.title': 'Associated Indicators Analysis',
+  'sections.associatedIndicators.description': 'Combined analysis of Function, Group and Associated String by shift',
+  'sections.categoryHistory.title': 'History by Category',
+  'sections.categoryHistory.description': 'Trends by category',
+  'sections.groupHistory.title': 'History by Group',
+  'sections.groupHistory.description': 'Trends by team',
+  'sections.slaHistory.title': 'SLA History',
+  'sections.slaHistory.description': 'Response time trends',
+  'sections.locationHistory.title': 'History by Location',
+  'sections.locationHistory.description': 'Trends by location',
+  'sections.changeCorrelation.title': 'Changes x Incidents',
+  'sections.changeCorrelation.description': 'Incidents after change windows',
+  'sections.ciImpact.title': 'Impact by CI and Service',
+  'sections.ciImpact.description': 'Most fragile configuration items',
+  'sections.monthlyVariation.title': 'Monthly Variation',
+  'sections.monthlyVariation.description': 'Month-over-month variation analysis',
+  'sections.monthlyLocationVariation.title': 'Monthly Variation by Location',
+  'sections.monthlyLocationVariation.description': 'Monthly comparison by location',
+  'sections.comparativeVolumetry.title': 'Comparative Volume',
+  'sections.comparativeVolumetry.description': 'Volume comparison across locations',
+  'sections.locationDistribution.title': 'Distribution by Location',
+  'sections.locationDistribution.description': 'Incidents and requests by location',
+  'sections.predictive.title': 'Predictive Analysis',
+  'sections.predictive.description': 'Forecasts and trends',
+  'sections.analyst.title': 'Analysis by Analyst',
+  'sections.analyst.description': 'Individual performance',
+  'sections.shift.title': 'Analysis by Shift',
+  'sections.shift.description': 'Performance by period',
+  'sections.staffing.title': 'Team Coverage',
+  'sections.staffing.description': 'Analyst roster and coverage',
+
+  'outOfRule.title': 'Out of Rule Tickets',
+  'outOfRule.subtitle': '{count} tickets not updated beyond their rule limit',
+  'outOfRule.configureRules': 'Configure rules',
+  'outOfRule.filter.all': 'All States',
+  'outOfRule.filter.open': 'Open',
+  'outOfRule.filter.inProgress': 'In Progress',
+  'outOfRule.filter.onHold': 'On Hold',
+  'outOfRule.noUpdateFor': 'Not updated for {time}',
+  'outOfRule.lastUpdate': 'Last updated on {date}',
+  'outOfRule.rule': 'Rule {rule}',
+
+  'staleness.day': '{count} day',
+  'staleness.days': '{count} days',
+  'staleness.daysAndHours': '{days} and {hours}h',
+  'staleness.state.active': 'Open / In progress',
+  'staleness.state.onHold': 'On hold',
+  'staleness.anyPriority': 'All priorities',
+  'staleness.anyState': 'All states',
+  'staleness.anyLocation': 'All locations',
+  'staleness.upTo': 'up to {time}',
+  'staleness.undefinedPriority': 'Not defined',
+
+  'executive.back': 'Back',
+  'executive.title': 'Executive Dashboard',
+  'executive.close': 'Close Executive Dashboard',
+  'executive.totalIncidents': 'Total Incidents',
+  'executive.totalRequests': 'Total Requests',
+  'executive.globalSla': 'Overall SLA',
+  'executive.proportion': 'Proportion',
+  'executive.vsPreviousYear': 'vs Previous Year',
+  'executive.split': '{incidents}% incidents • {requests}% requests',
+  'executive.monthlyVariation': 'Monthly Variation',
+  'executive.monthlyLocationVariation': 'Monthly Variation by Location',
+  'executive.sourceComparison': 'Comparison by Source Tool',
+  'executive.comparativeVolumetry': 'Comparative Volume',
+  'executive.locationDistribution': 'Distribution by Location',
+  'executive.barChart': 'Bar Chart',
+  'executive.lineChart': 'Line Chart',
+  'executive.pieChart': 'Pie Chart',
+  'executive.incidents': 'Incidents',
+  'executive.requests': 'Requests',
+  'executive.noLocations': 'No locations found in the selected period.',
+  'executive.predictive': 'Predictive Analysis - AI',
+  'executive.selectedPeriod': 'Selected Period',
+  'executive.variationVsPreviousYear': 'Change vs Previous Year',
+  'executive.slaCompliance': 'SLA Compliance',
+  'executive.byStringAssociado': 'Tickets by Associated String',
+  'executive.byFuncaoAssociada': 'Tickets by Associated Function',
+  'executive.previousIncidents': '{count} incidents in the previous period',
+  'executive.previousRequests': '{count} requests in the previous period',
+  'executive.trend': 'Trend: {location}',
+  'executive.associatedIndicators': 'Indicators by Associate',
+  'executive.notInformed': 'Not provided',
+  'executive.others': 'Others',
+  'executiveMenu.title': 'Executive Indicators',
+  'executiveMenu.consolidated': 'Consolidated View',
+  'executiveMenu.topCategories': 'Top 5 Categories',
+  'executiveMenu.topCategoriesDescription': 'Main categories',
+  'executiveMenu.topLocations': 'Top 5 Locations',
+  'executiveMenu.topLocationsDescription': 'Main locations',
+  'executiveMenu.monthlySummary': 'Monthly Summary',
+  'executiveMenu.monthlySummaryDescription': 'Monthly overview',
+  'executiveMenu.monthlyLocationDescription': 'Monthly overview by location',
+  'executiveMenu.predictiveDescription': 'Forecasts and insights',
+
+  'dataset.title': 'Dataset Library',
+  'dataset.subtitle': 'Datasets saved in this browser',
+  'dataset.loading': 'Loading...',
+  'dataset.empty': 'No saved datasets. Import your files below to create the first one.',
+  'dataset.saveName': 'Save name',
+  'dataset.cancel': 'Cancel',
+  'dataset.default': 'Default',
+  'dataset.inUse': 'In use',
+  'dataset.noFile': 'No file recorded',
+  'dataset.importedAt': 'Imported on {date} • {incidents} incidents • {requests} requests',
+  'dataset.confirmDelete': 'Delete dataset?',
+  'dataset.delete': 'Delete',
+  'dataset.open': 'Open',
+  'dataset.rename': 'Rename',
+  'dataset.unsetDefault': 'Remove as default',
+  'dataset.setDefault': 'Set as default',
+  'dataset.newTitle': 'New dataset',
+  'dataset.ready': '{incidents} incidents and {requests} requests ready for analysis',
+  'dataset.namePlaceholder': 'Dataset name',
+  'dataset.openWithoutSaving': 'Open without saving',
+  'dataset.saveAndOpen': 'Save and open',
+  'dataset.unnamed': 'Unnamed dataset',
+  'dataset.unsaved': 'Unsaved dataset',
+  'dataset.error.list': 'Error loading the datasets',
+  'dataset.error.notFound': 'Dataset not found',
+  'dataset.error.open': 'Error opening the dataset',
+  'dataset.error.rename': 'Error renaming the dataset',
+  'dataset.error.delete': 'Error deleting the dataset',
+  'dataset.error.save': 'Error saving the dataset',
+  'storage.error.unavailable': 'IndexedDB is not available in this browser',
+  'storage.error.open': 'Error opening the local database',
+  'storage.error.access': 'Error accessing the local database',
+  'storage.error.aborted': 'Local database operation cancelled',
+
+  'ai.answerLanguage':
+    'Always answer in US English. When the answer is JSON, keep the field names exactly as requested and write only the text values in English.',
+
+  'auth.appName': 'IT Operations Dashboard',
+  'auth.prodDescription':
+    'AI-native platform to monitor and analyze IT incidents in real time, build interactive dashboards, identify patterns automatically and run actionable root cause analyses.',
+  'auth.description':
+    'Integrated system for monitoring and analyzing IT incidents and requests. View metrics, trends and key performance indicators.',
+  'auth.username': 'Username',
+  'auth.usernamePlaceholder': 'Enter your username',
+  'auth.password': 'Password',
+  'auth.passwordPlaceholder': 'Enter your password',
+  'auth.rememberMe': 'Remember me',
+  'auth.signIn': 'Sign in',
+  'auth.invalidCredentials': 'Invalid credentials',
+  'auth.copyright': '© 2025 OnSet Tecnologia. All rights reserved.'
+};
+
+export const ES_ES: Record<MessageKey, string> = {
+  ...IMPORT_ES_ES,
+  ...ANALYSIS_ES_ES,
+  ...DASHBOARD_ES_ES,
+  ...SETTINGS_ES_ES,
+  ...PROMPT_ES_ES,
+
+  'format.date': 'dd/MM/yyyy',
+  'format.dateTime': "dd/MM/yyyy 'a las' HH:mm",
+  'format.dayMonth': 'dd/MM',
+  'format.invalidDate': 'Fecha inválida',
+
+  'header.language': 'Idioma',
+  'header.datasets': 'Conjuntos de datos',
+  'header.currentDataset': 'Conjunto actual: {name}',
+  'header.sla': 'SLA',
+  'header.locations': 'Ubicaciones',
+  'header.unmappedGroups': '{count} grupo(s) sin ubicación',
+  'header.categories': 'Categorías',
+  'header.priorities': 'Prioridades',
+  'header.requests': 'Solicitudes',
+  'header.backlog': 'Backlog',
+  'header.executive': 'Ejecutivo',
+  'header.reload': 'Recargar',
+  'header.logout': 'Salir',
+  'header.development': 'Desarrollo',
+
+  'app.loadingDataset': 'Cargando conjunto de datos...',
+  'app.goToRequests': 'Ir al Dashboard de Solicitudes',
+  'app.monthlyLocationSummary': 'Resumen Mensual por Ubicación',
+  'app.showDetails': 'Ver Detalles',
+  'app.hideDetails': 'Ocultar Detalles',
+
+  'stats.total': 'Total de Tickets',
+  'stats.totalSubtitle': 'Haga clic para ver el historial',
+  'stats.highPriorityPending': 'P1/P2 Pendientes',
+  'stats.pending': 'Tickets Pendientes',
+  'stats.onHold': 'Tickets en Espera',
+  'stats.outOfRule': 'Fuera de Regla',
+  'stats.outOfRuleSubtitle': 'Sin actualización en el plazo de la regla',
+  'stats.clickForDetails': '(clic para detalles)',
+
+  'sections.operacional.title': 'Indicadores Operativos',
+  'sections.operacional.description': 'Métricas de la operación diaria',
+  'sections.estrategico.title': 'Indicadores Estratégicos',
+  'sections.estrategico.description': 'Métricas de largo plazo',
+  'sections.executivo.title': 'Indicadores Ejecutivos',
+  'sections.executivo.description': 'Visión general para la gerencia',
+  'sections.preditiva.title': 'Análisis Predictivo - IA',
+  'sections.preditiva.description': 'Insights y pronósticos',
+  'sections.pendingIncidents.title': 'Tickets Pendientes',
+  'sections.pendingIncidents.description': 'Estado actual de los tickets',
+  'sections.sla.title': 'SLA',
+  'sections.sla.description': 'Acuerdo de nivel de servicio',
+  'sections.category.title': 'Por Categoría',
+  'sections.category.description': 'Distribución por tipo',
+  'sections.group.title': 'Por Grupo',
+  'sections.group.description': 'Distribución por equipo',
+  'sections.associates.title': 'Por Usuarios',
+  'sections.associates.description': 'Distribución por usuarios',
+  'sections.topStringAssociado.title': 'Top Tickets – Drilldown por String Asociado',
+  'sections.topStringAssociado.description': 'Drilldown por Categoría, Subcategoría y String Asociado',
+  'sections.problems.title': 'Gestión de Problemas',
+  'sections.problems.description': 'Candidatos a problema y errores conocidos',
+  'sections.associatedIndicators.title': 'Análisis de Indicadores Asociados',
+  'sections.associatedIndicators.description': 'Análisis integrado de Función, Grupo y String Asociado por turno',
+  'sections.categoryHistory.title': 'Histórico por Categoría',
+  'sections.categoryHistory.description': 'Tendencias por categoría',
+  'sections.groupHistory.title': 'Histórico por Grupo',
+  'sections.groupHistory.description': 'Tendencias por equipo',
+  'sections.slaHistory.title': 'Histórico de SLA',
+  'sections.slaHistory.description': 'Tendencias del tiempo de respuesta',
+  'sections.locationHistory.title': 'Histórico por Ubicación',
+  'sections.locationHistory.description': 'Tendencias por ubicación',
+  'sections.changeCorrelation.title': 'Cambios x Incidentes',
+  'sections.changeCorrelation.description': 'Incidentes después de ventanas de cambio',
+  'sections.ciImpact.title': 'Impacto por CI y Servicio',
+  'sections.ciImpact.description': 'Elementos de configuración más frágiles',
+  'sections.monthlyVariation.title': 'Variación Mensual',
+  'sections.monthlyVariation.description': 'Análisis de variación mes a mes',
+  'sections.monthlyLocationVariation.title': 'Variación Mensual por Ubicación',
+  'sections.monthlyLocationVariation.description': 'Comparativo mensual por ubicación',
+  'sections.comparativeVolumetry.title': 'Volumetría Comparativa',
+  'sections.comparativeVolumetry.description': 'Comparación de volúmenes entre ubicaciones',
+  'sections.locationDistribution.title': 'Distribución por Ubicación',
+  'sections.locationDistribution.description': 'Distribución de incidentes y solicitudes por ubicación',
+  'sections.predictive.title': 'Análisis Predictivo',
+  'sections.predictive.description': 'Pronósticos y tendencias',
+  'sections.analyst.title': 'Análisis por Analista',
+  'sections.analyst.description': 'Desempeño individual',
+  'sections.shift.title': 'Análisis por Turno',
+  'sections.shift.description': 'Desempeño por período',
+  'sections.staffing.title': 'Cobertura del Equipo',
+  'sections.staffing.description': 'Turnos de analistas y cobertura',
+
+  'outOfRule.title': 'Tickets Fuera de Regla',
+  'outOfRule.subtitle': '{count} tickets sin actualización más allá del límite de su regla',
+  'outOfRule.configureRules': 'Configurar reglas',
+  'outOfRule.filter.all': 'Todos los Estados',
+  'outOfRule.filter.open': 'Abiertos',
+  'outOfRule.filter.inProgress': 'En Curso',
+  'outOfRule.filter.onHold': 'En Espera',
+  'outOfRule.noUpdateFor': 'Sin actualización hace {time}',
+  'outOfRule.lastUpdate': 'Última actualización el {date}',
+  'outOfRule.rule': 'Regla {rule}',
+
+  'staleness.day': '{count} día',
+  'staleness.days': '{count} días',
+  'staleness.daysAndHours': '{days} y {hours}h',
+  'staleness.state.active': 'Abierto / En curso',
+  'staleness.state.onHold': 'En espera',
+  'staleness.anyPriority': 'Todas las prioridades',
+  'staleness.anyState': 'Todos los estados',
+  'staleness.anyLocation': 'Todas las ubicaciones',
+  'staleness.upTo': 'hasta {time}',
+  'staleness.undefinedPriority': 'No definido',
+
+  'executive.back': 'Volver',
+  'executive.title': 'Dashboard Ejecutivo',
+  'executive.close': 'Cerrar Dashboard Ejecutivo',
+  'executive.totalIncidents': 'Total de Incidentes',
+  'executive.totalRequests': 'Total de Solicitudes',
+  'executive.globalSla': 'SLA Global',
+  'executive.proportion': 'Proporción',
+  'executive.vsPreviousYear': 'vs Año Anterior',
+  'executive.split': '{incidents}% incidentes • {requests}% solicitudes',
+  'executive.monthlyVariation': 'Variación Mensual',
+  'executive.monthlyLocationVariation': 'Variación Mensual por Ubicación',
+  'executive.sourceComparison': 'Comparativo por Herramienta de Origen',
+  'executive.comparativeVolumetry': 'Volumetría Comparativa',
+  'executive.locationDistribution': 'Distribución por Ubicación',
+  'executive.barChart': 'Gráfico de Barras',
+  'executive.lineChart': 'Gráfico de Líneas',
+  'executive.pieChart': 'Gráfico Circular',
+  'executive.incidents': 'Incidentes',
+  'executive.requests': 'Solicitudes',
+  'executive.noLocations': 'No se encontraron ubicaciones en el período seleccionado.',
+  'executive.predictive': 'Análisis Predictivo - IA',
+  'executive.selectedPeriod': 'Período Seleccionado',
+  'executive.variationVsPreviousYear': 'Variación vs Año Anterior',
+  'executive.slaCompliance': 'Cumplimiento de SLA',
+  'executive.byStringAssociado': 'Tickets por String Asociado',
+  'executive.byFuncaoAssociada': 'Tickets por Función Asociada',
+  'executive.previousIncidents': '{count} incidentes en el período anterior',
+  'executive.previousRequests': '{count} solicitudes en el período anterior',
+  'executive.trend': 'Tendencia: {location}',
+  'executive.associatedIndicators': 'Indicadores por Asociado',
+  'executive.notInformed': 'No informado',
+  'executive.others': 'Otros',
+  'executiveMenu.title': 'Indicadores Ejecutivos',
+  'executiveMenu.consolidated': 'Visión Consolidada',
+  'executiveMenu.topCategories': 'Top 5 Categorías',
+  'executiveMenu.topCategoriesDescription': 'Principales categorías',
+  'executiveMenu.topLocations': 'Top 5 Ubicaciones',
+  'executiveMenu.topLocationsDescription': 'Principales ubicaciones',
+  'executiveMenu.monthlySummary': 'Resumen Mensual',
+  'executiveMenu.monthlySummaryDescription': 'Resumen del mes',
+  'executiveMenu.monthlyLocationDescription': 'Resumen mensual por ubicación',
+  'executiveMenu.predictiveDescription': 'Previsiones e insights',
+
+  'dataset.title': 'Biblioteca de Conjuntos de Datos',
+  'dataset.subtitle': 'Conjuntos guardados en este navegador',
+  'dataset.loading': 'Cargando...',
+  'dataset.empty': 'No hay conjuntos guardados. Importe sus archivos abajo para crear el primero.',
+  'dataset.saveName': 'Guardar nombre',
+  'dataset.cancel': 'Cancelar',
+  'dataset.default': 'Predeterminado',
+  'dataset.inUse': 'En uso',
+  'dataset.noFile': 'Archivo no informado',
+  'dataset.importedAt': 'Importado el {date} • {incidents} incidentes • {requests} solicitudes',
+  'dataset.confirmDelete': '¿Eliminar conjunto?',
+  'dataset.delete': 'Eliminar',
+  'dataset.open': 'Abrir',
+  'dataset.rename': 'Renombrar',
+  'dataset.unsetDefault': 'Quitar como predeterminado',
+  'dataset.setDefault': 'Definir como predeterminado',
+  'dataset.newTitle': 'Nuevo conjunto de datos',
+  'dataset.ready': '{incidents} incidentes y {requests} solicitudes listos para el análisis',
+  'dataset.namePlaceholder': 'Nombre del conjunto',
+  'dataset.openWithoutSaving': 'Abrir sin guardar',
+  'dataset.saveAndOpen': 'Guardar y abrir',
+  'dataset.unnamed': 'Conjunto sin nombre',
+  'dataset.unsaved': 'Conjunto no guardado',
+  'dataset.error.list': 'Error al cargar los conjuntos de datos',
+  'dataset.error.notFound': 'Conjunto de datos no encontrado',
+  'dataset.error.open': 'Error al abrir el conjunto de datos',
+  'dataset.error.rename': 'Error al renombrar el conjunto de datos',
+  'dataset.error.delete': 'Error al eliminar el conjunto de datos',
+  'dataset.error.save': 'Error al guardar el conjunto de datos',
+  'storage.error.unavailable': 'IndexedDB no está disponible en este navegador',
+  'storage.error.open': 'Error al abrir la base de datos local',
+  'storage.error.access': 'Error al acceder a la base de datos local',
+  'storage.error.aborted': 'Operación en la base de datos local cancelada',
+
+  'ai.answerLanguage':
+    'Responde siempre en español. Cuando la respuesta sea JSON, mantén los nombres de los campos exactamente como se piden y escribe solo los textos en español.',
+
+  'auth.appName': 'Panel de Operaciones de TI',
+  'auth.prodDescription':
+    'Plataforma con IA nativa para monitorear y analizar incidentes de TI en tiempo real, generar dashboards interactivos, identificar patrones automáticamente y realizar análisis de causa raíz accionables.',
+  'auth.description':
+    'Sistema integrado para el monitoreo y análisis de incidentes y solicitudes de TI. Visualice métricas, tendencias e indicadores clave de rendimiento.',
+  'auth.username': 'Usuario',
+  'auth.usernamePlaceholder': 'Ingrese su nombre de usuario',
+  'auth.password': 'Contraseña',
+  'auth.passwordPlaceholder': 'Ingrese su contraseña',
+  'auth.rememberMe': 'Recordarme',
+  'auth.signIn': 'Ingresar',
+  'auth.invalidCredentials': 'Credenciales inválidas',
+  'auth.copyright': '© 2025 OnSet Tecnologia. Todos los derechos reservados.'
+};
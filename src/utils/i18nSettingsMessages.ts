@@ -0,0 +1,848 @@
+// Mensagens das telas de configuração: políticas de SLA, calendários de
+// atendimento, pausas, diretório de localidades, regras e filas de suporte.
+export const SETTINGS_PT_BR = {
+  // Políticas de SLA
+  'slaPolicy.title': 'Políticas de SLA',
+  'slaPolicy.subtitle':
+    'Metas por prioridade em horas cobertas pelo calendário; a política mais específica que casar com o chamado é aplicada em todas as telas',
+  'slaPolicy.incidents': 'Incidentes',
+  'slaPolicy.requests': 'Requests',
+  'slaPolicy.calendars': 'Calendários',
+  'slaPolicy.pauses': 'Pausas',
+  'slaPolicy.default': 'Padrão',
+  'slaPolicy.new': 'Nova política',
+  'slaPolicy.name': 'Nome',
+  'slaPolicy.location': 'Localidade',
+  'slaPolicy.category': 'Categoria',
+  'slaPolicy.catalogItem': 'Item de catálogo',
+  'slaPolicy.calendar': 'Calendário',
+  'slaPolicy.locationCalendar': 'Calendário da localidade (ou 24x7)',
+  'slaPolicy.targets': 'Metas em horas',
+  'slaPolicy.targetsFallback': ' (em branco usa a política padrão)',
+  'slaPolicy.reset': 'Restaurar valores padrão',
+  'slaPolicy.delete': 'Excluir',
+  'slaPolicy.save': 'Salvar',
+  'slaPolicy.empty':
+    'Selecione uma política para editar ou crie uma nova para uma localidade, categoria ou item de catálogo específico.',
+  'slaPolicy.scopeLocation': 'Localidade: {value}',
+  'slaPolicy.scopeCategory': 'Categoria: {value}',
+  'slaPolicy.scopeItem': 'Item: {value}',
+  'slaPolicy.scopeAll': 'Todos os chamados',
+  'slaPolicy.error.name': 'Informe um nome para a política',
+  'slaPolicy.error.scope': 'Informe ao menos um critério (localidade, categoria ou item de catálogo)',
+  'slaPolicy.error.target': 'Meta inválida para {priority}',
+  'slaPolicy.error.defaultTargets': 'A política padrão precisa de meta para todas as prioridades',
+  'slaPolicy.defaultName.incidents': 'Padrão - Incidentes',
+  'slaPolicy.defaultName.requests': 'Padrão - Requests',
+  'slaPolicy.priority.P1': 'P1',
+  'slaPolicy.priority.P2': 'P2',
+  'slaPolicy.priority.P3': 'P3',
+  'slaPolicy.priority.P4': 'P4',
+  'slaPolicy.priority.HIGH': 'Alta',
+  'slaPolicy.priority.MEDIUM': 'Média',
+  'slaPolicy.priority.LOW': 'Baixa',
+
+  // Calendários de atendimento
+  'calendar.default': 'Padrão',
+  'calendar.allDay': '24 horas, todos os dias',
+  'calendar.nationalHolidays': 'feriados nacionais',
+  'calendar.stateHolidays': 'feriados nacionais e de {state}',
+  'calendar.locations': 'Localidades: {locations}',
+  'calendar.new': 'Novo calendário',
+  'calendar.builtIn':
+    'O calendário 24x7 é usado quando nem a política nem a localidade do chamado definem um calendário e não pode ser alterado.',
+  'calendar.name': 'Nome',
+  'calendar.schedule': 'Escala',
+  'calendar.business': '5x2 (horário comercial)',
+  'calendar.state': 'UF (feriados estaduais)',
+  'calendar.nationalOnly': 'Somente nacionais',
+  'calendar.start': 'Início do expediente',
+  'calendar.end': 'Fim do expediente',
+  'calendar.workDays': 'Dias úteis',
+  'calendar.holidays': 'Feriados adicionais (um por linha, dd/MM/aaaa)',
+  'calendar.locationsInput': 'Localidades (separadas por vírgula)',
+  'calendar.delete': 'Excluir',
+  'calendar.save': 'Salvar',
+  'calendar.empty':
+    'Selecione um calendário para editar ou crie um novo. Chamados de localidades vinculadas a um calendário contam apenas as horas de expediente, descontando fins de semana e feriados.',
+  'calendar.error.name': 'Informe um nome para o calendário',
+  'calendar.error.workDays': 'Selecione ao menos um dia útil',
+  'calendar.error.hours': 'Informe um expediente válido',
+  'calendar.error.holiday': 'Feriado inválido: {value}',
+  'calendar.weekDay.sun': 'Dom',
+  'calendar.weekDay.mon': 'Seg',
+  'calendar.weekDay.tue': 'Ter',
+  'calendar.weekDay.wed': 'Qua',
+  'calendar.weekDay.thu': 'Qui',
+  'calendar.weekDay.fri': 'Sex',
+  'calendar.weekDay.sat': 'Sáb',
+
+  // Histórico de estados para pausas de SLA
+  'slaPause.intro':
+    'O tempo em que o chamado ficou em espera (On Hold, Pending, Aguardando) é descontado do SLA líquido. As pausas vêm do histórico de estados importado abaixo; chamados sem histórico usam as entradas datadas dos comentários e notas de trabalho que mencionam a mudança de estado. As telas de SLA exibem o cumprimento líquido e o bruto.',
+  'slaPause.processing': 'Processando planilha...',
+  'slaPause.replace': 'Arraste um novo histórico de estados para substituir o atual',
+  'slaPause.drop': 'Arraste o histórico de estados (XLSX ou CSV) ou clique para selecionar',
+  'slaPause.columns': 'Colunas esperadas: Number, State (novo estado) e Changed at — uma linha por alteração de estado',
+  'slaPause.noChanges': 'Nenhuma alteração de estado válida encontrada na planilha',
+  'slaPause.clearFailed': 'Erro ao limpar o histórico',
+  'slaPause.summary': '{changes} alterações de estado em {tickets} chamados · {pauses} entradas em espera',
+  'slaPause.clear': 'Limpar histórico',
+
+  // Diretório de localidades
+  'locationDirectory.title': 'Diretório de Localidades',
+  'locationDirectory.subtitle': 'Grupos designados agrupados por localidade em todos os painéis',
+  'locationDirectory.reset': 'Restaurar padrão',
+  'locationDirectory.unmapped': '{count} grupo(s) sem localidade no conjunto atual',
+  'locationDirectory.tickets': '{count} chamados',
+  'locationDirectory.add': 'Adicionar',
+  'locationDirectory.map': 'Mapear',
+  'locationDirectory.people': '{count} pessoas',
+  'locationDirectory.new': 'Nova localidade',
+  'locationDirectory.shortName': 'Nome curto',
+  'locationDirectory.patterns': 'Grupos designados (um por linha, * como curinga)',
+  'locationDirectory.region': 'Região',
+  'locationDirectory.state': 'UF',
+  'locationDirectory.noState': 'Não informada',
+  'locationDirectory.timezone': 'Fuso horário',
+  'locationDirectory.headcount': 'Headcount',
+  'locationDirectory.delete': 'Excluir',
+  'locationDirectory.save': 'Salvar',
+  'locationDirectory.empty':
+    'Selecione uma localidade para editar ou crie uma nova. Grupos designados sem localidade aparecem com o nome original nos painéis e são listados acima.',
+  'locationDirectory.error.name': 'Informe o nome curto da localidade',
+  'locationDirectory.error.duplicate': 'Já existe uma localidade chamada {name}',
+  'locationDirectory.error.patterns': 'Informe ao menos um grupo designado',
+  'locationDirectory.error.headcount': 'Headcount inválido',
+
+  // Normalização de categorias
+  'categoryRule.title': 'Normalização de Categorias',
+  'categoryRule.subtitle': 'A primeira regra ativa que casar define a categoria exibida nos painéis',
+  'categoryRule.reset': 'Restaurar padrão',
+  'categoryRule.field': 'Campo',
+  'categoryRule.operator': 'Operador',
+  'categoryRule.pattern': 'Padrão',
+  'categoryRule.category': 'Categoria',
+  'categoryRule.subcategory': 'Subcategoria',
+  'categoryRule.tickets': 'Chamados',
+  'categoryRule.enabled': 'Regra ativa',
+  'categoryRule.keepOriginal': 'Manter original',
+  'categoryRule.moveUp': 'Subir',
+  'categoryRule.moveDown': 'Descer',
+  'categoryRule.delete': 'Excluir regra',
+  'categoryRule.new': 'Nova regra',
+  'categoryRule.preview': 'Prévia',
+  'categoryRule.previewSummary':
+    '{matched} de {total} chamados capturados por regras; {unmatched} mantêm a categoria original.',
+  'categoryRule.activeCount': '{count} regra(s) ativa(s)',
+  'categoryRule.save': 'Salvar',
+  'categoryRule.error.target': 'Informe a categoria de destino de todas as regras ativas',
+  'categoryRule.error.emptyPattern': 'Padrão vazio',
+  'categoryRule.error.invalidRegex': 'Expressão regular inválida',
+  'categoryRule.fieldOption.category': 'Categoria',
+  'categoryRule.fieldOption.subcategory': 'Subcategoria',
+  'categoryRule.fieldOption.shortDescription': 'Descrição curta',
+  'categoryRule.fieldOption.assignmentGroup': 'Grupo designado',
+  'categoryRule.operatorOption.contains': 'contém',
+  'categoryRule.operatorOption.equals': 'é igual a',
+  'categoryRule.operatorOption.startsWith': 'começa com',
+  'categoryRule.operatorOption.regex': 'expressão regular',
+
+  // Regras de atualização (chamados fora de regra)
+  'stalenessRule.title': 'Regras de Atualização',
+  'stalenessRule.subtitle':
+    'Tempo máximo sem atualização por prioridade, estado e localidade; vale a regra mais específica',
+  'stalenessRule.reset': 'Restaurar padrão',
+  'stalenessRule.priority': 'Prioridade',
+  'stalenessRule.state': 'Estado',
+  'stalenessRule.location': 'Localidade',
+  'stalenessRule.maxHours': 'Limite (horas)',
+  'stalenessRule.outOfRule': 'Fora de regra',
+  'stalenessRule.enabled': 'Regra ativa',
+  'stalenessRule.allPriorities': 'Todas',
+  'stalenessRule.allStates': 'Todos',
+  'stalenessRule.allLocations': 'Todas',
+  'stalenessRule.delete': 'Excluir regra',
+  'stalenessRule.new': 'Nova regra',
+  'stalenessRule.previewSummary': '{stale} de {total} chamados fora de regra com estas regras',
+  'stalenessRule.save': 'Salvar',
+  'stalenessRule.error.maxHours': 'Informe um limite maior que zero em todas as regras ativas',
+  'stalenessRule.error.duplicate': 'Há regras ativas com a mesma prioridade, estado e localidade',
+
+  // Modelo de prioridade (matriz Impacto × Urgência)
+  'priorityModel.title': 'Modelo de Prioridade',
+  'priorityModel.subtitle': 'Matriz Impacto × Urgência e prioridades consideradas altas nos painéis',
+  'priorityModel.reset': 'Restaurar padrão',
+  'priorityModel.matrix': 'Matriz',
+  'priorityModel.mismatches': 'Calculada × Registrada',
+  'priorityModel.axes': 'Impacto \\ Urgência',
+  'priorityModel.level': '{value} - {label}',
+  'priorityModel.level.high': 'Alto',
+  'priorityModel.level.medium': 'Médio',
+  'priorityModel.level.low': 'Baixo',
+  'priorityModel.highPriority': 'Alta prioridade',
+  'priorityModel.parsingHint':
+    'A prioridade registrada é lida pelo número no início do valor ("P4 - 1 dia" é P4) ou, sem número, pelo texto (Crítica, Alta, Média, Baixa). Chamados importados sem prioridade recebem a da matriz.',
+  'priorityModel.mismatchSummary':
+    '{withFields} de {total} chamados têm impacto e urgência; {mismatches} com prioridade registrada diferente da matriz',
+  'priorityModel.showingFirst': ' — exibindo os {count} primeiros',
+  'priorityModel.impactUrgency': 'Impacto {impact} · Urgência {urgency}',
+  'priorityModel.recorded': 'Registrada: {value}',
+  'priorityModel.empty': 'vazia',
+  'priorityModel.undefined': 'Não definido',
+  'priorityModel.calculated': 'Calculada pela matriz',
+  'priorityModel.save': 'Salvar',
+
+  // Taxonomia de ativos
+  'taxonomy.title': 'Taxonomia de Ativos',
+  'taxonomy.subtitle':
+    'Palavras-chave procuradas na categoria, subcategoria e descrição curta; um chamado pode ter várias classes',
+  'taxonomy.reset': 'Restaurar padrão',
+  'taxonomy.overlap': 'Sobreposição',
+  'taxonomy.className': 'Nome da classe',
+  'taxonomy.class.hardware': 'Hardware',
+  'taxonomy.class.software': 'Software',
+  'taxonomy.class.network': 'Rede',
+  'taxonomy.class.telephony': 'Telefonia',
+  'taxonomy.class.access': 'Acessos',
+  'taxonomy.threshold': 'Limiar (soma dos pesos)',
+  'taxonomy.keywords': 'Palavras-chave (uma por linha; peso opcional, ex.: notebook:2)',
+  'taxonomy.negativeKeywords': 'Palavras negativas (excluem o chamado desta classe)',
+  'taxonomy.classified': '{count} chamados classificados como {label}.',
+  'taxonomy.alsoClassified': '{count} também classificados como {label}',
+  'taxonomy.overlapHint':
+    'Chamados que receberam as duas classes de cada par; a diagonal mostra o total de cada classe. {multiLabel} chamados têm mais de uma classe e {unclassified} não têm nenhuma.',
+  'taxonomy.error.invalidWeight': 'Peso inválido em {label}: {term}',
+  'taxonomy.error.emptyTerm': '(termo vazio)',
+  'taxonomy.error.threshold': 'Informe um limiar maior que zero para {label}',
+  'taxonomy.preview': '{count} chamados na prévia',
+  'taxonomy.save': 'Salvar',
+
+  // Filas de suporte
+  'queue.title': 'Filas de Suporte',
+  'queue.subtitle': 'Cada chamado entra na primeira fila da lista cujas regras ele atende',
+  'queue.import': 'Importar',
+  'queue.export': 'Exportar',
+  'queue.reset': 'Restaurar padrão',
+  'queue.new': 'Nova fila',
+  'queue.allGroups': 'Todos os grupos',
+  'queue.moveUp': 'Subir',
+  'queue.moveDown': 'Descer',
+  'queue.name': 'Nome',
+  'queue.groups': 'Grupos designados (um por linha, * como curinga; vazio aceita todos)',
+  'queue.categories': 'Categorias (uma por linha; vazio aceita todas)',
+  'queue.icon': 'Ícone',
+  'queue.color': 'Cor',
+  'queue.alwaysVisible': 'Exibir mesmo sem chamados no status selecionado',
+  'queue.delete': 'Excluir fila',
+  'queue.empty': 'Nenhuma fila configurada. Chamados que não casam com nenhuma fila não aparecem nesta análise.',
+  'queue.count': '{count} fila(s)',
+  'queue.save': 'Salvar',
+  'queue.configure': 'Configurar filas',
+  'queue.allCategories': 'Todas as categorias',
+  'queue.category': '{count} categoria',
+  'queue.categoryCount': '{count} categorias',
+  'queue.icon.building': 'Prédio',
+  'queue.icon.phone': 'Telefone',
+  'queue.icon.ticket': 'Ticket',
+  'queue.icon.network': 'Rede',
+  'queue.icon.server': 'Servidor',
+  'queue.icon.users': 'Equipe',
+  'queue.icon.headset': 'Atendimento',
+  'queue.icon.shield': 'Segurança',
+  'queue.color.indigo': 'Índigo',
+  'queue.color.purple': 'Roxo',
+  'queue.color.emerald': 'Verde',
+  'queue.color.orange': 'Laranja',
+  'queue.color.blue': 'Azul',
+  'queue.color.pink': 'Rosa',
+  'queue.color.cyan': 'Ciano',
+  'queue.color.yellow': 'Amarelo',
+  'queue.error.noName': 'Informe o nome da fila',
+  'queue.error.duplicate': 'Já existe uma fila chamada {name}',
+  'queue.error.processFailed': 'Erro ao processar o arquivo',
+  'queue.error.malformed': 'Arquivo de filas inválido: JSON malformado',
+  'queue.error.noQueues': 'Arquivo de filas inválido: nenhuma fila encontrada',
+  'queue.error.unnamed': 'Fila {index} sem nome',
+
+  // Configuração de turnos
+  'shift.title': 'Configuração de Turnos',
+  'shift.location': 'Localidade (vazio = padrão para todas; aceita * como curinga)',
+  'shift.defaultPlaceholder': 'Padrão',
+  'shift.defaultShifts': 'Turnos padrão, usados pelas localidades sem configuração própria',
+  'shift.ownShifts': 'Turnos próprios de {location}',
+  'shift.inheritsDefault': '{location} usa os turnos padrão; salve para criar turnos próprios',
+  'shift.restore': 'Restaurar',
+  'shift.remove': 'Remover',
+  'shift.errorTitle': 'Erro na Configuração',
+  'shift.start': 'Início do Turno',
+  'shift.end': 'Fim do Turno',
+  'shift.cancel': 'Cancelar',
+  'shift.save': 'Salvar Alterações',
+  'shift.error.overlap': 'Os turnos não podem se sobrepor',
+  'shift.error.coverage': 'Os turnos devem cobrir todas as 24 horas do dia',
+  'shift.name.MORNING': 'Manhã',
+  'shift.name.AFTERNOON': 'Tarde',
+  'shift.name.NIGHT': 'Noite',
+  'shift.level.N1': 'N1 - Suporte Local',
+  'shift.level.N2': 'N2 - Infraestrutura',
+  'shift.level.N3': 'N3 - Especialista'
+};
+
+export const SETTINGS_EN_US: Record<keyof typeof SETTINGS_PT_BR, string> = {
+  'slaPolicy.title': 'SLA Policies',
+  'slaPolicy.subtitle':
+    'Targets per priority in hours covered by the calendar; the most specific policy matching the ticket applies on every screen',
+  'slaPolicy.incidents': 'Incidents',
+  'slaPolicy.requests': 'Requests',
+  'slaPolicy.calendars': 'Calendars',
+  'slaPolicy.pauses': 'Pauses',
+  'slaPolicy.default': 'Default',
+  'slaPolicy.new': 'New policy',
+  'slaPolicy.name': 'Name',
+  'slaPolicy.location': 'Location',
+  'slaPolicy.category': 'Category',
+  'slaPolicy.catalogItem': 'Catalog item',
+  'slaPolicy.calendar': 'Calendar',
+  'slaPolicy.locationCalendar': 'Location calendar (or 24x7)',
+  'slaPolicy.targets': 'Targets in hours',
+  'slaPolicy.targetsFallback': ' (blank uses the default policy)',
+  'slaPolicy.reset': 'Restore default values',
+  'slaPolicy.delete': 'Delete',
+  'slaPolicy.save': 'Save',
+  'slaPolicy.empty': 'Select a policy to edit or create a new one for a specific location, category or catalog item.',
+  'slaPolicy.scopeLocation': 'Location: {value}',
+  'slaPolicy.scopeCategory': 'Category: {value}',
+  'slaPolicy.scopeItem': 'Item: {value}',
+  'slaPolicy.scopeAll': 'All tickets',
+  'slaPolicy.error.name': 'Enter a name for the policy',
+  'slaPolicy.error.scope': 'Enter at least one criterion (location, category or catalog item)',
+  'slaPolicy.error.target': 'Invalid target for {priority}',
+  'slaPolicy.error.defaultTargets': 'The default policy needs a target for every priority',
+  'slaPolicy.defaultName.incidents': 'Default - Incidents',
+  'slaPolicy.defaultName.requests': 'Default - Requests',
+  'slaPolicy.priority.P1': 'P1',
+  'slaPolicy.priority.P2': 'P2',
+  'slaPolicy.priority.P3': 'P3',
+  'slaPolicy.priority.P4': 'P4',
+  'slaPolicy.priority.HIGH': 'High',
+  'slaPolicy.priority.MEDIUM': 'Medium',
+  'slaPolicy.priority.LOW': 'Low',
+
+  'calendar.default': 'Default',
+  'calendar.allDay': '24 hours, every day',
+  'calendar.nationalHolidays': 'national holidays',
+  'calendar.stateHolidays': 'national and {state} holidays',
+  'calendar.locations': 'Locations: {locations}',
+  'calendar.new': 'New calendar',
+  'calendar.builtIn':
+    'The 24x7 calendar is used when neither the policy nor the ticket location define a calendar, and it cannot be changed.',
+  'calendar.name': 'Name',
+  'calendar.schedule': 'Schedule',
+  'calendar.business': '5x2 (business hours)',
+  'calendar.state': 'State (state holidays)',
+  'calendar.nationalOnly': 'National only',
+  'calendar.start': 'Workday start',
+  'calendar.end': 'Workday end',
+  'calendar.workDays': 'Working days',
+  'calendar.holidays': 'Additional holidays (one per line, dd/MM/yyyy)',
+  'calendar.locationsInput': 'Locations (comma-separated)',
+  'calendar.delete': 'Delete',
+  'calendar.save': 'Save',
+  'calendar.empty':
+    'Select a calendar to edit or create a new one. Tickets from locations linked to a calendar count only working hours, excluding weekends and holidays.',
+  'calendar.error.name': 'Enter a name for the calendar',
+  'calendar.error.workDays': 'Select at least one working day',
+  'calendar.error.hours': 'Enter valid working hours',
+  'calendar.error.holiday': 'Invalid holiday: {value}',
+  'calendar.weekDay.sun': 'Sun',
+  'calendar.weekDay.mon': 'Mon',
+  'calendar.weekDay.tue': 'Tue',
+  'calendar.weekDay.wed': 'Wed',
+  'calendar.weekDay.thu': 'Thu',
+  'calendar.weekDay.fri': 'Fri',
+  'calendar.weekDay.sat': 'Sat',
+
+  'slaPause.intro':
+    'Time a ticket spent on hold (On Hold, Pending, Awaiting) is excluded from the net SLA. Pauses come from the state history imported below; tickets without history use the dated comment and work note entries that mention the state change. SLA screens show both net and gross compliance.',
+  'slaPause.processing': 'Processing spreadsheet...',
+  'slaPause.replace': 'Drop a new state history to replace the current one',
+  'slaPause.drop': 'Drop the state history (XLSX or CSV) or click to select',
+  'slaPause.columns': 'Expected columns: Number, State (new state) and Changed at — one row per state change',
+  'slaPause.noChanges': 'No valid state changes found in the spreadsheet',
+  'slaPause.clearFailed': 'Error clearing the history',
+  'slaPause.summary': '{changes} state changes across {tickets} tickets · {pauses} on-hold entries',
+  'slaPause.clear': 'Clear history',
+
+  'locationDirectory.title': 'Location Directory',
+  'locationDirectory.subtitle': 'Assignment groups grouped by location across all dashboards',
+  'locationDirectory.reset': 'Restore defaults',
+  'locationDirectory.unmapped': '{count} group(s) without a location in the current dataset',
+  'locationDirectory.tickets': '{count} tickets',
+  'locationDirectory.add': 'Add',
+  'locationDirectory.map': 'Map',
+  'locationDirectory.people': '{count} people',
+  'locationDirectory.new': 'New location',
+  'locationDirectory.shortName': 'Short name',
+  'locationDirectory.patterns': 'Assignment groups (one per line, * as wildcard)',
+  'locationDirectory.region': 'Region',
+  'locationDirectory.state': 'State',
+  'locationDirectory.noState': 'Not set',
+  'locationDirectory.timezone': 'Time zone',
+  'locationDirectory.headcount': 'Headcount',
+  'locationDirectory.delete': 'Delete',
+  'locationDirectory.save': 'Save',
+  'locationDirectory.empty':
+    'Select a location to edit or create a new one. Assignment groups without a location show their original name on the dashboards and are listed above.',
+  'locationDirectory.error.name': 'Enter the location short name',
+  'locationDirectory.error.duplicate': 'A location named {name} already exists',
+  'locationDirectory.error.patterns': 'Enter at least one assignment group',
+  'locationDirectory.error.headcount': 'Invalid headcount',
+
+  'categoryRule.title': 'Category Normalization',
+  'categoryRule.subtitle': 'The first active rule that matches sets the category shown on the dashboards',
+  'categoryRule.reset': 'Restore defaults',
+  'categoryRule.field': 'Field',
+  'categoryRule.operator': 'Operator',
+  'categoryRule.pattern': 'Pattern',
+  'categoryRule.category': 'Category',
+  'categoryRule.subcategory': 'Subcategory',
+  'categoryRule.tickets': 'Tickets',
+  'categoryRule.enabled': 'Active rule',
+  'categoryRule.keepOriginal': 'Keep original',
+  'categoryRule.moveUp': 'Move up',
+  'categoryRule.moveDown': 'Move down',
+  'categoryRule.delete': 'Delete rule',
+  'categoryRule.new': 'New rule',
+  'categoryRule.preview': 'Preview',
+  'categoryRule.previewSummary':
+    '{matched} of {total} tickets captured by rules; {unmatched} keep their original category.',
+  'categoryRule.activeCount': '{count} active rule(s)',
+  'categoryRule.save': 'Save',
+  'categoryRule.error.target': 'Enter the target category for every active rule',
+  'categoryRule.error.emptyPattern': 'Empty pattern',
+  'categoryRule.error.invalidRegex': 'Invalid regular expression',
+  'categoryRule.fieldOption.category': 'Category',
+  'categoryRule.fieldOption.subcategory': 'Subcategory',
+  'categoryRule.fieldOption.shortDescription': 'Short description',
+  'categoryRule.fieldOption.assignmentGroup': 'Assignment group',
+  'categoryRule.operatorOption.contains': 'contains',
+  'categoryRule.operatorOption.equals': 'equals',
+  'categoryRule.operatorOption.startsWith': 'starts with',
+  'categoryRule.operatorOption.regex': 'regular expression',
+
+  'stalenessRule.title': 'Update Rules',
+  'stalenessRule.subtitle':
+    'Maximum time without update by priority, state and location; the most specific rule applies',
+  'stalenessRule.reset': 'Restore defaults',
+  'stalenessRule.priority': 'Priority',
+  'stalenessRule.state': 'State',
+  'stalenessRule.location': 'Location',
+  'stalenessRule.maxHours': 'Limit (hours)',
+  'stalenessRule.outOfRule': 'Out of rule',
+  'stalenessRule.enabled': 'Active rule',
+  'stalenessRule.allPriorities': 'All',
+  'stalenessRule.allStates': 'All',
+  'stalenessRule.allLocations': 'All',
+  'stalenessRule.delete': 'Delete rule',
+  'stalenessRule.new': 'New rule',
+  'stalenessRule.previewSummary': '{stale} of {total} tickets out of rule with these rules',
+  'stalenessRule.save': 'Save',
+  'stalenessRule.error.maxHours': 'Enter a limit greater than zero on every active rule',
+  'stalenessRule.error.duplicate': 'There are active rules with the same priority, state and location',
+
+  'priorityModel.title': 'Priority Model',
+  'priorityModel.subtitle': 'Impact × Urgency matrix and the priorities treated as high on the dashboards',
+  'priorityModel.reset': 'Restore defaults',
+  'priorityModel.matrix': 'Matrix',
+  'priorityModel.mismatches': 'Calculated × Recorded',
+  'priorityModel.axes': 'Impact \\ Urgency',
+  'priorityModel.level': '{value} - {label}',
+  'priorityModel.level.high': 'High',
+  'priorityModel.level.medium': 'Medium',
+  'priorityModel.level.low': 'Low',
+  'priorityModel.highPriority': 'High priority',
+  'priorityModel.parsingHint':
+    'The recorded priority is read from the number at the start of the value ("P4 - 1 day" is P4) or, without a number, from the text (Critical, High, Medium, Low). Tickets imported without a priority get the one from the matrix.',
+  'priorityModel.mismatchSummary':
+    '{withFields} of {total} tickets have impact and urgency; {mismatches} with a recorded priority different from the matrix',
+  'priorityModel.showingFirst': ' — showing the first {count}',
+  'priorityModel.impactUrgency': 'Impact {impact} · Urgency {urgency}',
+  'priorityModel.recorded': 'Recorded: {value}',
+  'priorityModel.empty': 'empty',
+  'priorityModel.undefined': 'Not defined',
+  'priorityModel.calculated': 'Calculated by the matrix',
+  'priorityModel.save': 'Save',
+
+  'taxonomy.title': 'Asset Taxonomy',
+  'taxonomy.subtitle':
+    'Keywords searched in the category, subcategory and short description; a ticket can have several classes',
+  'taxonomy.reset': 'Restore defaults',
+  'taxonomy.overlap': 'Overlap',
+  'taxonomy.className': 'Class name',
+  'taxonomy.class.hardware': 'Hardware',
+  'taxonomy.class.software': 'Software',
+  'taxonomy.class.network': 'Network',
+  'taxonomy.class.telephony': 'Telephony',
+  'taxonomy.class.access': 'Access',
+  'taxonomy.threshold': 'Threshold (sum of weights)',
+  'taxonomy.keywords': 'Keywords (one per line; optional weight, e.g. notebook:2)',
+  'taxonomy.negativeKeywords': 'Negative keywords (exclude the ticket from this class)',
+  'taxonomy.classified': '{count} tickets classified as {label}.',
+  'taxonomy.alsoClassified': '{count} also classified as {label}',
+  'taxonomy.overlapHint':
+    'Tickets that received both classes of each pair; the diagonal shows the total for each class. {multiLabel} tickets have more than one class and {unclassified} have none.',
+  'taxonomy.error.invalidWeight': 'Invalid weight in {label}: {term}',
+  'taxonomy.error.emptyTerm': '(empty term)',
+  'taxonomy.error.threshold': 'Enter a threshold greater than zero for {label}',
+  'taxonomy.preview': '{count} tickets in the preview',
+  'taxonomy.save': 'Save',
+
+  'queue.title': 'Support Queues',
+  'queue.subtitle': 'Each ticket goes to the first queue in the list whose rules it matches',
+  'queue.import': 'Import',
+  'queue.export': 'Export',
+  'queue.reset': 'Restore defaults',
+  'queue.new': 'New queue',
+  'queue.allGroups': 'All groups',
+  'queue.moveUp': 'Move up',
+  'queue.moveDown': 'Move down',
+  'queue.name': 'Name',
+  'queue.groups': 'Assignment groups (one per line, * as wildcard; empty accepts all)',
+  'queue.categories': 'Categories (one per line; empty accepts all)',
+  'queue.icon': 'Icon',
+  'queue.color': 'Color',
+  'queue.alwaysVisible': 'Show even without tickets in the selected status',
+  'queue.delete': 'Delete queue',
+  'queue.empty': 'No queues configured. Tickets that match no queue do not appear in this analysis.',
+  'queue.count': '{count} queue(s)',
+  'queue.save': 'Save',
+  'queue.configure': 'Configure queues',
+  'queue.allCategories': 'All categories',
+  'queue.category': '{count} category',
+  'queue.categoryCount': '{count} categories',
+  'queue.icon.building': 'Building',
+  'queue.icon.phone': 'Phone',
+  'queue.icon.ticket': 'Ticket',
+  'queue.icon.network': 'Network',
+  'queue.icon.server': 'Server',
+  'queue.icon.users': 'Team',
+  'queue.icon.headset': 'Service desk',
+  'queue.icon.shield': 'Security',
+  'queue.color.indigo': 'Indigo',
+  'queue.color.purple': 'Purple',
+  'queue.color.emerald': 'Green',
+  'queue.color.orange': 'Orange',
+  'queue.color.blue': 'Blue',
+  'queue.color.pink': 'Pink',
+  'queue.color.cyan': 'Cyan',
+  'queue.color.yellow': 'Yellow',
+  'queue.error.noName': 'Enter the queue name',
+  'queue.error.duplicate': 'A queue named {name} already exists',
+  'queue.error.processFailed': 'Error processing the file',
+  'queue.error.malformed': 'Invalid queue file: malformed JSON',
+  'queue.error.noQueues': 'Invalid queue file: no queues found',
+  'queue.error.unnamed': 'Queue {index} has no name',
+
+  'shift.title': 'Shift Configuration',
+  'shift.location': 'Location (empty = default for all; accepts * as wildcard)',
+  'shift.defaultPlaceholder': 'Default',
+  'shift.defaultShifts': 'Default shifts, used by locations without their own configuration',
+  'shift.ownShifts': 'Own shifts for {location}',
+  'shift.inheritsDefault': '{location} uses the default shifts; save to create its own shifts',
+  'shift.restore': 'Restore',
+  'shift.remove': 'Remove',
+  'shift.errorTitle': 'Configuration Error',
+  'shift.start': 'Shift Start',
+  'shift.end': 'Shift End',
+  'shift.cancel': 'Cancel',
+  'shift.save': 'Save Changes',
+  'shift.error.overlap': 'Shifts cannot overlap',
+  'shift.error.coverage': 'Shifts must cover all 24 hours of the day',
+  'shift.name.MORNING': 'Morning',
+  'shift.name.AFTERNOON': 'Afternoon',
+  'shift.name.NIGHT': 'Night',
+  'shift.level.N1': 'N1 - Local Support',
+  'shift.level.N2': 'N2 - Infrastructure',
+  'shift.level.N3': 'N3 - Specialist'
+};
+
+export const SETTINGS_ES_ES: Record<keyof typeof SETTINGS_PT_BR, string> = {
+  'slaPolicy.title': 'Políticas de SLA',
+  'slaPolicy.subtitle':
+    'Metas por prioridad en horas cubiertas por el calendario; la política más específica que coincida con el ticket se aplica en todas las pantallas',
+  'slaPolicy.incidents': 'Incidentes',
+  'slaPolicy.requests': 'Solicitudes',
+  'slaPolicy.calendars': 'Calendarios',
+  'slaPolicy.pauses': 'Pausas',
+  'slaPolicy.default': 'Predeterminada',
+  'slaPolicy.new': 'Nueva política',
+  'slaPolicy.name': 'Nombre',
+  'slaPolicy.location': 'Ubicación',
+  'slaPolicy.category': 'Categoría',
+  'slaPolicy.catalogItem': 'Ítem de catálogo',
+  'slaPolicy.calendar': 'Calendario',
+  'slaPolicy.locationCalendar': 'Calendario de la ubicación (o 24x7)',
+  'slaPolicy.targets': 'Metas en horas',
+  'slaPolicy.targetsFallback': ' (en blanco usa la política predeterminada)',
+  'slaPolicy.reset': 'Restaurar valores predeterminados',
+  'slaPolicy.delete': 'Eliminar',
+  'slaPolicy.save': 'Guardar',
+  'slaPolicy.empty':
+    'Seleccione una política para editar o cree una nueva para una ubicación, categoría o ítem de catálogo específico.',
+  'slaPolicy.scopeLocation': 'Ubicación: {value}',
+  'slaPolicy.scopeCategory': 'Categoría: {value}',
+  'slaPolicy.scopeItem': 'Ítem: {value}',
+  'slaPolicy.scopeAll': 'Todos los tickets',
+  'slaPolicy.error.name': 'Indique un nombre para la política',
+  'slaPolicy.error.scope': 'Indique al menos un criterio (ubicación, categoría o ítem de catálogo)',
+  'slaPolicy.error.target': 'Meta no válida para {priority}',
+  'slaPolicy.error.defaultTargets': 'La política predeterminada necesita una meta para todas las prioridades',
+  'slaPolicy.defaultName.incidents': 'Predeterminada - Incidentes',
+  'slaPolicy.defaultName.requests': 'Predeterminada - Solicitudes',
+  'slaPolicy.priority.P1': 'P1',
+  'slaPolicy.priority.P2': 'P2',
+  'slaPolicy.priority.P3': 'P3',
+  'slaPolicy.priority.P4': 'P4',
+  'slaPolicy.priority.HIGH': 'Alta',
+  'slaPolicy.priority.MEDIUM': 'Media',
+  'slaPolicy.priority.LOW': 'Baja',
+
+  'calendar.default': 'Predeterminado',
+  'calendar.allDay': '24 horas, todos los días',
+  'calendar.nationalHolidays': 'feriados nacionales',
+  'calendar.stateHolidays': 'feriados nacionales y de {state}',
+  'calendar.locations': 'Ubicaciones: {locations}',
+  'calendar.new': 'Nuevo calendario',
+  'calendar.builtIn':
+    'El calendario 24x7 se usa cuando ni la política ni la ubicación del ticket definen un calendario y no se puede modificar.',
+  'calendar.name': 'Nombre',
+  'calendar.schedule': 'Turno',
+  'calendar.business': '5x2 (horario comercial)',
+  'calendar.state': 'Estado (feriados estatales)',
+  'calendar.nationalOnly': 'Solo nacionales',
+  'calendar.start': 'Inicio de la jornada',
+  'calendar.end': 'Fin de la jornada',
+  'calendar.workDays': 'Días laborables',
+  'calendar.holidays': 'Feriados adicionales (uno por línea, dd/MM/aaaa)',
+  'calendar.locationsInput': 'Ubicaciones (separadas por comas)',
+  'calendar.delete': 'Eliminar',
+  'calendar.save': 'Guardar',
+  'calendar.empty':
+    'Seleccione un calendario para editar o cree uno nuevo. Los tickets de ubicaciones vinculadas a un calendario cuentan solo las horas laborables, descontando fines de semana y feriados.',
+  'calendar.error.name': 'Indique un nombre para el calendario',
+  'calendar.error.workDays': 'Seleccione al menos un día laborable',
+  'calendar.error.hours': 'Indique una jornada válida',
+  'calendar.error.holiday': 'Feriado no válido: {value}',
+  'calendar.weekDay.sun': 'Dom',
+  'calendar.weekDay.mon': 'Lun',
+  'calendar.weekDay.tue': 'Mar',
+  'calendar.weekDay.wed': 'Mié',
+  'calendar.weekDay.thu': 'Jue',
+  'calendar.weekDay.fri': 'Vie',
+  'calendar.weekDay.sat': 'Sáb',
+
+  'slaPause.intro':
+    'El tiempo en que el ticket estuvo en espera (On Hold, Pending, En espera) se descuenta del SLA neto. Las pausas provienen del historial de estados importado abajo; los tickets sin historial usan las entradas fechadas de comentarios y notas de trabajo que mencionan el cambio de estado. Las pantallas de SLA muestran el cumplimiento neto y el bruto.',
+  'slaPause.processing': 'Procesando hoja de cálculo...',
+  'slaPause.replace': 'Arrastre un nuevo historial de estados para reemplazar el actual',
+  'slaPause.drop': 'Arrastre el historial de estados (XLSX o CSV) o haga clic para seleccionar',
+  'slaPause.columns': 'Columnas esperadas: Number, State (nuevo estado) y Changed at — una fila por cambio de estado',
+  'slaPause.noChanges': 'No se encontraron cambios de estado válidos en la hoja de cálculo',
+  'slaPause.clearFailed': 'Error al limpiar el historial',
+  'slaPause.summary': '{changes} cambios de estado en {tickets} tickets · {pauses} entradas en espera',
+  'slaPause.clear': 'Limpiar historial',
+
+  'locationDirectory.title': 'Directorio de Ubicaciones',
+  'locationDirectory.subtitle': 'Grupos asignados agrupados por ubicación en todos los paneles',
+  'locationDirectory.reset': 'Restaurar predeterminados',
+  'locationDirectory.unmapped': '{count} grupo(s) sin ubicación en el conjunto actual',
+  'locationDirectory.tickets': '{count} tickets',
+  'locationDirectory.add': 'Agregar',
+  'locationDirectory.map': 'Mapear',
+  'locationDirectory.people': '{count} personas',
+  'locationDirectory.new': 'Nueva ubicación',
+  'locationDirectory.shortName': 'Nombre corto',
+  'locationDirectory.patterns': 'Grupos asignados (uno por línea, * como comodín)',
+  'locationDirectory.region': 'Región',
+  'locationDirectory.state': 'Estado',
+  'locationDirectory.noState': 'No informado',
+  'locationDirectory.timezone': 'Zona horaria',
+  'locationDirectory.headcount': 'Plantilla',
+  'locationDirectory.delete': 'Eliminar',
+  'locationDirectory.save': 'Guardar',
+  'locationDirectory.empty':
+    'Seleccione una ubicación para editar o cree una nueva. Los grupos asignados sin ubicación aparecen con el nombre original en los paneles y se listan arriba.',
+  'locationDirectory.error.name': 'Indique el nombre corto de la ubicación',
+  'locationDirectory.error.duplicate': 'Ya existe una ubicación llamada {name}',
+  'locationDirectory.error.patterns': 'Indique al menos un grupo asignado',
+  'locationDirectory.error.headcount': 'Plantilla no válida',
+
+  'categoryRule.title': 'Normalización de Categorías',
+  'categoryRule.subtitle': 'La primera regla activa que coincida define la categoría mostrada en los paneles',
+  'categoryRule.reset': 'Restaurar predeterminados',
+  'categoryRule.field': 'Campo',
+  'categoryRule.operator': 'Operador',
+  'categoryRule.pattern': 'Patrón',
+  'categoryRule.category': 'Categoría',
+  'categoryRule.subcategory': 'Subcategoría',
+  'categoryRule.tickets': 'Tickets',
+  'categoryRule.enabled': 'Regla activa',
+  'categoryRule.keepOriginal': 'Mantener original',
+  'categoryRule.moveUp': 'Subir',
+  'categoryRule.moveDown': 'Bajar',
+  'categoryRule.delete': 'Eliminar regla',
+  'categoryRule.new': 'Nueva regla',
+  'categoryRule.preview': 'Vista previa',
+  'categoryRule.previewSummary':
+    '{matched} de {total} tickets capturados por reglas; {unmatched} mantienen la categoría original.',
+  'categoryRule.activeCount': '{count} regla(s) activa(s)',
+  'categoryRule.save': 'Guardar',
+  'categoryRule.error.target': 'Indique la categoría de destino de todas las reglas activas',
+  'categoryRule.error.emptyPattern': 'Patrón vacío',
+  'categoryRule.error.invalidRegex': 'Expresión regular no válida',
+  'categoryRule.fieldOption.category': 'Categoría',
+  'categoryRule.fieldOption.subcategory': 'Subcategoría',
+  'categoryRule.fieldOption.shortDescription': 'Descripción corta',
+  'categoryRule.fieldOption.assignmentGroup': 'Grupo asignado',
+  'categoryRule.operatorOption.contains': 'contiene',
+  'categoryRule.operatorOption.equals': 'es igual a',
+  'categoryRule.operatorOption.startsWith': 'empieza con',
+  'categoryRule.operatorOption.regex': 'expresión regular',
+
+  'stalenessRule.title': 'Reglas de Actualización',
+  'stalenessRule.subtitle':
+    'Tiempo máximo sin actualización por prioridad, estado y ubicación; se aplica la regla más específica',
+  'stalenessRule.reset': 'Restaurar predeterminados',
+  'stalenessRule.priority': 'Prioridad',
+  'stalenessRule.state': 'Estado',
+  'stalenessRule.location': 'Ubicación',
+  'stalenessRule.maxHours': 'Límite (horas)',
+  'stalenessRule.outOfRule': 'Fuera de regla',
+  'stalenessRule.enabled': 'Regla activa',
+  'stalenessRule.allPriorities': 'Todas',
+  'stalenessRule.allStates': 'Todos',
+  'stalenessRule.allLocations': 'Todas',
+  'stalenessRule.delete': 'Eliminar regla',
+  'stalenessRule.new': 'Nueva regla',
+  'stalenessRule.previewSummary': '{stale} de {total} tickets fuera de regla con estas reglas',
+  'stalenessRule.save': 'Guardar',
+  'stalenessRule.error.maxHours': 'Indique un límite mayor que cero en todas las reglas activas',
+  'stalenessRule.error.duplicate': 'Hay reglas activas con la misma prioridad, estado y ubicación',
+
+  'priorityModel.title': 'Modelo de Prioridad',
+  'priorityModel.subtitle': 'Matriz Impacto × Urgencia y prioridades consideradas altas en los paneles',
+  'priorityModel.reset': 'Restaurar predeterminados',
+  'priorityModel.matrix': 'Matriz',
+  'priorityModel.mismatches': 'Calculada × Registrada',
+  'priorityModel.axes': 'Impacto \\ Urgencia',
+  'priorityModel.level': '{value} - {label}',
+  'priorityModel.level.high': 'Alto',
+  'priorityModel.level.medium': 'Medio',
+  'priorityModel.level.low': 'Bajo',
+  'priorityModel.highPriority': 'Alta prioridad',
+  'priorityModel.parsingHint':
+    'La prioridad registrada se lee por el número al inicio del valor ("P4 - 1 día" es P4) o, sin número, por el texto (Crítica, Alta, Media, Baja). Los tickets importados sin prioridad reciben la de la matriz.',
+  'priorityModel.mismatchSummary':
+    '{withFields} de {total} tickets tienen impacto y urgencia; {mismatches} con prioridad registrada distinta de la matriz',
+  'priorityModel.showingFirst': ' — mostrando los primeros {count}',
+  'priorityModel.impactUrgency': 'Impacto {impact} · Urgencia {urgency}',
+  'priorityModel.recorded': 'Registrada: {value}',
+  'priorityModel.empty': 'vacía',
+  'priorityModel.undefined': 'No definido',
+  'priorityModel.calculated': 'Calculada por la matriz',
+  'priorityModel.save': 'Guardar',
+
+  'taxonomy.title': 'Taxonomía de Activos',
+  'taxonomy.subtitle':
+    'Palabras clave buscadas en la categoría, subcategoría y descripción corta; un ticket puede tener varias clases',
+  'taxonomy.reset': 'Restaurar predeterminados',
+  'taxonomy.overlap': 'Superposición',
+  'taxonomy.className': 'Nombre de la clase',
+  'taxonomy.class.hardware': 'Hardware',
+  'taxonomy.class.software': 'Software',
+  'taxonomy.class.network': 'Red',
+  'taxonomy.class.telephony': 'Telefonía',
+  'taxonomy.class.access': 'Accesos',
+  'taxonomy.threshold': 'Umbral (suma de los pesos)',
+  'taxonomy.keywords': 'Palabras clave (una por línea; peso opcional, ej.: notebook:2)',
+  'taxonomy.negativeKeywords': 'Palabras negativas (excluyen el ticket de esta clase)',
+  'taxonomy.classified': '{count} tickets clasificados como {label}.',
+  'taxonomy.alsoClassified': '{count} también clasificados como {label}',
+  'taxonomy.overlapHint':
+    'Tickets que recibieron las dos clases de cada par; la diagonal muestra el total de cada clase. {multiLabel} tickets tienen más de una clase y {unclassified} no tienen ninguna.',
+  'taxonomy.error.invalidWeight': 'Peso inválido en {label}: {term}',
+  'taxonomy.error.emptyTerm': '(término vacío)',
+  'taxonomy.error.threshold': 'Indique un umbral mayor que cero para {label}',
+  'taxonomy.preview': '{count} tickets en la vista previa',
+  'taxonomy.save': 'Guardar',
+
+  'queue.title': 'Colas de Soporte',
+  'queue.subtitle': 'Cada ticket entra en la primera cola de la lista cuyas reglas cumple',
+  'queue.import': 'Importar',
+  'queue.export': 'Exportar',
+  'queue.reset': 'Restaurar predeterminados',
+  'queue.new': 'Nueva cola',
+  'queue.allGroups': 'Todos los grupos',
+  'queue.moveUp': 'Subir',
+  'queue.moveDown': 'Bajar',
+  'queue.name': 'Nombre',
+  'queue.groups': 'Grupos asignados (uno por línea, * como comodín; vacío acepta todos)',
+  'queue.categories': 'Categorías (una por línea; vacío acepta todas)',
+  'queue.icon': 'Icono',
+  'queue.color': 'Color',
+  'queue.alwaysVisible': 'Mostrar aun sin tickets en el estado seleccionado',
+  'queue.delete': 'Eliminar cola',
+  'queue.empty':
+    'Ninguna cola configurada. Los tickets que no coinciden con ninguna cola no aparecen en este análisis.',
+  'queue.count': '{count} cola(s)',
+  'queue.save': 'Guardar',
+  'queue.configure': 'Configurar colas',
+  'queue.allCategories': 'Todas las categorías',
+  'queue.category': '{count} categoría',
+  'queue.categoryCount': '{count} categorías',
+  'queue.icon.building': 'Edificio',
+  'queue.icon.phone': 'Teléfono',
+  'queue.icon.ticket': 'Ticket',
+  'queue.icon.network': 'Red',
+  'queue.icon.server': 'Servidor',
+  'queue.icon.users': 'Equipo',
+  'queue.icon.headset': 'Atención',
+  'queue.icon.shield': 'Seguridad',
+  'queue.color.indigo': 'Índigo',
+  'queue.color.purple': 'Morado',
+  'queue.color.emerald': 'Verde',
+  'queue.color.orange': 'Naranja',
+  'queue.color.blue': 'Azul',
+  'queue.color.pink': 'Rosa',
+  'queue.color.cyan': 'Cian',
+  'queue.color.yellow': 'Amarillo',
+  'queue.error.noName': 'Indique el nombre de la cola',
+  'queue.error.duplicate': 'Ya existe una cola llamada {name}',
+  'queue.error.processFailed': 'Error al procesar el archivo',
+  'queue.error.malformed': 'Archivo de colas inválido: JSON mal formado',
+  'queue.error.noQueues': 'Archivo de colas inválido: no se encontró ninguna cola',
+  'queue.error.unnamed': 'Cola {index} sin nombre',
+
+  'shift.title': 'Configuración de Turnos',
+  'shift.location': 'Localidad (vacío = predeterminado para todas; acepta * como comodín)',
+  'shift.defaultPlaceholder': 'Predeterminado',
+  'shift.defaultShifts': 'Turnos predeterminados, usados por las localidades sin configuración propia',
+  'shift.ownShifts': 'Turnos propios de {location}',
+  'shift.inheritsDefault': '{location} usa los turnos predeterminados; guarde para crear turnos propios',
+  'shift.restore': 'Restaurar',
+  'shift.remove': 'Eliminar',
+  'shift.errorTitle': 'Error en la Configuración',
+  'shift.start': 'Inicio del Turno',
+  'shift.end': 'Fin del Turno',
+  'shift.cancel': 'Cancelar',
+  'shift.save': 'Guardar Cambios',
+  'shift.error.overlap': 'Los turnos no pueden superponerse',
+  'shift.error.coverage': 'Los turnos deben cubrir las 24 horas del día',
+  'shift.name.MORNING': 'Mañana',
+  'shift.name.AFTERNOON': 'Tarde',
+  'shift.name.NIGHT': 'Noche',
+  'shift.level.N1': 'N1 - Soporte Local',
+  'shift.level.N2': 'N2 - Infraestructura',
+  'shift.level.N3': 'N3 - Especialista'
+};
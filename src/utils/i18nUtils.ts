@@ -0,0 +1,98 @@
+import { format, Locale } from 'date-fns';
+import { enUS, es, ptBR } from 'date-fns/locale';
+import { Language, MessageParams } from '../types/i18n';
+import { EN_US, ES_ES, MessageKey, PT_BR } from './i18nMessages';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+
+const LANGUAGE_STORAGE_KEY = 'ui_language';
+
+export const DEFAULT_LANGUAGE: Language = 'pt-BR';
+
+export const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: 'pt-BR', label: 'Português' },
+  { value: 'en-US', label: 'English' },
+  { value: 'es-ES', label: 'Español' }
+];
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = {
+  'pt-BR': PT_BR,
+  'en-US': EN_US,
+  'es-ES': ES_ES
+};
+
+const DATE_LOCALES: Record<Language, Locale> = {
+  'pt-BR': ptBR,
+  'en-US': enUS,
+  'es-ES': es
+};
+
+let cachedLanguage: Language | null = null;
+
+export const loadLanguage = (): Language => {
+  if (!cachedLanguage) {
+    const stored = loadFromStorage<Language | null>(LANGUAGE_STORAGE_KEY, null);
+    cachedLanguage = stored && stored in CATALOGS ? stored : DEFAULT_LANGUAGE;
+  }
+  return cachedLanguage;
+};
+
+export const saveLanguage = (language: Language): void => {
+  saveToStorage(LANGUAGE_STORAGE_KEY, language);
+  cachedLanguage = language;
+};
+
+// Workers não acessam o localStorage: recebem o idioma da tela na mensagem
+export const setActiveLanguage = (language: Language): void => {
+  cachedLanguage = language;
+};
+
+/**
+ * Mensagem do catálogo no idioma escolhido, com os parâmetros {nome}
+ * substituídos. Chaves sem tradução caem no português.
+ */
+export const t = (key: MessageKey, params?: MessageParams, language: Language = loadLanguage()): string => {
+  const message = CATALOGS[language][key] ?? PT_BR[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+export const getDateLocale = (language: Language = loadLanguage()): Locale => DATE_LOCALES[language];
+
+// Data no padrão do idioma; o formato vem do catálogo ('format.date', 'format.dateTime' ou 'format.dayMonth')
+export const formatLocalizedDate = (
+  date: Date,
+  pattern: 'format.date' | 'format.dateTime' | 'format.dayMonth' = 'format.dateTime',
+  language: Language = loadLanguage()
+): string => format(date, t(pattern, undefined, language), { locale: getDateLocale(language) });
+
+export const formatNumber = (
+  value: number,
+  options?: Intl.NumberFormatOptions,
+  language: Language = loadLanguage()
+): string => new Intl.NumberFormat(language, options).format(value);
+
+// Número com casas decimais fixas, como toFixed, mas com o separador do idioma
+export const formatDecimal = (value: number, digits = 1, language: Language = loadLanguage()): string =>
+  formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits }, language);
+
+// Anexada aos prompts de sistema para que a IA responda no idioma da interface
+export const getAILanguageInstruction = (language: Language = loadLanguage()): string =>
+  t('ai.answerLanguage', undefined, language);
+
+// Cabeçalho de seção ('prompt.section.*') pronto para RegExp; hífen e espaço se equivalem (Causa-Raiz / Causa Raiz)
+export const getSectionHeaderPattern = (key: MessageKey, language: Language = loadLanguage()): string =>
+  t(key, undefined, language)
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[- ]/g, '[- ]?');
+
+// Títulos das seções pedidas nas análises em texto, para preencher os prompts 'prompt.*.user'
+export const getPromptSectionHeaders = (language: Language = loadLanguage()): MessageParams => ({
+  summary: t('prompt.section.summary', undefined, language),
+  methodology: t('prompt.section.methodology', undefined, language),
+  results: t('prompt.section.results', undefined, language),
+  rootCause: t('prompt.section.rootCause', undefined, language),
+  recommendations: t('prompt.section.recommendations', undefined, language),
+  impacts: t('prompt.section.impacts', undefined, language)
+});
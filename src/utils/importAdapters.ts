@@ -0,0 +1,364 @@
+import { ColumnMappingProfile, ImportAdapter, IngestionTarget } from '../types/ingestion';
+
+export const ADAPTER_PROFILE_PREFIX = 'adapter:';
+
+const JIRA_SM: ImportAdapter = {
+  id: 'jira-sm',
+  name: 'Jira Service Management',
+  columns: {
+    incidents: {
+      Number: ['Issue key', 'key'],
+      Opened: ['Created'],
+      ShortDescription: ['Summary'],
+      Caller: ['Reporter'],
+      Priority: ['Priority'],
+      State: ['Status'],
+      Category: ['Component/s', 'components', 'Issue Type', 'issuetype'],
+      AssignmentGroup: ['Custom field (Team)', 'Team'],
+      AssignedTo: ['Assignee'],
+      Updated: ['Updated'],
+      BusinessImpact: ['Custom field (Impact)', 'Impact'],
+      CommentsAndWorkNotes: ['Comment'],
+      Closed: ['Resolved', 'resolutiondate']
+    },
+    requests: {
+      Number: ['Issue key', 'key'],
+      Opened: ['Created'],
+      ShortDescription: ['Summary'],
+      Description: ['Description'],
+      RequestItem: ['Custom field (Request Type)', 'Request Type', 'Issue Type', 'issuetype'],
+      RequestedForName: ['Reporter'],
+      Priority: ['Priority'],
+      State: ['Status'],
+      AssignmentGroup: ['Custom field (Team)', 'Team'],
+      AssignedTo: ['Assignee'],
+      Updated: ['Updated'],
+      CommentsAndWorkNotes: ['Comment']
+    }
+  },
+  states: {
+    incidents: {
+      'open': 'New',
+      'to do': 'New',
+      'waiting for support': 'New',
+      'in progress': 'In Progress',
+      'work in progress': 'In Progress',
+      'escalated': 'In Progress',
+      'waiting for customer': 'On Hold',
+      'pending': 'On Hold',
+      'resolved': 'Resolved',
+      'done': 'Resolved',
+      'completed': 'Resolved',
+      'closed': 'Closed',
+      'canceled': 'Canceled',
+      'cancelled': 'Canceled',
+      'declined': 'Canceled'
+    },
+    requests: {
+      'open': 'Opened',
+      'to do': 'Opened',
+      'waiting for support': 'Opened',
+      'waiting for approval': 'On Hold',
+      'in progress': 'Work in Progress',
+      'work in progress': 'Work in Progress',
+      'escalated': 'Work in Progress',
+      'waiting for customer': 'On Hold',
+      'pending': 'On Hold',
+      'resolved': 'Closed Complete',
+      'done': 'Closed Complete',
+      'completed': 'Closed Complete',
+      'closed': 'Closed Complete',
+      'canceled': 'Closed Skipped',
+      'cancelled': 'Closed Skipped',
+      'declined': 'Closed Incomplete'
+    }
+  },
+  priorities: {
+    'highest': 'P1',
+    'critical': 'P1',
+    'blocker': 'P1',
+    'high': 'P2',
+    'medium': 'P3',
+    'low': 'P4',
+    'lowest': 'P4'
+  },
+  samples: {
+    incidents: '/samples/jira-sm-incidents.csv',
+    requests: '/samples/jira-sm-requests.json'
+  }
+};
+
+const GLPI: ImportAdapter = {
+  id: 'glpi',
+  name: 'GLPI',
+  columns: {
+    incidents: {
+      Number: ['ID'],
+      Opened: ['Data de abertura', 'Opening date'],
+      ShortDescription: ['Título', 'Title'],
+      Caller: ['Requerente - Requerente', 'Requester - Requester'],
+      Priority: ['Prioridade', 'Priority'],
+      State: ['Status'],
+      Category: ['Categoria', 'Category'],
+      AssignmentGroup: ['Atribuído para - Grupo técnico', 'Assigned to - Technician group'],
+      AssignedTo: ['Atribuído para - Técnico', 'Assigned to - Technician'],
+      Updated: ['Última atualização', 'Last update'],
+      Location: ['Localização', 'Location'],
+      Closed: ['Data de solução', 'Resolution date', 'Data de fechamento', 'Closing date']
+    },
+    requests: {
+      Number: ['ID'],
+      Opened: ['Data de abertura', 'Opening date'],
+      ShortDescription: ['Título', 'Title'],
+      Description: ['Descrição', 'Description'],
+      RequestItem: ['Categoria', 'Category'],
+      RequestedForName: ['Requerente - Requerente', 'Requester - Requester'],
+      Priority: ['Prioridade', 'Priority'],
+      State: ['Status'],
+      AssignmentGroup: ['Atribuído para - Grupo técnico', 'Assigned to - Technician group'],
+      AssignedTo: ['Atribuído para - Técnico', 'Assigned to - Technician'],
+      Updated: ['Última atualização', 'Last update']
+    }
+  },
+  states: {
+    incidents: {
+      'novo': 'New',
+      'new': 'New',
+      'processando (atribuído)': 'In Progress',
+      'processing (assigned)': 'In Progress',
+      'processando (planejado)': 'In Progress',
+      'processing (planned)': 'In Progress',
+      'pendente': 'On Hold',
+      'pending': 'On Hold',
+      'solucionado': 'Resolved',
+      'solved': 'Resolved',
+      'fechado': 'Closed',
+      'closed': 'Closed'
+    },
+    requests: {
+      'novo': 'Opened',
+      'new': 'Opened',
+      'processando (atribuído)': 'Assigned',
+      'processing (assigned)': 'Assigned',
+      'processando (planejado)': 'Work in Progress',
+      'processing (planned)': 'Work in Progress',
+      'pendente': 'On Hold',
+      'pending': 'On Hold',
+      'solucionado': 'Closed Complete',
+      'solved': 'Closed Complete',
+      'fechado': 'Closed Complete',
+      'closed': 'Closed Complete'
+    }
+  },
+  priorities: {
+    'altíssima': 'P1',
+    'major': 'P1',
+    'muito alta': 'P1',
+    'very high': 'P1',
+    'alta': 'P2',
+    'high': 'P2',
+    'média': 'P3',
+    'medium': 'P3',
+    'baixa': 'P4',
+    'low': 'P4',
+    'muito baixa': 'P4',
+    'very low': 'P4'
+  },
+  numberPrefix: 'GLPI-',
+  samples: {
+    incidents: '/samples/glpi-incidents.csv',
+    requests: '/samples/glpi-requests.csv'
+  }
+};
+
+const ZENDESK: ImportAdapter = {
+  id: 'zendesk',
+  name: 'Zendesk',
+  columns: {
+    incidents: {
+      Number: ['ID'],
+      Opened: ['Created', 'created_at'],
+      ShortDescription: ['Subject'],
+      Caller: ['Requester', 'requester_id'],
+      Priority: ['Priority'],
+      State: ['Status'],
+      Category: ['Ticket form', 'Form', 'Type'],
+      AssignmentGroup: ['Group', 'group_id'],
+      AssignedTo: ['Assignee', 'assignee_id'],
+      Updated: ['Updated', 'updated_at'],
+      Closed: ['Solved', 'solved_at']
+    },
+    requests: {
+      Number: ['ID'],
+      Opened: ['Created', 'created_at'],
+      ShortDescription: ['Subject'],
+      Description: ['Description'],
+      RequestItem: ['Ticket form', 'Form', 'Type'],
+      RequestedForName: ['Requester', 'requester_id'],
+      Priority: ['Priority'],
+      State: ['Status'],
+      AssignmentGroup: ['Group', 'group_id'],
+      AssignedTo: ['Assignee', 'assignee_id'],
+      Updated: ['Updated', 'updated_at']
+    }
+  },
+  states: {
+    incidents: {
+      'new': 'New',
+      'open': 'In Progress',
+      'pending': 'On Hold',
+      'hold': 'On Hold',
+      'on-hold': 'On Hold',
+      'solved': 'Resolved',
+      'closed': 'Closed'
+    },
+    requests: {
+      'new': 'Opened',
+      'open': 'Work in Progress',
+      'pending': 'On Hold',
+      'hold': 'On Hold',
+      'on-hold': 'On Hold',
+      'solved': 'Closed Complete',
+      'closed': 'Closed Complete'
+    }
+  },
+  priorities: {
+    'urgent': 'P1',
+    'high': 'P2',
+    'normal': 'P3',
+    'low': 'P4'
+  },
+  numberPrefix: 'ZD-',
+  samples: {
+    incidents: '/samples/zendesk-incidents.csv',
+    requests: '/samples/zendesk-requests.json'
+  }
+};
+
+const OTRS: ImportAdapter = {
+  id: 'otrs',
+  name: 'OTRS',
+  columns: {
+    incidents: {
+      Number: ['Ticket#', 'TicketNumber', 'Ticket Number'],
+      Opened: ['Created', 'Criado'],
+      ShortDescription: ['Title', 'Título'],
+      Caller: ['Customer User', 'CustomerUserID', 'Usuário Cliente'],
+      Priority: ['Priority', 'Prioridade'],
+      State: ['State', 'Estado'],
+      Category: ['Service', 'Serviço', 'Type', 'Tipo'],
+      AssignmentGroup: ['Queue', 'Fila'],
+      AssignedTo: ['Owner', 'Proprietário'],
+      Updated: ['Changed', 'Alterado'],
+      Closed: ['Close Time', 'Closed', 'Fechado em']
+    },
+    requests: {
+      Number: ['Ticket#', 'TicketNumber', 'Ticket Number'],
+      Opened: ['Created', 'Criado'],
+      ShortDescription: ['Title', 'Título'],
+      RequestItem: ['Service', 'Serviço', 'Type', 'Tipo'],
+      RequestedForName: ['Customer User', 'CustomerUserID', 'Usuário Cliente'],
+      Priority: ['Priority', 'Prioridade'],
+      State: ['State', 'Estado'],
+      AssignmentGroup: ['Queue', 'Fila'],
+      AssignedTo: ['Owner', 'Proprietário'],
+      Updated: ['Changed', 'Alterado']
+    }
+  },
+  states: {
+    incidents: {
+      'new': 'New',
+      'novo': 'New',
+      'open': 'In Progress',
+      'aberto': 'In Progress',
+      'pending reminder': 'On Hold',
+      'pending auto close+': 'On Hold',
+      'pending auto close-': 'On Hold',
+      'pendente lembrete': 'On Hold',
+      'closed successful': 'Closed',
+      'fechado com êxito': 'Closed',
+      'closed unsuccessful': 'Closed',
+      'fechado sem êxito': 'Closed',
+      'merged': 'Closed',
+      'removed': 'Canceled'
+    },
+    requests: {
+      'new': 'Opened',
+      'novo': 'Opened',
+      'open': 'Work in Progress',
+      'aberto': 'Work in Progress',
+      'pending reminder': 'On Hold',
+      'pending auto close+': 'On Hold',
+      'pending auto close-': 'On Hold',
+      'pendente lembrete': 'On Hold',
+      'closed successful': 'Closed Complete',
+      'fechado com êxito': 'Closed Complete',
+      'closed unsuccessful': 'Closed Incomplete',
+      'fechado sem êxito': 'Closed Incomplete',
+      'merged': 'Closed Skipped',
+      'removed': 'Closed Skipped'
+    }
+  },
+  // No OTRS a escala é invertida: 5 é a prioridade mais alta
+  priorities: {
+    '5 very high': 'P1',
+    '5 muito alta': 'P1',
+    '4 high': 'P2',
+    '4 alta': 'P2',
+    '3 normal': 'P3',
+    '2 low': 'P4',
+    '2 baixa': 'P4',
+    '1 very low': 'P4',
+    '1 muito baixa': 'P4'
+  },
+  numberPrefix: 'OTRS-',
+  samples: {
+    incidents: '/samples/otrs-incidents.csv',
+    requests: '/samples/otrs-requests.csv'
+  }
+};
+
+export const IMPORT_ADAPTERS: ImportAdapter[] = [JIRA_SM, GLPI, ZENDESK, OTRS];
+
+export const getImportAdapter = (id?: string): ImportAdapter | undefined => {
+  return id ? IMPORT_ADAPTERS.find(adapter => adapter.id === id) : undefined;
+};
+
+export const isAdapterProfileId = (id: string): boolean => id.startsWith(ADAPTER_PROFILE_PREFIX);
+
+// Perfis embutidos, somente leitura, exibidos junto aos perfis do usuário
+export const getAdapterProfiles = (target: IngestionTarget): ColumnMappingProfile[] => {
+  return IMPORT_ADAPTERS.map(adapter => ({
+    id: `${ADAPTER_PROFILE_PREFIX}${adapter.id}`,
+    name: adapter.name,
+    target,
+    sourceSystem: adapter.name,
+    columns: adapter.columns[target],
+    adapterId: adapter.id,
+    updatedAt: ''
+  }));
+};
+
+/**
+ * Traduz estado e prioridade do vocabulário da ferramenta de origem para o do
+ * ServiceNow, antes da validação. Valores desconhecidos seguem inalterados e
+ * aparecem como aviso no relatório de qualidade.
+ */
+export const applyImportAdapter = (
+  record: Record<string, string>,
+  target: IngestionTarget,
+  adapterId: string
+): void => {
+  const adapter = getImportAdapter(adapterId);
+  if (!adapter) return;
+
+  if (record.State) {
+    record.State = adapter.states[target][record.State.toLowerCase().trim()] ?? record.State;
+  }
+  if (record.Priority) {
+    record.Priority = adapter.priorities[record.Priority.toLowerCase().trim()] ?? record.Priority;
+  }
+  if (adapter.numberPrefix && record.Number && !record.Number.startsWith(adapter.numberPrefix)) {
+    record.Number = `${adapter.numberPrefix}${record.Number}`;
+  }
+};
@@ -0,0 +1,154 @@
+import { Incident } from '../types/incident';
+import { Request } from '../types/request';
+import {
+  ColumnMappingProfile,
+  DateColumnDetection,
+  ImportProgress,
+  IngestionResult,
+  IngestionTarget,
+  IngestionWorkerRequest,
+  IngestionWorkerResponse,
+  SpreadsheetData
+} from '../types/ingestion';
+import { formatNumber, loadLanguage, t } from './i18nUtils';
+import { MAPPING_PREVIEW_ROWS } from './ingestionUtils';
+import { loadPriorityModel } from './priorityUtils';
+
+export interface ParsedImport {
+  // Apenas as primeiras linhas, para a pré-visualização do mapeamento
+  data: SpreadsheetData;
+  totalRows: number;
+  // Formato de data detectado por coluna, a partir de todas as linhas
+  dateDetections: Record<string, DateColumnDetection>;
+}
+
+export interface ImportSession {
+  parse: (files: File[], onProgress?: (progress: ImportProgress) => void) => Promise<ParsedImport>;
+  process: {
+    (target: 'incidents', profile: ColumnMappingProfile | null, onProgress?: (progress: ImportProgress) => void): Promise<IngestionResult<Incident>>;
+    (target: 'requests', profile: ColumnMappingProfile | null, onProgress?: (progress: ImportProgress) => void): Promise<IngestionResult<Request>>;
+    (target: IngestionTarget, profile: ColumnMappingProfile | null, onProgress?: (progress: ImportProgress) => void): Promise<IngestionResult<Incident | Request>>;
+  };
+  cancel: () => void;
+}
+
+interface PendingRequest {
+  resolve: (response: IngestionWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+const createCancelledError = () => {
+  const error = new Error(t('import.cancelled'));
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isImportCancelled = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+// Cada importação usa um worker próprio; cancelar encerra o worker imediatamente
+export const createImportSession = (): ImportSession => {
+  const worker = new Worker(new URL('../workers/ingestionWorker.ts', import.meta.url), { type: 'module' });
+  let pending: PendingRequest | null = null;
+  let closed = false;
+
+  const settle = (action: (request: PendingRequest) => void) => {
+    const request = pending;
+    pending = null;
+    if (request) action(request);
+  };
+
+  worker.onmessage = (event: MessageEvent<IngestionWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      pending?.onProgress?.(message.progress);
+    } else if (message.type === 'error') {
+      settle(request => request.reject(new Error(message.message)));
+    } else {
+      settle(request => request.resolve(message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    settle(request => request.reject(new Error(event.message || t('import.error.processFailed'))));
+  };
+
+  const send = (request: IngestionWorkerRequest, onProgress?: (progress: ImportProgress) => void) => {
+    return new Promise<IngestionWorkerResponse>((resolve, reject) => {
+      if (closed) {
+        reject(createCancelledError());
+        return;
+      }
+      pending = { resolve, reject, onProgress };
+      worker.postMessage(request);
+    });
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    worker.terminate();
+  };
+
+  const parse: ImportSession['parse'] = async (files, onProgress) => {
+    try {
+      const response = await send({ type: 'parse', files, previewRows: MAPPING_PREVIEW_ROWS, language: loadLanguage() }, onProgress);
+      if (response.type !== 'parsed') {
+        throw new Error(t('import.error.unexpectedResponse'));
+      }
+      return {
+        data: { headers: response.headers, rows: response.previewRows },
+        totalRows: response.totalRows,
+        dateDetections: response.dateDetections
+      };
+    } catch (error) {
+      close();
+      throw error;
+    }
+  };
+
+  const process = async (
+    target: IngestionTarget,
+    profile: ColumnMappingProfile | null,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<IngestionResult<Incident | Request>> => {
+    try {
+      const response = await send({ type: 'process', target, profile, priorityModel: loadPriorityModel(), language: loadLanguage() }, onProgress);
+      if (response.type !== 'processed') {
+        throw new Error(t('import.error.unexpectedResponse'));
+      }
+      return response.result as IngestionResult<Incident | Request>;
+    } finally {
+      close();
+    }
+  };
+
+  return {
+    parse,
+    process: process as ImportSession['process'],
+    cancel: () => {
+      close();
+      settle(request => request.reject(createCancelledError()));
+    }
+  };
+};
+
+export const getImportPercent = (progress: ImportProgress | null): number => {
+  if (!progress || progress.total === 0) return 0;
+  return Math.round((progress.processed / progress.total) * 100);
+};
+
+export const formatImportProgress = (progress: ImportProgress | null): string => {
+  if (!progress) return t('import.progress.processing');
+  if (progress.stage === 'reading') {
+    return t('import.progress.reading', { processed: progress.processed, total: progress.total });
+  }
+  return t('import.progress.rows', {
+    processed: formatNumber(progress.processed),
+    total: formatNumber(progress.total),
+    percent: getImportPercent(progress)
+  });
+};
@@ -1,14 +1,11 @@
-import { format } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { PriorityModel } from '../types/priority';
+import { formatLocalizedDate, t } from './i18nUtils';
+import { MessageKey } from './i18nMessages';
+import { isHighPriorityLevel, loadPriorityModel, parsePriority } from './priorityUtils';
 
+// Prioridade normalizada (P1..P4) pelo modelo único de priorityUtils
 export function normalizePriority(priority: string): string {
-  if (!priority) return 'Não definido';
-  const p = priority.trim().toUpperCase();
-  if (p === 'P1' || p.startsWith('1') || p.includes('CRÍTICO')) return 'P1';
-  if (p === 'P2' || p.startsWith('2') || p.includes('ALTO')) return 'P2';
-  if (p === 'P3' || p.startsWith('3') || p.includes('MÉDIO')) return 'P3';
-  if (p === 'P4' || p.startsWith('4') || p.includes('BAIXO')) return 'P4';
-  return 'Não definido';
+  return parsePriority(priority) ?? 'Não definido';
 }
 
 export function getIncidentState(state: string): string {
@@ -29,41 +26,22 @@ export function getIncidentState(state: string): string {
   }
 }
 
-export const isHighPriority = (priority: string): boolean => {
-  if (!priority) return false;
-  const p = priority.toLowerCase().trim();
-  
-  // P1/Critical
-  if (p === 'p1' || 
-      p === '1' || 
-      p === 'priority 1' || 
-      p === 'critical' || 
-      p === 'crítico' ||
-      p.startsWith('p1 -') ||
-      p.startsWith('p1-') ||
-      p.startsWith('1 -') ||
-      p.startsWith('1-') ||
-      p.includes('critical') ||
-      p.includes('crítico')) {
-    return true;
-  }
-  
-  // P2/High
-  if (p === 'p2' || 
-      p === '2' || 
-      p === 'priority 2' || 
-      p === 'high' || 
-      p === 'alta' ||
-      p.startsWith('p2 -') ||
-      p.startsWith('p2-') ||
-      p.startsWith('2 -') ||
-      p.startsWith('2-') ||
-      p.includes('high priority') ||
-      p.includes('alta prioridade')) {
-    return true;
-  }
+const INCIDENT_STATE_KEYS: Record<string, MessageKey> = {
+  'Aberto': 'incident.state.open',
+  'Em Andamento': 'incident.state.inProgress',
+  'Fechado': 'incident.state.closed'
+};
+
+// getIncidentState devolve as chaves em português usadas nas comparações; este é só o rótulo exibido
+export const getIncidentStateLabel = (state: string): string => {
+  const normalized = getIncidentState(state);
+  const key = INCIDENT_STATE_KEYS[normalized];
+  return key ? t(key) : normalized;
+};
 
-  return false;
+// Alta prioridade conforme as prioridades marcadas no modelo (P1 e P2 por padrão)
+export const isHighPriority = (priority: string, model: PriorityModel = loadPriorityModel()): boolean => {
+  return isHighPriorityLevel(parsePriority(priority), model);
 };
 
 export const isCancelled = (state: string): boolean => {
@@ -85,9 +63,9 @@ export function formatIncidentDate(dateStr: string | undefined | null): string {
   try {
     if (!dateStr) return '-';
     const date = new Date(dateStr);
-    if (!date || isNaN(date.getTime())) return 'Data inválida';
-    return format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+    if (!date || isNaN(date.getTime())) return t('format.invalidDate');
+    return formatLocalizedDate(date);
   } catch (e) {
-    return 'Data inválida';
+    return t('format.invalidDate');
   }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { t } from './i18nUtils';
+
+// Banco local para volumes que não cabem na cota do localStorage
+const DB_NAME = 'it_ops_dashboard';
+// v2: histórico de estados (antes no localStorage)
+const DB_VERSION = 2;
+
+export const DATASETS_STORE = 'datasets';
+export const DATASET_RECORDS_STORE = 'dataset_records';
+export const STATE_HISTORY_STORE = 'state_history';
+
+const STORES = [DATASETS_STORE, DATASET_RECORDS_STORE, STATE_HISTORY_STORE];
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(t('storage.error.unavailable')));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(store => {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error(t('storage.error.open')));
+  });
+};
+
+// Executa uma transação e resolve com o retorno de `run` somente após o commit
+export const withTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => T
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const result = run(transaction);
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error ?? new Error(t('storage.error.access')));
+    };
+    transaction.onabort = () => {
+      db.close();
+      reject(transaction.error ?? new Error(t('storage.error.aborted')));
+    };
+  });
+};
@@ -0,0 +1,506 @@
+import { Incident } from '../types/incident';
+import { Request } from '../types/request';
+import {
+  ColumnMappingProfile,
+  DateColumnSettings,
+  IngestionField,
+  IngestionResult,
+  IngestionTarget,
+  MergeSummary,
+  SpreadsheetData,
+  ValidationError
+} from '../types/ingestion';
+import { PriorityModel } from '../types/priority';
+import { parseImportBuffer } from './fileParsers';
+import { MappedRow, buildDataQualityReport } from './dataQualityUtils';
+import { parseDateToISO } from './dateUtils';
+import { applyImportAdapter } from './importAdapters';
+import { t } from './i18nUtils';
+import { derivePriority, parsePriority } from './priorityUtils';
+
+const COMMENTS_ALIASES = [
+  'Comments and Work notes',
+  'Work notes',
+  'comments_and_work_notes',
+  'work_notes',
+  'Additional comments',
+  'Comments',
+  'Work Notes',
+  'Comentários',
+  'Notas de Trabalho',
+  'Observações',
+  'Notas',
+  'Comentarios',
+  'Notas de trabalho'
+];
+
+export const INCIDENT_FIELDS: IngestionField[] = [
+  { key: 'Number', labelKey: 'field.number', required: true, aliases: ['Number', 'Incident Number', 'ID', 'Reference', 'IncidentNumber', 'number', 'Número', 'Numero', 'Chamado', 'Ticket'] },
+  { key: 'Opened', labelKey: 'field.opened', required: true, aliases: ['Opened', 'Created Date', 'Open Date', 'Start Date', 'Created', 'opened_at', 'sys_created_on', 'Data Abertura', 'Data', 'Data Criação', 'Início'] },
+  { key: 'ShortDescription', labelKey: 'field.description', aliases: ['Short description', 'Description', 'Details', 'Summary', 'short_description', 'Descrição', 'Descricao', 'Resumo', 'C'] },
+  { key: 'Caller', labelKey: 'field.caller', aliases: ['Request item [Catalog Task] Requested for Name', 'Requested for Name', 'Caller', 'Reported By', 'Created By', 'Requestor', 'caller_id', 'Solicitante', 'Usuario', 'Usuário', 'D'] },
+  { key: 'Priority', labelKey: 'field.priority', aliases: ['Priority', 'Incident Priority', 'Prioridade'] },
+  { key: 'Impact', labelKey: 'field.impact', aliases: ['Impact', 'impact', 'Impacto'] },
+  { key: 'Urgency', labelKey: 'field.urgency', aliases: ['Urgency', 'urgency', 'Urgência', 'Urgencia'] },
+  { key: 'State', labelKey: 'field.state', aliases: ['State', 'Status', 'Current State', 'incident_state', 'Estado', 'Situação'] },
+  { key: 'Category', labelKey: 'field.category', aliases: ['Category', 'Incident Category', 'Type', 'Categoria', 'Tipo'] },
+  { key: 'Subcategory', labelKey: 'field.subcategory', aliases: ['Subcategory', 'Sub Category', 'Sub-Category', 'Subcategoria', 'Sub-Categoria'] },
+  { key: 'AssignmentGroup', labelKey: 'field.assignmentGroup', aliases: ['Assignment group', 'Assigned Group', 'assignment_group', 'Team', 'Grupo', 'Grupo Atribuído', 'G'] },
+  { key: 'AssignedTo', labelKey: 'field.assignedTo', aliases: ['Assigned to', 'Assigned To', 'Owner', 'assigned_to', 'Atribuído para', 'Atribuido para', 'Responsável'] },
+  { key: 'Updated', labelKey: 'field.updated', aliases: ['Updated', 'Last Modified Date', 'Modified Date', 'sys_updated_on', 'Data Atualização', 'Última Atualização'] },
+  { key: 'UpdatedBy', labelKey: 'field.updatedBy', aliases: ['Updated by', 'Last Modified By', 'Modified By', 'sys_updated_by', 'Atualizado por', 'Modificado por'] },
+  { key: 'BusinessImpact', labelKey: 'field.businessImpact', aliases: ['Business impact', 'business_impact', 'Impact', 'Severity', 'Impacto', 'Severidade'] },
+  { key: 'ResponseTime', labelKey: 'field.responseTime', aliases: ['Response Time', 'Resolution Time', 'Time to Resolve', 'Tempo Resposta', 'Tempo de Resolução'] },
+  { key: 'Location', labelKey: 'field.location', aliases: ['Location', 'Site', 'Local', 'Localidade', 'Localização'] },
+  { key: 'CommentsAndWorkNotes', labelKey: 'field.comments', aliases: COMMENTS_ALIASES },
+  { key: 'StringAssociado', labelKey: 'field.stringAssociado', sanitize: true, aliases: ['String Associado', 'StringAssociado'] },
+  { key: 'FuncaoAssociada', labelKey: 'field.funcaoAssociada', sanitize: true, aliases: ['Função Associada', 'Funcao Associada', 'FuncaoAssociada'] },
+  { key: 'ConfigurationItem', labelKey: 'field.configurationItem', aliases: ['Configuration item', 'ConfigurationItem', 'cmdb_ci', 'CI', 'Item de Configuração', 'Item de Configuracao'] },
+  { key: 'BusinessService', labelKey: 'field.businessService', aliases: ['Business service', 'BusinessService', 'business_service', 'Serviço de Negócio', 'Servico de Negocio'] },
+  { key: 'Closed', labelKey: 'field.closed', aliases: ['Closed', 'closed_at', 'Resolved', 'resolved_at', 'Data Fechamento', 'Data de Fechamento'] }
+];
+
+export const REQUEST_FIELDS: IngestionField[] = [
+  { key: 'Number', labelKey: 'field.number', required: true, aliases: ['Number', 'Request Number', 'ID', 'Reference', 'RequestNumber', 'number', 'Número', 'Numero', 'Chamado', 'Ticket'] },
+  { key: 'Opened', labelKey: 'field.opened', required: true, aliases: ['Opened', 'Open', 'Created Date', 'Open Date', 'Start Date', 'Created', 'opened_at', 'sys_created_on', 'Data Abertura', 'Data', 'Data Criação', 'Início'] },
+  { key: 'ShortDescription', labelKey: 'field.shortDescription', aliases: ['Short description', 'Summary', 'short_description', 'Resumo', 'Descrição Curta', 'Descricao Curta'] },
+  { key: 'Description', labelKey: 'field.description', aliases: ['Description', 'Details', 'Full Description', 'Descrição', 'Descricao', 'Descrição Completa', 'Descricao Completa'] },
+  { key: 'RequestItem', labelKey: 'field.requestItem', aliases: ['Request item [Catalog Task]', 'Catalog Task', 'request_item', 'cat_item', 'Item Catálogo', 'Item', 'Tipo de Solicitação'] },
+  { key: 'RequestedForName', labelKey: 'field.requestedFor', aliases: ['Requested for Name', 'Requested For', 'requested_for', 'Solicitado Para', 'Solicitante', 'Usuario', 'Usuário'] },
+  { key: 'Priority', labelKey: 'field.priority', aliases: ['Priority', 'Request Priority', 'Prioridade'] },
+  { key: 'Impact', labelKey: 'field.impact', aliases: ['Impact', 'impact', 'Impacto'] },
+  { key: 'Urgency', labelKey: 'field.urgency', aliases: ['Urgency', 'urgency', 'Urgência', 'Urgencia'] },
+  { key: 'State', labelKey: 'field.state', aliases: ['State', 'Status', 'Current State', 'Estado', 'Situação'] },
+  { key: 'AssignmentGroup', labelKey: 'field.assignmentGroup', aliases: ['Assignment group', 'Assigned Group', 'assignment_group', 'Team', 'Grupo', 'Grupo Atribuído', 'Localidade'] },
+  { key: 'AssignedTo', labelKey: 'field.assignedTo', aliases: ['Assigned to', 'Assigned To', 'Owner', 'assigned_to', 'Atribuído para', 'Atribuido para', 'Responsável'] },
+  { key: 'Updated', labelKey: 'field.updated', aliases: ['Updated', 'Last Modified Date', 'Modified Date', 'sys_updated_on', 'Data Atualização', 'Última Atualização'] },
+  { key: 'UpdatedBy', labelKey: 'field.updatedBy', aliases: ['Updated by', 'Last Modified By', 'Modified By', 'sys_updated_by', 'Atualizado por', 'Modificado por'] },
+  { key: 'CommentsAndWorkNotes', labelKey: 'field.comments', aliases: COMMENTS_ALIASES },
+  { key: 'BusinessImpact', labelKey: 'field.businessImpact', aliases: ['Business impact', 'business_impact', 'Impact', 'Severity', 'Impacto', 'Severidade'] }
+];
+
+export const MANUAL_PROFILE_ID = 'manual';
+
+export const getIngestionFields = (target: IngestionTarget): IngestionField[] => {
+  return target === 'incidents' ? INCIDENT_FIELDS : REQUEST_FIELDS;
+};
+
+/**
+ * Colunas do perfil têm precedência; os aliases padrão continuam valendo como
+ * fallback para que um perfil parcial não descarte campos já reconhecidos.
+ * Perfis estritos (ex.: gerados pelo assistente) usam apenas as colunas informadas.
+ */
+export const resolveFieldAliases = (field: IngestionField, profile?: ColumnMappingProfile | null): string[] => {
+  const custom = profile?.columns[field.key]?.filter(Boolean) ?? [];
+  if (profile?.strict) return custom;
+  return [...custom, ...field.aliases.filter(alias => !custom.includes(alias))];
+};
+
+export const findColumnValue = (row: Record<string, unknown>, mappings: string[]): string => {
+  // First try exact match
+  for (const mapping of mappings) {
+    if (row[mapping] !== undefined) {
+      return String(row[mapping] || '').trim();
+    }
+  }
+
+  // Then try case-insensitive match
+  const rowKeys = Object.keys(row);
+  for (const mapping of mappings) {
+    const key = rowKeys.find(k => k.toLowerCase() === mapping.toLowerCase());
+    if (key && row[key] !== undefined) {
+      return String(row[key] || '').trim();
+    }
+  }
+
+  return '';
+};
+
+export const findHeader = (headers: string[], mappings: string[]): string | undefined => {
+  const exact = mappings.find(mapping => headers.includes(mapping));
+  if (exact) return exact;
+  const lowerHeaders = headers.map(h => h.toLowerCase());
+  for (const mapping of mappings) {
+    const index = lowerHeaders.indexOf(mapping.toLowerCase());
+    if (index !== -1) return headers[index];
+  }
+  return undefined;
+};
+
+export const findMissingRequiredColumns = (
+  headers: string[],
+  target: IngestionTarget,
+  profile?: ColumnMappingProfile | null
+): string[] => {
+  return getIngestionFields(target)
+    .filter(field => field.required && !findHeader(headers, resolveFieldAliases(field, profile)))
+    .map(field => field.key);
+};
+
+/**
+ * Associa cada coluna da planilha a um campo, usando o perfil informado e os
+ * aliases padrão. Serve como ponto de partida para o assistente de mapeamento.
+ */
+export const detectColumnAssignments = (
+  headers: string[],
+  target: IngestionTarget,
+  profile?: ColumnMappingProfile | null
+): Record<string, string> => {
+  const assignments: Record<string, string> = {};
+  getIngestionFields(target).forEach(field => {
+    const header = findHeader(headers, resolveFieldAliases(field, profile));
+    if (header && !assignments[header]) {
+      assignments[header] = field.key;
+    }
+  });
+  return assignments;
+};
+
+export const assignmentsToProfile = (
+  assignments: Record<string, string>,
+  target: IngestionTarget,
+  name = t('mapping.manualProfile')
+): ColumnMappingProfile => {
+  const columns: Record<string, string[]> = {};
+  Object.entries(assignments).forEach(([header, fieldKey]) => {
+    if (!fieldKey) return;
+    columns[fieldKey] = [...(columns[fieldKey] ?? []), header];
+  });
+  return { id: MANUAL_PROFILE_ID, name, target, columns, strict: true, updatedAt: '' };
+};
+
+export const findUnmappedColumns = (
+  headers: string[],
+  target: IngestionTarget,
+  profile?: ColumnMappingProfile | null
+): string[] => {
+  const used = new Set(
+    getIngestionFields(target)
+      .map(field => findHeader(headers, resolveFieldAliases(field, profile)))
+      .filter((header): header is string => Boolean(header))
+  );
+  return headers.filter(header => header && !used.has(header));
+};
+
+export const sanitizeText = (value: string): string => {
+  if (!value) return '';
+  return String(value)
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/["'`´]/g, '')
+    .replace(/[^\w\sÀ-ÿ-]/g, '') // Mantém letras, números, espaços e acentuação
+    .trim();
+};
+
+export const validatePriority = (priority: string): string | null => {
+  return parsePriority(priority);
+};
+
+export const normalizeIncidentStateValue = (state: string): string => {
+  const normalizedState = state.toLowerCase().trim();
+  if (['closed', 'resolved', 'cancelled', 'fechado', 'resolvido', 'cancelado'].includes(normalizedState)) {
+    return normalizedState.charAt(0).toUpperCase() + normalizedState.slice(1);
+  }
+  return state;
+};
+
+const KNOWN_INCIDENT_STATE_TERMS = [
+  'new', 'open', 'aberto', 'assigned', 'atribu', 'progress', 'andamento', 'hold', 'pending',
+  'pendente', 'aguardando', 'espera', 'resolved', 'resolvido', 'closed', 'fechado', 'complete', 'cancel'
+];
+
+export const isKnownIncidentState = (state: string): boolean => {
+  const s = state.toLowerCase().trim();
+  return KNOWN_INCIDENT_STATE_TERMS.some(term => s.includes(term));
+};
+
+// Exportações JSON/CSV do ServiceNow trazem o estado como código numérico
+const SERVICENOW_INCIDENT_STATES: Record<string, string> = {
+  '1': 'New',
+  '2': 'In Progress',
+  '3': 'On Hold',
+  '6': 'Resolved',
+  '7': 'Closed',
+  '8': 'Canceled'
+};
+
+const SERVICENOW_TASK_STATES: Record<string, string> = {
+  '-5': 'On Hold',
+  '1': 'Opened',
+  '2': 'Work in Progress',
+  '3': 'Closed Complete',
+  '4': 'Closed Incomplete',
+  '7': 'Closed Skipped'
+};
+
+export const translateStateCode = (state: string, target: IngestionTarget): string => {
+  const code = state.trim();
+  const codes = target === 'incidents' ? SERVICENOW_INCIDENT_STATES : SERVICENOW_TASK_STATES;
+  return codes[code] ?? state;
+};
+
+export const validateRequestState = (state: string): string | null => {
+  if (!state) return null;
+
+  const s = state.toLowerCase().trim();
+  if (s.includes('opened') || s.includes('new')) {
+    return 'Opened';
+  }
+  if (s.includes('assigned')) {
+    return 'Assigned';
+  }
+  if (s.includes('work in progress') || s.includes('progress')) {
+    return 'Work in Progress';
+  }
+  // "incomplete" contém "complete": precisa ser verificado antes
+  if (s.includes('closed incomplete') || s.includes('incomplete')) {
+    return 'Closed Incomplete';
+  }
+  if (s.includes('closed complete') || s.includes('complete')) {
+    return 'Closed Complete';
+  }
+  if (s.includes('closed skipped') || s.includes('skipped')) {
+    return 'Closed Skipped';
+  }
+  if (s.includes('on hold') || s.includes('hold')) {
+    return 'On Hold';
+  }
+
+  return null;
+};
+
+export const mapRowToRecord = (
+  row: Record<string, unknown>,
+  target: IngestionTarget,
+  profile?: ColumnMappingProfile | null
+): Record<string, string> => {
+  const record: Record<string, string> = {};
+  getIngestionFields(target).forEach(field => {
+    const value = findColumnValue(row, resolveFieldAliases(field, profile));
+    record[field.key] = field.sanitize ? sanitizeText(value) : value;
+  });
+  if (target === 'incidents') {
+    record.ResponseTime = record.ResponseTime || '0';
+  }
+  if (profile?.adapterId) {
+    applyImportAdapter(record, target, profile.adapterId);
+  }
+  if (profile?.sourceSystem) {
+    record.SourceSystem = profile.sourceSystem;
+  }
+  return record;
+};
+
+export const validateRecord = (
+  record: Record<string, string>,
+  target: IngestionTarget,
+  rowIndex: number,
+  dateSettings?: Record<string, DateColumnSettings>,
+  priorityModel?: PriorityModel
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  if (!record.Number) {
+    const reason = t(target === 'incidents' ? 'validation.incidentNumberRequired' : 'validation.requestNumberRequired');
+    errors.push({ row: rowIndex, column: 'Number', value: '', reason, severity: 'error' });
+  }
+
+  if (!record.Opened) {
+    errors.push({ row: rowIndex, column: 'Opened', value: '', reason: t('validation.openedRequired'), severity: 'error' });
+  } else {
+    const opened = parseDateToISO(record.Opened, dateSettings?.Opened);
+    if (!opened) {
+      errors.push({ row: rowIndex, column: 'Opened', value: record.Opened, reason: t('validation.openedInvalid'), severity: 'error' });
+    } else {
+      record.Opened = opened;
+    }
+  }
+
+  if (record.Updated) {
+    const updated = parseDateToISO(record.Updated, dateSettings?.Updated);
+    if (!updated) {
+      errors.push({ row: rowIndex, column: 'Updated', value: record.Updated, reason: t('validation.updatedInvalid'), severity: 'warning' });
+    } else {
+      record.Updated = updated;
+    }
+  }
+
+  if (record.Closed) {
+    const closed = parseDateToISO(record.Closed, dateSettings?.Closed);
+    if (!closed) {
+      errors.push({ row: rowIndex, column: 'Closed', value: record.Closed, reason: t('validation.closedInvalid'), severity: 'warning' });
+    } else {
+      record.Closed = closed;
+    }
+  }
+
+  // Sem prioridade registrada, usa a matriz de impacto × urgência
+  if (!record.Priority) {
+    record.Priority = derivePriority(record.Impact, record.Urgency, priorityModel) ?? '';
+  }
+
+  if (record.Priority) {
+    const validPriority = validatePriority(record.Priority);
+    if (!validPriority) {
+      errors.push({ row: rowIndex, column: 'Priority', value: record.Priority, reason: t('validation.priorityUnknown'), severity: 'warning' });
+    } else {
+      record.Priority = validPriority;
+    }
+  }
+
+  if (record.State) {
+    record.State = translateStateCode(record.State, target);
+    if (target === 'incidents') {
+      record.State = normalizeIncidentStateValue(record.State);
+      if (!isKnownIncidentState(record.State)) {
+        errors.push({ row: rowIndex, column: 'State', value: record.State, reason: t('validation.stateUnknown'), severity: 'warning' });
+      }
+    } else {
+      const validState = validateRequestState(record.State);
+      if (!validState) {
+        errors.push({ row: rowIndex, column: 'State', value: record.State, reason: t('validation.requestStateUnknown'), severity: 'warning' });
+      } else {
+        record.State = validState;
+      }
+    }
+  }
+
+  return errors;
+};
+
+// Síncrono: executado no worker de importação (ver workers/ingestionWorker.ts)
+export function processRows(
+  rows: Record<string, unknown>[],
+  target: 'incidents',
+  profile?: ColumnMappingProfile | null,
+  priorityModel?: PriorityModel,
+  onProgress?: (processed: number, total: number) => void
+): IngestionResult<Incident>;
+export function processRows(
+  rows: Record<string, unknown>[],
+  target: 'requests',
+  profile?: ColumnMappingProfile | null,
+  priorityModel?: PriorityModel,
+  onProgress?: (processed: number, total: number) => void
+): IngestionResult<Request>;
+export function processRows(
+  rows: Record<string, unknown>[],
+  target: IngestionTarget,
+  profile?: ColumnMappingProfile | null,
+  priorityModel?: PriorityModel,
+  onProgress?: (processed: number, total: number) => void
+): IngestionResult<Incident | Request>;
+export function processRows(
+  rows: Record<string, unknown>[],
+  target: IngestionTarget,
+  profile?: ColumnMappingProfile | null,
+  priorityModel?: PriorityModel,
+  onProgress?: (processed: number, total: number) => void
+): IngestionResult<Incident | Request> {
+  if (!rows || !Array.isArray(rows) || rows.length === 0) {
+    throw new Error(t('import.error.emptyFile'));
+  }
+
+  const items: (Incident | Request)[] = [];
+  const errors: ValidationError[] = [];
+  const mappedRows: MappedRow[] = [];
+  const totalRows = rows.length;
+
+  for (let i = 0; i < totalRows; i++) {
+    const row = rows[i];
+    onProgress?.(i + 1, totalRows);
+
+    if (!row || typeof row !== 'object' || Object.keys(row).length === 0) {
+      errors.push({ row: i + 2, column: 'all', value: '', reason: t('validation.emptyRow'), severity: 'error' });
+      continue;
+    }
+
+    const record = mapRowToRecord(row, target, profile);
+    const rowErrors = validateRecord(record, target, i + 2, profile?.dateFormats, priorityModel);
+    errors.push(...rowErrors);
+    mappedRows.push({ row: i + 2, record });
+
+    if (!rowErrors.some(error => error.severity === 'error')) {
+      items.push(record as unknown as Incident | Request);
+    }
+  }
+
+  const headers = Object.keys(rows.find(row => row && typeof row === 'object') ?? {});
+
+  return {
+    items,
+    errors,
+    totalRows,
+    unmappedColumns: findUnmappedColumns(headers, target, profile),
+    quality: buildDataQualityReport(rows, mappedRows, errors)
+  };
+}
+
+export const MAPPING_PREVIEW_ROWS = 20;
+
+export const IMPORT_FILE_ACCEPT = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'application/vnd.ms-excel': ['.xls'],
+  'text/csv': ['.csv'],
+  'text/tab-separated-values': ['.tsv'],
+  'application/json': ['.json']
+};
+
+export const readImportFile = async (file: File): Promise<SpreadsheetData> => {
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await file.arrayBuffer();
+  } catch {
+    throw new Error(t('import.error.readFailed'));
+  }
+  return parseImportBuffer(buffer, file.name);
+};
+
+// Combina vários exports (ex.: um arquivo por mês) em uma única planilha
+export const readImportFiles = async (
+  files: File[],
+  onProgress?: (processed: number, total: number) => void
+): Promise<SpreadsheetData> => {
+  const parsed: SpreadsheetData[] = [];
+  for (const file of files) {
+    parsed.push(await readImportFile(file));
+    onProgress?.(parsed.length, files.length);
+  }
+  const headers = Array.from(new Set(parsed.flatMap(data => data.headers)));
+  return { headers, rows: parsed.flatMap(data => data.rows) };
+};
+
+const updatedTime = (value?: string): number => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return isNaN(time) ? -Infinity : time;
+};
+
+// Deduplica por Number; quando o chamado se repete, prevalece o Updated mais recente
+export const mergeRecordsByNumber = <T extends { Number: string; Updated?: string }>(
+  existing: T[],
+  incoming: T[]
+): { items: T[]; summary: MergeSummary } => {
+  const items = [...existing];
+  const indexByNumber = new Map<string, number>();
+  items.forEach((item, index) => indexByNumber.set(String(item.Number).trim(), index));
+
+  const summary: MergeSummary = { added: 0, updated: 0, unchanged: 0, total: 0 };
+
+  incoming.forEach(record => {
+    const key = String(record.Number).trim();
+    const index = indexByNumber.get(key);
+
+    if (index === undefined) {
+      indexByNumber.set(key, items.length);
+      items.push(record);
+      summary.added++;
+    } else if (updatedTime(record.Updated) > updatedTime(items[index].Updated)) {
+      items[index] = record;
+      summary.updated++;
+    } else {
+      summary.unchanged++;
+    }
+  });
+
+  summary.total = items.length;
+  return { items, summary };
+};
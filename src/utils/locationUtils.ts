@@ -1,54 +1,143 @@
-export const normalizeLocationName = (location: string): string => {
-  if (!location) return 'Não especificado';
+import { LocationDirectoryEntry, UnmappedLocationGroup } from '../types/location';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
 
-  // Map of original location names to normalized names
-  const locationMap: Record<string, string> = {
-    'Brazil-Santo Andre-Manufacturing-Local Support': 'SA-MNF-local Sup',
-    'Brazil-Santo Andre-Network/Telecom': 'SA-Net/Tel',
-    'Brazil-Bahia-Manufacturing-Local Support': 'BA-MNF-local Sup',
-    'Brazil-Santo Andre-Local Support': 'SA-Local Sup',
-    'Brazil-Bahia-Local Support': 'BA-Local Sup',
-    'Brazil-Bahia-Network/Telecom': 'BA-Net/Tel',
-    'Brazil-Bandag-Local Support': 'Berrini-Local Sup',
-    'Brazil-Bandag-Manufacturing-Local Support': 'Campinas-MNF-local Sup',
-    'Brazil-Bandag-Network/Telecom': 'Berrini-Net/Tel',
-    'Brazil-Local Support': 'BR-Local Sup',
-    'Brazil-Mafra-Local Support': 'SC-Local Sup',
-    'Brazil-Telephony': 'BR-Net/Tel',
-    'Brazil-Ticket Manager': 'BR-TM'
-  };
+const LOCATION_DIRECTORY_STORAGE_KEY = 'location_directory';
+
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+type DefaultLocation = [shortName: string, group: string, region: string, state: string, timezone?: string];
 
-  // Check if the location is in our map
-  if (location in locationMap) {
-    return locationMap[location];
+// Mapeamento original de grupos designados, usado enquanto o diretório não é editado
+const DEFAULT_LOCATIONS: DefaultLocation[] = [
+  ['SA-MNF-local Sup', 'Brazil-Santo Andre-Manufacturing-Local Support', 'Sudeste', 'SP'],
+  ['SA-Net/Tel', 'Brazil-Santo Andre-Network/Telecom', 'Sudeste', 'SP'],
+  ['BA-MNF-local Sup', 'Brazil-Bahia-Manufacturing-Local Support', 'Nordeste', 'BA', 'America/Bahia'],
+  ['SA-Local Sup', 'Brazil-Santo Andre-Local Support', 'Sudeste', 'SP'],
+  ['BA-Local Sup', 'Brazil-Bahia-Local Support', 'Nordeste', 'BA', 'America/Bahia'],
+  ['BA-Net/Tel', 'Brazil-Bahia-Network/Telecom', 'Nordeste', 'BA', 'America/Bahia'],
+  ['Berrini-Local Sup', 'Brazil-Bandag-Local Support', 'Sudeste', 'SP'],
+  ['Campinas-MNF-local Sup', 'Brazil-Bandag-Manufacturing-Local Support', 'Sudeste', 'SP'],
+  ['Berrini-Net/Tel', 'Brazil-Bandag-Network/Telecom', 'Sudeste', 'SP'],
+  ['BR-Local Sup', 'Brazil-Local Support', 'Nacional', ''],
+  ['SC-Local Sup', 'Brazil-Mafra-Local Support', 'Sul', 'SC'],
+  ['BR-Net/Tel', 'Brazil-Telephony', 'Nacional', ''],
+  ['BR-TM', 'Brazil-Ticket Manager', 'Nacional', '']
+];
+
+const createDefaultDirectory = (): LocationDirectoryEntry[] =>
+  DEFAULT_LOCATIONS.map(([shortName, group, region, state, timezone], index) => ({
+    id: `location-default-${index + 1}`,
+    shortName,
+    patterns: [group],
+    region,
+    state,
+    timezone: timezone ?? DEFAULT_TIMEZONE,
+    headcount: 0,
+    updatedAt: ''
+  }));
+
+let cachedDirectory: LocationDirectoryEntry[] | null = null;
+// Grupo designado -> entrada do diretório (undefined quando não mapeado)
+const resolvedGroups = new Map<string, LocationDirectoryEntry | undefined>();
+
+export const loadLocationDirectory = (): LocationDirectoryEntry[] => {
+  if (!cachedDirectory) {
+    const stored = loadFromStorage<LocationDirectoryEntry[] | null>(LOCATION_DIRECTORY_STORAGE_KEY, null);
+    cachedDirectory = stored ?? createDefaultDirectory();
   }
+  return cachedDirectory;
+};
 
-  // If not found in the map, return the original
-  return location;
+const persistDirectory = (entries: LocationDirectoryEntry[]) => {
+  saveToStorage(LOCATION_DIRECTORY_STORAGE_KEY, entries);
+  cachedDirectory = entries;
+  resolvedGroups.clear();
 };
 
-export const getOriginalLocationName = (normalizedName: string): string => {
-  const reverseMap: Record<string, string> = {
-    'SA-MNF-local Sup': 'Brazil-Santo Andre-Manufacturing-Local Support',
-    'SA-Net/Tel': 'Brazil-Santo Andre-Network/Telecom',
-    'BA-MNF-local Sup': 'Brazil-Bahia-Manufacturing-Local Support',
-    'SA-Local Sup': 'Brazil-Santo Andre-Local Support',
-    'BA-Local Sup': 'Brazil-Bahia-Local Support',
-    'BA-Net/Tel': 'Brazil-Bahia-Network/Telecom',
-    'Berrini-Local Sup': 'Brazil-Bandag-Local Support',
-    'Campinas-MNF-local Sup': 'Brazil-Bandag-Manufacturing-Local Support',
-    'Berrini-Net/Tel': 'Brazil-Bandag-Network/Telecom',
-    'BR-Local Sup': 'Brazil-Local Support',
-    'SC-Local Sup': 'Brazil-Mafra-Local Support',
-    'BR-Net/Tel': 'Brazil-Telephony',
-    'BR-TM': 'Brazil-Ticket Manager'
+export const saveLocationEntry = (
+  entry: Omit<LocationDirectoryEntry, 'id' | 'updatedAt'> & { id?: string }
+): LocationDirectoryEntry => {
+  const entries = [...loadLocationDirectory()];
+  const saved: LocationDirectoryEntry = {
+    ...entry,
+    id: entry.id || createId('location'),
+    updatedAt: new Date().toISOString()
   };
-
-  // Check if the normalized name is in our reverse map
-  if (normalizedName in reverseMap) {
-    return reverseMap[normalizedName];
+  const index = entries.findIndex(e => e.id === saved.id);
+  if (index === -1) {
+    entries.push(saved);
+  } else {
+    entries[index] = saved;
   }
+  persistDirectory(entries);
+  return saved;
+};
+
+export const deleteLocationEntry = (id: string): void => {
+  persistDirectory(loadLocationDirectory().filter(entry => entry.id !== id));
+};
+
+export const resetLocationDirectory = (): void => {
+  persistDirectory(createDefaultDirectory());
+};
+
+const normalizeGroup = (value: string) => value.trim().toLowerCase();
+
+const isWildcard = (pattern: string) => pattern.includes('*');
 
-  // If not found in the map, return the original
-  return normalizedName;
-};
\ No newline at end of file
+const patternToRegExp = (pattern: string) => {
+  const escaped = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+// Compara um grupo designado com um nome ou padrão com curinga, sem diferenciar maiúsculas
+export const matchesGroupPattern = (group: string, pattern: string): boolean => {
+  if (!group || !pattern.trim()) return false;
+  return isWildcard(pattern)
+    ? patternToRegExp(pattern).test(group.trim())
+    : normalizeGroup(pattern) === normalizeGroup(group);
+};
+
+/**
+ * Entrada do diretório para o grupo designado. Nomes exatos têm prioridade
+ * sobre padrões com curinga; entre curingas vale a ordem do diretório.
+ */
+export const findLocationEntry = (group: string): LocationDirectoryEntry | undefined => {
+  const key = normalizeGroup(group || '');
+  if (!key) return undefined;
+  if (resolvedGroups.has(key)) return resolvedGroups.get(key);
+
+  const entries = loadLocationDirectory();
+  const match =
+    entries.find(entry => entry.patterns.some(pattern => !isWildcard(pattern) && normalizeGroup(pattern) === key)) ??
+    entries.find(entry => entry.patterns.some(pattern => isWildcard(pattern) && patternToRegExp(pattern).test(group.trim())));
+
+  resolvedGroups.set(key, match);
+  return match;
+};
+
+export const normalizeLocationName = (location: string): string => {
+  if (!location) return 'Não especificado';
+  // Nome curto já normalizado ou grupo sem mapeamento seguem como estão
+  return findLocationEntry(location)?.shortName ?? location;
+};
+
+export const getOriginalLocationName = (normalizedName: string): string => {
+  const entry = loadLocationDirectory().find(e => e.shortName === normalizedName);
+  return entry?.patterns.find(pattern => !isWildcard(pattern)) ?? normalizedName;
+};
+
+export const isMappedLocation = (group: string): boolean => {
+  return !!findLocationEntry(group) || loadLocationDirectory().some(entry => entry.shortName === group);
+};
+
+// Grupos do conjunto atual que não casam com nenhuma localidade do diretório
+export const findUnmappedLocationGroups = (groups: (string | undefined)[]): UnmappedLocationGroup[] => {
+  const counts = new Map<string, number>();
+  groups.forEach(group => {
+    const value = (group || '').trim();
+    if (!value || isMappedLocation(value)) return;
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return Array.from(counts, ([group, count]) => ({ group, count })).sort((a, b) => b.count - a.count);
+};
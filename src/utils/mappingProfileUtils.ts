@@ -0,0 +1,62 @@
+import { ColumnMappingProfile, IngestionTarget } from '../types/ingestion';
+import { t } from './i18nUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+import { MANUAL_PROFILE_ID } from './ingestionUtils';
+import { getAdapterProfiles, isAdapterProfileId } from './importAdapters';
+
+const PROFILES_STORAGE_KEY = 'column_mapping_profiles';
+const SELECTED_PROFILE_STORAGE_KEY = 'column_mapping_selected_profile';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const getDefaultProfile = (target: IngestionTarget): ColumnMappingProfile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: t('mapping.defaultProfile'),
+  target,
+  columns: {},
+  updatedAt: ''
+});
+
+// Perfil padrão e perfis de ferramentas ITSM não podem ser editados
+export const isBuiltInProfile = (id: string): boolean => {
+  return id === DEFAULT_PROFILE_ID || id === MANUAL_PROFILE_ID || isAdapterProfileId(id);
+};
+
+export const loadMappingProfiles = (target?: IngestionTarget): ColumnMappingProfile[] => {
+  const profiles = loadFromStorage<ColumnMappingProfile[]>(PROFILES_STORAGE_KEY, []);
+  return target ? profiles.filter(profile => profile.target === target) : profiles;
+};
+
+export const saveMappingProfile = (
+  profile: Omit<ColumnMappingProfile, 'id' | 'updatedAt'> & { id?: string }
+): ColumnMappingProfile => {
+  const profiles = loadMappingProfiles();
+  const saved: ColumnMappingProfile = {
+    ...profile,
+    id: profile.id && !isBuiltInProfile(profile.id) ? profile.id : createId('profile'),
+    updatedAt: new Date().toISOString()
+  };
+  const index = profiles.findIndex(p => p.id === saved.id);
+  if (index === -1) {
+    profiles.push(saved);
+  } else {
+    profiles[index] = saved;
+  }
+  saveToStorage(PROFILES_STORAGE_KEY, profiles);
+  return saved;
+};
+
+export const deleteMappingProfile = (id: string): void => {
+  saveToStorage(PROFILES_STORAGE_KEY, loadMappingProfiles().filter(profile => profile.id !== id));
+};
+
+export const getSelectedProfile = (target: IngestionTarget): ColumnMappingProfile => {
+  const selected = loadFromStorage<Partial<Record<IngestionTarget, string>>>(SELECTED_PROFILE_STORAGE_KEY, {});
+  const profile = [...getAdapterProfiles(target), ...loadMappingProfiles(target)].find(p => p.id === selected[target]);
+  return profile ?? getDefaultProfile(target);
+};
+
+export const setSelectedProfile = (target: IngestionTarget, id: string): void => {
+  const selected = loadFromStorage<Partial<Record<IngestionTarget, string>>>(SELECTED_PROFILE_STORAGE_KEY, {});
+  saveToStorage(SELECTED_PROFILE_STORAGE_KEY, { ...selected, [target]: id });
+};
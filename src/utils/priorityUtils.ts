@@ -0,0 +1,111 @@
+import { Incident } from '../types/incident';
+import { ImpactUrgencyLevel, PriorityLevel, PriorityMismatch, PriorityModel } from '../types/priority';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+import { MessageKey } from './i18nMessages';
+
+const PRIORITY_MODEL_STORAGE_KEY = 'priority_model';
+
+export const PRIORITY_LEVELS: PriorityLevel[] = ['P1', 'P2', 'P3', 'P4'];
+
+export const IMPACT_URGENCY_LEVELS: { value: ImpactUrgencyLevel; labelKey: MessageKey }[] = [
+  { value: '1', labelKey: 'priorityModel.level.high' },
+  { value: '2', labelKey: 'priorityModel.level.medium' },
+  { value: '3', labelKey: 'priorityModel.level.low' }
+];
+
+// Matriz padrão do ServiceNow, com P5 (planejamento) agrupada em P4
+const createDefaultModel = (): PriorityModel => ({
+  matrix: {
+    '1': { '1': 'P1', '2': 'P2', '3': 'P3' },
+    '2': { '1': 'P2', '2': 'P3', '3': 'P4' },
+    '3': { '1': 'P3', '2': 'P4', '3': 'P4' }
+  },
+  highPriorities: ['P1', 'P2']
+});
+
+let cachedModel: PriorityModel | null = null;
+
+export const loadPriorityModel = (): PriorityModel => {
+  if (!cachedModel) {
+    cachedModel = loadFromStorage<PriorityModel | null>(PRIORITY_MODEL_STORAGE_KEY, null) ?? createDefaultModel();
+  }
+  return cachedModel;
+};
+
+export const savePriorityModel = (model: PriorityModel): void => {
+  saveToStorage(PRIORITY_MODEL_STORAGE_KEY, model);
+  cachedModel = model;
+};
+
+export const resetPriorityModel = (): PriorityModel => {
+  const model = createDefaultModel();
+  savePriorityModel(model);
+  return model;
+};
+
+const PRIORITY_KEYWORDS: [PriorityLevel, string[]][] = [
+  ['P1', ['critical', 'crítico', 'crítica', 'critico', 'critica']],
+  ['P2', ['high', 'alta', 'alto']],
+  ['P3', ['medium', 'moderate', 'média', 'médio', 'media', 'medio', 'moderada']],
+  ['P4', ['low', 'planning', 'baixa', 'baixo', 'planejamento']]
+];
+
+/**
+ * Único intérprete de prioridade do painel. Só o número no início do valor
+ * conta ("P4 - 1 dia" é P4, "2 - High" é P2); sem número, vale o texto.
+ * P5 (planejamento) é tratada como P4.
+ */
+export const parsePriority = (value: string): PriorityLevel | null => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text) return null;
+
+  const numbered = text.match(/^(?:p|priority|prioridade)?\s*([1-5])(?!\d)/);
+  if (numbered) return numbered[1] === '5' ? 'P4' : (`P${numbered[1]}` as PriorityLevel);
+
+  const match = PRIORITY_KEYWORDS.find(([, keywords]) => keywords.some(keyword => text.includes(keyword)));
+  return match ? match[0] : null;
+};
+
+// Impacto/urgência no formato "1 - High", "2", "Médio"
+export const parseImpactUrgency = (value?: string): ImpactUrgencyLevel | null => {
+  const text = (value || '').trim().toLowerCase();
+  if (!text) return null;
+
+  const numbered = text.match(/^([1-3])(?!\d)/);
+  if (numbered) return numbered[1] as ImpactUrgencyLevel;
+  if (['high', 'alto', 'alta', 'crit'].some(keyword => text.includes(keyword))) return '1';
+  if (['medium', 'moderate', 'médio', 'média', 'medio', 'media'].some(keyword => text.includes(keyword))) return '2';
+  if (['low', 'baixo', 'baixa'].some(keyword => text.includes(keyword))) return '3';
+  return null;
+};
+
+export const isHighPriorityLevel = (level: PriorityLevel | null, model: PriorityModel = loadPriorityModel()): boolean => {
+  return !!level && model.highPriorities.includes(level);
+};
+
+// Prioridade calculada pela matriz; null sem impacto ou urgência reconhecidos
+export const derivePriority = (
+  impact: string | undefined,
+  urgency: string | undefined,
+  model: PriorityModel = loadPriorityModel()
+): PriorityLevel | null => {
+  const impactLevel = parseImpactUrgency(impact);
+  const urgencyLevel = parseImpactUrgency(urgency);
+  if (!impactLevel || !urgencyLevel) return null;
+  return model.matrix[impactLevel][urgencyLevel];
+};
+
+// Chamados cuja prioridade registrada diverge da calculada por impacto × urgência
+export const findPriorityMismatches = (
+  incidents: Incident[],
+  model: PriorityModel = loadPriorityModel()
+): PriorityMismatch[] => {
+  const mismatches: PriorityMismatch[] = [];
+  incidents.forEach(incident => {
+    const derived = derivePriority(incident.Impact, incident.Urgency, model);
+    if (!derived) return;
+    const recorded = parsePriority(incident.Priority);
+    if (recorded !== derived) mismatches.push({ incident, recorded, derived });
+  });
+  return mismatches;
+};
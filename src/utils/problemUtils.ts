@@ -0,0 +1,192 @@
+import { Incident } from '../types/incident';
+import {
+  Problem,
+  ProblemCandidate,
+  ProblemCandidateCriterion,
+  ProblemCandidateSettings,
+  ProblemState
+} from '../types/problem';
+import { MessageKey } from './i18nMessages';
+import { t } from './i18nUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+
+const PROBLEMS_STORAGE_KEY = 'problem_records';
+const CANDIDATE_SETTINGS_STORAGE_KEY = 'problem_candidate_settings';
+
+export const PROBLEM_STATES: Array<{ value: ProblemState; labelKey: MessageKey }> = [
+  { value: 'new', labelKey: 'problem.state.new' },
+  { value: 'root_cause_analysis', labelKey: 'problem.state.rootCauseAnalysis' },
+  { value: 'known_error', labelKey: 'problem.state.knownError' },
+  { value: 'resolved', labelKey: 'problem.state.resolved' }
+];
+
+export const CANDIDATE_CRITERIA: Array<{ value: ProblemCandidateCriterion; labelKey: MessageKey }> = [
+  { value: 'string_associado', labelKey: 'problem.criterion.stringAssociado' },
+  { value: 'configuration_item', labelKey: 'problem.criterion.configurationItem' },
+  { value: 'short_description', labelKey: 'problem.criterion.shortDescription' }
+];
+
+export const DEFAULT_CANDIDATE_SETTINGS: ProblemCandidateSettings = {
+  windowDays: 7,
+  minIncidents: 3,
+  criteria: ['string_associado', 'configuration_item', 'short_description']
+};
+
+export const getProblemStateLabel = (state: ProblemState): string => {
+  const option = PROBLEM_STATES.find(s => s.value === state);
+  return option ? t(option.labelKey) : state;
+};
+
+export const getCriterionLabel = (criterion: ProblemCandidateCriterion): string => {
+  const option = CANDIDATE_CRITERIA.find(c => c.value === criterion);
+  return option ? t(option.labelKey) : criterion;
+};
+
+// Fluxo linear: Novo → Análise de Causa Raiz → Erro Conhecido → Resolvido
+export const getNextProblemState = (state: ProblemState): ProblemState | null => {
+  const index = PROBLEM_STATES.findIndex(s => s.value === state);
+  return index >= 0 && index < PROBLEM_STATES.length - 1 ? PROBLEM_STATES[index + 1].value : null;
+};
+
+const IGNORED_VALUES = ['', 'não definido', 'nao definido', 'n/a', '-'];
+
+/**
+ * Normaliza descrições para agrupar textos quase idênticos: ignora caixa,
+ * acentos, números (IDs, IPs, datas), pontuação e a ordem das palavras.
+ */
+export const normalizeShortDescription = (value: string): string => {
+  const tokens = (value || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length >= 3);
+  return Array.from(new Set(tokens)).sort().join(' ');
+};
+
+const getGroupingValue = (incident: Incident, criterion: ProblemCandidateCriterion): string => {
+  switch (criterion) {
+    case 'string_associado':
+      return (incident.StringAssociado || '').trim();
+    case 'configuration_item':
+      return (incident.ConfigurationItem || '').trim();
+    case 'short_description':
+      return normalizeShortDescription(incident.ShortDescription);
+  }
+};
+
+export const findProblemCandidates = (
+  incidents: Incident[],
+  settings: ProblemCandidateSettings,
+  problems: Problem[] = []
+): ProblemCandidate[] => {
+  // Incidentes já vinculados a um problema não geram novos candidatos
+  const linked = new Set(problems.flatMap(problem => problem.incidentNumbers));
+  const available = incidents
+    .map(incident => ({ incident, opened: new Date(incident.Opened).getTime() }))
+    .filter(({ incident, opened }) => !linked.has(incident.Number) && !isNaN(opened));
+  const windowMs = settings.windowDays * 86400000;
+  const candidates: ProblemCandidate[] = [];
+
+  settings.criteria.forEach(criterion => {
+    const groups = new Map<string, { label: string; entries: typeof available }>();
+    available.forEach(entry => {
+      const value = getGroupingValue(entry.incident, criterion);
+      if (IGNORED_VALUES.includes(value.toLowerCase())) return;
+      const key = value.toLowerCase();
+      const group = groups.get(key) ?? {
+        label: criterion === 'short_description' ? entry.incident.ShortDescription : value,
+        entries: []
+      };
+      group.entries.push(entry);
+      groups.set(key, group);
+    });
+
+    groups.forEach((group, groupKey) => {
+      if (group.entries.length < settings.minIncidents) return;
+      const sorted = [...group.entries].sort((a, b) => a.opened - b.opened);
+
+      // Agrupa em janelas consecutivas a partir do primeiro incidente de cada janela
+      let cluster: typeof sorted = [];
+      const flush = () => {
+        if (cluster.length >= settings.minIncidents) {
+          const first = cluster[0].incident;
+          candidates.push({
+            key: `${criterion}:${groupKey}:${first.Opened}`,
+            criterion,
+            label: group.label,
+            incidents: cluster.map(entry => entry.incident),
+            firstOpened: first.Opened,
+            lastOpened: cluster[cluster.length - 1].incident.Opened
+          });
+        }
+        cluster = [];
+      };
+      sorted.forEach(entry => {
+        if (cluster.length > 0 && entry.opened - cluster[0].opened > windowMs) flush();
+        cluster.push(entry);
+      });
+      flush();
+    });
+  });
+
+  return candidates.sort((a, b) => b.incidents.length - a.incidents.length);
+};
+
+export const loadProblems = (): Problem[] => {
+  return loadFromStorage<Problem[]>(PROBLEMS_STORAGE_KEY, []);
+};
+
+const getNextProblemNumber = (problems: Problem[]): string => {
+  const last = problems.reduce((max, problem) => {
+    const sequence = Number(problem.number.replace(/\D/g, ''));
+    return isNaN(sequence) ? max : Math.max(max, sequence);
+  }, 0);
+  return `PRB${String(last + 1).padStart(5, '0')}`;
+};
+
+export const saveProblem = (
+  problem: Omit<Problem, 'id' | 'number' | 'createdAt' | 'updatedAt'> & Partial<Pick<Problem, 'id' | 'number' | 'createdAt'>>
+): Problem => {
+  const problems = loadProblems();
+  const now = new Date().toISOString();
+  const saved: Problem = {
+    ...problem,
+    id: problem.id ?? createId('problem'),
+    number: problem.number ?? getNextProblemNumber(problems),
+    createdAt: problem.createdAt ?? now,
+    updatedAt: now
+  };
+  const index = problems.findIndex(p => p.id === saved.id);
+  if (index === -1) {
+    problems.push(saved);
+  } else {
+    problems[index] = saved;
+  }
+  saveToStorage(PROBLEMS_STORAGE_KEY, problems);
+  return saved;
+};
+
+export const deleteProblem = (id: string): void => {
+  saveToStorage(PROBLEMS_STORAGE_KEY, loadProblems().filter(problem => problem.id !== id));
+};
+
+export const promoteCandidateToProblem = (candidate: ProblemCandidate): Problem => {
+  return saveProblem({
+    title: `${getCriterionLabel(candidate.criterion)}: ${candidate.label}`,
+    state: 'new',
+    criterion: candidate.criterion,
+    rootCause: '',
+    workaround: '',
+    incidentNumbers: candidate.incidents.map(incident => incident.Number)
+  });
+};
+
+export const loadCandidateSettings = (): ProblemCandidateSettings => {
+  return { ...DEFAULT_CANDIDATE_SETTINGS, ...loadFromStorage<Partial<ProblemCandidateSettings>>(CANDIDATE_SETTINGS_STORAGE_KEY, {}) };
+};
+
+export const saveCandidateSettings = (settings: ProblemCandidateSettings): void => {
+  saveToStorage(CANDIDATE_SETTINGS_STORAGE_KEY, settings);
+};
@@ -0,0 +1,146 @@
+import { Incident } from '../types/incident';
+import { SupportQueue, SupportQueueColor, SupportQueueIcon } from '../types/queue';
+import { getNormalizedCategory } from './categoryUtils';
+import { matchesGroupPattern, normalizeLocationName } from './locationUtils';
+import { t } from './i18nUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+
+const QUEUES_STORAGE_KEY = 'support_queues';
+const EXPORT_VERSION = 1;
+
+export const QUEUE_ICON_OPTIONS: SupportQueueIcon[] = ['building', 'phone', 'ticket', 'network', 'server', 'users', 'headset', 'shield'];
+
+export const QUEUE_COLOR_OPTIONS: SupportQueueColor[] = ['indigo', 'purple', 'emerald', 'orange', 'blue', 'pink', 'cyan', 'yellow'];
+
+// Filas originais do painel; categorias vazias preservam a contagem por grupo
+const createDefaultQueues = (): SupportQueue[] => [
+  {
+    id: 'queue-default-n1-local',
+    name: 'N1 Local',
+    groups: ['SA-Local Sup', 'Berrini-Local Sup', 'SC-Local Sup', 'BA-Local Sup', 'BR-Local Sup'],
+    categories: [],
+    icon: 'building',
+    color: 'indigo',
+    alwaysVisible: false
+  },
+  {
+    id: 'queue-default-assets-manager',
+    name: 'Asset\'s Manager',
+    groups: ['BR-Net/Tel'],
+    categories: [],
+    icon: 'phone',
+    color: 'purple',
+    alwaysVisible: true
+  },
+  {
+    id: 'queue-default-ticket-manager',
+    name: 'Ticket Manager',
+    groups: ['BR-TM'],
+    categories: [],
+    icon: 'ticket',
+    color: 'emerald',
+    alwaysVisible: true
+  },
+  {
+    id: 'queue-default-n2-internet',
+    name: 'N2 - Internet',
+    groups: ['BA-Net/Tel', 'SA-Net/Tel', 'Berrini-Net/Tel'],
+    categories: [],
+    icon: 'network',
+    color: 'orange',
+    alwaysVisible: false
+  }
+];
+
+let cachedQueues: SupportQueue[] | null = null;
+
+export const loadSupportQueues = (): SupportQueue[] => {
+  if (!cachedQueues) {
+    cachedQueues = loadFromStorage<SupportQueue[] | null>(QUEUES_STORAGE_KEY, null) ?? createDefaultQueues();
+  }
+  return cachedQueues;
+};
+
+// A lista inteira é gravada de uma vez, pois a ordem define a prioridade entre filas
+export const saveSupportQueues = (queues: SupportQueue[]): void => {
+  saveToStorage(QUEUES_STORAGE_KEY, queues);
+  cachedQueues = queues;
+};
+
+export const resetSupportQueues = (): SupportQueue[] => {
+  const queues = createDefaultQueues();
+  saveSupportQueues(queues);
+  return queues;
+};
+
+export const createSupportQueue = (): SupportQueue => ({
+  id: createId('queue'),
+  name: '',
+  groups: [],
+  categories: [],
+  icon: 'users',
+  color: 'blue',
+  alwaysVisible: false
+});
+
+const matchesQueue = (queue: SupportQueue, incident: Incident): boolean => {
+  const group = incident.AssignmentGroup || '';
+  const location = normalizeLocationName(group);
+  const groupMatches = queue.groups.length === 0 ||
+    queue.groups.some(rule => matchesGroupPattern(location, rule) || matchesGroupPattern(group, rule));
+  if (!groupMatches) return false;
+
+  // Aceita tanto a categoria original quanto a normalizada
+  const categories = [incident.Category || '', getNormalizedCategory(incident)].map(value => value.trim().toLowerCase());
+  return queue.categories.length === 0 ||
+    queue.categories.some(rule => categories.includes(rule.trim().toLowerCase()));
+};
+
+/**
+ * Fila do incidente: a primeira, na ordem definida pelo usuário, cujas
+ * regras de grupo e categoria casam com o chamado.
+ */
+export const findIncidentQueue = (incident: Incident, queues: SupportQueue[]): SupportQueue | undefined => {
+  return queues.find(queue => matchesQueue(queue, incident));
+};
+
+export const exportSupportQueues = (queues: SupportQueue[]): string => {
+  return JSON.stringify({ version: EXPORT_VERSION, queues }, null, 2);
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+// Lê um arquivo exportado; lança erro com mensagem para o usuário se o conteúdo for inválido
+export const parseSupportQueuesExport = (content: string): SupportQueue[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(t('queue.error.malformed'));
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { queues?: unknown })?.queues;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error(t('queue.error.noQueues'));
+  }
+
+  const ids = new Set<string>();
+  return list.map((item, index) => {
+    const raw = (item ?? {}) as Partial<Record<keyof SupportQueue, unknown>>;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name) throw new Error(t('queue.error.unnamed', { index: index + 1 }));
+
+    const id = typeof raw.id === 'string' && raw.id && !ids.has(raw.id) ? raw.id : createId('queue');
+    ids.add(id);
+    return {
+      id,
+      name,
+      groups: toStringList(raw.groups),
+      categories: toStringList(raw.categories),
+      icon: QUEUE_ICON_OPTIONS.includes(raw.icon as SupportQueueIcon) ? raw.icon as SupportQueueIcon : 'users',
+      color: QUEUE_COLOR_OPTIONS.includes(raw.color as SupportQueueColor) ? raw.color as SupportQueueColor : 'blue',
+      alwaysVisible: raw.alwaysVisible === true
+    };
+  });
+};
@@ -0,0 +1,25 @@
+import { REQUEST_PRIORITIES, REQUEST_STATUSES } from '../types/request';
+import { MessageKey } from './i18nMessages';
+import { t } from './i18nUtils';
+
+type RequestPriority = keyof typeof REQUEST_PRIORITIES;
+type RequestStatus = keyof typeof REQUEST_STATUSES;
+
+const REQUEST_PRIORITY_KEYS: Record<RequestPriority, MessageKey> = {
+  HIGH: 'request.priority.HIGH',
+  MEDIUM: 'request.priority.MEDIUM',
+  LOW: 'request.priority.LOW'
+};
+
+const REQUEST_STATUS_KEYS: Record<RequestStatus, MessageKey> = {
+  NEW: 'request.status.NEW',
+  IN_PROGRESS: 'request.status.IN_PROGRESS',
+  ON_HOLD: 'request.status.ON_HOLD',
+  COMPLETED: 'request.status.COMPLETED',
+  CANCELLED: 'request.status.CANCELLED'
+};
+
+// REQUEST_PRIORITIES e REQUEST_STATUSES seguem como chaves dos dados; estes são os rótulos exibidos
+export const getRequestPriorityLabel = (priority: RequestPriority): string => t(REQUEST_PRIORITY_KEYS[priority]);
+
+export const getRequestStatusLabel = (status: RequestStatus): string => t(REQUEST_STATUS_KEYS[status]);
@@ -0,0 +1,295 @@
+import { addDays, differenceInCalendarDays, parseISO, startOfDay, subDays } from 'date-fns';
+import {
+  Analyst,
+  AnalystLevel,
+  AnalystWorkload,
+  CoverageHeatmapRow,
+  SHIFT_SCHEDULES,
+  StaffingAnalysis,
+  UncoveredIncident
+} from '../types/analyst';
+import { Incident } from '../types/incident';
+import { IngestionField, ValidationError } from '../types/ingestion';
+import { findColumnValue, findHeader } from './ingestionUtils';
+import { t } from './i18nUtils';
+import { matchesGroupPattern, normalizeLocationName } from './locationUtils';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+
+const ROSTER_STORAGE_KEY = 'analyst_roster';
+
+// Período analisado: o último ano de chamados, para carga, cobertura e mapa
+const MAX_COVERAGE_DAYS = 366;
+
+export const ROSTER_FIELDS: IngestionField[] = [
+  { key: 'Name', labelKey: 'field.analyst', required: true, aliases: ['Name', 'Nome', 'Analista', 'Analyst', 'Assigned to', 'AssignedTo', 'Atribuído a'] },
+  { key: 'Level', labelKey: 'field.level', required: true, aliases: ['Level', 'Nível', 'Nivel', 'Tier', 'Suporte'] },
+  { key: 'StartTime', labelKey: 'field.startTime', required: true, aliases: ['Start', 'Start time', 'StartTime', 'Início', 'Inicio', 'Entrada', 'Hora início'] },
+  { key: 'EndTime', labelKey: 'field.endTime', required: true, aliases: ['End', 'End time', 'EndTime', 'Fim', 'Saída', 'Saida', 'Hora fim'] },
+  { key: 'Schedule', labelKey: 'field.schedule', aliases: ['Schedule', 'Escala', 'Jornada'] },
+  { key: 'Location', labelKey: 'field.locationName', aliases: ['Location', 'Localidade', 'Local', 'Site', 'Grupo', 'Assignment group'] }
+];
+
+// Nome sem acentos, maiúsculas ou espaços repetidos, para casar com AssignedTo
+const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+let cachedRoster: Analyst[] | null = null;
+// Índice por nome, refeito quando a escala muda
+const rosterIndexes = new WeakMap<Analyst[], Map<string, Analyst>>();
+
+export const loadRoster = (): Analyst[] => {
+  if (!cachedRoster) {
+    cachedRoster = loadFromStorage<Analyst[]>(ROSTER_STORAGE_KEY, []);
+  }
+  return cachedRoster;
+};
+
+export const saveRoster = (roster: Analyst[]): void => {
+  saveToStorage(ROSTER_STORAGE_KEY, roster);
+  cachedRoster = roster;
+};
+
+export const findMissingRosterColumns = (headers: string[]): string[] => {
+  return ROSTER_FIELDS
+    .filter(field => field.required && !findHeader(headers, field.aliases))
+    .map(field => t(field.labelKey));
+};
+
+// Aceita "N2", "2", "Nível 2", "L2", "Tier 2" ou o rótulo completo "N2 - Infraestrutura".
+// O nível precisa ser um termo isolado: "Suporte 24x7" não tem nível e
+// em "Turno 2 - N1" vale o N1
+export const parseAnalystLevel = (value: string): AnalystLevel | null => {
+  const text = value.trim();
+  const match = text.match(/\b[NL]([1-3])\b/i)
+    ?? text.match(/^(?:n[ií]vel|level|tier)?\s*([1-3])(?:\s*[-–:].*)?$/i);
+  return match ? (`N${match[1]}` as AnalystLevel) : null;
+};
+
+// Aceita "08:00", "8:00:00", "8h", "08h30", "8:00 PM" e frações de dia do Excel (0,25 = 06:00)
+export const parseShiftTime = (value: string): string | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+
+  if (/^0?[.,]\d+$/.test(text)) {
+    const minutes = Math.round(Number(text.replace(',', '.')) * 24 * 60) % (24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }
+
+  const match = text.match(/^(\d{1,2})(?:\s*[:h]\s*(\d{2})?)?(?::\d{2})?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 24 || minutes > 59) return null;
+  return `${String(hours % 24).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+export const processRosterRows = (
+  rows: Record<string, unknown>[]
+): { items: Analyst[]; errors: ValidationError[]; totalRows: number } => {
+  const items: Analyst[] = [];
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const rowIndex = index + 2;
+    const record: Record<string, string> = {};
+    ROSTER_FIELDS.forEach(field => {
+      record[field.key] = findColumnValue(row, field.aliases);
+    });
+
+    if (!record.Name) {
+      errors.push({ row: rowIndex, column: 'Name', value: '', reason: t('validation.analystRequired'), severity: 'error' });
+      return;
+    }
+
+    const level = parseAnalystLevel(record.Level);
+    if (!level) {
+      errors.push({ row: rowIndex, column: 'Level', value: record.Level, reason: t('validation.levelInvalid'), severity: 'error' });
+      return;
+    }
+
+    const startTime = parseShiftTime(record.StartTime);
+    const endTime = parseShiftTime(record.EndTime);
+    if (!startTime || !endTime) {
+      errors.push({
+        row: rowIndex,
+        column: !startTime ? 'StartTime' : 'EndTime',
+        value: !startTime ? record.StartTime : record.EndTime,
+        reason: t('validation.timeInvalid'),
+        severity: 'error'
+      });
+      return;
+    }
+
+    const key = normalizeName(record.Name);
+    if (seen.has(key)) {
+      errors.push({ row: rowIndex, column: 'Name', value: record.Name, reason: t('validation.analystDuplicate'), severity: 'warning' });
+      return;
+    }
+    seen.add(key);
+
+    items.push({
+      name: record.Name.trim(),
+      level,
+      startTime,
+      endTime,
+      schedule: record.Schedule.trim() || SHIFT_SCHEDULES.CONTINUOUS,
+      location: record.Location.trim() || undefined
+    });
+  });
+
+  return { items, errors, totalRows: rows.length };
+};
+
+export const findRosterAnalyst = (assignedTo: string, roster: Analyst[] = loadRoster()): Analyst | undefined => {
+  const key = normalizeName(assignedTo || '');
+  if (!key) return undefined;
+  let index = rosterIndexes.get(roster);
+  if (!index) {
+    index = new Map(roster.map(analyst => [normalizeName(analyst.name), analyst]));
+    rosterIndexes.set(roster, index);
+  }
+  return index.get(key);
+};
+
+// Mesmo critério da análise de turnos: suporte local é N1, infraestrutura N2, o restante N3
+export const getRequiredLevel = (incident: Incident): AnalystLevel => {
+  const group = incident.AssignmentGroup?.toLowerCase() || '';
+  if (group.includes('local support')) return 'N1';
+  if (group.includes('network') || group.includes('server') || group.includes('infrastructure')) return 'N2';
+  return 'N3';
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 5x2 trabalha de segunda a sexta, 6x1 de segunda a sábado; demais escalas (24x7, 12x36) todos os dias
+const worksOnDay = (analyst: Analyst, date: Date): boolean => {
+  const day = date.getDay();
+  if (analyst.schedule.startsWith('5x2')) return day >= 1 && day <= 5;
+  if (analyst.schedule.startsWith('6x1')) return day >= 1;
+  return true;
+};
+
+const getShiftMinutes = (analyst: Analyst): number => {
+  const duration = toMinutes(analyst.endTime) - toMinutes(analyst.startTime);
+  return duration > 0 ? duration : duration + 24 * 60;
+};
+
+/**
+ * Indica se o analista está em escala no instante informado. Turnos que
+ * atravessam a meia-noite contam a madrugada como parte do dia anterior.
+ */
+export const isAnalystOnDuty = (analyst: Analyst, date: Date): boolean => {
+  const time = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(analyst.startTime);
+  const end = toMinutes(analyst.endTime);
+
+  if (start < end) {
+    return time >= start && time < end && worksOnDay(analyst, date);
+  }
+  if (time >= start) return worksOnDay(analyst, date);
+  return time < end && worksOnDay(analyst, addDays(date, -1));
+};
+
+// Analista sem localidade atende todas; com localidade, o nome curto ou o padrão do grupo precisa casar
+export const coversLocation = (analyst: Analyst, group: string): boolean => {
+  if (!analyst.location) return true;
+  return normalizeLocationName(analyst.location) === normalizeLocationName(group) ||
+    matchesGroupPattern(group, analyst.location);
+};
+
+const getIncidentLocation = (incident: Incident): string => normalizeLocationName(incident.AssignmentGroup || '');
+
+export const buildStaffingAnalysis = (incidents: Incident[], roster: Analyst[]): StaffingAnalysis => {
+  const allDated = incidents
+    .map(incident => ({ incident, opened: parseISO(incident.Opened) }))
+    .filter(({ opened }) => !isNaN(opened.getTime()));
+
+  if (allDated.length === 0 || roster.length === 0) {
+    return { workload: [], uncovered: [], heatmap: [], unmatchedAssignees: [], periodDays: 0 };
+  }
+
+  // Janela dos últimos MAX_COVERAGE_DAYS dias; chamados e horas de escala usam o mesmo período
+  const lastDay = startOfDay(allDated.reduce((max, { opened }) => Math.max(max, opened.getTime()), 0));
+  const windowStart = subDays(lastDay, MAX_COVERAGE_DAYS - 1);
+  const dated = allDated.filter(({ opened }) => opened >= windowStart);
+  const firstDay = startOfDay(dated.reduce((min, { opened }) => Math.min(min, opened.getTime()), Infinity));
+  const periodDays = differenceInCalendarDays(lastDay, firstDay) + 1;
+  const days = Array.from({ length: periodDays }, (_, index) => addDays(firstDay, index));
+
+  // Carga por analista: chamados atribuídos sobre as horas de escala no período
+  const tickets = new Map<Analyst, number>();
+  const unmatched = new Set<string>();
+  dated.forEach(({ incident }) => {
+    if (!incident.AssignedTo) return;
+    const analyst = findRosterAnalyst(incident.AssignedTo, roster);
+    if (analyst) {
+      tickets.set(analyst, (tickets.get(analyst) ?? 0) + 1);
+    } else {
+      unmatched.add(incident.AssignedTo.trim());
+    }
+  });
+
+  const workload: AnalystWorkload[] = roster
+    .map(analyst => {
+      const workedDays = days.filter(day => worksOnDay(analyst, day)).length;
+      const shiftHours = (workedDays * getShiftMinutes(analyst)) / 60;
+      const count = tickets.get(analyst) ?? 0;
+      return { analyst, tickets: count, shiftHours, ticketsPerHour: shiftHours > 0 ? count / shiftHours : 0 };
+    })
+    .sort((a, b) => b.ticketsPerHour - a.ticketsPerHour);
+
+  // Chamados abertos sem nenhum analista do nível exigido em escala na localidade
+  const uncovered: UncoveredIncident[] = dated
+    .filter(({ incident, opened }) => {
+      const level = getRequiredLevel(incident);
+      return !roster.some(analyst =>
+        analyst.level === level &&
+        coversLocation(analyst, incident.AssignmentGroup || '') &&
+        isAnalystOnDuty(analyst, opened)
+      );
+    })
+    .map(({ incident }) => ({ incident, level: getRequiredLevel(incident), location: getIncidentLocation(incident) }))
+    .sort((a, b) => b.incident.Opened.localeCompare(a.incident.Opened));
+
+  // Mapa de cobertura: localidades dos chamados e da escala, hora a hora
+  const locations = Array.from(new Set([
+    ...dated.map(({ incident }) => getIncidentLocation(incident)),
+    // Padrões com curinga só entram pelas localidades dos chamados que casam com eles
+    ...roster
+      .filter(analyst => analyst.location && !analyst.location.includes('*'))
+      .map(analyst => normalizeLocationName(analyst.location!))
+  ])).sort((a, b) => a.localeCompare(b));
+
+  const heatmap: CoverageHeatmapRow[] = locations.map(location => {
+    const staff = roster.filter(analyst => coversLocation(analyst, location));
+    const hours = Array.from({ length: 24 }, (_, hour) => {
+      const onDuty = days.reduce((sum, day) => {
+        // Meio da hora, para que turnos que começam ou terminam em :30 contem
+        const instant = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, 30);
+        return sum + staff.filter(analyst => isAnalystOnDuty(analyst, instant)).length;
+      }, 0);
+      return { analysts: onDuty / days.length, incidents: 0 };
+    });
+    return { location, hours };
+  });
+
+  const rowsByLocation = new Map(heatmap.map(row => [row.location, row]));
+  dated.forEach(({ incident, opened }) => {
+    const row = rowsByLocation.get(getIncidentLocation(incident));
+    if (row) row.hours[opened.getHours()].incidents++;
+  });
+
+  return {
+    workload,
+    uncovered,
+    heatmap,
+    unmatchedAssignees: Array.from(unmatched).sort((a, b) => a.localeCompare(b)),
+    periodDays
+  };
+};
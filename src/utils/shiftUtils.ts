@@ -1,16 +1,126 @@
-import { parseISO, format, isWithinInterval, set } from 'date-fns';
-import { SHIFTS } from '../types/analyst';
+import { parseISO, format } from 'date-fns';
+import { AnalystLevel, AnalystShift, SHIFTS, SHIFT_LEVELS, SHIFT_SCHEDULES, ShiftKey } from '../types/analyst';
+import { MessageKey } from './i18nMessages';
+import { t } from './i18nUtils';
+import { matchesGroupPattern } from './locationUtils';
+import { loadFromStorage, saveToStorage } from './storageUtils';
 
-export const getShiftFromTime = (dateStr: string): keyof typeof SHIFTS => {
+const SHIFT_DEFINITIONS_STORAGE_KEY = 'shift_definitions';
+
+// Localidade das definições padrão, usadas quando a localidade não tem turnos próprios
+export const DEFAULT_SHIFT_LOCATION = '';
+
+export const SHIFT_KEYS = Object.keys(SHIFTS) as ShiftKey[];
+
+export interface ShiftTime {
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+const createDefaultDefinitions = (): AnalystShift[] =>
+  SHIFT_KEYS.map(shift => ({
+    shift,
+    location: DEFAULT_SHIFT_LOCATION,
+    level: SHIFT_LEVELS.N1,
+    startTime: SHIFTS[shift].startTime,
+    endTime: SHIFTS[shift].endTime,
+    schedule: SHIFT_SCHEDULES.CONTINUOUS
+  }));
+
+let cachedDefinitions: AnalystShift[] | null = null;
+
+export const loadShiftDefinitions = (): AnalystShift[] => {
+  if (!cachedDefinitions) {
+    cachedDefinitions = loadFromStorage<AnalystShift[] | null>(SHIFT_DEFINITIONS_STORAGE_KEY, null) ?? createDefaultDefinitions();
+  }
+  return cachedDefinitions;
+};
+
+const persistDefinitions = (definitions: AnalystShift[]) => {
+  saveToStorage(SHIFT_DEFINITIONS_STORAGE_KEY, definitions);
+  cachedDefinitions = definitions;
+};
+
+// Localidades com turnos próprios, na ordem em que foram cadastradas
+export const getShiftLocations = (definitions: AnalystShift[] = loadShiftDefinitions()): string[] => {
+  return Array.from(new Set(definitions.map(definition => definition.location)))
+    .filter(location => location !== DEFAULT_SHIFT_LOCATION);
+};
+
+/**
+ * Localidade cujas definições valem para o chamado: nome exato tem
+ * prioridade sobre padrões com curinga; sem correspondência, o padrão.
+ */
+const resolveShiftLocation = (location: string, definitions: AnalystShift[]): string => {
+  const locations = getShiftLocations(definitions);
+  const trimmed = location.trim().toLowerCase();
+  return locations.find(candidate => !candidate.includes('*') && candidate.trim().toLowerCase() === trimmed) ??
+    locations.find(candidate => candidate.includes('*') && matchesGroupPattern(location, candidate)) ??
+    DEFAULT_SHIFT_LOCATION;
+};
+
+export const getLocationShifts = (
+  location: string = DEFAULT_SHIFT_LOCATION,
+  definitions: AnalystShift[] = loadShiftDefinitions()
+): Record<ShiftKey, ShiftTime> => {
+  const resolved = resolveShiftLocation(location, definitions);
+  return SHIFT_KEYS.reduce((acc, shift) => {
+    const definition =
+      definitions.find(d => d.location === resolved && d.shift === shift) ??
+      definitions.find(d => d.location === DEFAULT_SHIFT_LOCATION && d.shift === shift);
+    acc[shift] = {
+      name: getShiftName(shift),
+      startTime: definition?.startTime ?? SHIFTS[shift].startTime,
+      endTime: definition?.endTime ?? SHIFTS[shift].endTime
+    };
+    return acc;
+  }, {} as Record<ShiftKey, ShiftTime>);
+};
+
+// Substitui os turnos da localidade, preservando nível e escala já cadastrados
+export const saveLocationShifts = (location: string, shifts: Record<ShiftKey, ShiftTime>): AnalystShift[] => {
+  const definitions = loadShiftDefinitions();
+  const key = location.trim();
+  const updated = SHIFT_KEYS.map(shift => {
+    const current = definitions.find(d => d.location === key && d.shift === shift);
+    return {
+      shift,
+      location: key,
+      level: current?.level ?? SHIFT_LEVELS.N1,
+      schedule: current?.schedule ?? SHIFT_SCHEDULES.CONTINUOUS,
+      startTime: shifts[shift].startTime,
+      endTime: shifts[shift].endTime
+    };
+  });
+  const next = [...definitions.filter(d => d.location !== key), ...updated];
+  persistDefinitions(next);
+  return next;
+};
+
+export const deleteLocationShifts = (location: string): AnalystShift[] => {
+  const next = location === DEFAULT_SHIFT_LOCATION
+    ? [...loadShiftDefinitions().filter(d => d.location !== location), ...createDefaultDefinitions()]
+    : loadShiftDefinitions().filter(d => d.location !== location);
+  persistDefinitions(next);
+  return next;
+};
+
+export const getShiftFromTime = (
+  dateStr: string,
+  location: string = DEFAULT_SHIFT_LOCATION,
+  definitions: AnalystShift[] = loadShiftDefinitions()
+): ShiftKey => {
   try {
     const date = parseISO(dateStr);
     const time = format(date, 'HH:mm');
+    const shifts = getLocationShifts(location, definitions);
 
     // Check if time falls within each shift
-    if (isTimeInShift(time, SHIFTS.MORNING.startTime, SHIFTS.MORNING.endTime)) {
+    if (isTimeInShift(time, shifts.MORNING.startTime, shifts.MORNING.endTime)) {
       return 'MORNING';
     }
-    if (isTimeInShift(time, SHIFTS.AFTERNOON.startTime, SHIFTS.AFTERNOON.endTime)) {
+    if (isTimeInShift(time, shifts.AFTERNOON.startTime, shifts.AFTERNOON.endTime)) {
       return 'AFTERNOON';
     }
     return 'NIGHT';
@@ -37,13 +147,29 @@ const isTimeInShift = (time: string, shiftStart: string, shiftEnd: string): bool
   }
 };
 
-export const getShiftName = (shift: keyof typeof SHIFTS): string => {
-  return SHIFTS[shift].name;
+const SHIFT_NAME_KEYS: Record<ShiftKey, MessageKey> = {
+  MORNING: 'shift.name.MORNING',
+  AFTERNOON: 'shift.name.AFTERNOON',
+  NIGHT: 'shift.name.NIGHT'
 };
 
-export const getShiftTimes = (shift: keyof typeof SHIFTS): { start: string; end: string } => {
+const SHIFT_LEVEL_KEYS: Record<AnalystLevel, MessageKey> = {
+  N1: 'shift.level.N1',
+  N2: 'shift.level.N2',
+  N3: 'shift.level.N3'
+};
+
+export const getShiftName = (shift: ShiftKey): string => {
+  return t(SHIFT_NAME_KEYS[shift]);
+};
+
+// SHIFT_LEVELS fica gravado nas definições; este é só o rótulo exibido
+export const getShiftLevelLabel = (level: AnalystLevel): string => t(SHIFT_LEVEL_KEYS[level]);
+
+export const getShiftTimes = (shift: ShiftKey, location: string = DEFAULT_SHIFT_LOCATION): { start: string; end: string } => {
+  const { startTime, endTime } = getLocationShifts(location)[shift];
   return {
-    start: SHIFTS[shift].startTime,
-    end: SHIFTS[shift].endTime
+    start: startTime,
+    end: endTime
   };
-};
\ No newline at end of file
+};
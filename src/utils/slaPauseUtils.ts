@@ -0,0 +1,219 @@
+import { BusinessCalendar } from '../types/calendar';
+import { IngestionField, ValidationError } from '../types/ingestion';
+import { SLAPausePeriod, SLAPauseSource, StateHistoryEntry } from '../types/sla';
+import { calculateCoveredHours } from './calendarUtils';
+import { findColumnValue, findHeader } from './ingestionUtils';
+import { parseDateToISO } from './dateUtils';
+import { t } from './i18nUtils';
+import { STATE_HISTORY_STORE, withTransaction } from './indexedDbUtils';
+import { loadFromStorage } from './storageUtils';
+
+// Chave usada antes da migração para o IndexedDB
+const LEGACY_STATE_HISTORY_STORAGE_KEY = 'state_history';
+const STATE_HISTORY_RECORD_ID = 'current';
+
+interface StoredStateHistory {
+  id: string;
+  entries: StateHistoryEntry[];
+}
+
+export const STATE_HISTORY_FIELDS: IngestionField[] = [
+  { key: 'Number', labelKey: 'field.number', required: true, aliases: ['Number', 'Document key', 'documentkey', 'Incident', 'Request', 'Ticket', 'Número', 'Numero', 'Chamado'] },
+  { key: 'State', labelKey: 'field.state', required: true, aliases: ['State', 'New value', 'newvalue', 'New state', 'Status', 'Estado', 'Novo valor', 'Novo estado'] },
+  { key: 'ChangedAt', labelKey: 'field.changedAt', required: true, aliases: ['Changed at', 'ChangedAt', 'sys_created_on', 'Created', 'Updated', 'Date', 'Data', 'Data da alteração', 'Alterado em'] }
+];
+
+// Mesmos critérios de "em espera" usados no painel (hold, pending, aguardando)
+const PAUSE_KEYWORDS = ['hold', 'pending', 'pendente', 'aguardando', 'em espera', 'awaiting'];
+// Estados que retomam a contagem quando citados depois de uma pausa nas notas
+const RESUME_KEYWORDS = ['in progress', 'em andamento', 'em atendimento', 'retomad', 'resumed', 'resolved', 'resolvido', 'closed', 'fechado'];
+
+// Cabeçalho de entrada de journal: "2024-01-15 10:23:45 - Fulano (Work notes)" ou "15/01/2024 10:23"
+const JOURNAL_HEADER = /^\s*(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(?::\d{2})?|\d{1,2}\/\d{1,2}\/\d{4}[ ,]+\d{1,2}:\d{2}(?::\d{2})?)/;
+
+interface PausableTicket {
+  Number: string;
+  CommentsAndWorkNotes?: string;
+}
+
+// Caches invalidados ao importar um novo histórico
+let cachedHistory: StateHistoryEntry[] = [];
+let historyIndex: Map<string, StateHistoryEntry[]> | null = null;
+let pauseCache = new WeakMap<PausableTicket, { periods: SLAPausePeriod[]; source: SLAPauseSource }>();
+
+export const isPauseState = (state?: string): boolean => {
+  const value = (state || '').toLowerCase();
+  return PAUSE_KEYWORDS.some(keyword => value.includes(keyword));
+};
+
+export const findMissingStateHistoryColumns = (headers: string[]): string[] => {
+  return STATE_HISTORY_FIELDS
+    .filter(field => field.required && !findHeader(headers, field.aliases))
+    .map(field => t(field.labelKey));
+};
+
+export const processStateHistoryRows = (
+  rows: Record<string, unknown>[]
+): { items: StateHistoryEntry[]; errors: ValidationError[]; totalRows: number } => {
+  const items: StateHistoryEntry[] = [];
+  const errors: ValidationError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowIndex = index + 2;
+    const record: Record<string, string> = {};
+    STATE_HISTORY_FIELDS.forEach(field => {
+      record[field.key] = findColumnValue(row, field.aliases);
+    });
+
+    if (!record.Number || !record.State) {
+      errors.push({ row: rowIndex, column: !record.Number ? 'Number' : 'State', value: '', reason: t('validation.numberAndStateRequired'), severity: 'error' });
+      return;
+    }
+
+    const changedAt = parseDateToISO(record.ChangedAt);
+    if (!changedAt) {
+      errors.push({ row: rowIndex, column: 'ChangedAt', value: record.ChangedAt, reason: t('validation.changedAtInvalid'), severity: 'error' });
+      return;
+    }
+
+    items.push({ Number: record.Number.trim(), State: record.State.trim(), ChangedAt: changedAt });
+  });
+
+  return { items, errors, totalRows: rows.length };
+};
+
+const getHistoryIndex = (): Map<string, StateHistoryEntry[]> => {
+  if (historyIndex) return historyIndex;
+  historyIndex = new Map();
+  for (const entry of loadStateHistory()) {
+    const key = entry.Number.toUpperCase();
+    const list = historyIndex.get(key) ?? [];
+    list.push(entry);
+    historyIndex.set(key, list);
+  }
+  historyIndex.forEach(list => list.sort((a, b) => a.ChangedAt.localeCompare(b.ChangedAt)));
+  return historyIndex;
+};
+
+// Histórico em memória; preenchido por restoreStateHistory na abertura do dashboard
+export const loadStateHistory = (): StateHistoryEntry[] => cachedHistory;
+
+const setCachedHistory = (entries: StateHistoryEntry[]) => {
+  cachedHistory = entries;
+  historyIndex = null;
+  pauseCache = new WeakMap();
+};
+
+/**
+ * Carrega o histórico do IndexedDB (a exportação completa de auditoria não cabe
+ * na cota do localStorage). Históricos gravados no localStorage por versões
+ * anteriores são migrados na primeira carga.
+ */
+export const restoreStateHistory = async (): Promise<StateHistoryEntry[]> => {
+  const request = await withTransaction([STATE_HISTORY_STORE], 'readonly', transaction =>
+    transaction.objectStore(STATE_HISTORY_STORE).get(STATE_HISTORY_RECORD_ID)
+  );
+  const stored = request.result as StoredStateHistory | undefined;
+  if (stored) {
+    setCachedHistory(stored.entries);
+    return stored.entries;
+  }
+
+  const legacy = loadFromStorage<StateHistoryEntry[]>(LEGACY_STATE_HISTORY_STORAGE_KEY, []);
+  if (legacy.length > 0) {
+    await saveStateHistory(legacy);
+    localStorage.removeItem(LEGACY_STATE_HISTORY_STORAGE_KEY);
+  }
+  return legacy;
+};
+
+// Atualiza o cache apenas depois que a gravação foi confirmada
+export const saveStateHistory = async (entries: StateHistoryEntry[]): Promise<void> => {
+  const record: StoredStateHistory = { id: STATE_HISTORY_RECORD_ID, entries };
+  await withTransaction([STATE_HISTORY_STORE], 'readwrite', transaction => {
+    transaction.objectStore(STATE_HISTORY_STORE).put(record);
+  });
+  setCachedHistory(entries);
+};
+
+const periodsFromHistory = (entries: StateHistoryEntry[]): SLAPausePeriod[] => {
+  const periods: SLAPausePeriod[] = [];
+  let pausedAt: string | null = null;
+  for (const entry of entries) {
+    if (isPauseState(entry.State)) {
+      pausedAt = pausedAt ?? entry.ChangedAt;
+    } else if (pausedAt) {
+      periods.push({ start: pausedAt, end: entry.ChangedAt });
+      pausedAt = null;
+    }
+  }
+  if (pausedAt) periods.push({ start: pausedAt });
+  return periods;
+};
+
+// Última palavra-chave citada na entrada define se ela pausa ou retoma ("de Em Espera para Em Andamento")
+const lastKeywordIndex = (text: string, keywords: string[]) =>
+  Math.max(...keywords.map(keyword => text.lastIndexOf(keyword)));
+
+/**
+ * Sem histórico importado, reconstrói as pausas a partir das entradas datadas
+ * de comentários/notas de trabalho que mencionam a mudança de estado.
+ */
+export const parsePausePeriodsFromNotes = (notes?: string): SLAPausePeriod[] => {
+  if (!notes) return [];
+
+  const entries: { at: string; text: string }[] = [];
+  for (const line of notes.split('\n')) {
+    const header = line.match(JOURNAL_HEADER);
+    const at = header ? parseDateToISO(header[1].replace(',', '')) : '';
+    if (header && at) {
+      entries.push({ at, text: line.slice(header[0].length).toLowerCase() });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].text += `\n${line.toLowerCase()}`;
+    }
+  }
+
+  // Journals costumam vir do mais recente para o mais antigo
+  entries.sort((a, b) => a.at.localeCompare(b.at));
+
+  const transitions: StateHistoryEntry[] = [];
+  for (const { at, text } of entries) {
+    const pauseIndex = lastKeywordIndex(text, PAUSE_KEYWORDS);
+    const resumeIndex = lastKeywordIndex(text, RESUME_KEYWORDS);
+    if (pauseIndex < 0 && resumeIndex < 0) continue;
+    transitions.push({ Number: '', State: pauseIndex > resumeIndex ? 'On Hold' : 'In Progress', ChangedAt: at });
+  }
+  return periodsFromHistory(transitions);
+};
+
+// Pausas do chamado: histórico importado tem prioridade sobre as notas
+export const getPausePeriods = (ticket: PausableTicket): { periods: SLAPausePeriod[]; source: SLAPauseSource } => {
+  const cached = pauseCache.get(ticket);
+  if (cached) return cached;
+
+  const history = getHistoryIndex().get((ticket.Number || '').toUpperCase());
+  let result: { periods: SLAPausePeriod[]; source: SLAPauseSource };
+  if (history && history.length > 0) {
+    result = { periods: periodsFromHistory(history), source: 'history' };
+  } else {
+    const periods = parsePausePeriodsFromNotes(ticket.CommentsAndWorkNotes);
+    result = { periods, source: periods.length > 0 ? 'comments' : 'none' };
+  }
+  pauseCache.set(ticket, result);
+  return result;
+};
+
+// Horas cobertas pelo calendário em que o chamado esteve em espera entre início e fim
+export const calculatePausedHours = (
+  ticket: PausableTicket,
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar
+): number => {
+  return getPausePeriods(ticket).periods.reduce((total, period) => {
+    const from = Math.max(new Date(period.start).getTime(), start.getTime());
+    const to = Math.min(period.end ? new Date(period.end).getTime() : end.getTime(), end.getTime());
+    if (isNaN(from) || isNaN(to) || to <= from) return total;
+    return total + calculateCoveredHours(new Date(from), new Date(to), calendar);
+  }, 0);
+};
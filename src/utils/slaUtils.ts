@@ -0,0 +1,257 @@
+import { Incident } from '../types/incident';
+import { Request, REQUEST_PRIORITIES, normalizeRequestPriority } from '../types/request';
+import { SLAPolicy, SLAPolicyScope, SLAPolicyTarget } from '../types/sla';
+import { BusinessCalendar } from '../types/calendar';
+import {
+  addCoveredHours,
+  calculateCoveredHours,
+  getCalendarById,
+  getLocationCalendar,
+  loadCalendars
+} from './calendarUtils';
+import { t } from './i18nUtils';
+import { MessageKey } from './i18nMessages';
+import { normalizePriority } from './incidentUtils';
+import { calculatePausedHours } from './slaPauseUtils';
+import { normalizeLocationName } from './locationUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+
+const SLA_POLICIES_STORAGE_KEY = 'sla_policies';
+
+export const SLA_PRIORITIES: Record<SLAPolicyTarget, Array<{ value: string; labelKey: MessageKey }>> = {
+  incidents: [
+    { value: 'P1', labelKey: 'slaPolicy.priority.P1' },
+    { value: 'P2', labelKey: 'slaPolicy.priority.P2' },
+    { value: 'P3', labelKey: 'slaPolicy.priority.P3' },
+    { value: 'P4', labelKey: 'slaPolicy.priority.P4' }
+  ],
+  requests: (Object.keys(REQUEST_PRIORITIES) as Array<keyof typeof REQUEST_PRIORITIES>).map(value => ({
+    value,
+    labelKey: `slaPolicy.priority.${value}` as const
+  }))
+};
+
+// Metas em horas; requests: 3, 5 e 7 dias
+const DEFAULT_TARGETS: Record<SLAPolicyTarget, Record<string, number>> = {
+  incidents: { P1: 1, P2: 4, P3: 36, P4: 72 },
+  requests: { HIGH: 72, MEDIUM: 120, LOW: 168 }
+};
+
+// Prioridade não reconhecida usa a meta de P3 / Média
+const FALLBACK_PRIORITY: Record<SLAPolicyTarget, string> = {
+  incidents: 'P3',
+  requests: 'MEDIUM'
+};
+
+export const DEFAULT_SLA_POLICY_IDS: Record<SLAPolicyTarget, string> = {
+  incidents: 'sla-default-incidents',
+  requests: 'sla-default-requests'
+};
+
+export const isDefaultSLAPolicy = (id: string): boolean => {
+  return Object.values(DEFAULT_SLA_POLICY_IDS).includes(id);
+};
+
+const createDefaultPolicy = (target: SLAPolicyTarget): SLAPolicy => ({
+  id: DEFAULT_SLA_POLICY_IDS[target],
+  name: t(target === 'incidents' ? 'slaPolicy.defaultName.incidents' : 'slaPolicy.defaultName.requests'),
+  target,
+  location: '',
+  category: '',
+  catalogItem: '',
+  calendarId: '',
+  targets: { ...DEFAULT_TARGETS[target] },
+  updatedAt: ''
+});
+
+// Cache em memória: o cálculo de SLA roda para cada chamado em várias telas
+let cachedPolicies: SLAPolicy[] | null = null;
+
+export const loadSLAPolicies = (): SLAPolicy[] => {
+  if (!cachedPolicies) {
+    const stored = loadFromStorage<SLAPolicy[]>(SLA_POLICIES_STORAGE_KEY, []);
+    const defaults = (['incidents', 'requests'] as SLAPolicyTarget[])
+      .filter(target => !stored.some(policy => policy.id === DEFAULT_SLA_POLICY_IDS[target]))
+      .map(createDefaultPolicy);
+    cachedPolicies = [...defaults, ...stored];
+  }
+  return cachedPolicies;
+};
+
+const persistPolicies = (policies: SLAPolicy[]) => {
+  cachedPolicies = policies;
+  saveToStorage(SLA_POLICIES_STORAGE_KEY, policies);
+};
+
+export const saveSLAPolicy = (policy: Omit<SLAPolicy, 'id' | 'updatedAt'> & { id?: string }): SLAPolicy => {
+  const policies = [...loadSLAPolicies()];
+  const saved: SLAPolicy = {
+    ...policy,
+    id: policy.id ?? createId('sla'),
+    updatedAt: new Date().toISOString()
+  };
+  const index = policies.findIndex(p => p.id === saved.id);
+  if (index === -1) {
+    policies.push(saved);
+  } else {
+    policies[index] = saved;
+  }
+  persistPolicies(policies);
+  return saved;
+};
+
+export const deleteSLAPolicy = (id: string): void => {
+  if (isDefaultSLAPolicy(id)) return;
+  persistPolicies(loadSLAPolicies().filter(policy => policy.id !== id));
+};
+
+export const resetDefaultSLAPolicy = (target: SLAPolicyTarget): SLAPolicy => {
+  const policies = loadSLAPolicies().map(policy =>
+    policy.id === DEFAULT_SLA_POLICY_IDS[target] ? createDefaultPolicy(target) : policy
+  );
+  persistPolicies(policies);
+  return createDefaultPolicy(target);
+};
+
+const getDefaultPolicy = (target: SLAPolicyTarget): SLAPolicy => {
+  return loadSLAPolicies().find(policy => policy.id === DEFAULT_SLA_POLICY_IDS[target]) ?? createDefaultPolicy(target);
+};
+
+const normalizeText = (value?: string) => (value || '').trim().toLowerCase();
+
+const matchesCriterion = (criterion: string, value: string | undefined, normalize = normalizeText) => {
+  return !criterion.trim() || normalize(criterion) === normalize(value);
+};
+
+const normalizeLocation = (value?: string) => normalizeText(normalizeLocationName(value || ''));
+
+/**
+ * Política aplicável ao escopo informado. Entre as que casam, vence a mais
+ * específica (mais critérios preenchidos); a padrão casa com qualquer chamado.
+ */
+export const findSLAPolicy = (target: SLAPolicyTarget, scope: SLAPolicyScope = {}): SLAPolicy => {
+  const policies = loadSLAPolicies().filter(policy => policy.target === target);
+  const specificity = (policy: SLAPolicy) =>
+    [policy.location, policy.category, policy.catalogItem].filter(value => value.trim()).length;
+
+  const match = policies
+    .filter(policy =>
+      matchesCriterion(policy.location, scope.location, normalizeLocation) &&
+      matchesCriterion(policy.category, scope.category) &&
+      matchesCriterion(policy.catalogItem, scope.catalogItem)
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+  return match ?? getDefaultPolicy(target);
+};
+
+const getTargetHours = (policy: SLAPolicy, priority: string): number => {
+  const defaultPolicy = getDefaultPolicy(policy.target);
+  return policy.targets[priority]
+    ?? defaultPolicy.targets[priority]
+    ?? defaultPolicy.targets[FALLBACK_PRIORITY[policy.target]]
+    ?? DEFAULT_TARGETS[policy.target][FALLBACK_PRIORITY[policy.target]];
+};
+
+// Meta da política padrão, usada nos textos agregados por prioridade
+export const getDefaultSLAHours = (target: SLAPolicyTarget, priority: string): number => {
+  return getTargetHours(getDefaultPolicy(target), priority);
+};
+
+const findIncidentPolicy = (incident: Incident): SLAPolicy => {
+  return findSLAPolicy('incidents', {
+    location: incident.Location,
+    category: incident.Category
+  });
+};
+
+const findRequestPolicy = (request: Request): SLAPolicy => {
+  return findSLAPolicy('requests', {
+    location: request.Location,
+    category: request.Category,
+    catalogItem: request.RequestItem
+  });
+};
+
+// Calendário da política, senão o da localidade; sem nenhum, 24x7
+const resolveCalendar = (policy: SLAPolicy, location?: string): BusinessCalendar => {
+  return getCalendarById(policy.calendarId) ?? getLocationCalendar(location) ?? loadCalendars()[0];
+};
+
+export const getIncidentSLAHours = (incident: Incident): number => {
+  return getTargetHours(findIncidentPolicy(incident), normalizePriority(incident.Priority));
+};
+
+export const getRequestSLAHours = (request: Request): number => {
+  return getTargetHours(findRequestPolicy(request), normalizeRequestPriority(request.Priority));
+};
+
+export const getRequestSLADays = (request: Request): number => {
+  return getRequestSLAHours(request) / 24;
+};
+
+export const getIncidentSLACalendar = (incident: Incident): BusinessCalendar => {
+  return resolveCalendar(findIncidentPolicy(incident), incident.Location);
+};
+
+// Horas cobertas entre abertura e fim; líquidas descontam os períodos em espera
+const getElapsedHours = (
+  ticket: Incident | Request,
+  opened: Date,
+  end: Date,
+  calendar: BusinessCalendar,
+  netOfPause: boolean
+): number => {
+  const covered = calculateCoveredHours(opened, end, calendar);
+  if (!netOfPause || isNaN(covered)) return covered;
+  return Math.max(0, covered - calculatePausedHours(ticket, opened, end, calendar));
+};
+
+/**
+ * Horas cobertas (inteiras, como differenceInHours) entre a abertura e o fim
+ * informado, descontando fora do expediente e feriados do calendário aplicável.
+ * Por padrão o tempo em espera também é descontado (SLA líquido).
+ */
+export const getIncidentSLAElapsedHours = (
+  incident: Incident,
+  opened: Date,
+  end: Date,
+  netOfPause = true
+): number => {
+  return Math.trunc(getElapsedHours(incident, opened, end, getIncidentSLACalendar(incident), netOfPause));
+};
+
+export const getRequestSLAElapsedDays = (
+  request: Request,
+  opened: Date,
+  end: Date,
+  netOfPause = true
+): number => {
+  const calendar = resolveCalendar(findRequestPolicy(request), request.Location);
+  return Math.trunc(getElapsedHours(request, opened, end, calendar, netOfPause) / 24);
+};
+
+// Vencimento do SLA contando apenas horas cobertas; pausas até agora adiam o prazo
+export const getIncidentSLADeadline = (incident: Incident, opened: Date): Date => {
+  const calendar = getIncidentSLACalendar(incident);
+  const paused = calculatePausedHours(incident, opened, new Date(), calendar);
+  return addCoveredHours(opened, getIncidentSLAHours(incident) + paused, calendar);
+};
+
+export const formatSLAHours = (hours: number): string => {
+  if (hours >= 24 && hours % 24 === 0) return t('sla.targetDays', { count: hours / 24 });
+  return `${hours}h`;
+};
+
+// Prazos das solicitações em dias, ex.: "1 dia", "3 dias"
+export const formatSLADays = (days: number): string => t(days === 1 ? 'sla.day' : 'sla.days', { count: days });
+
+// Tempo além da meta em dias e horas, ex.: "2 dias e 3 horas"
+export const formatSLAOverdue = (hours: number): string => {
+  const formatHours = (value: number) => t(value === 1 ? 'sla.hour' : 'sla.hours', { count: value });
+  const days = Math.floor(hours / 24);
+  const remainingHours = hours % 24;
+  if (days === 0) return formatHours(hours);
+  const daysText = t(days === 1 ? 'sla.day' : 'sla.days', { count: days });
+  return remainingHours > 0 ? t('sla.daysAndHours', { days: daysText, hours: formatHours(remainingHours) }) : daysText;
+};
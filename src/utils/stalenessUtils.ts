@@ -0,0 +1,159 @@
+import { parseISO } from 'date-fns';
+import { Incident } from '../types/incident';
+import { StaleIncident, StalenessRule, StalenessState } from '../types/staleness';
+import { t } from './i18nUtils';
+import { MessageKey } from './i18nMessages';
+import { isCancelled, normalizePriority } from './incidentUtils';
+import { matchesGroupPattern, normalizeLocationName } from './locationUtils';
+import { isPauseState } from './slaPauseUtils';
+import { createId, loadFromStorage, saveToStorage } from './storageUtils';
+
+const STALENESS_RULES_STORAGE_KEY = 'staleness_rules';
+
+export const STALENESS_PRIORITIES = ['P1', 'P2', 'P3', 'P4', 'Não definido'];
+
+export const STALENESS_STATE_OPTIONS: { value: StalenessState; labelKey: MessageKey }[] = [
+  { value: 'active', labelKey: 'staleness.state.active' },
+  { value: 'onHold', labelKey: 'staleness.state.onHold' }
+];
+
+// 'Não definido' fica gravado nas regras; na tela aparece traduzido
+export const getStalenessPriorityLabel = (priority: string): string =>
+  priority === 'Não definido' ? t('staleness.undefinedPriority') : priority;
+
+// Estados acompanhados antes das regras: aberto, em andamento ou atribuído
+const ACTIVE_STATE_KEYWORDS = ['open', 'new', 'in progress', 'assigned', 'aberto', 'em andamento', 'atribuído'];
+
+// P1 a cada 2h e P4 a cada 5 dias; sem prioridade reconhecida, as 48h de antes
+const DEFAULT_RULES: [priority: string, state: StalenessState, maxHours: number][] = [
+  ['P1', 'active', 2],
+  ['P2', 'active', 8],
+  ['P3', 'active', 48],
+  ['P4', 'active', 120],
+  ['', 'active', 48],
+  ['P1', 'onHold', 24],
+  ['P2', 'onHold', 48],
+  ['', 'onHold', 168]
+];
+
+const createDefaultRules = (): StalenessRule[] =>
+  DEFAULT_RULES.map(([priority, state, maxHours], index) => ({
+    id: `staleness-rule-default-${index + 1}`,
+    priority,
+    state,
+    location: '',
+    maxHours,
+    enabled: true
+  }));
+
+let cachedRules: StalenessRule[] | null = null;
+
+export const loadStalenessRules = (): StalenessRule[] => {
+  if (!cachedRules) {
+    cachedRules = loadFromStorage<StalenessRule[] | null>(STALENESS_RULES_STORAGE_KEY, null) ?? createDefaultRules();
+  }
+  return cachedRules;
+};
+
+export const saveStalenessRules = (rules: StalenessRule[]): void => {
+  saveToStorage(STALENESS_RULES_STORAGE_KEY, rules);
+  cachedRules = rules;
+};
+
+export const resetStalenessRules = (): StalenessRule[] => {
+  const rules = createDefaultRules();
+  saveStalenessRules(rules);
+  return rules;
+};
+
+export const createStalenessRule = (): StalenessRule => ({
+  id: createId('staleness-rule'),
+  priority: '',
+  state: 'active',
+  location: '',
+  maxHours: 48,
+  enabled: true
+});
+
+// Grupo de estado acompanhado pelas regras; fechados, cancelados e demais estados ficam de fora
+export const getStalenessState = (state: string): StalenessState | null => {
+  if (!state || isCancelled(state)) return null;
+  if (isPauseState(state)) return 'onHold';
+  const value = state.toLowerCase();
+  return ACTIVE_STATE_KEYWORDS.some(keyword => value.includes(keyword)) ? 'active' : null;
+};
+
+const matchesRuleLocation = (group: string, location: string): boolean => {
+  const pattern = location.trim();
+  if (!pattern) return true;
+  return matchesGroupPattern(group, pattern) ||
+    normalizeLocationName(group).toLowerCase() === pattern.toLowerCase();
+};
+
+// Localidade pesa mais que prioridade, que pesa mais que estado; nome exato vence curinga
+const getRuleSpecificity = (rule: StalenessRule): number =>
+  (rule.location.trim() ? (rule.location.includes('*') ? 4 : 8) : 0) +
+  (rule.priority ? 2 : 0) +
+  (rule.state ? 1 : 0);
+
+/**
+ * Regra de atualização que vale para o chamado: entre as regras ativas que
+ * casam, a mais específica; em caso de empate, a primeira da tabela.
+ */
+export const findStalenessRule = (
+  incident: Incident,
+  state: StalenessState,
+  rules: StalenessRule[] = loadStalenessRules()
+): StalenessRule | undefined => {
+  const priority = normalizePriority(incident.Priority);
+  let best: StalenessRule | undefined;
+  for (const rule of rules) {
+    if (!rule.enabled || rule.maxHours <= 0) continue;
+    if (rule.priority && rule.priority !== priority) continue;
+    if (rule.state && rule.state !== state) continue;
+    if (!matchesRuleLocation(incident.AssignmentGroup || '', rule.location)) continue;
+    if (!best || getRuleSpecificity(rule) > getRuleSpecificity(best)) best = rule;
+  }
+  return best;
+};
+
+export const findStaleIncidents = (
+  incidents: Incident[],
+  rules: StalenessRule[] = loadStalenessRules(),
+  now: Date = new Date()
+): StaleIncident[] => {
+  const stale: StaleIncident[] = [];
+  incidents.forEach(incident => {
+    const state = getStalenessState(incident.State);
+    if (!state || !incident.Updated) return;
+    const lastUpdate = parseISO(incident.Updated);
+    if (isNaN(lastUpdate.getTime())) return;
+
+    const rule = findStalenessRule(incident, state, rules);
+    if (!rule) return;
+    const hoursSinceUpdate = (now.getTime() - lastUpdate.getTime()) / 3600000;
+    if (hoursSinceUpdate > rule.maxHours) {
+      stale.push({ incident, rule, state, hoursSinceUpdate });
+    }
+  });
+  // Mais atrasados primeiro, proporcionalmente ao limite de cada regra
+  return stale.sort((a, b) => b.hoursSinceUpdate / b.rule.maxHours - a.hoursSinceUpdate / a.rule.maxHours);
+};
+
+export const formatStalenessHours = (hours: number): string => {
+  const rounded = Math.round(hours);
+  if (rounded < 24) return `${rounded}h`;
+  const days = Math.floor(rounded / 24);
+  const remaining = rounded % 24;
+  const daysText = t(days === 1 ? 'staleness.day' : 'staleness.days', { count: days });
+  return remaining > 0 ? t('staleness.daysAndHours', { days: daysText, hours: remaining }) : daysText;
+};
+
+export const describeStalenessRule = (rule: StalenessRule): string => {
+  const state = rule.state ? t(`staleness.state.${rule.state}`) : t('staleness.anyState');
+  return [
+    rule.priority ? getStalenessPriorityLabel(rule.priority) : t('staleness.anyPriority'),
+    state,
+    rule.location.trim() || t('staleness.anyLocation')
+  ].join(' · ') + `: ${t('staleness.upTo', { time: formatStalenessHours(rule.maxHours) })}`;
+};
@@ -0,0 +1,17 @@
+export const loadFromStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.warn(`Não foi possível ler "${key}" do armazenamento local:`, error);
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T>(key: string, value: T): void => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
+
+export const createId = (prefix: string): string => {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -0,0 +1,161 @@
+import { Incident } from '../types/incident';
+import { AssetClassId, AssetClassOverlap, AssetClassTaxonomy } from '../types/taxonomy';
+import { loadFromStorage, saveToStorage } from './storageUtils';
+import { t } from './i18nUtils';
+import { MessageKey } from './i18nMessages';
+
+const TAXONOMY_STORAGE_KEY = 'asset_taxonomy';
+
+export const ASSET_CLASS_IDS: AssetClassId[] = ['hardware', 'software', 'network', 'telephony', 'access'];
+
+export const ASSET_CLASS_LABEL_KEYS: Record<AssetClassId, MessageKey> = {
+  hardware: 'taxonomy.class.hardware',
+  software: 'taxonomy.class.software',
+  network: 'taxonomy.class.network',
+  telephony: 'taxonomy.class.telephony',
+  access: 'taxonomy.class.access'
+};
+
+type DefaultClass = [id: AssetClassId, terms: string[]];
+
+// Listas originais das análises de hardware e software; termos de rede saíram do hardware para a própria classe
+const DEFAULT_CLASSES: DefaultClass[] = [
+  ['hardware', [
+    'hardware', 'equipamento', 'computador', 'desktop', 'notebook', 'laptop', 'impressora', 'printer', 'monitor',
+    'teclado', 'keyboard', 'mouse', 'scanner', 'servidor', 'server', 'workstation', 'estação', 'hd', 'ssd',
+    'memória', 'memory', 'ram', 'processador', 'cpu', 'placa', 'board', 'bateria', 'battery', 'carregador',
+    'charger', 'cabo', 'cable'
+  ]],
+  ['software', [
+    'software', 'programa', 'aplicativo', 'sistema', 'app', 'aplicação', 'erp', 'sap', 'oracle', 'windows', 'office',
+    'excel', 'word', 'outlook', 'teams', 'browser', 'navegador', 'chrome', 'firefox', 'edge', 'internet explorer',
+    'ie', 'email', 'e-mail', 'correio', 'banco de dados', 'database', 'sistema operacional', 'os'
+  ]],
+  ['network', [
+    'rede', 'network', 'wifi', 'wi-fi', 'wireless', 'ethernet', 'switch', 'roteador', 'router', 'vpn', 'firewall',
+    'link', 'internet', 'dns', 'dhcp', 'cabo de rede'
+  ]],
+  ['telephony', [
+    'telefone', 'telefonia', 'ramal', 'voip', 'celular', 'phone', 'linha telefônica', 'chip', 'headset', 'fone'
+  ]],
+  ['access', [
+    'acesso', 'senha', 'password', 'login', 'permissão', 'permission', 'bloqueio', 'bloqueado', 'desbloqueio',
+    'mfa', 'token', 'active directory', 'conta', 'account'
+  ]]
+];
+
+const createDefaultTaxonomy = (): AssetClassTaxonomy[] =>
+  DEFAULT_CLASSES.map(([id, terms]) => ({
+    id,
+    // Sem nome próprio, a classe aparece com o nome traduzido
+    label: '',
+    keywords: terms.map(term => ({ term, weight: 1 })),
+    negativeKeywords: [],
+    threshold: 1
+  }));
+
+let cachedTaxonomy: AssetClassTaxonomy[] | null = null;
+
+export const loadAssetTaxonomy = (): AssetClassTaxonomy[] => {
+  if (!cachedTaxonomy) {
+    cachedTaxonomy = loadFromStorage<AssetClassTaxonomy[] | null>(TAXONOMY_STORAGE_KEY, null) ?? createDefaultTaxonomy();
+  }
+  return cachedTaxonomy;
+};
+
+export const saveAssetTaxonomy = (taxonomy: AssetClassTaxonomy[]): void => {
+  saveToStorage(TAXONOMY_STORAGE_KEY, taxonomy);
+  cachedTaxonomy = taxonomy;
+};
+
+export const resetAssetTaxonomy = (): AssetClassTaxonomy[] => {
+  const taxonomy = createDefaultTaxonomy();
+  saveAssetTaxonomy(taxonomy);
+  return taxonomy;
+};
+
+export const getAssetClassLabel = (id: AssetClassId, taxonomy: AssetClassTaxonomy[] = loadAssetTaxonomy()): string => {
+  return taxonomy.find(assetClass => assetClass.id === id)?.label || t(ASSET_CLASS_LABEL_KEYS[id]);
+};
+
+const termPatterns = new Map<string, RegExp>();
+
+// Plural da última palavra: 'monitor' → 'monitores', 'impressora' → 'impressoras', 'cartão' → 'cartões'
+const toPluralPattern = (escaped: string): string => {
+  if (escaped.endsWith('ão')) return `${escaped.slice(0, -2)}(?:ão|ões|ães)`;
+  return /\p{L}$/u.test(escaped) ? `${escaped}(?:e?s)?` : escaped;
+};
+
+// Palavra inteira (ou seu plural): evita que 'ram' case com 'ramal' ou 'os' com 'acessos'
+const containsTerm = (text: string, term: string): boolean => {
+  const key = term.trim().toLowerCase();
+  if (!key) return false;
+  let pattern = termPatterns.get(key);
+  if (!pattern) {
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    pattern = new RegExp(`(?<![\\p{L}\\p{N}])${toPluralPattern(escaped)}(?![\\p{L}\\p{N}])`, 'iu');
+    termPatterns.set(key, pattern);
+  }
+  return pattern.test(text);
+};
+
+const getClassificationText = (incident: Incident): string =>
+  [incident.Category, incident.Subcategory, incident.ShortDescription].filter(Boolean).join(' \n ').toLowerCase();
+
+export const scoreAssetClass = (incident: Incident, assetClass: AssetClassTaxonomy): number => {
+  const text = getClassificationText(incident);
+  if (assetClass.negativeKeywords.some(term => containsTerm(text, term))) return 0;
+  return assetClass.keywords.reduce((score, { term, weight }) => (containsTerm(text, term) ? score + weight : score), 0);
+};
+
+// Classificações por taxonomia; uma nova lista salva invalida naturalmente o cache anterior
+const classificationCache = new WeakMap<AssetClassTaxonomy[], WeakMap<Incident, AssetClassId[]>>();
+
+/**
+ * Classes de ativo do chamado. Um chamado pode receber várias classes:
+ * basta que a soma dos pesos em cada uma atinja o limiar dela.
+ */
+export const classifyIncident = (incident: Incident, taxonomy: AssetClassTaxonomy[] = loadAssetTaxonomy()): AssetClassId[] => {
+  let cache = classificationCache.get(taxonomy);
+  if (!cache) {
+    cache = new WeakMap();
+    classificationCache.set(taxonomy, cache);
+  }
+  let labels = cache.get(incident);
+  if (!labels) {
+    labels = taxonomy
+      .filter(assetClass => {
+        const score = scoreAssetClass(incident, assetClass);
+        return score > 0 && score >= assetClass.threshold;
+      })
+      .map(assetClass => assetClass.id);
+    cache.set(incident, labels);
+  }
+  return labels;
+};
+
+export const matchesAssetClass = (
+  incident: Incident,
+  id: AssetClassId,
+  taxonomy: AssetClassTaxonomy[] = loadAssetTaxonomy()
+): boolean => {
+  return classifyIncident(incident, taxonomy).includes(id);
+};
+
+export const buildAssetClassOverlap = (incidents: Incident[], taxonomy: AssetClassTaxonomy[]): AssetClassOverlap => {
+  const classes = taxonomy.map(assetClass => assetClass.id);
+  const matrix = Object.fromEntries(
+    classes.map(row => [row, Object.fromEntries(classes.map(column => [column, 0]))])
+  ) as AssetClassOverlap['matrix'];
+  let unclassified = 0;
+  let multiLabel = 0;
+
+  incidents.forEach(incident => {
+    const labels = classifyIncident(incident, taxonomy);
+    if (labels.length === 0) unclassified++;
+    if (labels.length > 1) multiLabel++;
+    labels.forEach(row => labels.forEach(column => { matrix[row][column]++; }));
+  });
+
+  return { classes, matrix, unclassified, multiLabel };
+};
@@ -0,0 +1,49 @@
+import { IngestionWorkerRequest, IngestionWorkerResponse, SpreadsheetData } from '../types/ingestion';
+import { detectDateColumns } from '../utils/dateUtils';
+import { setActiveLanguage, t } from '../utils/i18nUtils';
+import { processRows, readImportFiles } from '../utils/ingestionUtils';
+
+// Intervalo (em linhas) entre mensagens de progresso enviadas à tela
+const PROGRESS_INTERVAL = 500;
+
+// Planilha lida no passo 'parse', mantida aqui até o processamento
+let data: SpreadsheetData | null = null;
+
+const post = (message: IngestionWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<IngestionWorkerRequest>) => {
+  const request = event.data;
+  setActiveLanguage(request.language);
+
+  try {
+    if (request.type === 'parse') {
+      data = await readImportFiles(request.files, (processed, total) => {
+        post({ type: 'progress', progress: { stage: 'reading', processed, total } });
+      });
+      post({
+        type: 'parsed',
+        headers: data.headers,
+        previewRows: data.rows.slice(0, request.previewRows),
+        totalRows: data.rows.length,
+        dateDetections: detectDateColumns(data.headers, data.rows)
+      });
+      return;
+    }
+
+    if (!data) {
+      throw new Error(t('import.error.noFileLoaded'));
+    }
+
+    const result = processRows(data.rows, request.target, request.profile, request.priorityModel, (processed, total) => {
+      if (processed % PROGRESS_INTERVAL === 0 || processed === total) {
+        post({ type: 'progress', progress: { stage: 'processing', processed, total } });
+      }
+    });
+    data = null;
+    post({ type: 'processed', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : t('import.error.processFailed') });
+  }
+};